@@ -19,10 +19,19 @@ export interface BotFilters {
   searchTerm: string;
 }
 
+/**
+ * Bots per category and capability, as returned by catalog.search
+ */
+export interface BotFacets {
+  categories: Record<string, number>;
+  capabilities: Record<string, number>;
+}
+
 interface BotMarketplaceFilterProps {
   onFiltersChange: (filters: BotFilters) => void;
   totalBots?: number;
   filteredBots?: number;
+  facets?: BotFacets;
 }
 
 const BOT_CATEGORIES = [
@@ -55,6 +64,7 @@ export function BotMarketplaceFilter({
   onFiltersChange,
   totalBots = 0,
   filteredBots = 0,
+  facets,
 }: BotMarketplaceFilterProps) {
   const [filters, setFilters] = useState<BotFilters>({
     categories: [],
@@ -122,7 +132,8 @@ export function BotMarketplaceFilter({
     filters.categories.length +
     filters.capabilities.length +
     (filters.rating > 0 ? 1 : 0) +
-    (filters.searchTerm ? 1 : 0);
+    (filters.searchTerm ? 1 : 0) +
+    (filters.priceRange[0] > 0 || filters.priceRange[1] < 100 ? 1 : 0);
 
   const displayedCategories = showMoreCategories
     ? BOT_CATEGORIES
@@ -157,7 +168,7 @@ export function BotMarketplaceFilter({
           </button>
         </div>
         <CardDescription className="text-purple-300">
-          {filteredBots > 0
+          {activeFilterCount > 0
             ? `Showing ${filteredBots} of ${totalBots} bots`
             : `${totalBots} bots available`}
         </CardDescription>
@@ -193,6 +204,7 @@ export function BotMarketplaceFilter({
                   <span className="text-lg">{category.icon}</span>
                   <span className="text-sm text-purple-200 group-hover:text-purple-100">
                     {category.label}
+                    {facets && ` (${facets.categories[category.id] ?? 0})`}
                   </span>
                 </label>
               ))}
@@ -224,6 +236,7 @@ export function BotMarketplaceFilter({
                   <span className="text-lg">{capability.icon}</span>
                   <span className="text-sm text-purple-200 group-hover:text-purple-100">
                     {capability.label}
+                    {facets && ` (${facets.capabilities[capability.id] ?? 0})`}
                   </span>
                 </label>
               ))}
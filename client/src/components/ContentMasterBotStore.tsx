@@ -7,12 +7,19 @@ import { Check, Zap, BookOpen, Music, Globe, Users, BarChart3, ArrowRight } from
 interface ContentMasterBotStoreProps {
   onPurchase?: () => void;
   isPurchased?: boolean;
+  // Length of the free trial the user can still start; omit when not eligible
+  trialDays?: number;
+  onStartTrial?: () => void;
 }
 
 export const ContentMasterBotStore: React.FC<ContentMasterBotStoreProps> = ({
   onPurchase,
   isPurchased = false,
+  trialDays,
+  onStartTrial,
 }) => {
+  const canStartTrial = !isPurchased && !!trialDays && !!onStartTrial;
+
   const [selectedPlan, setSelectedPlan] = useState<"monthly" | "lifetime">("monthly");
 
   const features = [
@@ -126,6 +133,23 @@ export const ContentMasterBotStore: React.FC<ContentMasterBotStoreProps> = ({
               <Button className="w-full" disabled={isPurchased} onClick={onPurchase}>
                 {isPurchased ? "Already Purchased" : "Subscribe Now"}
               </Button>
+              {canStartTrial && (
+                <div className="space-y-2">
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      onStartTrial?.();
+                    }}
+                  >
+                    Start free trial
+                  </Button>
+                  <p className="text-xs text-center text-muted-foreground">
+                    {trialDays} days free, then $29/month unless you cancel
+                  </p>
+                </div>
+              )}
               <ul className="space-y-3 text-sm">
                 <li className="flex items-center gap-2">
                   <Check className="w-4 h-4 text-green-600" />
@@ -276,7 +300,9 @@ export const ContentMasterBotStore: React.FC<ContentMasterBotStoreProps> = ({
             },
             {
               q: "Is there a free trial?",
-              a: "We offer a limited free tier with basic features. Upgrade to monthly or lifetime for full access to all six bots and unlimited content generation.",
+              a: canStartTrial
+                ? `Yes. Try the monthly plan free for ${trialDays} days. You are billed when the trial ends unless you cancel before then.`
+                : "We offer a limited free tier with basic features. Upgrade to monthly or lifetime for full access to all six bots and unlimited content generation.",
             },
             {
               q: "What if I need help?",
@@ -4,7 +4,7 @@
  * Integrated with BotDashboard for bot-specific training
  */
 
-import { useState, useRef } from "react";
+import { useEffect, useState, useRef } from "react";
 import { trpc } from "@/lib/trpc";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -20,9 +20,40 @@ interface UploadedFile {
   uploadedAt: Date;
   status: "uploading" | "processing" | "completed" | "failed";
   progress: number;
+  // Set once uploaded; its processing job is followed by entry
+  entryId?: number;
+  // Processing stage, e.g. "extracting"
+  stage?: string;
   error?: string;
 }
 
+const SUPPORTED_TYPES = [
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "text/markdown",
+];
+// Browsers often report CSV and Markdown files with no type
+const SUPPORTED_EXTENSIONS = [".pdf", ".txt", ".csv", ".docx", ".md", ".markdown"];
+
+// Base64 of the raw bytes, built in chunks to stay within the call stack limit
+async function readAsBase64(file: globalThis.File) {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function stageLabel(stage?: string) {
+  if (stage === "extracting") return "Reading text...";
+  if (stage === "chunking") return "Splitting...";
+  if (stage === "embedding") return "Indexing...";
+  return "Queued...";
+}
+
 interface KnowledgeBaseUploadProps {
   botId: number;
   onUploadComplete?: () => void;
@@ -35,45 +66,49 @@ export function KnowledgeBaseUpload({ botId, onUploadComplete }: KnowledgeBaseUp
   const [error, setError] = useState<string | null>(null);
 
   // Mutations
-  const uploadFileMutation = trpc.knowledgeBase.uploadFile.useMutation({
-    onSuccess: (data: any) => {
-      setUploadedFiles((prev) =>
-        prev.map((f) =>
-          f.id === data.id
-            ? { ...f, status: "processing", progress: 100 }
-            : f
-        )
-      );
+  const uploadFileMutation = trpc.knowledgeBase.uploadFile.useMutation();
 
-      // Simulate processing completion
-      setTimeout(() => {
-        setUploadedFiles((prev) =>
-          prev.map((f) =>
-            f.id === (data as any).id
-              ? { ...f, status: "completed" }
-              : f
-          )
-        );
-        onUploadComplete?.();
-      }, 2000);
-    },
-    onError: (error: any) => {
-      const errorMessage = error.message || "Failed to upload file";
-      setError(errorMessage);
-    },
-  });
+  // Follow the processing jobs of this session's uploads until they finish
+  const processingIds = uploadedFiles
+    .filter((f) => f.status === "processing" && f.entryId !== undefined)
+    .map((f) => f.entryId as number);
+  const processingStatus = trpc.knowledgeBase.getProcessingStatus.useQuery(
+    { botId, entryIds: processingIds },
+    { enabled: processingIds.length > 0, refetchInterval: 2000 }
+  );
+
+  useEffect(() => {
+    const jobs = processingStatus.data;
+    if (!jobs) return;
+    const byEntry = new Map(jobs.map((job) => [job.entryId, job]));
+
+    setUploadedFiles((prev) =>
+      prev.map((f) => {
+        const job = f.status === "processing" && f.entryId !== undefined ? byEntry.get(f.entryId) : undefined;
+        if (!job) return f;
+        if (job.status === "done") {
+          return { ...f, status: "completed", progress: 100, stage: undefined };
+        }
+        if (job.status === "failed") {
+          return { ...f, status: "failed", stage: undefined, error: job.error ?? "Processing failed" };
+        }
+        return { ...f, progress: job.progress, stage: job.status };
+      })
+    );
+    // Only this session's processing entries are asked for, so a finished job is news
+    if (jobs.some((job) => job.status === "done")) onUploadComplete?.();
+  }, [processingStatus.data]);
 
   const handleFileSelect = async (files: FileList | null) => {
     if (!files) return;
 
     setError(null);
-    const supportedTypes = ["application/pdf", "text/plain", "text/csv", "application/vnd.openxmlformats-officedocument.wordprocessingml.document", "text/markdown"];
-
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
 
       // Validate file type
-      if (!supportedTypes.includes(file.type)) {
+      const extension = file.name.slice(file.name.lastIndexOf(".")).toLowerCase();
+      if (!SUPPORTED_TYPES.includes(file.type) && !SUPPORTED_EXTENSIONS.includes(extension)) {
         setError(`File type not supported: ${file.name}. Supported types: PDF, TXT, CSV, DOCX, Markdown`);
         continue;
       }
@@ -98,31 +133,26 @@ export function KnowledgeBaseUpload({ botId, onUploadComplete }: KnowledgeBaseUp
 
       setUploadedFiles((prev) => [...prev, uploadedFile]);
 
-      // Upload file
       try {
-        // Simulate progress
-        const progressInterval = setInterval(() => {
-          setUploadedFiles((prev) =>
-            prev.map((f) =>
-              f.id === fileId
-                ? { ...f, progress: Math.min(f.progress + Math.random() * 30, 90) }
-                : f
-            )
-          );
-        }, 500);
-
-        const fileContent = await file.text();
-
-        await uploadFileMutation.mutateAsync({
+        const result = await uploadFileMutation.mutateAsync({
           botId,
           fileName: file.name,
           fileType: file.type,
-          fileSize: file.size,
-          fileContent,
+          fileBase64: await readAsBase64(file),
         });
 
-        clearInterval(progressInterval);
+        setUploadedFiles((prev) =>
+          prev.map((f) =>
+            f.id === fileId
+              ? { ...f, status: "processing", entryId: result.id, stage: result.status }
+              : f
+          )
+        );
       } catch (err) {
+        const message = err instanceof Error ? err.message : "Failed to upload file";
+        setUploadedFiles((prev) =>
+          prev.map((f) => (f.id === fileId ? { ...f, status: "failed", error: message } : f))
+        );
         setError(`Failed to upload ${file.name}`);
       }
     }
@@ -211,7 +241,7 @@ export function KnowledgeBaseUpload({ botId, onUploadComplete }: KnowledgeBaseUp
               ref={fileInputRef}
               type="file"
               multiple
-              accept=".pdf,.txt,.csv,.docx,.md"
+              accept=".pdf,.txt,.csv,.docx,.md,.markdown"
               onChange={(e) => handleFileSelect(e.target.files)}
               className="hidden"
             />
@@ -282,7 +312,11 @@ export function KnowledgeBaseUpload({ botId, onUploadComplete }: KnowledgeBaseUp
                       }
                       className="text-xs"
                     >
-                      {file.status === "uploading" ? "Uploading..." : file.status === "processing" ? "Processing..." : file.status}
+                      {file.status === "uploading"
+                        ? "Uploading..."
+                        : file.status === "processing"
+                          ? stageLabel(file.stage)
+                          : file.status}
                     </Badge>
                     {file.error && <p className="text-xs text-red-400">{file.error}</p>}
                   </div>
@@ -4,19 +4,34 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Loader2 } from 'lucide-react';
+import { BotMarketplaceFilter, type BotFilters } from '@/components/BotMarketplaceFilter';
 
 export function BotStore() {
   const [selectedBot, setSelectedBot] = useState<number | null>(null);
-  const [subscriptionType, setSubscriptionType] = useState<'one-time' | 'monthly'>('monthly');
+  const [subscriptionType, setSubscriptionType] = useState<'monthly' | 'yearly'>('monthly');
+  const [filters, setFilters] = useState<BotFilters>({
+    categories: [],
+    capabilities: [],
+    priceRange: [0, 100],
+    rating: 0,
+    searchTerm: '',
+  });
 
-  // Fetch all bots
-  const { data: bots, isLoading: botsLoading } = trpc.bots.getAll.useQuery();
+  // Search the catalog; the previous results stay up while new filters load
+  const search = trpc.catalog.search.useInfiniteQuery(
+    { filters, sort: filters.searchTerm ? 'relevance' : 'featured', limit: 12 },
+    {
+      getNextPageParam: (page) => page.nextCursor ?? undefined,
+      placeholderData: (previous) => previous,
+    }
+  );
+  const bots = search.data?.pages.flatMap((page) => page.bots);
+  const firstPage = search.data?.pages[0];
 
-  // Purchase bot mutation
-  const purchaseBotMutation = trpc.bots.purchaseBot.useMutation({
+  // Checkout is priced from the same catalog entry shown here
+  const purchaseBotMutation = trpc.botCheckout.createCheckout.useMutation({
     onSuccess: (data) => {
-      console.log(`Successfully purchased ${data.botName}!`);
-      setSelectedBot(null);
+      if (data.checkoutUrl) window.location.href = data.checkoutUrl;
     },
     onError: (error) => {
       console.error(`Purchase failed: ${error.message}`);
@@ -27,7 +42,9 @@ export function BotStore() {
     purchaseBotMutation.mutate({ botId, subscriptionType });
   };
 
-  if (botsLoading) {
+  const selected = bots?.find(b => b.id === selectedBot);
+
+  if (!search.data) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <Loader2 className="w-8 h-8 animate-spin" />
@@ -47,73 +64,100 @@ export function BotStore() {
           <p className="text-sm text-gray-400 mt-2">Artist: Damone Ward Sr. | Platform: Gifted Eternity Streaming</p>
         </div>
 
-        {/* Bots Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-12">
-          {bots?.map((bot) => (
-            <Card
-              key={bot.id}
-              className="bg-gray-900 border-purple-500 hover:border-purple-400 transition cursor-pointer"
-              onClick={() => setSelectedBot(bot.id)}
-            >
-              <CardHeader>
-                <div className="flex items-start justify-between mb-2">
-                  <div className="text-4xl">{bot.icon}</div>
-                  <Badge variant="outline" className="bg-purple-600 border-purple-400">
-                    Bot {bot.botNumber}
-                  </Badge>
-                </div>
-                <CardTitle className="text-2xl">{bot.name}</CardTitle>
-                <CardDescription className="text-gray-300">{bot.description}</CardDescription>
-              </CardHeader>
-              <CardContent>
-                {/* Capabilities */}
-                <div className="mb-4">
-                  <h4 className="text-sm font-semibold text-gray-300 mb-2">Capabilities:</h4>
-                  <div className="flex flex-wrap gap-2">
-                    {bot.capabilities.map((cap) => (
-                      <Badge key={cap} variant="secondary" className="bg-purple-800 text-purple-200">
-                        {cap}
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 mb-12">
+          <BotMarketplaceFilter
+            onFiltersChange={setFilters}
+            totalBots={firstPage?.catalogTotal}
+            filteredBots={firstPage?.total}
+            facets={firstPage?.facets}
+          />
+
+          <div className="lg:col-span-3">
+            {/* Bots Grid */}
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+              {bots?.map((bot) => (
+                <Card
+                  key={bot.id}
+                  className="bg-gray-900 border-purple-500 hover:border-purple-400 transition cursor-pointer"
+                  onClick={() => setSelectedBot(bot.id)}
+                >
+                  <CardHeader>
+                    <div className="flex items-start justify-between mb-2">
+                      <div className="text-4xl">{bot.icon}</div>
+                      <Badge variant="outline" className="bg-purple-600 border-purple-400">
+                        Bot {bot.id}
                       </Badge>
-                    ))}
-                  </div>
-                </div>
+                    </div>
+                    <CardTitle className="text-2xl">{bot.name}</CardTitle>
+                    <CardDescription className="text-gray-300">{bot.description}</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {/* Capabilities */}
+                    <div className="mb-4">
+                      <h4 className="text-sm font-semibold text-gray-300 mb-2">Capabilities:</h4>
+                      <div className="flex flex-wrap gap-2">
+                        {bot.capabilities.map((cap) => (
+                          <Badge key={cap} variant="secondary" className="bg-purple-800 text-purple-200">
+                            {cap}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
 
-                {/* Features */}
-                <div className="mb-4">
-                  <h4 className="text-sm font-semibold text-gray-300 mb-2">Features:</h4>
-                  <ul className="text-sm text-gray-400 space-y-1">
-                    {bot.features.map((feature) => (
-                      <li key={feature} className="flex items-center">
-                        <span className="text-purple-400 mr-2">✓</span>
-                        {feature}
-                      </li>
-                    ))}
-                  </ul>
-                </div>
+                    {/* Features */}
+                    <div className="mb-4">
+                      <h4 className="text-sm font-semibold text-gray-300 mb-2">Features:</h4>
+                      <ul className="text-sm text-gray-400 space-y-1">
+                        {bot.features.map((feature) => (
+                          <li key={feature} className="flex items-center">
+                            <span className="text-purple-400 mr-2">✓</span>
+                            {feature}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
 
-                {/* Pricing */}
-                <div className="mb-4 p-3 bg-purple-900 rounded-lg">
-                  <div className="text-sm text-gray-300 mb-1">One-time: ${(bot.price / 100).toFixed(2)}</div>
-                  <div className="text-lg font-bold text-purple-300">
-                    Monthly: ${(bot.monthlyPrice / 100).toFixed(2)}/month
-                  </div>
-                </div>
+                    {/* Pricing */}
+                    <div className="mb-4 p-3 bg-purple-900 rounded-lg">
+                      <div className="text-sm text-gray-300 mb-1">Yearly: ${(bot.yearlyPriceCents / 100).toFixed(2)}/year</div>
+                      <div className="text-lg font-bold text-purple-300">
+                        Monthly: ${(bot.monthlyPriceCents / 100).toFixed(2)}/month
+                      </div>
+                    </div>
 
-                {/* Artist Info */}
-                <div className="text-xs text-gray-400 mb-4">
-                  <p>Created by: <span className="text-purple-300 font-semibold">{bot.artist}</span></p>
-                </div>
+                    {/* Artist Info */}
+                    <div className="text-xs text-gray-400 mb-4">
+                      <p>Created by: <span className="text-purple-300 font-semibold">{bot.creatorName}</span></p>
+                    </div>
 
-                {/* Purchase Button */}
+                    {/* Purchase Button */}
+                    <Button
+                      onClick={() => setSelectedBot(bot.id)}
+                      className="w-full bg-purple-600 hover:bg-purple-700"
+                    >
+                      View Details & Purchase
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {bots?.length === 0 && (
+              <p className="text-center text-gray-400 py-12">No bots match these filters</p>
+            )}
+
+            {search.hasNextPage && (
+              <div className="flex justify-center mt-8">
                 <Button
-                  onClick={() => setSelectedBot(bot.id)}
-                  className="w-full bg-purple-600 hover:bg-purple-700"
+                  onClick={() => search.fetchNextPage()}
+                  disabled={search.isFetchingNextPage}
+                  variant="outline"
                 >
-                  View Details & Purchase
+                  {search.isFetchingNextPage ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Load more bots'}
                 </Button>
-              </CardContent>
-            </Card>
-          ))}
+              </div>
+            )}
+          </div>
         </div>
 
         {/* Purchase Modal */}
@@ -123,7 +167,7 @@ export function BotStore() {
               <CardHeader>
                 <CardTitle>Purchase Bot</CardTitle>
                 <CardDescription>
-                  {bots?.find(b => b.id === selectedBot)?.name}
+                  {selected?.name}
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-4">
@@ -132,18 +176,18 @@ export function BotStore() {
                   <label className="text-sm font-semibold mb-2 block">Subscription Type:</label>
                   <div className="flex gap-2">
                     <Button
-                      onClick={() => setSubscriptionType('one-time')}
-                      variant={subscriptionType === 'one-time' ? 'default' : 'outline'}
+                      onClick={() => setSubscriptionType('monthly')}
+                      variant={subscriptionType === 'monthly' ? 'default' : 'outline'}
                       className="flex-1"
                     >
-                      One-time
+                      Monthly
                     </Button>
                     <Button
-                      onClick={() => setSubscriptionType('monthly')}
-                      variant={subscriptionType === 'monthly' ? 'default' : 'outline'}
+                      onClick={() => setSubscriptionType('yearly')}
+                      variant={subscriptionType === 'yearly' ? 'default' : 'outline'}
                       className="flex-1"
                     >
-                      Monthly
+                      Yearly
                     </Button>
                   </div>
                 </div>
@@ -151,13 +195,14 @@ export function BotStore() {
                 {/* Price Display */}
                 <div className="p-3 bg-purple-900 rounded-lg">
                   <div className="text-sm text-gray-300">
-                    {subscriptionType === 'one-time' ? 'One-time Price' : 'Monthly Price'}
+                    {subscriptionType === 'yearly' ? 'Yearly Price' : 'Monthly Price'}
                   </div>
                   <div className="text-2xl font-bold text-purple-300">
-                    ${subscriptionType === 'one-time'
-                      ? (bots?.find(b => b.id === selectedBot)?.price ?? 0) / 100
-                      : (bots?.find(b => b.id === selectedBot)?.monthlyPrice ?? 0) / 100
-                    }
+                    ${(
+                      ((subscriptionType === 'yearly'
+                        ? selected?.yearlyPriceCents
+                        : selected?.monthlyPriceCents) ?? 0) / 100
+                    ).toFixed(2)}
                   </div>
                 </div>
 
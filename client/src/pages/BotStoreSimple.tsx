@@ -4,8 +4,11 @@ import { Button } from "@/components/ui/button";
 import { Loader2, Zap, Sparkles } from "lucide-react";
 
 export default function BotStoreSimple() {
-  const { data: bots } = trpc.botPurchase.getAll.useQuery();
+  const { data: bots } = trpc.catalog.list.useQuery();
   const purchaseMutation = trpc.botPurchase.purchase.useMutation();
+  // Signed-out visitors get no offers, so no trial buttons
+  const { data: trialOffers } = trpc.botPurchase.getTrialOffers.useQuery(undefined, { retry: false });
+  const trialMutation = trpc.botCheckout.createCheckout.useMutation();
   const [subscriptionType, setSubscriptionType] = useState<"monthly" | "yearly">("monthly");
   const [successMessage, setSuccessMessage] = useState("");
 
@@ -21,10 +24,42 @@ export default function BotStoreSimple() {
     );
   };
 
+  const trialDaysFor = (botId: number) => {
+    const offer = trialOffers?.find(o => o.botId === botId);
+    return offer?.eligible ? offer.trialDays : 0;
+  };
+
+  const handleStartTrial = (botId: number) => {
+    trialMutation.mutate(
+      {
+        botId,
+        subscriptionType,
+        trial: true,
+      },
+      {
+        onSuccess: (data) => {
+          if (data.checkoutUrl) window.location.href = data.checkoutUrl;
+        },
+      }
+    );
+  };
+
   // Separate branded and blank bots
   const brandedBots = bots?.filter(b => b.type === "branded") || [];
   const blankBots = bots?.filter(b => b.type === "blank") || [];
 
+  // Lowest catalog price of a group of bots, for the labels that compare them
+  const fromPrice = (group: typeof brandedBots, interval: "monthly" | "yearly") => {
+    const prices = group.map(b => (interval === "monthly" ? b.monthlyPriceCents : b.yearlyPriceCents));
+    return prices.length > 0 ? Math.min(...prices) : 0;
+  };
+  const formatPrice = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+  const priceFor = (bot: (typeof brandedBots)[number]) =>
+    formatPrice(subscriptionType === "monthly" ? bot.monthlyPriceCents : bot.yearlyPriceCents);
+  const brandedMonthly = fromPrice(brandedBots, "monthly");
+  const blankMonthly = fromPrice(blankBots, "monthly");
+  const blankSavings = brandedMonthly > 0 ? Math.round((1 - blankMonthly / brandedMonthly) * 100) : 0;
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-50 to-pink-50 p-8">
       <div className="max-w-7xl mx-auto">
@@ -53,7 +88,9 @@ export default function BotStoreSimple() {
               onChange={() => setSubscriptionType("monthly")}
               className="w-4 h-4"
             />
-            <span className="font-medium">Monthly - $29.99/mo (Branded) or $19.99/mo (Custom)</span>
+            <span className="font-medium">
+              Monthly - {formatPrice(brandedMonthly)}/mo (Branded) or {formatPrice(blankMonthly)}/mo (Custom)
+            </span>
           </label>
           <label className="flex items-center gap-2 cursor-pointer px-4 py-2 rounded-lg border-2 transition" style={{borderColor: subscriptionType === "yearly" ? "#9333ea" : "#e5e7eb"}}>
             <input
@@ -63,7 +100,10 @@ export default function BotStoreSimple() {
               onChange={() => setSubscriptionType("yearly")}
               className="w-4 h-4"
             />
-            <span className="font-medium">Yearly - $299.99/yr (Branded) or $199.99/yr (Custom)</span>
+            <span className="font-medium">
+              Yearly - {formatPrice(fromPrice(brandedBots, "yearly"))}/yr (Branded) or{" "}
+              {formatPrice(fromPrice(blankBots, "yearly"))}/yr (Custom)
+            </span>
           </label>
         </div>
 
@@ -80,7 +120,7 @@ export default function BotStoreSimple() {
             {brandedBots.map(bot => (
               <div key={bot.id} className="bg-white rounded-lg p-6 shadow-md hover:shadow-xl transition border-l-4 border-purple-500">
                 <div className="flex items-start justify-between mb-3">
-                  <div className="text-4xl">🤖</div>
+                  <div className="text-4xl">{bot.icon ?? "🤖"}</div>
                   <span className="text-xs bg-purple-100 text-purple-700 px-2 py-1 rounded font-medium">BRANDED</span>
                 </div>
                 
@@ -89,7 +129,7 @@ export default function BotStoreSimple() {
 
                 <div className="mb-4 p-3 bg-purple-50 rounded">
                   <p className="text-2xl font-bold text-purple-600">
-                    ${subscriptionType === "monthly" ? (bot.priceMonthly / 100).toFixed(2) : (bot.priceYearly / 100).toFixed(2)}
+                    {priceFor(bot)}
                   </p>
                   <p className="text-xs text-gray-600">
                     per {subscriptionType === "monthly" ? "month" : "year"}
@@ -110,6 +150,22 @@ export default function BotStoreSimple() {
                     "Subscribe Now"
                   )}
                 </Button>
+
+                {trialDaysFor(bot.id) > 0 && (
+                  <>
+                    <Button
+                      variant="outline"
+                      onClick={() => handleStartTrial(bot.id)}
+                      disabled={trialMutation.isPending}
+                      className="w-full mt-2 border-purple-300 text-purple-700"
+                    >
+                      Start free trial
+                    </Button>
+                    <p className="text-xs text-gray-500 mt-2 text-center">
+                      {trialDaysFor(bot.id)} days free, then billed {subscriptionType === "monthly" ? "monthly" : "yearly"} unless you cancel
+                    </p>
+                  </>
+                )}
               </div>
             ))}
           </div>
@@ -128,7 +184,7 @@ export default function BotStoreSimple() {
             {blankBots.map(bot => (
               <div key={bot.id} className="bg-white rounded-lg p-8 shadow-md hover:shadow-xl transition border-l-4 border-pink-500">
                 <div className="flex items-start justify-between mb-3">
-                  <div className="text-5xl">✨</div>
+                  <div className="text-5xl">{bot.icon ?? "✨"}</div>
                   <span className="text-xs bg-pink-100 text-pink-700 px-2 py-1 rounded font-medium">NEW</span>
                 </div>
                 
@@ -137,28 +193,23 @@ export default function BotStoreSimple() {
 
                 {/* Features */}
                 <ul className="mb-6 space-y-2 text-sm text-gray-700">
-                  <li className="flex items-center gap-2">
-                    <span className="text-pink-600">✓</span> Upload your own knowledge base
-                  </li>
-                  <li className="flex items-center gap-2">
-                    <span className="text-pink-600">✓</span> Add websites, books, and content
-                  </li>
-                  <li className="flex items-center gap-2">
-                    <span className="text-pink-600">✓</span> Generate custom blog posts
-                  </li>
-                  <li className="flex items-center gap-2">
-                    <span className="text-pink-600">✓</span> Full customization control
-                  </li>
+                  {bot.features.map(feature => (
+                    <li key={feature} className="flex items-center gap-2">
+                      <span className="text-pink-600">✓</span> {feature}
+                    </li>
+                  ))}
                 </ul>
 
                 <div className="mb-6 p-4 bg-pink-50 rounded-lg border border-pink-200">
                   <p className="text-3xl font-bold text-pink-600">
-                    ${subscriptionType === "monthly" ? (bot.priceMonthly / 100).toFixed(2) : (bot.priceYearly / 100).toFixed(2)}
+                    {priceFor(bot)}
                   </p>
                   <p className="text-sm text-gray-600 mt-1">
                     per {subscriptionType === "monthly" ? "month" : "year"}
                   </p>
-                  <p className="text-xs text-gray-500 mt-2">33% cheaper than branded bots</p>
+                  {blankSavings > 0 && (
+                    <p className="text-xs text-gray-500 mt-2">{blankSavings}% cheaper than branded bots</p>
+                  )}
                 </div>
 
                 <Button
@@ -175,6 +226,22 @@ export default function BotStoreSimple() {
                     "Get Started"
                   )}
                 </Button>
+
+                {trialDaysFor(bot.id) > 0 && (
+                  <>
+                    <Button
+                      variant="outline"
+                      onClick={() => handleStartTrial(bot.id)}
+                      disabled={trialMutation.isPending}
+                      className="w-full mt-2 border-pink-300 text-pink-700"
+                    >
+                      Start free trial
+                    </Button>
+                    <p className="text-xs text-gray-500 mt-2 text-center">
+                      {trialDaysFor(bot.id)} days free, then billed {subscriptionType === "monthly" ? "monthly" : "yearly"} unless you cancel
+                    </p>
+                  </>
+                )}
               </div>
             ))}
           </div>
@@ -220,8 +287,8 @@ export default function BotStoreSimple() {
                 </tr>
                 <tr>
                   <td className="py-3 px-4 text-gray-700 font-bold">Price</td>
-                  <td className="text-center py-3 px-4 font-bold text-purple-600">$29.99/mo</td>
-                  <td className="text-center py-3 px-4 font-bold text-pink-600">$19.99/mo</td>
+                  <td className="text-center py-3 px-4 font-bold text-purple-600">{formatPrice(brandedMonthly)}/mo</td>
+                  <td className="text-center py-3 px-4 font-bold text-pink-600">{formatPrice(blankMonthly)}/mo</td>
                 </tr>
               </tbody>
             </table>
@@ -0,0 +1,341 @@
+import {
+  pgTable,
+  serial,
+  varchar,
+  boolean,
+  text,
+  jsonb,
+  integer,
+  timestamp,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
+
+/**
+ * Payment provider webhook log.
+ * One row per provider event ID so retried deliveries are processed once.
+ */
+export const paymentWebhookEvents = pgTable(
+  "payment_webhook_events",
+  {
+    id: serial("id").primaryKey(),
+    provider: varchar("provider", { length: 20 }).notNull(),
+    eventId: varchar("event_id", { length: 255 }).notNull(),
+    eventType: varchar("event_type", { length: 100 }).notNull(),
+    resourceId: varchar("resource_id", { length: 255 }),
+    // received | processed | ignored | failed
+    status: varchar("status", { length: 20 }).notNull().default("received"),
+    payload: jsonb("payload").notNull(),
+    error: text("error"),
+    attempts: integer("attempts").notNull().default(1),
+    receivedAt: timestamp("received_at").defaultNow().notNull(),
+    processedAt: timestamp("processed_at"),
+  },
+  (table) => ({
+    providerEventIdx: uniqueIndex("payment_webhook_events_provider_event_idx").on(
+      table.provider,
+      table.eventId
+    ),
+  })
+);
+
+export type PaymentWebhookEvent = typeof paymentWebhookEvents.$inferSelect;
+
+/**
+ * Which payment provider object backs a purchase.
+ * Replaces storing PayPal IDs in contentMasterPurchases.stripeSubscriptionId.
+ */
+export const purchaseProviders = pgTable(
+  "purchase_providers",
+  {
+    id: serial("id").primaryKey(),
+    // content_master | bot | song
+    productType: varchar("product_type", { length: 30 }).notNull(),
+    purchaseId: integer("purchase_id").notNull(),
+    userId: integer("user_id").notNull(),
+    // paypal | stripe
+    provider: varchar("provider", { length: 20 }).notNull(),
+    // Subscription ID for recurring plans, capture/payment intent ID for one-time orders
+    providerId: varchar("provider_id", { length: 255 }).notNull(),
+    // subscription | payment
+    providerKind: varchar("provider_kind", { length: 20 }).notNull(),
+    providerCustomerId: varchar("provider_customer_id", { length: 255 }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    providerIdx: uniqueIndex("purchase_providers_provider_idx").on(table.provider, table.providerId),
+  })
+);
+
+export type PurchaseProvider = typeof purchaseProviders.$inferSelect;
+
+/**
+ * One row per subscription state change made by the renewal scheduler
+ * (and later by cancellations, refunds and plan changes)
+ */
+export const subscriptionHistory = pgTable("subscription_history", {
+  id: serial("id").primaryKey(),
+  // content_master | bot
+  productType: varchar("product_type", { length: 30 }).notNull(),
+  purchaseId: integer("purchase_id").notNull(),
+  userId: integer("user_id").notNull(),
+  // renewed | suspended | expired | canceled | resumed | refunded | plan_changed
+  event: varchar("event", { length: 30 }).notNull(),
+  fromStatus: varchar("from_status", { length: 20 }),
+  toStatus: varchar("to_status", { length: 20 }).notNull(),
+  previousPeriodEnd: timestamp("previous_period_end"),
+  periodEnd: timestamp("period_end"),
+  provider: varchar("provider", { length: 20 }),
+  providerId: varchar("provider_id", { length: 255 }),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type SubscriptionHistoryEntry = typeof subscriptionHistory.$inferSelect;
+
+/**
+ * Refunds issued by admins against a purchase's provider payment.
+ * Partial refunds add up per payment; their sum can never exceed the charge.
+ */
+export const purchaseRefunds = pgTable("purchase_refunds", {
+  id: serial("id").primaryKey(),
+  // content_master | bot | song
+  productType: varchar("product_type", { length: 30 }).notNull(),
+  purchaseId: integer("purchase_id").notNull(),
+  userId: integer("user_id").notNull(),
+  provider: varchar("provider", { length: 20 }).notNull(),
+  // Capture/payment intent or subscription sale the refund was issued against
+  providerPaymentId: varchar("provider_payment_id", { length: 255 }).notNull(),
+  providerRefundId: varchar("provider_refund_id", { length: 255 }),
+  amountCents: integer("amount_cents").notNull(),
+  currency: varchar("currency", { length: 3 }).notNull(),
+  reason: text("reason").notNull(),
+  // pending | completed | failed
+  status: varchar("status", { length: 20 }).notNull(),
+  entitlementRevoked: boolean("entitlement_revoked").notNull().default(false),
+  payoutsReversedCents: integer("payouts_reversed_cents").notNull().default(0),
+  refundedBy: integer("refunded_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type PurchaseRefund = typeof purchaseRefunds.$inferSelect;
+
+/**
+ * Plan changes (monthly to lifetime, monthly to yearly and back).
+ * The existing purchase row is updated in place once the difference is paid.
+ */
+export const planChanges = pgTable("plan_changes", {
+  id: serial("id").primaryKey(),
+  // content_master | bot
+  productType: varchar("product_type", { length: 30 }).notNull(),
+  purchaseId: integer("purchase_id").notNull(),
+  userId: integer("user_id").notNull(),
+  // monthly | yearly | lifetime
+  fromPlan: varchar("from_plan", { length: 20 }).notNull(),
+  toPlan: varchar("to_plan", { length: 20 }).notNull(),
+  provider: varchar("provider", { length: 20 }).notNull(),
+  // Unused time on the old plan
+  creditCents: integer("credit_cents").notNull(),
+  chargeCents: integer("charge_cents").notNull(),
+  currency: varchar("currency", { length: 3 }).notNull(),
+  // End of the first period on the new plan; null for lifetime
+  periodEnd: timestamp("period_end"),
+  // Provider order or subscription the customer approves
+  checkoutId: varchar("checkout_id", { length: 255 }),
+  // pending | completed | abandoned
+  status: varchar("status", { length: 20 }).notNull().default("pending"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+});
+
+export type PlanChange = typeof planChanges.$inferSelect;
+
+/**
+ * Promo codes handed out by admins and ministry partners.
+ * Product/plan restrictions are null when the code applies to everything.
+ */
+export const promoCodes = pgTable(
+  "promo_codes",
+  {
+    id: serial("id").primaryKey(),
+    // Stored upper-case
+    code: varchar("code", { length: 50 }).notNull(),
+    description: text("description"),
+    // percent | fixed | trial
+    discountType: varchar("discount_type", { length: 20 }).notNull(),
+    percentOff: integer("percent_off"),
+    amountOffCents: integer("amount_off_cents"),
+    // Subscriptions: discount only the first N months; null discounts every period
+    durationMonths: integer("duration_months"),
+    trialDays: integer("trial_days"),
+    // content_master | bot
+    products: jsonb("products").$type<string[]>(),
+    // monthly | yearly | lifetime
+    plans: jsonb("plans").$type<string[]>(),
+    startsAt: timestamp("starts_at"),
+    expiresAt: timestamp("expires_at"),
+    maxRedemptions: integer("max_redemptions"),
+    perUserLimit: integer("per_user_limit").default(1),
+    active: boolean("active").notNull().default(true),
+    createdBy: integer("created_by"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    codeIdx: uniqueIndex("promo_codes_code_idx").on(table.code),
+  })
+);
+
+export type PromoCode = typeof promoCodes.$inferSelect;
+
+/**
+ * A promo code applied to a checkout. Pending until the checkout completes;
+ * pending rows only hold a redemption slot for a limited time.
+ */
+export const promoRedemptions = pgTable(
+  "promo_redemptions",
+  {
+    id: serial("id").primaryKey(),
+    promoCodeId: integer("promo_code_id").notNull(),
+    userId: integer("user_id").notNull(),
+    productType: varchar("product_type", { length: 30 }).notNull(),
+    planId: varchar("plan_id", { length: 20 }).notNull(),
+    provider: varchar("provider", { length: 20 }).notNull(),
+    // Provider order, subscription or Checkout Session ID
+    checkoutId: varchar("checkout_id", { length: 255 }).notNull(),
+    // First charge after the discount, and what was taken off it
+    amountCents: integer("amount_cents").notNull(),
+    discountCents: integer("discount_cents").notNull(),
+    // pending | completed
+    status: varchar("status", { length: 20 }).notNull().default("pending"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => ({
+    checkoutIdx: uniqueIndex("promo_redemptions_checkout_idx").on(table.provider, table.checkoutId),
+  })
+);
+
+export type PromoRedemption = typeof promoRedemptions.$inferSelect;
+
+/**
+ * Free trials, one per user and product.
+ * A pending row is held while the customer is at the provider's checkout;
+ * each checkout keeps its own, and the first to complete starts the trial.
+ */
+export const trials = pgTable(
+  "trials",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").notNull(),
+    productType: varchar("product_type", { length: 30 }).notNull(),
+    // content_master or bot:<botId>
+    productKey: varchar("product_key", { length: 50 }).notNull(),
+    // Set once the checkout completes
+    purchaseId: integer("purchase_id"),
+    provider: varchar("provider", { length: 20 }).notNull(),
+    checkoutId: varchar("checkout_id", { length: 255 }).notNull(),
+    trialDays: integer("trial_days").notNull(),
+    // pending | trialing | converted | canceled | expired
+    status: varchar("status", { length: 20 }).notNull().default("pending"),
+    startedAt: timestamp("started_at"),
+    endsAt: timestamp("ends_at"),
+    convertedAt: timestamp("converted_at"),
+    endedAt: timestamp("ended_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    // Reservations may pile up, but only one trial per product ever starts
+    userProductIdx: uniqueIndex("trials_user_product_idx")
+      .on(table.userId, table.productKey)
+      .where(sql`${table.status} <> 'pending'`),
+    checkoutIdx: uniqueIndex("trials_checkout_idx").on(table.provider, table.checkoutId),
+  })
+);
+
+export type Trial = typeof trials.$inferSelect;
+
+/**
+ * Double-entry ledger of sales, refunds and creator payouts.
+ * Each transaction is a group of lines summing to zero; nothing is updated
+ * in place. A creator's balance is the sum of their creator_earnings lines.
+ */
+export const ledgerEntries = pgTable(
+  "ledger_entries",
+  {
+    id: serial("id").primaryKey(),
+    // Groups one transaction's lines, e.g. sale:bot:12:1717200000000
+    transactionKey: varchar("transaction_key", { length: 150 }).notNull(),
+    line: integer("line").notNull(),
+    // customer_payments | processor_fees | platform_revenue | creator_earnings | payouts
+    account: varchar("account", { length: 30 }).notNull(),
+    // Set on creator_earnings lines
+    creatorId: integer("creator_id"),
+    // Signed; the lines of a transaction sum to zero
+    amountCents: integer("amount_cents").notNull(),
+    currency: varchar("currency", { length: 3 }).notNull().default("usd"),
+    // content_master | bot | song | payout_batch
+    sourceType: varchar("source_type", { length: 30 }).notNull(),
+    sourceId: integer("source_id").notNull(),
+    description: text("description").notNull(),
+    occurredAt: timestamp("occurred_at").notNull(),
+    // End of the holding period; creator earnings are payable from then on
+    availableAt: timestamp("available_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    transactionLineIdx: uniqueIndex("ledger_entries_transaction_line_idx").on(
+      table.transactionKey,
+      table.line
+    ),
+  })
+);
+
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+
+/**
+ * Where a creator is paid. Creators without one are left out of payout batches.
+ */
+export const creatorPayoutAccounts = pgTable(
+  "creator_payout_accounts",
+  {
+    id: serial("id").primaryKey(),
+    creatorId: integer("creator_id").notNull(),
+    paypalEmail: varchar("paypal_email", { length: 320 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    creatorIdx: uniqueIndex("creator_payout_accounts_creator_idx").on(table.creatorId),
+  })
+);
+
+export type CreatorPayoutAccount = typeof creatorPayoutAccounts.$inferSelect;
+
+/**
+ * Payout batches run by admins. Each item is a creatorPayouts row with
+ * sourceType payout_batch; the file is the PayPal Payouts request body.
+ */
+export const payoutBatches = pgTable(
+  "payout_batches",
+  {
+    id: serial("id").primaryKey(),
+    senderBatchId: varchar("sender_batch_id", { length: 100 }).notNull(),
+    provider: varchar("provider", { length: 20 }).notNull().default("paypal"),
+    providerBatchId: varchar("provider_batch_id", { length: 255 }),
+    // pending (being sent) | submitted | failed
+    status: varchar("status", { length: 20 }).notNull(),
+    itemCount: integer("item_count").notNull(),
+    totalCents: integer("total_cents").notNull(),
+    currency: varchar("currency", { length: 3 }).notNull().default("usd"),
+    file: jsonb("file").notNull(),
+    error: text("error"),
+    createdBy: integer("created_by").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    senderBatchIdx: uniqueIndex("payout_batches_sender_batch_idx").on(table.senderBatchId),
+  })
+);
+
+export type PayoutBatch = typeof payoutBatches.$inferSelect;
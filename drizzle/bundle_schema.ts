@@ -0,0 +1,98 @@
+import {
+  pgTable,
+  serial,
+  varchar,
+  text,
+  integer,
+  timestamp,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+
+/**
+ * Products sold together for one price: albums of an artist's tracks, and
+ * admin-built bundles that can mix songs, bot plans and Content Master plans.
+ */
+export const bundles = pgTable("bundles", {
+  id: serial("id").primaryKey(),
+  // album | bundle
+  kind: varchar("kind", { length: 20 }).notNull(),
+  title: varchar("title", { length: 200 }).notNull(),
+  description: text("description"),
+  // The artist who owns an album; null for admin bundles
+  creatorId: integer("creator_id"),
+  priceCents: integer("price_cents").notNull(),
+  currency: varchar("currency", { length: 3 }).notNull().default("usd"),
+  // draft | active | archived
+  status: varchar("status", { length: 20 }).notNull().default("draft"),
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type Bundle = typeof bundles.$inferSelect;
+
+/**
+ * What a bundle contains. productId is the song or bot ID (null for Content
+ * Master); plan is the bot interval or Content Master plan.
+ */
+export const bundleItems = pgTable(
+  "bundle_items",
+  {
+    id: serial("id").primaryKey(),
+    bundleId: integer("bundle_id").notNull(),
+    // song | bot | content_master
+    productType: varchar("product_type", { length: 30 }).notNull(),
+    productId: integer("product_id"),
+    plan: varchar("plan", { length: 20 }),
+    position: integer("position").notNull().default(0),
+  },
+  (table) => ({
+    bundleIdx: index("bundle_items_bundle_idx").on(table.bundleId),
+  })
+);
+
+export type BundleItem = typeof bundleItems.$inferSelect;
+
+/**
+ * A paid bundle. The provider payment is linked to this row (productType
+ * "bundle"); the songPurchases, userBotPurchases and contentMasterPurchases
+ * it expanded into are listed in bundlePurchaseItems.
+ */
+export const bundlePurchases = pgTable(
+  "bundle_purchases",
+  {
+    id: serial("id").primaryKey(),
+    bundleId: integer("bundle_id").notNull(),
+    userId: integer("user_id").notNull(),
+    amountCents: integer("amount_cents").notNull(),
+    currency: varchar("currency", { length: 3 }).notNull(),
+    // completed | refunded | denied
+    status: varchar("status", { length: 20 }).notNull().default("completed"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdx: index("bundle_purchases_user_idx").on(table.userId),
+  })
+);
+
+export type BundlePurchase = typeof bundlePurchases.$inferSelect;
+
+export const bundlePurchaseItems = pgTable(
+  "bundle_purchase_items",
+  {
+    id: serial("id").primaryKey(),
+    bundlePurchaseId: integer("bundle_purchase_id").notNull(),
+    // song | bot | content_master
+    productType: varchar("product_type", { length: 30 }).notNull(),
+    purchaseId: integer("purchase_id").notNull(),
+    // The item's share of the bundle price
+    allocatedCents: integer("allocated_cents").notNull(),
+  },
+  (table) => ({
+    bundleIdx: index("bundle_purchase_items_bundle_idx").on(table.bundlePurchaseId),
+    purchaseIdx: uniqueIndex("bundle_purchase_items_purchase_idx").on(table.productType, table.purchaseId),
+  })
+);
+
+export type BundlePurchaseItem = typeof bundlePurchaseItems.$inferSelect;
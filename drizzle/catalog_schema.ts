@@ -0,0 +1,109 @@
+import {
+  pgTable,
+  serial,
+  varchar,
+  text,
+  real,
+  jsonb,
+  integer,
+  timestamp,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+
+/**
+ * Bots offered in the store. The row ID is the botId purchases, trials and
+ * checkouts refer to; store pages and checkout both price from this table.
+ */
+export const botCatalog = pgTable(
+  "bot_catalog",
+  {
+    id: serial("id").primaryKey(),
+    slug: varchar("slug", { length: 100 }).notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    description: text("description").notNull(),
+    icon: varchar("icon", { length: 20 }),
+    // branded | blank
+    type: varchar("type", { length: 20 }).notNull(),
+    categories: jsonb("categories").$type<string[]>().notNull().default([]),
+    capabilities: jsonb("capabilities").$type<string[]>().notNull().default([]),
+    features: jsonb("features").$type<string[]>().notNull().default([]),
+    creatorName: varchar("creator_name", { length: 100 }).notNull(),
+    // Platform user behind the bot, when the creator has an account
+    creatorUserId: integer("creator_user_id"),
+    monthlyPriceCents: integer("monthly_price_cents").notNull(),
+    yearlyPriceCents: integer("yearly_price_cents").notNull(),
+    currency: varchar("currency", { length: 3 }).notNull().default("usd"),
+    // draft | pending_review | published | rejected | archived
+    status: varchar("status", { length: 20 }).notNull().default("draft"),
+    sortOrder: integer("sort_order").notNull().default(0),
+    // Creator's percentage of each sale; null uses CREATOR_REVENUE_SHARE_PERCENT
+    revenueSharePercent: integer("revenue_share_percent"),
+    // Submission review: when the creator last submitted, and the admin's decision
+    submittedAt: timestamp("submitted_at"),
+    reviewedAt: timestamp("reviewed_at"),
+    reviewedBy: integer("reviewed_by"),
+    reviewNotes: text("review_notes"),
+    // Average of published review ratings (1-5), kept up to date by the
+    // review service; null until the first review
+    ratingAverage: real("rating_average"),
+    ratingCount: integer("rating_count").notNull().default(0),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    slugIdx: uniqueIndex("bot_catalog_slug_idx").on(table.slug),
+  })
+);
+
+export type BotCatalogEntry = typeof botCatalog.$inferSelect;
+
+/**
+ * Bot reviews, one per user and bot, from users who have bought the bot.
+ * Reviews publish straight away; moderators see them until moderatedAt is set
+ * and can hide them from the store.
+ */
+export const botReviews = pgTable(
+  "bot_reviews",
+  {
+    id: serial("id").primaryKey(),
+    botId: integer("bot_id").notNull(),
+    userId: integer("user_id").notNull(),
+    // 1-5 stars
+    rating: integer("rating").notNull(),
+    title: varchar("title", { length: 120 }),
+    body: text("body").notNull(),
+    // published | hidden
+    status: varchar("status", { length: 20 }).notNull().default("published"),
+    helpfulCount: integer("helpful_count").notNull().default(0),
+    creatorReply: text("creator_reply"),
+    creatorReplyBy: integer("creator_reply_by"),
+    creatorRepliedAt: timestamp("creator_replied_at"),
+    // Cleared when the reviewer edits the review, so it goes back in the queue
+    moderatedAt: timestamp("moderated_at"),
+    moderatedBy: integer("moderated_by"),
+    hiddenReason: text("hidden_reason"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    userBotIdx: uniqueIndex("bot_reviews_user_bot_idx").on(table.userId, table.botId),
+  })
+);
+
+export type BotReview = typeof botReviews.$inferSelect;
+
+/**
+ * "Helpful" votes on bot reviews, one per user and review
+ */
+export const botReviewVotes = pgTable(
+  "bot_review_votes",
+  {
+    id: serial("id").primaryKey(),
+    reviewId: integer("review_id").notNull(),
+    userId: integer("user_id").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    reviewUserIdx: uniqueIndex("bot_review_votes_review_user_idx").on(table.reviewId, table.userId),
+  })
+);
@@ -0,0 +1,61 @@
+import { pgTable, serial, varchar, text, integer, jsonb, timestamp, index } from "drizzle-orm/pg-core";
+
+/**
+ * A user's chat with a bot they have access to
+ */
+export const botConversations = pgTable(
+  "bot_conversations",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").notNull(),
+    botId: integer("bot_id").notNull(),
+    // From the first message unless the user names it
+    title: varchar("title", { length: 200 }).notNull(),
+    lastMessageAt: timestamp("last_message_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    userBotIdx: index("bot_conversations_user_bot_idx").on(table.userId, table.botId),
+  })
+);
+
+/**
+ * The knowledge passage behind a numbered [n] reference in an answer
+ */
+export interface ChatCitation {
+  n: number;
+  entryId: number;
+  chunkId: number;
+  title: string;
+  page: number | null;
+  heading: string | null;
+  // Offsets of the passage in the entry's content
+  start: number;
+  end: number;
+}
+
+export const botMessages = pgTable(
+  "bot_messages",
+  {
+    id: serial("id").primaryKey(),
+    conversationId: integer("conversation_id").notNull(),
+    // user | assistant
+    role: varchar("role", { length: 20 }).notNull(),
+    content: text("content").notNull(),
+    // complete | interrupted (the reader went away mid-answer) | failed
+    status: varchar("status", { length: 20 }).notNull().default("complete"),
+    // Entries an assistant answer referred to
+    citations: jsonb("citations").$type<ChatCitation[]>().notNull().default([]),
+    // Model that wrote an assistant answer
+    model: varchar("model", { length: 100 }),
+    error: text("error"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    conversationIdx: index("bot_messages_conversation_idx").on(table.conversationId, table.id),
+  })
+);
+
+export type BotConversation = typeof botConversations.$inferSelect;
+export type BotMessage = typeof botMessages.$inferSelect;
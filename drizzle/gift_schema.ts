@@ -0,0 +1,56 @@
+import {
+  pgTable,
+  serial,
+  varchar,
+  text,
+  integer,
+  timestamp,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+
+/**
+ * A song, bot plan or Content Master plan bought for someone else. The
+ * buyer pays; whoever redeems the code gets the purchase in their own
+ * account. The provider payment is linked to this row (productType "gift").
+ */
+export const gifts = pgTable(
+  "gifts",
+  {
+    id: serial("id").primaryKey(),
+    buyerId: integer("buyer_id").notNull(),
+    // song | bot | content_master, with productId and plan as in bundleItems
+    productType: varchar("product_type", { length: 30 }).notNull(),
+    productId: integer("product_id"),
+    plan: varchar("plan", { length: 20 }),
+    amountCents: integer("amount_cents").notNull(),
+    currency: varchar("currency", { length: 3 }).notNull().default("usd"),
+    // e.g. "K7QM-2XWP-9HRT"
+    code: varchar("code", { length: 20 }).notNull(),
+    // Null when the buyer hands the code over themselves
+    recipientEmail: varchar("recipient_email", { length: 320 }),
+    recipientName: varchar("recipient_name", { length: 100 }),
+    senderName: varchar("sender_name", { length: 100 }),
+    message: text("message"),
+    // Null to deliver as soon as it is paid
+    deliverAt: timestamp("deliver_at"),
+    // awaiting_payment | scheduled | sent | redeemed | canceled | refunded | denied
+    status: varchar("status", { length: 20 }).notNull().default("awaiting_payment"),
+    paidAt: timestamp("paid_at"),
+    sentAt: timestamp("sent_at"),
+    sendCount: integer("send_count").notNull().default(0),
+    redeemedBy: integer("redeemed_by"),
+    redeemedAt: timestamp("redeemed_at"),
+    // The songPurchases, userBotPurchases or contentMasterPurchases row redemption created
+    redeemedPurchaseId: integer("redeemed_purchase_id"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    codeIdx: uniqueIndex("gifts_code_idx").on(table.code),
+    buyerIdx: index("gifts_buyer_idx").on(table.buyerId),
+    dueIdx: index("gifts_status_deliver_idx").on(table.status, table.deliverAt),
+  })
+);
+
+export type Gift = typeof gifts.$inferSelect;
@@ -0,0 +1,71 @@
+import { pgTable, serial, varchar, text, integer, real, timestamp, index } from "drizzle-orm/pg-core";
+
+/**
+ * Background processing of one knowledge entry: extracting the uploaded
+ * file's text, then chunking and embedding it. A failed attempt goes back to
+ * the queue until maxAttempts is reached.
+ */
+export const knowledgeJobs = pgTable(
+  "knowledge_jobs",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").notNull(),
+    botId: integer("bot_id").notNull(),
+    entryId: integer("entry_id").notNull(),
+    // queued | extracting | chunking | embedding | done | failed
+    status: varchar("status", { length: 20 }).notNull().default("queued"),
+    attempts: integer("attempts").notNull().default(0),
+    maxAttempts: integer("max_attempts").notNull().default(3),
+    // Error of the last failed attempt, kept while the job is retried
+    error: text("error"),
+    // Not picked up before this, to back off between attempts
+    runAfter: timestamp("run_after").defaultNow().notNull(),
+    // When the current attempt last moved; a running job left alone too long was abandoned
+    heartbeatAt: timestamp("heartbeat_at"),
+    startedAt: timestamp("started_at"),
+    finishedAt: timestamp("finished_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    readyIdx: index("knowledge_jobs_status_run_after_idx").on(table.status, table.runAfter),
+    botIdx: index("knowledge_jobs_bot_idx").on(table.botId),
+    entryIdx: index("knowledge_jobs_entry_idx").on(table.entryId),
+  })
+);
+
+export type KnowledgeJob = typeof knowledgeJobs.$inferSelect;
+
+/**
+ * A passage of a knowledge entry's content and its embedding. Chunks are
+ * replaced whenever the entry is processed again; the embedding stays null
+ * until the embedding stage reaches the chunk.
+ */
+export const knowledgeChunks = pgTable(
+  "knowledge_chunks",
+  {
+    id: serial("id").primaryKey(),
+    entryId: integer("entry_id").notNull(),
+    userId: integer("user_id").notNull(),
+    // Null for entries that belong to no bot
+    botId: integer("bot_id"),
+    chunkIndex: integer("chunk_index").notNull(),
+    content: text("content").notNull(),
+    // Offsets of the passage in the entry's content, end exclusive
+    startOffset: integer("start_offset").notNull(),
+    endOffset: integer("end_offset").notNull(),
+    page: integer("page"),
+    heading: text("heading"),
+    // Vectors are only compared with vectors of the same model
+    embeddingModel: varchar("embedding_model", { length: 100 }),
+    // Cast to pgvector's vector type when searching in the database
+    embedding: real("embedding").array(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    entryIdx: index("knowledge_chunks_entry_idx").on(table.entryId, table.chunkIndex),
+    ownerIdx: index("knowledge_chunks_owner_idx").on(table.userId, table.botId),
+  })
+);
+
+export type KnowledgeChunk = typeof knowledgeChunks.$inferSelect;
@@ -0,0 +1,105 @@
+import {
+  pgTable,
+  serial,
+  varchar,
+  real,
+  text,
+  jsonb,
+  boolean,
+  integer,
+  timestamp,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+
+/**
+ * The audio behind a musicUploads row uploaded through the artist upload
+ * flow: resumable upload progress, what inspection found in the file and
+ * the generated preview. Title, artist, genre and status live on
+ * musicUploads; uploads that predate this flow have no row here.
+ */
+export const musicUploadFiles = pgTable(
+  "music_upload_files",
+  {
+    id: serial("id").primaryKey(),
+    uploadId: integer("upload_id").notNull(),
+    originalFilename: varchar("original_filename", { length: 255 }).notNull(),
+    // mp3 | wav | flac
+    format: varchar("format", { length: 10 }).notNull(),
+    sizeBytes: integer("size_bytes").notNull(),
+    receivedBytes: integer("received_bytes").notNull().default(0),
+    // Storage keys of the original file and the preview clip
+    fileKey: varchar("file_key", { length: 255 }).notNull(),
+    previewKey: varchar("preview_key", { length: 255 }),
+    // What the artist entered, applied over the file's tags when processed
+    providedMetadata: jsonb("provided_metadata")
+      .$type<{ title?: string; artistName?: string; genre?: string; isrc?: string; explicit?: boolean }>()
+      .notNull()
+      .default({}),
+    tags: jsonb("tags").$type<Record<string, string | boolean>>(),
+    isrc: varchar("isrc", { length: 12 }),
+    explicit: boolean("explicit"),
+    durationSeconds: real("duration_seconds"),
+    sampleRate: integer("sample_rate"),
+    channels: integer("channels"),
+    bitrateKbps: integer("bitrate_kbps"),
+    // Why processing rejected the upload or an admin took it down
+    rejectionReasons: jsonb("rejection_reasons").$type<string[]>().notNull().default([]),
+    rejectedBy: integer("rejected_by"),
+    // When a processing run took the upload; null while it waits for one
+    processingStartedAt: timestamp("processing_started_at"),
+    processedAt: timestamp("processed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    uploadIdx: uniqueIndex("music_upload_files_upload_idx").on(table.uploadId),
+  })
+);
+
+export type MusicUploadFile = typeof musicUploadFiles.$inferSelect;
+
+/**
+ * One row per song previewed in a listening session; the unique index keeps
+ * replays and seeks in the same session from counting again
+ */
+export const musicPlayEvents = pgTable(
+  "music_play_events",
+  {
+    id: serial("id").primaryKey(),
+    songId: integer("song_id").notNull(),
+    sessionId: varchar("session_id", { length: 64 }).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    sessionIdx: uniqueIndex("music_play_events_session_idx").on(table.songId, table.sessionId),
+  })
+);
+
+export type MusicPlayEvent = typeof musicPlayEvents.$inferSelect;
+
+/**
+ * Users allowed to upload tracks. A user applies once; an admin approves the
+ * application or rejects it with notes, after which the user may apply again.
+ */
+export const musicArtists = pgTable(
+  "music_artists",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").notNull(),
+    // pending | approved | rejected
+    status: varchar("status", { length: 20 }).notNull().default("pending"),
+    // What the applicant tells the reviewer about their music
+    about: text("about").notNull(),
+    appliedAt: timestamp("applied_at").defaultNow().notNull(),
+    reviewedAt: timestamp("reviewed_at"),
+    reviewedBy: integer("reviewed_by"),
+    reviewNotes: text("review_notes"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    userIdx: uniqueIndex("music_artists_user_idx").on(table.userId),
+  })
+);
+
+export type MusicArtist = typeof musicArtists.$inferSelect;
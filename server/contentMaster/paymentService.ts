@@ -1,12 +1,55 @@
 /**
- * Content Master Payment Service - PayPal Integration
- * Handles $29/month and $299 lifetime subscriptions via PayPal
+ * Content Master Payment Service - PayPal and Stripe Integration
+ * Handles $29/month and $299 lifetime subscriptions via PayPal or Stripe
  */
 
 import { db } from '../db';
 import { contentMasterPurchases } from '../../drizzle/schema';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, desc, inArray } from 'drizzle-orm';
 import { logger } from '../_core/logger';
+import {
+  buildRedirectUrls,
+  decodePaymentReference,
+  encodePaymentReference,
+  getPaymentProvider,
+  type BillingPlan,
+  type PaymentProviderName,
+} from '../services/payments';
+import {
+  createLinkedPurchase,
+  findPurchaseLink,
+  getPurchaseLink,
+} from '../services/payments/purchaseLinks';
+import { entitlementService } from '../services/entitlements/entitlementService';
+import type { Entitlement } from '../services/entitlements/evaluateEntitlement';
+import {
+  InvalidSubscriptionTransitionError,
+  transitionSubscription,
+} from '../services/subscriptions/subscriptionState';
+import { recordSubscriptionHistory } from '../services/subscriptions/subscriptionHistory';
+import { assertCheckoutPlan } from '../services/subscriptions/checkoutPlan';
+import { getRefundedCents } from '../services/refunds/refundService';
+import {
+  PromoCodeError,
+  applyPromoToPlan,
+  completePromoRedemption,
+  findPromoRedemption,
+  recordPromoRedemption,
+  resolvePromo,
+} from '../services/promos';
+import {
+  TrialError,
+  findPendingTrial,
+  getPurchaseTrial,
+  getTrialEligibility,
+  getUnpaidTrialPurchaseIds,
+  hasUsedTrial,
+  linkTrialPurchase,
+  reserveTrial,
+  settleTrial,
+  startTrial,
+  withTrial,
+} from '../services/trials';
 
 export interface ContentMasterPlan {
   id: 'monthly' | 'lifetime';
@@ -27,10 +70,15 @@ export interface Subscription {
   id: string;
   userId: string;
   planId: 'monthly' | 'lifetime';
-  status: 'active' | 'canceled' | 'expired';
+  // canceled: access continues until currentPeriodEnd, then expired
+  // trialing: free until currentPeriodEnd, when the first charge is taken
+  status: 'trialing' | 'active' | 'suspended' | 'canceled' | 'expired';
   currentPeriodStart: Date;
   currentPeriodEnd: Date;
   canceledAt?: Date;
+  provider?: PaymentProviderName;
+  // Provider subscription ID for monthly plans, capture/payment ID for lifetime
+  providerSubscriptionId?: string;
   paypalSubscriptionId?: string;
   paypalCustomerId?: string;
 }
@@ -55,94 +103,330 @@ export const CONTENT_MASTER_PLANS: Record<string, ContentMasterPlan> = {
 
 export class ContentMasterPaymentService {
   /**
-   * Create PayPal checkout session
+   * Create a checkout session with the chosen provider
+   * Monthly plans become a provider subscription, lifetime a one-time order.
+   * An invalid promo code throws PromoCodeError before anything is created,
+   * or once its limits are found used up when the redemption is held.
    */
   async createCheckoutSession(
     userId: string,
-    planId: 'monthly' | 'lifetime'
+    planId: 'monthly' | 'lifetime',
+    providerName: PaymentProviderName = 'paypal',
+    promoCode?: string
   ): Promise<CheckoutSession> {
     const plan = CONTENT_MASTER_PLANS[planId];
     if (!plan) {
       throw new Error(`Invalid plan ID: ${planId}`);
     }
 
+    const promo = promoCode
+      ? await resolvePromo(promoCode, parseInt(userId), {
+          product: 'content_master',
+          plan: planId,
+          amountCents: plan.price * 100,
+          interval: plan.interval ?? null,
+        })
+      : null;
+    if (promo?.discount.trialDays && (await hasUsedTrial(parseInt(userId), { product: 'content_master' }))) {
+      throw new PromoCodeError('You have already used your free trial');
+    }
+
+    try {
+      const provider = getPaymentProvider(providerName);
+      const reference = encodePaymentReference({
+        kind: 'content_master',
+        userId: parseInt(userId),
+        planId,
+      });
+      const redirectUrls = buildRedirectUrls('/content-master');
+
+      const billingPlan = this.getBillingPlan(plan);
+
+      const checkout = plan.interval
+        ? await provider.createSubscription({
+            plan: promo ? applyPromoToPlan(billingPlan, promo.discount) : billingPlan,
+            reference,
+            ...redirectUrls,
+          })
+        : await provider.createOrder({
+            amountCents: promo?.discount.amountCents ?? plan.price * 100,
+            currency: plan.currency,
+            description: `Content Master ${plan.name}`,
+            reference,
+            ...redirectUrls,
+          });
+
+      if (promo) {
+        await recordPromoRedemption({
+          applied: promo,
+          userId: parseInt(userId),
+          productType: 'content_master',
+          planId,
+          provider: providerName,
+          checkoutId: checkout.id,
+        });
+      }
+
+      // A trial code starts a trial like the trial checkout does
+      if (promo?.discount.trialDays) {
+        await reserveTrial({
+          userId: parseInt(userId),
+          target: { product: 'content_master' },
+          trialDays: promo.discount.trialDays,
+          provider: providerName,
+          checkoutId: checkout.id,
+        });
+      }
+
+      return {
+        id: checkout.id,
+        url: checkout.approvalUrl,
+        sessionId: checkout.id,
+      };
+    } catch (error) {
+      if (error instanceof PromoCodeError) throw error;
+      logger.error(`Failed to create ${providerName} checkout session:`, error);
+      throw new Error('Failed to create checkout session');
+    }
+  }
+
+  /**
+   * Start the free trial of the monthly plan. The provider takes the first
+   * monthly charge when the trial ends unless the customer cancels first.
+   */
+  async createTrialCheckout(
+    userId: string,
+    providerName: PaymentProviderName = 'paypal'
+  ): Promise<CheckoutSession> {
+    const eligibility = await getTrialEligibility(parseInt(userId), { product: 'content_master' });
+    if (!eligibility.eligible) {
+      throw new TrialError(eligibility.reason);
+    }
+
     try {
-      // Generate PayPal approval URL
-      const approvalUrl = this.generatePayPalApprovalUrl(userId, planId, plan.price);
+      const checkout = await getPaymentProvider(providerName).createSubscription({
+        plan: withTrial(this.getBillingPlan(CONTENT_MASTER_PLANS.monthly), eligibility.trialDays),
+        reference: encodePaymentReference({
+          kind: 'content_master',
+          userId: parseInt(userId),
+          planId: 'monthly',
+        }),
+        ...buildRedirectUrls('/content-master'),
+      });
+
+      await reserveTrial({
+        userId: parseInt(userId),
+        target: { product: 'content_master' },
+        trialDays: eligibility.trialDays,
+        provider: providerName,
+        checkoutId: checkout.id,
+      });
 
       return {
-        id: `cm_${userId}_${planId}_${Date.now()}`,
-        url: approvalUrl,
-        sessionId: `cm_${userId}_${planId}_${Date.now()}`,
+        id: checkout.id,
+        url: checkout.approvalUrl,
+        sessionId: checkout.id,
       };
     } catch (error) {
-      logger.error('Failed to create PayPal checkout session:', error);
+      logger.error(`Failed to create ${providerName} trial checkout:`, error);
       throw new Error('Failed to create checkout session');
     }
   }
 
   /**
-   * Generate PayPal approval URL
+   * Billing plan for a recurring Content Master plan
    */
-  private generatePayPalApprovalUrl(userId: string, planId: string, amount: number): string {
-    const baseUrl = process.env.PAYPAL_API_URL || 'https://www.paypal.com/checkoutnow';
-    const returnUrl = `${process.env.VITE_FRONTEND_URL || 'http://localhost:3000'}/content-master?success=true`;
-    const cancelUrl = `${process.env.VITE_FRONTEND_URL || 'http://localhost:3000'}/content-master?canceled=true`;
-
-    const params = new URLSearchParams({
-      token: `cm_${userId}_${planId}`,
-      amount: amount.toString(),
-      currency: 'USD',
-      description: `Content Master ${planId === 'monthly' ? 'Monthly' : 'Lifetime'} Plan`,
-      returnUrl,
-      cancelUrl,
-    });
-
-    return `${baseUrl}?${params.toString()}`;
+  getBillingPlan(plan: ContentMasterPlan): BillingPlan {
+    return {
+      key: `content_master_${plan.id}`,
+      name: `Content Master ${plan.name}`,
+      description: plan.description,
+      amountCents: plan.price * 100,
+      currency: plan.currency,
+      interval: plan.interval ?? 'month',
+    };
   }
 
   /**
-   * Handle PayPal payment success
+   * Complete a checkout after the buyer returns from the provider.
+   * Captures one-time orders and confirms subscriptions with the provider
+   * before granting access, so a client-supplied ID alone is never trusted.
+   */
+  async completeCheckout(
+    userId: string,
+    planId: 'monthly' | 'lifetime',
+    sessionId: string,
+    providerName: PaymentProviderName = 'paypal'
+  ): Promise<Subscription> {
+    const provider = getPaymentProvider(providerName);
+    const plan = CONTENT_MASTER_PLANS[planId];
+    if (!plan) {
+      throw new Error(`Invalid plan ID: ${planId}`);
+    }
+
+    if (plan.interval) {
+      const status = await provider.getSubscriptionStatus(sessionId);
+      this.assertReference(status.reference, userId, planId);
+      if (status.status !== 'active' && status.status !== 'approved') {
+        throw new Error(`Subscription is ${status.status}`);
+      }
+
+      // Stripe resolves the Checkout Session to its subscription ID
+      const existing = await this.findByProviderId(providerName, status.id);
+      if (existing) return existing;
+      // The reference alone is copyable; the plan billed must be ours
+      await assertCheckoutPlan(provider, status, this.getBillingPlan(plan), sessionId);
+      const subscription = await this.handlePaymentSuccess(
+        userId,
+        planId,
+        status.id,
+        providerName,
+        sessionId
+      );
+      await completePromoRedemption(providerName, sessionId);
+      return subscription;
+    }
+
+    const order = await provider.getOrderStatus(sessionId);
+    this.assertReference(order.reference, userId, planId);
+
+    const capture = await provider.captureOrder(sessionId);
+    if (capture.status !== 'completed') {
+      throw new Error(`Payment ${capture.status}`);
+    }
+    const redemption = await findPromoRedemption(providerName, sessionId);
+    if (capture.amountCents < (redemption?.amountCents ?? plan.price * 100)) {
+      throw new Error('Captured amount does not cover the plan price');
+    }
+
+    const existing = await this.findByProviderId(providerName, capture.captureId);
+    if (existing) return existing;
+    const subscription = await this.handlePaymentSuccess(userId, planId, capture.captureId, providerName);
+    await completePromoRedemption(providerName, sessionId);
+    return subscription;
+  }
+
+  private assertReference(
+    value: string | undefined,
+    userId: string,
+    planId: 'monthly' | 'lifetime'
+  ) {
+    const reference = decodePaymentReference(value);
+    if (
+      reference?.kind !== 'content_master' ||
+      reference.userId !== parseInt(userId) ||
+      reference.planId !== planId
+    ) {
+      throw new Error('Checkout does not belong to this user or plan');
+    }
+  }
+
+  async findByProviderId(
+    providerName: PaymentProviderName,
+    providerId: string
+  ): Promise<Subscription | null> {
+    if (!db) throw new Error('Database unavailable');
+
+    const link = await findPurchaseLink(providerName, providerId);
+    const purchase = await db
+      .select()
+      .from(contentMasterPurchases)
+      .where(
+        link?.productType === 'content_master'
+          ? eq(contentMasterPurchases.id, link.purchaseId)
+          // Purchases made before provider links kept the ID in stripeSubscriptionId
+          : eq(contentMasterPurchases.stripeSubscriptionId, providerId)
+      )
+      .limit(1);
+
+    if (!purchase.length) return null;
+
+    const p = purchase[0];
+    return {
+      id: p.id.toString(),
+      userId: p.userId.toString(),
+      planId: p.planId as 'monthly' | 'lifetime',
+      status: p.status as 'active' | 'canceled' | 'expired',
+      currentPeriodStart: p.currentPeriodStart,
+      currentPeriodEnd: p.currentPeriodEnd,
+      provider: providerName,
+      providerSubscriptionId: providerId,
+      paypalSubscriptionId: providerName === 'paypal' ? providerId : undefined,
+    };
+  }
+
+  /**
+   * Handle a successful payment from either provider
+   * checkoutId is the checkout the customer approved; a trial reserved for
+   * it makes the purchase a trial that ends before the first charge, unless
+   * the customer already started one from another checkout
    */
   async handlePaymentSuccess(
     userId: string,
     planId: 'monthly' | 'lifetime',
-    paypalSubscriptionId: string
+    providerSubscriptionId: string,
+    providerName: PaymentProviderName = 'paypal',
+    checkoutId?: string
   ): Promise<Subscription> {
     try {
       if (!db) throw new Error('Database unavailable');
       
       const now = new Date();
-      const expiresAt = new Date();
-
+      const paidUntil = new Date(now);
       if (planId === 'monthly') {
-        expiresAt.setMonth(expiresAt.getMonth() + 1);
+        paidUntil.setMonth(paidUntil.getMonth() + 1);
       } else {
-        expiresAt.setFullYear(expiresAt.getFullYear() + 100); // Lifetime
+        paidUntil.setFullYear(paidUntil.getFullYear() + 100); // Lifetime
       }
+      const reserved = checkoutId ? await findPendingTrial(providerName, checkoutId) : null;
 
-      // Store in database
-      await db
-        .insert(contentMasterPurchases)
-        .values({
+      const purchase = await createLinkedPurchase(
+        {
+          productType: 'content_master',
           userId: parseInt(userId),
-          planId,
-          status: 'active',
-          stripeSubscriptionId: paypalSubscriptionId, // Use this field for PayPal ID
-          currentPeriodStart: now,
-          currentPeriodEnd: expiresAt,
-        });
+          provider: providerName,
+          providerId: providerSubscriptionId,
+          providerKind: planId === 'monthly' ? 'subscription' : 'payment',
+        },
+        async (tx) => {
+          const trial = reserved ? await startTrial(tx, reserved, now) : null;
+          const [row] = await tx
+            .insert(contentMasterPurchases)
+            .values({
+              userId: parseInt(userId),
+              planId,
+              status: trial ? 'trialing' : 'active',
+              stripeSubscriptionId: providerName === 'stripe' ? providerSubscriptionId : null,
+              currentPeriodStart: now,
+              currentPeriodEnd: trial?.endsAt ?? paidUntil,
+            })
+            .returning();
+          if (trial) await linkTrialPurchase(tx, trial, row.id);
+          return row;
+        }
+      );
 
-      logger.info(`Content Master purchase created for user ${userId}, plan ${planId}`);
+      // Completed by the webhook or the return page in the meantime
+      if (!purchase) {
+        const existing = await this.findByProviderId(providerName, providerSubscriptionId);
+        if (!existing) throw new Error(`Purchase for ${providerName} ${providerSubscriptionId} not found`);
+        return existing;
+      }
+
+      logger.info(
+        `Content Master purchase created for user ${userId}, plan ${planId} via ${providerName}`
+      );
 
       return {
-        id: `cm_${userId}_${planId}`,
+        id: purchase.id.toString(),
         userId,
         planId,
-        status: 'active',
+        status: purchase.status as Subscription['status'],
         currentPeriodStart: now,
-        currentPeriodEnd: expiresAt,
-        paypalSubscriptionId,
+        currentPeriodEnd: purchase.currentPeriodEnd,
+        provider: providerName,
+        providerSubscriptionId,
+        paypalSubscriptionId: providerName === 'paypal' ? providerSubscriptionId : undefined,
       };
     } catch (error) {
       logger.error('Failed to handle payment success:', error);
@@ -152,6 +436,7 @@ export class ContentMasterPaymentService {
 
   /**
    * Get user subscription
+   * Includes trials and subscriptions with a pending cancellation
    */
   async getUserSubscription(userId: string): Promise<Subscription | null> {
     try {
@@ -163,9 +448,10 @@ export class ContentMasterPaymentService {
         .where(
           and(
             eq(contentMasterPurchases.userId, parseInt(userId)),
-            eq(contentMasterPurchases.status, 'active')
+            inArray(contentMasterPurchases.status, ['trialing', 'active', 'suspended', 'canceled'])
           )
         )
+        .orderBy(desc(contentMasterPurchases.id))
         .limit(1);
 
       if (!purchase.length) {
@@ -173,14 +459,21 @@ export class ContentMasterPaymentService {
       }
 
       const p = purchase[0];
+      const link = await getPurchaseLink('content_master', p.id);
+      const provider = link?.provider as PaymentProviderName | undefined;
+      const providerSubscriptionId = link?.providerId ?? p.stripeSubscriptionId ?? undefined;
+
       return {
         id: p.id.toString(),
         userId,
         planId: p.planId as 'monthly' | 'lifetime',
-        status: p.status as 'active' | 'canceled' | 'expired',
+        status: p.status as Subscription['status'],
         currentPeriodStart: p.currentPeriodStart,
         currentPeriodEnd: p.currentPeriodEnd,
-        paypalSubscriptionId: p.stripeSubscriptionId || undefined,
+        canceledAt: p.canceledAt ?? undefined,
+        provider,
+        providerSubscriptionId,
+        paypalSubscriptionId: provider === 'stripe' ? undefined : providerSubscriptionId,
       };
     } catch (error) {
       logger.error('Failed to get user subscription:', error);
@@ -192,114 +485,204 @@ export class ContentMasterPaymentService {
    * Check if user has active subscription
    */
   async hasActiveSubscription(userId: string): Promise<boolean> {
-    try {
-      const subscription = await this.getUserSubscription(userId);
-      if (!subscription) return false;
+    return entitlementService.isEntitled(
+      { id: parseInt(userId) },
+      { product: 'content_master' }
+    );
+  }
 
-      const now = new Date();
-      return subscription.currentPeriodEnd > now;
-    } catch (error) {
-      logger.error('Failed to check subscription status:', error);
-      return false;
-    }
+  /**
+   * Whether the user can use Content Master, and why
+   */
+  async getEntitlement(userId: string): Promise<Entitlement> {
+    return entitlementService.check({ id: parseInt(userId) }, { product: 'content_master' });
   }
 
   /**
-   * Cancel subscription
+   * Cancel subscription at the end of the paid period
+   * The provider stops billing now; access continues until currentPeriodEnd
    */
   async cancelSubscription(userId: string): Promise<Subscription> {
     try {
       if (!db) throw new Error('Database unavailable');
-      
-      const now = new Date();
 
-      const updated = await db
-        .update(contentMasterPurchases)
-        .set({
-          status: 'canceled',
-          currentPeriodEnd: now,
-          canceledAt: now,
-        })
-        .where(
-          and(
-            eq(contentMasterPurchases.userId, parseInt(userId)),
-            eq(contentMasterPurchases.status, 'active')
-          )
+      const current = await this.getUserSubscription(userId);
+      if (!current) {
+        throw new InvalidSubscriptionTransitionError('none', 'cancel', 'No subscription to cancel');
+      }
+      if (current.planId === 'lifetime') {
+        throw new InvalidSubscriptionTransitionError(
+          current.status,
+          'cancel',
+          'Lifetime plans do not renew and cannot be canceled'
         );
+      }
 
-      // Get the updated record
-      const purchase = await db
-        .select()
-        .from(contentMasterPurchases)
-        .where(eq(contentMasterPurchases.userId, parseInt(userId)))
-        .limit(1);
+      const status = transitionSubscription(current.status, 'cancel');
+      const now = new Date();
 
-      if (!purchase.length) {
-        throw new Error('No subscription found');
+      if (current.providerSubscriptionId) {
+        // Stop the provider from billing the subscription again
+        await getPaymentProvider(current.provider ?? 'paypal').cancelSubscription(
+          current.providerSubscriptionId,
+          'Canceled by customer',
+          { atPeriodEnd: true }
+        );
       }
 
-      const p = purchase[0];
-      logger.info(`Content Master subscription canceled for user ${userId}`);
-
-      return {
-        id: p.id.toString(),
-        userId,
-        planId: p.planId as 'monthly' | 'lifetime',
-        status: 'canceled',
-        currentPeriodStart: p.currentPeriodStart,
-        currentPeriodEnd: now,
-        paypalSubscriptionId: p.stripeSubscriptionId || undefined,
-        canceledAt: now,
-      };
+      await db
+        .update(contentMasterPurchases)
+        .set({ status, canceledAt: now })
+        .where(eq(contentMasterPurchases.id, parseInt(current.id)));
+
+      await recordSubscriptionHistory({
+        productType: 'content_master',
+        purchaseId: parseInt(current.id),
+        userId: parseInt(userId),
+        event: 'canceled',
+        fromStatus: current.status,
+        toStatus: status,
+        periodEnd: current.currentPeriodEnd,
+        provider: current.provider ?? null,
+        providerId: current.providerSubscriptionId ?? null,
+        note: 'Canceled by customer',
+      });
+      await settleTrial('content_master', parseInt(current.id), 'canceled');
+
+      logger.info(
+        `Content Master subscription for user ${userId} cancels at ${current.currentPeriodEnd.toISOString()}`
+      );
+
+      return { ...current, status: status as Subscription['status'], canceledAt: now };
     } catch (error) {
       logger.error('Failed to cancel subscription:', error);
+      if (error instanceof InvalidSubscriptionTransitionError) throw error;
       throw new Error('Failed to cancel subscription');
     }
   }
 
+  /**
+   * Undo a pending cancellation before the paid period ends
+   */
+  async resumeSubscription(userId: string): Promise<Subscription> {
+    try {
+      if (!db) throw new Error('Database unavailable');
+
+      const current = await this.getUserSubscription(userId);
+      if (current?.status !== 'canceled') {
+        throw new InvalidSubscriptionTransitionError(
+          current?.status ?? 'none',
+          'resume',
+          'There is no pending cancellation to resume'
+        );
+      }
+      if (current.currentPeriodEnd <= new Date()) {
+        throw new InvalidSubscriptionTransitionError(
+          current.status,
+          'resume',
+          'The subscription period has ended; start a new subscription instead'
+        );
+      }
+
+      // A trial canceled before it ended goes back to being a trial
+      const trial = await getPurchaseTrial('content_master', parseInt(current.id));
+      const status = transitionSubscription(
+        current.status,
+        trial?.status === 'canceled' ? 'resume_trial' : 'resume'
+      );
+
+      if (current.providerSubscriptionId) {
+        await getPaymentProvider(current.provider ?? 'paypal').resumeSubscription(
+          current.providerSubscriptionId,
+          'Resumed by customer'
+        );
+      }
+
+      await db
+        .update(contentMasterPurchases)
+        .set({ status, canceledAt: null })
+        .where(eq(contentMasterPurchases.id, parseInt(current.id)));
+
+      await recordSubscriptionHistory({
+        productType: 'content_master',
+        purchaseId: parseInt(current.id),
+        userId: parseInt(userId),
+        event: 'resumed',
+        fromStatus: current.status,
+        toStatus: status,
+        periodEnd: current.currentPeriodEnd,
+        provider: current.provider ?? null,
+        providerId: current.providerSubscriptionId ?? null,
+        note: 'Resumed by customer',
+      });
+      await settleTrial('content_master', parseInt(current.id), 'resumed');
+
+      logger.info(`Content Master subscription resumed for user ${userId}`);
+
+      return { ...current, status: status as Subscription['status'], canceledAt: undefined };
+    } catch (error) {
+      logger.error('Failed to resume subscription:', error);
+      if (error instanceof InvalidSubscriptionTransitionError) throw error;
+      throw new Error('Failed to resume subscription');
+    }
+  }
+
   /**
    * Get subscription statistics
+   * totalRevenue is net of refunds, which are also reported on their own.
+   * Trials count as revenue only once they convert.
    */
   async getSubscriptionStats(): Promise<{
     totalSubscriptions: number;
     activeSubscriptions: number;
+    trialingSubscriptions: number;
     monthlySubscriptions: number;
     lifetimeSubscriptions: number;
     totalRevenue: number;
+    refundedRevenue: number;
   }> {
     try {
       if (!db) throw new Error('Database unavailable');
       
       const all = await db.select().from(contentMasterPurchases);
+      const unpaidTrials = await getUnpaidTrialPurchaseIds('content_master');
 
       const active = all.filter((p) => p.status === 'active' && p.currentPeriodEnd > new Date());
+      const trialing = all.filter((p) => p.status === 'trialing' && p.currentPeriodEnd > new Date());
       const monthly = active.filter((p) => p.planId === 'monthly');
       const lifetime = active.filter((p) => p.planId === 'lifetime');
 
       // Calculate revenue based on plan type
       const revenue = all.reduce((sum, p) => {
-        if (p.planId === 'monthly') {
+        if (unpaidTrials.has(p.id)) {
+          return sum;
+        } else if (p.planId === 'monthly') {
           return sum + 29;
         } else {
           return sum + 299;
         }
       }, 0);
+      const refunded = (await getRefundedCents('content_master')) / 100;
 
       return {
         totalSubscriptions: all.length,
         activeSubscriptions: active.length,
+        trialingSubscriptions: trialing.length,
         monthlySubscriptions: monthly.length,
         lifetimeSubscriptions: lifetime.length,
-        totalRevenue: revenue,
+        totalRevenue: revenue - refunded,
+        refundedRevenue: -refunded,
       };
     } catch (error) {
       logger.error('Failed to get subscription stats:', error);
       return {
         totalSubscriptions: 0,
         activeSubscriptions: 0,
+        trialingSubscriptions: 0,
         monthlySubscriptions: 0,
         lifetimeSubscriptions: 0,
         totalRevenue: 0,
+        refundedRevenue: 0,
       };
     }
   }
@@ -7,8 +7,11 @@ import { z } from "zod";
 import { router, protectedProcedure } from "../_core/trpc";
 import { TRPCError } from "@trpc/server";
 import { db } from "../db";
-import { userBotPurchases, bots } from "../../drizzle/schema";
+import { userBotPurchases } from "../../drizzle/schema";
+import { botCatalog, type BotCatalogEntry } from "../../drizzle/catalog_schema";
 import { eq, and, gte, lte } from "drizzle-orm";
+import { getRefundedCents } from "../services/refunds/refundService";
+import { getTrialAnalytics, getUnpaidTrialPurchaseIds } from "../services/trials";
 
 interface AnalyticsData {
   usageByDay: Array<{ date: string; usage: number; revenue: number }>;
@@ -23,6 +26,14 @@ interface AnalyticsData {
   revenueBreakdown: Array<{ name: string; value: number }>;
 }
 
+/**
+ * Monthly catalog price of a bot in dollars, the revenue counted per purchase
+ */
+function monthlyPrice(allBots: BotCatalogEntry[], botId: number): number {
+  const bot = allBots.find((b) => b.id === botId);
+  return bot ? bot.monthlyPriceCents / 100 : 0;
+}
+
 export const botAnalyticsRouter = router({
   /**
    * Get analytics data for bots
@@ -63,6 +74,9 @@ export const botAnalyticsRouter = router({
           .from(userBotPurchases)
           .where(whereConditions);
 
+        // Get all bots for names and prices
+        const allBots = await db.select().from(botCatalog);
+
         // Generate usage data by day
         const usageByDay: Record<string, { usage: number; revenue: number }> = {};
         for (let i = 0; i < daysAgo; i++) {
@@ -79,13 +93,10 @@ export const botAnalyticsRouter = router({
           const dateStr = purchaseDate.toISOString().split("T")[0];
           if (usageByDay[dateStr]) {
             usageByDay[dateStr].usage += 1; // Count as 1 interaction per purchase
-            usageByDay[dateStr].revenue += 29.99; // Simplified revenue
+            usageByDay[dateStr].revenue += monthlyPrice(allBots, purchase.botId);
           }
         });
 
-        // Get all bots for revenue breakdown
-        const allBots = await db.select().from(bots);
-
         // Calculate top bots
         const topBots: Record<string, { usage: number; revenue: number }> = {};
         purchases.forEach((purchase) => {
@@ -96,7 +107,7 @@ export const botAnalyticsRouter = router({
             topBots[bot.name] = { usage: 0, revenue: 0 };
           }
           topBots[bot.name].usage += 1;
-          topBots[bot.name].revenue += 29.99;
+          topBots[bot.name].revenue += bot.monthlyPriceCents / 100;
         });
 
         // Get subscription metrics
@@ -202,8 +213,10 @@ export const botAnalyticsRouter = router({
           .from(userBotPurchases)
           .where(eq(userBotPurchases.botId, input.botId));
 
+        const allBots = await db.select().from(botCatalog).where(eq(botCatalog.id, input.botId));
+
         const totalUsage = purchases.length;
-        const totalRevenue = purchases.length * 29.99;
+        const totalRevenue = purchases.length * monthlyPrice(allBots, input.botId);
         const activeCount = purchases.filter((p) => p.status === "active").length;
 
         return {
@@ -243,24 +256,37 @@ export const botAnalyticsRouter = router({
       }
 
       const purchases = await db.select().from(userBotPurchases);
+      const allBots = await db.select().from(botCatalog);
+      // Trials are revenue only once they convert
+      const unpaidTrials = await getUnpaidTrialPurchaseIds("bot");
+      const paidPurchases = purchases.filter((p) => !unpaidTrials.has(p.id));
 
-      const totalRevenue = purchases.length * 29.99;
+      // Refunds count as negative revenue
+      const refundedRevenue = -(await getRefundedCents("bot")) / 100;
+      const revenueOf = (type: string) =>
+        paidPurchases
+          .filter((p) => allBots.find((b) => b.id === p.botId)?.type === type)
+          .reduce((sum, p) => sum + monthlyPrice(allBots, p.botId), 0);
+      const totalRevenue = revenueOf("branded") + revenueOf("blank") + refundedRevenue;
       const monthlyRevenue = totalRevenue / 30; // Simplified
       const activeSubscriptions = purchases.filter((p) => p.status === "active").length;
+      const trialingSubscriptions = purchases.filter((p) => p.status === "trialing").length;
 
-      // Revenue by subscription type
-      const premiumRevenue = purchases.length * 29.99;
-      const standardRevenue = 0;
+      // Revenue by bot type: branded bots are premium, custom bots standard
+      const premiumRevenue = revenueOf("branded");
+      const standardRevenue = revenueOf("blank");
 
       return {
         totalRevenue,
+        refundedRevenue,
         monthlyRevenue,
         activeSubscriptions,
+        trialingSubscriptions,
         revenueByType: {
           premium: premiumRevenue,
           standard: standardRevenue,
         },
-        averageRevenuePerUser: totalRevenue / Math.max(purchases.length, 1),
+        averageRevenuePerUser: totalRevenue / Math.max(paidPurchases.length, 1),
       };
     } catch (error) {
       throw new TRPCError({
@@ -270,6 +296,39 @@ export const botAnalyticsRouter = router({
     }
   }),
 
+  /**
+   * Get trial conversion analytics
+   * Trials started in the date range, overall and per product
+   */
+  getTrialAnalytics: protectedProcedure
+    .input(
+      z.object({
+        dateRange: z.enum(["7d", "30d", "90d", "all"]).default("90d"),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      // Only admins can view platform-wide trial conversion
+      if (ctx.user.role !== "admin") {
+        throw new TRPCError({
+          code: "FORBIDDEN",
+          message: "Only admins can view trial analytics",
+        });
+      }
+
+      try {
+        const daysAgo =
+          input.dateRange === "7d" ? 7 : input.dateRange === "30d" ? 30 : input.dateRange === "90d" ? 90 : null;
+        const since = daysAgo ? new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000) : undefined;
+
+        return await getTrialAnalytics(since);
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to fetch trial analytics",
+        });
+      }
+    }),
+
   /**
    * Get user engagement analytics
    */
@@ -0,0 +1,114 @@
+/**
+ * Bot Chat Router
+ * Talking to a bot the user owns, subscribes to or created: conversations,
+ * their messages, and answers streamed from the bot's knowledge
+ */
+
+import { z } from "zod";
+import { router } from "../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { logger } from "../_core/logger";
+import { requireEntitlement } from "../services/entitlements";
+import {
+  BotChatError,
+  MAX_CHAT_MESSAGE_LENGTH,
+  createConversation,
+  deleteConversation,
+  getConversation,
+  listConversations,
+  sendMessage,
+} from "../services/botChat";
+
+// Chatting needs access to the bot; reads input.botId
+const botProcedure = requireEntitlement("bot");
+
+const conversationInput = z.object({
+  botId: z.number().int().positive(),
+  conversationId: z.number().int().positive(),
+});
+
+export const botChatRouter = router({
+  createConversation: botProcedure
+    .input(
+      z.object({
+        botId: z.number().int().positive(),
+        title: z.string().trim().min(1).max(200).optional(),
+      })
+    )
+    .mutation(async ({ input, ctx }) => {
+      try {
+        return await createConversation(ctx.user.id, input.botId, input.title);
+      } catch (error) {
+        if (!(error instanceof BotChatError)) logger.error("Failed to create bot conversation:", error);
+        throw new TRPCError({
+          code: error instanceof BotChatError ? "NOT_FOUND" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof BotChatError ? error.message : "Failed to create conversation",
+        });
+      }
+    }),
+
+  /**
+   * The user's conversations with the bot, most recently active first
+   */
+  listConversations: botProcedure
+    .input(z.object({ botId: z.number().int().positive() }))
+    .query(async ({ input, ctx }) => {
+      try {
+        return await listConversations(ctx.user.id, input.botId);
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to list conversations",
+        });
+      }
+    }),
+
+  /**
+   * A conversation with all its messages, oldest first
+   */
+  getConversation: botProcedure.input(conversationInput).query(async ({ input, ctx }) => {
+    try {
+      return await getConversation(ctx.user.id, input.botId, input.conversationId);
+    } catch (error) {
+      throw new TRPCError({
+        code: error instanceof BotChatError ? "NOT_FOUND" : "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to fetch conversation",
+      });
+    }
+  }),
+
+  /**
+   * Ask the bot something. Streams a "start" event with the knowledge
+   * passages retrieved, "delta" events with the answer as it is written, and
+   * a "done" event with the stored answer and the entries it cited.
+   */
+  sendMessage: botProcedure
+    .input(
+      conversationInput.extend({
+        content: z.string().trim().min(1).max(MAX_CHAT_MESSAGE_LENGTH),
+      })
+    )
+    .mutation(async function* ({ input, ctx, signal }) {
+      try {
+        yield* sendMessage(ctx.user.id, input.botId, input.conversationId, input.content, signal);
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof BotChatError ? "NOT_FOUND" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof BotChatError ? error.message : "Failed to answer",
+        });
+      }
+    }),
+
+  deleteConversation: botProcedure.input(conversationInput).mutation(async ({ input, ctx }) => {
+    try {
+      await deleteConversation(ctx.user.id, input.botId, input.conversationId);
+      return { success: true };
+    } catch (error) {
+      if (!(error instanceof BotChatError)) logger.error("Failed to delete bot conversation:", error);
+      throw new TRPCError({
+        code: error instanceof BotChatError ? "NOT_FOUND" : "INTERNAL_SERVER_ERROR",
+        message: error instanceof BotChatError ? error.message : "Failed to delete conversation",
+      });
+    }
+  }),
+});
@@ -1,6 +1,6 @@
 /**
  * Bot Checkout Router
- * Handles bot subscription purchases through PayPal
+ * Handles bot subscription purchases through PayPal or Stripe
  */
 
 import { z } from "zod";
@@ -10,21 +10,31 @@ import {
   createBotCheckout,
   completeBotSubscription,
   cancelBotSubscription,
+  resumeBotSubscription,
   getBotSubscriptionStatus,
+  verifyBotSubscription,
 } from "../services/botCheckout";
+import {
+  PlanChangeError,
+  completePlanChange,
+  startPlanChange,
+} from "../services/subscriptions/planChangeService";
 import { logger } from "../_core/logger";
 
 export const botCheckoutRouter = router({
   /**
    * Create bot checkout session
-   * Returns PayPal approval URL for user authorization
+   * Returns the provider's approval URL for user authorization
    */
   createCheckout: protectedProcedure
     .input(
       z.object({
         botId: z.number(),
-        botType: z.enum(["branded", "custom"]),
         subscriptionType: z.enum(["monthly", "yearly"]),
+        provider: z.enum(["paypal", "stripe"]).default("paypal"),
+        promoCode: z.string().trim().min(1).max(64).optional(),
+        // Start with the bot's free trial when the user is eligible
+        trial: z.boolean().default(false),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -35,10 +45,12 @@ export const botCheckoutRouter = router({
 
         const result = await createBotCheckout({
           botId: input.botId,
-          botType: input.botType,
           subscriptionType: input.subscriptionType,
           userId: ctx.user.id.toString(),
           userEmail: ctx.user.email || "user@example.com",
+          provider: input.provider,
+          promoCode: input.promoCode,
+          trial: input.trial,
         });
 
         if (!result.success) {
@@ -51,9 +63,11 @@ export const botCheckoutRouter = router({
         return {
           success: true,
           checkoutUrl: result.checkoutUrl,
+          subscriptionId: result.subscriptionId,
           message: result.message,
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         logger.error("Failed to create bot checkout:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -63,14 +77,16 @@ export const botCheckoutRouter = router({
     }),
 
   /**
-   * Complete bot subscription after PayPal approval
+   * Complete bot subscription after provider approval
    */
   completeSubscription: protectedProcedure
     .input(
       z.object({
         botId: z.number(),
-        paypalSubscriptionId: z.string(),
+        // PayPal subscription ID or Stripe Checkout Session ID
+        subscriptionId: z.string(),
         subscriptionType: z.enum(["monthly", "yearly"]),
+        provider: z.enum(["paypal", "stripe"]).default("paypal"),
       })
     )
     .mutation(async ({ ctx, input }) => {
@@ -79,11 +95,27 @@ export const botCheckoutRouter = router({
           `Completing subscription for bot ${input.botId}, user ${ctx.user.id}`
         );
 
+        const subscriptionId = await verifyBotSubscription(
+          ctx.user.id.toString(),
+          input.botId,
+          input.subscriptionId,
+          input.provider
+        );
+
+        if (!subscriptionId) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: "Subscription is not approved for this bot",
+          });
+        }
+
         const result = await completeBotSubscription(
           ctx.user.id.toString(),
           input.botId,
-          input.paypalSubscriptionId,
-          input.subscriptionType
+          subscriptionId,
+          input.subscriptionType,
+          input.provider,
+          input.subscriptionId
         );
 
         if (!result.success) {
@@ -108,6 +140,7 @@ export const botCheckoutRouter = router({
 
   /**
    * Cancel bot subscription
+   * Access continues until the end of the paid period
    */
   cancelSubscription: protectedProcedure
     .input(z.object({ botId: z.number() }))
@@ -132,8 +165,10 @@ export const botCheckoutRouter = router({
         return {
           success: true,
           message: result.message,
+          expiryDate: result.expiryDate,
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
         logger.error("Failed to cancel subscription:", error);
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -142,6 +177,94 @@ export const botCheckoutRouter = router({
       }
     }),
 
+  /**
+   * Undo a pending cancellation
+   */
+  resumeSubscription: protectedProcedure
+    .input(z.object({ botId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        logger.info(
+          `Resuming subscription for bot ${input.botId}, user ${ctx.user.id}`
+        );
+
+        const result = await resumeBotSubscription(
+          ctx.user.id.toString(),
+          input.botId
+        );
+
+        if (!result.success) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: result.message,
+          });
+        }
+
+        return {
+          success: true,
+          message: result.message,
+          expiryDate: result.expiryDate,
+        };
+      } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        logger.error("Failed to resume subscription:", error);
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to resume subscription",
+        });
+      }
+    }),
+
+  /**
+   * Switch a bot subscription between monthly and yearly
+   * Unused time is credited; returns the provider checkout for the difference
+   */
+  changePlan: protectedProcedure
+    .input(
+      z.object({
+        botId: z.number(),
+        subscriptionType: z.enum(["monthly", "yearly"]),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        logger.info(
+          `Changing bot ${input.botId} plan to ${input.subscriptionType} for user ${ctx.user.id}`
+        );
+
+        return await startPlanChange(
+          ctx.user.id,
+          {
+            product: "bot",
+            botId: input.botId,
+            interval: input.subscriptionType,
+          },
+          ctx.user.email ?? undefined
+        );
+      } catch (error) {
+        logger.error("Failed to change plan:", error);
+        throw new TRPCError({
+          code: error instanceof PlanChangeError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to change plan",
+        });
+      }
+    }),
+
+  completePlanChange: protectedProcedure
+    .input(z.object({ botId: z.number(), planChangeId: z.number().int().positive() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await completePlanChange(ctx.user.id, input.planChangeId);
+        return await getBotSubscriptionStatus(ctx.user.id.toString(), input.botId);
+      } catch (error) {
+        logger.error("Failed to complete plan change:", error);
+        throw new TRPCError({
+          code: error instanceof PlanChangeError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to complete plan change",
+        });
+      }
+    }),
+
   /**
    * Get bot subscription status
    */
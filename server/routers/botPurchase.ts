@@ -1,25 +1,27 @@
 import { z } from "zod";
-import { router, protectedProcedure, publicProcedure } from "../_core/trpc";
+import { router, protectedProcedure } from "../_core/trpc";
 import { getDb } from "../db";
 import { userBotPurchases } from "../../drizzle/schema";
-import { eq, and } from "drizzle-orm";
+import { eq } from "drizzle-orm";
 import { TRPCError } from "@trpc/server";
-
-const bots = [
-  // Branded Bots (Pre-configured with Damone Ward Sr. content)
-  { id: 1, name: "Brain Bot", priceMonthly: 2999, priceYearly: 29999, type: "branded", description: "Content management & analysis" },
-  { id: 2, name: "Creative Bot", priceMonthly: 2999, priceYearly: 29999, type: "branded", description: "Music distribution & content generation" },
-  { id: 3, name: "Hype Bot", priceMonthly: 2999, priceYearly: 29999, type: "branded", description: "Marketing & community engagement" },
-  { id: 4, name: "Email Bot", priceMonthly: 2999, priceYearly: 29999, type: "branded", description: "Email automation & campaigns" },
-  { id: 5, name: "No Repeat Bot", priceMonthly: 2999, priceYearly: 29999, type: "branded", description: "Smart playlist generation" },
-  { id: 6, name: "Art Bot", priceMonthly: 2999, priceYearly: 29999, type: "branded", description: "Cover art & visual content" },
-  // Blank Bot Template (For users to customize)
-  { id: 7, name: "Custom Bot Builder", priceMonthly: 1999, priceYearly: 19999, type: "blank", description: "Build your own AI bot with custom knowledge base" },
-];
+import { entitlementService } from "../services/entitlements";
+import { getTrialDays, getTrialEligibility } from "../services/trials";
+import { catalogPrice, getCatalogBot, isPurchasable, listCatalogBots } from "../services/catalog";
 
 export const botPurchaseRouter = router({
-  getAll: publicProcedure.query(async () => {
-    return bots;
+  /**
+   * Free trials the user can start, one entry per bot that offers a trial
+   */
+  getTrialOffers: protectedProcedure.query(async ({ ctx }) => {
+    const bots = await listCatalogBots();
+    const offered = bots.filter((bot) => getTrialDays({ product: "bot", botId: bot.id }) > 0);
+
+    return Promise.all(
+      offered.map(async (bot) => ({
+        botId: bot.id,
+        ...(await getTrialEligibility(ctx.user.id, { product: "bot", botId: bot.id })),
+      }))
+    );
   }),
 
   purchase: protectedProcedure
@@ -28,8 +30,8 @@ export const botPurchaseRouter = router({
       const db = await getDb();
       if (!db) throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Database unavailable" });
 
-      const bot = bots.find(b => b.id === input.botId);
-      if (!bot) throw new TRPCError({ code: "NOT_FOUND", message: "Bot not found" });
+      const bot = await getCatalogBot(input.botId);
+      if (!bot || !isPurchasable(bot)) throw new TRPCError({ code: "NOT_FOUND", message: "Bot not found" });
 
       const expiryDate = new Date();
       if (input.subscriptionType === "monthly") {
@@ -45,7 +47,7 @@ export const botPurchaseRouter = router({
         status: "active",
       });
 
-      const price = input.subscriptionType === "monthly" ? bot.priceMonthly : bot.priceYearly;
+      const price = catalogPrice(bot, input.subscriptionType);
       return { success: true, botName: bot.name, price };
     }),
 
@@ -62,13 +64,6 @@ export const botPurchaseRouter = router({
   hasPurchased: protectedProcedure
     .input(z.object({ botId: z.number() }))
     .query(async ({ ctx, input }) => {
-      const db = await getDb();
-      if (!db) return false;
-
-      const purchase = await db
-        .select()
-        .from(userBotPurchases)
-        .where(and(eq(userBotPurchases.userId, ctx.user.id), eq(userBotPurchases.botId, input.botId)));
-      return purchase.length > 0;
+      return entitlementService.isEntitled(ctx.user, { product: "bot", botId: input.botId });
     }),
 });
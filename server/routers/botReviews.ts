@@ -0,0 +1,195 @@
+/**
+ * Bot Reviews Router
+ * Ratings and reviews from bot customers, helpful votes, creator replies
+ * and the admin moderation queue
+ */
+
+import { z } from "zod";
+import { protectedProcedure, publicProcedure, router } from "../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import {
+  ReviewError,
+  createReview,
+  deleteReview,
+  getReviewEligibility,
+  getUserReview,
+  listBotReviews,
+  listModerationQueue,
+  moderateReview,
+  replyToReview,
+  setHelpfulVote,
+  updateReview,
+} from "../services/reviews";
+import { logger } from "../_core/logger";
+
+const reviewInput = z.object({
+  rating: z.number().int().min(1).max(5),
+  title: z.string().trim().max(120).nullable().optional(),
+  body: z.string().trim().min(10).max(5000),
+});
+
+const reviewId = z.object({ reviewId: z.number().int().positive() });
+
+export const botReviewsRouter = router({
+  /**
+   * Published reviews of a bot with its rating summary
+   */
+  list: publicProcedure
+    .input(
+      z.object({
+        botId: z.number().int().positive(),
+        sort: z.enum(["helpful", "newest", "highest", "lowest"]).default("helpful"),
+        limit: z.number().int().min(1).max(50).default(10),
+        offset: z.number().int().min(0).default(0),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        return await listBotReviews(input.botId, {
+          sort: input.sort,
+          limit: input.limit,
+          offset: input.offset,
+          viewerId: ctx.user?.id,
+        });
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to load reviews",
+        });
+      }
+    }),
+
+  /**
+   * Whether the user may review the bot, and their review if they wrote one
+   */
+  getMine: protectedProcedure
+    .input(z.object({ botId: z.number().int().positive() }))
+    .query(async ({ ctx, input }) => {
+      const [eligibility, review] = await Promise.all([
+        getReviewEligibility(ctx.user.id, input.botId),
+        getUserReview(ctx.user.id, input.botId),
+      ]);
+      return { eligibility, review };
+    }),
+
+  create: protectedProcedure
+    .input(reviewInput.extend({ botId: z.number().int().positive() }))
+    .mutation(async ({ ctx, input }) => {
+      const { botId, ...review } = input;
+      try {
+        return await createReview(ctx.user.id, botId, review);
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof ReviewError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to save review",
+        });
+      }
+    }),
+
+  update: protectedProcedure
+    .input(reviewId.extend({ changes: reviewInput.partial() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await updateReview(ctx.user.id, input.reviewId, input.changes);
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof ReviewError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to update review",
+        });
+      }
+    }),
+
+  delete: protectedProcedure.input(reviewId).mutation(async ({ ctx, input }) => {
+    try {
+      await deleteReview(ctx.user.id, input.reviewId);
+      return { success: true };
+    } catch (error) {
+      throw new TRPCError({
+        code: error instanceof ReviewError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to delete review",
+      });
+    }
+  }),
+
+  /**
+   * Mark a review helpful, or take the vote back
+   */
+  voteHelpful: protectedProcedure
+    .input(reviewId.extend({ helpful: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return { helpfulCount: await setHelpfulVote(ctx.user.id, input.reviewId, input.helpful) };
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof ReviewError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to record vote",
+        });
+      }
+    }),
+
+  /**
+   * Reply as the bot's creator; null removes the reply
+   */
+  reply: protectedProcedure
+    .input(reviewId.extend({ reply: z.string().trim().min(1).max(2000).nullable() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await replyToReview(ctx.user, input.reviewId, input.reply);
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof ReviewError ? "FORBIDDEN" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to save reply",
+        });
+      }
+    }),
+
+  /**
+   * Reviews waiting for a moderator, or hidden ones
+   */
+  moderationQueue: protectedProcedure
+    .input(
+      z.object({
+        filter: z.enum(["pending", "hidden", "all"]).default("pending"),
+        limit: z.number().int().min(1).max(100).default(50),
+        offset: z.number().int().min(0).default(0),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+      try {
+        return await listModerationQueue(input);
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to load moderation queue",
+        });
+      }
+    }),
+
+  /**
+   * Approve a review as is, hide it from the store, or restore a hidden one
+   */
+  moderate: protectedProcedure
+    .input(
+      reviewId.extend({
+        action: z.enum(["approve", "hide", "restore"]),
+        reason: z.string().trim().min(1).max(500).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+      try {
+        logger.info(`Admin ${ctx.user.id} moderating review ${input.reviewId}: ${input.action}`);
+        return await moderateReview(ctx.user.id, input.reviewId, input.action, input.reason);
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof ReviewError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to moderate review",
+        });
+      }
+    }),
+});
@@ -0,0 +1,268 @@
+/**
+ * Bundles Router
+ * Albums artists build from their own tracks and admin bundles across songs,
+ * bots and Content Master, sold for one discounted price
+ */
+
+import { z } from "zod";
+import { protectedProcedure, publicProcedure, router } from "../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import {
+  BundleError,
+  MAX_BUNDLE_ITEMS,
+  completeBundleCheckout,
+  createAlbum,
+  createBundle,
+  createBundleCheckout,
+  getBundle,
+  listAllBundles,
+  listArtistAlbums,
+  listBundlePurchases,
+  listBundles,
+  setAlbumStatus,
+  setBundleStatus,
+  updateAlbum,
+  updateBundle,
+} from "../services/bundles";
+import { logger } from "../_core/logger";
+
+const paymentProvider = z.enum(["paypal", "stripe"]).default("paypal");
+
+const bundleItem = z.discriminatedUnion("product", [
+  z.object({ product: z.literal("song"), songId: z.number().int().positive() }),
+  z.object({
+    product: z.literal("bot"),
+    botId: z.number().int().positive(),
+    interval: z.enum(["monthly", "yearly"]),
+  }),
+  z.object({ product: z.literal("content_master"), planId: z.enum(["monthly", "lifetime"]) }),
+]);
+
+const bundleInput = z.object({
+  title: z.string().trim().min(1).max(200),
+  description: z.string().trim().max(2000).nullable().optional(),
+  priceCents: z.number().int().positive(),
+  items: z.array(bundleItem).min(1).max(MAX_BUNDLE_ITEMS),
+});
+
+const albumInput = bundleInput.omit({ items: true }).extend({
+  songIds: z.array(z.number().int().positive()).min(1).max(MAX_BUNDLE_ITEMS),
+});
+
+const bundleId = z.object({ bundleId: z.number().int().positive() });
+
+const statusAction = z.enum(["publish", "archive"]);
+
+function albumItems({ songIds, ...album }: z.infer<typeof albumInput>) {
+  return { ...album, items: songIds.map((songId) => ({ product: "song" as const, songId })) };
+}
+
+export const bundlesRouter = router({
+  /**
+   * Albums and bundles on sale, newest first
+   */
+  list: publicProcedure
+    .input(z.object({ kind: z.enum(["album", "bundle"]).optional() }).default({}))
+    .query(async ({ input }) => {
+      try {
+        return await listBundles(input.kind);
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to load bundles",
+        });
+      }
+    }),
+
+  get: publicProcedure.input(bundleId).query(async ({ input }) => {
+    const bundle = await getBundle(input.bundleId);
+    if (!bundle) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Bundle not found" });
+    }
+    return bundle;
+  }),
+
+  /**
+   * Start a bundle checkout; returns the provider's approval URL
+   */
+  createCheckout: protectedProcedure
+    .input(bundleId.extend({ provider: paymentProvider }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await createBundleCheckout({ userId: ctx.user.id, ...input });
+      } catch (error) {
+        if (!(error instanceof BundleError)) logger.error("Failed to create bundle checkout:", error);
+        throw new TRPCError({
+          code: error instanceof BundleError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof BundleError ? error.message : "Failed to create checkout session",
+        });
+      }
+    }),
+
+  /**
+   * Capture the payment once the buyer returns from the provider
+   */
+  completeCheckout: protectedProcedure
+    .input(
+      bundleId.extend({
+        // PayPal order ID or Stripe Checkout Session ID
+        checkoutId: z.string().min(1),
+        provider: paymentProvider,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await completeBundleCheckout(ctx.user.id, input.bundleId, input.checkoutId, input.provider);
+      } catch (error) {
+        if (!(error instanceof BundleError)) logger.error("Failed to complete bundle checkout:", error);
+        throw new TRPCError({
+          code: error instanceof BundleError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to complete purchase",
+        });
+      }
+    }),
+
+  /**
+   * Bundles the caller has bought
+   */
+  purchases: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await listBundlePurchases(ctx.user.id);
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to load your bundles",
+      });
+    }
+  }),
+
+  /**
+   * The artist's albums in every status
+   */
+  myAlbums: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await listArtistAlbums(ctx.user.id);
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to load your albums",
+      });
+    }
+  }),
+
+  /**
+   * A draft album of the artist's published tracks, priced below $1 a song
+   */
+  createAlbum: protectedProcedure.input(albumInput).mutation(async ({ ctx, input }) => {
+    try {
+      return await createAlbum(ctx.user.id, albumItems(input));
+    } catch (error) {
+      throw new TRPCError({
+        code: error instanceof BundleError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to create album",
+      });
+    }
+  }),
+
+  updateAlbum: protectedProcedure
+    .input(albumInput.extend({ albumId: z.number().int().positive() }))
+    .mutation(async ({ ctx, input }) => {
+      const { albumId, ...album } = input;
+      try {
+        return await updateAlbum(ctx.user.id, albumId, albumItems(album));
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof BundleError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to update album",
+        });
+      }
+    }),
+
+  /**
+   * Put an album on sale, or take it off sale
+   */
+  setAlbumStatus: protectedProcedure
+    .input(z.object({ albumId: z.number().int().positive(), action: statusAction }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await setAlbumStatus(ctx.user.id, input.albumId, input.action);
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof BundleError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to update album",
+        });
+      }
+    }),
+
+  /**
+   * Admin: albums and bundles in every status
+   */
+  all: protectedProcedure.query(async ({ ctx }) => {
+    if (ctx.user.role !== "admin") {
+      throw new TRPCError({ code: "FORBIDDEN" });
+    }
+
+    try {
+      return await listAllBundles();
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to load bundles",
+      });
+    }
+  }),
+
+  /**
+   * Admin: a draft bundle of any products
+   */
+  create: protectedProcedure.input(bundleInput).mutation(async ({ ctx, input }) => {
+    if (ctx.user.role !== "admin") {
+      throw new TRPCError({ code: "FORBIDDEN" });
+    }
+
+    try {
+      return await createBundle(ctx.user.id, input);
+    } catch (error) {
+      throw new TRPCError({
+        code: error instanceof BundleError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to create bundle",
+      });
+    }
+  }),
+
+  update: protectedProcedure.input(bundleInput.merge(bundleId)).mutation(async ({ ctx, input }) => {
+    if (ctx.user.role !== "admin") {
+      throw new TRPCError({ code: "FORBIDDEN" });
+    }
+
+    const { bundleId: id, ...bundle } = input;
+    try {
+      return await updateBundle(id, bundle);
+    } catch (error) {
+      throw new TRPCError({
+        code: error instanceof BundleError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to update bundle",
+      });
+    }
+  }),
+
+  /**
+   * Admin: put any album or bundle on sale, or take it off sale
+   */
+  setStatus: protectedProcedure
+    .input(bundleId.extend({ action: statusAction }))
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+
+      try {
+        return await setBundleStatus(input.bundleId, input.action);
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof BundleError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to update bundle",
+        });
+      }
+    }),
+});
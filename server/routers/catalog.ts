@@ -0,0 +1,208 @@
+/**
+ * Bot Catalog Router
+ * The bots the store sells, for every store page, and admin management of them
+ */
+
+import { z } from "zod";
+import { protectedProcedure, publicProcedure, router } from "../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import {
+  CatalogError,
+  createCatalogBot,
+  deleteCatalogBot,
+  getCatalogBot,
+  isPurchasable,
+  listCatalogBots,
+  searchCatalogBots,
+  seedBotCatalog,
+  setCatalogBotStatus,
+  updateCatalogBot,
+} from "../services/catalog";
+import { logger } from "../_core/logger";
+
+const catalogStatus = z.enum(["draft", "published", "archived"]);
+
+const catalogBotInput = z.object({
+  slug: z.string().trim().min(2).max(100).regex(/^[a-z0-9-]+$/),
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().min(1).max(2000),
+  icon: z.string().max(20).nullable().optional(),
+  type: z.enum(["branded", "blank"]),
+  categories: z.array(z.string().min(1).max(50)).max(10).default([]),
+  capabilities: z.array(z.string().min(1).max(50)).max(20).default([]),
+  features: z.array(z.string().min(1).max(200)).max(20).default([]),
+  creatorName: z.string().trim().min(1).max(100),
+  creatorUserId: z.number().int().positive().nullable().optional(),
+  monthlyPriceCents: z.number().int().positive(),
+  yearlyPriceCents: z.number().int().positive(),
+  currency: z.string().length(3).toLowerCase().default("usd"),
+  status: catalogStatus.default("draft"),
+  sortOrder: z.number().int().default(0),
+  revenueSharePercent: z.number().int().min(0).max(100).nullable().optional(),
+});
+
+const botFilters = z.object({
+  categories: z.array(z.string().max(50)).max(20).default([]),
+  capabilities: z.array(z.string().max(50)).max(20).default([]),
+  // Monthly price in dollars
+  priceRange: z
+    .tuple([z.number().min(0), z.number().min(0)])
+    .refine(([min, max]) => min <= max, { message: "Minimum price is above the maximum" })
+    .default([0, 100]),
+  rating: z.number().min(0).max(5).default(0),
+  searchTerm: z.string().trim().max(100).default(""),
+});
+
+export const catalogRouter = router({
+  /**
+   * Published bots in store order
+   */
+  list: publicProcedure
+    .input(z.object({ type: z.enum(["branded", "blank"]).optional() }).optional())
+    .query(async ({ input }) => {
+      try {
+        const bots = await listCatalogBots();
+        return input?.type ? bots.filter((bot) => bot.type === input.type) : bots;
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to load bots",
+        });
+      }
+    }),
+
+  /**
+   * Marketplace search: filters, sort and cursor pagination, with facet
+   * counts for the filter panel
+   */
+  search: publicProcedure
+    .input(
+      z.object({
+        filters: botFilters.default({}),
+        sort: z
+          .enum(["featured", "relevance", "price_asc", "price_desc", "rating", "newest", "name"])
+          .default("featured"),
+        limit: z.number().int().min(1).max(50).default(12),
+        cursor: z.string().max(500).optional(),
+      })
+    )
+    .query(async ({ input }) => {
+      try {
+        return await searchCatalogBots(input);
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof CatalogError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to search bots",
+        });
+      }
+    }),
+
+  get: publicProcedure.input(z.object({ id: z.number().int().positive() })).query(async ({ input }) => {
+    const bot = await getCatalogBot(input.id);
+    if (!bot || !isPurchasable(bot)) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "Bot not found" });
+    }
+    return bot;
+  }),
+
+  /**
+   * Every bot, drafts and archived ones included
+   */
+  adminList: protectedProcedure.query(async ({ ctx }) => {
+    if (ctx.user.role !== "admin") {
+      throw new TRPCError({ code: "FORBIDDEN" });
+    }
+    try {
+      return await listCatalogBots({ includeUnpublished: true });
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to load bots",
+      });
+    }
+  }),
+
+  create: protectedProcedure.input(catalogBotInput).mutation(async ({ ctx, input }) => {
+    if (ctx.user.role !== "admin") {
+      throw new TRPCError({ code: "FORBIDDEN" });
+    }
+    try {
+      logger.info(`Admin ${ctx.user.id} creating catalog bot ${input.slug}`);
+      return await createCatalogBot(input);
+    } catch (error) {
+      throw new TRPCError({
+        code: error instanceof CatalogError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to create bot",
+      });
+    }
+  }),
+
+  update: protectedProcedure
+    .input(z.object({ id: z.number().int().positive(), changes: catalogBotInput.partial() }))
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+      try {
+        logger.info(`Admin ${ctx.user.id} updating catalog bot ${input.id}`);
+        return await updateCatalogBot(input.id, input.changes);
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof CatalogError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to update bot",
+        });
+      }
+    }),
+
+  setStatus: protectedProcedure
+    .input(z.object({ id: z.number().int().positive(), status: catalogStatus }))
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+      try {
+        logger.info(`Admin ${ctx.user.id} setting catalog bot ${input.id} to ${input.status}`);
+        return await setCatalogBotStatus(input.id, input.status);
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof CatalogError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to update bot",
+        });
+      }
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.number().int().positive() }))
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+      try {
+        logger.info(`Admin ${ctx.user.id} deleting catalog bot ${input.id}`);
+        await deleteCatalogBot(input.id);
+        return { success: true };
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof CatalogError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to delete bot",
+        });
+      }
+    }),
+
+  /**
+   * Add the launch bots missing from the catalog; existing rows are left as they are
+   */
+  seedDefaults: protectedProcedure.mutation(async ({ ctx }) => {
+    if (ctx.user.role !== "admin") {
+      throw new TRPCError({ code: "FORBIDDEN" });
+    }
+    try {
+      return { inserted: await seedBotCatalog() };
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to seed bots",
+      });
+    }
+  }),
+});
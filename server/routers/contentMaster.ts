@@ -6,11 +6,26 @@ import { TRPCError } from "@trpc/server";
 import { paymentService } from "../contentMaster/paymentService";
 import { adminDashboardService } from "../contentMaster/adminDashboardService";
 import { bulkImportService } from "../contentMaster/bulkImportService";
+import { requireEntitlement } from "../services/entitlements";
+import { InvalidSubscriptionTransitionError } from "../services/subscriptions/subscriptionState";
+import { PromoCodeError } from "../services/promos";
+import { TrialError, getTrialEligibility } from "../services/trials";
+import { searchKnowledge, type KnowledgeSearchHit } from "../services/knowledge";
+import {
+  PlanChangeError,
+  completePlanChange,
+  startPlanChange,
+} from "../services/subscriptions/planChangeService";
 
 // Initialize Content Master instance
 const contentMaster = new GiftedEternityContentMaster();
 
+// Bot features need a Content Master plan; payment and public procedures do not
+const contentMasterProcedure = requireEntitlement("content_master");
+
 // Validation schemas
+const knowledgeTypes = z.enum(["website", "book", "music", "artist", "feature", "blog", "document"]);
+
 const knowledgeEntryInput = z.object({
   type: z.enum(["website", "book", "music", "artist", "feature", "blog"]),
   title: z.string().min(1),
@@ -19,28 +34,119 @@ const knowledgeEntryInput = z.object({
   metadata: z.record(z.string(), z.any()).optional(),
 });
 
+const knowledgeSearchInput = z.object({
+  query: z.string().trim().min(1).max(1000),
+  types: z.array(knowledgeTypes).optional(),
+  botId: z.number().int().positive().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.number().int().min(1).default(1),
+  pageSize: z.number().int().min(1).max(50).default(10),
+});
+
+// knowledge.pointToContent's groups, keyed by entry type
+const CONTENT_GROUPS = {
+  website: "websites",
+  book: "books",
+  music: "music",
+  artist: "artists",
+  feature: "features",
+  blog: "blogs",
+  document: "documents",
+} as const;
+
+type ContentGroup = (typeof CONTENT_GROUPS)[keyof typeof CONTENT_GROUPS];
+
 export const contentMasterRouter = router({
   /**
    * PAYMENT PROCEDURES - Stripe/PayPal integration for $29/month and $299 lifetime plans
    */
   payment: router({
     createCheckoutSession: protectedProcedure
-      .input(z.object({ planId: z.enum(["monthly", "lifetime"]) }))
+      .input(
+        z.object({
+          planId: z.enum(["monthly", "lifetime"]),
+          provider: z.enum(["paypal", "stripe"]).default("paypal"),
+          promoCode: z.string().trim().min(1).max(64).optional(),
+        })
+      )
       .mutation(async ({ input, ctx }) => {
         try {
           const session = await paymentService.createCheckoutSession(
             ctx.user.id.toString(),
-            input.planId
+            input.planId,
+            input.provider,
+            input.promoCode
           );
           return session;
         } catch (error) {
           throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
+            code: error instanceof PromoCodeError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
             message: error instanceof Error ? error.message : "Failed to create checkout session",
           });
         }
       }),
 
+    completeCheckout: protectedProcedure
+      .input(
+        z.object({
+          planId: z.enum(["monthly", "lifetime"]),
+          sessionId: z.string().min(1),
+          provider: z.enum(["paypal", "stripe"]).default("paypal"),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        try {
+          const subscription = await paymentService.completeCheckout(
+            ctx.user.id.toString(),
+            input.planId,
+            input.sessionId,
+            input.provider
+          );
+          return subscription;
+        } catch (error) {
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: error instanceof Error ? error.message : "Failed to complete checkout",
+          });
+        }
+      }),
+
+    /**
+     * Whether the user can start the free trial of the monthly plan
+     */
+    getTrialEligibility: protectedProcedure.query(async ({ ctx }) => {
+      try {
+        return await getTrialEligibility(ctx.user.id, { product: "content_master" });
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to check trial eligibility",
+        });
+      }
+    }),
+
+    /**
+     * Checkout for the free trial; completed with completeCheckout like any
+     * monthly subscription
+     */
+    startTrial: protectedProcedure
+      .input(
+        z.object({
+          provider: z.enum(["paypal", "stripe"]).default("paypal"),
+        })
+      )
+      .mutation(async ({ input, ctx }) => {
+        try {
+          return await paymentService.createTrialCheckout(ctx.user.id.toString(), input.provider);
+        } catch (error) {
+          throw new TRPCError({
+            code: error instanceof TrialError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+            message: error instanceof Error ? error.message : "Failed to start trial",
+          });
+        }
+      }),
+
     getSubscription: protectedProcedure.query(async ({ ctx }) => {
       try {
         const subscription = await paymentService.getUserSubscription(
@@ -69,6 +175,17 @@ export const contentMasterRouter = router({
       }
     }),
 
+    getEntitlement: protectedProcedure.query(async ({ ctx }) => {
+      try {
+        return await paymentService.getEntitlement(ctx.user.id.toString());
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to check entitlement",
+        });
+      }
+    }),
+
     cancelSubscription: protectedProcedure.mutation(async ({ ctx }) => {
       try {
         const subscription = await paymentService.cancelSubscription(
@@ -77,12 +194,67 @@ export const contentMasterRouter = router({
         return subscription;
       } catch (error) {
         throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
+          code:
+            error instanceof InvalidSubscriptionTransitionError
+              ? "BAD_REQUEST"
+              : "INTERNAL_SERVER_ERROR",
           message: error instanceof Error ? error.message : "Failed to cancel subscription",
         });
       }
     }),
 
+    resumeSubscription: protectedProcedure.mutation(async ({ ctx }) => {
+      try {
+        const subscription = await paymentService.resumeSubscription(
+          ctx.user.id.toString()
+        );
+        return subscription;
+      } catch (error) {
+        throw new TRPCError({
+          code:
+            error instanceof InvalidSubscriptionTransitionError
+              ? "BAD_REQUEST"
+              : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to resume subscription",
+        });
+      }
+    }),
+
+    /**
+     * Upgrade a monthly plan to lifetime, crediting the unused part of the month
+     * Returns the quote and the provider checkout for the difference
+     */
+    changePlan: protectedProcedure
+      .input(z.object({ planId: z.enum(["lifetime"]) }))
+      .mutation(async ({ input, ctx }) => {
+        try {
+          return await startPlanChange(
+            ctx.user.id,
+            { product: "content_master", planId: input.planId },
+            ctx.user.email ?? undefined
+          );
+        } catch (error) {
+          throw new TRPCError({
+            code: error instanceof PlanChangeError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+            message: error instanceof Error ? error.message : "Failed to change plan",
+          });
+        }
+      }),
+
+    completePlanChange: protectedProcedure
+      .input(z.object({ planChangeId: z.number().int().positive() }))
+      .mutation(async ({ input, ctx }) => {
+        try {
+          await completePlanChange(ctx.user.id, input.planChangeId);
+          return await paymentService.getUserSubscription(ctx.user.id.toString());
+        } catch (error) {
+          throw new TRPCError({
+            code: error instanceof PlanChangeError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+            message: error instanceof Error ? error.message : "Failed to complete plan change",
+          });
+        }
+      }),
+
     getStats: protectedProcedure.query(async ({ ctx }) => {
       if (ctx.user.role !== "admin") {
         throw new TRPCError({ code: "FORBIDDEN" });
@@ -159,7 +331,7 @@ export const contentMasterRouter = router({
    * BULK IMPORT PROCEDURES
    */
   import: router({
-    fromCSV: protectedProcedure
+    fromCSV: contentMasterProcedure
       .input(z.object({ csvContent: z.string() }))
       .mutation(async ({ input, ctx }) => {
         try {
@@ -176,7 +348,7 @@ export const contentMasterRouter = router({
         }
       }),
 
-    fromJSON: protectedProcedure
+    fromJSON: contentMasterProcedure
       .input(z.object({ jsonContent: z.string() }))
       .mutation(async ({ input, ctx }) => {
         try {
@@ -201,7 +373,7 @@ export const contentMasterRouter = router({
       return { template: bulkImportService.generateJSONTemplate() };
     }),
 
-    exportAsCSV: protectedProcedure.query(async ({ ctx }) => {
+    exportAsCSV: contentMasterProcedure.query(async ({ ctx }) => {
       try {
         const csv = await bulkImportService.exportAsCSV(ctx.user.id);
         return { csv };
@@ -213,7 +385,7 @@ export const contentMasterRouter = router({
       }
     }),
 
-    exportAsJSON: protectedProcedure.query(async ({ ctx }) => {
+    exportAsJSON: contentMasterProcedure.query(async ({ ctx }) => {
       try {
         const json = await bulkImportService.exportAsJSON(ctx.user.id);
         return { json };
@@ -248,7 +420,7 @@ export const contentMasterRouter = router({
   /**
    * Add knowledge entry
    */
-  addKnowledge: protectedProcedure.input(knowledgeEntryInput).mutation(async ({ input }) => {
+  addKnowledge: contentMasterProcedure.input(knowledgeEntryInput).mutation(async ({ input }) => {
     try {
       const entry = await contentMaster.addKnowledge({
         type: input.type,
@@ -267,7 +439,7 @@ export const contentMasterRouter = router({
   /**
    * Update knowledge entry
    */
-  updateKnowledge: protectedProcedure
+  updateKnowledge: contentMasterProcedure
     .input(
       z.object({
         id: z.string(),
@@ -295,7 +467,7 @@ export const contentMasterRouter = router({
   /**
    * Get knowledge entry by ID
    */
-  getKnowledge: publicProcedure.input(z.object({ id: z.string() })).query(async ({ input }) => {
+  getKnowledge: contentMasterProcedure.input(z.object({ id: z.string() })).query(async ({ input }) => {
     try {
       const entry = await contentMaster.getKnowledge(input.id);
       return entry;
@@ -308,7 +480,7 @@ export const contentMasterRouter = router({
   /**
    * Search knowledge by type
    */
-  searchKnowledge: publicProcedure.input(z.object({ type: z.string() })).query(async ({ input }) => {
+  searchKnowledge: contentMasterProcedure.input(z.object({ type: z.string() })).query(async ({ input }) => {
     try {
       const entries = await contentMaster.searchKnowledge(input.type);
       return entries;
@@ -321,7 +493,7 @@ export const contentMasterRouter = router({
   /**
    * Get all knowledge entries
    */
-  getAllKnowledge: publicProcedure.query(async () => {
+  getAllKnowledge: contentMasterProcedure.query(async () => {
     try {
       const entries = await contentMaster.getAllKnowledge();
       return entries;
@@ -334,7 +506,7 @@ export const contentMasterRouter = router({
   /**
    * Get knowledge base statistics
    */
-  getKnowledgeStats: publicProcedure.query(async () => {
+  getKnowledgeStats: contentMasterProcedure.query(async () => {
     try {
       const stats = await contentMaster.getKnowledgeStats();
       return stats;
@@ -347,7 +519,7 @@ export const contentMasterRouter = router({
   /**
    * Generate blog post from knowledge base
    */
-  generateBlogPost: protectedProcedure
+  generateBlogPost: contentMasterProcedure
     .input(
       z.object({
         topic: z.string().min(1),
@@ -368,7 +540,7 @@ export const contentMasterRouter = router({
   /**
    * Get blog post by ID
    */
-  getBlogPost: publicProcedure.input(z.object({ id: z.string() })).query(async ({ input }) => {
+  getBlogPost: contentMasterProcedure.input(z.object({ id: z.string() })).query(async ({ input }) => {
     try {
       const blogPost = await contentMaster.getBlogPost(input.id);
       return blogPost;
@@ -381,7 +553,7 @@ export const contentMasterRouter = router({
   /**
    * Get all blog posts
    */
-  getAllBlogPosts: publicProcedure.query(async () => {
+  getAllBlogPosts: contentMasterProcedure.query(async () => {
     try {
       const blogPosts = await contentMaster.getAllBlogPosts();
       return blogPosts;
@@ -394,7 +566,7 @@ export const contentMasterRouter = router({
   /**
    * Get featured blog posts
    */
-  getFeaturedBlogPosts: publicProcedure.query(async () => {
+  getFeaturedBlogPosts: contentMasterProcedure.query(async () => {
     try {
       const blogPosts = await contentMaster.getFeaturedBlogPosts();
       return blogPosts;
@@ -407,7 +579,7 @@ export const contentMasterRouter = router({
   /**
    * Feature/unfeature blog post
    */
-  setFeatured: protectedProcedure
+  setFeatured: contentMasterProcedure
     .input(
       z.object({
         id: z.string(),
@@ -427,7 +599,7 @@ export const contentMasterRouter = router({
   /**
    * Run all six bots in orchestration mode
    */
-  runAllBots: protectedProcedure.mutation(async () => {
+  runAllBots: contentMasterProcedure.mutation(async () => {
     try {
       const results = await contentMaster.runAllBots();
       logger.info("All six bots executed successfully");
@@ -454,7 +626,7 @@ export const contentMasterRouter = router({
   /**
    * Export knowledge base
    */
-  exportKnowledgeBase: protectedProcedure.query(async () => {
+  exportKnowledgeBase: contentMasterProcedure.query(async () => {
     try {
       const entries = await contentMaster.exportKnowledgeBase();
       return entries;
@@ -467,7 +639,7 @@ export const contentMasterRouter = router({
   /**
    * Import knowledge entries
    */
-  importKnowledgeBase: protectedProcedure
+  importKnowledgeBase: contentMasterProcedure
     .input(
       z.object({
         entries: z.array(knowledgeEntryInput),
@@ -492,7 +664,7 @@ export const contentMasterRouter = router({
    * KNOWLEDGE BASE PROCEDURES
    */
   knowledge: router({
-    add: protectedProcedure
+    add: contentMasterProcedure
       .input(
         z.object({
           type: z.enum(["website", "book", "music", "artist", "feature", "blog"]),
@@ -516,7 +688,7 @@ export const contentMasterRouter = router({
         }
       }),
 
-    getAll: protectedProcedure.query(async ({ ctx }) => {
+    getAll: contentMasterProcedure.query(async ({ ctx }) => {
       try {
         const { knowledgeBaseService } = await import(
           "../contentMaster/knowledgeBaseService"
@@ -530,23 +702,53 @@ export const contentMasterRouter = router({
       }
     }),
 
-    search: protectedProcedure
-      .input(z.object({ query: z.string() }))
+    /**
+     * Passages ranked by keyword (BM25) and semantic similarity fused with
+     * reciprocal rank fusion, with highlighted snippets, a page at a time
+     */
+    search: contentMasterProcedure.input(knowledgeSearchInput).query(async ({ input, ctx }) => {
+      try {
+        const { query, ...options } = input;
+        return await searchKnowledge(ctx.user.id, query, options);
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: "Failed to search knowledge entries",
+        });
+      }
+    }),
+
+    /**
+     * Point to the caller's passages that best answer the query, grouped by
+     * the type of entry they come from, best first within each group
+     */
+    pointToContent: contentMasterProcedure
+      .input(
+        knowledgeSearchInput
+          .omit({ page: true, pageSize: true })
+          .extend({ limit: z.number().int().min(1).max(50).default(20) })
+      )
       .query(async ({ input, ctx }) => {
         try {
-          const { knowledgeBaseService } = await import(
-            "../contentMaster/knowledgeBaseService"
-          );
-          return await knowledgeBaseService.searchEntries(ctx.user!.id, input.query);
+          const { query, limit, ...filters } = input;
+          const result = await searchKnowledge(ctx.user.id, query, { ...filters, pageSize: limit });
+          const groups = Object.fromEntries(
+            Object.values(CONTENT_GROUPS).map((group) => [group, [] as KnowledgeSearchHit[]])
+          ) as Record<ContentGroup, KnowledgeSearchHit[]>;
+          for (const hit of result.hits) {
+            groups[CONTENT_GROUPS[hit.type as keyof typeof CONTENT_GROUPS] ?? "documents"].push(hit);
+          }
+          return { query, total: result.total, hits: result.hits, ...groups };
         } catch (error) {
+          logger.error("Error pointing to content:", error);
           throw new TRPCError({
             code: "INTERNAL_SERVER_ERROR",
-            message: "Failed to search knowledge entries",
+            message: error instanceof Error ? error.message : "Failed to point to content",
           });
         }
       }),
 
-    getStats: protectedProcedure.query(async ({ ctx }) => {
+    getStats: contentMasterProcedure.query(async ({ ctx }) => {
       try {
         const { knowledgeBaseService } = await import(
           "../contentMaster/knowledgeBaseService"
@@ -560,7 +762,7 @@ export const contentMasterRouter = router({
       }
     }),
 
-    delete: protectedProcedure
+    delete: contentMasterProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input, ctx }) => {
         try {
@@ -581,7 +783,7 @@ export const contentMasterRouter = router({
    * BLOG PROCEDURES
    */
   blog: router({
-    generate: protectedProcedure
+    generate: contentMasterProcedure
       .input(
         z.object({
           title: z.string(),
@@ -603,7 +805,7 @@ export const contentMasterRouter = router({
         }
       }),
 
-    getAll: protectedProcedure.query(async ({ ctx }) => {
+    getAll: contentMasterProcedure.query(async ({ ctx }) => {
       try {
         const { blogGenerationService } = await import(
           "../contentMaster/blogGenerationService"
@@ -617,7 +819,7 @@ export const contentMasterRouter = router({
       }
     }),
 
-    publish: protectedProcedure
+    publish: contentMasterProcedure
       .input(z.object({ postId: z.number() }))
       .mutation(async ({ input, ctx }) => {
         try {
@@ -633,7 +835,7 @@ export const contentMasterRouter = router({
         }
       }),
 
-    delete: protectedProcedure
+    delete: contentMasterProcedure
       .input(z.object({ postId: z.number() }))
       .mutation(async ({ input, ctx }) => {
         try {
@@ -0,0 +1,182 @@
+/**
+ * Creator Bots Router
+ * Creators draft their own bots and submit them to the store; admins approve
+ * or reject submissions. Knowledge bases attach through knowledgeBase.uploadFile,
+ * which creators can use on their own bots.
+ */
+
+import { z } from "zod";
+import { protectedProcedure, router } from "../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import {
+  CREATOR_PRICE_BOUNDS,
+  CatalogError,
+  createCreatorBot,
+  deleteCreatorBot,
+  getCreatorSharePercent,
+  listCreatorBots,
+  listSubmissionQueue,
+  reviewCreatorBot,
+  submitCreatorBot,
+  updateCreatorBot,
+  withdrawCreatorBot,
+} from "../services/catalog";
+
+const creatorBotInput = z.object({
+  slug: z.string().trim().min(2).max(100).regex(/^[a-z0-9-]+$/),
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().min(1).max(2000),
+  icon: z.string().max(20).nullable().optional(),
+  creatorName: z.string().trim().min(1).max(100),
+  categories: z.array(z.string().min(1).max(50)).max(10).default([]),
+  capabilities: z.array(z.string().min(1).max(50)).max(20).default([]),
+  features: z.array(z.string().min(1).max(200)).max(20).default([]),
+  monthlyPriceCents: z.number().int().positive(),
+  yearlyPriceCents: z.number().int().positive(),
+});
+
+const botId = z.object({ id: z.number().int().positive() });
+
+export const creatorBotsRouter = router({
+  /**
+   * Price bounds and revenue share shown on the submission form
+   */
+  terms: protectedProcedure.query(() => ({
+    priceBounds: CREATOR_PRICE_BOUNDS,
+    revenueSharePercent: getCreatorSharePercent(),
+  })),
+
+  /**
+   * The creator's bots in every status, with review notes
+   */
+  mine: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await listCreatorBots(ctx.user.id);
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to load your bots",
+      });
+    }
+  }),
+
+  create: protectedProcedure.input(creatorBotInput).mutation(async ({ ctx, input }) => {
+    try {
+      return await createCreatorBot(ctx.user.id, input);
+    } catch (error) {
+      throw new TRPCError({
+        code: error instanceof CatalogError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to create bot",
+      });
+    }
+  }),
+
+  update: protectedProcedure
+    .input(botId.extend({ changes: creatorBotInput.partial() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await updateCreatorBot(ctx.user.id, input.id, input.changes);
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof CatalogError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to update bot",
+        });
+      }
+    }),
+
+  submit: protectedProcedure.input(botId).mutation(async ({ ctx, input }) => {
+    try {
+      return await submitCreatorBot(ctx.user.id, input.id);
+    } catch (error) {
+      throw new TRPCError({
+        code: error instanceof CatalogError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to submit bot",
+      });
+    }
+  }),
+
+  /**
+   * Pull a bot out of review, or archive it once published
+   */
+  withdraw: protectedProcedure.input(botId).mutation(async ({ ctx, input }) => {
+    try {
+      return await withdrawCreatorBot(ctx.user.id, input.id);
+    } catch (error) {
+      throw new TRPCError({
+        code: error instanceof CatalogError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to withdraw bot",
+      });
+    }
+  }),
+
+  delete: protectedProcedure.input(botId).mutation(async ({ ctx, input }) => {
+    try {
+      await deleteCreatorBot(ctx.user.id, input.id);
+      return { success: true };
+    } catch (error) {
+      throw new TRPCError({
+        code: error instanceof CatalogError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to delete bot",
+      });
+    }
+  }),
+
+  /**
+   * Submissions waiting for review, oldest first
+   */
+  reviewQueue: protectedProcedure.query(async ({ ctx }) => {
+    if (ctx.user.role !== "admin") {
+      throw new TRPCError({ code: "FORBIDDEN" });
+    }
+    try {
+      return await listSubmissionQueue();
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to load submissions",
+      });
+    }
+  }),
+
+  approve: protectedProcedure
+    .input(
+      botId.extend({
+        notes: z.string().trim().max(2000).optional(),
+        // This bot's creator share; the platform default when omitted
+        revenueSharePercent: z.number().int().min(0).max(100).nullable().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+      try {
+        return await reviewCreatorBot(ctx.user.id, input.id, {
+          action: "approve",
+          notes: input.notes,
+          revenueSharePercent: input.revenueSharePercent,
+        });
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof CatalogError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to approve bot",
+        });
+      }
+    }),
+
+  reject: protectedProcedure
+    .input(botId.extend({ notes: z.string().trim().min(1).max(2000) }))
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+      try {
+        return await reviewCreatorBot(ctx.user.id, input.id, { action: "reject", notes: input.notes });
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof CatalogError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to reject bot",
+        });
+      }
+    }),
+});
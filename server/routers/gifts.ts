@@ -0,0 +1,162 @@
+/**
+ * Gifts Router
+ * Buying songs, bots and Content Master plans for someone else, and
+ * redeeming gift codes
+ */
+
+import { z } from "zod";
+import { protectedProcedure, publicProcedure, router } from "../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import {
+  GiftError,
+  MAX_GIFT_MESSAGE_LENGTH,
+  cancelGift,
+  completeGiftCheckout,
+  createGiftCheckout,
+  listSentGifts,
+  previewGift,
+  redeemGift,
+  resendGift,
+} from "../services/gifts";
+import { logger } from "../_core/logger";
+
+const paymentProvider = z.enum(["paypal", "stripe"]).default("paypal");
+
+const giftItem = z.discriminatedUnion("product", [
+  z.object({ product: z.literal("song"), songId: z.number().int().positive() }),
+  z.object({
+    product: z.literal("bot"),
+    botId: z.number().int().positive(),
+    interval: z.enum(["monthly", "yearly"]),
+  }),
+  z.object({ product: z.literal("content_master"), planId: z.enum(["monthly", "lifetime"]) }),
+]);
+
+const giftId = z.object({ giftId: z.number().int().positive() });
+
+const giftCode = z.object({ code: z.string().trim().min(1).max(40) });
+
+export const giftsRouter = router({
+  /**
+   * Start a gift checkout; returns the provider's approval URL. Without a
+   * recipient email the buyer gets the code to hand over themselves.
+   */
+  createCheckout: protectedProcedure
+    .input(
+      z.object({
+        item: giftItem,
+        recipientEmail: z.string().trim().email().max(320).optional(),
+        recipientName: z.string().trim().max(100).optional(),
+        senderName: z.string().trim().max(100).optional(),
+        message: z.string().trim().max(MAX_GIFT_MESSAGE_LENGTH).optional(),
+        deliverAt: z.coerce.date().optional(),
+        provider: paymentProvider,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await createGiftCheckout({ userId: ctx.user.id, ...input });
+      } catch (error) {
+        if (!(error instanceof GiftError)) logger.error("Failed to create gift checkout:", error);
+        throw new TRPCError({
+          code: error instanceof GiftError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof GiftError ? error.message : "Failed to create checkout session",
+        });
+      }
+    }),
+
+  /**
+   * Capture the payment once the buyer returns from the provider
+   */
+  completeCheckout: protectedProcedure
+    .input(
+      giftId.extend({
+        // PayPal order ID or Stripe Checkout Session ID
+        checkoutId: z.string().min(1),
+        provider: paymentProvider,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await completeGiftCheckout(ctx.user.id, input.giftId, input.checkoutId, input.provider);
+      } catch (error) {
+        if (!(error instanceof GiftError)) logger.error("Failed to complete gift checkout:", error);
+        throw new TRPCError({
+          code: error instanceof GiftError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to complete purchase",
+        });
+      }
+    }),
+
+  /**
+   * Gifts the caller has bought, with resend and cancel where still possible
+   */
+  sent: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await listSentGifts(ctx.user.id);
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to load your gifts",
+      });
+    }
+  }),
+
+  /**
+   * Email an unredeemed gift again, optionally to a corrected address
+   */
+  resend: protectedProcedure
+    .input(giftId.extend({ recipientEmail: z.string().trim().email().max(320).optional() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await resendGift(ctx.user.id, input.giftId, input.recipientEmail);
+      } catch (error) {
+        if (!(error instanceof GiftError)) logger.error("Failed to resend gift:", error);
+        throw new TRPCError({
+          code: error instanceof GiftError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof GiftError ? error.message : "Failed to send the gift",
+        });
+      }
+    }),
+
+  /**
+   * Cancel an unredeemed gift and refund it
+   */
+  cancel: protectedProcedure.input(giftId).mutation(async ({ ctx, input }) => {
+    try {
+      return await cancelGift(ctx.user.id, input.giftId);
+    } catch (error) {
+      if (!(error instanceof GiftError)) logger.error("Failed to cancel gift:", error);
+      throw new TRPCError({
+        code: error instanceof GiftError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+        message: error instanceof GiftError ? error.message : "Failed to cancel the gift",
+      });
+    }
+  }),
+
+  /**
+   * What a code is for, for the redeem page before signing in
+   */
+  preview: publicProcedure.input(giftCode).query(async ({ input }) => {
+    const gift = await previewGift(input.code);
+    if (!gift) {
+      throw new TRPCError({ code: "NOT_FOUND", message: "That gift code is not valid" });
+    }
+    return gift;
+  }),
+
+  /**
+   * Redeem a code into the caller's account
+   */
+  redeem: protectedProcedure.input(giftCode).mutation(async ({ ctx, input }) => {
+    try {
+      return await redeemGift(ctx.user.id, input.code);
+    } catch (error) {
+      if (!(error instanceof GiftError)) logger.error("Failed to redeem gift:", error);
+      throw new TRPCError({
+        code: error instanceof GiftError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+        message: error instanceof GiftError ? error.message : "Failed to redeem the gift",
+      });
+    }
+  }),
+});
@@ -1,15 +1,40 @@
-import { db } from "@/server/db";
-import { knowledgeEntries } from "@/drizzle/schema";
+import { ExtractionError, MAX_KNOWLEDGE_FILE_BYTES, extractDocument } from "@/server/services/knowledge";
+import { logger } from "@/server/_core/logger";
 
+/**
+ * Extract the text of a multipart "file" upload so it can be checked before
+ * it is added to a bot; storing goes through knowledgeBase.uploadFile, which
+ * knows who is signed in
+ */
 export async function POST(req: Request) {
-  const data = await req.formData();
-  const file = data.get("file") as File;
+  let file: FormDataEntryValue | null;
+  try {
+    file = (await req.formData()).get("file");
+  } catch {
+    return Response.json({ ok: false, error: "Send the file as multipart form data" }, { status: 400 });
+  }
+  if (!(file instanceof File)) {
+    return Response.json({ ok: false, error: "No file was uploaded" }, { status: 400 });
+  }
+  if (file.size > MAX_KNOWLEDGE_FILE_BYTES) {
+    return Response.json({ ok: false, error: "Files can be up to 10MB" }, { status: 413 });
+  }
 
-  await db.insert(knowledgeEntries).values({
-    type: "document",
-    title: file.name,
-    content: "Uploaded file",
-  });
-
-  return Response.json({ ok: true });
+  try {
+    const document = extractDocument(file.name, file.type, Buffer.from(await file.arrayBuffer()));
+    return Response.json({
+      ok: true,
+      fileName: file.name,
+      format: document.format,
+      pageCount: document.pageCount,
+      rowCount: document.rowCount,
+      text: document.text,
+    });
+  } catch (error) {
+    if (error instanceof ExtractionError) {
+      return Response.json({ ok: false, error: error.message }, { status: 422 });
+    }
+    logger.error(`Failed to extract ${file.name}:`, error);
+    return Response.json({ ok: false, error: "Could not read the file" }, { status: 500 });
+  }
 }
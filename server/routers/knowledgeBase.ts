@@ -6,155 +6,138 @@
 import { z } from "zod";
 import { router, protectedProcedure } from "../_core/trpc";
 import { TRPCError } from "@trpc/server";
-import { db } from "../db";
-import { knowledgeEntries } from "../../drizzle/schema";
-import { eq, and } from "drizzle-orm";
+import { logger } from "../_core/logger";
+import { requireEntitlement } from "../services/entitlements";
+import {
+  ExtractionError,
+  KnowledgeError,
+  MAX_KNOWLEDGE_FILE_BYTES,
+  addKnowledgeDocument,
+  deleteKnowledgeEntry,
+  detectFormat,
+  getBotKnowledgeStats,
+  getProcessingStatus,
+  listBotEntries,
+  queueKnowledgeEntry,
+  searchKnowledge,
+} from "../services/knowledge";
+
+// Training a bot needs access to it; reads input.botId
+const botProcedure = requireEntitlement("bot");
 
 export const knowledgeBaseRouter = router({
   /**
-   * Upload a file to the knowledge base
+   * Upload a file to the knowledge base; its text is extracted by a
+   * background job, followed through getProcessingStatus
    */
-  uploadFile: protectedProcedure
+  uploadFile: botProcedure
     .input(
       z.object({
         botId: z.number(),
-        fileName: z.string(),
-        fileType: z.string(),
-        fileSize: z.number(),
-        fileContent: z.string(),
+        fileName: z.string().min(1).max(255),
+        fileType: z.string().max(255),
+        // Base64 of the raw file bytes
+        fileBase64: z.string().min(1).max(Math.ceil(MAX_KNOWLEDGE_FILE_BYTES / 3) * 4),
       })
     )
     .mutation(async ({ input, ctx }) => {
       try {
-        if (!db) {
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: "Database not initialized",
-          });
-        }
-
-        // Validate file size (max 10MB)
-        if (input.fileSize > 10 * 1024 * 1024) {
+        const bytes = Buffer.from(input.fileBase64, "base64");
+        if (bytes.length > MAX_KNOWLEDGE_FILE_BYTES) {
           throw new TRPCError({
             code: "BAD_REQUEST",
             message: "File size exceeds 10MB limit",
           });
         }
+        // Refuse files we could never read before storing them
+        detectFormat(input.fileName, input.fileType, bytes);
 
-        // Extract text content from file
-        let textContent = input.fileContent;
-        if (input.fileType === "application/pdf") {
-          // In production, use a PDF parsing library
-          textContent = `[PDF: ${input.fileName}]\n${input.fileContent}`;
-        }
-
-        // Insert knowledge entry
-        const metadata = {
-          botId: input.botId,
-          fileType: input.fileType,
-          fileSize: input.fileSize,
-          uploadedAt: new Date().toISOString(),
-        };
-
-        const result = await db.insert(knowledgeEntries).values({
+        const entry = await addKnowledgeDocument({
           userId: ctx.user.id,
-          type: "document",
-          title: input.fileName,
-          content: textContent,
-          metadata: JSON.stringify(metadata),
+          botId: input.botId,
+          fileName: input.fileName,
+          mimeType: input.fileType,
+          bytes,
         });
+        const job = await queueKnowledgeEntry(ctx.user.id, input.botId, entry.id);
 
         return {
-          id: `${Date.now()}-${Math.random()}`,
-          fileName: input.fileName,
-          status: "completed",
+          id: entry.id,
+          fileName: entry.title,
+          jobId: job.id,
+          status: job.status,
         };
       } catch (error) {
+        if (error instanceof TRPCError) throw error;
+        if (!(error instanceof ExtractionError)) logger.error("Failed to upload knowledge file:", error);
         throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
+          code: error instanceof ExtractionError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
           message: error instanceof Error ? error.message : "Failed to upload file",
         });
       }
     }),
 
   /**
-   * Process a file for bot training
+   * Queue an entry to be processed again, e.g. after it failed
    */
-  processFile: protectedProcedure
+  processFile: botProcedure
     .input(
       z.object({
         botId: z.number(),
-        fileId: z.string(),
+        entryId: z.number(),
       })
     )
     .mutation(async ({ input, ctx }) => {
       try {
-        // In production, this would trigger an async job to process the file
-        // and extract embeddings for vector search
-
+        const job = await queueKnowledgeEntry(ctx.user.id, input.botId, input.entryId);
         return {
           success: true,
-          message: "File processing started",
+          jobId: job.id,
+          status: job.status,
         };
       } catch (error) {
+        if (!(error instanceof KnowledgeError)) logger.error("Failed to queue knowledge processing:", error);
         throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
+          code: error instanceof KnowledgeError ? "NOT_FOUND" : "INTERNAL_SERVER_ERROR",
           message: error instanceof Error ? error.message : "Failed to process file",
         });
       }
     }),
 
   /**
-   * Get knowledge base statistics for a bot
+   * Processing state of the bot's entries, latest job of each; pass entryIds
+   * to follow particular uploads
    */
-  getKnowledgeBase: protectedProcedure
+  getProcessingStatus: botProcedure
     .input(
       z.object({
         botId: z.number(),
+        entryIds: z.array(z.number()).max(100).optional(),
       })
     )
     .query(async ({ input, ctx }) => {
       try {
-        if (!db) {
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: "Database not initialized",
-          });
-        }
-
-        // Get all knowledge entries for this user
-        const entries = await db
-          .select()
-          .from(knowledgeEntries)
-          .where(eq(knowledgeEntries.userId, ctx.user.id));
-
-        // Filter entries related to this bot
-        const botEntries = entries.filter(
-          (entry) =>
-            entry.metadata &&
-            typeof entry.metadata === "object" &&
-            (entry.metadata as any).botId === input.botId
-        );
-
-        // Calculate statistics
-        const totalDocuments = botEntries.length;
-        const totalEntries = botEntries.length;
-        const storageUsed = botEntries.reduce((sum, entry) => {
-          const metadata = entry.metadata as any;
-          return sum + (metadata?.fileSize || 0);
-        }, 0);
-
-        const lastUpdated =
-          botEntries.length > 0
-            ? botEntries[botEntries.length - 1].createdAt
-            : null;
+        return await getProcessingStatus(ctx.user.id, input.botId, input.entryIds);
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to fetch processing status",
+        });
+      }
+    }),
 
-        return {
-          totalDocuments,
-          totalEntries,
-          storageUsed,
-          lastUpdated,
-        };
+  /**
+   * Get knowledge base statistics for a bot
+   */
+  getKnowledgeBase: botProcedure
+    .input(
+      z.object({
+        botId: z.number(),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      try {
+        return await getBotKnowledgeStats(ctx.user.id, input.botId);
       } catch (error) {
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
@@ -163,6 +146,34 @@ export const knowledgeBaseRouter = router({
       }
     }),
 
+  /**
+   * Passages of the bot's processed entries matching the query by keywords
+   * or meaning, best first
+   */
+  search: botProcedure
+    .input(
+      z.object({
+        botId: z.number(),
+        query: z.string().min(1).max(1000),
+        page: z.number().int().min(1).default(1),
+        pageSize: z.number().int().min(1).max(50).default(10),
+      })
+    )
+    .query(async ({ input, ctx }) => {
+      try {
+        return await searchKnowledge(ctx.user.id, input.query, {
+          botId: input.botId,
+          page: input.page,
+          pageSize: input.pageSize,
+        });
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to search knowledge base",
+        });
+      }
+    }),
+
   /**
    * Delete a knowledge base entry
    */
@@ -174,27 +185,11 @@ export const knowledgeBaseRouter = router({
     )
     .mutation(async ({ input, ctx }) => {
       try {
-        if (!db) {
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: "Database not initialized",
-          });
-        }
-
-        // Delete entry (verify ownership)
-        await db
-          .delete(knowledgeEntries)
-          .where(
-            and(
-              eq(knowledgeEntries.id, input.entryId),
-              eq(knowledgeEntries.userId, ctx.user.id)
-            )
-          );
-
+        await deleteKnowledgeEntry(ctx.user.id, input.entryId);
         return { success: true };
       } catch (error) {
         throw new TRPCError({
-          code: "INTERNAL_SERVER_ERROR",
+          code: error instanceof KnowledgeError ? "NOT_FOUND" : "INTERNAL_SERVER_ERROR",
           message: error instanceof Error ? error.message : "Failed to delete entry",
         });
       }
@@ -203,7 +198,7 @@ export const knowledgeBaseRouter = router({
   /**
    * List all knowledge base entries for a bot
    */
-  listEntries: protectedProcedure
+  listEntries: botProcedure
     .input(
       z.object({
         botId: z.number(),
@@ -211,33 +206,7 @@ export const knowledgeBaseRouter = router({
     )
     .query(async ({ input, ctx }) => {
       try {
-        if (!db) {
-          throw new TRPCError({
-            code: "INTERNAL_SERVER_ERROR",
-            message: "Database not initialized",
-          });
-        }
-
-        const entries = await db
-          .select()
-          .from(knowledgeEntries)
-          .where(eq(knowledgeEntries.userId, ctx.user.id));
-
-        // Filter entries related to this bot
-        const botEntries = entries.filter(
-          (entry) =>
-            entry.metadata &&
-            typeof entry.metadata === "object" &&
-            (entry.metadata as any).botId === input.botId
-        );
-
-        return botEntries.map((entry) => ({
-          id: entry.id,
-          title: entry.title,
-          type: entry.type,
-          createdAt: entry.createdAt,
-          metadata: entry.metadata,
-        }));
+        return await listBotEntries(ctx.user.id, input.botId);
       } catch (error) {
         throw new TRPCError({
           code: "INTERNAL_SERVER_ERROR",
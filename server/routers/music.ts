@@ -0,0 +1,141 @@
+/**
+ * Music Store Router
+ * Browse published tracks, buy songs for $1 and download what you own
+ */
+
+import { z } from "zod";
+import { protectedProcedure, publicProcedure, router } from "../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import {
+  MusicError,
+  browseTracks,
+  completeSongCheckout,
+  createSongCheckout,
+  getDownloadLink,
+  getTrack,
+  listGenres,
+  listLibrary,
+} from "../services/music";
+import { logger } from "../_core/logger";
+
+const paymentProvider = z.enum(["paypal", "stripe"]).default("paypal");
+
+export const musicRouter = router({
+  /**
+   * Published tracks, newest first, with genre and title/artist filters
+   */
+  list: publicProcedure
+    .input(
+      z
+        .object({
+          genre: z.string().trim().min(1).max(50).optional(),
+          search: z.string().trim().min(1).max(100).optional(),
+          limit: z.number().int().min(1).max(100).default(24),
+          cursor: z.number().int().positive().optional(),
+        })
+        .default({})
+    )
+    .query(async ({ input }) => {
+      try {
+        return await browseTracks(input);
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to load tracks",
+        });
+      }
+    }),
+
+  genres: publicProcedure.query(async () => {
+    try {
+      return await listGenres();
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to load genres",
+      });
+    }
+  }),
+
+  get: publicProcedure
+    .input(z.object({ songId: z.number().int().positive() }))
+    .query(async ({ input }) => {
+      const track = await getTrack(input.songId);
+      if (!track) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Song not found" });
+      }
+      return track;
+    }),
+
+  /**
+   * Start a song checkout; returns the provider's approval URL
+   */
+  createCheckout: protectedProcedure
+    .input(z.object({ songId: z.number().int().positive(), provider: paymentProvider }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await createSongCheckout({ userId: ctx.user.id, ...input });
+      } catch (error) {
+        if (!(error instanceof MusicError)) logger.error("Failed to create song checkout:", error);
+        throw new TRPCError({
+          code: error instanceof MusicError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof MusicError ? error.message : "Failed to create checkout session",
+        });
+      }
+    }),
+
+  /**
+   * Capture the payment once the buyer returns from the provider
+   */
+  completeCheckout: protectedProcedure
+    .input(
+      z.object({
+        songId: z.number().int().positive(),
+        // PayPal order ID or Stripe Checkout Session ID
+        checkoutId: z.string().min(1),
+        provider: paymentProvider,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await completeSongCheckout(ctx.user.id, input.songId, input.checkoutId, input.provider);
+      } catch (error) {
+        if (!(error instanceof MusicError)) logger.error("Failed to complete song checkout:", error);
+        throw new TRPCError({
+          code: error instanceof MusicError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof MusicError ? error.message : "Failed to complete purchase",
+        });
+      }
+    }),
+
+  /**
+   * An expiring signed link to download a song the caller owns
+   */
+  downloadLink: protectedProcedure
+    .input(z.object({ songId: z.number().int().positive() }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await getDownloadLink(ctx.user.id, input.songId);
+      } catch (error) {
+        if (!(error instanceof MusicError)) logger.error("Failed to create download link:", error);
+        throw new TRPCError({
+          code: error instanceof MusicError ? "FORBIDDEN" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof MusicError ? error.message : "Failed to create download link",
+        });
+      }
+    }),
+
+  /**
+   * "My Library": the songs the caller owns
+   */
+  library: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await listLibrary(ctx.user.id);
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to load your library",
+      });
+    }
+  }),
+});
@@ -0,0 +1,335 @@
+/**
+ * Music Uploads Router
+ * Artists upload MP3, WAV or FLAC files in resumable chunks. A finished
+ * upload is queued, then inspected and published with a preview clip, or
+ * rejected with the reasons so the artist can fix the metadata and resubmit.
+ * Only artists an admin approved can start uploads.
+ */
+
+import { z } from "zod";
+import { protectedProcedure, router } from "../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import {
+  MAX_UPLOAD_BYTES,
+  METADATA_LIMITS,
+  MusicError,
+  UPLOAD_CHUNK_BYTES,
+  abandonUpload,
+  appendUploadChunk,
+  applyAsArtist,
+  assertApprovedArtist,
+  completeUpload,
+  getArtistApplication,
+  getArtistTrackStats,
+  getArtistUpload,
+  listArtistApplications,
+  listArtistUploads,
+  listUploads,
+  resubmitUpload,
+  reviewArtist,
+  startUpload,
+  takeDownUpload,
+  updateUploadMetadata,
+} from "../services/music";
+import { logger } from "../_core/logger";
+
+const metadataInput = z.object({
+  title: z.string().trim().max(METADATA_LIMITS.title).optional(),
+  artistName: z.string().trim().max(METADATA_LIMITS.artistName).optional(),
+  genre: z.string().trim().max(METADATA_LIMITS.genre).optional(),
+  isrc: z.string().trim().max(20).optional(),
+  explicit: z.boolean().optional(),
+});
+
+const uploadId = z.object({ uploadId: z.number().int().positive() });
+
+const artistUserId = z.object({ userId: z.number().int().positive() });
+
+export const musicUploadsRouter = router({
+  /**
+   * The caller's artist application with its review notes, or null
+   */
+  application: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await getArtistApplication(ctx.user.id);
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to load your artist application",
+      });
+    }
+  }),
+
+  /**
+   * Ask to sell music; uploads open once an admin approves
+   */
+  apply: protectedProcedure
+    .input(z.object({ about: z.string().trim().min(1).max(2000) }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await applyAsArtist(ctx.user.id, input.about);
+      } catch (error) {
+        if (!(error instanceof MusicError)) logger.error("Failed to apply as artist:", error);
+        throw new TRPCError({
+          code: error instanceof MusicError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof MusicError ? error.message : "Failed to apply",
+        });
+      }
+    }),
+
+  /**
+   * Register a file and get the chunk size to send it in
+   */
+  start: protectedProcedure
+    .input(
+      z.object({
+        filename: z.string().trim().min(1).max(255),
+        sizeBytes: z.number().int().positive().max(MAX_UPLOAD_BYTES),
+        metadata: metadataInput.default({}),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        await assertApprovedArtist(ctx.user.id);
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof MusicError ? "FORBIDDEN" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof MusicError ? error.message : "Failed to start upload",
+        });
+      }
+
+      try {
+        return await startUpload(ctx.user.id, input);
+      } catch (error) {
+        if (!(error instanceof MusicError)) logger.error("Failed to start music upload:", error);
+        throw new TRPCError({
+          code: error instanceof MusicError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof MusicError ? error.message : "Failed to start upload",
+        });
+      }
+    }),
+
+  /**
+   * Send the chunk starting at `offset`; resume from `receivedBytes` after a failure
+   */
+  uploadChunk: protectedProcedure
+    .input(
+      uploadId.extend({
+        offset: z.number().int().min(0),
+        // Base64-encoded bytes
+        data: z.string().min(1).max(Math.ceil(UPLOAD_CHUNK_BYTES / 3) * 4),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await appendUploadChunk(
+          ctx.user.id,
+          input.uploadId,
+          input.offset,
+          Buffer.from(input.data, "base64")
+        );
+      } catch (error) {
+        if (!(error instanceof MusicError)) logger.error("Failed to store upload chunk:", error);
+        throw new TRPCError({
+          code: error instanceof MusicError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof MusicError ? error.message : "Failed to store chunk",
+        });
+      }
+    }),
+
+  /**
+   * One upload with its progress, status and any rejection reasons
+   */
+  get: protectedProcedure.input(uploadId).query(async ({ ctx, input }) => {
+    try {
+      return await getArtistUpload(ctx.user.id, input.uploadId);
+    } catch (error) {
+      throw new TRPCError({
+        code: error instanceof MusicError ? "NOT_FOUND" : "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to load upload",
+      });
+    }
+  }),
+
+  /**
+   * Finish the upload and queue it for processing; poll `get` until it is
+   * published or rejected
+   */
+  complete: protectedProcedure.input(uploadId).mutation(async ({ ctx, input }) => {
+    try {
+      return await completeUpload(ctx.user.id, input.uploadId);
+    } catch (error) {
+      if (!(error instanceof MusicError)) logger.error("Failed to complete music upload:", error);
+      throw new TRPCError({
+        code: error instanceof MusicError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+        message: error instanceof MusicError ? error.message : "Failed to complete upload",
+      });
+    }
+  }),
+
+  updateMetadata: protectedProcedure
+    .input(uploadId.extend({ metadata: metadataInput }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await updateUploadMetadata(ctx.user.id, input.uploadId, input.metadata);
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof MusicError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to update upload",
+        });
+      }
+    }),
+
+  /**
+   * Queue a rejected upload for processing again after fixing its metadata
+   */
+  resubmit: protectedProcedure.input(uploadId).mutation(async ({ ctx, input }) => {
+    try {
+      return await resubmitUpload(ctx.user.id, input.uploadId);
+    } catch (error) {
+      if (!(error instanceof MusicError)) logger.error("Failed to resubmit music upload:", error);
+      throw new TRPCError({
+        code: error instanceof MusicError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+        message: error instanceof MusicError ? error.message : "Failed to resubmit upload",
+      });
+    }
+  }),
+
+  abandon: protectedProcedure.input(uploadId).mutation(async ({ ctx, input }) => {
+    try {
+      await abandonUpload(ctx.user.id, input.uploadId);
+      return { success: true };
+    } catch (error) {
+      throw new TRPCError({
+        code: error instanceof MusicError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to abandon upload",
+      });
+    }
+  }),
+
+  /**
+   * The artist's uploads in every status
+   */
+  mine: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await listArtistUploads(ctx.user.id);
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to load your uploads",
+      });
+    }
+  }),
+
+  /**
+   * Artist dashboard: preview plays, purchases and conversion per track
+   */
+  stats: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      return await getArtistTrackStats(ctx.user.id);
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to load track stats",
+      });
+    }
+  }),
+
+  /**
+   * Admin: artist applications waiting for review, oldest first
+   */
+  artistQueue: protectedProcedure.query(async ({ ctx }) => {
+    if (ctx.user.role !== "admin") {
+      throw new TRPCError({ code: "FORBIDDEN" });
+    }
+
+    try {
+      return await listArtistApplications();
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to load artist applications",
+      });
+    }
+  }),
+
+  approveArtist: protectedProcedure
+    .input(artistUserId.extend({ notes: z.string().trim().max(2000).optional() }))
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+
+      try {
+        return await reviewArtist(ctx.user.id, input.userId, { action: "approve", notes: input.notes });
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof MusicError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to approve artist",
+        });
+      }
+    }),
+
+  rejectArtist: protectedProcedure
+    .input(artistUserId.extend({ notes: z.string().trim().min(1).max(2000) }))
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+
+      try {
+        return await reviewArtist(ctx.user.id, input.userId, { action: "reject", notes: input.notes });
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof MusicError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to reject artist",
+        });
+      }
+    }),
+
+  /**
+   * Admin: every upload, optionally by status
+   */
+  list: protectedProcedure
+    .input(
+      z
+        .object({
+          status: z.enum(["pending", "processing", "published", "rejected", "taken_down"]).optional(),
+        })
+        .default({})
+    )
+    .query(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+
+      try {
+        return await listUploads(input.status);
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to load uploads",
+        });
+      }
+    }),
+
+  /**
+   * Admin: pull a published track from the store
+   */
+  takeDown: protectedProcedure
+    .input(uploadId.extend({ reason: z.string().trim().min(1).max(500) }))
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+
+      try {
+        return await takeDownUpload(ctx.user.id, input.uploadId, input.reason);
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof MusicError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to take down upload",
+        });
+      }
+    }),
+});
@@ -0,0 +1,138 @@
+/**
+ * Creator Payouts Router
+ * Creators see their balance and statement and set where they are paid;
+ * admins run payout batches
+ */
+
+import { z } from "zod";
+import { protectedProcedure, router } from "../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import {
+  PayoutError,
+  getCreatorBalance,
+  getCreatorStatement,
+  getPayoutAccount,
+  getPayoutBatch,
+  getPayoutMinimumCents,
+  getPayoutProvider,
+  listPayoutBatches,
+  runPayoutBatch,
+  setPayoutAccount,
+} from "../services/payouts";
+
+export const payoutsRouter = router({
+  /**
+   * Earnings still held, payable now, and where payouts go
+   */
+  balance: protectedProcedure.query(async ({ ctx }) => {
+    try {
+      const [balance, account] = await Promise.all([
+        getCreatorBalance(ctx.user.id),
+        getPayoutAccount(ctx.user.id),
+      ]);
+      return {
+        ...balance,
+        minimumPayoutCents: getPayoutMinimumCents(),
+        paypalEmail: account?.paypalEmail ?? null,
+      };
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to load balance",
+      });
+    }
+  }),
+
+  /**
+   * Line items for a period, the current month by default
+   */
+  statement: protectedProcedure
+    .input(z.object({ from: z.coerce.date().optional(), to: z.coerce.date().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      const now = new Date();
+      const from = input?.from ?? new Date(now.getFullYear(), now.getMonth(), 1);
+      const to = input?.to ?? new Date(now.getFullYear(), now.getMonth() + 1, 1);
+      if (from >= to) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "The statement period is empty" });
+      }
+
+      try {
+        return await getCreatorStatement(ctx.user.id, { from, to }, now);
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to load statement",
+        });
+      }
+    }),
+
+  setPayoutAccount: protectedProcedure
+    .input(z.object({ paypalEmail: z.string().trim().email().max(320) }))
+    .mutation(async ({ ctx, input }) => {
+      try {
+        return await setPayoutAccount(ctx.user.id, input.paypalEmail);
+      } catch (error) {
+        throw new TRPCError({
+          code: "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to save payout account",
+        });
+      }
+    }),
+
+  /**
+   * Pay every creator with an available balance over the minimum.
+   * A dry run returns who would be paid without sending anything.
+   */
+  runBatch: protectedProcedure
+    .input(
+      z
+        .object({
+          currency: z.string().length(3).toLowerCase().default("usd"),
+          dryRun: z.boolean().default(false),
+        })
+        .default({})
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+      try {
+        return await runPayoutBatch(ctx.user.id, getPayoutProvider(), input);
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof PayoutError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to run payout batch",
+        });
+      }
+    }),
+
+  listBatches: protectedProcedure.query(async ({ ctx }) => {
+    if (ctx.user.role !== "admin") {
+      throw new TRPCError({ code: "FORBIDDEN" });
+    }
+    try {
+      return await listPayoutBatches();
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to load payout batches",
+      });
+    }
+  }),
+
+  /**
+   * A batch with the PayPal Payouts file it was sent as
+   */
+  getBatch: protectedProcedure
+    .input(z.object({ id: z.number().int().positive() }))
+    .query(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+      const batch = await getPayoutBatch(input.id);
+      if (!batch) {
+        throw new TRPCError({ code: "NOT_FOUND", message: "Payout batch not found" });
+      }
+      return batch;
+    }),
+});
@@ -0,0 +1,143 @@
+/**
+ * Promo Codes Router
+ * Admin management of promo codes and a checkout preview for customers
+ */
+
+import { z } from "zod";
+import { protectedProcedure, router } from "../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import {
+  createPromoCode,
+  listPromoCodes,
+  PromoCodeError,
+  resolvePromo,
+  setPromoCodeActive,
+} from "../services/promos";
+import { CONTENT_MASTER_PLANS } from "../contentMaster/paymentService";
+import { CatalogError, catalogBillingPlan, getPurchasableBot } from "../services/catalog";
+import { logger } from "../_core/logger";
+
+const promoCodeInput = z
+  .object({
+    code: z.string().trim().min(3).max(64).regex(/^[A-Za-z0-9_-]+$/),
+    description: z.string().max(500).optional(),
+    discountType: z.enum(["percent", "fixed", "trial"]),
+    percentOff: z.number().int().min(1).max(100).optional(),
+    amountOffCents: z.number().int().positive().optional(),
+    // Discounted months of a subscription; omit to discount every period
+    durationMonths: z.number().int().positive().optional(),
+    trialDays: z.number().int().min(1).max(365).optional(),
+    products: z.array(z.enum(["content_master", "bot"])).optional(),
+    plans: z.array(z.enum(["monthly", "yearly", "lifetime"])).optional(),
+    startsAt: z.coerce.date().optional(),
+    expiresAt: z.coerce.date().optional(),
+    maxRedemptions: z.number().int().positive().optional(),
+    // null allows unlimited uses per customer
+    perUserLimit: z.number().int().positive().nullable().default(1),
+  })
+  .refine(
+    (input) =>
+      input.discountType === "percent"
+        ? input.percentOff !== undefined
+        : input.discountType === "fixed"
+          ? input.amountOffCents !== undefined
+          : input.trialDays !== undefined,
+    { message: "Discount amount missing for the discount type" }
+  );
+
+export const promosRouter = router({
+  create: protectedProcedure.input(promoCodeInput).mutation(async ({ ctx, input }) => {
+    if (ctx.user.role !== "admin") {
+      throw new TRPCError({ code: "FORBIDDEN" });
+    }
+    try {
+      logger.info(`Admin ${ctx.user.id} creating promo code ${input.code}`);
+      return await createPromoCode(input, ctx.user.id);
+    } catch (error) {
+      throw new TRPCError({
+        code: error instanceof PromoCodeError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to create promo code",
+      });
+    }
+  }),
+
+  /**
+   * All promo codes with their completed redemptions, newest first
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    if (ctx.user.role !== "admin") {
+      throw new TRPCError({ code: "FORBIDDEN" });
+    }
+    try {
+      return await listPromoCodes();
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to list promo codes",
+      });
+    }
+  }),
+
+  setActive: protectedProcedure
+    .input(z.object({ id: z.number().int().positive(), active: z.boolean() }))
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+      try {
+        return await setPromoCodeActive(input.id, input.active);
+      } catch (error) {
+        throw new TRPCError({
+          code: error instanceof PromoCodeError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to update promo code",
+        });
+      }
+    }),
+
+  /**
+   * What a code takes off a plan, so checkout can show it before redirecting
+   */
+  preview: protectedProcedure
+    .input(
+      z.discriminatedUnion("product", [
+        z.object({
+          product: z.literal("content_master"),
+          code: z.string().trim().min(1).max(64),
+          plan: z.enum(["monthly", "lifetime"]),
+        }),
+        z.object({
+          product: z.literal("bot"),
+          code: z.string().trim().min(1).max(64),
+          plan: z.enum(["monthly", "yearly"]),
+          botId: z.number().int().positive(),
+        }),
+      ])
+    )
+    .query(async ({ ctx, input }) => {
+      try {
+        const pricing =
+          input.product === "content_master"
+            ? {
+                amountCents: CONTENT_MASTER_PLANS[input.plan].price * 100,
+                interval: CONTENT_MASTER_PLANS[input.plan].interval ?? null,
+              }
+            : catalogBillingPlan(await getPurchasableBot(input.botId), input.plan);
+
+        const { promo, discount } = await resolvePromo(input.code, ctx.user.id, {
+          product: input.product,
+          plan: input.plan,
+          amountCents: pricing.amountCents,
+          interval: pricing.interval,
+        });
+        return { code: promo.code, description: promo.description, ...discount };
+      } catch (error) {
+        throw new TRPCError({
+          code:
+            error instanceof PromoCodeError || error instanceof CatalogError
+              ? "BAD_REQUEST"
+              : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to check promo code",
+        });
+      }
+    }),
+});
@@ -0,0 +1,66 @@
+/**
+ * Refunds Router
+ * Admin refunds for Content Master plans, bot subscriptions, song purchases,
+ * bundles and gifts
+ */
+
+import { z } from "zod";
+import { protectedProcedure, router } from "../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { listRefunds, refundPurchase, RefundError } from "../services/refunds";
+import { logger } from "../_core/logger";
+
+const purchaseInput = z.object({
+  product: z.enum(["content_master", "bot", "song", "bundle", "gift"]),
+  purchaseId: z.number().int().positive(),
+});
+
+export const refundsRouter = router({
+  /**
+   * Refund a purchase's latest payment, in full or in part
+   * policy "auto" revokes access for full refunds and keeps it for partial ones
+   */
+  refund: protectedProcedure
+    .input(
+      purchaseInput.extend({
+        amountCents: z.number().int().positive().optional(),
+        reason: z.string().min(1).max(500),
+        policy: z.enum(["revoke", "keep", "auto"]).default("auto"),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (ctx.user.role !== "admin") {
+        throw new TRPCError({ code: "FORBIDDEN" });
+      }
+      try {
+        logger.info(
+          `Admin ${ctx.user.id} refunding ${input.product} purchase ${input.purchaseId}`
+        );
+
+        return await refundPurchase({ ...input, refundedBy: ctx.user.id });
+      } catch (error) {
+        logger.error("Refund failed:", error);
+        throw new TRPCError({
+          code: error instanceof RefundError ? "BAD_REQUEST" : "INTERNAL_SERVER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to refund purchase",
+        });
+      }
+    }),
+
+  /**
+   * Refunds issued for a purchase, newest first
+   */
+  list: protectedProcedure.input(purchaseInput).query(async ({ ctx, input }) => {
+    if (ctx.user.role !== "admin") {
+      throw new TRPCError({ code: "FORBIDDEN" });
+    }
+    try {
+      return await listRefunds(input.product, input.purchaseId);
+    } catch (error) {
+      throw new TRPCError({
+        code: "INTERNAL_SERVER_ERROR",
+        message: error instanceof Error ? error.message : "Failed to fetch refunds",
+      });
+    }
+  }),
+});
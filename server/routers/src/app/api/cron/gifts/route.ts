@@ -0,0 +1,21 @@
+import { deliverDueGifts } from "@/server/services/gifts";
+import { logger } from "@/server/_core/logger";
+
+/**
+ * Sends gifts whose delivery date has come.
+ * Call from a cron with "Authorization: Bearer $CRON_SECRET".
+ */
+export async function POST(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return Response.json({ ok: false }, { status: 401 });
+  }
+
+  try {
+    const result = await deliverDueGifts();
+    return Response.json({ ok: true, ...result });
+  } catch (error) {
+    logger.error("Gift delivery run failed:", error);
+    return Response.json({ ok: false }, { status: 500 });
+  }
+}
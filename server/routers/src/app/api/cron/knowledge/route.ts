@@ -0,0 +1,22 @@
+import { getKnowledgeJobQueue } from "@/server/services/knowledge";
+import { logger } from "@/server/_core/logger";
+
+/**
+ * Processes queued knowledge uploads, and indexes entries saved without a
+ * job, for hosts without a long-lived server process. Call from a cron with
+ * "Authorization: Bearer $CRON_SECRET".
+ */
+export async function POST(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return Response.json({ ok: false }, { status: 401 });
+  }
+
+  try {
+    const result = await getKnowledgeJobQueue().runOnce();
+    return Response.json({ ok: true, ...result });
+  } catch (error) {
+    logger.error("Knowledge job run failed:", error);
+    return Response.json({ ok: false }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { processQueuedUploads } from "@/server/services/music";
+import { logger } from "@/server/_core/logger";
+
+/**
+ * Publishes or rejects artist uploads that were completed or resubmitted.
+ * Call from a cron with "Authorization: Bearer $CRON_SECRET".
+ */
+export async function POST(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return Response.json({ ok: false }, { status: 401 });
+  }
+
+  try {
+    const result = await processQueuedUploads();
+    return Response.json({ ok: true, ...result });
+  } catch (error) {
+    logger.error("Music upload processing run failed:", error);
+    return Response.json({ ok: false }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { DrizzleSubscriptionStore, SubscriptionScheduler } from "@/server/services/subscriptions";
+
+/**
+ * Renewal/expiry run for hosts without a long-lived server process.
+ * Call from a cron with "Authorization: Bearer $CRON_SECRET".
+ */
+export async function POST(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return Response.json({ ok: false }, { status: 401 });
+  }
+
+  try {
+    const scheduler = new SubscriptionScheduler({ store: new DrizzleSubscriptionStore() });
+    const result = await scheduler.runOnce();
+    return Response.json({ ok: true, ...result });
+  } catch (error) {
+    return Response.json({ ok: false }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  resolveDownload,
+  verifyDownloadToken,
+  getDownloadSigningSecret,
+  getMusicStorage,
+  audioContentType,
+} from "@/server/services/music";
+import { logger } from "@/server/_core/logger";
+
+/**
+ * Serve a purchased song to whoever holds an unexpired signed link
+ */
+export async function GET(_req: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+
+  try {
+    const claims = verifyDownloadToken(token, getDownloadSigningSecret(), new Date());
+    if (!claims) {
+      return Response.json(
+        { ok: false, error: "This download link is invalid or has expired" },
+        { status: 403 }
+      );
+    }
+
+    const track = await resolveDownload(claims.userId, claims.songId);
+    if (!track) {
+      return Response.json({ ok: false, error: "This song is no longer available to you" }, { status: 403 });
+    }
+
+    let body: ReadableStream<Uint8Array>;
+    let contentType: string;
+    let extension: string;
+    if (track.fileKey && track.format) {
+      body = getMusicStorage().stream(track.fileKey);
+      contentType = audioContentType(track.format);
+      extension = track.format;
+    } else if (track.fileUrl) {
+      const file = await fetch(track.fileUrl);
+      if (!file.ok || !file.body) {
+        return Response.json({ ok: false }, { status: 502 });
+      }
+      body = file.body;
+      contentType = file.headers.get("content-type") ?? "application/octet-stream";
+      extension = new URL(track.fileUrl).pathname.split(".").pop() ?? "mp3";
+    } else {
+      return Response.json({ ok: false, error: "This song has no audio file" }, { status: 404 });
+    }
+
+    const filename = `${track.artistName} - ${track.title}.${extension}`.replace(/["\\/]/g, "");
+    return new Response(body, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    logger.error("Failed to serve song download:", error);
+    return Response.json({ ok: false }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+import { randomUUID } from "crypto";
+import {
+  audioContentType,
+  etagMatches,
+  getMusicStorage,
+  getPreviewSource,
+  listeningSessionCookie,
+  parseByteRange,
+  previewEtag,
+  readListeningSession,
+  recordPlay,
+  startsPlayback,
+} from "@/server/services/music";
+import { logger } from "@/server/_core/logger";
+
+/**
+ * Stream a published track's preview clip to the store player, honouring
+ * Range requests, and count a play once per listening session
+ */
+export async function GET(req: Request, { params }: { params: Promise<{ songId: string }> }) {
+  const songId = Number((await params).songId);
+  if (!Number.isInteger(songId) || songId <= 0) {
+    return Response.json({ ok: false, error: "Invalid song" }, { status: 400 });
+  }
+
+  try {
+    const source = await getPreviewSource(songId);
+    if (!source) {
+      return Response.json({ ok: false, error: "This song has no preview" }, { status: 404 });
+    }
+
+    const storage = getMusicStorage();
+    const size = await storage.size(source.previewKey);
+    const etag = previewEtag(songId, source.processedAt, size);
+    const range = parseByteRange(req.headers.get("range"), size);
+
+    const existingSession = readListeningSession(req.headers.get("cookie"));
+    const sessionId = existingSession ?? randomUUID();
+    const headers = new Headers({
+      "Accept-Ranges": "bytes",
+      ETag: etag,
+      // Revalidate on every play so plays reach us, without resending unchanged bytes
+      "Cache-Control": "public, no-cache",
+    });
+    if (!existingSession) {
+      headers.append("Set-Cookie", listeningSessionCookie(sessionId, new URL(req.url).protocol === "https:"));
+    }
+
+    if (range === "unsatisfiable") {
+      headers.set("Content-Range", `bytes */${size}`);
+      return new Response(null, { status: 416, headers });
+    }
+
+    if (startsPlayback(range)) {
+      // Counting must never stop the preview from playing
+      await recordPlay(songId, sessionId).catch((error) =>
+        logger.error(`Failed to record play of song ${songId}:`, error)
+      );
+    }
+
+    if (etagMatches(req.headers.get("if-none-match"), etag)) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    headers.set("Content-Type", audioContentType(source.format));
+    if (!range) {
+      headers.set("Content-Length", String(size));
+      return new Response(storage.stream(source.previewKey), { headers });
+    }
+
+    headers.set("Content-Range", `bytes ${range.start}-${range.end}/${size}`);
+    headers.set("Content-Length", String(range.end - range.start + 1));
+    return new Response(storage.stream(source.previewKey, range), { status: 206, headers });
+  } catch (error) {
+    logger.error(`Failed to stream preview of song ${songId}:`, error);
+    return Response.json({ ok: false }, { status: 500 });
+  }
+}
@@ -0,0 +1,16 @@
+import { handleStripeWebhook, StripeWebhookSignatureError } from "@/server/webhooks/stripe";
+
+export async function POST(req: Request) {
+  // Signature verification needs the exact bytes Stripe sent
+  const rawBody = await req.text();
+
+  try {
+    const result = await handleStripeWebhook(rawBody, req.headers.get("stripe-signature"));
+    return Response.json({ ok: true, duplicate: result.duplicate });
+  } catch (error) {
+    if (error instanceof StripeWebhookSignatureError) {
+      return Response.json({ ok: false, error: "Invalid signature" }, { status: 400 });
+    }
+    return Response.json({ ok: false }, { status: 500 });
+  }
+}
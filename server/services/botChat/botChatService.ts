@@ -0,0 +1,249 @@
+/**
+ * Bot Chat Service
+ * Conversations between a user and a bot they have access to. Each question
+ * is answered from the bot's knowledge: the best passages are retrieved,
+ * handed to the LLM provider numbered, and the answer streams back with the
+ * entries it cited. Both sides of the conversation are stored.
+ */
+
+import { getDb } from "../../db";
+import {
+  botConversations,
+  botMessages,
+  type BotConversation,
+  type BotMessage,
+} from "../../../drizzle/chat_schema";
+import { and, asc, desc, eq } from "drizzle-orm";
+import { logger } from "../../_core/logger";
+import { getCatalogBot } from "../catalog";
+import { searchKnowledge } from "../knowledge";
+import {
+  buildChatRequest,
+  citedPassages,
+  conversationTitle,
+  toCitation,
+  HISTORY_TURNS,
+  UNTITLED_CONVERSATION,
+  type ChatCitation,
+  type ChatRole,
+  type RetrievedPassage,
+} from "./chatPrompt";
+import { getLlmProvider } from "./llmProvider";
+
+export class BotChatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BotChatError";
+  }
+}
+
+// Passages handed to the model with each question
+const PASSAGE_COUNT = 5;
+
+export type ChatStreamEvent =
+  | { type: "start"; userMessage: BotMessage; sources: ChatCitation[] }
+  | { type: "delta"; text: string }
+  | { type: "done"; message: BotMessage; citations: ChatCitation[] };
+
+export interface ConversationView {
+  conversation: BotConversation;
+  messages: BotMessage[];
+}
+
+async function findConversation(userId: number, botId: number, conversationId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [conversation] = await db
+    .select()
+    .from(botConversations)
+    .where(
+      and(
+        eq(botConversations.id, conversationId),
+        eq(botConversations.userId, userId),
+        eq(botConversations.botId, botId)
+      )
+    );
+  if (!conversation) throw new BotChatError("Conversation not found");
+  return conversation;
+}
+
+export async function createConversation(
+  userId: number,
+  botId: number,
+  title?: string
+): Promise<BotConversation> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  if (!(await getCatalogBot(botId))) throw new BotChatError("Bot not found");
+  const [conversation] = await db
+    .insert(botConversations)
+    .values({ userId, botId, title: title ? conversationTitle(title) : UNTITLED_CONVERSATION })
+    .returning();
+  return conversation;
+}
+
+/**
+ * The user's conversations with the bot, most recently active first
+ */
+export async function listConversations(userId: number, botId: number): Promise<BotConversation[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  return db
+    .select()
+    .from(botConversations)
+    .where(and(eq(botConversations.userId, userId), eq(botConversations.botId, botId)))
+    .orderBy(desc(botConversations.updatedAt), desc(botConversations.id));
+}
+
+export async function getConversation(
+  userId: number,
+  botId: number,
+  conversationId: number
+): Promise<ConversationView> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const conversation = await findConversation(userId, botId, conversationId);
+  const messages = await db
+    .select()
+    .from(botMessages)
+    .where(eq(botMessages.conversationId, conversationId))
+    .orderBy(asc(botMessages.id));
+  return { conversation, messages };
+}
+
+export async function deleteConversation(userId: number, botId: number, conversationId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  await findConversation(userId, botId, conversationId);
+  await db.transaction(async (tx) => {
+    await tx.delete(botMessages).where(eq(botMessages.conversationId, conversationId));
+    await tx.delete(botConversations).where(eq(botConversations.id, conversationId));
+  });
+}
+
+/**
+ * The bot's knowledge closest to the question: what its creator uploaded
+ * and what the user added to their own copy, best first
+ */
+async function retrievePassages(
+  userId: number,
+  botId: number,
+  creatorUserId: number | null,
+  question: string
+): Promise<RetrievedPassage[]> {
+  const owners = [...new Set([userId, creatorUserId].filter((id): id is number => id !== null))];
+  const results = await Promise.all(
+    owners.map((owner) => searchKnowledge(owner, question, { botId, pageSize: PASSAGE_COUNT }))
+  );
+  return results
+    .flatMap((result) => result.hits)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, PASSAGE_COUNT)
+    .map((hit, i) => ({
+      n: i + 1,
+      entryId: hit.entryId,
+      chunkId: hit.chunkId,
+      title: hit.title,
+      page: hit.page,
+      heading: hit.heading,
+      start: hit.start,
+      end: hit.end,
+      text: hit.text,
+    }));
+}
+
+/**
+ * Store the user's message, then stream the bot's answer. Ends with the
+ * stored answer; an answer cut short by an error or by the reader going
+ * away is stored too, marked failed or interrupted.
+ */
+export async function* sendMessage(
+  userId: number,
+  botId: number,
+  conversationId: number,
+  content: string,
+  signal?: AbortSignal
+): AsyncGenerator<ChatStreamEvent> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const conversation = await findConversation(userId, botId, conversationId);
+  const bot = await getCatalogBot(botId);
+  if (!bot) throw new BotChatError("Bot not found");
+
+  const earlier = await db
+    .select({ role: botMessages.role, content: botMessages.content })
+    .from(botMessages)
+    .where(and(eq(botMessages.conversationId, conversationId), eq(botMessages.status, "complete")))
+    .orderBy(desc(botMessages.id))
+    .limit(HISTORY_TURNS);
+  const history = earlier.reverse().map((turn) => ({ role: turn.role as ChatRole, content: turn.content }));
+
+  const [userMessage] = await db
+    .insert(botMessages)
+    .values({ conversationId, role: "user", content })
+    .returning();
+  const passages = await retrievePassages(userId, botId, bot.creatorUserId, content);
+  yield { type: "start", userMessage, sources: passages.map(toCitation) };
+
+  const provider = getLlmProvider();
+  const request = buildChatRequest({
+    bot: { name: bot.name, description: bot.description },
+    history,
+    question: content,
+    passages,
+  });
+
+  let answer = "";
+  let storing = false;
+  const store = async (status: "complete" | "interrupted" | "failed", error: string | null = null) => {
+    storing = true;
+    const at = new Date();
+    const [message] = await db
+      .insert(botMessages)
+      .values({
+        conversationId,
+        role: "assistant",
+        content: answer,
+        status,
+        citations: citedPassages(answer, passages),
+        model: provider.model,
+        error,
+      })
+      .returning();
+    await db
+      .update(botConversations)
+      .set({
+        lastMessageAt: at,
+        updatedAt: at,
+        // Named after the first question unless the user named it
+        ...(conversation.title === UNTITLED_CONVERSATION ? { title: conversationTitle(content) } : {}),
+      })
+      .where(eq(botConversations.id, conversationId));
+    return message;
+  };
+
+  try {
+    try {
+      for await (const text of provider.stream(request, signal)) {
+        answer += text;
+        yield { type: "delta", text };
+      }
+    } catch (error) {
+      logger.error(`Bot ${botId} failed to answer in conversation ${conversationId}:`, error);
+      await store("failed", error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+
+    const message = await store(signal?.aborted ? "interrupted" : "complete");
+    if (message.status === "complete") yield { type: "done", message, citations: message.citations };
+  } finally {
+    // The reader stopped listening mid-answer
+    if (!storing) await store("interrupted");
+  }
+}
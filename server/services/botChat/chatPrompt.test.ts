@@ -0,0 +1,114 @@
+/**
+ * Tests for chat prompts and citations
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  HISTORY_TURNS,
+  buildChatRequest,
+  citedPassages,
+  conversationTitle,
+  recentHistory,
+  type ChatTurn,
+  type RetrievedPassage,
+} from "./chatPrompt";
+
+const passage = (n: number, text: string, extra: Partial<RetrievedPassage> = {}): RetrievedPassage => ({
+  n,
+  entryId: 100 + n,
+  chunkId: 200 + n,
+  title: `Entry ${n}`,
+  page: null,
+  heading: null,
+  start: 0,
+  end: text.length,
+  text,
+  ...extra,
+});
+
+const bot = { name: "Garden Helper", description: "Answers questions about vegetable gardens." };
+
+describe("buildChatRequest", () => {
+  it("numbers the sources in the instructions and ends with the question", () => {
+    const request = buildChatRequest({
+      bot,
+      history: [
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hello!" },
+      ],
+      question: "When do I prune tomatoes?",
+      passages: [
+        passage(1, "Prune side shoots weekly.", { page: 4, heading: "Tomatoes" }),
+        passage(2, "Water daily."),
+      ],
+    });
+
+    expect(request.system).toContain("You are Garden Helper. Answers questions about vegetable gardens.");
+    expect(request.system).toContain("[1] Entry 1, Tomatoes, page 4\nPrune side shoots weekly.");
+    expect(request.system).toContain("[2] Entry 2\nWater daily.");
+    expect(request.messages).toEqual([
+      { role: "user", content: "Hi" },
+      { role: "assistant", content: "Hello!" },
+      { role: "user", content: "When do I prune tomatoes?" },
+    ]);
+    expect(request.passages).toHaveLength(2);
+  });
+
+  it("says when there is nothing to answer from", () => {
+    const request = buildChatRequest({ bot, history: [], question: "Anything?", passages: [] });
+    expect(request.system).toContain("There are no sources for this question.");
+  });
+});
+
+describe("recentHistory", () => {
+  it("keeps the latest turns within the turn and character budgets", () => {
+    const turns: ChatTurn[] = Array.from({ length: 20 }, (_, i) => ({
+      role: i % 2 === 0 ? "user" : "assistant",
+      content: `turn ${i}`,
+    }));
+    const kept = recentHistory(turns);
+    expect(kept).toHaveLength(HISTORY_TURNS);
+    expect(kept[kept.length - 1].content).toBe("turn 19");
+
+    const long: ChatTurn[] = [
+      { role: "user", content: "a".repeat(5000) },
+      { role: "assistant", content: "b".repeat(5000) },
+      { role: "user", content: "short" },
+    ];
+    expect(recentHistory(long).map((turn) => turn.content[0])).toEqual(["b", "s"]);
+  });
+});
+
+describe("citedPassages", () => {
+  const passages = [passage(1, "one"), passage(2, "two"), passage(3, "three")];
+
+  it("returns the passages referred to, without their text", () => {
+    const citations = citedPassages("Prune weekly [3]. Also water [1, 3].", passages);
+    expect(citations.map((citation) => citation.n)).toEqual([1, 3]);
+    expect(citations[0]).toEqual({
+      n: 1,
+      entryId: 101,
+      chunkId: 201,
+      title: "Entry 1",
+      page: null,
+      heading: null,
+      start: 0,
+      end: 3,
+    });
+  });
+
+  it("ignores numbers without a passage and answers without references", () => {
+    expect(citedPassages("See [7].", passages)).toEqual([]);
+    expect(citedPassages("No sources here.", passages)).toEqual([]);
+  });
+});
+
+describe("conversationTitle", () => {
+  it("uses the first message on one line, shortened at a word", () => {
+    expect(conversationTitle("  How do I\nprune tomatoes? ")).toBe("How do I prune tomatoes?");
+    const title = conversationTitle("word ".repeat(40));
+    expect(title.length).toBeLessThanOrEqual(80);
+    expect(title.endsWith("word...")).toBe(true);
+    expect(conversationTitle("   ")).toBe("New conversation");
+  });
+});
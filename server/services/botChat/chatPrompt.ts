@@ -0,0 +1,116 @@
+/**
+ * Chat Prompt
+ * What a bot is asked: who it is, the knowledge passages it may answer from,
+ * numbered so the answer can cite them as [n], and the recent conversation.
+ * No I/O, so prompts and citations can be tested on their own.
+ */
+
+import type { ChatCitation } from "../../../drizzle/chat_schema";
+
+export type { ChatCitation };
+
+export type ChatRole = "user" | "assistant";
+
+export interface ChatTurn {
+  role: ChatRole;
+  content: string;
+}
+
+export interface RetrievedPassage extends ChatCitation {
+  text: string;
+}
+
+export interface ChatRequest {
+  system: string;
+  // Oldest first, ending with the question
+  messages: ChatTurn[];
+  // Also rendered into `system`; local providers answer from them directly
+  passages: RetrievedPassage[];
+}
+
+export interface BotPersona {
+  name: string;
+  description: string;
+}
+
+export const MAX_CHAT_MESSAGE_LENGTH = 4000;
+// Earlier turns sent along with a question
+export const HISTORY_TURNS = 12;
+// Characters of earlier turns, newest kept first
+export const HISTORY_CHARACTERS = 8000;
+export const TITLE_LENGTH = 80;
+export const UNTITLED_CONVERSATION = "New conversation";
+
+export function renderSources(passages: RetrievedPassage[]): string {
+  return passages
+    .map((passage) => {
+      const where = [passage.title, passage.heading, passage.page ? `page ${passage.page}` : null]
+        .filter(Boolean)
+        .join(", ");
+      return `[${passage.n}] ${where}\n${passage.text.trim()}`;
+    })
+    .join("\n\n");
+}
+
+/**
+ * The most recent turns that fit the budget, oldest first
+ */
+export function recentHistory(history: ChatTurn[]): ChatTurn[] {
+  const kept: ChatTurn[] = [];
+  let characters = 0;
+  for (const turn of history.slice(-HISTORY_TURNS).reverse()) {
+    characters += turn.content.length;
+    if (characters > HISTORY_CHARACTERS) break;
+    kept.unshift(turn);
+  }
+  return kept;
+}
+
+export function buildChatRequest(input: {
+  bot: BotPersona;
+  history: ChatTurn[];
+  question: string;
+  passages: RetrievedPassage[];
+}): ChatRequest {
+  const instructions = [
+    `You are ${input.bot.name}. ${input.bot.description}`.trim(),
+    "Answer from the numbered sources below. Cite each source you use with its number in brackets, like [1].",
+    "If the sources do not cover the question, say so rather than guessing.",
+  ];
+  const system =
+    input.passages.length > 0
+      ? `${instructions.join("\n")}\n\nSources:\n\n${renderSources(input.passages)}`
+      : `${instructions.join("\n")}\n\nThere are no sources for this question.`;
+  return {
+    system,
+    messages: [...recentHistory(input.history), { role: "user", content: input.question }],
+    passages: input.passages,
+  };
+}
+
+/**
+ * The passages an answer refers to as [n], in the order given; several
+ * numbers can share brackets, as in [1, 3]
+ */
+export function citedPassages(answer: string, passages: RetrievedPassage[]): ChatCitation[] {
+  const cited = new Set<number>();
+  for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    for (const n of match[1].split(",")) cited.add(Number(n.trim()));
+  }
+  return passages.filter((passage) => cited.has(passage.n)).map(toCitation);
+}
+
+export function toCitation(passage: RetrievedPassage): ChatCitation {
+  const { text: _text, ...citation } = passage;
+  return citation;
+}
+
+/**
+ * A conversation's title from its first message
+ */
+export function conversationTitle(message: string): string {
+  const line = message.replace(/\s+/g, " ").trim();
+  if (line.length <= TITLE_LENGTH) return line || UNTITLED_CONVERSATION;
+  const cut = line.lastIndexOf(" ", TITLE_LENGTH - 3);
+  return `${line.slice(0, cut > 0 ? cut : TITLE_LENGTH - 3)}...`;
+}
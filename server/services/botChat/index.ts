@@ -0,0 +1,22 @@
+/**
+ * Bot chat
+ */
+
+export * from "./chatPrompt";
+export {
+  HttpLlmProvider,
+  TemplateLlmProvider,
+  getLlmProvider,
+  readServerSentEvents,
+  setLlmProvider,
+} from "./llmProvider";
+export type { LlmProvider } from "./llmProvider";
+export {
+  BotChatError,
+  createConversation,
+  listConversations,
+  getConversation,
+  deleteConversation,
+  sendMessage,
+} from "./botChatService";
+export type { ChatStreamEvent, ConversationView } from "./botChatService";
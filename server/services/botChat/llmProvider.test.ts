@@ -0,0 +1,87 @@
+/**
+ * Tests for the local LLM provider and event stream reading
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildChatRequest, citedPassages, type RetrievedPassage } from "./chatPrompt";
+import { TemplateLlmProvider, readServerSentEvents } from "./llmProvider";
+
+const bot = { name: "Garden Helper", description: "" };
+
+const passages: RetrievedPassage[] = [1, 2, 3, 4].map((n) => ({
+  n,
+  entryId: n,
+  chunkId: n,
+  title: `Entry ${n}`,
+  page: null,
+  heading: null,
+  start: 0,
+  end: 10,
+  text: `[Page ${n}]\nPassage number ${n} about tomatoes.`,
+}));
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const pieces: string[] = [];
+  for await (const piece of stream) pieces.push(piece);
+  return pieces;
+}
+
+describe("TemplateLlmProvider", () => {
+  const provider = new TemplateLlmProvider();
+
+  it("streams an answer quoting and citing the best passages", async () => {
+    const request = buildChatRequest({ bot, history: [], question: "Tomatoes?", passages });
+    const pieces = await collect(provider.stream(request));
+    const answer = pieces.join("");
+
+    expect(pieces.length).toBeGreaterThan(5);
+    expect(answer).toBe(provider.answer(request));
+    expect(answer).toBe(
+      'Here is what I found about "Tomatoes?":\n\n' +
+        "- Passage number 1 about tomatoes. [1]\n" +
+        "- Passage number 2 about tomatoes. [2]\n" +
+        "- Passage number 3 about tomatoes. [3]"
+    );
+    expect(citedPassages(answer, passages).map((citation) => citation.n)).toEqual([1, 2, 3]);
+  });
+
+  it("says so when there is nothing to quote", () => {
+    const request = buildChatRequest({ bot, history: [], question: "Roses?", passages: [] });
+    expect(provider.answer(request)).toBe('I couldn\'t find anything about "Roses?" in my knowledge base.');
+  });
+
+  it("stops when the reader goes away", async () => {
+    const controller = new AbortController();
+    const request = buildChatRequest({ bot, history: [], question: "Tomatoes?", passages });
+    const pieces: string[] = [];
+    for await (const piece of provider.stream(request, controller.signal)) {
+      pieces.push(piece);
+      if (pieces.length === 2) controller.abort();
+    }
+    expect(pieces).toHaveLength(2);
+  });
+});
+
+describe("readServerSentEvents", () => {
+  it("yields the data of each event across chunk boundaries", async () => {
+    const encoder = new TextEncoder();
+    const parts = [
+      'data: {"a":1}\n\ndata: {"b"',
+      ":2}\n\n: comment\n\ndata: line one\ndata: line two\n\n",
+      "data: [DONE]",
+    ];
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const part of parts) controller.enqueue(encoder.encode(part));
+        controller.close();
+      },
+    });
+
+    expect(await collect(readServerSentEvents(body))).toEqual([
+      '{"a":1}',
+      '{"b":2}',
+      "line one\nline two",
+      "[DONE]",
+    ]);
+  });
+});
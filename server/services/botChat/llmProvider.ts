@@ -0,0 +1,145 @@
+/**
+ * LLM Provider
+ * Streams a bot's answer from an OpenAI-compatible chat completions API, or
+ * from a local template that quotes the retrieved passages, which needs no
+ * network and answers the same way every time
+ */
+
+import type { ChatRequest } from "./chatPrompt";
+
+export interface LlmProvider {
+  // Stored with each answer
+  readonly model: string;
+  // Pieces of the answer as they are written
+  stream(request: ChatRequest, signal?: AbortSignal): AsyncIterable<string>;
+}
+
+const QUOTED_PASSAGES = 3;
+const QUOTE_LENGTH = 200;
+
+function quote(text: string): string {
+  const line = text.replace(/\[Page \d+\]/g, " ").replace(/\s+/g, " ").trim();
+  if (line.length <= QUOTE_LENGTH) return line;
+  const cut = line.lastIndexOf(" ", QUOTE_LENGTH);
+  return `${line.slice(0, cut > 0 ? cut : QUOTE_LENGTH)}...`;
+}
+
+/**
+ * Answers by quoting the best passages with their numbers, a word at a time
+ */
+export class TemplateLlmProvider implements LlmProvider {
+  readonly model = "local-template";
+
+  answer(request: ChatRequest): string {
+    const question = request.messages[request.messages.length - 1]?.content.trim() ?? "";
+    if (request.passages.length === 0) {
+      return `I couldn't find anything about "${question}" in my knowledge base.`;
+    }
+    const lines = request.passages
+      .slice(0, QUOTED_PASSAGES)
+      .map((passage) => `- ${quote(passage.text)} [${passage.n}]`);
+    return `Here is what I found about "${question}":\n\n${lines.join("\n")}`;
+  }
+
+  async *stream(request: ChatRequest, signal?: AbortSignal): AsyncIterable<string> {
+    for (const piece of this.answer(request).match(/\S+\s*|\s+/g) ?? []) {
+      if (signal?.aborted) return;
+      yield piece;
+    }
+  }
+}
+
+/**
+ * The data of each server-sent event in a response body
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncIterable<string> {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  let buffer = "";
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? "" : (events.pop() ?? "");
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).replace(/^ /, ""))
+          .join("\n");
+        if (data) yield data;
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+const DEFAULT_LLM_API_URL = "https://api.openai.com/v1/chat/completions";
+const DEFAULT_LLM_MODEL = "gpt-4o-mini";
+
+/**
+ * OpenAI's chat completions endpoint, or any service that speaks its format
+ */
+export class HttpLlmProvider implements LlmProvider {
+  constructor(
+    private readonly apiKey: string,
+    readonly model: string = DEFAULT_LLM_MODEL,
+    private readonly apiUrl: string = DEFAULT_LLM_API_URL
+  ) {}
+
+  async *stream(request: ChatRequest, signal?: AbortSignal): AsyncIterable<string> {
+    const response = await fetch(this.apiUrl, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: this.model,
+        stream: true,
+        messages: [{ role: "system", content: request.system }, ...request.messages],
+      }),
+      signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`LLM API responded ${response.status}: ${await response.text()}`);
+    }
+
+    for await (const data of readServerSentEvents(response.body)) {
+      if (data === "[DONE]") return;
+      const chunk = JSON.parse(data) as { choices?: Array<{ delta?: { content?: string } }> };
+      const text = chunk.choices?.[0]?.delta?.content;
+      if (text) yield text;
+    }
+  }
+}
+
+let llmProvider: LlmProvider | null = null;
+
+/**
+ * From LLM_API_KEY (with LLM_MODEL and LLM_API_URL), or the local template
+ * when no key is set
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!llmProvider) {
+    const apiKey = process.env.LLM_API_KEY;
+    llmProvider = apiKey
+      ? new HttpLlmProvider(
+          apiKey,
+          process.env.LLM_MODEL || DEFAULT_LLM_MODEL,
+          process.env.LLM_API_URL || DEFAULT_LLM_API_URL
+        )
+      : new TemplateLlmProvider();
+  }
+  return llmProvider;
+}
+
+/**
+ * Swap the provider, e.g. for a fake in tests
+ */
+export function setLlmProvider(provider: LlmProvider | null) {
+  llmProvider = provider;
+}
@@ -9,17 +9,19 @@ import {
   cancelBotSubscription,
   getBotSubscriptionStatus,
 } from "./botCheckout";
+import { setPaymentProvider } from "./payments";
+import { FakePaymentProvider } from "./payments/fakePaymentProvider";
 
 describe("Bot Checkout Service", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    setPaymentProvider(new FakePaymentProvider());
   });
 
   describe("createBotCheckout", () => {
     it("should create a checkout session with valid request", async () => {
       const request = {
         botId: 1,
-        botType: "branded" as const,
         subscriptionType: "monthly" as const,
         userId: "123",
         userEmail: "test@example.com",
@@ -40,7 +42,6 @@ describe("Bot Checkout Service", () => {
     it("should return correct pricing for monthly subscription", async () => {
       const request = {
         botId: 1,
-        botType: "branded" as const,
         subscriptionType: "monthly" as const,
         userId: "123",
         userEmail: "test@example.com",
@@ -57,7 +58,6 @@ describe("Bot Checkout Service", () => {
     it("should return correct pricing for yearly subscription", async () => {
       const request = {
         botId: 1,
-        botType: "branded" as const,
         subscriptionType: "yearly" as const,
         userId: "123",
         userEmail: "test@example.com",
@@ -1,44 +1,77 @@
 /**
  * Bot Checkout Service
- * Handles bot subscription purchases through PayPal
+ * Handles bot subscription purchases through PayPal or Stripe
  */
 
 import { TRPCError } from "@trpc/server";
 import { getDb } from "../db";
 import { userBotPurchases, paypalSubscriptions } from "../../drizzle/schema";
-import { eq, and } from "drizzle-orm";
+import { eq, and, desc, inArray } from "drizzle-orm";
 import { logger } from "../_core/logger";
-
-// Bot pricing configuration
-const BOT_PRICING = {
-  branded: {
-    monthly: 2999, // $29.99
-    yearly: 29999, // $299.99
-  },
-  custom: {
-    monthly: 1999, // $19.99
-    yearly: 19999, // $199.99
-  },
-};
+import {
+  buildRedirectUrls,
+  decodePaymentReference,
+  encodePaymentReference,
+  getPaymentProvider,
+  type PaymentProviderName,
+} from "./payments";
+import { createLinkedPurchase, findPurchaseLink, getPurchaseLink } from "./payments/purchaseLinks";
+import { entitlementService } from "./entitlements/entitlementService";
+import type { EntitlementReason } from "./entitlements/evaluateEntitlement";
+import { transitionSubscription } from "./subscriptions/subscriptionState";
+import { recordSubscriptionHistory } from "./subscriptions/subscriptionHistory";
+import {
+  PromoCodeError,
+  applyPromoToPlan,
+  completePromoRedemption,
+  recordPromoRedemption,
+  resolvePromo,
+} from "./promos";
+import {
+  TrialError,
+  findPendingTrial,
+  getPurchaseTrial,
+  getTrialEligibility,
+  hasUsedTrial,
+  linkTrialPurchase,
+  reserveTrial,
+  settleTrial,
+  startTrial,
+  withTrial,
+} from "./trials";
+import { CatalogError, catalogBillingPlan, getCatalogBot, getPurchasableBot } from "./catalog";
+import { assertCheckoutPlan } from "./subscriptions/checkoutPlan";
+import { recordBotSale } from "./payouts";
 
 interface BotCheckoutRequest {
   botId: number;
-  botType: "branded" | "custom";
   subscriptionType: "monthly" | "yearly";
   userId: string;
   userEmail: string;
+  provider?: PaymentProviderName;
+  promoCode?: string;
+  // Start with the bot's free trial; the first charge follows when it ends
+  trial?: boolean;
 }
 
 interface CheckoutResponse {
   success: boolean;
   checkoutUrl?: string;
   message: string;
-  paypalSubscriptionId?: string;
+  // PayPal subscription ID or Stripe Checkout Session ID
+  subscriptionId?: string;
+}
+
+/**
+ * paypalSubscriptions.planId value linking a PayPal subscription to a bot
+ */
+function botSubscriptionPlanId(botId: number) {
+  return `bot-subscription:${botId}`;
 }
 
 /**
  * Create a bot subscription checkout session
- * Returns PayPal approval URL for user authorization
+ * Returns the provider's approval URL for user authorization
  */
 export async function createBotCheckout(
   request: BotCheckoutRequest
@@ -46,51 +79,110 @@ export async function createBotCheckout(
   // Convert userId to number if it's a string
   const userIdNum = typeof request.userId === 'string' ? parseInt(request.userId, 10) : request.userId;
   try {
-    const db = await getDb();
-    if (!db) {
-      throw new Error("Database unavailable");
-    }
-
-    // Get pricing
-    const pricing = BOT_PRICING[request.botType];
-    const amount =
-      request.subscriptionType === "monthly" ? pricing.monthly : pricing.yearly;
+    // Price from the catalog, never from what the client shows
+    const bot = await getPurchasableBot(request.botId);
+    const plan = catalogBillingPlan(bot, request.subscriptionType);
+    const amount = plan.amountCents;
 
     logger.info(
       `Creating bot checkout: Bot ${request.botId}, User ${request.userId}, Amount: $${(amount / 100).toFixed(2)}`
     );
 
     // Check if user already has this bot
-    const existingPurchase = await db
-      .select()
-      .from(userBotPurchases)
-      .where(
-        and(
-          eq(userBotPurchases.userId, userIdNum),
-          eq(userBotPurchases.botId, request.botId)
-        )
-      );
+    const entitlement = await entitlementService.check(
+      { id: userIdNum },
+      { product: "bot", botId: request.botId }
+    );
 
-    if (existingPurchase.length > 0) {
-      const existing = existingPurchase[0];
-      if (existing.status === "active" && existing.expiryDate && existing.expiryDate > new Date()) {
-        return {
-          success: false,
-          message: "You already have an active subscription to this bot",
-        };
-      }
+    if (entitlement.entitled) {
+      return {
+        success: false,
+        message: "You already have an active subscription to this bot",
+      };
+    }
+
+    if (request.trial && request.promoCode) {
+      return {
+        success: false,
+        message: "Promo codes cannot be combined with a free trial",
+      };
     }
 
-    // In a real implementation, this would create a PayPal subscription
-    // For now, we'll return a mock checkout URL
-    const mockCheckoutUrl = `https://sandbox.paypal.com/checkoutnow?token=EC-MOCK-${request.botId}-${Date.now()}`;
+    const trial = request.trial
+      ? await getTrialEligibility(userIdNum, { product: "bot", botId: request.botId })
+      : null;
+    if (trial && !trial.eligible) {
+      throw new TrialError(trial.reason);
+    }
+
+    const promo = request.promoCode
+      ? await resolvePromo(request.promoCode, userIdNum, {
+          product: "bot",
+          plan: request.subscriptionType,
+          amountCents: amount,
+          interval: plan.interval,
+        })
+      : null;
+    if (
+      promo?.discount.trialDays &&
+      (await hasUsedTrial(userIdNum, { product: "bot", botId: request.botId }))
+    ) {
+      throw new PromoCodeError("You have already used your free trial");
+    }
+
+    const checkout = await getPaymentProvider(request.provider).createSubscription({
+      plan: trial?.eligible
+        ? withTrial(plan, trial.trialDays)
+        : promo
+          ? applyPromoToPlan(plan, promo.discount)
+          : plan,
+      reference: encodePaymentReference({
+        kind: "bot",
+        userId: userIdNum,
+        botId: request.botId,
+        interval: request.subscriptionType,
+      }),
+      subscriberEmail: request.userEmail,
+      ...buildRedirectUrls(`/bots?botId=${request.botId}`),
+    });
+
+    if (promo) {
+      await recordPromoRedemption({
+        applied: promo,
+        userId: userIdNum,
+        productType: "bot",
+        planId: request.subscriptionType,
+        provider: request.provider ?? "paypal",
+        checkoutId: checkout.id,
+      });
+    }
+
+    // A trial code starts a trial like a requested one does
+    const trialDays = trial?.eligible ? trial.trialDays : promo?.discount.trialDays;
+    if (trialDays) {
+      await reserveTrial({
+        userId: userIdNum,
+        target: { product: "bot", botId: request.botId },
+        trialDays,
+        provider: request.provider ?? "paypal",
+        checkoutId: checkout.id,
+      });
+    }
 
     return {
       success: true,
-      checkoutUrl: mockCheckoutUrl,
+      checkoutUrl: checkout.approvalUrl,
       message: "Checkout session created successfully",
+      subscriptionId: checkout.id,
     };
   } catch (error) {
+    if (
+      error instanceof CatalogError ||
+      error instanceof PromoCodeError ||
+      error instanceof TrialError
+    ) {
+      return { success: false, message: error.message };
+    }
     logger.error("Failed to create bot checkout:", error);
     throw new TRPCError({
       code: "INTERNAL_SERVER_ERROR",
@@ -100,13 +192,60 @@ export async function createBotCheckout(
 }
 
 /**
- * Complete bot subscription after PayPal approval
+ * Confirm with the provider that a subscription the client reports as approved
+ * really is approved and was created for this user and bot.
+ * Returns the provider subscription ID (Stripe resolves a Checkout Session
+ * to its subscription), or null when verification fails.
+ */
+export async function verifyBotSubscription(
+  userId: string,
+  botId: number,
+  subscriptionId: string,
+  provider: PaymentProviderName = "paypal"
+): Promise<string | null> {
+  const userIdNum = typeof userId === 'string' ? parseInt(userId, 10) : userId;
+  try {
+    const paymentProvider = getPaymentProvider(provider);
+    const status = await paymentProvider.getSubscriptionStatus(subscriptionId);
+    const reference = decodePaymentReference(status.reference);
+
+    const verified =
+      reference?.kind === "bot" &&
+      reference.userId === userIdNum &&
+      reference.botId === botId &&
+      (status.status === "active" || status.status === "approved");
+    if (!verified) return null;
+
+    // The reference alone is copyable; the plan billed must be the bot's
+    if (!(await findPurchaseLink(provider, status.id))) {
+      const bot = await getCatalogBot(botId);
+      if (!bot) return null;
+      await assertCheckoutPlan(
+        paymentProvider,
+        status,
+        catalogBillingPlan(bot, reference.interval),
+        subscriptionId
+      );
+    }
+    return status.id;
+  } catch (error) {
+    logger.error("Failed to verify bot subscription:", error);
+    return null;
+  }
+}
+
+/**
+ * Complete bot subscription after provider approval
+ * checkoutId is the ID the checkout was created with, when the provider
+ * resolves it to a different subscription ID (Stripe Checkout Sessions)
  */
 export async function completeBotSubscription(
   userId: string,
   botId: number,
-  paypalSubscriptionId: string,
-  subscriptionType: "monthly" | "yearly"
+  subscriptionId: string,
+  subscriptionType: "monthly" | "yearly",
+  provider: PaymentProviderName = "paypal",
+  checkoutId: string = subscriptionId
 ): Promise<{ success: boolean; message: string }> {
   const userIdNum = typeof userId === 'string' ? parseInt(userId, 10) : userId;
   try {
@@ -116,34 +255,104 @@ export async function completeBotSubscription(
     }
 
     logger.info(
-      `Completing bot subscription: User ${userId}, Bot ${botId}, PayPal Sub ${paypalSubscriptionId}`
+      `Completing bot subscription: User ${userId}, Bot ${botId}, ${provider} sub ${subscriptionId}`
     );
 
-    // Calculate expiry date
-    const expiryDate = new Date();
+    // The webhook and the client may both complete the same subscription
+    const existingLink = await findPurchaseLink(provider, subscriptionId);
+    const existingSubscription =
+      existingLink || provider !== "paypal"
+        ? []
+        : await db
+            .select()
+            .from(paypalSubscriptions)
+            .where(eq(paypalSubscriptions.paypalSubscriptionId, subscriptionId))
+            .limit(1);
+
+    if (existingLink || existingSubscription.length > 0) {
+      logger.info(`${provider} subscription ${subscriptionId} already completed`);
+      return {
+        success: true,
+        message: "Bot subscription activated successfully",
+      };
+    }
+
+    // Calculate expiry date; a trial ends before the first charge
+    const now = new Date();
+    const reserved = await findPendingTrial(provider, checkoutId);
+    const paidUntil = new Date(now);
     if (subscriptionType === "monthly") {
-      expiryDate.setMonth(expiryDate.getMonth() + 1);
+      paidUntil.setMonth(paidUntil.getMonth() + 1);
     } else {
-      expiryDate.setFullYear(expiryDate.getFullYear() + 1);
+      paidUntil.setFullYear(paidUntil.getFullYear() + 1);
     }
 
-    // Store PayPal subscription
-    await db.insert(paypalSubscriptions).values({
-      userId: userIdNum,
-      paypalSubscriptionId,
-      planId: "bot-subscription",
-      tierId: 1,
-      status: "active",
-      createdAt: new Date(),
-    });
+    // The first charge, fetched up front so it is booked with the purchase;
+    // renewals are booked when the scheduler sees them
+    const firstPayment = await getPaymentProvider(provider).getLatestPayment(subscriptionId, "subscription");
 
-    // Store bot purchase
-    await db.insert(userBotPurchases).values({
-      userId: userIdNum,
-      botId,
-      expiryDate,
-      status: "active",
-    });
+    const purchase = await createLinkedPurchase(
+      {
+        productType: "bot",
+        userId: userIdNum,
+        provider,
+        providerId: subscriptionId,
+        providerKind: "subscription",
+      },
+      async (tx) => {
+        if (provider === "paypal") {
+          // Store PayPal subscription
+          await tx.insert(paypalSubscriptions).values({
+            userId: userIdNum,
+            paypalSubscriptionId: subscriptionId,
+            planId: botSubscriptionPlanId(botId),
+            tierId: 1,
+            status: "active",
+            createdAt: new Date(),
+          });
+        }
+
+        // A customer who already started a trial elsewhere pays from the start
+        const trial = reserved ? await startTrial(tx, reserved, now) : null;
+
+        // Store bot purchase
+        const [row] = await tx
+          .insert(userBotPurchases)
+          .values({
+            userId: userIdNum,
+            botId,
+            expiryDate: trial?.endsAt ?? paidUntil,
+            status: trial ? "trialing" : "active",
+          })
+          .returning();
+        if (trial) {
+          await linkTrialPurchase(tx, trial, row.id);
+        } else if (firstPayment) {
+          await recordBotSale(
+            {
+              purchaseId: row.id,
+              botId,
+              grossCents: firstPayment.amountCents,
+              currency: firstPayment.currency,
+              provider,
+              paidAt: firstPayment.paidAt ?? now,
+            },
+            tx
+          );
+        }
+        return row;
+      }
+    );
+
+    if (!purchase) {
+      logger.info(`${provider} subscription ${subscriptionId} already completed`);
+      return {
+        success: true,
+        message: "Bot subscription activated successfully",
+      };
+    }
+
+    await completePromoRedemption(provider, checkoutId);
 
     logger.info(`Bot subscription completed for user ${userId}`);
 
@@ -160,13 +369,75 @@ export async function completeBotSubscription(
   }
 }
 
+/**
+ * Stop or restart provider billing for a bot purchase. Cancellation is at
+ * period end, so it can be resumed until the paid period runs out.
+ */
+async function setBotBilling(
+  userId: number,
+  botId: number,
+  purchaseId: number,
+  action: "cancel" | "resume"
+) {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database unavailable");
+  }
+
+  const link = await getPurchaseLink("bot", purchaseId);
+  if (link) {
+    const provider = getPaymentProvider(link.provider as PaymentProviderName);
+    if (action === "cancel") {
+      await provider.cancelSubscription(link.providerId, "Canceled by customer", {
+        atPeriodEnd: true,
+      });
+    } else {
+      await provider.resumeSubscription(link.providerId, "Resumed by customer");
+    }
+    return link;
+  }
+
+  // PayPal agreements completed before provider links existed
+  const agreements = await db
+    .select()
+    .from(paypalSubscriptions)
+    .where(
+      and(
+        eq(paypalSubscriptions.userId, userId),
+        eq(paypalSubscriptions.planId, botSubscriptionPlanId(botId)),
+        eq(paypalSubscriptions.status, action === "cancel" ? "active" : "canceled")
+      )
+    );
+
+  for (const agreement of agreements) {
+    if (action === "cancel") {
+      await getPaymentProvider().cancelSubscription(
+        agreement.paypalSubscriptionId,
+        "Canceled by customer",
+        { atPeriodEnd: true }
+      );
+    } else {
+      await getPaymentProvider().resumeSubscription(
+        agreement.paypalSubscriptionId,
+        "Resumed by customer"
+      );
+    }
+    await db
+      .update(paypalSubscriptions)
+      .set({ status: action === "cancel" ? "canceled" : "active" })
+      .where(eq(paypalSubscriptions.paypalSubscriptionId, agreement.paypalSubscriptionId));
+  }
+  return null;
+}
+
 /**
  * Cancel bot subscription
+ * Billing stops now; the bot stays usable until expiryDate
  */
 export async function cancelBotSubscription(
   userId: string,
   botId: number
-): Promise<{ success: boolean; message: string }> {
+): Promise<{ success: boolean; message: string; expiryDate?: Date | null }> {
   const userIdNum = typeof userId === 'string' ? parseInt(userId, 10) : userId;
   try {
     const db = await getDb();
@@ -184,9 +455,10 @@ export async function cancelBotSubscription(
         and(
           eq(userBotPurchases.userId, userIdNum),
           eq(userBotPurchases.botId, botId),
-          eq(userBotPurchases.status, "active")
+          inArray(userBotPurchases.status, ["trialing", "active", "suspended"])
         )
-      );
+      )
+      .orderBy(desc(userBotPurchases.id));
 
     if (purchases.length === 0) {
       return {
@@ -196,18 +468,37 @@ export async function cancelBotSubscription(
     }
 
     const purchase = purchases[0];
+    const status = transitionSubscription(purchase.status, "cancel");
+
+    // Stop the provider from billing the subscription again
+    const link = await setBotBilling(userIdNum, botId, purchase.id, "cancel");
 
     // Update purchase status
     await db
       .update(userBotPurchases)
-      .set({ status: "expired" })
+      .set({ status })
       .where(eq(userBotPurchases.id, purchase.id));
 
-    logger.info(`Bot subscription expired for user ${userId}`);
+    await recordSubscriptionHistory({
+      productType: "bot",
+      purchaseId: purchase.id,
+      userId: userIdNum,
+      event: "canceled",
+      fromStatus: purchase.status,
+      toStatus: status,
+      periodEnd: purchase.expiryDate,
+      provider: (link?.provider as PaymentProviderName | undefined) ?? null,
+      providerId: link?.providerId ?? null,
+      note: "Canceled by customer",
+    });
+    await settleTrial("bot", purchase.id, "canceled");
+
+    logger.info(`Bot subscription canceled for user ${userId}, access until ${purchase.expiryDate}`);
 
     return {
       success: true,
-      message: "Bot subscription expired successfully",
+      message: "Bot subscription canceled; access continues until the end of the billing period",
+      expiryDate: purchase.expiryDate,
     };
   } catch (error) {
     logger.error("Failed to cancel bot subscription:", error);
@@ -219,24 +510,17 @@ export async function cancelBotSubscription(
 }
 
 /**
- * Get bot subscription status
+ * Undo a pending bot cancellation before the paid period ends
  */
-export async function getBotSubscriptionStatus(
+export async function resumeBotSubscription(
   userId: string,
   botId: number
-): Promise<{
-  hasSubscription: boolean;
-  isActive: boolean;
-  expiryDate?: Date | null;
-}> {
+): Promise<{ success: boolean; message: string; expiryDate?: Date | null }> {
   const userIdNum = typeof userId === 'string' ? parseInt(userId, 10) : userId;
   try {
     const db = await getDb();
     if (!db) {
-      return {
-        hasSubscription: false,
-        isActive: false,
-      };
+      throw new Error("Database unavailable");
     }
 
     const purchases = await db
@@ -245,31 +529,100 @@ export async function getBotSubscriptionStatus(
       .where(
         and(
           eq(userBotPurchases.userId, userIdNum),
-          eq(userBotPurchases.botId, botId)
+          eq(userBotPurchases.botId, botId),
+          eq(userBotPurchases.status, "canceled")
         )
-      );
+      )
+      .orderBy(desc(userBotPurchases.id));
 
-    if (purchases.length === 0) {
+    const purchase = purchases[0];
+    if (!purchase) {
+      return {
+        success: false,
+        message: "There is no pending cancellation to resume",
+      };
+    }
+    if (!purchase.expiryDate || purchase.expiryDate <= new Date()) {
       return {
-        hasSubscription: false,
-        isActive: false,
+        success: false,
+        message: "The subscription period has ended; start a new subscription instead",
       };
     }
 
-    const purchase = purchases[0];
-    const isActive =
-      purchase.status === "active" && purchase.expiryDate !== null && purchase.expiryDate > new Date();
+    // A trial canceled before it ended goes back to being a trial
+    const trial = await getPurchaseTrial("bot", purchase.id);
+    const status = transitionSubscription(
+      purchase.status,
+      trial?.status === "canceled" ? "resume_trial" : "resume"
+    );
+    const link = await setBotBilling(userIdNum, botId, purchase.id, "resume");
+
+    await db
+      .update(userBotPurchases)
+      .set({ status })
+      .where(eq(userBotPurchases.id, purchase.id));
+
+    await recordSubscriptionHistory({
+      productType: "bot",
+      purchaseId: purchase.id,
+      userId: userIdNum,
+      event: "resumed",
+      fromStatus: purchase.status,
+      toStatus: status,
+      periodEnd: purchase.expiryDate,
+      provider: (link?.provider as PaymentProviderName | undefined) ?? null,
+      providerId: link?.providerId ?? null,
+      note: "Resumed by customer",
+    });
+    await settleTrial("bot", purchase.id, "resumed");
+
+    logger.info(`Bot subscription resumed for user ${userId}, Bot ${botId}`);
 
     return {
-      hasSubscription: true,
-      isActive: isActive || false,
+      success: true,
+      message: "Bot subscription resumed",
       expiryDate: purchase.expiryDate,
     };
+  } catch (error) {
+    logger.error("Failed to resume bot subscription:", error);
+    throw new TRPCError({
+      code: "INTERNAL_SERVER_ERROR",
+      message: "Failed to resume subscription",
+    });
+  }
+}
+
+/**
+ * Get bot subscription status
+ */
+export async function getBotSubscriptionStatus(
+  userId: string,
+  botId: number
+): Promise<{
+  hasSubscription: boolean;
+  isActive: boolean;
+  expiryDate?: Date | null;
+  reason: EntitlementReason;
+}> {
+  const userIdNum = typeof userId === 'string' ? parseInt(userId, 10) : userId;
+  try {
+    const entitlement = await entitlementService.check(
+      { id: userIdNum },
+      { product: "bot", botId }
+    );
+
+    return {
+      hasSubscription: entitlement.reason !== "none",
+      isActive: entitlement.entitled,
+      expiryDate: entitlement.periodEnd,
+      reason: entitlement.reason,
+    };
   } catch (error) {
     logger.error("Failed to get bot subscription status:", error);
     return {
       hasSubscription: false,
       isActive: false,
+      reason: "none",
     };
   }
 }
@@ -0,0 +1,96 @@
+/**
+ * Tests for bundle rules
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  allocateCents,
+  bundleItemPeriodEnd,
+  checkBundle,
+  fromItemColumns,
+  toItemColumns,
+  transitionBundle,
+  type BundleItemSpec,
+} from "./bundlePolicy";
+
+const songs: BundleItemSpec[] = [
+  { product: "song", songId: 1 },
+  { product: "song", songId: 2 },
+  { product: "song", songId: 3 },
+];
+
+describe("checkBundle", () => {
+  it("accepts an album priced below its songs", () => {
+    expect(checkBundle("album", songs, 250, [100, 100, 100])).toBeNull();
+  });
+
+  it("refuses a price at or above the separate prices", () => {
+    expect(checkBundle("album", songs, 300, [100, 100, 100])).toBe(
+      "Price must be less than the $3.00 the items cost separately"
+    );
+    expect(checkBundle("album", songs, 0, [100, 100, 100])).toBe("Price must be a positive number of cents");
+  });
+
+  it("keeps albums to songs and items unique", () => {
+    const bot: BundleItemSpec = { product: "bot", botId: 4, interval: "yearly" };
+    expect(checkBundle("album", [...songs, bot], 1000, [100, 100, 100, 29999])).toBe(
+      "Albums can only contain songs"
+    );
+    expect(
+      checkBundle("bundle", [bot, { product: "bot", botId: 4, interval: "monthly" }], 1000, [29999, 2999])
+    ).toBe("A bundle cannot contain the same product twice");
+    expect(checkBundle("album", songs.slice(0, 1), 50, [100])).toBe("A album needs 2 to 50 items");
+  });
+
+  it("accepts a cross-product bundle", () => {
+    const items: BundleItemSpec[] = [
+      { product: "content_master", planId: "lifetime" },
+      { product: "bot", botId: 4, interval: "yearly" },
+    ];
+    expect(checkBundle("bundle", items, 49900, [29900, 29999])).toBeNull();
+  });
+});
+
+describe("allocateCents", () => {
+  it("splits in proportion and always adds up", () => {
+    expect(allocateCents(49900, [29900, 29999])).toEqual([24909, 24991]);
+    expect(allocateCents(250, [100, 100, 100])).toEqual([84, 83, 83]);
+    expect(allocateCents(100, [0, 0])).toEqual([50, 50]);
+    expect(allocateCents(0, [100, 200])).toEqual([0, 0]);
+  });
+});
+
+describe("bundleItemPeriodEnd", () => {
+  const from = new Date("2026-03-15T12:00:00Z");
+
+  it("grants one term for plans and nothing to expire for songs", () => {
+    expect(bundleItemPeriodEnd({ product: "song", songId: 1 }, from)).toBeNull();
+    expect(bundleItemPeriodEnd({ product: "bot", botId: 4, interval: "yearly" }, from)).toEqual(
+      new Date("2027-03-15T12:00:00Z")
+    );
+    expect(bundleItemPeriodEnd({ product: "content_master", planId: "monthly" }, from)).toEqual(
+      new Date("2026-04-15T12:00:00Z")
+    );
+    const lifetime = bundleItemPeriodEnd({ product: "content_master", planId: "lifetime" }, from);
+    expect(lifetime?.getUTCFullYear()).toBe(2126);
+  });
+});
+
+describe("bundle status and storage", () => {
+  it("publishes drafts and re-offers archived bundles", () => {
+    expect(transitionBundle("draft", "publish")).toBe("active");
+    expect(transitionBundle("active", "archive")).toBe("archived");
+    expect(transitionBundle("archived", "publish")).toBe("active");
+    expect(transitionBundle("active", "publish")).toBeNull();
+  });
+
+  it("round-trips items through their columns", () => {
+    const items: BundleItemSpec[] = [
+      ...songs,
+      { product: "bot", botId: 4, interval: "monthly" },
+      { product: "content_master", planId: "lifetime" },
+    ];
+    expect(items.map((item) => fromItemColumns(toItemColumns(item)))).toEqual(items);
+    expect(fromItemColumns({ productType: "bot", productId: 4, plan: "weekly" })).toBeNull();
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Bundle Rules
+ * What albums and bundles may contain and cost, how the bundle price is
+ * split across its items, and the access each item grants, without
+ * touching the database
+ */
+
+export type BundleKind = "album" | "bundle";
+
+export type BundleStatus = "draft" | "active" | "archived";
+
+export type BundleItemSpec =
+  | { product: "song"; songId: number }
+  | { product: "bot"; botId: number; interval: "monthly" | "yearly" }
+  | { product: "content_master"; planId: "monthly" | "lifetime" };
+
+export type BundleAction = "publish" | "archive";
+
+/**
+ * draft -> active -> archived; an archived bundle can be offered again.
+ * Archiving stops new sales and leaves purchases alone.
+ */
+const BUNDLE_TRANSITIONS: Record<BundleStatus, Partial<Record<BundleAction, BundleStatus>>> = {
+  draft: { publish: "active", archive: "archived" },
+  active: { archive: "archived" },
+  archived: { publish: "active" },
+};
+
+export function transitionBundle(from: string, action: BundleAction): BundleStatus | null {
+  return from in BUNDLE_TRANSITIONS ? (BUNDLE_TRANSITIONS[from as BundleStatus][action] ?? null) : null;
+}
+
+export const MIN_BUNDLE_ITEMS = 2;
+export const MAX_BUNDLE_ITEMS = 50;
+
+/**
+ * Same product twice is the same item, whatever the plan
+ */
+export function bundleItemKey(item: BundleItemSpec): string {
+  switch (item.product) {
+    case "song":
+      return `song:${item.songId}`;
+    case "bot":
+      return `bot:${item.botId}`;
+    case "content_master":
+      return "content_master";
+  }
+}
+
+/**
+ * What is wrong with a bundle's contents and price, or null when it can be
+ * sold. `listCents` holds each item's price when bought on its own; a
+ * bundle must cost less than that sum. Albums hold songs only.
+ */
+export function checkBundle(
+  kind: BundleKind,
+  items: BundleItemSpec[],
+  priceCents: number,
+  listCents: number[]
+): string | null {
+  if (items.length < MIN_BUNDLE_ITEMS || items.length > MAX_BUNDLE_ITEMS) {
+    return `A ${kind} needs ${MIN_BUNDLE_ITEMS} to ${MAX_BUNDLE_ITEMS} items`;
+  }
+  if (kind === "album" && items.some((item) => item.product !== "song")) {
+    return "Albums can only contain songs";
+  }
+  if (new Set(items.map(bundleItemKey)).size !== items.length) {
+    return `A ${kind} cannot contain the same product twice`;
+  }
+
+  const totalCents = listCents.reduce((total, cents) => total + cents, 0);
+  if (!Number.isInteger(priceCents) || priceCents <= 0) {
+    return "Price must be a positive number of cents";
+  }
+  if (priceCents >= totalCents) {
+    return `Price must be less than the $${(totalCents / 100).toFixed(2)} the items cost separately`;
+  }
+  return null;
+}
+
+/**
+ * Split `totalCents` in proportion to `weights`, largest remainders first,
+ * so the parts always add up to the total. Equal parts when every weight is 0.
+ */
+export function allocateCents(totalCents: number, weights: number[]): number[] {
+  if (weights.length === 0) return [];
+  const weightTotal = weights.reduce((total, weight) => total + weight, 0);
+  const shares = weights.map((weight) =>
+    weightTotal > 0 ? (totalCents * weight) / weightTotal : totalCents / weights.length
+  );
+
+  const parts = shares.map(Math.floor);
+  let left = totalCents - parts.reduce((total, part) => total + part, 0);
+  const byRemainder = shares
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of byRemainder) {
+    if (left <= 0) break;
+    parts[index] += 1;
+    left -= 1;
+  }
+  return parts;
+}
+
+/**
+ * When access bought through a bundle ends. Bundles are paid once, so bot
+ * and monthly plans run for one term without renewing.
+ */
+export function bundleItemPeriodEnd(item: BundleItemSpec, from: Date): Date | null {
+  if (item.product === "song") return null;
+
+  const end = new Date(from);
+  const plan = item.product === "bot" ? item.interval : item.planId;
+  if (plan === "monthly") {
+    end.setMonth(end.getMonth() + 1);
+  } else if (plan === "yearly") {
+    end.setFullYear(end.getFullYear() + 1);
+  } else {
+    // Lifetime, as for a Content Master lifetime purchase
+    end.setFullYear(end.getFullYear() + 100);
+  }
+  return end;
+}
+
+/**
+ * bundleItems columns for an item, and back
+ */
+export function toItemColumns(item: BundleItemSpec): {
+  productType: string;
+  productId: number | null;
+  plan: string | null;
+} {
+  switch (item.product) {
+    case "song":
+      return { productType: "song", productId: item.songId, plan: null };
+    case "bot":
+      return { productType: "bot", productId: item.botId, plan: item.interval };
+    case "content_master":
+      return { productType: "content_master", productId: null, plan: item.planId };
+  }
+}
+
+export function fromItemColumns(row: {
+  productType: string;
+  productId: number | null;
+  plan: string | null;
+}): BundleItemSpec | null {
+  if (row.productType === "song" && row.productId) {
+    return { product: "song", songId: row.productId };
+  }
+  if (row.productType === "bot" && row.productId && (row.plan === "monthly" || row.plan === "yearly")) {
+    return { product: "bot", botId: row.productId, interval: row.plan };
+  }
+  if (row.productType === "content_master" && (row.plan === "monthly" || row.plan === "lifetime")) {
+    return { product: "content_master", planId: row.plan };
+  }
+  return null;
+}
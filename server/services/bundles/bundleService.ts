@@ -0,0 +1,627 @@
+/**
+ * Bundle Service
+ * Artists' albums and admin bundles across songs, bots and Content Master,
+ * their one-time checkout, and expanding a paid bundle into the purchases
+ * that grant access to each item
+ */
+
+import { getDb } from "../../db";
+import { contentMasterPurchases, songPurchases, userBotPurchases } from "../../../drizzle/schema";
+import { musicUploads } from "../../../drizzle/upload_schema";
+import {
+  bundleItems,
+  bundlePurchaseItems,
+  bundlePurchases,
+  bundles,
+  type Bundle,
+} from "../../../drizzle/bundle_schema";
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { logger } from "../../_core/logger";
+import {
+  buildRedirectUrls,
+  decodePaymentReference,
+  encodePaymentReference,
+  getPaymentProvider,
+  type PaymentProviderName,
+} from "../payments";
+import { createLinkedPurchase, findPurchaseLink } from "../payments/purchaseLinks";
+import { entitlementService } from "../entitlements/entitlementService";
+import {
+  catalogPrice,
+  creatorSharePercent,
+  getCatalogBot,
+  getCreatorSharePercent,
+  isPurchasable,
+} from "../catalog";
+import { SONG_PRICE_CENTS } from "../music/musicService";
+import { recordBundleSale } from "../payouts";
+import { CONTENT_MASTER_PLANS } from "../../contentMaster/paymentService";
+import {
+  allocateCents,
+  bundleItemKey,
+  bundleItemPeriodEnd,
+  checkBundle,
+  fromItemColumns,
+  toItemColumns,
+  transitionBundle,
+  type BundleAction,
+  type BundleItemSpec,
+  type BundleKind,
+} from "./bundlePolicy";
+
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BundleError";
+  }
+}
+
+export interface BundleItemView {
+  item: BundleItemSpec;
+  name: string;
+  // Price when bought on its own
+  listCents: number;
+  available: boolean;
+}
+
+export interface BundleView {
+  id: number;
+  kind: BundleKind;
+  title: string;
+  description: string | null;
+  creatorId: number | null;
+  priceCents: number;
+  currency: string;
+  status: string;
+  items: BundleItemView[];
+  listCents: number;
+  savingsCents: number;
+}
+
+export interface BundleInput {
+  title: string;
+  description?: string | null;
+  priceCents: number;
+  items: BundleItemSpec[];
+}
+
+export interface DescribedItem extends BundleItemView {
+  creator: { id: number; sharePercent: number } | null;
+  // The artist of a song, for albums
+  artistId: number | null;
+}
+
+const BUNDLE_CURRENCY = "usd";
+
+/**
+ * Names, prices and creators of bundle items; unknown products are left out
+ */
+export async function describeItems(items: BundleItemSpec[]): Promise<Map<string, DescribedItem>> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const songIds = items.flatMap((item) => (item.product === "song" ? [item.songId] : []));
+  const tracks = songIds.length
+    ? await db
+        .select({
+          id: musicUploads.id,
+          artistId: musicUploads.userId,
+          title: musicUploads.title,
+          artistName: musicUploads.artistName,
+          status: musicUploads.status,
+        })
+        .from(musicUploads)
+        .where(inArray(musicUploads.id, songIds))
+    : [];
+  const trackById = new Map(tracks.map((track) => [track.id, track]));
+
+  const described = new Map<string, DescribedItem>();
+  for (const item of items) {
+    if (item.product === "song") {
+      const track = trackById.get(item.songId);
+      if (!track) continue;
+      described.set(bundleItemKey(item), {
+        item,
+        name: `${track.title} by ${track.artistName}`,
+        listCents: SONG_PRICE_CENTS,
+        available: track.status === "published",
+        creator: { id: track.artistId, sharePercent: getCreatorSharePercent() },
+        artistId: track.artistId,
+      });
+    } else if (item.product === "bot") {
+      const bot = await getCatalogBot(item.botId);
+      if (!bot) continue;
+      described.set(bundleItemKey(item), {
+        item,
+        name: `${bot.name} (${item.interval})`,
+        listCents: catalogPrice(bot, item.interval),
+        available: isPurchasable(bot),
+        creator: bot.creatorUserId ? { id: bot.creatorUserId, sharePercent: creatorSharePercent(bot) } : null,
+        artistId: null,
+      });
+    } else {
+      const plan = CONTENT_MASTER_PLANS[item.planId];
+      described.set(bundleItemKey(item), {
+        item,
+        name: `Content Master ${plan.name}`,
+        listCents: plan.price * 100,
+        available: true,
+        creator: null,
+        artistId: null,
+      });
+    }
+  }
+  return described;
+}
+
+function itemRows(bundleId: number, items: BundleItemSpec[]) {
+  return items.map((item, position) => ({ bundleId, position, ...toItemColumns(item) }));
+}
+
+async function loadItems(bundleId: number): Promise<BundleItemSpec[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const rows = await db
+    .select()
+    .from(bundleItems)
+    .where(eq(bundleItems.bundleId, bundleId))
+    .orderBy(asc(bundleItems.position));
+  return rows.flatMap((row) => fromItemColumns(row) ?? []);
+}
+
+async function toBundleView(bundle: Bundle): Promise<BundleView> {
+  const items = await loadItems(bundle.id);
+  const described = await describeItems(items);
+  const views = items.flatMap((item) => {
+    const view = described.get(bundleItemKey(item));
+    return view ? [{ item, name: view.name, listCents: view.listCents, available: view.available }] : [];
+  });
+  const listCents = views.reduce((total, view) => total + view.listCents, 0);
+
+  return {
+    id: bundle.id,
+    kind: bundle.kind as BundleKind,
+    title: bundle.title,
+    description: bundle.description,
+    creatorId: bundle.creatorId,
+    priceCents: bundle.priceCents,
+    currency: bundle.currency,
+    status: bundle.status,
+    items: views,
+    listCents,
+    savingsCents: Math.max(0, listCents - bundle.priceCents),
+  };
+}
+
+async function loadBundle(bundleId: number): Promise<Bundle> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [bundle] = await db.select().from(bundles).where(eq(bundles.id, bundleId)).limit(1);
+  if (!bundle) throw new BundleError("Bundle not found");
+  return bundle;
+}
+
+/**
+ * Refuse items that do not exist or cannot be sold, albums with songs that
+ * are not the artist's own, and prices that are not a discount
+ */
+async function checkInput(kind: BundleKind, input: BundleInput, creatorId: number | null) {
+  const described = await describeItems(input.items);
+  const listCents: number[] = [];
+  for (const item of input.items) {
+    const view = described.get(bundleItemKey(item));
+    if (!view || !view.available) {
+      throw new BundleError(`${bundleItemKey(item).replace(":", " ")} is not available`);
+    }
+    if (kind === "album" && view.artistId !== creatorId) {
+      throw new BundleError(`${view.name} is not one of your tracks`);
+    }
+    listCents.push(view.listCents);
+  }
+
+  const problem = checkBundle(kind, input.items, input.priceCents, listCents);
+  if (problem) throw new BundleError(problem);
+}
+
+async function insertBundle(
+  kind: BundleKind,
+  input: BundleInput,
+  creatorId: number | null,
+  createdBy: number
+): Promise<BundleView> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  await checkInput(kind, input, creatorId);
+  const bundle = await db.transaction(async (tx) => {
+    const [row] = await tx
+      .insert(bundles)
+      .values({
+        kind,
+        title: input.title,
+        description: input.description ?? null,
+        creatorId,
+        priceCents: input.priceCents,
+        currency: BUNDLE_CURRENCY,
+        createdBy,
+      })
+      .returning();
+    await tx
+      .insert(bundleItems)
+      .values(itemRows(row.id, input.items));
+    return row;
+  });
+
+  logger.info(`${kind === "album" ? "Album" : "Bundle"} ${bundle.id} created by user ${createdBy}`);
+  return toBundleView(bundle);
+}
+
+async function replaceBundle(bundle: Bundle, input: BundleInput): Promise<BundleView> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  if (bundle.status === "archived") throw new BundleError("Offer the bundle again before editing it");
+  await checkInput(bundle.kind as BundleKind, input, bundle.creatorId);
+
+  const [updated] = await db.transaction(async (tx) => {
+    await tx.delete(bundleItems).where(eq(bundleItems.bundleId, bundle.id));
+    await tx
+      .insert(bundleItems)
+      .values(itemRows(bundle.id, input.items));
+    return tx
+      .update(bundles)
+      .set({
+        title: input.title,
+        description: input.description ?? null,
+        priceCents: input.priceCents,
+        updatedAt: new Date(),
+      })
+      .where(eq(bundles.id, bundle.id))
+      .returning();
+  });
+  return toBundleView(updated);
+}
+
+async function moveBundle(bundle: Bundle, action: BundleAction): Promise<BundleView> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const status = transitionBundle(bundle.status, action);
+  if (!status) throw new BundleError(`Cannot ${action} a bundle that is ${bundle.status}`);
+
+  // Items may have been taken off sale since the bundle was saved
+  if (action === "publish") {
+    await checkInput(
+      bundle.kind as BundleKind,
+      { ...bundle, items: await loadItems(bundle.id) },
+      bundle.creatorId
+    );
+  }
+
+  const [updated] = await db
+    .update(bundles)
+    .set({ status, updatedAt: new Date() })
+    .where(eq(bundles.id, bundle.id))
+    .returning();
+  return toBundleView(updated);
+}
+
+/**
+ * Active albums and bundles for the store, newest first
+ */
+export async function listBundles(kind?: BundleKind): Promise<BundleView[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const rows = await db
+    .select()
+    .from(bundles)
+    .where(and(eq(bundles.status, "active"), kind ? eq(bundles.kind, kind) : undefined))
+    .orderBy(desc(bundles.id));
+  return Promise.all(rows.map(toBundleView));
+}
+
+export async function getBundle(bundleId: number): Promise<BundleView | null> {
+  const bundle = await loadBundle(bundleId).catch(() => null);
+  return bundle?.status === "active" ? toBundleView(bundle) : null;
+}
+
+/**
+ * An album of the artist's own published tracks, as a draft
+ */
+export async function createAlbum(artistId: number, input: BundleInput): Promise<BundleView> {
+  return insertBundle("album", input, artistId, artistId);
+}
+
+async function loadAlbum(artistId: number, albumId: number): Promise<Bundle> {
+  const album = await loadBundle(albumId);
+  if (album.kind !== "album" || album.creatorId !== artistId) throw new BundleError("Album not found");
+  return album;
+}
+
+export async function updateAlbum(
+  artistId: number,
+  albumId: number,
+  input: BundleInput
+): Promise<BundleView> {
+  return replaceBundle(await loadAlbum(artistId, albumId), input);
+}
+
+export async function setAlbumStatus(artistId: number, albumId: number, action: BundleAction) {
+  return moveBundle(await loadAlbum(artistId, albumId), action);
+}
+
+export async function listArtistAlbums(artistId: number): Promise<BundleView[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const rows = await db
+    .select()
+    .from(bundles)
+    .where(and(eq(bundles.kind, "album"), eq(bundles.creatorId, artistId)))
+    .orderBy(desc(bundles.id));
+  return Promise.all(rows.map(toBundleView));
+}
+
+/**
+ * Admin: a bundle of any products, e.g. Content Master lifetime with a bot's yearly plan
+ */
+export async function createBundle(adminId: number, input: BundleInput): Promise<BundleView> {
+  return insertBundle("bundle", input, null, adminId);
+}
+
+export async function updateBundle(bundleId: number, input: BundleInput): Promise<BundleView> {
+  return replaceBundle(await loadBundle(bundleId), input);
+}
+
+export async function setBundleStatus(bundleId: number, action: BundleAction): Promise<BundleView> {
+  return moveBundle(await loadBundle(bundleId), action);
+}
+
+/**
+ * Admin: albums and bundles in every status
+ */
+export async function listAllBundles(): Promise<BundleView[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const rows = await db.select().from(bundles).orderBy(desc(bundles.id));
+  return Promise.all(rows.map(toBundleView));
+}
+
+/**
+ * Start a one-time checkout for a bundle. Refused while the buyer already has
+ * a plan in the bundle, or owns everything in it.
+ */
+export async function createBundleCheckout(request: {
+  userId: number;
+  bundleId: number;
+  provider?: PaymentProviderName;
+}): Promise<{ checkoutId: string; checkoutUrl: string }> {
+  const bundle = await getBundle(request.bundleId);
+  if (!bundle) throw new BundleError("Bundle not found");
+  if (bundle.items.some((view) => !view.available)) {
+    throw new BundleError("Part of this bundle is no longer available");
+  }
+
+  let ownsEverything = true;
+  for (const { item, name } of bundle.items) {
+    const target =
+      item.product === "song"
+        ? { product: "song" as const, songId: item.songId }
+        : item.product === "bot"
+          ? { product: "bot" as const, botId: item.botId }
+          : { product: "content_master" as const };
+    const entitlement = await entitlementService.check({ id: request.userId }, target);
+    if (entitlement.entitled && item.product !== "song") {
+      throw new BundleError(`You already have ${name}`);
+    }
+    ownsEverything &&= entitlement.entitled;
+  }
+  if (ownsEverything) throw new BundleError("You already own everything in this bundle");
+
+  const checkout = await getPaymentProvider(request.provider).createOrder({
+    amountCents: bundle.priceCents,
+    currency: bundle.currency,
+    description: bundle.title,
+    reference: encodePaymentReference({ kind: "bundle", userId: request.userId, bundleId: bundle.id }),
+    ...buildRedirectUrls(`/bundles?bundleId=${bundle.id}`),
+  });
+
+  logger.info(`Bundle checkout ${checkout.id}: User ${request.userId}, Bundle ${bundle.id}`);
+  return { checkoutId: checkout.id, checkoutUrl: checkout.approvalUrl };
+}
+
+/**
+ * Capture an approved bundle checkout and record the purchase
+ */
+export async function completeBundleCheckout(
+  userId: number,
+  bundleId: number,
+  orderId: string,
+  provider: PaymentProviderName = "paypal"
+) {
+  const payments = getPaymentProvider(provider);
+  // Checked before capturing, so someone else's order is never charged here
+  const order = await payments.getOrderStatus(orderId);
+  const reference = decodePaymentReference(order.reference);
+  if (reference?.kind !== "bundle" || reference.userId !== userId || reference.bundleId !== bundleId) {
+    throw new BundleError("Checkout does not belong to this bundle");
+  }
+
+  const capture = await payments.captureOrder(orderId);
+  if (capture.status !== "completed") {
+    throw new BundleError(`Payment ${capture.status}`);
+  }
+
+  return recordBundlePurchase({
+    userId,
+    bundleId,
+    provider,
+    paymentId: capture.captureId,
+    amountCents: capture.amountCents,
+    currency: capture.currency,
+    paidAt: new Date(),
+  });
+}
+
+/**
+ * Record a paid bundle: one songPurchases, userBotPurchases or
+ * contentMasterPurchases row per item, with the bundle price split across
+ * them, the provider link on the bundle purchase, and every creator's share
+ * on the ledger. Songs the buyer already owns are not bought twice. Safe to
+ * call from both the return page and the provider webhook.
+ */
+export async function recordBundlePurchase(payment: {
+  userId: number;
+  bundleId: number;
+  provider: PaymentProviderName;
+  paymentId: string;
+  amountCents: number;
+  currency: string;
+  paidAt: Date;
+}): Promise<{ bundlePurchaseId: number }> {
+  const existing = await findPurchaseLink(payment.provider, payment.paymentId);
+  if (existing) return { bundlePurchaseId: existing.purchaseId };
+
+  // Honoured even if the bundle was archived after checkout started
+  const bundle = await loadBundle(payment.bundleId);
+  if (payment.currency !== bundle.currency || payment.amountCents < bundle.priceCents) {
+    throw new BundleError(
+      `Payment of ${payment.amountCents} ${payment.currency} does not cover bundle ${bundle.id}`
+    );
+  }
+
+  const items = await loadItems(bundle.id);
+  const described = await describeItems(items);
+  const views = items.flatMap((item) => described.get(bundleItemKey(item)) ?? []);
+  if (views.length === 0) throw new BundleError(`Bundle ${bundle.id} has no items`);
+  const allocations = allocateCents(
+    payment.amountCents,
+    views.map((view) => view.listCents)
+  );
+
+  const owned = new Set<number>();
+  for (const { item } of views) {
+    if (
+      item.product === "song" &&
+      (await entitlementService.isEntitled({ id: payment.userId }, { product: "song", songId: item.songId }))
+    ) {
+      owned.add(item.songId);
+    }
+  }
+
+  // The payment is claimed before any item is created
+  const purchase = await createLinkedPurchase(
+    {
+      productType: "bundle",
+      userId: payment.userId,
+      provider: payment.provider,
+      providerId: payment.paymentId,
+      providerKind: "payment",
+    },
+    async (tx) => {
+      const [row] = await tx
+        .insert(bundlePurchases)
+        .values({
+          bundleId: bundle.id,
+          userId: payment.userId,
+          amountCents: payment.amountCents,
+          currency: payment.currency,
+          status: "completed",
+        })
+        .returning();
+
+      for (const [index, { item }] of views.entries()) {
+        const periodEnd = bundleItemPeriodEnd(item, payment.paidAt);
+        let purchaseId: number;
+        if (item.product === "song") {
+          if (owned.has(item.songId)) continue;
+          const [song] = await tx
+            .insert(songPurchases)
+            .values({ userId: payment.userId, songId: item.songId, status: "completed" })
+            .returning({ id: songPurchases.id });
+          purchaseId = song.id;
+        } else if (item.product === "bot") {
+          const [bot] = await tx
+            .insert(userBotPurchases)
+            .values({ userId: payment.userId, botId: item.botId, expiryDate: periodEnd, status: "active" })
+            .returning({ id: userBotPurchases.id });
+          purchaseId = bot.id;
+        } else {
+          const [plan] = await tx
+            .insert(contentMasterPurchases)
+            .values({
+              userId: payment.userId,
+              planId: item.planId,
+              status: "active",
+              currentPeriodStart: payment.paidAt,
+              currentPeriodEnd: periodEnd as Date,
+            })
+            .returning({ id: contentMasterPurchases.id });
+          purchaseId = plan.id;
+        }
+
+        await tx.insert(bundlePurchaseItems).values({
+          bundlePurchaseId: row.id,
+          productType: item.product,
+          purchaseId,
+          allocatedCents: allocations[index],
+        });
+      }
+      // Booked with the purchase, so a failed booking rolls it back for a retry
+      await recordBundleSale(
+        {
+          bundlePurchaseId: row.id,
+          grossCents: payment.amountCents,
+          currency: payment.currency,
+          provider: payment.provider,
+          paidAt: payment.paidAt,
+          items: views.map((view, index) => ({ allocatedCents: allocations[index], creator: view.creator })),
+          description: `${bundle.title} (bundle purchase ${row.id})`,
+        },
+        tx
+      );
+      return row;
+    }
+  );
+  if (!purchase) {
+    // Recorded by a concurrent call for the same payment, which also books the sale
+    const recorded = await findPurchaseLink(payment.provider, payment.paymentId);
+    if (!recorded) throw new Error(`Purchase link for payment ${payment.paymentId} not found`);
+    return { bundlePurchaseId: recorded.purchaseId };
+  }
+
+  logger.info(
+    `Bundle purchase ${purchase.id}: User ${payment.userId} bought bundle ${bundle.id}` +
+      (owned.size > 0 ? ` (${owned.size} songs already owned)` : "")
+  );
+
+  return { bundlePurchaseId: purchase.id };
+}
+
+/**
+ * The bundles a user has bought, newest first
+ */
+export async function listBundlePurchases(userId: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  return db
+    .select({
+      id: bundlePurchases.id,
+      bundleId: bundlePurchases.bundleId,
+      title: bundles.title,
+      kind: bundles.kind,
+      amountCents: bundlePurchases.amountCents,
+      currency: bundlePurchases.currency,
+      status: bundlePurchases.status,
+      createdAt: bundlePurchases.createdAt,
+    })
+    .from(bundlePurchases)
+    .innerJoin(bundles, eq(bundles.id, bundlePurchases.bundleId))
+    .where(eq(bundlePurchases.userId, userId))
+    .orderBy(desc(bundlePurchases.id));
+}
@@ -0,0 +1,59 @@
+/**
+ * Bundle Purchase Status
+ * A bundle's status carries over to everything it expanded into, so a
+ * refunded or denied bundle ends access to all of its items together
+ */
+
+import { getDb } from "../../db";
+import { contentMasterPurchases, songPurchases, userBotPurchases } from "../../../drizzle/schema";
+import { bundlePurchaseItems, bundlePurchases } from "../../../drizzle/bundle_schema";
+import { and, eq, inArray } from "drizzle-orm";
+
+export async function setBundlePurchaseStatus(bundlePurchaseId: number, status: string): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const items = await db
+    .select()
+    .from(bundlePurchaseItems)
+    .where(eq(bundlePurchaseItems.bundlePurchaseId, bundlePurchaseId));
+  const idsOf = (productType: string) =>
+    items.filter((item) => item.productType === productType).map((item) => item.purchaseId);
+
+  const songIds = idsOf("song");
+  const botIds = idsOf("bot");
+  const contentMasterIds = idsOf("content_master");
+
+  await db.transaction(async (tx) => {
+    await tx.update(bundlePurchases).set({ status }).where(eq(bundlePurchases.id, bundlePurchaseId));
+    if (songIds.length > 0) {
+      await tx.update(songPurchases).set({ status }).where(inArray(songPurchases.id, songIds));
+    }
+    if (botIds.length > 0) {
+      await tx.update(userBotPurchases).set({ status }).where(inArray(userBotPurchases.id, botIds));
+    }
+    if (contentMasterIds.length > 0) {
+      await tx
+        .update(contentMasterPurchases)
+        .set({ status })
+        .where(inArray(contentMasterPurchases.id, contentMasterIds));
+    }
+  });
+}
+
+/**
+ * The bundle purchase a song, bot or Content Master purchase came from, if any
+ */
+export async function findBundleOfPurchase(productType: string, purchaseId: number): Promise<number | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [item] = await db
+    .select({ bundlePurchaseId: bundlePurchaseItems.bundlePurchaseId })
+    .from(bundlePurchaseItems)
+    .where(
+      and(eq(bundlePurchaseItems.productType, productType), eq(bundlePurchaseItems.purchaseId, purchaseId))
+    )
+    .limit(1);
+  return item?.bundlePurchaseId ?? null;
+}
@@ -0,0 +1,24 @@
+/**
+ * Albums and bundles
+ */
+
+export * from "./bundlePolicy";
+export { setBundlePurchaseStatus, findBundleOfPurchase } from "./bundleStatus";
+export {
+  BundleError,
+  listBundles,
+  getBundle,
+  createAlbum,
+  updateAlbum,
+  setAlbumStatus,
+  listArtistAlbums,
+  createBundle,
+  updateBundle,
+  setBundleStatus,
+  listAllBundles,
+  createBundleCheckout,
+  completeBundleCheckout,
+  recordBundlePurchase,
+  listBundlePurchases,
+} from "./bundleService";
+export type { BundleInput, BundleItemView, BundleView } from "./bundleService";
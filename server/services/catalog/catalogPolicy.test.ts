@@ -0,0 +1,52 @@
+/**
+ * Tests for bot catalog rules
+ */
+
+import { describe, it, expect } from "vitest";
+import { BOT_CATALOG_SEED, catalogBillingPlan, catalogPrice, isPurchasable } from "./catalogPolicy";
+
+const brainBot = BOT_CATALOG_SEED.find((bot) => bot.slug === "brain-bot")!;
+const customBot = BOT_CATALOG_SEED.find((bot) => bot.slug === "custom-bot-builder")!;
+
+describe("BOT_CATALOG_SEED", () => {
+  it("keeps the bot IDs existing purchases refer to", () => {
+    expect(BOT_CATALOG_SEED.map((bot) => bot.id)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(new Set(BOT_CATALOG_SEED.map((bot) => bot.slug)).size).toBe(BOT_CATALOG_SEED.length);
+  });
+
+  it("prices branded bots above the custom bot builder", () => {
+    expect(brainBot).toMatchObject({ type: "branded", monthlyPriceCents: 2999, yearlyPriceCents: 29999 });
+    expect(customBot).toMatchObject({ type: "blank", monthlyPriceCents: 1999, yearlyPriceCents: 19999 });
+  });
+});
+
+describe("catalogBillingPlan", () => {
+  it("bills the catalog price for the interval", () => {
+    expect(catalogBillingPlan(brainBot, "monthly")).toEqual({
+      key: "bot_1_monthly_2999",
+      name: "Brain Bot Monthly",
+      amountCents: 2999,
+      currency: "usd",
+      interval: "month",
+    });
+    expect(catalogBillingPlan(customBot, "yearly")).toMatchObject({
+      amountCents: 19999,
+      interval: "year",
+    });
+  });
+
+  it("uses a new plan key when the price changes", () => {
+    const repriced = { ...brainBot, monthlyPriceCents: 3499 };
+
+    expect(catalogBillingPlan(repriced, "monthly").key).toBe("bot_1_monthly_3499");
+    expect(catalogPrice(repriced, "monthly")).toBe(3499);
+  });
+});
+
+describe("isPurchasable", () => {
+  it("sells published bots only", () => {
+    expect(isPurchasable({ status: "published" })).toBe(true);
+    expect(isPurchasable({ status: "draft" })).toBe(false);
+    expect(isPurchasable({ status: "archived" })).toBe(false);
+  });
+});
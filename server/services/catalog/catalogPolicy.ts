@@ -0,0 +1,168 @@
+/**
+ * Bot Catalog Rules
+ * The bots the store launched with, and how a catalog entry is priced at
+ * checkout, without touching the database or a payment provider
+ */
+
+import type { BillingPlan } from "../payments/paymentProvider";
+import type { BotCatalogEntry } from "../../../drizzle/catalog_schema";
+
+export type CatalogBotType = "branded" | "blank";
+
+export type CatalogStatus = "draft" | "pending_review" | "published" | "rejected" | "archived";
+
+export type CatalogInterval = "monthly" | "yearly";
+
+export type CatalogPricing = Pick<
+  BotCatalogEntry,
+  "id" | "name" | "monthlyPriceCents" | "yearlyPriceCents" | "currency"
+>;
+
+export type CatalogBotSeed = Omit<
+  BotCatalogEntry,
+  | "creatorUserId"
+  | "ratingAverage"
+  | "ratingCount"
+  | "revenueSharePercent"
+  | "submittedAt"
+  | "reviewedAt"
+  | "reviewedBy"
+  | "reviewNotes"
+  | "createdAt"
+  | "updatedAt"
+>;
+
+const DAMONE_WARD = "Damone Ward Sr.";
+
+function brandedBot(
+  bot: Pick<CatalogBotSeed, "id" | "slug" | "name" | "description" | "icon" | "categories" | "capabilities" | "features">
+): CatalogBotSeed {
+  return {
+    ...bot,
+    type: "branded",
+    creatorName: DAMONE_WARD,
+    monthlyPriceCents: 2999,
+    yearlyPriceCents: 29999,
+    currency: "usd",
+    status: "published",
+    sortOrder: bot.id,
+  };
+}
+
+/**
+ * The bots the store launched with, under the IDs existing purchases use.
+ * Seeding skips IDs already in the table, so admin edits are kept.
+ */
+export const BOT_CATALOG_SEED: CatalogBotSeed[] = [
+  // Branded Bots (Pre-configured with Damone Ward Sr. content)
+  brandedBot({
+    id: 1,
+    slug: "brain-bot",
+    name: "Brain Bot",
+    description: "Content management & analysis",
+    icon: "🧠",
+    categories: ["productivity", "analytics"],
+    capabilities: ["chat", "file-processing"],
+    features: ["Organizes your music and content library", "Content performance analysis", "Catalog insights"],
+  }),
+  brandedBot({
+    id: 2,
+    slug: "creative-bot",
+    name: "Creative Bot",
+    description: "Music distribution & content generation",
+    icon: "🎵",
+    categories: ["writing", "entertainment"],
+    capabilities: ["chat", "api-integration"],
+    features: ["Release distribution", "Release descriptions and liner notes", "Content ideas from your catalog"],
+  }),
+  brandedBot({
+    id: 3,
+    slug: "hype-bot",
+    name: "Hype Bot",
+    description: "Marketing & community engagement",
+    icon: "📣",
+    categories: ["marketing"],
+    capabilities: ["chat", "web-search", "real-time"],
+    features: ["Social media posts", "Community engagement replies", "Release campaigns"],
+  }),
+  brandedBot({
+    id: 4,
+    slug: "email-bot",
+    name: "Email Bot",
+    description: "Email automation & campaigns",
+    icon: "📧",
+    categories: ["marketing", "customer-service"],
+    capabilities: ["chat", "api-integration"],
+    features: ["Automated email campaigns", "Newsletter drafting", "Subscriber segments"],
+  }),
+  brandedBot({
+    id: 5,
+    slug: "no-repeat-bot",
+    name: "No Repeat Bot",
+    description: "Smart playlist generation",
+    icon: "🔀",
+    categories: ["entertainment"],
+    capabilities: ["chat", "real-time"],
+    features: ["Playlists without repeats", "Mood and theme based sets", "Listening history aware"],
+  }),
+  brandedBot({
+    id: 6,
+    slug: "art-bot",
+    name: "Art Bot",
+    description: "Cover art & visual content",
+    icon: "🎨",
+    categories: ["entertainment", "marketing"],
+    capabilities: ["chat", "image-generation"],
+    features: ["Album and single cover art", "Social media graphics", "Visuals in your brand style"],
+  }),
+  // Blank Bot Template (For users to customize)
+  {
+    id: 7,
+    slug: "custom-bot-builder",
+    name: "Custom Bot Builder",
+    description: "Build your own AI bot with custom knowledge base",
+    icon: "✨",
+    type: "blank",
+    categories: ["productivity", "education"],
+    capabilities: ["chat", "file-processing", "custom-training"],
+    features: [
+      "Upload your own knowledge base",
+      "Add websites, books, and content",
+      "Generate custom blog posts",
+      "Full customization control",
+    ],
+    creatorName: "Gifted Eternity",
+    monthlyPriceCents: 1999,
+    yearlyPriceCents: 19999,
+    currency: "usd",
+    status: "published",
+    sortOrder: 7,
+  },
+];
+
+/**
+ * Only published bots can be bought; archived ones keep serving existing
+ * subscribers
+ */
+export function isPurchasable(bot: Pick<BotCatalogEntry, "status">): boolean {
+  return bot.status === "published";
+}
+
+export function catalogPrice(bot: CatalogPricing, interval: CatalogInterval): number {
+  return interval === "monthly" ? bot.monthlyPriceCents : bot.yearlyPriceCents;
+}
+
+/**
+ * Provider plan for a bot and interval. The price is part of the key, so a
+ * price change gets a new PayPal billing plan instead of reusing the old one.
+ */
+export function catalogBillingPlan(bot: CatalogPricing, interval: CatalogInterval): BillingPlan {
+  const amountCents = catalogPrice(bot, interval);
+  return {
+    key: `bot_${bot.id}_${interval}_${amountCents}`,
+    name: `${bot.name} ${interval === "monthly" ? "Monthly" : "Yearly"}`,
+    amountCents,
+    currency: bot.currency,
+    interval: interval === "monthly" ? "month" : "year",
+  };
+}
@@ -0,0 +1,121 @@
+/**
+ * Tests for marketplace search
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  decodeSearchCursor,
+  relevanceScore,
+  searchCatalog,
+  type BotFilters,
+  type CatalogSearchQuery,
+  type SearchableBot,
+} from "./catalogSearch";
+
+function bot(overrides: Partial<SearchableBot> & Pick<SearchableBot, "id" | "name">): SearchableBot {
+  return {
+    description: "",
+    categories: [],
+    capabilities: ["chat"],
+    features: [],
+    creatorName: "Damone Ward Sr.",
+    monthlyPriceCents: 2999,
+    ratingAverage: null,
+    sortOrder: overrides.id,
+    createdAt: new Date(`2024-01-0${overrides.id}T00:00:00Z`),
+    ...overrides,
+  };
+}
+
+const bots = [
+  bot({ id: 1, name: "Brain Bot", description: "Content management & analysis", categories: ["productivity", "analytics"], ratingAverage: 4.2 }),
+  bot({ id: 2, name: "Hype Bot", description: "Marketing & community engagement", categories: ["marketing"], capabilities: ["chat", "web-search"], ratingAverage: 4.8 }),
+  bot({ id: 3, name: "Email Bot", description: "Email automation & campaigns", categories: ["marketing", "customer-service"] }),
+  bot({ id: 4, name: "Art Bot", description: "Cover art & visual content", categories: ["marketing"], capabilities: ["image-generation"], ratingAverage: 3.5 }),
+  bot({ id: 5, name: "Custom Bot Builder", description: "Build your own AI bot", categories: ["productivity"], capabilities: ["chat", "custom-training"], monthlyPriceCents: 1999 }),
+];
+
+const noFilters: BotFilters = { categories: [], capabilities: [], priceRange: [0, 100], rating: 0, searchTerm: "" };
+
+function query(
+  overrides: Partial<Omit<CatalogSearchQuery, "filters">> & { filters?: Partial<BotFilters> } = {}
+): CatalogSearchQuery {
+  return { sort: "featured", limit: 10, after: null, ...overrides, filters: { ...noFilters, ...overrides.filters } };
+}
+
+const ids = (result: { bots: SearchableBot[] }) => result.bots.map((b) => b.id);
+
+describe("searchCatalog", () => {
+  it("returns every bot in featured order without filters", () => {
+    const result = searchCatalog(bots, query());
+
+    expect(ids(result)).toEqual([1, 2, 3, 4, 5]);
+    expect(result).toMatchObject({ total: 5, catalogTotal: 5, nextCursor: null });
+  });
+
+  it("matches any selected category and all selected capabilities", () => {
+    expect(ids(searchCatalog(bots, query({ filters: { categories: ["analytics", "customer-service"] } })))).toEqual([1, 3]);
+    expect(ids(searchCatalog(bots, query({ filters: { capabilities: ["chat", "web-search"] } })))).toEqual([2]);
+  });
+
+  it("filters by monthly price in dollars and minimum rating", () => {
+    expect(ids(searchCatalog(bots, query({ filters: { priceRange: [0, 20] } })))).toEqual([5]);
+    expect(ids(searchCatalog(bots, query({ filters: { rating: 4 } })))).toEqual([1, 2]);
+  });
+
+  it("counts each facet with the other filters applied", () => {
+    const result = searchCatalog(bots, query({ filters: { categories: ["marketing"], capabilities: ["chat"] } }));
+
+    expect(result.total).toBe(2);
+    // Ticking another category would add bots, so categories ignore their own filter
+    expect(result.facets.categories).toEqual({ productivity: 2, analytics: 1, marketing: 2, "customer-service": 1 });
+    expect(result.facets.capabilities).toEqual({ chat: 2, "web-search": 1, "image-generation": 1 });
+  });
+
+  it("searches names, descriptions and features and ranks name hits first", () => {
+    const result = searchCatalog(bots, query({ sort: "relevance", filters: { searchTerm: "marketing" } }));
+    expect(ids(result)).toEqual([2, 3, 4]);
+
+    const named = searchCatalog(bots, query({ sort: "relevance", filters: { searchTerm: "art" } }));
+    expect(ids(named)[0]).toBe(4);
+  });
+
+  it("requires every search word", () => {
+    expect(relevanceScore(bots[0], ["brain", "analysis"])).toBeGreaterThan(0);
+    expect(relevanceScore(bots[0], ["brain", "email"])).toBe(0);
+  });
+
+  it("sorts by price and rating with the bot ID breaking ties", () => {
+    expect(ids(searchCatalog(bots, query({ sort: "price_asc" })))).toEqual([5, 1, 2, 3, 4]);
+    expect(ids(searchCatalog(bots, query({ sort: "rating" })))).toEqual([2, 1, 4, 3, 5]);
+    expect(ids(searchCatalog(bots, query({ sort: "newest" })))).toEqual([5, 4, 3, 2, 1]);
+  });
+
+  it("pages through results with a cursor", () => {
+    const first = searchCatalog(bots, query({ sort: "price_desc", limit: 2 }));
+    expect(ids(first)).toEqual([1, 2]);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = searchCatalog(bots, query({ sort: "price_desc", limit: 2, after: decodeSearchCursor(first.nextCursor!) }));
+    expect(ids(second)).toEqual([3, 4]);
+
+    const third = searchCatalog(bots, query({ sort: "price_desc", limit: 2, after: decodeSearchCursor(second.nextCursor!) }));
+    expect(ids(third)).toEqual([5]);
+    expect(third.nextCursor).toBeNull();
+    expect(third.total).toBe(5);
+  });
+
+  it("keeps paging correctly when a bot on an earlier page is removed", () => {
+    const first = searchCatalog(bots, query({ limit: 2 }));
+    const after = decodeSearchCursor(first.nextCursor!);
+
+    expect(ids(searchCatalog(bots.slice(1), query({ limit: 2, after })))).toEqual([3, 4]);
+  });
+});
+
+describe("decodeSearchCursor", () => {
+  it("rejects cursors it did not produce", () => {
+    expect(decodeSearchCursor("not-a-cursor")).toBeNull();
+    expect(decodeSearchCursor(Buffer.from('{"a":1}').toString("base64url"))).toBeNull();
+  });
+});
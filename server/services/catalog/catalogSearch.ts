@@ -0,0 +1,210 @@
+/**
+ * Bot Marketplace Search
+ * Filters, sorts and pages the published catalog and counts facets for the
+ * filter panel. The catalog is small enough to search in memory.
+ */
+
+import type { BotCatalogEntry } from "../../../drizzle/catalog_schema";
+
+export type CatalogSort = "featured" | "relevance" | "price_asc" | "price_desc" | "rating" | "newest" | "name";
+
+/**
+ * Same shape as the BotFilters built by the marketplace filter panel
+ */
+export interface BotFilters {
+  categories: string[];
+  capabilities: string[];
+  // Monthly price in dollars, inclusive
+  priceRange: [number, number];
+  // Minimum average review rating; 0 includes unrated bots
+  rating: number;
+  searchTerm: string;
+}
+
+export interface CatalogSearchQuery {
+  filters: BotFilters;
+  sort: CatalogSort;
+  limit: number;
+  // Sort key of the last bot on the previous page
+  after: SortKey | null;
+}
+
+export type SearchableBot = Pick<
+  BotCatalogEntry,
+  | "id"
+  | "name"
+  | "description"
+  | "categories"
+  | "capabilities"
+  | "features"
+  | "creatorName"
+  | "monthlyPriceCents"
+  | "ratingAverage"
+  | "sortOrder"
+  | "createdAt"
+>;
+
+export interface CatalogFacets {
+  categories: Record<string, number>;
+  capabilities: Record<string, number>;
+}
+
+export interface CatalogSearchResult<T extends SearchableBot> {
+  bots: T[];
+  nextCursor: string | null;
+  // Bots matching the filters, across all pages
+  total: number;
+  // Published bots before filtering
+  catalogTotal: number;
+  facets: CatalogFacets;
+}
+
+/**
+ * Compared element by element; the bot ID last makes the order total, so
+ * a page boundary never splits or repeats bots with equal values
+ */
+export type SortKey = Array<number | string>;
+
+export function normalizeSearchTerm(term: string): string[] {
+  return term.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * How well a bot matches the search words: name hits outrank description
+ * and feature hits. Zero when any word is missing.
+ */
+export function relevanceScore(bot: SearchableBot, words: string[]): number {
+  const name = bot.name.toLowerCase();
+  const description = bot.description.toLowerCase();
+  const rest = [...bot.features, ...bot.categories, ...bot.capabilities, bot.creatorName]
+    .join(" ")
+    .toLowerCase();
+
+  let score = 0;
+  for (const word of words) {
+    if (name.includes(word)) score += name.split(/\s+/).includes(word) ? 4 : 3;
+    else if (description.includes(word)) score += 2;
+    else if (rest.includes(word)) score += 1;
+    else return 0;
+  }
+  return score;
+}
+
+function matchesCategories(bot: SearchableBot, categories: string[]): boolean {
+  // Any of the selected categories
+  return categories.length === 0 || categories.some((c) => bot.categories.includes(c));
+}
+
+function matchesCapabilities(bot: SearchableBot, capabilities: string[]): boolean {
+  // All of the selected capabilities
+  return capabilities.every((c) => bot.capabilities.includes(c));
+}
+
+function matchesRest(bot: SearchableBot, filters: BotFilters, words: string[]): boolean {
+  const [min, max] = filters.priceRange;
+  const price = bot.monthlyPriceCents / 100;
+  if (price < min || price > max) return false;
+  if (filters.rating > 0 && (bot.ratingAverage ?? 0) < filters.rating) return false;
+  return words.length === 0 || relevanceScore(bot, words) > 0;
+}
+
+export function sortKey(bot: SearchableBot, sort: CatalogSort, words: string[]): SortKey {
+  switch (sort) {
+    case "relevance":
+      return [-relevanceScore(bot, words), bot.sortOrder, bot.id];
+    case "price_asc":
+      return [bot.monthlyPriceCents, bot.id];
+    case "price_desc":
+      return [-bot.monthlyPriceCents, bot.id];
+    case "rating":
+      return [-(bot.ratingAverage ?? 0), bot.id];
+    case "newest":
+      return [-bot.createdAt.getTime(), bot.id];
+    case "name":
+      return [bot.name.toLowerCase(), bot.id];
+    case "featured":
+      return [bot.sortOrder, bot.id];
+  }
+}
+
+export function compareSortKeys(a: SortKey, b: SortKey): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const [x, y] = [a[i], b[i]];
+    if (x === y) continue;
+    if (typeof x === "number" && typeof y === "number") return x - y;
+    return String(x) < String(y) ? -1 : 1;
+  }
+  return a.length - b.length;
+}
+
+export function encodeSearchCursor(key: SortKey): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+/**
+ * Null when the cursor was not produced by encodeSearchCursor
+ */
+export function decodeSearchCursor(cursor: string): SortKey | null {
+  try {
+    const key: unknown = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    return Array.isArray(key) && key.every((v) => typeof v === "number" || typeof v === "string")
+      ? key
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function countValues(bots: SearchableBot[], values: (bot: SearchableBot) => string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const bot of bots) {
+    for (const value of new Set(values(bot))) counts[value] = (counts[value] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * One page of matching bots. Each facet is counted with every other filter
+ * applied but its own, so a count says how many bots ticking that box adds.
+ */
+export function searchCatalog<T extends SearchableBot>(
+  bots: T[],
+  query: CatalogSearchQuery
+): CatalogSearchResult<T> {
+  const { filters } = query;
+  const words = normalizeSearchTerm(filters.searchTerm);
+  // Relevance without search words is the featured order
+  const sort = query.sort === "relevance" && words.length === 0 ? "featured" : query.sort;
+
+  const base = bots.filter((bot) => matchesRest(bot, filters, words));
+  const facets = {
+    categories: countValues(
+      base.filter((bot) => matchesCapabilities(bot, filters.capabilities)),
+      (bot) => bot.categories
+    ),
+    capabilities: countValues(
+      base.filter((bot) => matchesCategories(bot, filters.categories)),
+      (bot) => bot.capabilities
+    ),
+  };
+
+  const matching = base
+    .filter(
+      (bot) => matchesCategories(bot, filters.categories) && matchesCapabilities(bot, filters.capabilities)
+    )
+    .map((bot) => ({ bot, key: sortKey(bot, sort, words) }))
+    .sort((a, b) => compareSortKeys(a.key, b.key));
+
+  const after = query.after;
+  const remaining = after ? matching.filter(({ key }) => compareSortKeys(key, after) > 0) : matching;
+  const page = remaining.slice(0, query.limit);
+  const last = page[page.length - 1];
+
+  return {
+    bots: page.map(({ bot }) => bot),
+    nextCursor: remaining.length > page.length && last ? encodeSearchCursor(last.key) : null,
+    total: matching.length,
+    catalogTotal: bots.length,
+    facets,
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * Bot Catalog Service
+ * Reads and edits the bots the store sells; every store page and checkout
+ * prices from here
+ */
+
+import { getDb } from "../../db";
+import { botCatalog, type BotCatalogEntry } from "../../../drizzle/catalog_schema";
+import { userBotPurchases } from "../../../drizzle/schema";
+import { and, asc, eq, ne, sql } from "drizzle-orm";
+import { logger } from "../../_core/logger";
+import { BOT_CATALOG_SEED, isPurchasable, type CatalogStatus } from "./catalogPolicy";
+import {
+  decodeSearchCursor,
+  searchCatalog,
+  type BotFilters,
+  type CatalogSearchResult,
+  type CatalogSort,
+} from "./catalogSearch";
+
+export class CatalogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CatalogError";
+  }
+}
+
+export type CatalogBotInput = Omit<
+  typeof botCatalog.$inferInsert,
+  "id" | "ratingAverage" | "ratingCount" | "createdAt" | "updatedAt"
+>;
+
+/**
+ * Bots in store order; published ones only unless `includeUnpublished`
+ */
+export async function listCatalogBots(
+  options: { includeUnpublished?: boolean } = {}
+): Promise<BotCatalogEntry[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  return db
+    .select()
+    .from(botCatalog)
+    .where(options.includeUnpublished ? undefined : eq(botCatalog.status, "published"))
+    .orderBy(asc(botCatalog.sortOrder), asc(botCatalog.id));
+}
+
+export async function getCatalogBot(id: number): Promise<BotCatalogEntry | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [bot] = await db.select().from(botCatalog).where(eq(botCatalog.id, id)).limit(1);
+  return bot ?? null;
+}
+
+/**
+ * The catalog entry a checkout is priced from. Throws CatalogError when the
+ * bot is unknown or not for sale.
+ */
+export async function getPurchasableBot(id: number): Promise<BotCatalogEntry> {
+  const bot = await getCatalogBot(id);
+  if (!bot || !isPurchasable(bot)) throw new CatalogError("This bot is not available");
+  return bot;
+}
+
+/**
+ * One page of published bots matching the marketplace filters, with facet
+ * counts. Throws CatalogError for a cursor from somewhere else.
+ */
+export async function searchCatalogBots(search: {
+  filters: BotFilters;
+  sort: CatalogSort;
+  limit: number;
+  cursor?: string;
+}): Promise<CatalogSearchResult<BotCatalogEntry>> {
+  const after = search.cursor ? decodeSearchCursor(search.cursor) : null;
+  if (search.cursor && !after) throw new CatalogError("Invalid cursor");
+
+  const bots = await listCatalogBots();
+  return searchCatalog(bots, { filters: search.filters, sort: search.sort, limit: search.limit, after });
+}
+
+async function assertSlugFree(slug: string, exceptId?: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [existing] = await db
+    .select({ id: botCatalog.id })
+    .from(botCatalog)
+    .where(
+      exceptId === undefined
+        ? eq(botCatalog.slug, slug)
+        : and(eq(botCatalog.slug, slug), ne(botCatalog.id, exceptId))
+    )
+    .limit(1);
+  if (existing) throw new CatalogError(`A bot with slug ${slug} already exists`);
+}
+
+export async function createCatalogBot(input: CatalogBotInput): Promise<BotCatalogEntry> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  await assertSlugFree(input.slug);
+  const [bot] = await db.insert(botCatalog).values(input).returning();
+
+  logger.info(`Catalog bot ${bot.id} (${bot.slug}) created`);
+  return bot;
+}
+
+export async function updateCatalogBot(
+  id: number,
+  changes: Partial<CatalogBotInput>
+): Promise<BotCatalogEntry> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  if (changes.slug !== undefined) await assertSlugFree(changes.slug, id);
+
+  const [bot] = await db
+    .update(botCatalog)
+    .set({ ...changes, updatedAt: new Date() })
+    .where(eq(botCatalog.id, id))
+    .returning();
+  if (!bot) throw new CatalogError("Bot not found");
+
+  logger.info(`Catalog bot ${bot.id} updated: ${Object.keys(changes).join(", ")}`);
+  return bot;
+}
+
+export async function setCatalogBotStatus(id: number, status: CatalogStatus): Promise<BotCatalogEntry> {
+  return updateCatalogBot(id, { status });
+}
+
+/**
+ * Remove a bot nobody has bought; bots with purchases can only be archived
+ */
+export async function deleteCatalogBot(id: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [purchase] = await db
+    .select({ id: userBotPurchases.id })
+    .from(userBotPurchases)
+    .where(eq(userBotPurchases.botId, id))
+    .limit(1);
+  if (purchase) throw new CatalogError("This bot has been purchased; archive it instead");
+
+  const deleted = await db.delete(botCatalog).where(eq(botCatalog.id, id)).returning({ id: botCatalog.id });
+  if (deleted.length === 0) throw new CatalogError("Bot not found");
+
+  logger.info(`Catalog bot ${id} deleted`);
+}
+
+/**
+ * Insert the launch bots that are missing from the catalog. Returns how many
+ * were added.
+ */
+export async function seedBotCatalog(): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const inserted = await db
+    .insert(botCatalog)
+    .values(BOT_CATALOG_SEED)
+    .onConflictDoNothing()
+    .returning({ id: botCatalog.id });
+
+  // The seed sets IDs explicitly; move the sequence past them
+  await db.execute(
+    sql`select setval(pg_get_serial_sequence('bot_catalog', 'id'), (select max(id) from bot_catalog))`
+  );
+
+  logger.info(`Seeded ${inserted.length} catalog bots`);
+  return inserted.length;
+}
@@ -0,0 +1,83 @@
+/**
+ * Tests for creator bot rules
+ */
+
+import { afterEach, describe, it, expect } from "vitest";
+import {
+  DEFAULT_CREATOR_SHARE_PERCENT,
+  canCreatorEdit,
+  checkCreatorPricing,
+  creatorSharePercent,
+  getCreatorSharePercent,
+  transitionSubmission,
+} from "./creatorPolicy";
+
+describe("transitionSubmission", () => {
+  it("moves a draft through review to the store", () => {
+    expect(transitionSubmission("draft", "submit")).toBe("pending_review");
+    expect(transitionSubmission("pending_review", "approve")).toBe("published");
+    expect(transitionSubmission("pending_review", "reject")).toBe("rejected");
+    expect(transitionSubmission("rejected", "submit")).toBe("pending_review");
+  });
+
+  it("lets creators pull a submission or a published bot", () => {
+    expect(transitionSubmission("pending_review", "withdraw")).toBe("draft");
+    expect(transitionSubmission("published", "withdraw")).toBe("archived");
+  });
+
+  it("refuses decisions on bots that are not waiting for review", () => {
+    expect(transitionSubmission("draft", "approve")).toBeNull();
+    expect(transitionSubmission("published", "submit")).toBeNull();
+    expect(transitionSubmission("archived", "submit")).toBeNull();
+    expect(transitionSubmission("unknown", "submit")).toBeNull();
+  });
+});
+
+describe("canCreatorEdit", () => {
+  it("allows edits to drafts and rejected bots only", () => {
+    expect(canCreatorEdit({ status: "draft" })).toBe(true);
+    expect(canCreatorEdit({ status: "rejected" })).toBe(true);
+    expect(canCreatorEdit({ status: "pending_review" })).toBe(false);
+    expect(canCreatorEdit({ status: "published" })).toBe(false);
+  });
+});
+
+describe("checkCreatorPricing", () => {
+  it("accepts prices within the platform bounds", () => {
+    expect(checkCreatorPricing({ monthlyPriceCents: 1999, yearlyPriceCents: 19999 })).toBeNull();
+  });
+
+  it("rejects prices outside the bounds", () => {
+    expect(checkCreatorPricing({ monthlyPriceCents: 99, yearlyPriceCents: 19999 })).toBe(
+      "Monthly price must be between $4.99 and $99.99"
+    );
+    expect(checkCreatorPricing({ monthlyPriceCents: 1999, yearlyPriceCents: 100000 })).toBe(
+      "Yearly price must be between $49.99 and $999.99"
+    );
+  });
+
+  it("rejects yearly plans dearer than twelve months", () => {
+    expect(checkCreatorPricing({ monthlyPriceCents: 499, yearlyPriceCents: 5999 })).toBe(
+      "Yearly price cannot be more than twelve monthly payments"
+    );
+  });
+});
+
+describe("creatorSharePercent", () => {
+  afterEach(() => {
+    delete process.env.CREATOR_REVENUE_SHARE_PERCENT;
+  });
+
+  it("uses the bot's own share when set", () => {
+    expect(creatorSharePercent({ revenueSharePercent: null }, 70)).toBe(70);
+    expect(creatorSharePercent({ revenueSharePercent: 85 }, 70)).toBe(85);
+  });
+
+  it("reads the platform share from the environment", () => {
+    expect(getCreatorSharePercent()).toBe(DEFAULT_CREATOR_SHARE_PERCENT);
+    process.env.CREATOR_REVENUE_SHARE_PERCENT = "80";
+    expect(getCreatorSharePercent()).toBe(80);
+    process.env.CREATOR_REVENUE_SHARE_PERCENT = "150";
+    expect(getCreatorSharePercent()).toBe(DEFAULT_CREATOR_SHARE_PERCENT);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Creator Bot Rules
+ * How a creator's bot moves from draft to the store, the prices creators may
+ * set, and their share of each sale, without touching the database
+ */
+
+import type { BotCatalogEntry } from "../../../drizzle/catalog_schema";
+import type { CatalogStatus } from "./catalogPolicy";
+
+export type SubmissionAction = "submit" | "approve" | "reject" | "withdraw";
+
+/**
+ * draft -> pending_review -> published; a rejected bot can be edited and
+ * submitted again. Withdrawing a pending submission makes it a draft again;
+ * withdrawing a published bot archives it, which keeps it working for
+ * existing subscribers.
+ */
+const SUBMISSION_TRANSITIONS: Record<CatalogStatus, Partial<Record<SubmissionAction, CatalogStatus>>> = {
+  draft: { submit: "pending_review" },
+  rejected: { submit: "pending_review" },
+  pending_review: { approve: "published", reject: "rejected", withdraw: "draft" },
+  published: { withdraw: "archived" },
+  archived: {},
+};
+
+/**
+ * The status `action` leads to, or null when it is not allowed from `from`
+ */
+export function transitionSubmission(from: string, action: SubmissionAction): CatalogStatus | null {
+  return from in SUBMISSION_TRANSITIONS
+    ? (SUBMISSION_TRANSITIONS[from as CatalogStatus][action] ?? null)
+    : null;
+}
+
+/**
+ * Creators edit their bot while it is a draft or after a rejection; a
+ * submitted or published bot changes only through review
+ */
+export function canCreatorEdit(bot: Pick<BotCatalogEntry, "status">): boolean {
+  return bot.status === "draft" || bot.status === "rejected";
+}
+
+export const CREATOR_PRICE_BOUNDS = {
+  monthly: { minCents: 499, maxCents: 9999 },
+  yearly: { minCents: 4999, maxCents: 99999 },
+};
+
+function formatCents(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+/**
+ * What is wrong with a creator's prices, or null when they are within the
+ * platform bounds. A yearly plan may not cost more than twelve months.
+ */
+export function checkCreatorPricing(
+  pricing: Pick<BotCatalogEntry, "monthlyPriceCents" | "yearlyPriceCents">
+): string | null {
+  const { monthly, yearly } = CREATOR_PRICE_BOUNDS;
+  if (pricing.monthlyPriceCents < monthly.minCents || pricing.monthlyPriceCents > monthly.maxCents) {
+    return `Monthly price must be between ${formatCents(monthly.minCents)} and ${formatCents(monthly.maxCents)}`;
+  }
+  if (pricing.yearlyPriceCents < yearly.minCents || pricing.yearlyPriceCents > yearly.maxCents) {
+    return `Yearly price must be between ${formatCents(yearly.minCents)} and ${formatCents(yearly.maxCents)}`;
+  }
+  if (pricing.yearlyPriceCents > pricing.monthlyPriceCents * 12) {
+    return "Yearly price cannot be more than twelve monthly payments";
+  }
+  return null;
+}
+
+export const DEFAULT_CREATOR_SHARE_PERCENT = 70;
+
+/**
+ * Platform-wide creator share from CREATOR_REVENUE_SHARE_PERCENT, 70% by default
+ */
+export function getCreatorSharePercent(): number {
+  const percent = Number(process.env.CREATOR_REVENUE_SHARE_PERCENT);
+  return Number.isFinite(percent) && percent >= 0 && percent <= 100
+    ? percent
+    : DEFAULT_CREATOR_SHARE_PERCENT;
+}
+
+/**
+ * The creator's percentage of a bot's sales, net of processor fees. A bot's
+ * own percentage overrides the platform default.
+ */
+export function creatorSharePercent(
+  bot: Pick<BotCatalogEntry, "revenueSharePercent">,
+  defaultPercent: number = getCreatorSharePercent()
+): number {
+  return bot.revenueSharePercent ?? defaultPercent;
+}
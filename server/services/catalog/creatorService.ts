@@ -0,0 +1,164 @@
+/**
+ * Creator Bot Service
+ * Creators list their own bots: drafts, submission for review and the
+ * admin decision
+ */
+
+import { getDb } from "../../db";
+import { botCatalog, type BotCatalogEntry } from "../../../drizzle/catalog_schema";
+import { asc, desc, eq } from "drizzle-orm";
+import { logger } from "../../_core/logger";
+import {
+  CatalogError,
+  createCatalogBot,
+  deleteCatalogBot,
+  getCatalogBot,
+  updateCatalogBot,
+} from "./catalogService";
+import {
+  canCreatorEdit,
+  checkCreatorPricing,
+  transitionSubmission,
+  type SubmissionAction,
+} from "./creatorPolicy";
+
+export type CreatorBotInput = Pick<
+  BotCatalogEntry,
+  | "slug"
+  | "name"
+  | "description"
+  | "creatorName"
+  | "categories"
+  | "capabilities"
+  | "features"
+  | "monthlyPriceCents"
+  | "yearlyPriceCents"
+> & { icon?: string | null };
+
+// Creator bots list after the launch bots in the featured order
+const CREATOR_BOT_SORT_ORDER = 100;
+
+async function getOwnedBot(userId: number, id: number): Promise<BotCatalogEntry> {
+  const bot = await getCatalogBot(id);
+  if (!bot || bot.creatorUserId !== userId) throw new CatalogError("Bot not found");
+  return bot;
+}
+
+function nextStatus(bot: BotCatalogEntry, action: SubmissionAction) {
+  const status = transitionSubmission(bot.status, action);
+  if (!status) throw new CatalogError(`Cannot ${action} a bot that is ${bot.status.replace(/_/g, " ")}`);
+  return status;
+}
+
+export async function listCreatorBots(userId: number): Promise<BotCatalogEntry[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  return db
+    .select()
+    .from(botCatalog)
+    .where(eq(botCatalog.creatorUserId, userId))
+    .orderBy(desc(botCatalog.updatedAt));
+}
+
+export async function createCreatorBot(userId: number, input: CreatorBotInput): Promise<BotCatalogEntry> {
+  const problem = checkCreatorPricing(input);
+  if (problem) throw new CatalogError(problem);
+
+  return createCatalogBot({
+    ...input,
+    type: "branded",
+    creatorUserId: userId,
+    currency: "usd",
+    status: "draft",
+    sortOrder: CREATOR_BOT_SORT_ORDER,
+  });
+}
+
+export async function updateCreatorBot(
+  userId: number,
+  id: number,
+  changes: Partial<CreatorBotInput>
+): Promise<BotCatalogEntry> {
+  const bot = await getOwnedBot(userId, id);
+  if (!canCreatorEdit(bot)) {
+    throw new CatalogError("Withdraw the bot from review before editing it");
+  }
+
+  const problem = checkCreatorPricing({ ...bot, ...changes });
+  if (problem) throw new CatalogError(problem);
+
+  return updateCatalogBot(id, changes);
+}
+
+/**
+ * Send a draft or rejected bot to the admins for review
+ */
+export async function submitCreatorBot(userId: number, id: number): Promise<BotCatalogEntry> {
+  const bot = await getOwnedBot(userId, id);
+  const status = nextStatus(bot, "submit");
+
+  const problem = checkCreatorPricing(bot);
+  if (problem) throw new CatalogError(problem);
+
+  logger.info(`Creator ${userId} submitted bot ${id} for review`);
+  return updateCatalogBot(id, { status, submittedAt: new Date() });
+}
+
+/**
+ * Take a bot out of review, or out of the store once published
+ */
+export async function withdrawCreatorBot(userId: number, id: number): Promise<BotCatalogEntry> {
+  const bot = await getOwnedBot(userId, id);
+  return updateCatalogBot(id, { status: nextStatus(bot, "withdraw") });
+}
+
+export async function deleteCreatorBot(userId: number, id: number): Promise<void> {
+  const bot = await getOwnedBot(userId, id);
+  if (!canCreatorEdit(bot)) throw new CatalogError("Only drafts and rejected bots can be deleted");
+  await deleteCatalogBot(id);
+}
+
+/**
+ * Submissions waiting for an admin, oldest first
+ */
+export async function listSubmissionQueue(): Promise<BotCatalogEntry[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  return db
+    .select()
+    .from(botCatalog)
+    .where(eq(botCatalog.status, "pending_review"))
+    .orderBy(asc(botCatalog.submittedAt), asc(botCatalog.id));
+}
+
+/**
+ * Approve a submission into the store or send it back with notes.
+ * Approval can set the creator's revenue share for this bot.
+ */
+export async function reviewCreatorBot(
+  adminId: number,
+  id: number,
+  decision: { action: "approve" | "reject"; notes?: string; revenueSharePercent?: number | null }
+): Promise<BotCatalogEntry> {
+  const bot = await getCatalogBot(id);
+  if (!bot) throw new CatalogError("Bot not found");
+  if (decision.action === "reject" && !decision.notes) {
+    throw new CatalogError("Notes are required to reject a bot");
+  }
+
+  const status = nextStatus(bot, decision.action);
+  const reviewed = await updateCatalogBot(id, {
+    status,
+    reviewedAt: new Date(),
+    reviewedBy: adminId,
+    reviewNotes: decision.notes ?? null,
+    ...(decision.action === "approve" && decision.revenueSharePercent !== undefined
+      ? { revenueSharePercent: decision.revenueSharePercent }
+      : {}),
+  });
+
+  logger.info(`Admin ${adminId} ${status === "published" ? "approved" : "rejected"} bot ${id}`);
+  return reviewed;
+}
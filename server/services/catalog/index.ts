@@ -0,0 +1,31 @@
+/**
+ * Bot catalog
+ */
+
+export * from "./catalogPolicy";
+export * from "./catalogSearch";
+export * from "./creatorPolicy";
+export {
+  CatalogError,
+  listCatalogBots,
+  getCatalogBot,
+  getPurchasableBot,
+  searchCatalogBots,
+  createCatalogBot,
+  updateCatalogBot,
+  setCatalogBotStatus,
+  deleteCatalogBot,
+  seedBotCatalog,
+} from "./catalogService";
+export type { CatalogBotInput } from "./catalogService";
+export {
+  listCreatorBots,
+  createCreatorBot,
+  updateCreatorBot,
+  submitCreatorBot,
+  withdrawCreatorBot,
+  deleteCreatorBot,
+  listSubmissionQueue,
+  reviewCreatorBot,
+} from "./creatorService";
+export type { CreatorBotInput } from "./creatorService";
@@ -0,0 +1,116 @@
+/**
+ * Entitlement Service
+ * One answer to "can this user use this product right now, and why"
+ * for Content Master plans, bot subscriptions and song purchases
+ */
+
+import { getDb } from "../../db";
+import {
+  contentMasterPurchases,
+  songPurchases,
+  userBotPurchases,
+} from "../../../drizzle/schema";
+import { and, eq } from "drizzle-orm";
+import { logger } from "../../_core/logger";
+import { getCatalogBot } from "../catalog/catalogService";
+import {
+  evaluateEntitlement,
+  getGracePeriodMs,
+  type Entitlement,
+  type EntitlementRecord,
+  type EntitlementTarget,
+} from "./evaluateEntitlement";
+
+export interface EntitlementSubject {
+  id: number;
+  role?: string | null;
+}
+
+export class EntitlementService {
+  constructor(
+    private readonly graceMs: number = getGracePeriodMs(),
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Admins can use everything and creators their own bots; everyone else
+   * needs a granting purchase
+   */
+  async check(subject: EntitlementSubject, target: EntitlementTarget): Promise<Entitlement> {
+    if (subject.role === "admin") {
+      return { entitled: true, reason: "admin", expiresAt: null };
+    }
+
+    if (target.product === "bot") {
+      const bot = await getCatalogBot(target.botId);
+      if (bot?.creatorUserId === subject.id) {
+        return { entitled: true, reason: "creator", expiresAt: null };
+      }
+    }
+
+    const records = await this.loadRecords(subject.id, target);
+    return evaluateEntitlement(records, this.now(), this.graceMs);
+  }
+
+  async isEntitled(subject: EntitlementSubject, target: EntitlementTarget): Promise<boolean> {
+    try {
+      const entitlement = await this.check(subject, target);
+      return entitlement.entitled;
+    } catch (error) {
+      logger.error("Failed to check entitlement:", error);
+      return false;
+    }
+  }
+
+  private async loadRecords(
+    userId: number,
+    target: EntitlementTarget
+  ): Promise<EntitlementRecord[]> {
+    const db = await getDb();
+    if (!db) throw new Error("Database unavailable");
+
+    switch (target.product) {
+      case "content_master": {
+        const purchases = await db
+          .select()
+          .from(contentMasterPurchases)
+          .where(eq(contentMasterPurchases.userId, userId));
+
+        return purchases.map((p) => ({
+          id: p.id,
+          status: p.status,
+          access: p.planId === "lifetime" ? "lifetime" : "subscription",
+          periodEnd: p.currentPeriodEnd,
+        }));
+      }
+      case "bot": {
+        const purchases = await db
+          .select()
+          .from(userBotPurchases)
+          .where(and(eq(userBotPurchases.userId, userId), eq(userBotPurchases.botId, target.botId)));
+
+        return purchases.map((p) => ({
+          id: p.id,
+          status: p.status,
+          access: "subscription",
+          periodEnd: p.expiryDate,
+        }));
+      }
+      case "song": {
+        const purchases = await db
+          .select()
+          .from(songPurchases)
+          .where(and(eq(songPurchases.userId, userId), eq(songPurchases.songId, target.songId)));
+
+        return purchases.map((p) => ({
+          id: p.id,
+          status: p.status ?? "completed",
+          access: "purchase",
+          periodEnd: null,
+        }));
+      }
+    }
+  }
+}
+
+export const entitlementService = new EntitlementService();
@@ -0,0 +1,135 @@
+/**
+ * Tests for the entitlement rules
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  evaluateEntitlement,
+  evaluateRecord,
+  type EntitlementRecord,
+} from "./evaluateEntitlement";
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date("2024-06-15T12:00:00Z");
+const grace = 3 * DAY;
+
+function record(overrides: Partial<EntitlementRecord> = {}): EntitlementRecord {
+  return {
+    id: 1,
+    status: "active",
+    access: "subscription",
+    periodEnd: new Date(now.getTime() + 10 * DAY),
+    ...overrides,
+  };
+}
+
+describe("evaluateRecord", () => {
+  it("grants an active subscription until the period ends", () => {
+    const result = evaluateRecord(record(), now, grace);
+    expect(result.entitled).toBe(true);
+    expect(result.reason).toBe("active");
+    expect(result.expiresAt).toEqual(new Date(now.getTime() + 10 * DAY));
+  });
+
+  it("reports trials apart from paid subscriptions", () => {
+    const result = evaluateRecord(record({ status: "trialing" }), now, grace);
+    expect(result).toMatchObject({ entitled: true, reason: "trial" });
+    expect(result.expiresAt).toEqual(new Date(now.getTime() + 10 * DAY));
+  });
+
+  it("keeps access during the grace period after a missed renewal", () => {
+    const periodEnd = new Date(now.getTime() - DAY);
+    const result = evaluateRecord(record({ periodEnd }), now, grace);
+    expect(result.entitled).toBe(true);
+    expect(result.reason).toBe("grace_period");
+    expect(result.expiresAt).toEqual(new Date(periodEnd.getTime() + grace));
+  });
+
+  it("expires once the grace period is over", () => {
+    const result = evaluateRecord(
+      record({ periodEnd: new Date(now.getTime() - 4 * DAY) }),
+      now,
+      grace
+    );
+    expect(result).toMatchObject({ entitled: false, reason: "expired" });
+  });
+
+  it("reports suspended subscriptions past their grace period", () => {
+    const result = evaluateRecord(
+      record({ status: "suspended", periodEnd: new Date(now.getTime() - 5 * DAY) }),
+      now,
+      grace
+    );
+    expect(result).toMatchObject({ entitled: false, reason: "suspended" });
+  });
+
+  it("honours a cancellation only at the end of the paid period", () => {
+    expect(evaluateRecord(record({ status: "canceled" }), now, grace)).toMatchObject({
+      entitled: true,
+      reason: "canceled_until_period_end",
+    });
+    expect(
+      evaluateRecord(
+        record({ status: "canceled", periodEnd: new Date(now.getTime() - DAY) }),
+        now,
+        grace
+      )
+    ).toMatchObject({ entitled: false, reason: "canceled" });
+  });
+
+  it("never expires lifetime plans or one-time purchases", () => {
+    expect(
+      evaluateRecord(record({ access: "lifetime", periodEnd: null }), now, grace)
+    ).toMatchObject({ entitled: true, reason: "lifetime", expiresAt: null });
+    expect(
+      evaluateRecord(record({ access: "purchase", status: "completed", periodEnd: null }), now, grace)
+    ).toMatchObject({ entitled: true, reason: "owned", expiresAt: null });
+  });
+
+  it("revokes refunded purchases, including lifetime plans", () => {
+    const result = evaluateRecord(record({ access: "lifetime", status: "refunded" }), now, grace);
+    expect(result).toMatchObject({ entitled: false, reason: "refunded" });
+  });
+
+  it("treats a subscription without a period end as expired", () => {
+    const result = evaluateRecord(record({ periodEnd: null }), now, grace);
+    expect(result).toMatchObject({ entitled: false, reason: "expired" });
+  });
+});
+
+describe("evaluateEntitlement", () => {
+  it("returns none when there are no purchases", () => {
+    expect(evaluateEntitlement([], now, grace)).toEqual({ entitled: false, reason: "none" });
+  });
+
+  it("prefers the longest-lasting granting record", () => {
+    const result = evaluateEntitlement(
+      [
+        record({ id: 1 }),
+        record({ id: 2, access: "lifetime", periodEnd: null }),
+        record({ id: 3, status: "canceled", periodEnd: new Date(now.getTime() + 20 * DAY) }),
+      ],
+      now,
+      grace
+    );
+    expect(result).toMatchObject({ entitled: true, reason: "lifetime", purchaseId: 2 });
+  });
+
+  it("ignores the row order when picking the first row would deny access", () => {
+    const result = evaluateEntitlement(
+      [record({ id: 1, status: "expired" }), record({ id: 2 })],
+      now,
+      grace
+    );
+    expect(result).toMatchObject({ entitled: true, reason: "active", purchaseId: 2 });
+  });
+
+  it("explains a denial with the most recent record", () => {
+    const result = evaluateEntitlement(
+      [record({ id: 4, status: "refunded" }), record({ id: 2, status: "expired" })],
+      now,
+      grace
+    );
+    expect(result).toMatchObject({ entitled: false, reason: "refunded", purchaseId: 4 });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Entitlement Rules
+ * Pure decision of whether purchase records grant access, kept apart from
+ * the database so every product is judged the same way
+ */
+
+export type EntitlementProduct = "content_master" | "bot" | "song";
+
+export type EntitlementTarget =
+  | { product: "content_master" }
+  | { product: "bot"; botId: number }
+  | { product: "song"; songId: number };
+
+export type EntitlementReason =
+  | "admin"
+  | "creator"
+  | "lifetime"
+  | "owned"
+  | "trial"
+  | "active"
+  | "grace_period"
+  | "canceled_until_period_end"
+  | "canceled"
+  | "expired"
+  | "suspended"
+  | "refunded"
+  | "payment_pending"
+  | "payment_failed"
+  | "none";
+
+/**
+ * How a record grants access: a paid period, a lifetime plan, or a
+ * one-time purchase such as a song
+ */
+export type EntitlementAccess = "subscription" | "lifetime" | "purchase";
+
+export interface EntitlementRecord {
+  id: number;
+  status: string;
+  access: EntitlementAccess;
+  periodEnd: Date | null;
+}
+
+export interface Entitlement {
+  entitled: boolean;
+  reason: EntitlementReason;
+  purchaseId?: number;
+  // End of the paid period, null when access never lapses
+  periodEnd?: Date | null;
+  // When access actually stops, including any grace period
+  expiresAt?: Date | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_GRACE_PERIOD_MS = 3 * DAY_MS;
+
+/**
+ * Grace period from ENTITLEMENT_GRACE_DAYS, 3 days by default
+ */
+export function getGracePeriodMs(): number {
+  const raw = process.env.ENTITLEMENT_GRACE_DAYS;
+  if (!raw) return DEFAULT_GRACE_PERIOD_MS;
+
+  const days = Number(raw);
+  return Number.isFinite(days) && days >= 0 ? days * DAY_MS : DEFAULT_GRACE_PERIOD_MS;
+}
+
+/**
+ * Decide what a single purchase record grants at `now`.
+ * A failed renewal keeps access for `graceMs` past the period end so a
+ * retried charge does not lock the customer out.
+ */
+export function evaluateRecord(
+  record: EntitlementRecord,
+  now: Date,
+  graceMs: number
+): Entitlement {
+  const base = { purchaseId: record.id, periodEnd: record.periodEnd };
+  const periodEnd = record.periodEnd;
+
+  switch (record.status) {
+    case "refunded":
+      return { ...base, entitled: false, reason: "refunded" };
+    case "pending":
+      return { ...base, entitled: false, reason: "payment_pending" };
+    case "denied":
+      return { ...base, entitled: false, reason: "payment_failed" };
+    case "expired":
+      return { ...base, entitled: false, reason: "expired" };
+    case "canceled":
+      return periodEnd && periodEnd > now
+        ? { ...base, entitled: true, reason: "canceled_until_period_end", expiresAt: periodEnd }
+        : { ...base, entitled: false, reason: "canceled" };
+    case "trialing":
+    case "active":
+    case "completed":
+    case "suspended":
+      break;
+    default:
+      return { ...base, entitled: false, reason: "none" };
+  }
+
+  if (record.status !== "suspended") {
+    if (record.access === "lifetime") {
+      return { ...base, entitled: true, reason: "lifetime", expiresAt: null };
+    }
+    if (record.access === "purchase") {
+      return { ...base, entitled: true, reason: "owned", expiresAt: null };
+    }
+  }
+
+  if (!periodEnd) {
+    return {
+      ...base,
+      entitled: false,
+      reason: record.status === "suspended" ? "suspended" : "expired",
+    };
+  }
+
+  if (periodEnd > now) {
+    return {
+      ...base,
+      entitled: true,
+      reason: record.status === "trialing" ? "trial" : "active",
+      expiresAt: periodEnd,
+    };
+  }
+
+  const graceEnd = new Date(periodEnd.getTime() + graceMs);
+  if (graceEnd > now) {
+    return { ...base, entitled: true, reason: "grace_period", expiresAt: graceEnd };
+  }
+
+  return {
+    ...base,
+    entitled: false,
+    reason: record.status === "suspended" ? "suspended" : "expired",
+  };
+}
+
+/**
+ * Combine all of a user's records for one product. The longest-lasting
+ * granting record wins; otherwise the most recent record explains why
+ * there is no access.
+ */
+export function evaluateEntitlement(
+  records: EntitlementRecord[],
+  now: Date,
+  graceMs: number
+): Entitlement {
+  if (records.length === 0) {
+    return { entitled: false, reason: "none" };
+  }
+
+  const evaluated = records.map((record) => evaluateRecord(record, now, graceMs));
+
+  const granting = evaluated.filter((entitlement) => entitlement.entitled);
+  if (granting.length > 0) {
+    return granting.reduce((best, candidate) =>
+      lastsLonger(candidate, best) ? candidate : best
+    );
+  }
+
+  return evaluated.reduce((latest, candidate) =>
+    (candidate.purchaseId ?? 0) > (latest.purchaseId ?? 0) ? candidate : latest
+  );
+}
+
+function lastsLonger(a: Entitlement, b: Entitlement) {
+  if (b.expiresAt === null) return false;
+  if (a.expiresAt === null) return true;
+  return (a.expiresAt?.getTime() ?? 0) > (b.expiresAt?.getTime() ?? 0);
+}
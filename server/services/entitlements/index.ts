@@ -0,0 +1,8 @@
+/**
+ * Entitlements
+ */
+
+export * from "./evaluateEntitlement";
+export { EntitlementService, entitlementService } from "./entitlementService";
+export type { EntitlementSubject } from "./entitlementService";
+export { requireEntitlement } from "./requireEntitlement";
@@ -0,0 +1,69 @@
+/**
+ * Entitlement Middleware
+ * Procedures built from requireEntitlement() reject callers without access
+ * and expose the entitlement on ctx.entitlement
+ */
+
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { protectedProcedure } from "../../_core/trpc";
+import { entitlementService } from "./entitlementService";
+import type { EntitlementProduct, EntitlementTarget } from "./evaluateEntitlement";
+
+/**
+ * Product ID for bot and song checks: a fixed ID, or read from the
+ * procedure input. Defaults to input.botId / input.songId.
+ */
+type TargetId = number | ((input: unknown) => number | undefined);
+
+const defaultInputIds = z.object({
+  botId: z.number().optional(),
+  songId: z.number().optional(),
+});
+
+function resolveId(product: EntitlementProduct, id: TargetId | undefined, input: unknown) {
+  if (typeof id === "number") return id;
+  if (typeof id === "function") return id(input);
+
+  const parsed = defaultInputIds.safeParse(input);
+  if (!parsed.success) return undefined;
+  if (product === "bot") return parsed.data.botId;
+  if (product === "song") return parsed.data.songId;
+  return undefined;
+}
+
+function toTarget(product: EntitlementProduct, id: number | undefined): EntitlementTarget | null {
+  if (product === "content_master") return { product };
+  if (id === undefined || !Number.isInteger(id)) return null;
+  return product === "bot" ? { product, botId: id } : { product, songId: id };
+}
+
+/**
+ * e.g. requireEntitlement("content_master"), requireEntitlement("bot")
+ * or requireEntitlement("song", (input) => trackInput.parse(input).trackId)
+ */
+export function requireEntitlement(product: EntitlementProduct, id?: TargetId) {
+  return protectedProcedure.use(async ({ ctx, getRawInput, next }) => {
+    const input = await getRawInput();
+    const target = toTarget(product, resolveId(product, id, input));
+    if (!target) {
+      throw new TRPCError({
+        code: "BAD_REQUEST",
+        message: `A ${product} ID is required`,
+      });
+    }
+
+    const entitlement = await entitlementService.check(ctx.user, target);
+    if (!entitlement.entitled) {
+      throw new TRPCError({
+        code: "FORBIDDEN",
+        message:
+          entitlement.reason === "none"
+            ? "Subscription required"
+            : `Subscription required (${entitlement.reason.replace(/_/g, " ")})`,
+      });
+    }
+
+    return next({ ctx: { entitlement } });
+  });
+}
@@ -0,0 +1,71 @@
+/**
+ * Gift Mailer
+ * Sends gift emails through an HTTP email API (Resend's, unless
+ * GIFT_EMAIL_API_URL points elsewhere), or logs them when none is configured
+ */
+
+import { logger } from "../../_core/logger";
+import type { GiftEmail } from "./giftPolicy";
+
+export interface GiftMailer {
+  send(email: GiftEmail): Promise<void>;
+}
+
+const DEFAULT_EMAIL_API_URL = "https://api.resend.com/emails";
+
+export class HttpGiftMailer implements GiftMailer {
+  constructor(
+    private readonly apiKey: string,
+    private readonly from: string,
+    private readonly apiUrl: string = DEFAULT_EMAIL_API_URL
+  ) {}
+
+  async send(email: GiftEmail): Promise<void> {
+    const response = await fetch(this.apiUrl, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ from: this.from, to: [email.to], subject: email.subject, text: email.text }),
+    });
+    if (!response.ok) {
+      throw new Error(`Email API responded ${response.status}: ${await response.text()}`);
+    }
+  }
+}
+
+/**
+ * For development: the email is written to the log instead of sent
+ */
+export class LogGiftMailer implements GiftMailer {
+  async send(email: GiftEmail): Promise<void> {
+    logger.info(`Gift email to ${email.to} (no GIFT_EMAIL_API_KEY set): ${email.subject}\n${email.text}`);
+  }
+}
+
+let giftMailer: GiftMailer | null = null;
+
+/**
+ * From GIFT_EMAIL_API_KEY and GIFT_EMAIL_FROM, created lazily
+ */
+export function getGiftMailer(): GiftMailer {
+  if (!giftMailer) {
+    const apiKey = process.env.GIFT_EMAIL_API_KEY;
+    giftMailer = apiKey
+      ? new HttpGiftMailer(
+          apiKey,
+          process.env.GIFT_EMAIL_FROM || "Gifted Eternity <gifts@giftedeternity.com>",
+          process.env.GIFT_EMAIL_API_URL || DEFAULT_EMAIL_API_URL
+        )
+      : new LogGiftMailer();
+  }
+  return giftMailer;
+}
+
+/**
+ * Swap the mailer, e.g. for a fake in tests
+ */
+export function setGiftMailer(mailer: GiftMailer | null) {
+  giftMailer = mailer;
+}
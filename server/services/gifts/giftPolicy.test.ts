@@ -0,0 +1,130 @@
+/**
+ * Tests for gift rules
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  checkGiftDetails,
+  generateGiftCode,
+  giftEmail,
+  isGiftDue,
+  normalizeGiftCode,
+  transitionGift,
+} from "./giftPolicy";
+
+const now = new Date("2026-03-15T12:00:00Z");
+
+describe("transitionGift", () => {
+  it("moves a paid gift to the recipient", () => {
+    expect(transitionGift("awaiting_payment", "pay")).toBe("scheduled");
+    expect(transitionGift("scheduled", "deliver")).toBe("sent");
+    expect(transitionGift("sent", "deliver")).toBe("sent");
+    expect(transitionGift("sent", "redeem")).toBe("redeemed");
+    expect(transitionGift("scheduled", "redeem")).toBe("redeemed");
+  });
+
+  it("cancels only paid gifts nobody has redeemed", () => {
+    expect(transitionGift("sent", "cancel")).toBe("canceled");
+    expect(transitionGift("redeemed", "cancel")).toBeNull();
+    expect(transitionGift("awaiting_payment", "cancel")).toBeNull();
+    expect(transitionGift("refunded", "redeem")).toBeNull();
+    expect(transitionGift("unknown", "pay")).toBeNull();
+  });
+});
+
+describe("gift codes", () => {
+  it("generates grouped codes from the unambiguous alphabet", () => {
+    const code = generateGiftCode(() => Buffer.from([0, 1, 2, 3, 31, 32, 33, 255, 8, 9, 10, 11]));
+    expect(code).toBe("ABCD-9AB9-JKLM");
+    expect(generateGiftCode()).toMatch(/^[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}$/);
+  });
+
+  it("accepts codes however they are typed", () => {
+    expect(normalizeGiftCode("k7qm 2xwp 9hrt")).toBe("K7QM-2XWP-9HRT");
+    expect(normalizeGiftCode("K7QM2XWP9HRT")).toBe("K7QM-2XWP-9HRT");
+    expect(normalizeGiftCode("K7QM-2XWP-9HR")).toBeNull();
+    expect(normalizeGiftCode("K7QM-2XWP-9HR0")).toBeNull();
+  });
+});
+
+describe("checkGiftDetails", () => {
+  it("accepts a gift delivered now or within the year", () => {
+    expect(checkGiftDetails({}, now)).toBeNull();
+    expect(
+      checkGiftDetails(
+        { recipientEmail: "a@example.com", message: "Happy birthday!", deliverAt: new Date("2026-12-25") },
+        now
+      )
+    ).toBeNull();
+  });
+
+  it("refuses dates it cannot honour and long messages", () => {
+    const to = "a@example.com";
+    expect(checkGiftDetails({ deliverAt: new Date("2026-12-25") }, now)).toBe(
+      "Add the recipient's email to schedule delivery"
+    );
+    expect(checkGiftDetails({ recipientEmail: to, deliverAt: new Date("2026-03-01") }, now)).toBe(
+      "The delivery date has already passed"
+    );
+    expect(checkGiftDetails({ recipientEmail: to, deliverAt: new Date("2027-06-01") }, now)).toBe(
+      "Gifts can be scheduled up to 365 days ahead"
+    );
+    expect(checkGiftDetails({ message: "x".repeat(501) }, now)).toBe("Keep the message to 500 characters");
+  });
+
+  it("knows when a scheduled gift is due", () => {
+    expect(isGiftDue({ status: "scheduled", deliverAt: null }, now)).toBe(true);
+    expect(isGiftDue({ status: "scheduled", deliverAt: new Date("2026-03-15T11:00:00Z") }, now)).toBe(true);
+    expect(isGiftDue({ status: "scheduled", deliverAt: new Date("2026-03-16") }, now)).toBe(false);
+    expect(isGiftDue({ status: "sent", deliverAt: null }, now)).toBe(false);
+  });
+});
+
+describe("giftEmail", () => {
+  beforeEach(() => {
+    process.env.VITE_FRONTEND_URL = "https://giftedeternity.example";
+  });
+
+  it("carries the message, code and redeem link", () => {
+    const email = giftEmail({
+      recipientEmail: "sam@example.com",
+      recipientName: "Sam",
+      senderName: "Alex",
+      message: "  Happy birthday!  ",
+      productName: "Content Master Lifetime",
+      code: "K7QM-2XWP-9HRT",
+    });
+    expect(email.to).toBe("sam@example.com");
+    expect(email.subject).toBe("Alex sent you a gift on Gifted Eternity");
+    expect(email.text).toBe(
+      [
+        "Hi Sam,",
+        "",
+        "Alex sent you Content Master Lifetime on Gifted Eternity.",
+        "",
+        "Happy birthday!",
+        "",
+        "Redeem it here: https://giftedeternity.example/gifts/redeem?code=K7QM-2XWP-9HRT",
+        "Or enter the code K7QM-2XWP-9HRT after signing in.",
+      ].join("\n")
+    );
+  });
+
+  it("reads naturally without names or a message", () => {
+    const email = giftEmail({
+      recipientEmail: "sam@example.com",
+      recipientName: null,
+      senderName: null,
+      message: null,
+      productName: "a song",
+      code: "K7QM-2XWP-9HRT",
+    });
+    expect(email.subject).toBe("Someone sent you a gift on Gifted Eternity");
+    expect(email.text.split("\n").slice(0, 4)).toEqual([
+      "Hi there,",
+      "",
+      "Someone sent you a song on Gifted Eternity.",
+      "",
+    ]);
+  });
+});
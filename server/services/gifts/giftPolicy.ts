@@ -0,0 +1,156 @@
+/**
+ * Gift Rules
+ * Gift codes, the gift lifecycle, what a buyer may schedule and write, and
+ * the email the recipient receives, without touching the database
+ */
+
+import { randomBytes } from "crypto";
+
+export type GiftStatus =
+  | "awaiting_payment"
+  | "scheduled"
+  | "sent"
+  | "redeemed"
+  | "canceled"
+  | "refunded"
+  | "denied";
+
+export type GiftAction = "pay" | "deliver" | "redeem" | "cancel";
+
+/**
+ * awaiting_payment -> scheduled -> sent -> redeemed. A paid gift can be
+ * redeemed before its delivery date when the buyer shares the code early,
+ * sent again, or canceled (and refunded) until it is redeemed. Refunds and
+ * denied payments reported by the provider end a gift in any status.
+ */
+const GIFT_TRANSITIONS: Record<GiftStatus, Partial<Record<GiftAction, GiftStatus>>> = {
+  awaiting_payment: { pay: "scheduled" },
+  scheduled: { deliver: "sent", redeem: "redeemed", cancel: "canceled" },
+  sent: { deliver: "sent", redeem: "redeemed", cancel: "canceled" },
+  redeemed: {},
+  canceled: {},
+  refunded: {},
+  denied: {},
+};
+
+export function transitionGift(from: string, action: GiftAction): GiftStatus | null {
+  return from in GIFT_TRANSITIONS ? (GIFT_TRANSITIONS[from as GiftStatus][action] ?? null) : null;
+}
+
+// No 0/O or 1/I, so codes survive being read aloud or copied by hand.
+// 32 symbols, so a random byte maps onto one without bias.
+const GIFT_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const GIFT_CODE_GROUPS = 3;
+const GIFT_CODE_GROUP_LENGTH = 4;
+
+/**
+ * A new redeem code, e.g. "K7QM-2XWP-9HRT"
+ */
+export function generateGiftCode(random: (size: number) => Buffer = randomBytes): string {
+  const length = GIFT_CODE_GROUPS * GIFT_CODE_GROUP_LENGTH;
+  const symbols = Array.from(random(length), (byte) => GIFT_CODE_ALPHABET[byte % GIFT_CODE_ALPHABET.length]);
+  return formatGiftCode(symbols.join(""));
+}
+
+function formatGiftCode(symbols: string): string {
+  const groups: string[] = [];
+  for (let start = 0; start < symbols.length; start += GIFT_CODE_GROUP_LENGTH) {
+    groups.push(symbols.slice(start, start + GIFT_CODE_GROUP_LENGTH));
+  }
+  return groups.join("-");
+}
+
+/**
+ * A code as typed by the recipient, in stored form, or null when it cannot
+ * be one of ours. Case, spaces and dashes do not matter.
+ */
+export function normalizeGiftCode(input: string): string | null {
+  const symbols = input.toUpperCase().replace(/[\s-]/g, "");
+  if (symbols.length !== GIFT_CODE_GROUPS * GIFT_CODE_GROUP_LENGTH) return null;
+  if (![...symbols].every((symbol) => GIFT_CODE_ALPHABET.includes(symbol))) return null;
+  return formatGiftCode(symbols);
+}
+
+export const MAX_GIFT_MESSAGE_LENGTH = 500;
+export const MAX_GIFT_SCHEDULE_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * What is wrong with a gift's delivery details, or null when they are fine.
+ * A delivery date needs someone to deliver to, and must be in the coming year.
+ */
+export function checkGiftDetails(
+  details: { recipientEmail?: string | null; message?: string | null; deliverAt?: Date | null },
+  now: Date
+): string | null {
+  if (details.message && details.message.length > MAX_GIFT_MESSAGE_LENGTH) {
+    return `Keep the message to ${MAX_GIFT_MESSAGE_LENGTH} characters`;
+  }
+  if (details.deliverAt) {
+    if (!details.recipientEmail) {
+      return "Add the recipient's email to schedule delivery";
+    }
+    if (details.deliverAt.getTime() < now.getTime()) {
+      return "The delivery date has already passed";
+    }
+    if (details.deliverAt.getTime() > now.getTime() + MAX_GIFT_SCHEDULE_DAYS * DAY_MS) {
+      return `Gifts can be scheduled up to ${MAX_GIFT_SCHEDULE_DAYS} days ahead`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a paid gift should go out now
+ */
+export function isGiftDue(gift: { status: string; deliverAt: Date | null }, now: Date): boolean {
+  return gift.status === "scheduled" && (!gift.deliverAt || gift.deliverAt.getTime() <= now.getTime());
+}
+
+/**
+ * The page a recipient redeems a code on
+ */
+export function giftRedeemUrl(code: string): string {
+  const frontendUrl = process.env.VITE_FRONTEND_URL || "http://localhost:3000";
+  return `${frontendUrl}/gifts/redeem?code=${encodeURIComponent(code)}`;
+}
+
+export interface GiftEmail {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * The email that delivers a gift, with its message, code and redeem link
+ */
+export function giftEmail(gift: {
+  recipientEmail: string;
+  recipientName: string | null;
+  senderName: string | null;
+  message: string | null;
+  productName: string;
+  code: string;
+}): GiftEmail {
+  const sender = gift.senderName?.trim() || "Someone";
+  const lines = [
+    `Hi ${gift.recipientName?.trim() || "there"},`,
+    "",
+    `${sender} sent you ${gift.productName} on Gifted Eternity.`,
+  ];
+  if (gift.message?.trim()) {
+    lines.push("", gift.message.trim());
+  }
+  lines.push(
+    "",
+    `Redeem it here: ${giftRedeemUrl(gift.code)}`,
+    `Or enter the code ${gift.code} after signing in.`
+  );
+
+  return {
+    to: gift.recipientEmail,
+    subject: `${sender} sent you a gift on Gifted Eternity`,
+    text: lines.join("\n"),
+  };
+}
@@ -0,0 +1,564 @@
+/**
+ * Gift Service
+ * Buying a song, bot plan or Content Master plan for someone else, delivering
+ * the code by email (now or on a chosen date), redeeming it into the
+ * recipient's account, and the buyer's resend and cancel
+ */
+
+import { getDb } from "../../db";
+import { contentMasterPurchases, songPurchases, userBotPurchases } from "../../../drizzle/schema";
+import { gifts, type Gift } from "../../../drizzle/gift_schema";
+import { and, desc, eq, inArray, isNull, lte, ne, or } from "drizzle-orm";
+import { logger } from "../../_core/logger";
+import {
+  buildRedirectUrls,
+  decodePaymentReference,
+  encodePaymentReference,
+  getPaymentProvider,
+  type PaymentProviderName,
+} from "../payments";
+import { createLinkedPurchase, findPurchaseLink } from "../payments/purchaseLinks";
+import { entitlementService } from "../entitlements/entitlementService";
+import { recordSale } from "../payouts";
+import { RefundError, refundPurchase } from "../refunds";
+import { describeItems, type DescribedItem } from "../bundles/bundleService";
+import {
+  bundleItemKey,
+  bundleItemPeriodEnd,
+  fromItemColumns,
+  toItemColumns,
+  type BundleItemSpec,
+} from "../bundles/bundlePolicy";
+import { getGiftMailer } from "./giftMailer";
+import {
+  checkGiftDetails,
+  generateGiftCode,
+  giftEmail,
+  isGiftDue,
+  normalizeGiftCode,
+  transitionGift,
+  type GiftStatus,
+} from "./giftPolicy";
+
+export class GiftError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GiftError";
+  }
+}
+
+export interface GiftInput {
+  item: BundleItemSpec;
+  // Leave out to hand the code over yourself
+  recipientEmail?: string | null;
+  recipientName?: string | null;
+  senderName?: string | null;
+  message?: string | null;
+  // Leave out to deliver as soon as the gift is paid
+  deliverAt?: Date | null;
+}
+
+/**
+ * A gift as its buyer sees it
+ */
+export interface SentGiftView {
+  id: number;
+  item: BundleItemSpec | null;
+  productName: string;
+  amountCents: number;
+  currency: string;
+  code: string;
+  recipientEmail: string | null;
+  recipientName: string | null;
+  message: string | null;
+  deliverAt: Date | null;
+  status: GiftStatus;
+  sentAt: Date | null;
+  sendCount: number;
+  redeemedAt: Date | null;
+  canResend: boolean;
+  canCancel: boolean;
+  createdAt: Date;
+}
+
+/**
+ * A gift as its recipient sees it before redeeming
+ */
+export interface GiftPreview {
+  productName: string;
+  senderName: string | null;
+  message: string | null;
+  redeemable: boolean;
+}
+
+export interface DeliveryRunResult {
+  checked: number;
+  sent: number;
+  failed: number;
+}
+
+const GIFT_CURRENCY = "usd";
+
+// Codes are random; a clash with an existing one is retried
+const CODE_ATTEMPTS = 5;
+
+const UNREDEEMED: GiftStatus[] = ["scheduled", "sent"];
+
+async function describeGift(gift: Gift): Promise<{ item: BundleItemSpec; product: DescribedItem } | null> {
+  const item = fromItemColumns(gift);
+  if (!item) return null;
+  const product = (await describeItems([item])).get(bundleItemKey(item));
+  return product ? { item, product } : null;
+}
+
+async function loadGift(giftId: number): Promise<Gift> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [gift] = await db.select().from(gifts).where(eq(gifts.id, giftId)).limit(1);
+  if (!gift) throw new GiftError("Gift not found");
+  return gift;
+}
+
+async function loadBuyerGift(buyerId: number, giftId: number): Promise<Gift> {
+  const gift = await loadGift(giftId);
+  if (gift.buyerId !== buyerId || gift.status === "awaiting_payment") throw new GiftError("Gift not found");
+  return gift;
+}
+
+async function toSentGiftView(gift: Gift): Promise<SentGiftView> {
+  const described = await describeGift(gift);
+  return {
+    id: gift.id,
+    item: described?.item ?? null,
+    productName: described?.product.name ?? "Unavailable product",
+    amountCents: gift.amountCents,
+    currency: gift.currency,
+    code: gift.code,
+    recipientEmail: gift.recipientEmail,
+    recipientName: gift.recipientName,
+    message: gift.message,
+    deliverAt: gift.deliverAt,
+    status: gift.status as GiftStatus,
+    sentAt: gift.sentAt,
+    sendCount: gift.sendCount,
+    redeemedAt: gift.redeemedAt,
+    canResend: Boolean(gift.recipientEmail) && transitionGift(gift.status, "deliver") !== null,
+    canCancel: transitionGift(gift.status, "cancel") !== null,
+    createdAt: gift.createdAt,
+  };
+}
+
+/**
+ * Email the code to the recipient, or just mark the gift sent when the buyer
+ * hands the code over themselves
+ */
+async function deliverGift(gift: Gift): Promise<Gift> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  if (!transitionGift(gift.status, "deliver")) {
+    throw new GiftError(`Cannot send a gift that is ${gift.status}`);
+  }
+
+  if (gift.recipientEmail) {
+    const described = await describeGift(gift);
+    if (!described) throw new GiftError(`Gift ${gift.id} is for a product that no longer exists`);
+    await getGiftMailer().send(
+      giftEmail({
+        recipientEmail: gift.recipientEmail,
+        recipientName: gift.recipientName,
+        senderName: gift.senderName,
+        message: gift.message,
+        productName: described.product.name,
+        code: gift.code,
+      })
+    );
+  }
+
+  // Redeemed or canceled while the email was going out: keep that status
+  const now = new Date();
+  const [updated] = await db
+    .update(gifts)
+    .set({ status: "sent", sentAt: now, sendCount: gift.sendCount + 1, updatedAt: now })
+    .where(and(eq(gifts.id, gift.id), inArray(gifts.status, UNREDEEMED)))
+    .returning();
+
+  logger.info(`Gift ${gift.id} sent${gift.recipientEmail ? ` to ${gift.recipientEmail}` : " (code only)"}`);
+  return updated ?? gift;
+}
+
+/**
+ * Save the gift and start a one-time checkout for it. The gift stays
+ * awaiting_payment, and its code unsent, until the payment is recorded.
+ */
+export async function createGiftCheckout(
+  request: GiftInput & { userId: number; provider?: PaymentProviderName }
+): Promise<{ giftId: number; checkoutId: string; checkoutUrl: string }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const problem = checkGiftDetails(request, new Date());
+  if (problem) throw new GiftError(problem);
+
+  const product = (await describeItems([request.item])).get(bundleItemKey(request.item));
+  if (!product || !product.available) throw new GiftError("This product is not available");
+
+  let gift: Gift | undefined;
+  for (let attempt = 0; !gift && attempt < CODE_ATTEMPTS; attempt++) {
+    [gift] = await db
+      .insert(gifts)
+      .values({
+        buyerId: request.userId,
+        ...toItemColumns(request.item),
+        amountCents: product.listCents,
+        currency: GIFT_CURRENCY,
+        code: generateGiftCode(),
+        recipientEmail: request.recipientEmail || null,
+        recipientName: request.recipientName || null,
+        senderName: request.senderName || null,
+        message: request.message || null,
+        deliverAt: request.deliverAt ?? null,
+      })
+      .onConflictDoNothing({ target: gifts.code })
+      .returning();
+  }
+  if (!gift) throw new Error("Could not generate a unique gift code");
+
+  const checkout = await getPaymentProvider(request.provider).createOrder({
+    amountCents: gift.amountCents,
+    currency: gift.currency,
+    description: `Gift: ${product.name}`,
+    reference: encodePaymentReference({ kind: "gift", userId: request.userId, giftId: gift.id }),
+    ...buildRedirectUrls(`/gifts?giftId=${gift.id}`),
+  });
+
+  logger.info(`Gift checkout ${checkout.id}: User ${request.userId}, Gift ${gift.id}`);
+  return { giftId: gift.id, checkoutId: checkout.id, checkoutUrl: checkout.approvalUrl };
+}
+
+/**
+ * Capture an approved gift checkout and record the payment
+ */
+export async function completeGiftCheckout(
+  userId: number,
+  giftId: number,
+  orderId: string,
+  provider: PaymentProviderName = "paypal"
+) {
+  const payments = getPaymentProvider(provider);
+  // Checked before capturing, so someone else's order is never charged here
+  const order = await payments.getOrderStatus(orderId);
+  const reference = decodePaymentReference(order.reference);
+  if (reference?.kind !== "gift" || reference.userId !== userId || reference.giftId !== giftId) {
+    throw new GiftError("Checkout does not belong to this gift");
+  }
+
+  const capture = await payments.captureOrder(orderId);
+  if (capture.status !== "completed") {
+    throw new GiftError(`Payment ${capture.status}`);
+  }
+
+  return recordGiftPayment({
+    userId,
+    giftId,
+    provider,
+    paymentId: capture.captureId,
+    amountCents: capture.amountCents,
+    currency: capture.currency,
+    paidAt: new Date(),
+  });
+}
+
+/**
+ * Record a paid gift: its provider link, the creator's share on the ledger
+ * and, unless it is scheduled for later, its delivery. Safe to call from both
+ * the return page and the provider webhook.
+ */
+export async function recordGiftPayment(payment: {
+  userId: number;
+  giftId: number;
+  provider: PaymentProviderName;
+  paymentId: string;
+  amountCents: number;
+  currency: string;
+  paidAt: Date;
+}): Promise<{ giftId: number }> {
+  const existing = await findPurchaseLink(payment.provider, payment.paymentId);
+  if (existing) return { giftId: existing.purchaseId };
+
+  const gift = await loadGift(payment.giftId);
+  if (gift.buyerId !== payment.userId) throw new GiftError("Gift not found");
+  if (payment.currency !== gift.currency || payment.amountCents < gift.amountCents) {
+    throw new GiftError(
+      `Payment of ${payment.amountCents} ${payment.currency} does not cover gift ${gift.id}`
+    );
+  }
+  const status = transitionGift(gift.status, "pay");
+  if (!status) throw new GiftError(`Gift ${gift.id} is already ${gift.status}`);
+  const described = await describeGift(gift);
+  const productName = described?.product.name ?? gift.productType;
+
+  const paid = await createLinkedPurchase(
+    {
+      productType: "gift",
+      userId: payment.userId,
+      provider: payment.provider,
+      providerId: payment.paymentId,
+      providerKind: "payment",
+    },
+    async (tx) => {
+      const [row] = await tx
+        .update(gifts)
+        .set({ status, paidAt: payment.paidAt, updatedAt: new Date() })
+        .where(and(eq(gifts.id, gift.id), eq(gifts.status, "awaiting_payment")))
+        .returning();
+      // Paid by another payment meanwhile; the claim on this one is rolled back
+      if (!row) throw new GiftError(`Gift ${gift.id} is already paid`);
+      // Booked with the payment, so a failed booking rolls it back for a retry
+      await recordSale(
+        {
+          product: "gift",
+          purchaseId: gift.id,
+          grossCents: payment.amountCents,
+          currency: payment.currency,
+          provider: payment.provider,
+          paidAt: payment.paidAt,
+          creator: described?.product.creator ?? null,
+          description: `Gift of ${productName} (gift ${gift.id})`,
+        },
+        tx
+      );
+      return row;
+    }
+  );
+  if (!paid) {
+    // Recorded by a concurrent call for the same payment, which also books the sale
+    return { giftId: gift.id };
+  }
+
+  logger.info(`Gift ${gift.id}: User ${payment.userId} bought ${productName}`);
+
+  // The delivery run picks the gift up again if this fails
+  if (isGiftDue(paid, new Date())) {
+    try {
+      await deliverGift(paid);
+    } catch (error) {
+      logger.error(`Failed to deliver gift ${gift.id}:`, error);
+    }
+  }
+
+  return { giftId: gift.id };
+}
+
+/**
+ * Deliver every paid gift whose delivery date has come. Called by the
+ * delivery cron; a failed gift is retried on the next run.
+ */
+export async function deliverDueGifts(now: Date = new Date(), limit = 100): Promise<DeliveryRunResult> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const due = await db
+    .select()
+    .from(gifts)
+    .where(and(eq(gifts.status, "scheduled"), or(isNull(gifts.deliverAt), lte(gifts.deliverAt, now))))
+    .orderBy(gifts.id)
+    .limit(limit);
+
+  const result: DeliveryRunResult = { checked: due.length, sent: 0, failed: 0 };
+  for (const gift of due) {
+    try {
+      await deliverGift(gift);
+      result.sent += 1;
+    } catch (error) {
+      result.failed += 1;
+      logger.error(`Failed to deliver gift ${gift.id}:`, error);
+    }
+  }
+  return result;
+}
+
+/**
+ * The buyer's gifts, newest first, with what they can still do to each
+ */
+export async function listSentGifts(buyerId: number): Promise<SentGiftView[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const rows = await db
+    .select()
+    .from(gifts)
+    .where(and(eq(gifts.buyerId, buyerId), ne(gifts.status, "awaiting_payment")))
+    .orderBy(desc(gifts.id));
+  return Promise.all(rows.map(toSentGiftView));
+}
+
+/**
+ * Send an unredeemed gift again, now, optionally to a corrected address
+ */
+export async function resendGift(
+  buyerId: number,
+  giftId: number,
+  recipientEmail?: string
+): Promise<SentGiftView> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  let gift = await loadBuyerGift(buyerId, giftId);
+  if (!transitionGift(gift.status, "deliver")) {
+    throw new GiftError(`Cannot send a gift that is ${gift.status}`);
+  }
+  if (recipientEmail && recipientEmail !== gift.recipientEmail) {
+    [gift] = await db
+      .update(gifts)
+      .set({ recipientEmail, updatedAt: new Date() })
+      .where(eq(gifts.id, gift.id))
+      .returning();
+  }
+  if (!gift.recipientEmail) throw new GiftError("Add the recipient's email to send this gift");
+
+  return toSentGiftView(await deliverGift(gift));
+}
+
+/**
+ * Take back an unredeemed gift and refund the buyer. The gift is canceled
+ * first so it cannot be redeemed while the refund is in flight.
+ */
+export async function cancelGift(buyerId: number, giftId: number): Promise<SentGiftView> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const gift = await loadBuyerGift(buyerId, giftId);
+  const [canceled] = transitionGift(gift.status, "cancel")
+    ? await db
+        .update(gifts)
+        .set({ status: "canceled", updatedAt: new Date() })
+        .where(and(eq(gifts.id, gift.id), inArray(gifts.status, UNREDEEMED)))
+        .returning()
+    : [];
+  if (!canceled) throw new GiftError("This gift has already been redeemed or canceled");
+
+  try {
+    await refundPurchase({
+      product: "gift",
+      purchaseId: gift.id,
+      reason: "Gift canceled by the buyer",
+      policy: "revoke",
+      refundedBy: buyerId,
+    });
+  } catch (error) {
+    // Nothing was refunded, so the gift can still be redeemed
+    await db
+      .update(gifts)
+      .set({ status: gift.status, updatedAt: new Date() })
+      .where(and(eq(gifts.id, gift.id), eq(gifts.status, "canceled")));
+    if (error instanceof RefundError) throw new GiftError(error.message);
+    throw error;
+  }
+
+  logger.info(`Gift ${gift.id} canceled by user ${buyerId}`);
+  return toSentGiftView(await loadGift(gift.id));
+}
+
+async function findByCode(code: string): Promise<Gift | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const normalized = normalizeGiftCode(code);
+  if (!normalized) return null;
+  const [gift] = await db.select().from(gifts).where(eq(gifts.code, normalized)).limit(1);
+  return gift && gift.status !== "awaiting_payment" ? gift : null;
+}
+
+/**
+ * What a code is for, shown on the redeem page before signing in
+ */
+export async function previewGift(code: string): Promise<GiftPreview | null> {
+  const gift = await findByCode(code);
+  if (!gift) return null;
+
+  const described = await describeGift(gift);
+  return {
+    productName: described?.product.name ?? "Unavailable product",
+    senderName: gift.senderName,
+    message: gift.message,
+    redeemable: Boolean(described) && transitionGift(gift.status, "redeem") !== null,
+  };
+}
+
+/**
+ * Redeem a code into the caller's account: a song purchase, or a bot or
+ * Content Master plan running one term from today
+ */
+export async function redeemGift(
+  userId: number,
+  code: string
+): Promise<{ giftId: number; item: BundleItemSpec; productName: string }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const gift = await findByCode(code);
+  if (!gift) throw new GiftError("That gift code is not valid");
+  if (!transitionGift(gift.status, "redeem")) {
+    throw new GiftError(
+      gift.status === "redeemed" ? "This gift has already been redeemed" : "This gift is no longer valid"
+    );
+  }
+  const described = await describeGift(gift);
+  if (!described) throw new GiftError("This gift is for a product that no longer exists");
+  const { item, product } = described;
+
+  const target =
+    item.product === "song"
+      ? { product: "song" as const, songId: item.songId }
+      : item.product === "bot"
+        ? { product: "bot" as const, botId: item.botId }
+        : { product: "content_master" as const };
+  if (await entitlementService.isEntitled({ id: userId }, target)) {
+    throw new GiftError(`You already have ${product.name}`);
+  }
+
+  const redeemedAt = new Date();
+  await db.transaction(async (tx) => {
+    const [claimed] = await tx
+      .update(gifts)
+      .set({ status: "redeemed", redeemedBy: userId, redeemedAt, updatedAt: redeemedAt })
+      .where(and(eq(gifts.id, gift.id), inArray(gifts.status, UNREDEEMED)))
+      .returning();
+    if (!claimed) throw new GiftError("This gift has already been redeemed");
+
+    const periodEnd = bundleItemPeriodEnd(item, redeemedAt);
+    let purchaseId: number;
+    if (item.product === "song") {
+      const [song] = await tx
+        .insert(songPurchases)
+        .values({ userId, songId: item.songId, status: "completed" })
+        .returning({ id: songPurchases.id });
+      purchaseId = song.id;
+    } else if (item.product === "bot") {
+      const [bot] = await tx
+        .insert(userBotPurchases)
+        .values({ userId, botId: item.botId, expiryDate: periodEnd, status: "active" })
+        .returning({ id: userBotPurchases.id });
+      purchaseId = bot.id;
+    } else {
+      const [plan] = await tx
+        .insert(contentMasterPurchases)
+        .values({
+          userId,
+          planId: item.planId,
+          status: "active",
+          currentPeriodStart: redeemedAt,
+          currentPeriodEnd: periodEnd as Date,
+        })
+        .returning({ id: contentMasterPurchases.id });
+      purchaseId = plan.id;
+    }
+
+    await tx.update(gifts).set({ redeemedPurchaseId: purchaseId }).where(eq(gifts.id, gift.id));
+  });
+
+  logger.info(`Gift ${gift.id} redeemed by user ${userId}`);
+  return { giftId: gift.id, item, productName: product.name };
+}
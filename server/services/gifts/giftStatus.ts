@@ -0,0 +1,51 @@
+/**
+ * Gift Payment Status
+ * A gift's payment backs whatever its redemption created, so a refunded or
+ * denied gift also ends the recipient's access
+ */
+
+import { getDb } from "../../db";
+import { contentMasterPurchases, songPurchases, userBotPurchases } from "../../../drizzle/schema";
+import { gifts } from "../../../drizzle/gift_schema";
+import { and, eq } from "drizzle-orm";
+
+export async function setGiftPaymentStatus(giftId: number, status: string): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  await db.transaction(async (tx) => {
+    const [gift] = await tx
+      .update(gifts)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(gifts.id, giftId))
+      .returning();
+    const purchaseId = gift?.redeemedPurchaseId;
+    if (!purchaseId) return;
+
+    if (gift.productType === "song") {
+      await tx.update(songPurchases).set({ status }).where(eq(songPurchases.id, purchaseId));
+    } else if (gift.productType === "bot") {
+      await tx.update(userBotPurchases).set({ status }).where(eq(userBotPurchases.id, purchaseId));
+    } else {
+      await tx
+        .update(contentMasterPurchases)
+        .set({ status })
+        .where(eq(contentMasterPurchases.id, purchaseId));
+    }
+  });
+}
+
+/**
+ * The gift a song, bot or Content Master purchase was redeemed from, if any
+ */
+export async function findGiftOfPurchase(productType: string, purchaseId: number): Promise<number | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [gift] = await db
+    .select({ id: gifts.id })
+    .from(gifts)
+    .where(and(eq(gifts.productType, productType), eq(gifts.redeemedPurchaseId, purchaseId)))
+    .limit(1);
+  return gift?.id ?? null;
+}
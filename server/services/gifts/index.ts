@@ -0,0 +1,21 @@
+/**
+ * Gifts
+ */
+
+export * from "./giftPolicy";
+export { setGiftPaymentStatus, findGiftOfPurchase } from "./giftStatus";
+export { HttpGiftMailer, LogGiftMailer, getGiftMailer, setGiftMailer } from "./giftMailer";
+export type { GiftMailer } from "./giftMailer";
+export {
+  GiftError,
+  createGiftCheckout,
+  completeGiftCheckout,
+  recordGiftPayment,
+  deliverDueGifts,
+  listSentGifts,
+  resendGift,
+  cancelGift,
+  previewGift,
+  redeemGift,
+} from "./giftService";
+export type { DeliveryRunResult, GiftInput, GiftPreview, SentGiftView } from "./giftService";
@@ -0,0 +1,77 @@
+/**
+ * Tests for splitting entries into chunks
+ */
+
+import { describe, it, expect } from "vitest";
+import { chunkText } from "./chunker";
+
+const sentence = (n: number) => `Sentence number ${n} talks about the topic at some length.`;
+
+describe("chunkText", () => {
+  it("keeps a short text in one chunk", () => {
+    const text = "  Hello there. How are you?\n";
+    expect(chunkText(text)).toEqual([
+      { index: 0, text: "Hello there. How are you?", start: 2, end: 27, page: null, heading: null },
+    ]);
+  });
+
+  it("returns no chunks for empty or blank text", () => {
+    expect(chunkText("")).toEqual([]);
+    expect(chunkText(" \n\n ")).toEqual([]);
+  });
+
+  it("packs whole sentences and records their offsets", () => {
+    const text = Array.from({ length: 20 }, (_, i) => sentence(i + 1)).join(" ");
+    const chunks = chunkText(text, { size: 200, overlap: 0 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(200);
+      expect(text.slice(chunk.start, chunk.end)).toBe(chunk.text);
+      expect(chunk.text).toMatch(/^Sentence number \d+/);
+      expect(chunk.text).toMatch(/length\.$/);
+    }
+    expect(chunks.map((chunk) => chunk.index)).toEqual(chunks.map((_, i) => i));
+    expect(chunks[chunks.length - 1].end).toBe(text.length);
+  });
+
+  it("repeats trailing sentences of a chunk at the start of the next", () => {
+    const text = Array.from({ length: 20 }, (_, i) => sentence(i + 1)).join(" ");
+    const chunks = chunkText(text, { size: 200, overlap: 70 });
+
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].start).toBeLessThan(chunks[i - 1].end);
+      expect(chunks[i - 1].end - chunks[i].start).toBeLessThanOrEqual(70);
+      expect(chunks[i].end).toBeGreaterThan(chunks[i - 1].end);
+    }
+  });
+
+  it("cuts sentences longer than a chunk between words", () => {
+    const text = Array.from({ length: 100 }, (_, i) => `word${i}`).join(" ");
+    const chunks = chunkText(text, { size: 150, overlap: 0 });
+
+    expect(chunks.length).toBeGreaterThan(3);
+    for (const chunk of chunks) {
+      expect(chunk.text.length).toBeLessThanOrEqual(150);
+      expect(chunk.text).toMatch(/^word\d+/);
+      expect(chunk.text).toMatch(/word\d+$/);
+    }
+  });
+
+  it("notes the page and heading each chunk falls under", () => {
+    const text = [
+      "[Page 1]",
+      "# Introduction",
+      "The opening paragraph explains what the guide covers in some detail.",
+      "[Page 2]",
+      "## Setup",
+      "Install the tools first. Then configure them for your project before starting.",
+    ].join("\n");
+    const chunks = chunkText(text, { size: 100, overlap: 0 });
+
+    const setup = chunks.find((chunk) => chunk.text.includes("Install"));
+    expect(setup).toMatchObject({ page: 2, heading: "Setup" });
+    const opening = chunks.find((chunk) => chunk.text.includes("The opening"));
+    expect(opening).toMatchObject({ page: 1, heading: "Introduction" });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Chunker
+ * Splits an entry's text into overlapping passages small enough to embed
+ * and to quote, breaking between sentences where it can. Each chunk keeps
+ * its offsets in the entry's content, its page and the heading above it.
+ */
+
+export interface TextChunk {
+  index: number;
+  text: string;
+  // Offsets in the entry's content, end exclusive
+  start: number;
+  end: number;
+  // From the "[Page N]" markers extracted PDFs carry
+  page: number | null;
+  // Nearest Markdown heading before the chunk
+  heading: string | null;
+}
+
+export interface ChunkOptions {
+  // Longest chunk in characters
+  size?: number;
+  // Characters a chunk repeats from the end of the one before
+  overlap?: number;
+}
+
+export const DEFAULT_CHUNK_SIZE = 1200;
+export const DEFAULT_CHUNK_OVERLAP = 200;
+
+const PAGE_MARKER = /^\[Page (\d+)\]$/;
+const HEADING = /^#{1,6} +(.+?) *$/;
+
+function isMarker(line: string): boolean {
+  return PAGE_MARKER.test(line) || HEADING.test(line);
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+/**
+ * Sentences and lines, without surrounding whitespace; anything longer than
+ * `size` is cut between words
+ */
+function sentenceSpans(text: string, size: number): Span[] {
+  const spans: Span[] = [];
+  const push = (start: number, end: number) => {
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    while (end - start > size) {
+      // Cut at the last space that fits, or mid-word when there is none
+      const space = text.lastIndexOf(" ", start + size);
+      const cut = space > start ? space : start + size;
+      spans.push({ start, end: cut });
+      start = cut;
+      while (start < end && /\s/.test(text[start])) start++;
+    }
+    if (end > start) spans.push({ start, end });
+  };
+
+  const boundary = /(?<=[.!?]["')\]]?)\s+|\n+/g;
+  let start = 0;
+  for (let match = boundary.exec(text); match; match = boundary.exec(text)) {
+    push(start, match.index);
+    start = match.index + match[0].length;
+  }
+  push(start, text.length);
+  return spans;
+}
+
+function markers(text: string, pattern: RegExp): Array<{ at: number; value: string }> {
+  return Array.from(text.matchAll(pattern), (match) => ({ at: match.index ?? 0, value: match[1] }));
+}
+
+function lastBefore<T extends { at: number }>(items: T[], offset: number): T | undefined {
+  let found: T | undefined;
+  for (const item of items) {
+    if (item.at > offset) break;
+    found = item;
+  }
+  return found;
+}
+
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const size = Math.max(100, options.size ?? DEFAULT_CHUNK_SIZE);
+  const overlap = Math.min(Math.max(0, options.overlap ?? DEFAULT_CHUNK_OVERLAP), Math.floor(size / 2));
+  const spans = sentenceSpans(text, size);
+  const pages = markers(text, new RegExp(PAGE_MARKER.source, "gm"));
+  const headings = markers(text, new RegExp(HEADING.source, "gm"));
+
+  const chunks: TextChunk[] = [];
+  let first = 0;
+  while (first < spans.length) {
+    // As many whole sentences as fit
+    let last = first;
+    while (last + 1 < spans.length && spans[last + 1].end - spans[first].start <= size) last++;
+
+    const start = spans[first].start;
+    const end = spans[last].end;
+    // Page and heading of the first passage, past any markers the chunk opens with
+    let body = first;
+    while (body < last && isMarker(text.slice(spans[body].start, spans[body].end))) body++;
+    const page = lastBefore(pages, spans[body].start);
+    chunks.push({
+      index: chunks.length,
+      text: text.slice(start, end),
+      start,
+      end,
+      page: page ? Number(page.value) : null,
+      heading: lastBefore(headings, spans[body].start)?.value ?? null,
+    });
+    if (last + 1 >= spans.length) break;
+
+    // Start the next chunk with the trailing sentences that fit in the overlap
+    let next = last + 1;
+    while (next - 1 > first && end - spans[next - 1].start <= overlap) next--;
+    first = next;
+  }
+  return chunks;
+}
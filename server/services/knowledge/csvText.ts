@@ -0,0 +1,88 @@
+/**
+ * CSV Text
+ * Turns a spreadsheet export into one line per row that names every value's
+ * column, so a row still makes sense when read on its own
+ */
+
+const DELIMITERS = [",", ";", "\t"];
+
+/**
+ * Parses RFC 4180 CSV: quoted fields may hold delimiters, doubled quotes and
+ * line breaks
+ */
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+/**
+ * The delimiter that splits the header line into the most columns
+ */
+export function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0] ?? "";
+  let best = ",";
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    const count = parseCsv(header, delimiter)[0]?.length ?? 0;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+export interface CsvText {
+  text: string;
+  rowCount: number;
+}
+
+export function csvToText(text: string): CsvText {
+  const [header = [], ...rows] = parseCsv(text, detectDelimiter(text));
+  const columns = header.map((name, i) => name.trim() || `Column ${i + 1}`);
+
+  const lines = [`Columns: ${columns.join(", ")}`];
+  rows.forEach((cells, i) => {
+    const values = cells
+      .map((cell, column) => [columns[column] ?? `Column ${column + 1}`, cell.trim()])
+      .filter(([, value]) => value !== "")
+      .map(([name, value]) => `${name}: ${value.replace(/\s+/g, " ")}`);
+    if (values.length > 0) lines.push(`Row ${i + 1}: ${values.join("; ")}`);
+  });
+
+  return { text: columns.length > 0 ? lines.join("\n") : "", rowCount: rows.length };
+}
@@ -0,0 +1,190 @@
+/**
+ * Tests for extracting text from knowledge uploads
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  ExtractionError,
+  MAX_KNOWLEDGE_FILE_BYTES,
+  detectFormat,
+  extractDocument,
+} from "./documentExtraction";
+import { csvToText, parseCsv } from "./csvText";
+import {
+  buildDocx,
+  buildPdf,
+  buildZip,
+  docxParagraph,
+  docxTable,
+  pdfComposite,
+  pdfTextLines,
+} from "./testDocuments";
+
+const PDF = "application/pdf";
+const DOCX = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+describe("detectFormat", () => {
+  it("trusts a specific type, then the name, then the content", () => {
+    const empty = Buffer.alloc(0);
+    expect(detectFormat("notes.bin", "text/csv; charset=utf-8", empty)).toBe("csv");
+    expect(detectFormat("README.md", "text/plain", empty)).toBe("markdown");
+    expect(detectFormat("export.CSV", "", empty)).toBe("csv");
+    expect(detectFormat("scan", "application/octet-stream", Buffer.from("%PDF-1.4"))).toBe("pdf");
+    expect(detectFormat("notes", "text/plain", Buffer.from("hello"))).toBe("text");
+    expect(() => detectFormat("photo.jpg", "image/jpeg", Buffer.from([0xff, 0xd8]))).toThrow(ExtractionError);
+  });
+});
+
+describe("PDF extraction", () => {
+  it("keeps page numbers and line breaks", () => {
+    const pdf = buildPdf([pdfTextLines(["Chapter One", "It was a bright day."]), pdfTextLines(["The End"])]);
+    const document = extractDocument("book.pdf", PDF, pdf);
+
+    expect(document).toMatchObject({ format: "pdf", pageCount: 2 });
+    expect(document.text).toBe("[Page 1]\nChapter One\nIt was a bright day.\n\n[Page 2]\nThe End");
+  });
+
+  it("reads compressed content, object streams and ToUnicode fonts", () => {
+    const content = [
+      pdfTextLines(["Caf\xe9 (menu)"]),
+      `BT /F2 12 Tf 72 700 Td [${pdfComposite("HELLO")} -250 ${pdfComposite("WORLD")}] TJ ET`,
+    ].join("\n");
+    const pdf = buildPdf([content], { compress: true, objectStream: true });
+
+    expect(extractDocument("menu.pdf", PDF, pdf).text).toBe("[Page 1]\nCafé (menu)\nHELLO WORLD");
+  });
+
+  it("skips pages without text and explains scanned files", () => {
+    const pdf = buildPdf(["q 100 0 0 100 0 0 cm Q", pdfTextLines(["Appendix"])]);
+    expect(extractDocument("mixed.pdf", PDF, pdf).text).toBe("[Page 2]\nAppendix");
+
+    expect(() => extractDocument("scan.pdf", PDF, buildPdf(["q Q"]))).toThrow(/scanned and need OCR/);
+  });
+
+  it("refuses encrypted and damaged files", () => {
+    const encrypted = buildPdf([pdfTextLines(["Secret"])], { encrypted: true });
+    expect(() => extractDocument("locked.pdf", PDF, encrypted)).toThrow(
+      "Could not read locked.pdf: Password-protected PDFs are not supported"
+    );
+    expect(() => extractDocument("fake.pdf", PDF, Buffer.from("hello"))).toThrow(
+      "Could not read fake.pdf: Not a PDF file"
+    );
+  });
+});
+
+describe("DOCX extraction", () => {
+  it("keeps headings, list items and tables", () => {
+    const body = [
+      docxParagraph("Employee Handbook", { style: "Title" }),
+      docxParagraph("Leave", { style: "Heading1" }),
+      docxParagraph("Staff get 25 days & public holidays."),
+      docxParagraph("Book a week ahead", { list: true }),
+      docxParagraph("Tell your manager", { list: true }),
+      docxParagraph("History", { style: "Chapter" }),
+      docxTable([
+        ["Year", "Days"],
+        ["2025", "23"],
+      ]),
+    ].join("");
+    const document = extractDocument("handbook.docx", DOCX, buildDocx(body, 3));
+
+    expect(document).toMatchObject({ format: "docx", pageCount: 3 });
+    expect(document.text).toBe(
+      [
+        "# Employee Handbook",
+        "",
+        "# Leave",
+        "",
+        "Staff get 25 days & public holidays.",
+        "",
+        "- Book a week ahead",
+        "",
+        "- Tell your manager",
+        "",
+        "# History",
+        "",
+        "| Year | Days |",
+        "| 2025 | 23 |",
+      ].join("\n")
+    );
+  });
+
+  it("reads stored archives and leaves the page count unknown without app properties", () => {
+    const docx = buildZip(
+      {
+        "word/document.xml": `<w:document><w:body>${docxParagraph("Plain")}</w:body></w:document>`,
+      },
+      true
+    );
+    expect(extractDocument("plain.docx", DOCX, docx)).toMatchObject({ text: "Plain", pageCount: null });
+  });
+
+  it("refuses archives that are not Word documents", () => {
+    const zip = buildZip({ "readme.txt": "hello" });
+    expect(() => extractDocument("archive.docx", DOCX, zip)).toThrow(
+      "Could not read archive.docx: Not a Word document"
+    );
+  });
+
+  it("refuses archives that inflate far beyond the upload limit", () => {
+    const bomb = buildZip({ "word/document.xml": Buffer.alloc(48 * 1024 * 1024, " ") });
+    expect(bomb.length).toBeLessThan(MAX_KNOWLEDGE_FILE_BYTES);
+    expect(() => extractDocument("bomb.docx", DOCX, bomb)).toThrow(
+      "bomb.docx expands to more content than can be read"
+    );
+  });
+});
+
+describe("CSV extraction", () => {
+  it("parses quoted fields with delimiters, quotes and line breaks", () => {
+    expect(parseCsv('a,"b,c","say ""hi"""\r\n"multi\nline",,x\n\n', ",")).toEqual([
+      ["a", "b,c", 'say "hi"'],
+      ["multi\nline", "", "x"],
+    ]);
+  });
+
+  it("writes each row with its column names", () => {
+    const csv = "Name;Age;;Notes\nAlice;30;x;\n\nBob;;;\"Likes\nhiking\"\n";
+    expect(csvToText(csv)).toEqual({
+      text: [
+        "Columns: Name, Age, Column 3, Notes",
+        "Row 1: Name: Alice; Age: 30; Column 3: x",
+        "Row 2: Name: Bob; Notes: Likes hiking",
+      ].join("\n"),
+      rowCount: 2,
+    });
+  });
+
+  it("reads tab-separated files with a byte order mark", () => {
+    const tsv = Buffer.from("\uFEFFSKU\tPrice\nA-1\t9.99\n", "utf8");
+    expect(extractDocument("prices.csv", "text/csv", tsv)).toMatchObject({
+      format: "csv",
+      text: "Columns: SKU, Price\nRow 1: SKU: A-1; Price: 9.99",
+      rowCount: 1,
+    });
+  });
+});
+
+describe("Markdown and text extraction", () => {
+  it("keeps Markdown structure and tidies whitespace", () => {
+    const markdown = "# Title  \r\n\r\n\r\n\r\n- one\r\n- two\r\n<!-- draft -->\r\n| a | b |\r\n";
+    expect(extractDocument("notes.md", "", Buffer.from(markdown)).text).toBe(
+      "# Title\n\n- one\n- two\n\n| a | b |"
+    );
+  });
+
+  it("falls back to Latin-1 and refuses binary files", () => {
+    expect(extractDocument("old.txt", "text/plain", Buffer.from("caf\xe9", "latin1")).text).toBe("café");
+    expect(() => extractDocument("image.txt", "text/plain", Buffer.from([0x89, 0x50, 0x00, 0x01]))).toThrow(
+      "The file is not text"
+    );
+  });
+
+  it("refuses empty, blank and oversized files", () => {
+    expect(() => extractDocument("empty.txt", "text/plain", Buffer.alloc(0))).toThrow("The file is empty");
+    expect(() => extractDocument("blank.md", "", Buffer.from(" \n\n "))).toThrow("No text was found");
+    expect(() => extractDocument("big.txt", "text/plain", Buffer.alloc(10 * 1024 * 1024 + 1, 0x61))).toThrow(
+      "Files can be up to 10MB"
+    );
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Document Extraction
+ * Turns an uploaded knowledge file's raw bytes into clean text: PDFs keep
+ * their page numbers, Word documents their headings, CSVs become one line per
+ * row and Markdown keeps its structure
+ */
+
+import { extname } from "path";
+import { extractPdfText } from "./pdfText";
+import { extractDocxText } from "./docxText";
+import { csvToText } from "./csvText";
+
+export const MAX_KNOWLEDGE_FILE_BYTES = 10 * 1024 * 1024;
+
+export class ExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExtractionError";
+  }
+}
+
+export type DocumentFormat = "pdf" | "docx" | "csv" | "markdown" | "text";
+
+const FORMATS_BY_TYPE: Record<string, DocumentFormat> = {
+  "application/pdf": "pdf",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "text/csv": "csv",
+  "application/csv": "csv",
+  "text/markdown": "markdown",
+  "text/x-markdown": "markdown",
+  "text/plain": "text",
+};
+
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+  ".pdf": "pdf",
+  ".docx": "docx",
+  ".csv": "csv",
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".txt": "text",
+};
+
+/**
+ * The file's format from its declared type, then its name, then its first
+ * bytes; browsers often send CSV and Markdown with no type or a generic one
+ */
+export function detectFormat(
+  fileName: string,
+  mimeType: string | null | undefined,
+  bytes: Buffer
+): DocumentFormat {
+  const declared = FORMATS_BY_TYPE[(mimeType ?? "").split(";")[0].trim().toLowerCase()];
+  if (declared && declared !== "text") return declared;
+
+  const named = FORMATS_BY_EXTENSION[extname(fileName).toLowerCase()];
+  if (named) return named;
+  if (bytes.subarray(0, 5).toString("latin1") === "%PDF-") return "pdf";
+  if (bytes.subarray(0, 2).toString("latin1") === "PK") return "docx";
+  if (declared) return declared;
+  throw new ExtractionError("Upload a PDF, Word (.docx), CSV, Markdown or text file");
+}
+
+/**
+ * UTF-8 (or UTF-16 with a byte order mark), falling back to Latin-1 for
+ * files saved by older tools; binary files are refused
+ */
+export function decodeText(bytes: Buffer): string {
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return bytes.subarray(2).toString("utf16le");
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return Buffer.from(bytes.subarray(2)).swap16().toString("utf16le");
+  }
+  if (bytes.includes(0)) throw new ExtractionError("The file is not text");
+
+  const text = bytes.toString("utf8");
+  const decoded = text.includes("\uFFFD") ? bytes.toString("latin1") : text;
+  return decoded.replace(/^\uFEFF/, "");
+}
+
+/**
+ * Unix line endings, no trailing spaces and at most one blank line in a row;
+ * Markdown headings, lists and tables are left as written
+ */
+export function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/[ \t]+$/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  text: string;
+  // Pages for PDFs and Word documents, when known
+  pageCount: number | null;
+  // Data rows for CSVs
+  rowCount: number | null;
+}
+
+function extract(format: DocumentFormat, bytes: Buffer): ExtractedDocument {
+  switch (format) {
+    case "pdf": {
+      const { pages } = extractPdfText(bytes);
+      const text = pages
+        .map((page, i) => (page ? `[Page ${i + 1}]\n${page}` : ""))
+        .filter(Boolean)
+        .join("\n\n");
+      if (!text) {
+        throw new ExtractionError("The PDF has no selectable text; it may be scanned and need OCR first");
+      }
+      return { format, text, pageCount: pages.length, rowCount: null };
+    }
+    case "docx": {
+      const { text, pageCount } = extractDocxText(bytes);
+      return { format, text: normalizeText(text), pageCount, rowCount: null };
+    }
+    case "csv": {
+      const { text, rowCount } = csvToText(decodeText(bytes));
+      return { format, text, pageCount: null, rowCount };
+    }
+    default:
+      return { format, text: normalizeText(decodeText(bytes)), pageCount: null, rowCount: null };
+  }
+}
+
+export function extractDocument(
+  fileName: string,
+  mimeType: string | null | undefined,
+  bytes: Buffer
+): ExtractedDocument {
+  if (bytes.length === 0) throw new ExtractionError("The file is empty");
+  if (bytes.length > MAX_KNOWLEDGE_FILE_BYTES) throw new ExtractionError("Files can be up to 10MB");
+
+  const format = detectFormat(fileName, mimeType, bytes);
+  let document: ExtractedDocument;
+  try {
+    document = extract(format, bytes);
+  } catch (error) {
+    if (error instanceof ExtractionError) throw error;
+    // zlib stops at the readers' output cap rather than inflate a zip bomb
+    const code = (error as NodeJS.ErrnoException).code;
+    if (error instanceof RangeError && code === "ERR_BUFFER_TOO_LARGE") {
+      throw new ExtractionError(`${fileName} expands to more content than can be read`);
+    }
+    // The format readers throw plain errors on damaged or unsupported files
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ExtractionError(`Could not read ${fileName}: ${reason}`);
+  }
+  if (!document.text) throw new ExtractionError("No text was found in the file");
+  return document;
+}
@@ -0,0 +1,205 @@
+/**
+ * DOCX Text
+ * Reads a Word document's body in-process: unzips word/document.xml and
+ * writes its paragraphs as Markdown-style text, so headings, list items and
+ * table rows keep their shape
+ */
+
+import { inflateRawSync } from "zlib";
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// Four times the largest upload; an entry that inflates further is refused
+const MAX_INFLATED_BYTES = 40 * 1024 * 1024;
+
+/**
+ * Files of a ZIP archive by name, read lazily
+ */
+function readZip(bytes: Buffer): Map<string, () => Buffer> {
+  // The end record sits in the last 22 bytes plus a comment of up to 64 KiB
+  let end = -1;
+  for (let offset = bytes.length - 22; offset >= Math.max(0, bytes.length - 22 - 0xffff); offset--) {
+    if (bytes.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end < 0) throw new Error("Not a ZIP archive");
+
+  const count = bytes.readUInt16LE(end + 10);
+  let offset = bytes.readUInt32LE(end + 16);
+  const files = new Map<string, () => Buffer>();
+  for (let i = 0; i < count && offset + 46 <= bytes.length; i++) {
+    if (bytes.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) break;
+    const method = bytes.readUInt16LE(offset + 10);
+    const compressedSize = bytes.readUInt32LE(offset + 20);
+    const nameLength = bytes.readUInt16LE(offset + 28);
+    const extraLength = bytes.readUInt16LE(offset + 30);
+    const commentLength = bytes.readUInt16LE(offset + 32);
+    const localOffset = bytes.readUInt32LE(offset + 42);
+    const name = bytes.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    files.set(name, () => {
+      if (bytes.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+        throw new Error(`Damaged archive entry ${name}`);
+      }
+      // The local header repeats the name and may carry a different extra field
+      const headerLength = 30 + bytes.readUInt16LE(localOffset + 26) + bytes.readUInt16LE(localOffset + 28);
+      const start = localOffset + headerLength;
+      const data = bytes.subarray(start, start + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return inflateRawSync(data, { maxOutputLength: MAX_INFLATED_BYTES });
+      throw new Error(`Unsupported compression in ${name}`);
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (entity, code: string) => {
+    if (code.startsWith("#x")) return String.fromCodePoint(parseInt(code.slice(2), 16));
+    if (code.startsWith("#")) return String.fromCodePoint(parseInt(code.slice(1), 10));
+    return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }[code] ?? entity;
+  });
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  const match = new RegExp(`${name}="([^"]*)"`).exec(attributes);
+  return match ? decodeEntities(match[1]) : undefined;
+}
+
+/**
+ * Heading level of each paragraph style, from its name ("heading 2") or
+ * outline level, so renamed and translated heading styles still count
+ */
+function headingStyles(stylesXml: string | undefined): Map<string, number> {
+  const levels = new Map<string, number>();
+  if (!stylesXml) return levels;
+
+  const style = /<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g;
+  for (let match = style.exec(stylesXml); match; match = style.exec(stylesXml)) {
+    const id = attribute(match[1], "w:styleId");
+    if (!id) continue;
+    const name = attribute(/<w:name\b([^>]*)\/>/.exec(match[2])?.[1] ?? "", "w:val")?.toLowerCase() ?? "";
+    const outline = /<w:outlineLvl\b[^>]*w:val="(\d)"/.exec(match[2]);
+    const heading = /^heading (\d)$/.exec(name);
+    if (name === "title") {
+      levels.set(id, 1);
+    } else if (heading) {
+      levels.set(id, Number(heading[1]));
+    } else if (outline) {
+      levels.set(id, Number(outline[1]) + 1);
+    }
+  }
+  return levels;
+}
+
+interface Paragraph {
+  text: string;
+  style?: string;
+  outline?: number;
+  listItem: boolean;
+}
+
+function paragraphLine(paragraph: Paragraph, headings: Map<string, number>): string {
+  const text = paragraph.text.replace(/[ \t]+/g, " ").trim();
+  if (!text) return "";
+  const level = paragraph.outline ?? (paragraph.style ? headings.get(paragraph.style) : undefined);
+  if (level) return `${"#".repeat(Math.min(level, 6))} ${text}`;
+  return paragraph.listItem ? `- ${text}` : text;
+}
+
+export interface DocxText {
+  text: string;
+  // As last saved by Word, when it recorded one
+  pageCount: number | null;
+}
+
+export function extractDocxText(bytes: Buffer): DocxText {
+  const files = readZip(bytes);
+  const documentXml = files.get("word/document.xml");
+  if (!documentXml) throw new Error("Not a Word document");
+  const xml = documentXml().toString("utf8");
+  const headings = headingStyles(files.get("word/styles.xml")?.().toString("utf8"));
+
+  const blocks: string[] = [];
+  const paragraphs: Paragraph[] = [];
+  // Cells of the current row of each open table
+  const rows: string[][] = [];
+  let cell: string[] | null = null;
+  let inText = false;
+
+  const tag = /<(\/?)([\w:]+)([^>]*?)(\/?)>|([^<]+)/g;
+  for (let match = tag.exec(xml); match; match = tag.exec(xml)) {
+    const [, closing, name, attributes, selfClosing, text] = match;
+    const paragraph = paragraphs[paragraphs.length - 1];
+
+    if (text !== undefined) {
+      if (inText && paragraph) paragraph.text += decodeEntities(text);
+      continue;
+    }
+    if (closing) {
+      if (name === "w:t") {
+        inText = false;
+      } else if (name === "w:p") {
+        const done = paragraphs.pop();
+        const line = done ? paragraphLine(done, headings) : "";
+        if (cell) {
+          if (line) cell.push(line.replace(/^[-#]+ /, ""));
+        } else if (line) {
+          blocks.push(line);
+        }
+      } else if (name === "w:tc" && cell) {
+        rows[rows.length - 1]?.push(cell.join(" "));
+        cell = null;
+      } else if (name === "w:tr") {
+        const row = rows.pop() ?? [];
+        if (row.some(Boolean)) blocks.push(`| ${row.join(" | ")} |`);
+      }
+      continue;
+    }
+
+    switch (name) {
+      case "w:p":
+        if (!selfClosing) paragraphs.push({ text: "", listItem: false });
+        break;
+      case "w:t":
+        inText = !selfClosing;
+        break;
+      case "w:tab":
+        if (paragraph) paragraph.text += "\t";
+        break;
+      case "w:br":
+      case "w:cr":
+        if (paragraph) paragraph.text += " ";
+        break;
+      case "w:pStyle":
+        if (paragraph) paragraph.style = attribute(attributes, "w:val");
+        break;
+      case "w:outlineLvl": {
+        const level = Number(attribute(attributes, "w:val"));
+        if (paragraph && Number.isInteger(level) && level < 9) paragraph.outline = level + 1;
+        break;
+      }
+      case "w:numPr":
+        if (paragraph) paragraph.listItem = true;
+        break;
+      case "w:tr":
+        if (!selfClosing) rows.push([]);
+        break;
+      case "w:tc":
+        if (!selfClosing) cell = [];
+        break;
+    }
+  }
+
+  const appXml = files.get("docProps/app.xml")?.().toString("utf8") ?? "";
+  const pages = Number(/<Pages>(\d+)<\/Pages>/.exec(appXml)?.[1]);
+  return {
+    // Blank lines between blocks, except between rows of one table
+    text: blocks.join("\n\n").replace(/\|\n\n\|/g, "|\n|"),
+    pageCount: Number.isInteger(pages) && pages > 0 ? pages : null,
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Postgres Knowledge Job Store
+ * Claims and stage changes are conditional updates, so several workers can
+ * share the queue without running an attempt twice
+ */
+
+import { getDb } from "../../db";
+import { knowledgeJobs } from "../../../drizzle/knowledge_schema";
+import { and, asc, count, desc, eq, inArray, isNull, lt, lte, or, sql } from "drizzle-orm";
+import { KNOWLEDGE_JOB_STAGES, type FailureOutcome, type KnowledgeJobStage } from "./knowledgeJobPolicy";
+import {
+  DEFAULT_MAX_ATTEMPTS,
+  type KnowledgeJob,
+  type KnowledgeJobStore,
+  type NewKnowledgeJob,
+} from "./knowledgeJobStore";
+
+const RUNNING = [...KNOWLEDGE_JOB_STAGES];
+
+function runningAttempt(jobId: number, attempt: number) {
+  return and(
+    eq(knowledgeJobs.id, jobId),
+    eq(knowledgeJobs.attempts, attempt),
+    inArray(knowledgeJobs.status, RUNNING)
+  );
+}
+
+export class DrizzleKnowledgeJobStore implements KnowledgeJobStore {
+  async enqueue(job: NewKnowledgeJob, at: Date): Promise<KnowledgeJob> {
+    const db = await getDb();
+    if (!db) throw new Error("Database unavailable");
+
+    const [created] = await db
+      .insert(knowledgeJobs)
+      .values({
+        userId: job.userId,
+        botId: job.botId,
+        entryId: job.entryId,
+        maxAttempts: job.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+        runAfter: at,
+        createdAt: at,
+        updatedAt: at,
+      })
+      .returning();
+    return created;
+  }
+
+  async listReady(now: Date, limit: number): Promise<KnowledgeJob[]> {
+    const db = await getDb();
+    if (!db) throw new Error("Database unavailable");
+
+    return db
+      .select()
+      .from(knowledgeJobs)
+      .where(and(eq(knowledgeJobs.status, "queued"), lte(knowledgeJobs.runAfter, now)))
+      .orderBy(asc(knowledgeJobs.runAfter), asc(knowledgeJobs.id))
+      .limit(limit);
+  }
+
+  async listAbandoned(before: Date): Promise<KnowledgeJob[]> {
+    const db = await getDb();
+    if (!db) throw new Error("Database unavailable");
+
+    return db
+      .select()
+      .from(knowledgeJobs)
+      .where(
+        and(
+          inArray(knowledgeJobs.status, RUNNING),
+          or(isNull(knowledgeJobs.heartbeatAt), lt(knowledgeJobs.heartbeatAt, before))
+        )
+      );
+  }
+
+  async countRunningByBot(): Promise<Map<number, number>> {
+    const db = await getDb();
+    if (!db) throw new Error("Database unavailable");
+
+    const rows = await db
+      .select({ botId: knowledgeJobs.botId, running: count() })
+      .from(knowledgeJobs)
+      .where(inArray(knowledgeJobs.status, RUNNING))
+      .groupBy(knowledgeJobs.botId);
+    return new Map(rows.map((row) => [row.botId, Number(row.running)]));
+  }
+
+  async claim(jobId: number, at: Date): Promise<KnowledgeJob | null> {
+    const db = await getDb();
+    if (!db) throw new Error("Database unavailable");
+
+    const [claimed] = await db
+      .update(knowledgeJobs)
+      .set({
+        status: "extracting",
+        attempts: sql`${knowledgeJobs.attempts} + 1`,
+        heartbeatAt: at,
+        startedAt: at,
+        finishedAt: null,
+        updatedAt: at,
+      })
+      .where(and(eq(knowledgeJobs.id, jobId), eq(knowledgeJobs.status, "queued")))
+      .returning();
+    return claimed ?? null;
+  }
+
+  async advance(jobId: number, attempt: number, stage: KnowledgeJobStage, at: Date): Promise<boolean> {
+    const db = await getDb();
+    if (!db) throw new Error("Database unavailable");
+
+    const updated = await db
+      .update(knowledgeJobs)
+      .set({ status: stage, heartbeatAt: at, updatedAt: at })
+      .where(runningAttempt(jobId, attempt))
+      .returning({ id: knowledgeJobs.id });
+    return updated.length > 0;
+  }
+
+  async complete(jobId: number, attempt: number, at: Date): Promise<void> {
+    const db = await getDb();
+    if (!db) throw new Error("Database unavailable");
+
+    await db
+      .update(knowledgeJobs)
+      .set({ status: "done", error: null, finishedAt: at, updatedAt: at })
+      .where(runningAttempt(jobId, attempt));
+  }
+
+  async fail(
+    jobId: number,
+    attempt: number,
+    outcome: FailureOutcome,
+    error: string,
+    at: Date
+  ): Promise<void> {
+    const db = await getDb();
+    if (!db) throw new Error("Database unavailable");
+
+    await db
+      .update(knowledgeJobs)
+      .set(
+        outcome.status === "queued"
+          ? { status: "queued", error, heartbeatAt: null, runAfter: outcome.runAfter, updatedAt: at }
+          : { status: "failed", error, heartbeatAt: null, finishedAt: at, updatedAt: at }
+      )
+      .where(runningAttempt(jobId, attempt));
+  }
+
+  async listForBot(userId: number, botId: number): Promise<KnowledgeJob[]> {
+    const db = await getDb();
+    if (!db) throw new Error("Database unavailable");
+
+    return db
+      .select()
+      .from(knowledgeJobs)
+      .where(and(eq(knowledgeJobs.userId, userId), eq(knowledgeJobs.botId, botId)))
+      .orderBy(desc(knowledgeJobs.createdAt), desc(knowledgeJobs.id));
+  }
+
+  async findActiveForEntry(entryId: number): Promise<KnowledgeJob | null> {
+    const db = await getDb();
+    if (!db) throw new Error("Database unavailable");
+
+    const [job] = await db
+      .select()
+      .from(knowledgeJobs)
+      .where(
+        and(eq(knowledgeJobs.entryId, entryId), inArray(knowledgeJobs.status, ["queued", ...RUNNING]))
+      )
+      .limit(1);
+    return job ?? null;
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * Postgres Vector Index
+ * Keeps chunks in knowledge_chunks. With KNOWLEDGE_VECTOR_INDEX=pgvector the
+ * database ranks them with pgvector's cosine distance; otherwise the owner's
+ * embedded chunks are loaded and ranked in-process, which needs no extension.
+ */
+
+import { getDb } from "../../db";
+import { knowledgeChunks } from "../../../drizzle/knowledge_schema";
+import { and, asc, eq, getTableColumns, inArray, isNotNull, isNull, ne, or, sql } from "drizzle-orm";
+import type { TextChunk } from "./chunker";
+import {
+  rankChunks,
+  type ChunkEmbedding,
+  type ChunkOwner,
+  type IndexedChunk,
+  type VectorFilter,
+  type VectorHit,
+  type VectorIndex,
+} from "./vectorIndex";
+
+// Everything but the vector, which callers never need back
+const { embedding: _embedding, ...chunkColumns } = getTableColumns(knowledgeChunks);
+
+function ownedBy(filter: VectorFilter) {
+  return and(
+    eq(knowledgeChunks.userId, filter.userId),
+    filter.botId === undefined
+      ? undefined
+      : filter.botId === null
+        ? isNull(knowledgeChunks.botId)
+        : eq(knowledgeChunks.botId, filter.botId),
+    filter.entryIds ? inArray(knowledgeChunks.entryId, filter.entryIds) : undefined
+  );
+}
+
+export class DrizzleVectorIndex implements VectorIndex {
+  constructor(private readonly pgvector = process.env.KNOWLEDGE_VECTOR_INDEX === "pgvector") {}
+
+  async replaceChunks(owner: ChunkOwner, chunks: TextChunk[]): Promise<IndexedChunk[]> {
+    const db = await getDb();
+    if (!db) throw new Error("Database unavailable");
+
+    return db.transaction(async (tx) => {
+      await tx.delete(knowledgeChunks).where(eq(knowledgeChunks.entryId, owner.entryId));
+      if (chunks.length === 0) return [];
+      return tx
+        .insert(knowledgeChunks)
+        .values(
+          chunks.map((chunk) => ({
+            entryId: owner.entryId,
+            userId: owner.userId,
+            botId: owner.botId,
+            chunkIndex: chunk.index,
+            content: chunk.text,
+            startOffset: chunk.start,
+            endOffset: chunk.end,
+            page: chunk.page,
+            heading: chunk.heading,
+          }))
+        )
+        .returning(chunkColumns);
+    });
+  }
+
+  async listUnembedded(entryId: number, model: string, limit: number): Promise<IndexedChunk[]> {
+    const db = await getDb();
+    if (!db) throw new Error("Database unavailable");
+
+    return db
+      .select(chunkColumns)
+      .from(knowledgeChunks)
+      .where(
+        and(
+          eq(knowledgeChunks.entryId, entryId),
+          or(
+            isNull(knowledgeChunks.embedding),
+            isNull(knowledgeChunks.embeddingModel),
+            ne(knowledgeChunks.embeddingModel, model)
+          )
+        )
+      )
+      .orderBy(asc(knowledgeChunks.chunkIndex))
+      .limit(limit);
+  }
+
+  async setEmbeddings(model: string, embeddings: ChunkEmbedding[]): Promise<void> {
+    const db = await getDb();
+    if (!db) throw new Error("Database unavailable");
+
+    await db.transaction(async (tx) => {
+      for (const { chunkId, embedding } of embeddings) {
+        await tx
+          .update(knowledgeChunks)
+          .set({ embeddingModel: model, embedding })
+          .where(eq(knowledgeChunks.id, chunkId));
+      }
+    });
+  }
+
+  async removeEntry(entryId: number): Promise<void> {
+    const db = await getDb();
+    if (!db) throw new Error("Database unavailable");
+
+    await db.delete(knowledgeChunks).where(eq(knowledgeChunks.entryId, entryId));
+  }
+
+  async indexedEntryIds(entryIds: number[]): Promise<number[]> {
+    if (entryIds.length === 0) return [];
+    const db = await getDb();
+    if (!db) throw new Error("Database unavailable");
+
+    const rows = await db
+      .selectDistinct({ entryId: knowledgeChunks.entryId })
+      .from(knowledgeChunks)
+      .where(inArray(knowledgeChunks.entryId, entryIds));
+    return rows.map((row) => row.entryId);
+  }
+
+  async listChunks(filter: VectorFilter): Promise<IndexedChunk[]> {
+    const db = await getDb();
+    if (!db) throw new Error("Database unavailable");
+
+    return db
+      .select(chunkColumns)
+      .from(knowledgeChunks)
+      .where(ownedBy(filter))
+      .orderBy(asc(knowledgeChunks.entryId), asc(knowledgeChunks.chunkIndex));
+  }
+
+  async search(query: number[], model: string, filter: VectorFilter, limit: number): Promise<VectorHit[]> {
+    const db = await getDb();
+    if (!db) throw new Error("Database unavailable");
+
+    const where = and(
+      eq(knowledgeChunks.embeddingModel, model),
+      isNotNull(knowledgeChunks.embedding),
+      ownedBy(filter)
+    );
+    if (!this.pgvector) {
+      const chunks = await db.select().from(knowledgeChunks).where(where);
+      return rankChunks(chunks, query, limit);
+    }
+
+    const distance = sql<number>`(${knowledgeChunks.embedding}::vector <=> ${JSON.stringify(query)}::vector)`;
+    const rows = await db
+      .select({ ...chunkColumns, distance })
+      .from(knowledgeChunks)
+      .where(where)
+      .orderBy(distance, asc(knowledgeChunks.id))
+      .limit(limit);
+    return rows.map(({ distance: rowDistance, ...chunk }) => ({ chunk, score: 1 - Number(rowDistance) }));
+  }
+}
+
+let vectorIndex: VectorIndex | null = null;
+
+export function getVectorIndex(): VectorIndex {
+  if (!vectorIndex) vectorIndex = new DrizzleVectorIndex();
+  return vectorIndex;
+}
+
+/**
+ * Swap the index, e.g. for the in-memory one in tests
+ */
+export function setVectorIndex(index: VectorIndex | null) {
+  vectorIndex = index;
+}
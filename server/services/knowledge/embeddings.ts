@@ -0,0 +1,139 @@
+/**
+ * Embeddings
+ * Turns passages and queries into vectors, either through an
+ * OpenAI-compatible embeddings API or locally by hashing words into a fixed
+ * number of dimensions, which needs no network and gives the same vector for
+ * the same text every time
+ */
+
+import { tokenize } from "./textTokens";
+
+export interface EmbeddingProvider {
+  // Stored with each vector; vectors of different models are never compared
+  readonly model: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export const DEFAULT_LOCAL_DIMENSIONS = 512;
+
+// FNV-1a, so a word lands in the same dimension in every process
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+export function normalizeVector(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+/**
+ * Words and adjacent word pairs hashed into signed buckets, weighted by
+ * 1 + log(term frequency) and scaled to unit length. Passages sharing words
+ * score high; it knows nothing of synonyms.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+
+  constructor(readonly dimensions: number = DEFAULT_LOCAL_DIMENSIONS) {
+    this.model = `local-hash-${dimensions}`;
+  }
+
+  embedOne(text: string): number[] {
+    const tokens = tokenize(text);
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) ?? 0) + weight);
+    tokens.forEach((token, i) => {
+      add(token, 1);
+      // Pairs count for less, so a shared word still matters most
+      if (i > 0) add(`${tokens[i - 1]} ${token}`, 0.5);
+    });
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const h = hash(feature);
+      const sign = h & 0x80000000 ? -1 : 1;
+      vector[h % this.dimensions] += sign * (1 + Math.log(count));
+    }
+    return normalizeVector(vector);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+}
+
+const DEFAULT_EMBEDDING_API_URL = "https://api.openai.com/v1/embeddings";
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+const EMBEDDING_BATCH_SIZE = 64;
+
+/**
+ * OpenAI's embeddings endpoint, or any service that speaks its format
+ */
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    private readonly apiKey: string,
+    readonly model: string = DEFAULT_EMBEDDING_MODEL,
+    readonly dimensions: number = 1536,
+    private readonly apiUrl: string = DEFAULT_EMBEDDING_API_URL
+  ) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+      const response = await fetch(this.apiUrl, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: this.model,
+          input: texts.slice(start, start + EMBEDDING_BATCH_SIZE),
+          dimensions: this.dimensions,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Embedding API responded ${response.status}: ${await response.text()}`);
+      }
+      const body = (await response.json()) as { data: Array<{ index: number; embedding: number[] }> };
+      const batch = [...body.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+      vectors.push(...batch);
+    }
+    return vectors;
+  }
+}
+
+let embeddingProvider: EmbeddingProvider | null = null;
+
+/**
+ * From EMBEDDING_API_KEY (with EMBEDDING_MODEL, EMBEDDING_DIMENSIONS and
+ * EMBEDDING_API_URL), or the local provider when no key is set
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!embeddingProvider) {
+    const apiKey = process.env.EMBEDDING_API_KEY;
+    const dimensions = Number(process.env.EMBEDDING_DIMENSIONS);
+    embeddingProvider = apiKey
+      ? new HttpEmbeddingProvider(
+          apiKey,
+          process.env.EMBEDDING_MODEL || DEFAULT_EMBEDDING_MODEL,
+          Number.isInteger(dimensions) && dimensions > 0 ? dimensions : 1536,
+          process.env.EMBEDDING_API_URL || DEFAULT_EMBEDDING_API_URL
+        )
+      : new HashingEmbeddingProvider();
+  }
+  return embeddingProvider;
+}
+
+/**
+ * Swap the provider, e.g. for a fake in tests
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null) {
+  embeddingProvider = provider;
+}
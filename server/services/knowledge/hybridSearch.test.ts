@@ -0,0 +1,136 @@
+/**
+ * Tests for keyword ranking, rank fusion and snippets
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  bm25Rank,
+  fuseRankings,
+  highlightSnippet,
+  paginate,
+  queryTerms,
+  reciprocalRankFusion,
+} from "./hybridSearch";
+import { stemWord } from "./textTokens";
+
+describe("keyword terms", () => {
+  it("strips common English suffixes", () => {
+    expect(["tomatoes", "tomato", "pruning", "prune", "berries", "watered", "boxes"].map(stemWord)).toEqual([
+      "tomato",
+      "tomato",
+      "prun",
+      "prun",
+      "berry",
+      "water",
+      "box",
+    ]);
+    expect(stemWord("class")).toBe("class");
+    expect(stemWord("bus")).toBe("bus");
+  });
+
+  it("drops stopwords and repeats from the query", () => {
+    expect(queryTerms("The tomatoes and THE tomato")).toEqual(["tomato"]);
+  });
+});
+
+describe("bm25Rank", () => {
+  const documents = [
+    { id: 1, text: "Tomatoes need sun. Water tomatoes every morning." },
+    { id: 2, text: "Bread needs a hot oven." },
+    { id: 3, text: "A long note that mentions a tomato once among many other words about the garden shed." },
+  ];
+
+  it("ranks documents by matching terms and leaves out the rest", () => {
+    const ranked = bm25Rank("tomato", documents);
+    expect(ranked.map((item) => item.id)).toEqual([1, 3]);
+    expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+  });
+
+  it("weighs rare terms above common ones", () => {
+    const ranked = bm25Rank("tomato oven", [...documents, { id: 4, text: "Tomato soup" }]);
+    expect(ranked[0].id).toBe(2);
+  });
+
+  it("finds nothing for a query of stopwords", () => {
+    expect(bm25Rank("the and of", documents)).toEqual([]);
+  });
+});
+
+describe("reciprocal rank fusion", () => {
+  it("adds 1 / (60 + rank) from each ranking", () => {
+    const fused = reciprocalRankFusion([
+      [
+        { id: 1, score: 9 },
+        { id: 2, score: 5 },
+      ],
+      [
+        { id: 2, score: 0.9 },
+        { id: 3, score: 0.8 },
+      ],
+    ]);
+
+    expect(fused.map((item) => item.id)).toEqual([2, 1, 3]);
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 61, 10);
+    expect(fused[1].score).toBeCloseTo(1 / 61, 10);
+    expect(fused[2].score).toBeCloseTo(1 / 62, 10);
+  });
+
+  it("keeps each side's score and caps chunks per entry", () => {
+    const entries = new Map([
+      [1, 10],
+      [2, 10],
+      [3, 10],
+      [4, 20],
+    ]);
+    const hits = fuseRankings(
+      [
+        { id: 1, score: 4 },
+        { id: 2, score: 3 },
+        { id: 3, score: 2 },
+      ],
+      [{ id: 4, score: 0.5 }],
+      (id) => entries.get(id) ?? 0,
+      2
+    );
+
+    expect(hits.map((hit) => hit.id)).toEqual([1, 4, 2]);
+    expect(hits[0]).toMatchObject({ keywordScore: 4, vectorScore: null });
+    expect(hits[1]).toMatchObject({ keywordScore: null, vectorScore: 0.5 });
+  });
+});
+
+describe("highlightSnippet", () => {
+  it("marks matching words in short text", () => {
+    const snippet = highlightSnippet("Water the tomatoes daily.", "tomato watering");
+    expect(snippet.text).toBe("Water the tomatoes daily.");
+    expect(snippet.highlights.map((h) => snippet.text.slice(h.start, h.end))).toEqual(["Water", "tomatoes"]);
+  });
+
+  it("cuts long text around the matches at word boundaries", () => {
+    const filler = (word: string) => Array.from({ length: 40 }, () => word).join(" ");
+    const text = `${filler("lorem")} Prune the tomato shoots weekly. ${filler("ipsum")}`;
+    const snippet = highlightSnippet(text, "pruning tomatoes", 100);
+
+    expect(snippet.text.startsWith("...")).toBe(true);
+    expect(snippet.text.endsWith("...")).toBe(true);
+    expect(snippet.text.length).toBeLessThanOrEqual(106);
+    expect(snippet.text).toContain("Prune the tomato shoots");
+    expect(snippet.text).toMatch(/^\.\.\.(lorem )+Prune/);
+    expect(snippet.text).toMatch(/weekly\.( ipsum)+\.\.\.$/);
+    expect(snippet.highlights.map((h) => snippet.text.slice(h.start, h.end))).toEqual(["Prune", "tomato"]);
+  });
+
+  it("starts at the beginning when nothing matches", () => {
+    const snippet = highlightSnippet("a ".repeat(200), "tomato", 50);
+    expect(snippet.text.startsWith("a a")).toBe(true);
+    expect(snippet.highlights).toEqual([]);
+  });
+});
+
+describe("paginate", () => {
+  it("slices a page and counts pages", () => {
+    const items = [1, 2, 3, 4, 5];
+    expect(paginate(items, 2, 2)).toEqual({ items: [3, 4], total: 5, page: 2, pageSize: 2, totalPages: 3 });
+    expect(paginate([], 1, 10)).toEqual({ items: [], total: 0, page: 1, pageSize: 10, totalPages: 1 });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Hybrid Search
+ * Ranks chunks by BM25 keyword score and by vector similarity, fuses the two
+ * rankings with reciprocal rank fusion, and cuts highlighted snippets. No
+ * I/O, so the ranking can be tested on its own.
+ */
+
+import { stemWord, tokenSpans, tokenize } from "./textTokens";
+
+// Dampens the lead of the top ranks; 60 is the value from the original RRF paper
+export const RRF_K = 60;
+export const BM25_K1 = 1.2;
+export const BM25_B = 0.75;
+export const DEFAULT_SNIPPET_LENGTH = 240;
+
+export interface KeywordDocument {
+  id: number;
+  text: string;
+}
+
+export interface RankedId {
+  id: number;
+  score: number;
+}
+
+export interface FusedHit {
+  id: number;
+  // Reciprocal rank fusion score
+  score: number;
+  // Null when the chunk was not in that ranking
+  keywordScore: number | null;
+  vectorScore: number | null;
+}
+
+export interface Highlight {
+  start: number;
+  end: number;
+}
+
+export interface Snippet {
+  text: string;
+  // Matched words, as offsets in `text`
+  highlights: Highlight[];
+}
+
+export function queryTerms(query: string): string[] {
+  return [...new Set(tokenize(query).map(stemWord))];
+}
+
+const byScore = (a: RankedId, b: RankedId) => b.score - a.score || a.id - b.id;
+
+/**
+ * Documents containing any query term, best BM25 score first
+ */
+export function bm25Rank(query: string, documents: KeywordDocument[]): RankedId[] {
+  const terms = queryTerms(query);
+  if (terms.length === 0 || documents.length === 0) return [];
+
+  const counted = documents.map((document) => {
+    const counts = new Map<string, number>();
+    const tokens = tokenize(document.text);
+    for (const token of tokens) {
+      const stem = stemWord(token);
+      counts.set(stem, (counts.get(stem) ?? 0) + 1);
+    }
+    return { id: document.id, counts, length: tokens.length };
+  });
+  const averageLength = counted.reduce((sum, document) => sum + document.length, 0) / counted.length || 1;
+  const idf = new Map(
+    terms.map((term) => {
+      const containing = counted.filter((document) => document.counts.has(term)).length;
+      return [term, Math.log(1 + (counted.length - containing + 0.5) / (containing + 0.5))];
+    })
+  );
+
+  const ranked: RankedId[] = [];
+  for (const document of counted) {
+    let score = 0;
+    for (const term of terms) {
+      const frequency = document.counts.get(term) ?? 0;
+      if (frequency === 0) continue;
+      const norm = BM25_K1 * (1 - BM25_B + (BM25_B * document.length) / averageLength);
+      score += (idf.get(term) ?? 0) * ((frequency * (BM25_K1 + 1)) / (frequency + norm));
+    }
+    if (score > 0) ranked.push({ id: document.id, score });
+  }
+  return ranked.sort(byScore);
+}
+
+/**
+ * Each ranking contributes 1 / (k + rank) for every id it holds, rank
+ * counted from 1
+ */
+export function reciprocalRankFusion(rankings: RankedId[][], k: number = RRF_K): RankedId[] {
+  const fused = new Map<number, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((item, i) => fused.set(item.id, (fused.get(item.id) ?? 0) + 1 / (k + i + 1)));
+  }
+  return Array.from(fused, ([id, score]) => ({ id, score })).sort(byScore);
+}
+
+/**
+ * Fused ranking of keyword and vector results, keeping at most `perEntry`
+ * chunks of any one entry so a long document cannot fill every page
+ */
+export function fuseRankings(
+  keyword: RankedId[],
+  vector: RankedId[],
+  entryOf: (chunkId: number) => number,
+  perEntry: number = Infinity
+): FusedHit[] {
+  const keywordScores = new Map(keyword.map((item) => [item.id, item.score]));
+  const vectorScores = new Map(vector.map((item) => [item.id, item.score]));
+  const taken = new Map<number, number>();
+
+  const hits: FusedHit[] = [];
+  for (const { id, score } of reciprocalRankFusion([keyword, vector])) {
+    const entryId = entryOf(id);
+    const count = taken.get(entryId) ?? 0;
+    if (count >= perEntry) continue;
+    taken.set(entryId, count + 1);
+    hits.push({
+      id,
+      score,
+      keywordScore: keywordScores.get(id) ?? null,
+      vectorScore: vectorScores.get(id) ?? null,
+    });
+  }
+  return hits;
+}
+
+/**
+ * The stretch of text holding the most query words, cut at word boundaries,
+ * with those words marked
+ */
+export function highlightSnippet(text: string, query: string, maxLength = DEFAULT_SNIPPET_LENGTH): Snippet {
+  const terms = new Set(queryTerms(query));
+  const matches = tokenSpans(text).filter((span) => terms.has(stemWord(span.token)));
+
+  // Start a little before the match that has the most others within reach
+  let start = 0;
+  let anchor = text.length;
+  if (text.length > maxLength && matches.length > 0) {
+    let best = 0;
+    let bestCount = 0;
+    for (let i = 0; i < matches.length; i++) {
+      const reach = matches[i].start + maxLength * 0.8;
+      const count = matches.slice(i).filter((match) => match.end <= reach).length;
+      if (count > bestCount) {
+        best = i;
+        bestCount = count;
+      }
+    }
+    anchor = matches[best].start;
+    start = Math.max(0, Math.min(anchor - Math.floor(maxLength * 0.2), text.length - maxLength));
+  }
+  let end = Math.min(text.length, start + maxLength);
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    if (space >= 0 && space < anchor) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > start) end = space;
+  }
+
+  const prefix = start > 0 ? "..." : "";
+  const suffix = end < text.length ? "..." : "";
+  const body = text.slice(start, end).replace(/\s/g, " ");
+  const shift = prefix.length - start;
+  return {
+    text: `${prefix}${body}${suffix}`,
+    highlights: matches
+      .filter((match) => match.start >= start && match.end <= end)
+      .map((match) => ({ start: match.start + shift, end: match.end + shift })),
+  };
+}
+
+export function paginate<T>(items: T[], page: number, pageSize: number) {
+  const totalPages = Math.max(1, Math.ceil(items.length / pageSize));
+  return {
+    items: items.slice((page - 1) * pageSize, page * pageSize),
+    total: items.length,
+    page,
+    pageSize,
+    totalPages,
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Knowledge
+ */
+
+export * from "./documentExtraction";
+export * from "./knowledgeJobPolicy";
+export * from "./knowledgeJobStore";
+export { extractPdfText } from "./pdfText";
+export type { PdfText } from "./pdfText";
+export { extractDocxText } from "./docxText";
+export type { DocxText } from "./docxText";
+export { csvToText, detectDelimiter, parseCsv } from "./csvText";
+export type { CsvText } from "./csvText";
+export {
+  DEFAULT_KNOWLEDGE_STORAGE_DIR,
+  getKnowledgeStorage,
+  getKnowledgeStorageDir,
+  knowledgeFileKey,
+  setKnowledgeStorage,
+} from "./knowledgeStorage";
+export { chunkText, DEFAULT_CHUNK_OVERLAP, DEFAULT_CHUNK_SIZE } from "./chunker";
+export type { ChunkOptions, TextChunk } from "./chunker";
+export { normalizeWord, stemWord, tokenSpans, tokenize } from "./textTokens";
+export type { TokenSpan } from "./textTokens";
+export {
+  DEFAULT_LOCAL_DIMENSIONS,
+  HashingEmbeddingProvider,
+  HttpEmbeddingProvider,
+  getEmbeddingProvider,
+  normalizeVector,
+  setEmbeddingProvider,
+} from "./embeddings";
+export type { EmbeddingProvider } from "./embeddings";
+export * from "./vectorIndex";
+export { MemoryVectorIndex } from "./memoryVectorIndex";
+export { DrizzleVectorIndex, getVectorIndex, setVectorIndex } from "./drizzleVectorIndex";
+export {
+  DEFAULT_SEARCH_LIMIT,
+  embedEntryChunks,
+  hybridSearchChunks,
+  indexEntryText,
+  searchChunks,
+} from "./knowledgeIndex";
+export type { HybridChunkHit, HybridSearchOptions } from "./knowledgeIndex";
+export * from "./hybridSearch";
+export { DEFAULT_SEARCH_PAGE_SIZE, searchKnowledge } from "./knowledgeSearch";
+export type {
+  KnowledgeSearchFilters,
+  KnowledgeSearchHit,
+  KnowledgeSearchOptions,
+  KnowledgeSearchResult,
+} from "./knowledgeSearch";
+export { MemoryKnowledgeJobStore } from "./memoryKnowledgeJobStore";
+export { DrizzleKnowledgeJobStore } from "./drizzleKnowledgeJobStore";
+export {
+  KnowledgeJobQueue,
+  getQueueIntervalMs,
+  type KnowledgeJobQueueOptions,
+  type KnowledgePipeline,
+  type QueueRunResult,
+} from "./knowledgeJobQueue";
+export {
+  backfillKnowledgeIndex,
+  knowledgePipeline,
+  getKnowledgeJobQueue,
+  startKnowledgeJobQueue,
+  stopKnowledgeJobQueue,
+  queueKnowledgeEntry,
+  getProcessingStatus,
+} from "./knowledgeJobs";
+export type { ProcessingStatusView } from "./knowledgeJobs";
+export {
+  KnowledgeError,
+  parseEntryMetadata,
+  addKnowledgeDocument,
+  extractKnowledgeEntry,
+  getEntryContent,
+  getBotEntry,
+  listBotEntries,
+  listUnindexedEntryIds,
+  getBotKnowledgeStats,
+  deleteKnowledgeEntry,
+} from "./knowledgeService";
+export type {
+  ExtractionMetadata,
+  KnowledgeEntryView,
+  KnowledgeMetadata,
+  KnowledgeStats,
+} from "./knowledgeService";
@@ -0,0 +1,157 @@
+/**
+ * Tests for local embeddings and the knowledge index
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { HashingEmbeddingProvider, type EmbeddingProvider } from "./embeddings";
+import { embedEntryChunks, hybridSearchChunks, indexEntryText, searchChunks } from "./knowledgeIndex";
+import { MemoryVectorIndex } from "./memoryVectorIndex";
+import { cosineSimilarity } from "./vectorIndex";
+
+const GARDENING =
+  "Tomatoes need full sun and regular watering. Prune the side shoots of tomato plants every week. " +
+  "Compost keeps the soil rich for vegetables.";
+const BAKING =
+  "Sourdough bread rises slowly overnight. Feed the starter with flour and water before baking. " +
+  "Bake the loaf in a hot oven until the crust is dark.";
+
+describe("HashingEmbeddingProvider", () => {
+  const provider = new HashingEmbeddingProvider(256);
+
+  it("gives the same unit vector for the same text", async () => {
+    const [a, b] = await provider.embed(["Watering tomato plants", "Watering tomato plants"]);
+    expect(a).toHaveLength(256);
+    expect(a).toEqual(b);
+    expect(Math.hypot(...a)).toBeCloseTo(1, 6);
+    expect(provider.model).toBe("local-hash-256");
+  });
+
+  it("ignores case, accents and stopwords", () => {
+    expect(provider.embedOne("The CAF\u00c9 menu")).toEqual(provider.embedOne("cafe menu"));
+  });
+
+  it("scores related text above unrelated text", () => {
+    const query = provider.embedOne("how often should I water tomatoes");
+    expect(cosineSimilarity(query, provider.embedOne(GARDENING))).toBeGreaterThan(
+      cosineSimilarity(query, provider.embedOne(BAKING))
+    );
+  });
+
+  it("returns a zero vector for text without words", () => {
+    expect(provider.embedOne("!!! ...").every((value) => value === 0)).toBe(true);
+  });
+});
+
+describe("knowledge index", () => {
+  let index: MemoryVectorIndex;
+  const provider = new HashingEmbeddingProvider(256);
+
+  beforeEach(async () => {
+    index = new MemoryVectorIndex();
+    await indexEntryText(index, { entryId: 1, userId: 3, botId: 7 }, GARDENING, { size: 100, overlap: 0 });
+    await indexEntryText(index, { entryId: 2, userId: 3, botId: 7 }, BAKING, { size: 100, overlap: 0 });
+    await indexEntryText(index, { entryId: 3, userId: 3, botId: 8 }, GARDENING);
+    await indexEntryText(index, { entryId: 4, userId: 4, botId: 7 }, GARDENING);
+    for (const entryId of [1, 2, 3, 4]) await embedEntryChunks(index, provider, entryId);
+  });
+
+  it("finds the closest chunks of the owner's bot", async () => {
+    const hits = await searchChunks(index, provider, "pruning tomato shoots", { userId: 3, botId: 7 }, 3);
+
+    expect(hits[0].chunk).toMatchObject({ entryId: 1, content: expect.stringContaining("Prune") });
+    expect(hits.every((hit) => hit.chunk.userId === 3 && hit.chunk.botId === 7)).toBe(true);
+    expect(hits.map((hit) => hit.score)).toEqual([...hits.map((hit) => hit.score)].sort((a, b) => b - a));
+    expect(hits[0].chunk).not.toHaveProperty("embedding");
+  });
+
+  it("narrows the search to given entries", async () => {
+    const hits = await searchChunks(index, provider, "tomatoes", { userId: 3, botId: 7, entryIds: [2] });
+    expect(hits.length).toBeGreaterThan(0);
+    expect(hits.every((hit) => hit.chunk.entryId === 2)).toBe(true);
+  });
+
+  it("replaces an entry's chunks when it is indexed again", async () => {
+    await indexEntryText(index, { entryId: 1, userId: 3, botId: 7 }, "Roses like clay soil.");
+
+    const chunks = index.all().filter((chunk) => chunk.entryId === 1);
+    expect(chunks).toMatchObject([{ chunkIndex: 0, content: "Roses like clay soil.", embedding: null }]);
+    expect(await embedEntryChunks(index, provider, 1)).toBe(1);
+    expect(await embedEntryChunks(index, provider, 1)).toBe(0);
+  });
+
+  it("embeds again for a different model and only searches that model's vectors", async () => {
+    const other = new HashingEmbeddingProvider(64);
+    expect(await searchChunks(index, other, "tomatoes", { userId: 3 })).toEqual([]);
+
+    expect(await embedEntryChunks(index, other, 3)).toBe(1);
+    const hits = await searchChunks(index, other, "tomatoes", { userId: 3 });
+    expect(hits.map((hit) => hit.chunk.entryId)).toEqual([3]);
+  });
+
+  it("only embeds the chunks that still need it", async () => {
+    await indexEntryText(index, { entryId: 5, userId: 3, botId: 7 }, `${GARDENING} ${BAKING}`, {
+      size: 100,
+      overlap: 0,
+    });
+    const [first, ...rest] = await index.listUnembedded(5, provider.model, 100);
+    const embedding = provider.embedOne(first.content);
+    await index.setEmbeddings(provider.model, [{ chunkId: first.id, embedding }]);
+
+    const embedded: string[] = [];
+    const recording: EmbeddingProvider = {
+      model: provider.model,
+      dimensions: provider.dimensions,
+      embed: async (texts) => {
+        embedded.push(...texts);
+        return provider.embed(texts);
+      },
+    };
+    expect(await embedEntryChunks(index, recording, 5)).toBe(rest.length);
+    expect(embedded).toEqual(rest.map((chunk) => chunk.content));
+  });
+
+  it("fails when the provider returns the wrong number of vectors", async () => {
+    await indexEntryText(index, { entryId: 5, userId: 3, botId: 7 }, GARDENING, { size: 100, overlap: 0 });
+    const short: EmbeddingProvider = { model: "short", dimensions: 2, embed: async () => [[1, 0]] };
+    await expect(embedEntryChunks(index, short, 5)).rejects.toThrow(
+      "Expected 2 embeddings from short, got 1"
+    );
+  });
+
+  it("removes an entry's chunks", async () => {
+    await index.removeEntry(1);
+    expect(index.all().some((chunk) => chunk.entryId === 1)).toBe(false);
+  });
+
+  it("ranks chunks by keywords and meaning together", async () => {
+    const filter = { userId: 3, entryIds: [1, 2] };
+    const hits = await hybridSearchChunks(index, provider, "sourdough starter", filter);
+
+    expect(hits[0].chunk.entryId).toBe(2);
+    expect(hits[0].keywordScore).toBeGreaterThan(0);
+    expect(hits[0].vectorScore).toBeGreaterThan(0);
+    expect(hits[0].snippet.highlights.length).toBeGreaterThan(0);
+    expect(hits.every((hit) => [1, 2].includes(hit.chunk.entryId))).toBe(true);
+  });
+
+  it("matches entry titles and keeps a few chunks per entry", async () => {
+    const titles = new Map([
+      [1, "Kitchen garden"],
+      [2, "Bread"],
+    ]);
+    const hits = await hybridSearchChunks(
+      index,
+      provider,
+      "kitchen garden",
+      { userId: 3, botId: 7 },
+      { titles, perEntry: 1 }
+    );
+
+    expect(hits.map((hit) => hit.chunk.entryId)).toEqual([1]);
+    expect(hits[0].snippet.highlights).toEqual([]);
+  });
+
+  it("finds nothing in an empty selection of entries", async () => {
+    expect(await hybridSearchChunks(index, provider, "tomatoes", { userId: 3, entryIds: [] })).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Knowledge Index
+ * Chunks an entry's content into the vector index, embeds the chunks that
+ * still need it, and finds the chunks that answer a question, by meaning
+ * alone or by meaning and keywords together
+ */
+
+import { chunkText, type ChunkOptions } from "./chunker";
+import type { EmbeddingProvider } from "./embeddings";
+import { bm25Rank, fuseRankings, highlightSnippet, type FusedHit, type Snippet } from "./hybridSearch";
+import type { ChunkOwner, IndexedChunk, VectorFilter, VectorHit, VectorIndex } from "./vectorIndex";
+
+const EMBED_BATCH_SIZE = 32;
+export const DEFAULT_SEARCH_LIMIT = 10;
+// Nearest chunks taken from the vector side before fusing
+const VECTOR_CANDIDATES = 100;
+
+/**
+ * Replace the entry's chunks with chunks of its current content
+ */
+export function indexEntryText(
+  index: VectorIndex,
+  owner: ChunkOwner,
+  content: string,
+  options?: ChunkOptions
+): Promise<IndexedChunk[]> {
+  return index.replaceChunks(owner, chunkText(content, options));
+}
+
+/**
+ * Embed the entry's chunks the provider has not embedded yet, a batch at a
+ * time, so a retried job carries on where the last attempt stopped. Returns
+ * the number of chunks embedded.
+ */
+export async function embedEntryChunks(
+  index: VectorIndex,
+  provider: EmbeddingProvider,
+  entryId: number
+): Promise<number> {
+  let embedded = 0;
+  for (;;) {
+    const pending = await index.listUnembedded(entryId, provider.model, EMBED_BATCH_SIZE);
+    if (pending.length === 0) return embedded;
+
+    const vectors = await provider.embed(pending.map((chunk) => chunk.content));
+    if (vectors.length !== pending.length) {
+      throw new Error(`Expected ${pending.length} embeddings from ${provider.model}, got ${vectors.length}`);
+    }
+    await index.setEmbeddings(
+      provider.model,
+      pending.map((chunk, i) => ({ chunkId: chunk.id, embedding: vectors[i] }))
+    );
+    embedded += pending.length;
+  }
+}
+
+export async function searchChunks(
+  index: VectorIndex,
+  provider: EmbeddingProvider,
+  query: string,
+  filter: VectorFilter,
+  limit = DEFAULT_SEARCH_LIMIT
+): Promise<VectorHit[]> {
+  if (!query.trim()) return [];
+  const [vector] = await provider.embed([query]);
+  return index.search(vector, provider.model, filter, limit);
+}
+
+export interface HybridChunkHit extends FusedHit {
+  chunk: IndexedChunk;
+  snippet: Snippet;
+}
+
+export interface HybridSearchOptions {
+  // Entry titles count as words of each of the entry's chunks
+  titles?: Map<number, string>;
+  // Most chunks of one entry in the results
+  perEntry?: number;
+}
+
+/**
+ * Every chunk that matches the query's words or is among the closest in
+ * meaning, ranked by reciprocal rank fusion of the two
+ */
+export async function hybridSearchChunks(
+  index: VectorIndex,
+  provider: EmbeddingProvider,
+  query: string,
+  filter: VectorFilter,
+  options: HybridSearchOptions = {}
+): Promise<HybridChunkHit[]> {
+  if (!query.trim() || filter.entryIds?.length === 0) return [];
+
+  const [chunks, similar] = await Promise.all([
+    index.listChunks(filter),
+    searchChunks(index, provider, query, filter, VECTOR_CANDIDATES),
+  ]);
+  const byId = new Map(chunks.map((chunk) => [chunk.id, chunk]));
+  const keyword = bm25Rank(
+    query,
+    chunks.map((chunk) => ({
+      id: chunk.id,
+      text: `${options.titles?.get(chunk.entryId) ?? ""}\n${chunk.content}`,
+    }))
+  );
+  // A zero or negative similarity says nothing about relevance
+  const vector = similar
+    .filter((hit) => hit.score > 0 && byId.has(hit.chunk.id))
+    .map((hit) => ({ id: hit.chunk.id, score: hit.score }));
+
+  return fuseRankings(keyword, vector, (id) => byId.get(id)?.entryId ?? 0, options.perEntry).map((hit) => {
+    const chunk = byId.get(hit.id) as IndexedChunk;
+    return { ...hit, chunk, snippet: highlightSnippet(chunk.content, query) };
+  });
+}
@@ -0,0 +1,85 @@
+/**
+ * Tests for knowledge job rules
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  afterFailure,
+  isJobAbandoned,
+  isJobActive,
+  jobProgress,
+  pickRunnableJobs,
+  retryDelayMs,
+} from "./knowledgeJobPolicy";
+
+const now = new Date("2026-05-01T12:00:00Z");
+const MINUTE = 60 * 1000;
+
+describe("job stages", () => {
+  it("reports progress by stage", () => {
+    expect(["queued", "extracting", "chunking", "embedding", "done"].map(jobProgress)).toEqual([
+      0, 10, 40, 60, 100,
+    ]);
+    expect(jobProgress("unknown")).toBe(0);
+  });
+
+  it("knows which jobs are still going", () => {
+    expect(isJobActive("queued")).toBe(true);
+    expect(isJobActive("chunking")).toBe(true);
+    expect(isJobActive("done")).toBe(false);
+    expect(isJobActive("failed")).toBe(false);
+  });
+});
+
+describe("retries", () => {
+  it("backs off exponentially up to half an hour", () => {
+    expect([1, 2, 3, 4].map(retryDelayMs)).toEqual([30_000, 60_000, 120_000, 240_000]);
+    expect(retryDelayMs(12)).toBe(30 * MINUTE);
+  });
+
+  it("requeues until attempts run out, and never for permanent failures", () => {
+    expect(afterFailure({ attempts: 1, maxAttempts: 3 }, false, now)).toEqual({
+      status: "queued",
+      runAfter: new Date("2026-05-01T12:00:30Z"),
+    });
+    expect(afterFailure({ attempts: 2, maxAttempts: 3 }, false, now)).toEqual({
+      status: "queued",
+      runAfter: new Date("2026-05-01T12:01:00Z"),
+    });
+    expect(afterFailure({ attempts: 3, maxAttempts: 3 }, false, now)).toEqual({ status: "failed" });
+    expect(afterFailure({ attempts: 1, maxAttempts: 3 }, true, now)).toEqual({ status: "failed" });
+  });
+
+  it("treats running jobs without a recent heartbeat as abandoned", () => {
+    const recent = new Date(now.getTime() - 5 * MINUTE);
+    const stale = new Date(now.getTime() - 11 * MINUTE);
+    expect(isJobAbandoned({ status: "embedding", heartbeatAt: recent }, now)).toBe(false);
+    expect(isJobAbandoned({ status: "embedding", heartbeatAt: stale }, now)).toBe(true);
+    expect(isJobAbandoned({ status: "extracting", heartbeatAt: null }, now)).toBe(true);
+    expect(isJobAbandoned({ status: "queued", heartbeatAt: stale }, now)).toBe(false);
+  });
+});
+
+describe("pickRunnableJobs", () => {
+  const ready = [
+    { id: 1, botId: 7 },
+    { id: 2, botId: 7 },
+    { id: 3, botId: 8 },
+    { id: 4, botId: 9 },
+    { id: 5, botId: 8 },
+  ];
+
+  it("takes jobs oldest first, a limited number per bot", () => {
+    const picked = pickRunnableJobs(ready, new Map(), { perBot: 1, total: 10 });
+    expect(picked.map((job) => job.id)).toEqual([1, 3, 4]);
+    expect(pickRunnableJobs(ready, new Map(), { perBot: 2, total: 10 }).map((job) => job.id)).toEqual([
+      1, 2, 3, 4, 5,
+    ]);
+  });
+
+  it("counts jobs already running and stops at the worker's limit", () => {
+    const running = new Map([[7, 1]]);
+    expect(pickRunnableJobs(ready, running, { perBot: 1, total: 10 }).map((job) => job.id)).toEqual([3, 4]);
+    expect(pickRunnableJobs(ready, new Map(), { perBot: 2, total: 2 }).map((job) => job.id)).toEqual([1, 2]);
+  });
+});
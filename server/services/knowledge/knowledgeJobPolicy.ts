@@ -0,0 +1,115 @@
+/**
+ * Knowledge Job Rules
+ * The stages a knowledge entry goes through, how failed attempts back off,
+ * and which queued jobs may start given what each bot is already running
+ */
+
+export type KnowledgeJobStatus = "queued" | "extracting" | "chunking" | "embedding" | "done" | "failed";
+
+// In the order a job runs them
+export const KNOWLEDGE_JOB_STAGES = ["extracting", "chunking", "embedding"] as const;
+export type KnowledgeJobStage = (typeof KNOWLEDGE_JOB_STAGES)[number];
+
+export function isJobRunning(status: string): boolean {
+  return (KNOWLEDGE_JOB_STAGES as readonly string[]).includes(status);
+}
+
+/**
+ * Queued or running: the entry will change without anyone asking again
+ */
+export function isJobActive(status: string): boolean {
+  return status === "queued" || isJobRunning(status);
+}
+
+// Rough share of the work done when a stage starts; embedding is the slow part
+const STAGE_PROGRESS: Record<KnowledgeJobStatus, number> = {
+  queued: 0,
+  extracting: 10,
+  chunking: 40,
+  embedding: 60,
+  done: 100,
+  failed: 100,
+};
+
+export function jobProgress(status: string): number {
+  return STAGE_PROGRESS[status as KnowledgeJobStatus] ?? 0;
+}
+
+export const RETRY_BASE_DELAY_MS = 30 * 1000;
+export const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+
+/**
+ * Wait before the next attempt: 30s after the first failure, doubling up to
+ * 30 minutes
+ */
+export function retryDelayMs(failedAttempts: number): number {
+  const delay = RETRY_BASE_DELAY_MS * 2 ** Math.max(0, failedAttempts - 1);
+  return Math.min(delay, RETRY_MAX_DELAY_MS);
+}
+
+export type FailureOutcome = { status: "queued"; runAfter: Date } | { status: "failed" };
+
+/**
+ * A failed attempt goes back to the queue unless the failure will not go
+ * away on its own (a file that cannot be read) or attempts ran out
+ */
+export function afterFailure(
+  job: { attempts: number; maxAttempts: number },
+  permanent: boolean,
+  now: Date
+): FailureOutcome {
+  if (permanent || job.attempts >= job.maxAttempts) return { status: "failed" };
+  return { status: "queued", runAfter: new Date(now.getTime() + retryDelayMs(job.attempts)) };
+}
+
+// A running job that has not moved for this long lost its worker
+export const JOB_LEASE_MS = 10 * 60 * 1000;
+
+export function isJobAbandoned(job: { status: string; heartbeatAt: Date | null }, now: Date): boolean {
+  if (!isJobRunning(job.status)) return false;
+  return !job.heartbeatAt || now.getTime() - job.heartbeatAt.getTime() > JOB_LEASE_MS;
+}
+
+export interface JobLimits {
+  // Jobs of one bot running at once, so one large upload cannot starve other bots
+  perBot: number;
+  // Jobs one worker runs at once
+  total: number;
+}
+
+function positiveInteger(value: string | undefined, fallback: number): number {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : fallback;
+}
+
+/**
+ * Limits from KNOWLEDGE_JOBS_PER_BOT (1 by default) and
+ * KNOWLEDGE_JOB_CONCURRENCY (4 by default)
+ */
+export function getJobLimits(): JobLimits {
+  return {
+    perBot: positiveInteger(process.env.KNOWLEDGE_JOBS_PER_BOT, 1),
+    total: positiveInteger(process.env.KNOWLEDGE_JOB_CONCURRENCY, 4),
+  };
+}
+
+/**
+ * Ready jobs to start now, oldest first, skipping bots already at their
+ * limit (counting jobs running elsewhere)
+ */
+export function pickRunnableJobs<T extends { botId: number }>(
+  ready: T[],
+  runningByBot: Map<number, number>,
+  limits: JobLimits
+): T[] {
+  const running = new Map(runningByBot);
+  const picked: T[] = [];
+  for (const job of ready) {
+    if (picked.length >= limits.total) break;
+    const count = running.get(job.botId) ?? 0;
+    if (count >= limits.perBot) continue;
+    running.set(job.botId, count + 1);
+    picked.push(job);
+  }
+  return picked;
+}
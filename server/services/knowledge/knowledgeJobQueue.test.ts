@@ -0,0 +1,178 @@
+/**
+ * Tests for the knowledge processing queue
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { FakeClock } from "../subscriptions/clock";
+import { ExtractionError } from "./documentExtraction";
+import { KnowledgeJobQueue, type KnowledgePipeline } from "./knowledgeJobQueue";
+import { MemoryKnowledgeJobStore } from "./memoryKnowledgeJobStore";
+import type { KnowledgeJob } from "./knowledgeJobStore";
+
+const MINUTE = 60 * 1000;
+
+describe("KnowledgeJobQueue", () => {
+  let clock: FakeClock;
+  let store: MemoryKnowledgeJobStore;
+  let calls: string[];
+  let failures: Map<string, Error[]>;
+  let queue: KnowledgeJobQueue;
+
+  // Records each stage it runs, failing with the next queued error for that stage and entry
+  const stage =
+    (name: string) =>
+    async (job: KnowledgeJob): Promise<void> => {
+      const key = `${name}:${job.entryId}`;
+      calls.push(key);
+      const error = failures.get(key)?.shift();
+      if (error) throw error;
+    };
+
+  const fail = (key: string, ...errors: Error[]) => failures.set(key, errors);
+
+  const queuePipeline = (): KnowledgePipeline => ({
+    extracting: stage("extracting"),
+    chunking: stage("chunking"),
+    embedding: stage("embedding"),
+  });
+
+  beforeEach(() => {
+    clock = new FakeClock(new Date("2026-05-01T12:00:00Z"));
+    store = new MemoryKnowledgeJobStore();
+    calls = [];
+    failures = new Map();
+    const pipeline = queuePipeline();
+    queue = new KnowledgeJobQueue({ store, pipeline, clock, limits: { perBot: 1, total: 4 } });
+  });
+
+  it("runs every stage in order and finishes the job", async () => {
+    const job = await queue.enqueue({ userId: 3, botId: 7, entryId: 11 });
+    expect(job).toMatchObject({ status: "queued", attempts: 0 });
+
+    const result = await queue.runOnce();
+
+    expect(result).toEqual({ recovered: 0, started: 1, done: 1, retried: 0, failed: 0, backfilled: 0 });
+    expect(calls).toEqual(["extracting:11", "chunking:11", "embedding:11"]);
+    expect(store.get(job.id)).toMatchObject({ status: "done", attempts: 1, error: null });
+  });
+
+  it("keeps one job per entry while it is queued or running", async () => {
+    const first = await queue.enqueue({ userId: 3, botId: 7, entryId: 11 });
+    const again = await queue.enqueue({ userId: 3, botId: 7, entryId: 11 });
+    expect(again.id).toBe(first.id);
+
+    await queue.runOnce();
+    const reprocess = await queue.enqueue({ userId: 3, botId: 7, entryId: 11 });
+    expect(reprocess.id).not.toBe(first.id);
+  });
+
+  it("retries a failed attempt after backing off, then gives up", async () => {
+    const timeout = new Error("Database timeout");
+    fail("chunking:11", timeout, timeout, new Error("Still down"));
+    const job = await queue.enqueue({ userId: 3, botId: 7, entryId: 11 });
+
+    expect(await queue.runOnce()).toMatchObject({ started: 1, retried: 1 });
+    expect(store.get(job.id)).toMatchObject({
+      status: "queued",
+      attempts: 1,
+      error: "Database timeout",
+      runAfter: new Date("2026-05-01T12:00:30Z"),
+    });
+
+    // Not before the backoff has passed
+    expect(await queue.runOnce()).toMatchObject({ started: 0 });
+    clock.advance(30 * 1000);
+    expect(await queue.runOnce()).toMatchObject({ started: 1, retried: 1 });
+    expect(store.get(job.id)?.runAfter).toEqual(new Date("2026-05-01T12:01:30Z"));
+
+    clock.advance(MINUTE);
+    expect(await queue.runOnce()).toMatchObject({ started: 1, failed: 1 });
+    expect(store.get(job.id)).toMatchObject({ status: "failed", attempts: 3, error: "Still down" });
+    expect(calls.filter((call) => call === "embedding:11")).toHaveLength(0);
+  });
+
+  it("fails unreadable files without retrying", async () => {
+    fail("extracting:11", new ExtractionError("The file is not text"));
+    const job = await queue.enqueue({ userId: 3, botId: 7, entryId: 11 });
+
+    expect(await queue.runOnce()).toMatchObject({ started: 1, failed: 1 });
+    expect(store.get(job.id)).toMatchObject({ status: "failed", attempts: 1, error: "The file is not text" });
+    expect(calls).toEqual(["extracting:11"]);
+  });
+
+  it("runs one job per bot at a time", async () => {
+    await queue.enqueue({ userId: 3, botId: 7, entryId: 11 });
+    await queue.enqueue({ userId: 3, botId: 7, entryId: 12 });
+    await queue.enqueue({ userId: 4, botId: 8, entryId: 21 });
+
+    expect(await queue.runOnce()).toMatchObject({ started: 2, done: 2 });
+    expect(calls.filter((call) => call.startsWith("extracting"))).toEqual(["extracting:11", "extracting:21"]);
+
+    expect(await queue.runOnce()).toMatchObject({ started: 1, done: 1 });
+    expect(calls).toContain("embedding:12");
+  });
+
+  it("waits while a bot's job is running in another worker", async () => {
+    const elsewhere = await store.enqueue({ userId: 3, botId: 7, entryId: 10 }, clock.now());
+    await store.claim(elsewhere.id, clock.now());
+    await queue.enqueue({ userId: 3, botId: 7, entryId: 11 });
+
+    expect(await queue.runOnce()).toMatchObject({ started: 0 });
+  });
+
+  it("takes back jobs whose worker stopped mid-way", async () => {
+    const job = await store.enqueue({ userId: 3, botId: 7, entryId: 11 }, clock.now());
+    await store.claim(job.id, clock.now());
+    await store.advance(job.id, 1, "embedding", clock.now());
+
+    clock.advance(11 * MINUTE);
+    const result = await queue.runOnce();
+
+    expect(result.recovered).toBe(1);
+    expect(store.get(job.id)).toMatchObject({
+      status: "queued",
+      attempts: 1,
+      error: "Processing stopped before it finished",
+    });
+
+    clock.advance(MINUTE);
+    expect(await queue.runOnce()).toMatchObject({ started: 1, done: 1 });
+    expect(store.get(job.id)).toMatchObject({ status: "done", attempts: 2 });
+  });
+
+  it("ignores a late result from an attempt that was taken back", async () => {
+    const job = await store.enqueue({ userId: 3, botId: 7, entryId: 11 }, clock.now());
+    await store.claim(job.id, clock.now());
+    clock.advance(11 * MINUTE);
+    await queue.runOnce();
+    clock.advance(MINUTE);
+    await queue.runOnce();
+
+    // The presumed-dead first attempt reports in after the retry finished
+    await store.complete(job.id, 1, clock.now());
+    expect(store.get(job.id)).toMatchObject({ status: "done", attempts: 2 });
+    expect(await store.advance(job.id, 1, "chunking", clock.now())).toBe(false);
+  });
+
+  it("indexes entries saved without a job after the queued jobs", async () => {
+    const backfill = async () => {
+      calls.push("backfill");
+      return 2;
+    };
+    queue = new KnowledgeJobQueue({ store, pipeline: queuePipeline(), clock, backfill });
+    await queue.enqueue({ userId: 3, botId: 7, entryId: 11 });
+
+    expect(await queue.runOnce()).toMatchObject({ done: 1, backfilled: 2 });
+    expect(calls).toEqual(["extracting:11", "chunking:11", "embedding:11", "backfill"]);
+  });
+
+  it("still reports the run when the backfill fails", async () => {
+    const backfill = async (): Promise<number> => {
+      throw new Error("Embedding service down");
+    };
+    queue = new KnowledgeJobQueue({ store, pipeline: queuePipeline(), clock, backfill });
+    await queue.enqueue({ userId: 3, botId: 7, entryId: 11 });
+
+    expect(await queue.runOnce()).toMatchObject({ done: 1, backfilled: 0 });
+  });
+});
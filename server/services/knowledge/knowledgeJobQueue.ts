@@ -0,0 +1,201 @@
+/**
+ * Knowledge Job Queue
+ * Runs queued knowledge jobs through extracting, chunking and embedding,
+ * a few at a time and at most a set number per bot, retrying failed
+ * attempts with backoff and taking back jobs whose worker went away
+ */
+
+import { logger } from "../../_core/logger";
+import { systemClock, type Clock } from "../subscriptions/clock";
+import { ExtractionError } from "./documentExtraction";
+import {
+  JOB_LEASE_MS,
+  KNOWLEDGE_JOB_STAGES,
+  afterFailure,
+  getJobLimits,
+  pickRunnableJobs,
+  type JobLimits,
+  type KnowledgeJobStage,
+} from "./knowledgeJobPolicy";
+import type { KnowledgeJob, KnowledgeJobStore, NewKnowledgeJob } from "./knowledgeJobStore";
+
+/**
+ * The work of each stage; a stage reads and writes the entry itself and
+ * throws to fail the attempt
+ */
+export type KnowledgePipeline = Record<KnowledgeJobStage, (job: KnowledgeJob) => Promise<void>>;
+
+export interface KnowledgeJobQueueOptions {
+  store: KnowledgeJobStore;
+  pipeline: KnowledgePipeline;
+  clock?: Clock;
+  limits?: JobLimits;
+  // Failures that retrying cannot fix; unreadable files by default
+  isPermanent?: (error: unknown) => boolean;
+  // Indexes entries saved without a job, such as imports; returns how many
+  backfill?: () => Promise<number>;
+}
+
+export interface QueueRunResult {
+  // Abandoned attempts put back in the queue or failed
+  recovered: number;
+  started: number;
+  done: number;
+  retried: number;
+  failed: number;
+  // Entries saved without a job that were indexed
+  backfilled: number;
+}
+
+type JobOutcome = "done" | "retried" | "failed" | "skipped";
+
+const DEFAULT_INTERVAL_MS = 5 * 1000;
+
+/**
+ * Poll interval from KNOWLEDGE_JOB_INTERVAL_SECONDS, every 5 seconds by default
+ */
+export function getQueueIntervalMs(): number {
+  const seconds = Number(process.env.KNOWLEDGE_JOB_INTERVAL_SECONDS);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : DEFAULT_INTERVAL_MS;
+}
+
+export class KnowledgeJobQueue {
+  private readonly store: KnowledgeJobStore;
+  private readonly pipeline: KnowledgePipeline;
+  private readonly clock: Clock;
+  private readonly limits: JobLimits;
+  private readonly isPermanent: (error: unknown) => boolean;
+  private readonly backfill: (() => Promise<number>) | null;
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<QueueRunResult> | null = null;
+
+  constructor(options: KnowledgeJobQueueOptions) {
+    this.store = options.store;
+    this.pipeline = options.pipeline;
+    this.clock = options.clock ?? systemClock;
+    this.limits = options.limits ?? getJobLimits();
+    this.isPermanent = options.isPermanent ?? ((error) => error instanceof ExtractionError);
+    this.backfill = options.backfill ?? null;
+  }
+
+  /**
+   * Queue an entry for processing; an entry already queued or running keeps
+   * its job. A started queue picks it up straight away.
+   */
+  async enqueue(job: NewKnowledgeJob): Promise<KnowledgeJob> {
+    const active = await this.store.findActiveForEntry(job.entryId);
+    if (active) return active;
+
+    const queued = await this.store.enqueue(job, this.clock.now());
+    if (this.timer) this.runInBackground();
+    return queued;
+  }
+
+  /**
+   * Start what is ready, up to the limits, and wait for it. Concurrent calls
+   * share one run.
+   */
+  runOnce(): Promise<QueueRunResult> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  start(intervalMs: number = getQueueIntervalMs()) {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.runInBackground(), intervalMs);
+    this.timer.unref?.();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private runInBackground() {
+    this.runOnce().catch((error) => {
+      logger.error("Knowledge job queue run failed:", error);
+    });
+  }
+
+  private async run(): Promise<QueueRunResult> {
+    const now = this.clock.now();
+    const result: QueueRunResult = {
+      recovered: 0,
+      started: 0,
+      done: 0,
+      retried: 0,
+      failed: 0,
+      backfilled: 0,
+    };
+
+    const abandoned = await this.store.listAbandoned(new Date(now.getTime() - JOB_LEASE_MS));
+    for (const job of abandoned) {
+      const outcome = afterFailure(job, false, now);
+      await this.store.fail(job.id, job.attempts, outcome, "Processing stopped before it finished", now);
+      result.recovered += 1;
+      logger.warn(`Knowledge job ${job.id} was abandoned during ${job.status}; now ${outcome.status}`);
+    }
+
+    // Extra candidates, since bots at their limit are skipped
+    const ready = await this.store.listReady(now, this.limits.total * 5);
+    const runnable = pickRunnableJobs(ready, await this.store.countRunningByBot(), this.limits);
+    const outcomes = await Promise.all(runnable.map((job) => this.process(job)));
+
+    for (const outcome of outcomes) {
+      if (outcome === "skipped") continue;
+      result.started += 1;
+      result[outcome] += 1;
+    }
+
+    if (this.backfill) {
+      try {
+        result.backfilled = await this.backfill();
+      } catch (error) {
+        logger.error("Knowledge backfill failed:", error);
+      }
+    }
+    return result;
+  }
+
+  private async process(queued: KnowledgeJob): Promise<JobOutcome> {
+    const job = await this.store.claim(queued.id, this.clock.now());
+    if (!job) return "skipped";
+
+    try {
+      for (const stage of KNOWLEDGE_JOB_STAGES) {
+        // Claiming started the first stage
+        if (stage !== KNOWLEDGE_JOB_STAGES[0]) {
+          const stillOurs = await this.store.advance(job.id, job.attempts, stage, this.clock.now());
+          if (!stillOurs) return "skipped";
+        }
+        await this.pipeline[stage](job);
+      }
+      await this.store.complete(job.id, job.attempts, this.clock.now());
+      logger.info(`Knowledge job ${job.id} processed entry ${job.entryId}`);
+      return "done";
+    } catch (error) {
+      const now = this.clock.now();
+      const outcome = afterFailure(job, this.isPermanent(error), now);
+      const message = error instanceof Error ? error.message : String(error);
+      await this.store.fail(job.id, job.attempts, outcome, message, now);
+
+      if (outcome.status === "queued") {
+        logger.warn(
+          `Knowledge job ${job.id} attempt ${job.attempts} failed, retrying at ` +
+            `${outcome.runAfter.toISOString()}: ${message}`
+        );
+        return "retried";
+      }
+      logger.error(`Knowledge job ${job.id} failed for entry ${job.entryId}:`, error);
+      return "failed";
+    }
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Knowledge Job Store
+ * What the processing queue needs from persistence, so it can run against
+ * Postgres in production and an in-memory store in tests
+ */
+
+import type { KnowledgeJob } from "../../../drizzle/knowledge_schema";
+import type { FailureOutcome, KnowledgeJobStage } from "./knowledgeJobPolicy";
+
+export type { KnowledgeJob };
+
+export interface NewKnowledgeJob {
+  userId: number;
+  botId: number;
+  entryId: number;
+  maxAttempts?: number;
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Updates that name an attempt only apply while the job is still on that
+ * attempt, so a worker that was presumed dead cannot overwrite the retry
+ */
+export interface KnowledgeJobStore {
+  enqueue(job: NewKnowledgeJob, at: Date): Promise<KnowledgeJob>;
+
+  /**
+   * Queued jobs whose backoff has passed, oldest first
+   */
+  listReady(now: Date, limit: number): Promise<KnowledgeJob[]>;
+
+  /**
+   * Running jobs whose heartbeat is older than `before`, or missing
+   */
+  listAbandoned(before: Date): Promise<KnowledgeJob[]>;
+
+  /**
+   * Number of running jobs of each bot that has any
+   */
+  countRunningByBot(): Promise<Map<number, number>>;
+
+  /**
+   * Start the next attempt of a queued job at the first stage; null when
+   * another worker started it first
+   */
+  claim(jobId: number, at: Date): Promise<KnowledgeJob | null>;
+
+  /**
+   * Move a running attempt on to a later stage; false when the attempt was
+   * taken away from this worker
+   */
+  advance(jobId: number, attempt: number, stage: KnowledgeJobStage, at: Date): Promise<boolean>;
+
+  complete(jobId: number, attempt: number, at: Date): Promise<void>;
+
+  fail(jobId: number, attempt: number, outcome: FailureOutcome, error: string, at: Date): Promise<void>;
+
+  /**
+   * Jobs of the bot's entries owned by the user, newest first
+   */
+  listForBot(userId: number, botId: number): Promise<KnowledgeJob[]>;
+
+  /**
+   * The queued or running job of an entry, if any
+   */
+  findActiveForEntry(entryId: number): Promise<KnowledgeJob | null>;
+}
@@ -0,0 +1,152 @@
+/**
+ * Knowledge Processing
+ * The Postgres-backed job queue behind knowledge uploads and what a bot
+ * owner sees of it
+ */
+
+import { DrizzleKnowledgeJobStore } from "./drizzleKnowledgeJobStore";
+import { KnowledgeJobQueue, type KnowledgePipeline } from "./knowledgeJobQueue";
+import { isJobActive, jobProgress, type KnowledgeJobStatus } from "./knowledgeJobPolicy";
+import type { KnowledgeJob } from "./knowledgeJobStore";
+import {
+  extractKnowledgeEntry,
+  getBotEntry,
+  getEntryContent,
+  listBotEntries,
+  listUnindexedEntryIds,
+} from "./knowledgeService";
+import { getVectorIndex } from "./drizzleVectorIndex";
+import { getEmbeddingProvider } from "./embeddings";
+import { embedEntryChunks, indexEntryText } from "./knowledgeIndex";
+import { logger } from "../../_core/logger";
+
+// Entries indexed by one queue run's backfill
+const BACKFILL_BATCH_SIZE = 20;
+
+/**
+ * Read the file, split its text into chunks, then embed the chunks. An entry
+ * deleted while queued is skipped at every stage.
+ */
+export const knowledgePipeline: KnowledgePipeline = {
+  extracting: (job) => extractKnowledgeEntry(job.entryId),
+  chunking: async (job) => {
+    const entry = await getEntryContent(job.entryId);
+    if (entry) await indexEntryText(getVectorIndex(), entry.owner, entry.content);
+  },
+  embedding: async (job) => {
+    await embedEntryChunks(getVectorIndex(), getEmbeddingProvider(), job.entryId);
+  },
+};
+
+/**
+ * Chunk and embed entries saved without a job, such as Content Master
+ * entries and imports, a batch per queue run so search never has to
+ */
+export async function backfillKnowledgeIndex(limit: number = BACKFILL_BATCH_SIZE): Promise<number> {
+  const index = getVectorIndex();
+  let indexed = 0;
+  for (const entryId of await listUnindexedEntryIds(limit)) {
+    try {
+      const [chunked] = await index.indexedEntryIds([entryId]);
+      if (chunked === undefined) {
+        const entry = await getEntryContent(entryId);
+        if (!entry) continue;
+        await indexEntryText(index, entry.owner, entry.content);
+      }
+      await embedEntryChunks(index, getEmbeddingProvider(), entryId);
+      indexed += 1;
+    } catch (error) {
+      // Picked up again by the next run
+      logger.error(`Failed to index knowledge entry ${entryId}:`, error);
+    }
+  }
+  return indexed;
+}
+
+export interface ProcessingStatusView {
+  jobId: number;
+  entryId: number;
+  fileName: string | null;
+  status: KnowledgeJobStatus;
+  // 0-100
+  progress: number;
+  active: boolean;
+  attempts: number;
+  maxAttempts: number;
+  error: string | null;
+  // When a failed attempt will be retried
+  retryAt: Date | null;
+  createdAt: Date;
+  finishedAt: Date | null;
+}
+
+const store = new DrizzleKnowledgeJobStore();
+let queue: KnowledgeJobQueue | null = null;
+
+export function getKnowledgeJobQueue(): KnowledgeJobQueue {
+  if (!queue) {
+    queue = new KnowledgeJobQueue({ store, pipeline: knowledgePipeline, backfill: backfillKnowledgeIndex });
+  }
+  return queue;
+}
+
+/**
+ * Start processing queued knowledge in this process; call once at server
+ * startup. Hosts without a long-lived process call /api/cron/knowledge instead.
+ */
+export function startKnowledgeJobQueue(): KnowledgeJobQueue {
+  const started = getKnowledgeJobQueue();
+  started.start();
+  return started;
+}
+
+export function stopKnowledgeJobQueue() {
+  queue?.stop();
+}
+
+/**
+ * Queue (or re-queue) processing of one of the user's entries of the bot
+ */
+export async function queueKnowledgeEntry(
+  userId: number,
+  botId: number,
+  entryId: number
+): Promise<KnowledgeJob> {
+  await getBotEntry(userId, botId, entryId);
+  return getKnowledgeJobQueue().enqueue({ userId, botId, entryId });
+}
+
+/**
+ * The latest job of each of the bot's entries, newest first
+ */
+export async function getProcessingStatus(
+  userId: number,
+  botId: number,
+  entryIds?: number[]
+): Promise<ProcessingStatusView[]> {
+  const [jobs, entries] = await Promise.all([store.listForBot(userId, botId), listBotEntries(userId, botId)]);
+  const titles = new Map(entries.map((entry) => [entry.id, entry.title]));
+  const wanted = entryIds ? new Set(entryIds) : null;
+
+  const seen = new Set<number>();
+  const views: ProcessingStatusView[] = [];
+  for (const job of jobs) {
+    if (seen.has(job.entryId) || (wanted && !wanted.has(job.entryId))) continue;
+    seen.add(job.entryId);
+    views.push({
+      jobId: job.id,
+      entryId: job.entryId,
+      fileName: titles.get(job.entryId) ?? null,
+      status: job.status as KnowledgeJobStatus,
+      progress: jobProgress(job.status),
+      active: isJobActive(job.status),
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      error: job.error,
+      retryAt: job.status === "queued" && job.attempts > 0 ? job.runAfter : null,
+      createdAt: job.createdAt,
+      finishedAt: job.finishedAt,
+    });
+  }
+  return views;
+}
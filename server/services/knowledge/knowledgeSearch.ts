@@ -0,0 +1,161 @@
+/**
+ * Knowledge Search
+ * Finds passages in a user's knowledge entries by keywords and meaning
+ * together, narrowed by entry type, bot and date, a page at a time
+ */
+
+import { getDb } from "../../db";
+import { knowledgeEntries } from "../../../drizzle/schema";
+import { and, eq, gte, inArray, lte } from "drizzle-orm";
+import { getVectorIndex } from "./drizzleVectorIndex";
+import { getEmbeddingProvider } from "./embeddings";
+import { paginate, type Snippet } from "./hybridSearch";
+import { hybridSearchChunks } from "./knowledgeIndex";
+import { parseEntryMetadata } from "./knowledgeService";
+
+export const DEFAULT_SEARCH_PAGE_SIZE = 10;
+// Most passages of one entry in the results
+const HITS_PER_ENTRY = 3;
+
+export interface KnowledgeSearchFilters {
+  types?: string[];
+  // Only entries of the bot; null for entries that belong to no bot
+  botId?: number | null;
+  // Entries created in this range, inclusive
+  from?: Date;
+  to?: Date;
+}
+
+export interface KnowledgeSearchOptions extends KnowledgeSearchFilters {
+  // From 1
+  page?: number;
+  pageSize?: number;
+}
+
+export interface KnowledgeSearchHit {
+  entryId: number;
+  chunkId: number;
+  title: string;
+  type: string;
+  url: string | null;
+  botId: number | null;
+  createdAt: Date;
+  chunkIndex: number;
+  // Offsets of the passage in the entry's content
+  start: number;
+  end: number;
+  page: number | null;
+  heading: string | null;
+  // The whole passage; the snippet is the part around the matches
+  text: string;
+  snippet: Snippet;
+  // Fused rank score, then what each side made of the passage
+  score: number;
+  keywordScore: number | null;
+  vectorScore: number | null;
+}
+
+export interface KnowledgeSearchResult {
+  query: string;
+  hits: KnowledgeSearchHit[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+interface SearchableEntry {
+  id: number;
+  title: string;
+  type: string;
+  url: string | null;
+  botId: number | null;
+  createdAt: Date;
+}
+
+async function findEntries(userId: number, filters: KnowledgeSearchFilters): Promise<SearchableEntry[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const rows = await db
+    .select({
+      id: knowledgeEntries.id,
+      title: knowledgeEntries.title,
+      type: knowledgeEntries.type,
+      url: knowledgeEntries.url,
+      metadata: knowledgeEntries.metadata,
+      createdAt: knowledgeEntries.createdAt,
+    })
+    .from(knowledgeEntries)
+    .where(
+      and(
+        eq(knowledgeEntries.userId, userId),
+        filters.types?.length ? inArray(knowledgeEntries.type, filters.types) : undefined,
+        filters.from ? gte(knowledgeEntries.createdAt, filters.from) : undefined,
+        filters.to ? lte(knowledgeEntries.createdAt, filters.to) : undefined
+      )
+    );
+
+  // The bot is only in the JSON metadata
+  return rows
+    .map(({ metadata, ...entry }) => {
+      const { botId } = parseEntryMetadata(metadata);
+      return { ...entry, url: entry.url ?? null, botId: typeof botId === "number" ? botId : null };
+    })
+    .filter((entry) => filters.botId === undefined || entry.botId === filters.botId);
+}
+
+/**
+ * Passages of the user's entries ranked by BM25 and vector similarity fused
+ * with reciprocal rank fusion, best first. Entries are found once the job
+ * queue has chunked them.
+ */
+export async function searchKnowledge(
+  userId: number,
+  query: string,
+  options: KnowledgeSearchOptions = {}
+): Promise<KnowledgeSearchResult> {
+  const page = Math.max(1, options.page ?? 1);
+  const pageSize = Math.max(1, options.pageSize ?? DEFAULT_SEARCH_PAGE_SIZE);
+  const entries = query.trim() ? await findEntries(userId, options) : [];
+  if (entries.length === 0) {
+    return { query, hits: [], total: 0, page, pageSize, totalPages: 1 };
+  }
+
+  const byId = new Map(entries.map((entry) => [entry.id, entry]));
+  const ranked = await hybridSearchChunks(
+    getVectorIndex(),
+    getEmbeddingProvider(),
+    query,
+    { userId, entryIds: [...byId.keys()] },
+    { titles: new Map(entries.map((entry) => [entry.id, entry.title])), perEntry: HITS_PER_ENTRY }
+  );
+
+  const { items, ...pagination } = paginate(ranked, page, pageSize);
+  return {
+    query,
+    ...pagination,
+    hits: items.map(({ chunk, snippet, score, keywordScore, vectorScore }) => {
+      const entry = byId.get(chunk.entryId) as SearchableEntry;
+      return {
+        entryId: entry.id,
+        chunkId: chunk.id,
+        title: entry.title,
+        type: entry.type,
+        url: entry.url,
+        botId: entry.botId,
+        createdAt: entry.createdAt,
+        chunkIndex: chunk.chunkIndex,
+        start: chunk.startOffset,
+        end: chunk.endOffset,
+        page: chunk.page,
+        heading: chunk.heading,
+        text: chunk.content,
+        snippet,
+        score,
+        keywordScore,
+        vectorScore,
+      };
+    }),
+  };
+}
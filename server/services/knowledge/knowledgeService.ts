@@ -0,0 +1,309 @@
+/**
+ * Knowledge Service
+ * Stores a bot's knowledge documents and the uploaded files behind them,
+ * fills in their text when processed, and reads them back per bot. Entries
+ * keep their bot, file and extraction outcome in JSON metadata; their
+ * chunks live in the vector index.
+ */
+
+import { randomUUID } from "crypto";
+import { getDb } from "../../db";
+import { knowledgeEntries } from "../../../drizzle/schema";
+import { knowledgeChunks, knowledgeJobs } from "../../../drizzle/knowledge_schema";
+import { and, asc, eq, exists, isNull, notExists, or, sql } from "drizzle-orm";
+import { logger } from "../../_core/logger";
+import { ExtractionError, extractDocument, type DocumentFormat } from "./documentExtraction";
+import { getKnowledgeStorage, knowledgeFileKey } from "./knowledgeStorage";
+import { getVectorIndex } from "./drizzleVectorIndex";
+import type { ChunkOwner } from "./vectorIndex";
+
+export class KnowledgeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "KnowledgeError";
+  }
+}
+
+export interface ExtractionMetadata {
+  // Pending until the entry's processing job reads the file
+  status: "pending" | "completed" | "failed";
+  format: DocumentFormat | null;
+  error: string | null;
+  pageCount: number | null;
+  rowCount: number | null;
+  characters: number;
+  extractedAt: string | null;
+}
+
+export interface KnowledgeMetadata {
+  botId?: number;
+  fileType?: string;
+  fileSize?: number;
+  // Where the original file is stored
+  fileKey?: string;
+  uploadedAt?: string;
+  extraction?: ExtractionMetadata;
+  [key: string]: unknown;
+}
+
+export interface KnowledgeEntryView {
+  id: number;
+  title: string;
+  type: string;
+  createdAt: Date;
+  metadata: KnowledgeMetadata;
+}
+
+export interface KnowledgeStats {
+  totalDocuments: number;
+  totalEntries: number;
+  failedDocuments: number;
+  storageUsed: number;
+  lastUpdated: Date | null;
+}
+
+/**
+ * Metadata is stored as a JSON string; older rows may hold an object or junk
+ */
+export function parseEntryMetadata(metadata: unknown): KnowledgeMetadata {
+  if (metadata && typeof metadata === "object") return metadata as KnowledgeMetadata;
+  if (typeof metadata !== "string" || !metadata) return {};
+  try {
+    const parsed: unknown = JSON.parse(metadata);
+    return parsed && typeof parsed === "object" ? (parsed as KnowledgeMetadata) : {};
+  } catch {
+    return {};
+  }
+}
+
+function toView(entry: typeof knowledgeEntries.$inferSelect): KnowledgeEntryView {
+  return {
+    id: entry.id,
+    title: entry.title,
+    type: entry.type,
+    createdAt: entry.createdAt,
+    metadata: parseEntryMetadata(entry.metadata),
+  };
+}
+
+/**
+ * Stores the uploaded file and a document entry of the bot waiting for its
+ * text; the processing job fills in the content
+ */
+export async function addKnowledgeDocument(input: {
+  userId: number;
+  botId: number;
+  fileName: string;
+  mimeType: string;
+  bytes: Buffer;
+}): Promise<KnowledgeEntryView> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const fileKey = knowledgeFileKey(randomUUID(), input.fileName);
+  const storage = getKnowledgeStorage();
+  await storage.put(fileKey, input.bytes);
+
+  const metadata: KnowledgeMetadata = {
+    botId: input.botId,
+    fileType: input.mimeType,
+    fileSize: input.bytes.length,
+    fileKey,
+    uploadedAt: new Date().toISOString(),
+    extraction: {
+      status: "pending",
+      format: null,
+      error: null,
+      pageCount: null,
+      rowCount: null,
+      characters: 0,
+      extractedAt: null,
+    },
+  };
+  try {
+    const [entry] = await db
+      .insert(knowledgeEntries)
+      .values({
+        userId: input.userId,
+        type: "document",
+        title: input.fileName,
+        content: "",
+        metadata: JSON.stringify(metadata),
+      })
+      .returning();
+    return toView(entry);
+  } catch (error) {
+    await storage.remove(fileKey).catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Reads the entry's stored file into its content. A file that cannot be read
+ * leaves the entry without content and records why, so the owner sees what
+ * went wrong; the ExtractionError is rethrown for the job to fail on.
+ */
+export async function extractKnowledgeEntry(entryId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [entry] = await db.select().from(knowledgeEntries).where(eq(knowledgeEntries.id, entryId));
+  // Deleted while queued, or added as text without a file
+  if (!entry) return;
+  const metadata = parseEntryMetadata(entry.metadata);
+  if (!metadata.fileKey) return;
+
+  const bytes = await getKnowledgeStorage().get(metadata.fileKey);
+  const extractedAt = new Date().toISOString();
+  let content = "";
+  let failure: ExtractionError | null = null;
+  try {
+    const document = extractDocument(entry.title, metadata.fileType, bytes);
+    content = document.text;
+    metadata.extraction = {
+      status: "completed",
+      format: document.format,
+      error: null,
+      pageCount: document.pageCount,
+      rowCount: document.rowCount,
+      characters: document.text.length,
+      extractedAt,
+    };
+  } catch (error) {
+    if (!(error instanceof ExtractionError)) throw error;
+    failure = error;
+    metadata.extraction = {
+      status: "failed",
+      format: null,
+      error: error.message,
+      pageCount: null,
+      rowCount: null,
+      characters: 0,
+      extractedAt,
+    };
+  }
+
+  await db
+    .update(knowledgeEntries)
+    .set({ content, metadata: JSON.stringify(metadata) })
+    .where(eq(knowledgeEntries.id, entryId));
+  if (failure) throw failure;
+}
+
+/**
+ * What the chunking stage needs of an entry; null once it is deleted
+ */
+export async function getEntryContent(
+  entryId: number
+): Promise<{ owner: ChunkOwner; content: string } | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [entry] = await db.select().from(knowledgeEntries).where(eq(knowledgeEntries.id, entryId));
+  if (!entry) return null;
+  const { botId } = parseEntryMetadata(entry.metadata);
+  return {
+    owner: { entryId, userId: entry.userId, botId: typeof botId === "number" ? botId : null },
+    content: entry.content ?? "",
+  };
+}
+
+/**
+ * Entries with text that were saved without a processing job, such as
+ * imports, and are not fully chunked and embedded yet, oldest first
+ */
+export async function listUnindexedEntryIds(limit: number): Promise<number[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const chunksOf = eq(knowledgeChunks.entryId, knowledgeEntries.id);
+  const jobsOf = eq(knowledgeJobs.entryId, knowledgeEntries.id);
+  const rows = await db
+    .select({ id: knowledgeEntries.id })
+    .from(knowledgeEntries)
+    .where(
+      and(
+        sql`btrim(coalesce(${knowledgeEntries.content}, '')) <> ''`,
+        notExists(db.select({ id: knowledgeJobs.id }).from(knowledgeJobs).where(jobsOf)),
+        or(
+          notExists(db.select({ id: knowledgeChunks.id }).from(knowledgeChunks).where(chunksOf)),
+          exists(
+            db
+              .select({ id: knowledgeChunks.id })
+              .from(knowledgeChunks)
+              .where(and(chunksOf, isNull(knowledgeChunks.embedding)))
+          )
+        )
+      )
+    )
+    .orderBy(asc(knowledgeEntries.id))
+    .limit(limit);
+  return rows.map((row) => row.id);
+}
+
+/**
+ * One of the user's entries of the bot
+ */
+export async function getBotEntry(
+  userId: number,
+  botId: number,
+  entryId: number
+): Promise<KnowledgeEntryView> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [entry] = await db
+    .select()
+    .from(knowledgeEntries)
+    .where(and(eq(knowledgeEntries.id, entryId), eq(knowledgeEntries.userId, userId)));
+  const view = entry ? toView(entry) : null;
+  if (!view || view.metadata.botId !== botId) throw new KnowledgeError("Knowledge entry not found");
+  return view;
+}
+
+/**
+ * The user's entries that belong to the bot, oldest first
+ */
+export async function listBotEntries(userId: number, botId: number): Promise<KnowledgeEntryView[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const entries = await db
+    .select()
+    .from(knowledgeEntries)
+    .where(eq(knowledgeEntries.userId, userId))
+    .orderBy(knowledgeEntries.createdAt);
+  return entries.map(toView).filter((entry) => entry.metadata.botId === botId);
+}
+
+export async function getBotKnowledgeStats(userId: number, botId: number): Promise<KnowledgeStats> {
+  const entries = await listBotEntries(userId, botId);
+  const documents = entries.filter((entry) => entry.type === "document");
+  return {
+    totalDocuments: documents.length,
+    totalEntries: entries.length,
+    failedDocuments: documents.filter((entry) => entry.metadata.extraction?.status === "failed").length,
+    storageUsed: entries.reduce((sum, entry) => sum + (entry.metadata.fileSize ?? 0), 0),
+    lastUpdated: entries.length > 0 ? entries[entries.length - 1].createdAt : null,
+  };
+}
+
+export async function deleteKnowledgeEntry(userId: number, entryId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [deleted] = await db
+    .delete(knowledgeEntries)
+    .where(and(eq(knowledgeEntries.id, entryId), eq(knowledgeEntries.userId, userId)))
+    .returning();
+  if (!deleted) throw new KnowledgeError("Knowledge entry not found");
+
+  // A job still queued for the entry finds nothing to do
+  await getVectorIndex().removeEntry(entryId);
+  const { fileKey } = parseEntryMetadata(deleted.metadata);
+  if (fileKey) {
+    await getKnowledgeStorage()
+      .remove(fileKey)
+      .catch((error) => logger.error(`Failed to remove knowledge file ${fileKey}:`, error));
+  }
+}
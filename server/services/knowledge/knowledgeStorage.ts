@@ -0,0 +1,40 @@
+/**
+ * Knowledge File Storage
+ * Uploaded knowledge files, kept for their processing job and for
+ * reprocessing later. Same kind of store as music, under its own root.
+ */
+
+import { extname } from "path";
+import { LocalMusicStorage, type MusicStorage } from "../music/musicStorage";
+
+export const DEFAULT_KNOWLEDGE_STORAGE_DIR = "storage/knowledge";
+
+/**
+ * Storage root from KNOWLEDGE_STORAGE_DIR, ./storage/knowledge by default
+ */
+export function getKnowledgeStorageDir(): string {
+  return process.env.KNOWLEDGE_STORAGE_DIR || DEFAULT_KNOWLEDGE_STORAGE_DIR;
+}
+
+/**
+ * Key of an uploaded file, e.g. "uploads/<uploadId>.pdf"; the uploaded name
+ * stays in the entry's title
+ */
+export function knowledgeFileKey(uploadId: string, fileName: string): string {
+  const extension = extname(fileName).toLowerCase();
+  return `uploads/${uploadId}${/^\.[a-z0-9]{1,10}$/.test(extension) ? extension : ""}`;
+}
+
+let knowledgeStorage: MusicStorage | null = null;
+
+export function getKnowledgeStorage(): MusicStorage {
+  if (!knowledgeStorage) knowledgeStorage = new LocalMusicStorage(getKnowledgeStorageDir());
+  return knowledgeStorage;
+}
+
+/**
+ * Swap the storage, e.g. for an object store or a temporary directory in tests
+ */
+export function setKnowledgeStorage(storage: MusicStorage | null) {
+  knowledgeStorage = storage;
+}
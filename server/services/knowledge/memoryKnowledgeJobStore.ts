@@ -0,0 +1,127 @@
+/**
+ * In-memory Knowledge Job Store
+ * Stands in for Postgres in queue tests
+ */
+
+import { isJobActive, isJobRunning, type FailureOutcome, type KnowledgeJobStage } from "./knowledgeJobPolicy";
+import {
+  DEFAULT_MAX_ATTEMPTS,
+  type KnowledgeJob,
+  type KnowledgeJobStore,
+  type NewKnowledgeJob,
+} from "./knowledgeJobStore";
+
+export class MemoryKnowledgeJobStore implements KnowledgeJobStore {
+  private readonly jobs = new Map<number, KnowledgeJob>();
+  private nextId = 1;
+
+  get(jobId: number): KnowledgeJob | undefined {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : undefined;
+  }
+
+  private attempt(jobId: number, attempt: number): KnowledgeJob | undefined {
+    const job = this.jobs.get(jobId);
+    return job && isJobRunning(job.status) && job.attempts === attempt ? job : undefined;
+  }
+
+  async enqueue(input: NewKnowledgeJob, at: Date): Promise<KnowledgeJob> {
+    const job: KnowledgeJob = {
+      id: this.nextId++,
+      userId: input.userId,
+      botId: input.botId,
+      entryId: input.entryId,
+      status: "queued",
+      attempts: 0,
+      maxAttempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      error: null,
+      runAfter: at,
+      heartbeatAt: null,
+      startedAt: null,
+      finishedAt: null,
+      createdAt: at,
+      updatedAt: at,
+    };
+    this.jobs.set(job.id, job);
+    return { ...job };
+  }
+
+  async listReady(now: Date, limit: number): Promise<KnowledgeJob[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.status === "queued" && job.runAfter <= now)
+      .sort((a, b) => a.runAfter.getTime() - b.runAfter.getTime() || a.id - b.id)
+      .slice(0, limit)
+      .map((job) => ({ ...job }));
+  }
+
+  async listAbandoned(before: Date): Promise<KnowledgeJob[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => isJobRunning(job.status) && (!job.heartbeatAt || job.heartbeatAt < before))
+      .map((job) => ({ ...job }));
+  }
+
+  async countRunningByBot(): Promise<Map<number, number>> {
+    const counts = new Map<number, number>();
+    for (const job of this.jobs.values()) {
+      if (isJobRunning(job.status)) counts.set(job.botId, (counts.get(job.botId) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  async claim(jobId: number, at: Date): Promise<KnowledgeJob | null> {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== "queued") return null;
+    Object.assign(job, {
+      status: "extracting",
+      attempts: job.attempts + 1,
+      heartbeatAt: at,
+      startedAt: at,
+      finishedAt: null,
+      updatedAt: at,
+    });
+    return { ...job };
+  }
+
+  async advance(jobId: number, attempt: number, stage: KnowledgeJobStage, at: Date): Promise<boolean> {
+    const job = this.attempt(jobId, attempt);
+    if (!job) return false;
+    Object.assign(job, { status: stage, heartbeatAt: at, updatedAt: at });
+    return true;
+  }
+
+  async complete(jobId: number, attempt: number, at: Date): Promise<void> {
+    const job = this.attempt(jobId, attempt);
+    if (job) Object.assign(job, { status: "done", error: null, finishedAt: at, updatedAt: at });
+  }
+
+  async fail(
+    jobId: number,
+    attempt: number,
+    outcome: FailureOutcome,
+    error: string,
+    at: Date
+  ): Promise<void> {
+    const job = this.attempt(jobId, attempt);
+    if (!job) return;
+    Object.assign(job, { status: outcome.status, error, heartbeatAt: null, updatedAt: at });
+    if (outcome.status === "queued") {
+      job.runAfter = outcome.runAfter;
+    } else {
+      job.finishedAt = at;
+    }
+  }
+
+  async listForBot(userId: number, botId: number): Promise<KnowledgeJob[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.userId === userId && job.botId === botId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .map((job) => ({ ...job }));
+  }
+
+  async findActiveForEntry(entryId: number): Promise<KnowledgeJob | null> {
+    for (const job of this.jobs.values()) {
+      if (job.entryId === entryId && isJobActive(job.status)) return { ...job };
+    }
+    return null;
+  }
+}
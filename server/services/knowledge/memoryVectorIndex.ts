@@ -0,0 +1,92 @@
+/**
+ * In-memory Vector Index
+ * Stands in for Postgres in indexing tests
+ */
+
+import type { TextChunk } from "./chunker";
+import {
+  rankChunks,
+  withoutEmbedding,
+  type ChunkEmbedding,
+  type ChunkOwner,
+  type IndexedChunk,
+  type KnowledgeChunk,
+  type VectorFilter,
+  type VectorHit,
+  type VectorIndex,
+} from "./vectorIndex";
+
+export class MemoryVectorIndex implements VectorIndex {
+  private chunks: KnowledgeChunk[] = [];
+  private nextId = 1;
+
+  all(): KnowledgeChunk[] {
+    return this.chunks.map((chunk) => ({ ...chunk }));
+  }
+
+  async replaceChunks(owner: ChunkOwner, chunks: TextChunk[]): Promise<IndexedChunk[]> {
+    await this.removeEntry(owner.entryId);
+    const created = chunks.map(
+      (chunk): KnowledgeChunk => ({
+        id: this.nextId++,
+        entryId: owner.entryId,
+        userId: owner.userId,
+        botId: owner.botId,
+        chunkIndex: chunk.index,
+        content: chunk.text,
+        startOffset: chunk.start,
+        endOffset: chunk.end,
+        page: chunk.page,
+        heading: chunk.heading,
+        embeddingModel: null,
+        embedding: null,
+        createdAt: new Date(),
+      })
+    );
+    this.chunks.push(...created);
+    return created.map(withoutEmbedding);
+  }
+
+  async listUnembedded(entryId: number, model: string, limit: number): Promise<IndexedChunk[]> {
+    return this.chunks
+      .filter((chunk) => chunk.entryId === entryId && (chunk.embeddingModel !== model || !chunk.embedding))
+      .sort((a, b) => a.chunkIndex - b.chunkIndex)
+      .slice(0, limit)
+      .map(withoutEmbedding);
+  }
+
+  async setEmbeddings(model: string, embeddings: ChunkEmbedding[]): Promise<void> {
+    for (const { chunkId, embedding } of embeddings) {
+      const chunk = this.chunks.find((candidate) => candidate.id === chunkId);
+      if (chunk) Object.assign(chunk, { embeddingModel: model, embedding: [...embedding] });
+    }
+  }
+
+  async removeEntry(entryId: number): Promise<void> {
+    this.chunks = this.chunks.filter((chunk) => chunk.entryId !== entryId);
+  }
+
+  async indexedEntryIds(entryIds: number[]): Promise<number[]> {
+    return entryIds.filter((entryId) => this.chunks.some((chunk) => chunk.entryId === entryId));
+  }
+
+  private matching(filter: VectorFilter): KnowledgeChunk[] {
+    return this.chunks.filter(
+      (chunk) =>
+        chunk.userId === filter.userId &&
+        (filter.botId === undefined || chunk.botId === filter.botId) &&
+        (!filter.entryIds || filter.entryIds.includes(chunk.entryId))
+    );
+  }
+
+  async listChunks(filter: VectorFilter): Promise<IndexedChunk[]> {
+    return this.matching(filter)
+      .sort((a, b) => a.entryId - b.entryId || a.chunkIndex - b.chunkIndex)
+      .map(withoutEmbedding);
+  }
+
+  async search(query: number[], model: string, filter: VectorFilter, limit: number): Promise<VectorHit[]> {
+    const embedded = this.matching(filter).filter((chunk) => chunk.embeddingModel === model);
+    return rankChunks(embedded, query, limit);
+  }
+}
@@ -0,0 +1,799 @@
+/**
+ * PDF Text
+ * Reads the text of each page of a PDF in-process: its objects (including
+ * those packed in object streams), the page tree, compressed content streams
+ * and the fonts' ToUnicode maps. Scanned pages are images and have no text.
+ */
+
+import { constants, inflateSync } from "zlib";
+
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+// Raw bytes, one char per byte; fonts decide what they mean
+class PdfString {
+  constructor(readonly bytes: string) {}
+}
+
+class PdfRef {
+  constructor(
+    readonly num: number,
+    readonly gen: number
+  ) {}
+}
+
+// A content stream or CMap keyword, e.g. Tj or beginbfchar
+class PdfOperator {
+  constructor(readonly op: string) {}
+}
+
+type PdfDict = Map<string, PdfValue>;
+type PdfValue = number | boolean | null | PdfName | PdfString | PdfRef | PdfDict | PdfValue[];
+
+interface PdfObject {
+  value: PdfValue;
+  // Offset of the stream data in the file, for stream objects
+  streamStart?: number;
+  // Already-decoded data, for objects read out of an object stream
+  data?: Buffer;
+}
+
+const ARRAY_END = Symbol("]");
+const DICT_END = Symbol(">>");
+type Token = PdfValue | PdfOperator | typeof ARRAY_END | typeof DICT_END | undefined;
+
+function isValue(token: Token): token is PdfValue {
+  return token !== undefined && token !== ARRAY_END && token !== DICT_END && !(token instanceof PdfOperator);
+}
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+// ( ) < > [ ] { } / %
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+const EOL = new Set([0x0a, 0x0d]);
+const NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+// \n \r \t \b \f in literal strings
+const ESCAPES: Record<number, number> = { 0x6e: 0x0a, 0x72: 0x0d, 0x74: 0x09, 0x62: 0x08, 0x66: 0x0c };
+
+class PdfLexer {
+  constructor(
+    readonly bytes: Buffer,
+    public pos = 0
+  ) {}
+
+  skipSpace() {
+    while (this.pos < this.bytes.length) {
+      const byte = this.bytes[this.pos];
+      if (WHITESPACE.has(byte)) {
+        this.pos++;
+      } else if (byte === 0x25) {
+        while (this.pos < this.bytes.length && !EOL.has(this.bytes[this.pos])) this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  startsWith(text: string): boolean {
+    return this.bytes.toString("latin1", this.pos, this.pos + text.length) === text;
+  }
+
+  /**
+   * The next value or operator; `N G R` is read as one reference
+   */
+  next(): Token {
+    const token = this.token();
+    if (typeof token !== "number" || !Number.isInteger(token) || token < 0) return token;
+
+    const mark = this.pos;
+    const gen = this.token();
+    if (typeof gen === "number" && Number.isInteger(gen)) {
+      const keyword = this.token();
+      if (keyword instanceof PdfOperator && keyword.op === "R") return new PdfRef(token, gen);
+    }
+    this.pos = mark;
+    return token;
+  }
+
+  private token(): Token {
+    this.skipSpace();
+    if (this.pos >= this.bytes.length) return undefined;
+
+    const byte = this.bytes[this.pos];
+    if (byte === 0x5b) {
+      this.pos++;
+      const items: PdfValue[] = [];
+      for (let item = this.next(); item !== ARRAY_END && item !== undefined; item = this.next()) {
+        if (isValue(item)) items.push(item);
+      }
+      return items;
+    }
+    if (byte === 0x5d) {
+      this.pos++;
+      return ARRAY_END;
+    }
+    if (byte === 0x3c && this.bytes[this.pos + 1] === 0x3c) {
+      this.pos += 2;
+      const dict: PdfDict = new Map();
+      for (let key = this.next(); key !== DICT_END && key !== undefined; key = this.next()) {
+        if (!(key instanceof PdfName)) continue;
+        const value = this.next();
+        if (value === DICT_END || value === undefined) break;
+        if (isValue(value)) dict.set(key.name, value);
+      }
+      return dict;
+    }
+    if (byte === 0x3e && this.bytes[this.pos + 1] === 0x3e) {
+      this.pos += 2;
+      return DICT_END;
+    }
+    if (byte === 0x3c) return this.hexString();
+    if (byte === 0x28) return this.literalString();
+    if (byte === 0x2f) {
+      this.pos++;
+      const escaped = /#([0-9a-fA-F]{2})/g;
+      return new PdfName(this.regular().replace(escaped, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+    }
+
+    const word = this.regular();
+    if (!word) {
+      // A stray delimiter such as ) or }
+      this.pos++;
+      return this.token();
+    }
+    if (NUMBER.test(word)) return Number(word);
+    if (word === "true" || word === "false") return word === "true";
+    if (word === "null") return null;
+    return new PdfOperator(word);
+  }
+
+  private regular(): string {
+    const start = this.pos;
+    while (
+      this.pos < this.bytes.length &&
+      !WHITESPACE.has(this.bytes[this.pos]) &&
+      !DELIMITERS.has(this.bytes[this.pos])
+    ) {
+      this.pos++;
+    }
+    return this.bytes.toString("latin1", start, this.pos);
+  }
+
+  private hexString(): PdfString {
+    const end = this.bytes.indexOf(0x3e, this.pos);
+    const stop = end < 0 ? this.bytes.length : end;
+    let hex = this.bytes.toString("latin1", this.pos + 1, stop).replace(/[^0-9a-fA-F]/g, "");
+    this.pos = stop + 1;
+    if (hex.length % 2) hex += "0";
+    return new PdfString(Buffer.from(hex, "hex").toString("latin1"));
+  }
+
+  private literalString(): PdfString {
+    const out: number[] = [];
+    let depth = 1;
+    this.pos++;
+    while (this.pos < this.bytes.length) {
+      const byte = this.bytes[this.pos++];
+      if (byte === 0x5c) {
+        const escaped = this.bytes[this.pos++];
+        if (escaped in ESCAPES) {
+          out.push(ESCAPES[escaped]);
+        } else if (escaped >= 0x30 && escaped <= 0x37) {
+          let code = escaped - 0x30;
+          for (let i = 0; i < 2 && this.bytes[this.pos] >= 0x30 && this.bytes[this.pos] <= 0x37; i++) {
+            code = code * 8 + (this.bytes[this.pos++] - 0x30);
+          }
+          out.push(code & 0xff);
+        } else if (escaped === 0x0d) {
+          // Line continuation
+          if (this.bytes[this.pos] === 0x0a) this.pos++;
+        } else if (escaped !== 0x0a) {
+          out.push(escaped);
+        }
+      } else if (byte === 0x28) {
+        depth++;
+        out.push(byte);
+      } else if (byte === 0x29) {
+        if (--depth === 0) break;
+        out.push(byte);
+      } else {
+        out.push(byte);
+      }
+    }
+    return new PdfString(Buffer.from(out).toString("latin1"));
+  }
+
+  /**
+   * Past the binary data of an inline image, after its ID operator
+   */
+  skipInlineImage() {
+    const end = /\sEI(?=\s|$)/g;
+    end.lastIndex = this.pos;
+    const match = end.exec(this.bytes.toString("latin1"));
+    this.pos = match ? match.index + match[0].length : this.bytes.length;
+  }
+}
+
+function ascii85Decode(data: Buffer): Buffer {
+  const text = data.toString("latin1").replace(/\s/g, "").replace(/~>.*$/, "");
+  const out: number[] = [];
+  let group: number[] = [];
+  const flush = (count: number) => {
+    let value = 0;
+    for (let i = 0; i < 5; i++) value = value * 85 + (group[i] ?? 84);
+    for (let i = 0; i < count - 1; i++) out.push((value >>> (24 - 8 * i)) & 0xff);
+    group = [];
+  };
+  for (const char of text) {
+    if (char === "z" && group.length === 0) {
+      out.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(char.charCodeAt(0) - 33);
+    if (group.length === 5) flush(5);
+  }
+  if (group.length > 0) flush(group.length);
+  return Buffer.from(out);
+}
+
+// Four times the largest upload; a stream that inflates further is refused
+const MAX_INFLATED_BYTES = 40 * 1024 * 1024;
+
+function inflate(data: Buffer): Buffer {
+  try {
+    return inflateSync(data, { maxOutputLength: MAX_INFLATED_BYTES });
+  } catch (error) {
+    if (error instanceof RangeError) throw error;
+    // Truncated or padded streams still give up what they hold
+    return inflateSync(data, { finishFlush: constants.Z_SYNC_FLUSH, maxOutputLength: MAX_INFLATED_BYTES });
+  }
+}
+
+interface PdfPage {
+  dict: PdfDict;
+  resources: PdfDict | undefined;
+}
+
+interface PdfFont {
+  decode(bytes: string): string;
+}
+
+// Glyph names that Differences arrays commonly use for punctuation and digits
+const GLYPH_NAMES: Record<string, string> = {
+  space: " ",
+  exclam: "!",
+  quotedbl: '"',
+  numbersign: "#",
+  dollar: "$",
+  percent: "%",
+  ampersand: "&",
+  quotesingle: "'",
+  parenleft: "(",
+  parenright: ")",
+  asterisk: "*",
+  plus: "+",
+  comma: ",",
+  hyphen: "-",
+  period: ".",
+  slash: "/",
+  colon: ":",
+  semicolon: ";",
+  less: "<",
+  equal: "=",
+  greater: ">",
+  question: "?",
+  at: "@",
+  bracketleft: "[",
+  backslash: "\\",
+  bracketright: "]",
+  underscore: "_",
+  quoteleft: "‘",
+  quoteright: "’",
+  quotedblleft: "“",
+  quotedblright: "”",
+  endash: "–",
+  emdash: "—",
+  bullet: "•",
+  ellipsis: "…",
+  fi: "fi",
+  fl: "fl",
+  zero: "0",
+  one: "1",
+  two: "2",
+  three: "3",
+  four: "4",
+  five: "5",
+  six: "6",
+  seven: "7",
+  eight: "8",
+  nine: "9",
+};
+
+// WinAnsiEncoding where it differs from Latin-1
+const WIN_ANSI: Record<number, string> = {
+  0x80: "€",
+  0x82: "‚",
+  0x83: "ƒ",
+  0x84: "„",
+  0x85: "…",
+  0x86: "†",
+  0x87: "‡",
+  0x88: "ˆ",
+  0x89: "‰",
+  0x8a: "Š",
+  0x8b: "‹",
+  0x8c: "Œ",
+  0x8e: "Ž",
+  0x91: "‘",
+  0x92: "’",
+  0x93: "“",
+  0x94: "”",
+  0x95: "•",
+  0x96: "–",
+  0x97: "—",
+  0x98: "˜",
+  0x99: "™",
+  0x9a: "š",
+  0x9b: "›",
+  0x9c: "œ",
+  0x9e: "ž",
+  0x9f: "Ÿ",
+};
+
+function glyphToText(glyph: string): string | undefined {
+  if (glyph in GLYPH_NAMES) return GLYPH_NAMES[glyph];
+  if (/^[A-Za-z]$/.test(glyph)) return glyph;
+  const unicode = /^uni([0-9A-F]{4})$/.exec(glyph);
+  return unicode ? String.fromCharCode(parseInt(unicode[1], 16)) : undefined;
+}
+
+function utf16be(bytes: string): string {
+  const buffer = Buffer.from(bytes, "latin1");
+  // swap16 needs an even length
+  const even = buffer.subarray(0, buffer.length - (buffer.length % 2));
+  return Buffer.from(even).swap16().toString("utf16le");
+}
+
+class PdfDocument {
+  private readonly objects = new Map<number, PdfObject>();
+  private readonly trailers: PdfDict[] = [];
+  private readonly fonts = new Map<PdfDict, PdfFont>();
+
+  constructor(private readonly bytes: Buffer) {
+    this.scanObjects();
+    this.unpackObjectStreams();
+  }
+
+  private scanObjects() {
+    const text = this.bytes.toString("latin1");
+    const header = /(\d+)\s+(\d+)\s+obj\b/g;
+    for (let match = header.exec(text); match; match = header.exec(text)) {
+      const lexer = new PdfLexer(this.bytes, match.index + match[0].length);
+      const value = lexer.next();
+      if (!isValue(value)) continue;
+
+      const object: PdfObject = { value };
+      lexer.skipSpace();
+      if (lexer.startsWith("stream")) {
+        let start = lexer.pos + "stream".length;
+        if (this.bytes[start] === 0x0d) start++;
+        if (this.bytes[start] === 0x0a) start++;
+        object.streamStart = start;
+        // Do not look for objects inside the stream's data
+        const end = text.indexOf("endstream", start);
+        if (end > 0) header.lastIndex = end;
+      }
+      // Later definitions are incremental updates and win
+      this.objects.set(Number(match[1]), object);
+    }
+
+    const trailer = /trailer\s*<</g;
+    for (let match = trailer.exec(text); match; match = trailer.exec(text)) {
+      const dict = new PdfLexer(this.bytes, match.index + "trailer".length).next();
+      if (dict instanceof Map) this.trailers.push(dict);
+    }
+  }
+
+  private unpackObjectStreams() {
+    for (const object of Array.from(this.objects.values())) {
+      const dict = object.value instanceof Map ? object.value : undefined;
+      if (!dict) continue;
+      if (this.name(dict.get("Type")) === "XRef") {
+        this.trailers.push(dict);
+        continue;
+      }
+      if (this.name(dict.get("Type")) !== "ObjStm") continue;
+
+      const data = this.streamData(object);
+      const count = this.number(dict.get("N"));
+      const first = this.number(dict.get("First"));
+      if (!data || count === undefined || first === undefined) continue;
+
+      const lexer = new PdfLexer(data);
+      const entries: Array<[number, number]> = [];
+      for (let i = 0; i < count; i++) {
+        const num = lexer.next();
+        const offset = lexer.next();
+        if (typeof num === "number" && typeof offset === "number") entries.push([num, offset]);
+      }
+      for (const [num, offset] of entries) {
+        if (this.objects.has(num)) continue;
+        const value = new PdfLexer(data, first + offset).next();
+        if (isValue(value)) this.objects.set(num, { value });
+      }
+    }
+  }
+
+  get encrypted(): boolean {
+    return this.trailers.some((trailer) => trailer.has("Encrypt"));
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (!(value instanceof PdfRef)) return value;
+    if (depth > 32) return undefined;
+    return this.resolve(this.objects.get(value.num)?.value, depth + 1);
+  }
+
+  dict(value: PdfValue | undefined): PdfDict | undefined {
+    const resolved = this.resolve(value);
+    return resolved instanceof Map ? resolved : undefined;
+  }
+
+  array(value: PdfValue | undefined): PdfValue[] {
+    const resolved = this.resolve(value);
+    return Array.isArray(resolved) ? resolved : [];
+  }
+
+  name(value: PdfValue | undefined): string | undefined {
+    const resolved = this.resolve(value);
+    return resolved instanceof PdfName ? resolved.name : undefined;
+  }
+
+  number(value: PdfValue | undefined): number | undefined {
+    const resolved = this.resolve(value);
+    return typeof resolved === "number" ? resolved : undefined;
+  }
+
+  /**
+   * Decoded data of a stream, or null for filters that do not carry text
+   */
+  streamData(object: PdfObject | undefined): Buffer | null {
+    if (!object || !(object.value instanceof Map)) return null;
+    if (object.data) return object.data;
+    if (object.streamStart === undefined) return null;
+
+    const start = object.streamStart;
+    const length = this.number(object.value.get("Length"));
+    let raw: Buffer;
+    if (
+      length !== undefined &&
+      start + length <= this.bytes.length &&
+      /^\s*endstream/.test(this.bytes.toString("latin1", start + length, start + length + 20))
+    ) {
+      raw = this.bytes.subarray(start, start + length);
+    } else {
+      // No usable Length: the data runs to endstream, less its end-of-line
+      const endstream = this.bytes.indexOf("endstream", start, "latin1");
+      let end = endstream < 0 ? this.bytes.length : endstream;
+      if (this.bytes[end - 1] === 0x0a) end--;
+      if (this.bytes[end - 1] === 0x0d) end--;
+      raw = this.bytes.subarray(start, Math.max(start, end));
+    }
+
+    const filter = this.resolve(object.value.get("Filter"));
+    const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map((f) => this.name(f));
+    let data = raw;
+    for (const name of filters) {
+      if (name === "FlateDecode" || name === "Fl") {
+        data = inflate(data);
+      } else if (name === "ASCIIHexDecode" || name === "AHx") {
+        data = Buffer.from(data.toString("latin1").replace(/[^0-9a-fA-F]/g, ""), "hex");
+      } else if (name === "ASCII85Decode" || name === "A85") {
+        data = ascii85Decode(data);
+      } else {
+        return null;
+      }
+    }
+    object.data = data;
+    return data;
+  }
+
+  private objectOf(value: PdfValue | undefined): PdfObject | undefined {
+    return value instanceof PdfRef ? this.objects.get(value.num) : undefined;
+  }
+
+  private catalog(): PdfDict | undefined {
+    for (const trailer of [...this.trailers].reverse()) {
+      const root = this.dict(trailer.get("Root"));
+      if (root) return root;
+    }
+    for (const object of this.objects.values()) {
+      const dict = object.value instanceof Map ? object.value : undefined;
+      if (dict && this.name(dict.get("Type")) === "Catalog") return dict;
+    }
+    return undefined;
+  }
+
+  /**
+   * Pages in reading order, with the resources each one inherits
+   */
+  pages(): PdfPage[] {
+    const pages: PdfPage[] = [];
+    const seen = new Set<PdfDict>();
+    const walk = (node: PdfDict, resources: PdfDict | undefined, depth: number) => {
+      if (seen.has(node) || depth > 64) return;
+      seen.add(node);
+      const own = this.dict(node.get("Resources")) ?? resources;
+      if (node.has("Kids")) {
+        for (const kid of this.array(node.get("Kids"))) {
+          const child = this.dict(kid);
+          if (child) walk(child, own, depth + 1);
+        }
+      } else {
+        pages.push({ dict: node, resources: own });
+      }
+    };
+
+    const root = this.dict(this.catalog()?.get("Pages"));
+    if (root) walk(root, undefined, 0);
+    if (pages.length > 0) return pages;
+
+    // No usable page tree: take page objects in the order they were written
+    return Array.from(this.objects.entries())
+      .sort(([a], [b]) => a - b)
+      .flatMap(([, object]) =>
+        object.value instanceof Map && this.name(object.value.get("Type")) === "Page"
+          ? [{ dict: object.value, resources: this.dict(object.value.get("Resources")) }]
+          : []
+      );
+  }
+
+  private contentOf(value: PdfValue | undefined): Buffer {
+    const parts = Array.isArray(this.resolve(value)) ? this.array(value) : [value];
+    return Buffer.concat(
+      parts.flatMap((part) => {
+        const data = this.streamData(this.objectOf(part));
+        return data ? [data, Buffer.from("\n")] : [];
+      })
+    );
+  }
+
+  private font(resources: PdfDict | undefined, name: string): PdfFont | undefined {
+    const dict = this.dict(this.dict(resources?.get("Font"))?.get(name));
+    if (!dict) return undefined;
+    let font = this.fonts.get(dict);
+    if (!font) {
+      font = this.buildFont(dict);
+      this.fonts.set(dict, font);
+    }
+    return font;
+  }
+
+  private buildFont(dict: PdfDict): PdfFont {
+    const cmapData = this.streamData(this.objectOf(dict.get("ToUnicode")));
+    const cmap = cmapData ? parseToUnicode(cmapData) : null;
+    const composite = this.name(dict.get("Subtype")) === "Type0";
+
+    const differences = new Map<number, string>();
+    let code = 0;
+    for (const entry of this.array(this.dict(dict.get("Encoding"))?.get("Differences"))) {
+      if (typeof entry === "number") {
+        code = entry;
+      } else if (entry instanceof PdfName) {
+        const text = glyphToText(entry.name);
+        if (text !== undefined) differences.set(code, text);
+        code++;
+      }
+    }
+
+    const simple = (byte: number) =>
+      differences.get(byte) ?? WIN_ANSI[byte] ?? (byte >= 0x20 ? String.fromCharCode(byte) : "");
+
+    return {
+      decode(bytes: string): string {
+        if (cmap) {
+          let text = "";
+          for (let i = 0; i < bytes.length; i += cmap.codeLength) {
+            let code = 0;
+            for (let j = 0; j < cmap.codeLength; j++) code = code * 256 + (bytes.charCodeAt(i + j) || 0);
+            text += cmap.map.get(code) ?? (cmap.codeLength === 1 ? simple(code) : "");
+          }
+          return text;
+        }
+        // Two-byte glyph IDs cannot be read without a ToUnicode map
+        if (composite) return "";
+        return Array.from(bytes, (char) => simple(char.charCodeAt(0))).join("");
+      },
+    };
+  }
+
+  /**
+   * The text a content stream draws, one line per text line
+   */
+  pageText(page: PdfPage): string {
+    const out: string[] = [];
+    this.runContent(this.contentOf(page.dict.get("Contents")), page.resources, out, 0);
+    return out
+      .join("")
+      .split("\n")
+      .map((line) => line.replace(/[ \t]+/g, " ").trim())
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+
+  private runContent(content: Buffer, resources: PdfDict | undefined, out: string[], depth: number) {
+    const lexer = new PdfLexer(content);
+    let operands: PdfValue[] = [];
+    let font: PdfFont | undefined;
+    let lineY: number | null = null;
+
+    const last = () => out[out.length - 1] ?? "\n";
+    const newline = () => {
+      if (!last().endsWith("\n")) out.push("\n");
+    };
+    const space = () => {
+      if (!/\s$/.test(last())) out.push(" ");
+    };
+    const show = (value: PdfValue | undefined) => {
+      if (value instanceof PdfString && font) out.push(font.decode(value.bytes));
+    };
+
+    for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+      if (!(token instanceof PdfOperator)) {
+        if (isValue(token)) operands.push(token);
+        continue;
+      }
+
+      const numbers = operands.map((operand) => (typeof operand === "number" ? operand : 0));
+      switch (token.op) {
+        case "BT":
+          lineY = null;
+          break;
+        case "Tf": {
+          const name = operands[0] instanceof PdfName ? operands[0].name : "";
+          font = this.font(resources, name);
+          break;
+        }
+        case "Td":
+        case "TD":
+          if (numbers[1] !== 0) {
+            newline();
+          } else if (numbers[0] > 0) {
+            space();
+          }
+          break;
+        case "Tm": {
+          const y = numbers[5];
+          if (lineY !== null && Math.abs(y - lineY) > 1) {
+            newline();
+          } else if (lineY !== null) {
+            space();
+          }
+          lineY = y;
+          break;
+        }
+        case "T*":
+          newline();
+          break;
+        case "Tj":
+          show(operands[0]);
+          break;
+        case "'":
+          newline();
+          show(operands[0]);
+          break;
+        case '"':
+          newline();
+          show(operands[2]);
+          break;
+        case "TJ":
+          for (const part of Array.isArray(operands[0]) ? operands[0] : []) {
+            // Kerning in thousandths of an em; a wide gap is a word break
+            if (typeof part === "number" && part < -180) space();
+            show(part);
+          }
+          break;
+        case "ET":
+          space();
+          break;
+        case "Do": {
+          const name = operands[0] instanceof PdfName ? operands[0].name : "";
+          const ref = this.dict(resources?.get("XObject"))?.get(name);
+          const form = this.objectOf(ref);
+          if (depth < 4 && form?.value instanceof Map && this.name(form.value.get("Subtype")) === "Form") {
+            const data = this.streamData(form);
+            const formResources = this.dict(form.value.get("Resources")) ?? resources;
+            if (data) this.runContent(data, formResources, out, depth + 1);
+          }
+          break;
+        }
+        case "ID":
+          lexer.skipInlineImage();
+          break;
+      }
+      operands = [];
+    }
+  }
+}
+
+interface ToUnicodeMap {
+  codeLength: number;
+  map: Map<number, string>;
+}
+
+function parseToUnicode(data: Buffer): ToUnicodeMap {
+  const lexer = new PdfLexer(data);
+  const map = new Map<number, string>();
+  let codeLength = 0;
+  const codeOf = (value: PdfString) => {
+    let code = 0;
+    for (const char of value.bytes) code = code * 256 + char.charCodeAt(0);
+    return code;
+  };
+
+  let section = "";
+  let operands: PdfValue[] = [];
+  for (let token = lexer.next(); token !== undefined; token = lexer.next()) {
+    if (token instanceof PdfOperator) {
+      if (token.op.startsWith("begin")) section = token.op;
+      if (token.op.startsWith("end")) section = "";
+      operands = [];
+      continue;
+    }
+    if (!isValue(token)) continue;
+    operands.push(token);
+
+    if (section === "begincodespacerange" && operands.length === 2) {
+      const [low] = operands;
+      if (low instanceof PdfString) codeLength = Math.max(codeLength, low.bytes.length);
+      operands = [];
+    } else if (section === "beginbfchar" && operands.length === 2) {
+      const [source, target] = operands;
+      if (source instanceof PdfString && target instanceof PdfString) {
+        map.set(codeOf(source), utf16be(target.bytes));
+        codeLength ||= source.bytes.length;
+      }
+      operands = [];
+    } else if (section === "beginbfrange" && operands.length === 3) {
+      const [low, high, target] = operands;
+      if (low instanceof PdfString && high instanceof PdfString) {
+        const from = codeOf(low);
+        const to = Math.min(codeOf(high), from + 0xffff);
+        codeLength ||= low.bytes.length;
+        for (let code = from; code <= to; code++) {
+          if (Array.isArray(target)) {
+            const item = target[code - from];
+            if (item instanceof PdfString) map.set(code, utf16be(item.bytes));
+          } else if (target instanceof PdfString) {
+            // The last UTF-16 unit counts up through the range
+            const base = utf16be(target.bytes);
+            const lastUnit = base.charCodeAt(base.length - 1) + (code - from);
+            map.set(code, base.slice(0, -1) + String.fromCharCode(lastUnit));
+          }
+        }
+      }
+      operands = [];
+    }
+  }
+  return { codeLength: codeLength || 1, map };
+}
+
+export interface PdfText {
+  // Text of each page, in order; empty for pages without text
+  pages: string[];
+}
+
+export function extractPdfText(bytes: Buffer): PdfText {
+  if (!bytes.subarray(0, 1024).toString("latin1").includes("%PDF-")) {
+    throw new Error("Not a PDF file");
+  }
+  const document = new PdfDocument(bytes);
+  if (document.encrypted) {
+    throw new Error("Password-protected PDFs are not supported");
+  }
+
+  const pages = document.pages();
+  if (pages.length === 0) throw new Error("The PDF has no pages");
+  return { pages: pages.map((page) => document.pageText(page)) };
+}
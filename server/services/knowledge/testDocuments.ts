@@ -0,0 +1,219 @@
+/**
+ * Synthetic PDF, ZIP and DOCX files for tests: valid structure around
+ * a few lines of text
+ */
+
+import { deflateRawSync, deflateSync } from "zlib";
+
+function ascii(text: string) {
+  return Buffer.from(text, "latin1");
+}
+
+/**
+ * A text object drawing each line below the last, e.g. with font "F1"
+ */
+export function pdfTextLines(lines: string[], font = "F1"): string {
+  const shown = lines.map((line) => `(${line.replace(/([\\()])/g, "\\$1")}) Tj`).join(" 0 -14 Td ");
+  return `BT /${font} 12 Tf 72 720 Td ${shown} ET`;
+}
+
+// Type0 font whose two-byte codes 0x0001-0x001A map to A-Z and 0x0020 to a space
+const TO_UNICODE = [
+  "/CIDInit /ProcSet findresource begin 12 dict begin begincmap",
+  "1 begincodespacerange <0000> <FFFF> endcodespacerange",
+  "1 beginbfchar <0020> <0020> endbfchar",
+  "1 beginbfrange <0001> <001A> <0041> endbfrange",
+  "endcmap CMapName currentdict /CMap defineresource pop end end",
+].join("\n");
+
+/**
+ * Hex string in the Type0 font "F2" for uppercase text
+ */
+export function pdfComposite(text: string): string {
+  const codes = Array.from(text, (char) => (char === " " ? 0x20 : char.charCodeAt(0) - 0x40));
+  return `<${codes.map((code) => code.toString(16).padStart(4, "0")).join("")}>`;
+}
+
+export interface PdfOptions {
+  // Flate-compress the content streams
+  compress?: boolean;
+  // Pack the catalog, page tree and fonts into an object stream
+  objectStream?: boolean;
+  encrypted?: boolean;
+}
+
+/**
+ * A PDF with one page per content stream, fonts F1 (Helvetica) and F2
+ * (Type0 with a ToUnicode map)
+ */
+export function buildPdf(contents: string[], options: PdfOptions = {}): Buffer {
+  const pageIds = contents.map((_, i) => 6 + i * 2);
+  const dicts = new Map<number, string>([
+    [1, "<< /Type /Catalog /Pages 2 0 R >>"],
+    [2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${contents.length} >>`],
+    [3, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"],
+    [4, "<< /Type /Font /Subtype /Type0 /BaseFont /Sans /Encoding /Identity-H /ToUnicode 5 0 R >>"],
+  ]);
+  const streams = new Map<number, Buffer>([[5, ascii(TO_UNICODE)]]);
+  pageIds.forEach((id, i) => {
+    dicts.set(
+      id,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${id + 1} 0 R >>`
+    );
+    streams.set(id + 1, ascii(contents[i]));
+  });
+
+  const parts: Buffer[] = [ascii("%PDF-1.7\n%\xe2\xe3\xcf\xd3\n")];
+  const offsets = new Map<number, number>();
+  const write = (id: number, body: Buffer) => {
+    offsets.set(id, parts.reduce((sum, part) => sum + part.length, 0));
+    parts.push(ascii(`${id} 0 obj\n`), body, ascii("\nendobj\n"));
+  };
+  const stream = (data: Buffer, extra = "") => {
+    const encoded = options.compress ? deflateSync(data) : data;
+    const filter = options.compress ? " /Filter /FlateDecode" : "";
+    return Buffer.concat([
+      ascii(`<< /Length ${encoded.length}${filter}${extra} >>\nstream\n`),
+      encoded,
+      ascii("\nendstream"),
+    ]);
+  };
+
+  let size = 6 + contents.length * 2;
+  if (options.objectStream) {
+    // Objects in a stream are stored back to back after a header of "id offset" pairs
+    let body = "";
+    const header: string[] = [];
+    for (const [id, dict] of dicts) {
+      header.push(`${id} ${body.length}`);
+      body += `${dict}\n`;
+    }
+    const head = `${header.join(" ")}\n`;
+    write(size, stream(ascii(head + body), ` /Type /ObjStm /N ${dicts.size} /First ${head.length}`));
+    size++;
+  } else {
+    for (const [id, dict] of dicts) write(id, ascii(dict));
+  }
+  for (const [id, data] of streams) write(id, stream(data));
+
+  const xrefOffset = parts.reduce((sum, part) => sum + part.length, 0);
+  const rows = ["0000000000 65535 f "];
+  for (let id = 1; id < size; id++) {
+    const offset = offsets.get(id);
+    rows.push(offset === undefined ? "0000000000 00000 f " : `${String(offset).padStart(10, "0")} 00000 n `);
+  }
+  const encrypt = options.encrypted ? " /Encrypt << /Filter /Standard /V 2 /R 3 >>" : "";
+  parts.push(
+    ascii(`xref\n0 ${size}\n${rows.join("\n")}\n`),
+    ascii(`trailer\n<< /Size ${size} /Root 1 0 R${encrypt} >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+  );
+  return Buffer.concat(parts);
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer) {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * A ZIP archive of the given files, deflated unless stored is set
+ */
+export function buildZip(files: Record<string, string | Buffer>, stored = false): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const data = Buffer.isBuffer(content) ? content : Buffer.from(content, "utf8");
+    const compressed = stored ? data : deflateRawSync(data);
+    const nameBytes = Buffer.from(name, "utf8");
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(stored ? 0 : 8, 8);
+    local.writeUInt32LE(crc32(data), 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(stored ? 0 : 8, 10);
+    central.writeUInt32LE(crc32(data), 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, compressed);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const WORD_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+function escapeXml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * A paragraph, optionally styled ("Heading1") or numbered as a list item
+ */
+export function docxParagraph(text: string, options: { style?: string; list?: boolean } = {}): string {
+  const style = options.style ? `<w:pStyle w:val="${options.style}"/>` : "";
+  const list = options.list ? '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="1"/></w:numPr>' : "";
+  const properties = style || list ? `<w:pPr>${style}${list}</w:pPr>` : "";
+  return `<w:p>${properties}<w:r><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p>`;
+}
+
+export function docxTable(rows: string[][]): string {
+  const cells = (row: string[]) => row.map((cell) => `<w:tc>${docxParagraph(cell)}</w:tc>`).join("");
+  return `<w:tbl>${rows.map((row) => `<w:tr>${cells(row)}</w:tr>`).join("")}</w:tbl>`;
+}
+
+// Built-in heading styles as Word writes them, plus a renamed one found by outline level
+const STYLES = [
+  `<w:styles ${WORD_NS}>`,
+  '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/></w:style>',
+  '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/></w:style>',
+  '<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/></w:style>',
+  '<w:style w:type="paragraph" w:styleId="Chapter"><w:name w:val="Chapter"/>',
+  '<w:pPr><w:outlineLvl w:val="0"/></w:pPr></w:style>',
+  "</w:styles>",
+].join("");
+
+/**
+ * A Word document with the given body XML, e.g. from docxParagraph
+ */
+export function buildDocx(body: string, pages?: number): Buffer {
+  const files: Record<string, string> = {
+    "[Content_Types].xml": '<?xml version="1.0" encoding="UTF-8"?><Types/>',
+    "word/document.xml":
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<w:document ${WORD_NS}><w:body>${body}<w:sectPr/></w:body></w:document>`,
+    "word/styles.xml": STYLES,
+  };
+  if (pages !== undefined) files["docProps/app.xml"] = `<Properties><Pages>${pages}</Pages></Properties>`;
+  return buildZip(files);
+}
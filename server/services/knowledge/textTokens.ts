@@ -0,0 +1,64 @@
+/**
+ * Text Tokens
+ * Lowercase word tokens shared by local embeddings and keyword search, so
+ * both see a word the same with or without its accents
+ */
+
+// Words too common to say anything about a passage
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be but by for from has have he her his i if in into is it its me my not of on " +
+    "or our she so than that the their them then there these they this to was we were what when which " +
+    "who will with you your"
+  ).split(" ")
+);
+
+export function normalizeWord(word: string): string {
+  return word
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase();
+}
+
+export interface TokenSpan {
+  token: string;
+  // Where the word is in the text, end exclusive
+  start: number;
+  end: number;
+}
+
+/**
+ * Word tokens in order with their place in the text, without stopwords or
+ * single letters
+ */
+export function tokenSpans(text: string): TokenSpan[] {
+  const spans: TokenSpan[] = [];
+  for (const match of text.matchAll(/[\p{L}\p{N}]+(?:['\u2019][\p{L}]+)*/gu)) {
+    const token = normalizeWord(match[0]).replace(/['\u2019]s$/, "").replace(/['\u2019]/g, "");
+    if (token.length > 1 && !STOPWORDS.has(token)) {
+      const start = match.index ?? 0;
+      spans.push({ token, start, end: start + match[0].length });
+    }
+  }
+  return spans;
+}
+
+export function tokenize(text: string): string[] {
+  return tokenSpans(text).map((span) => span.token);
+}
+
+/**
+ * Crude English suffix stripping for keyword matching, so "tomatoes" finds
+ * "tomato" and "pruning" finds "prune"
+ */
+export function stemWord(token: string): string {
+  if (token.length <= 3) return token;
+  let stem = token;
+  if (stem.endsWith("ies") && stem.length > 4) stem = `${stem.slice(0, -3)}y`;
+  else if (/(?:ch|sh|ss|x|o)es$/.test(stem)) stem = stem.slice(0, -2);
+  else if (stem.endsWith("ing") && stem.length > 5) stem = stem.slice(0, -3).replace(/(.)\1$/, "$1");
+  else if (stem.endsWith("ed") && stem.length > 4) stem = stem.slice(0, -2).replace(/(.)\1$/, "$1");
+  else if (stem.endsWith("s") && !/(?:ss|us)$/.test(stem)) stem = stem.slice(0, -1);
+  // "make", "makes" and "making" all become "mak"
+  return stem.length > 3 && stem.endsWith("e") ? stem.slice(0, -1) : stem;
+}
@@ -0,0 +1,101 @@
+/**
+ * Vector Index
+ * Where knowledge chunks and their embeddings are kept and searched, so
+ * indexing can run against Postgres in production and in memory in tests
+ */
+
+import type { KnowledgeChunk } from "../../../drizzle/knowledge_schema";
+import type { TextChunk } from "./chunker";
+
+export type { KnowledgeChunk };
+
+// What search hands back; vectors stay in the index
+export type IndexedChunk = Omit<KnowledgeChunk, "embedding">;
+
+export interface ChunkOwner {
+  entryId: number;
+  userId: number;
+  botId: number | null;
+}
+
+export interface VectorFilter {
+  userId: number;
+  // Only the bot's chunks; null for chunks of no bot, undefined for all
+  botId?: number | null;
+  entryIds?: number[];
+}
+
+export interface VectorHit {
+  chunk: IndexedChunk;
+  // Cosine similarity, 1 for the same direction
+  score: number;
+}
+
+export interface ChunkEmbedding {
+  chunkId: number;
+  embedding: number[];
+}
+
+export interface VectorIndex {
+  /**
+   * Replace all chunks of the entry with new ones waiting to be embedded
+   */
+  replaceChunks(owner: ChunkOwner, chunks: TextChunk[]): Promise<IndexedChunk[]>;
+
+  /**
+   * Chunks of the entry without an embedding from the model, in order
+   */
+  listUnembedded(entryId: number, model: string, limit: number): Promise<IndexedChunk[]>;
+
+  setEmbeddings(model: string, embeddings: ChunkEmbedding[]): Promise<void>;
+
+  removeEntry(entryId: number): Promise<void>;
+
+  /**
+   * Those of the entries that have any chunks
+   */
+  indexedEntryIds(entryIds: number[]): Promise<number[]>;
+
+  /**
+   * The owner's chunks, embedded or not, for keyword search
+   */
+  listChunks(filter: VectorFilter): Promise<IndexedChunk[]>;
+
+  /**
+   * The chunks embedded by the model nearest to the query, best first
+   */
+  search(query: number[], model: string, filter: VectorFilter, limit: number): Promise<VectorHit[]>;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let lengthA = 0;
+  let lengthB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    lengthA += a[i] * a[i];
+    lengthB += b[i] * b[i];
+  }
+  return lengthA > 0 && lengthB > 0 ? dot / Math.sqrt(lengthA * lengthB) : 0;
+}
+
+export function withoutEmbedding(chunk: KnowledgeChunk): IndexedChunk {
+  const { embedding: _embedding, ...rest } = chunk;
+  return rest;
+}
+
+/**
+ * Score embedded chunks against the query in-process, for indexes that
+ * cannot do it themselves
+ */
+export function rankChunks(chunks: KnowledgeChunk[], query: number[], limit: number): VectorHit[] {
+  return chunks
+    .filter((chunk) => chunk.embedding)
+    .map((chunk) => ({
+      chunk: withoutEmbedding(chunk),
+      score: cosineSimilarity(query, chunk.embedding ?? []),
+    }))
+    .sort((a, b) => b.score - a.score || a.chunk.id - b.chunk.id)
+    .slice(0, limit);
+}
@@ -0,0 +1,110 @@
+/**
+ * Music Artist Service
+ * Users apply to sell music and admins approve or reject them; only
+ * approved artists can upload tracks
+ */
+
+import { getDb } from "../../db";
+import { musicArtists, type MusicArtist } from "../../../drizzle/music_schema";
+import { and, asc, eq } from "drizzle-orm";
+import { logger } from "../../_core/logger";
+import { MusicError } from "./musicService";
+import { canUploadTracks, transitionArtist } from "./uploadPolicy";
+
+/**
+ * The user's artist application, or null if they never applied
+ */
+export async function getArtistApplication(userId: number): Promise<MusicArtist | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [artist] = await db.select().from(musicArtists).where(eq(musicArtists.userId, userId)).limit(1);
+  return artist ?? null;
+}
+
+/**
+ * Apply to upload tracks, or apply again after a rejection
+ */
+export async function applyAsArtist(userId: number, about: string): Promise<MusicArtist> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const current = await getArtistApplication(userId);
+  const status = transitionArtist(current?.status ?? null, "apply");
+  if (!status) throw new MusicError(`Your artist application is already ${current?.status}`);
+
+  const now = new Date();
+  const [applied] = current
+    ? await db
+        .update(musicArtists)
+        .set({ status, about, appliedAt: now, reviewNotes: null, updatedAt: now })
+        .where(and(eq(musicArtists.id, current.id), eq(musicArtists.status, current.status)))
+        .returning()
+    : await db
+        .insert(musicArtists)
+        .values({ userId, status, about, appliedAt: now })
+        .onConflictDoNothing({ target: musicArtists.userId })
+        .returning();
+  if (!applied) throw new MusicError("Your artist application changed meanwhile; reload it");
+
+  logger.info(`User ${userId} applied to upload music`);
+  return applied;
+}
+
+/**
+ * Throws unless the user is an approved artist
+ */
+export async function assertApprovedArtist(userId: number): Promise<void> {
+  const artist = await getArtistApplication(userId);
+  if (canUploadTracks(artist?.status ?? null)) return;
+  throw new MusicError(
+    artist?.status === "pending"
+      ? "Your artist application is waiting for review"
+      : "Apply as an artist before uploading tracks"
+  );
+}
+
+/**
+ * Applications waiting for an admin, oldest first
+ */
+export async function listArtistApplications(): Promise<MusicArtist[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  return db
+    .select()
+    .from(musicArtists)
+    .where(eq(musicArtists.status, "pending"))
+    .orderBy(asc(musicArtists.appliedAt), asc(musicArtists.id));
+}
+
+/**
+ * Approve an application or send it back with notes
+ */
+export async function reviewArtist(
+  adminId: number,
+  userId: number,
+  decision: { action: "approve" | "reject"; notes?: string }
+): Promise<MusicArtist> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const current = await getArtistApplication(userId);
+  if (!current) throw new MusicError("Artist application not found");
+  if (decision.action === "reject" && !decision.notes) {
+    throw new MusicError("Notes are required to reject an application");
+  }
+  const status = transitionArtist(current.status, decision.action);
+  if (!status) throw new MusicError(`A ${current.status} application cannot be reviewed`);
+
+  const now = new Date();
+  const [reviewed] = await db
+    .update(musicArtists)
+    .set({ status, reviewedAt: now, reviewedBy: adminId, reviewNotes: decision.notes ?? null, updatedAt: now })
+    .where(and(eq(musicArtists.id, current.id), eq(musicArtists.status, current.status)))
+    .returning();
+  if (!reviewed) throw new MusicError("The application changed while this request was running; reload it");
+
+  logger.info(`Admin ${adminId} ${status} artist application of user ${userId}`);
+  return reviewed;
+}
@@ -0,0 +1,65 @@
+/**
+ * Tests for reading audio formats, durations and tags
+ */
+
+import { describe, it, expect } from "vitest";
+import { AudioInspectionError, detectAudioFormat, inspectAudio } from "./audioInspection";
+import { MP3_FRAME_SECONDS, buildFlac, buildId3v2, buildMp3, buildWav } from "./testAudioFiles";
+
+describe("inspectAudio", () => {
+  it("reads MP3 duration from its frames and ID3v2 text frames", () => {
+    const id3 = buildId3v2(
+      { TIT2: "Amazing Grace", TPE1: "Mary Jones", TCON: "(83)Gospel", TSRC: "USRC17607839" },
+      { ITUNESADVISORY: "2" }
+    );
+    const info = inspectAudio(buildMp3({ frames: 1000, id3, xing: true }));
+
+    expect(info).toMatchObject({ format: "mp3", sampleRate: 32000, channels: 1, bitrateKbps: 32 });
+    // The Info header frame is not audio
+    expect(info.durationSeconds).toBeCloseTo(1000 * MP3_FRAME_SECONDS, 6);
+    expect(info.tags).toEqual({
+      title: "Amazing Grace",
+      artist: "Mary Jones",
+      genre: "Gospel",
+      isrc: "USRC17607839",
+      explicit: false,
+    });
+  });
+
+  it("skips junk before the first MP3 frame", () => {
+    const mp3 = Buffer.concat([Buffer.from([0xff, 0xfb, 0x00, 0x12, 0x34]), buildMp3({ frames: 10 })]);
+    expect(inspectAudio(mp3).durationSeconds).toBeCloseTo(10 * MP3_FRAME_SECONDS, 6);
+  });
+
+  it("reads WAV duration and RIFF INFO tags", () => {
+    const info = inspectAudio(
+      buildWav({ seconds: 2.5, sampleRate: 8000, channels: 2, info: { INAM: "Psalm 23", IART: "Choir" } })
+    );
+
+    expect(info).toMatchObject({
+      format: "wav",
+      durationSeconds: 2.5,
+      sampleRate: 8000,
+      channels: 2,
+      bitrateKbps: 256,
+      tags: { title: "Psalm 23", artist: "Choir" },
+    });
+  });
+
+  it("reads FLAC STREAMINFO and Vorbis comments", () => {
+    const comments = ["TITLE=Hallelujah", "artist=Ann Lee", "GENRE=Gospel", "ITUNESADVISORY=1"];
+    const info = inspectAudio(buildFlac({ seconds: 12, comments }));
+
+    expect(info).toMatchObject({ format: "flac", durationSeconds: 12, sampleRate: 8000, channels: 1 });
+    expect(info.tags).toEqual({ title: "Hallelujah", artist: "Ann Lee", genre: "Gospel", explicit: true });
+  });
+
+  it("counts FLAC frames when STREAMINFO has no length", () => {
+    expect(inspectAudio(buildFlac({ seconds: 3, knownLength: false })).durationSeconds).toBe(3);
+  });
+
+  it("rejects files that are not MP3, WAV or FLAC", () => {
+    expect(detectAudioFormat(Buffer.from("%PDF-1.7 not audio"))).toBeNull();
+    expect(() => inspectAudio(Buffer.from("OggS not supported"))).toThrow(AudioInspectionError);
+  });
+});
@@ -0,0 +1,581 @@
+/**
+ * Audio Inspection
+ * Reads the format, duration and ID3 / Vorbis comment / RIFF INFO tags of
+ * MP3, WAV and FLAC files in-process, without an external decoder
+ */
+
+export type AudioFormat = "mp3" | "wav" | "flac";
+
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  genre?: string;
+  isrc?: string;
+  explicit?: boolean;
+}
+
+export interface AudioInfo {
+  format: AudioFormat;
+  durationSeconds: number;
+  sampleRate: number;
+  channels: number;
+  // Average over the audio data
+  bitrateKbps: number;
+  tags: AudioTags;
+}
+
+export class AudioInspectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AudioInspectionError";
+  }
+}
+
+// Tag names, upper-cased, from Vorbis comments and ID3 TXXX descriptions
+const TAG_KEYS: Record<string, keyof AudioTags> = {
+  TITLE: "title",
+  ARTIST: "artist",
+  GENRE: "genre",
+  ISRC: "isrc",
+  ITUNESADVISORY: "explicit",
+};
+
+const ID3_FRAMES: Record<string, keyof AudioTags> = {
+  TIT2: "title",
+  TT2: "title",
+  TPE1: "artist",
+  TP1: "artist",
+  TCON: "genre",
+  TCO: "genre",
+  TSRC: "isrc",
+  TRC: "isrc",
+};
+
+function setTag(tags: AudioTags, key: keyof AudioTags, raw: string) {
+  const value = raw.trim();
+  if (!value || tags[key] !== undefined) return;
+
+  if (key === "explicit") {
+    // iTunes advisory: 1 explicit, 2 clean, 0 none
+    if (value === "1" || value === "0" || value === "2") tags.explicit = value === "1";
+    return;
+  }
+  if (key === "genre") {
+    // ID3 genres may carry a numeric ID3v1 reference, e.g. "(17)Rock"
+    const genre = value.replace(/^(\(\d+\))+/, "").trim();
+    if (genre && !/^\d+$/.test(genre)) tags.genre = genre;
+    return;
+  }
+  tags[key] = value;
+}
+
+function synchsafe(bytes: Buffer, offset: number): number {
+  return (
+    ((bytes[offset] & 0x7f) << 21) |
+    ((bytes[offset + 1] & 0x7f) << 14) |
+    ((bytes[offset + 2] & 0x7f) << 7) |
+    (bytes[offset + 3] & 0x7f)
+  );
+}
+
+/**
+ * Length of an ID3v2 tag at `offset`, header and footer included; 0 when there is none
+ */
+export function id3v2Length(bytes: Buffer, offset = 0): number {
+  if (bytes.length < offset + 10 || bytes.toString("latin1", offset, offset + 3) !== "ID3") return 0;
+  const footer = bytes[offset + 5] & 0x10 ? 10 : 0;
+  return 10 + synchsafe(bytes, offset + 6) + footer;
+}
+
+function removeUnsynchronisation(bytes: Buffer): Buffer {
+  const out: number[] = [];
+  for (let i = 0; i < bytes.length; i++) {
+    out.push(bytes[i]);
+    if (bytes[i] === 0xff && bytes[i + 1] === 0x00) i++;
+  }
+  return Buffer.from(out);
+}
+
+/**
+ * The null-separated strings of an ID3 text frame
+ */
+function decodeId3Text(data: Buffer): string[] {
+  if (data.length === 0) return [];
+  const encoding = data[0];
+  let body = data.subarray(1);
+  let text: string;
+
+  if (encoding === 1 || encoding === 2) {
+    body = body.subarray(0, body.length - (body.length % 2));
+    const bigEndian = encoding === 2 || (body[0] === 0xfe && body[1] === 0xff);
+    text = (bigEndian ? Buffer.from(body).swap16() : body).toString("utf16le");
+    text = text.replace(/[\uFEFF\uFFFE]/g, "");
+  } else {
+    text = body.toString(encoding === 3 ? "utf8" : "latin1");
+  }
+  return text.split("\u0000");
+}
+
+function readId3v2(bytes: Buffer, offset: number, tags: AudioTags) {
+  const length = id3v2Length(bytes, offset);
+  if (!length) return;
+
+  const version = bytes[offset + 3];
+  const flags = bytes[offset + 5];
+  const end = Math.min(offset + length - (flags & 0x10 ? 10 : 0), bytes.length);
+  let body = bytes.subarray(offset + 10, end);
+  if (flags & 0x80 && version < 4) body = removeUnsynchronisation(body);
+
+  let pos = 0;
+  if (flags & 0x40 && version > 2) {
+    pos = version === 4 ? synchsafe(body, 0) : body.readUInt32BE(0) + 4;
+  }
+
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+  while (pos + headerLength <= body.length) {
+    const id = body.toString("latin1", pos, pos + idLength);
+    // Padding, or the end of the frames
+    if (!/^[A-Z0-9]+$/.test(id)) break;
+
+    const size =
+      version === 2
+        ? body.readUIntBE(pos + 3, 3)
+        : version === 4
+          ? synchsafe(body, pos + 4)
+          : body.readUInt32BE(pos + 4);
+    const formatFlags = version === 2 ? 0 : body[pos + 9];
+    let data = body.subarray(pos + headerLength, pos + headerLength + size);
+    pos += headerLength + size;
+
+    // Compressed or encrypted frames cannot be read as text
+    if (version === 3 ? formatFlags & 0xc0 : formatFlags & 0x0c) continue;
+    if (version === 4) {
+      if (formatFlags & 0x01) data = data.subarray(4);
+      if (formatFlags & 0x02) data = removeUnsynchronisation(data);
+    }
+
+    const key = ID3_FRAMES[id];
+    if (key) {
+      const value = decodeId3Text(data).find((part) => part.trim());
+      if (value) setTag(tags, key, value);
+    } else if (id === "TXXX" || id === "TXX") {
+      const [description = "", value = ""] = decodeId3Text(data);
+      const txxxKey = TAG_KEYS[description.trim().toUpperCase()];
+      if (txxxKey) setTag(tags, txxxKey, value);
+    }
+  }
+}
+
+function hasId3v1(bytes: Buffer): boolean {
+  return bytes.length >= 128 && bytes.toString("latin1", bytes.length - 128, bytes.length - 125) === "TAG";
+}
+
+function readId3v1(bytes: Buffer, tags: AudioTags) {
+  if (!hasId3v1(bytes)) return;
+  const field = (start: number, length: number) => {
+    const at = bytes.length - 128 + start;
+    return bytes.toString("latin1", at, at + length).replace(/\u0000.*$/, "");
+  };
+  setTag(tags, "title", field(3, 30));
+  setTag(tags, "artist", field(33, 30));
+}
+
+/* ---------------------------------------------------------------- MP3 */
+
+const MPEG1_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+// Indexed by the header's version bits: MPEG 2.5, reserved, MPEG 2, MPEG 1
+const MPEG_SAMPLE_RATES = [[11025, 12000, 8000], [], [22050, 24000, 16000], [44100, 48000, 32000]];
+
+export interface Mp3Frame {
+  offset: number;
+  length: number;
+  samples: number;
+  sampleRate: number;
+  channels: number;
+  mpeg1: boolean;
+}
+
+function readMp3FrameHeader(bytes: Buffer, offset: number): Mp3Frame | null {
+  if (offset + 4 > bytes.length) return null;
+  const [b0, b1, b2, b3] = [bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]];
+  if (b0 !== 0xff || (b1 & 0xe0) !== 0xe0) return null;
+
+  const version = (b1 >> 3) & 3;
+  const layer = (b1 >> 1) & 3;
+  const bitrateIndex = b2 >> 4;
+  const rateIndex = (b2 >> 2) & 3;
+  // Layer III only; free-format bitrates are not supported
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) {
+    return null;
+  }
+
+  const mpeg1 = version === 3;
+  const bitrate = (mpeg1 ? MPEG1_BITRATES : MPEG2_BITRATES)[bitrateIndex] * 1000;
+  const sampleRate = MPEG_SAMPLE_RATES[version][rateIndex];
+  const samples = mpeg1 ? 1152 : 576;
+  const padding = (b2 >> 1) & 1;
+
+  return {
+    offset,
+    length: Math.floor(((samples / 8) * bitrate) / sampleRate) + padding,
+    samples,
+    sampleRate,
+    channels: b3 >> 6 === 3 ? 1 : 2,
+    mpeg1,
+  };
+}
+
+/**
+ * A Xing/Info or VBRI header frame, which carries no audio
+ */
+function isMp3InfoFrame(bytes: Buffer, frame: Mp3Frame): boolean {
+  const sideInfo = frame.mpeg1 ? (frame.channels === 1 ? 17 : 32) : frame.channels === 1 ? 9 : 17;
+  const xing = bytes.toString("latin1", frame.offset + 4 + sideInfo, frame.offset + 8 + sideInfo);
+  const vbri = bytes.toString("latin1", frame.offset + 36, frame.offset + 40);
+  return xing === "Xing" || xing === "Info" || vbri === "VBRI";
+}
+
+/**
+ * The audio frames of an MP3, skipping tags, junk between frames and any
+ * Xing/VBRI header frame
+ */
+export function readMp3Frames(bytes: Buffer): Mp3Frame[] {
+  const end = hasId3v1(bytes) ? bytes.length - 128 : bytes.length;
+  const frames: Mp3Frame[] = [];
+  let pos = id3v2Length(bytes);
+  let expected = -1;
+
+  while (pos + 4 <= end) {
+    const frame = readMp3FrameHeader(bytes, pos);
+    const next = frame ? pos + frame.length : 0;
+    // Outside a run of frames, a sync word only counts when another frame follows it
+    if (frame && next <= end && (pos === expected || next === end || readMp3FrameHeader(bytes, next))) {
+      frames.push(frame);
+      pos = expected = next;
+    } else {
+      pos++;
+    }
+  }
+
+  if (frames.length > 0 && isMp3InfoFrame(bytes, frames[0])) frames.shift();
+  return frames;
+}
+
+function inspectMp3(bytes: Buffer): AudioInfo {
+  const frames = readMp3Frames(bytes);
+  if (frames.length === 0) throw new AudioInspectionError("No MPEG audio frames found");
+
+  const tags: AudioTags = {};
+  readId3v2(bytes, 0, tags);
+  readId3v1(bytes, tags);
+
+  const { sampleRate, channels } = frames[0];
+  const durationSeconds = frames.reduce((total, frame) => total + frame.samples, 0) / sampleRate;
+  const audioBytes = frames.reduce((total, frame) => total + frame.length, 0);
+
+  return {
+    format: "mp3",
+    durationSeconds,
+    sampleRate,
+    channels,
+    bitrateKbps: Math.round((audioBytes * 8) / durationSeconds / 1000),
+    tags,
+  };
+}
+
+/* ---------------------------------------------------------------- WAV */
+
+interface RiffChunk {
+  id: string;
+  // Start of the chunk header
+  offset: number;
+  // Start and length of the chunk body
+  body: number;
+  size: number;
+}
+
+function readRiffChunks(bytes: Buffer): RiffChunk[] {
+  const chunks: RiffChunk[] = [];
+  let pos = 12;
+  while (pos + 8 <= bytes.length) {
+    const id = bytes.toString("latin1", pos, pos + 4);
+    const size = Math.min(bytes.readUInt32LE(pos + 4), bytes.length - pos - 8);
+    chunks.push({ id, offset: pos, body: pos + 8, size });
+    pos += 8 + size + (size & 1);
+  }
+  return chunks;
+}
+
+export interface WavLayout {
+  // The whole "fmt " chunk, header included, for copying into a new file
+  formatChunk: Buffer;
+  dataOffset: number;
+  dataLength: number;
+  sampleRate: number;
+  channels: number;
+  byteRate: number;
+  blockAlign: number;
+}
+
+// PCM, IEEE float and WAVE_FORMAT_EXTENSIBLE
+const WAV_ENCODINGS = new Set([0x0001, 0x0003, 0xfffe]);
+
+export function readWavLayout(bytes: Buffer): WavLayout {
+  const chunks = readRiffChunks(bytes);
+  const fmt = chunks.find((chunk) => chunk.id === "fmt ");
+  const data = chunks.find((chunk) => chunk.id === "data");
+  if (!fmt || fmt.size < 16 || !data) throw new AudioInspectionError("WAV file has no audio data");
+
+  const encoding = bytes.readUInt16LE(fmt.body);
+  if (!WAV_ENCODINGS.has(encoding)) {
+    throw new AudioInspectionError(`Unsupported WAV encoding 0x${encoding.toString(16)}`);
+  }
+
+  const layout = {
+    formatChunk: bytes.subarray(fmt.offset, fmt.body + fmt.size),
+    dataOffset: data.body,
+    dataLength: data.size,
+    channels: bytes.readUInt16LE(fmt.body + 2),
+    sampleRate: bytes.readUInt32LE(fmt.body + 4),
+    byteRate: bytes.readUInt32LE(fmt.body + 8),
+    blockAlign: bytes.readUInt16LE(fmt.body + 12),
+  };
+  if (!layout.byteRate || !layout.blockAlign || !layout.sampleRate) {
+    throw new AudioInspectionError("WAV format header is invalid");
+  }
+  return layout;
+}
+
+const RIFF_INFO_TAGS: Record<string, keyof AudioTags> = {
+  INAM: "title",
+  IART: "artist",
+  IGNR: "genre",
+};
+
+function inspectWav(bytes: Buffer): AudioInfo {
+  const layout = readWavLayout(bytes);
+  const tags: AudioTags = {};
+
+  for (const chunk of readRiffChunks(bytes)) {
+    if (chunk.id.toLowerCase() === "id3 ") {
+      readId3v2(bytes, chunk.body, tags);
+    } else if (chunk.id === "LIST" && bytes.toString("latin1", chunk.body, chunk.body + 4) === "INFO") {
+      const end = chunk.body + chunk.size;
+      let pos = chunk.body + 4;
+      while (pos + 8 <= end) {
+        const id = bytes.toString("latin1", pos, pos + 4);
+        const size = Math.min(bytes.readUInt32LE(pos + 4), end - pos - 8);
+        const key = RIFF_INFO_TAGS[id];
+        if (key) setTag(tags, key, bytes.toString("utf8", pos + 8, pos + 8 + size).replace(/\u0000.*$/, ""));
+        pos += 8 + size + (size & 1);
+      }
+    }
+  }
+
+  return {
+    format: "wav",
+    durationSeconds: layout.dataLength / layout.byteRate,
+    sampleRate: layout.sampleRate,
+    channels: layout.channels,
+    bitrateKbps: Math.round((layout.byteRate * 8) / 1000),
+    tags,
+  };
+}
+
+/* --------------------------------------------------------------- FLAC */
+
+export interface FlacStream {
+  // Start of the 34-byte STREAMINFO body
+  streamInfoOffset: number;
+  maxBlockSize: number;
+  sampleRate: number;
+  channels: number;
+  // 0 when the encoder did not know it
+  totalSamples: number;
+  // First audio frame, after the metadata blocks
+  audioOffset: number;
+  tags: AudioTags;
+}
+
+export function readFlacStream(bytes: Buffer): FlacStream {
+  let pos = id3v2Length(bytes);
+  if (bytes.toString("latin1", pos, pos + 4) !== "fLaC") throw new AudioInspectionError("Not a FLAC stream");
+  pos += 4;
+
+  const tags: AudioTags = {};
+  let streamInfoOffset = -1;
+  let last = false;
+  while (!last) {
+    if (pos + 4 > bytes.length) throw new AudioInspectionError("FLAC metadata is truncated");
+    last = (bytes[pos] & 0x80) !== 0;
+    const type = bytes[pos] & 0x7f;
+    const length = bytes.readUIntBE(pos + 1, 3);
+    const body = pos + 4;
+    pos = body + length;
+    if (pos > bytes.length) throw new AudioInspectionError("FLAC metadata is truncated");
+
+    if (type === 0 && length >= 34) {
+      streamInfoOffset = body;
+    } else if (type === 4) {
+      let at = body + 4 + bytes.readUInt32LE(body);
+      const count = bytes.readUInt32LE(at);
+      at += 4;
+      for (let i = 0; i < count && at + 4 <= pos; i++) {
+        const size = bytes.readUInt32LE(at);
+        const comment = bytes.toString("utf8", at + 4, Math.min(at + 4 + size, pos));
+        at += 4 + size;
+        const separator = comment.indexOf("=");
+        const key = TAG_KEYS[comment.slice(0, separator).toUpperCase()];
+        if (separator > 0 && key) setTag(tags, key, comment.slice(separator + 1));
+      }
+    }
+  }
+  if (streamInfoOffset < 0) throw new AudioInspectionError("FLAC stream has no STREAMINFO block");
+
+  const info = streamInfoOffset;
+  return {
+    streamInfoOffset,
+    maxBlockSize: bytes.readUInt16BE(info + 2),
+    sampleRate: (bytes[info + 10] << 12) | (bytes[info + 11] << 4) | (bytes[info + 12] >> 4),
+    channels: ((bytes[info + 12] >> 1) & 7) + 1,
+    totalSamples: (bytes[info + 13] & 0x0f) * 2 ** 32 + bytes.readUInt32BE(info + 14),
+    audioOffset: pos,
+    tags,
+  };
+}
+
+export interface FlacFrame {
+  offset: number;
+  firstSample: number;
+  blockSize: number;
+}
+
+function crc8(bytes: Buffer, start: number, end: number): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    crc ^= bytes[i];
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+}
+
+function readFlacFrameHeader(bytes: Buffer, offset: number, stream: FlacStream): FlacFrame | null {
+  if (offset + 6 > bytes.length || bytes[offset] !== 0xff || (bytes[offset + 1] & 0xfe) !== 0xf8) return null;
+  const variableBlocks = (bytes[offset + 1] & 1) === 1;
+  const blockCode = bytes[offset + 2] >> 4;
+  const rateCode = bytes[offset + 2] & 0x0f;
+  if (blockCode === 0 || rateCode === 15 || bytes[offset + 3] >> 4 > 10 || bytes[offset + 3] & 1) return null;
+
+  // Frame or sample number, UTF-8 style variable length
+  let pos = offset + 4;
+  const lead = bytes[pos++];
+  let ones = 0;
+  while (ones < 8 && lead & (0x80 >> ones)) ones++;
+  if (ones === 1 || ones === 8) return null;
+  const extra = Math.max(ones - 1, 0);
+  let number = lead & (0xff >> (ones + 1));
+  for (let i = 0; i < extra; i++) {
+    const next = bytes[pos++];
+    if (next === undefined || (next & 0xc0) !== 0x80) return null;
+    number = number * 64 + (next & 0x3f);
+  }
+
+  let blockSize: number;
+  if (blockCode === 1) blockSize = 192;
+  else if (blockCode <= 5) blockSize = 576 << (blockCode - 2);
+  else if (blockCode === 6) blockSize = bytes[pos++] + 1;
+  else if (blockCode === 7) blockSize = ((bytes[pos++] << 8) | bytes[pos++]) + 1;
+  else blockSize = 256 << (blockCode - 8);
+
+  if (rateCode === 12) pos += 1;
+  else if (rateCode === 13 || rateCode === 14) pos += 2;
+
+  if (pos >= bytes.length || crc8(bytes, offset, pos) !== bytes[pos]) return null;
+  return {
+    offset,
+    firstSample: variableBlocks ? number : number * stream.maxBlockSize,
+    blockSize,
+  };
+}
+
+/**
+ * Audio frame boundaries. Frames are only accepted in sample order, which
+ * rules out sync codes that happen to appear inside compressed audio.
+ */
+export function readFlacFrames(bytes: Buffer, stream: FlacStream): FlacFrame[] {
+  const frames: FlacFrame[] = [];
+  let expected = 0;
+  let pos = bytes.indexOf(0xff, stream.audioOffset);
+
+  while (pos >= 0) {
+    const frame = readFlacFrameHeader(bytes, pos, stream);
+    if (frame && frame.firstSample === expected) {
+      frames.push(frame);
+      expected = frame.firstSample + frame.blockSize;
+    }
+    pos = bytes.indexOf(0xff, pos + 1);
+  }
+  return frames;
+}
+
+function inspectFlac(bytes: Buffer): AudioInfo {
+  const stream = readFlacStream(bytes);
+  if (!stream.sampleRate) throw new AudioInspectionError("FLAC sample rate is invalid");
+
+  let totalSamples = stream.totalSamples;
+  if (!totalSamples) {
+    const last = readFlacFrames(bytes, stream).pop();
+    totalSamples = last ? last.firstSample + last.blockSize : 0;
+  }
+  if (!totalSamples) throw new AudioInspectionError("No FLAC audio frames found");
+
+  const durationSeconds = totalSamples / stream.sampleRate;
+  return {
+    format: "flac",
+    durationSeconds,
+    sampleRate: stream.sampleRate,
+    channels: stream.channels,
+    bitrateKbps: Math.round(((bytes.length - stream.audioOffset) * 8) / durationSeconds / 1000),
+    tags: stream.tags,
+  };
+}
+
+/* ------------------------------------------------------------------- */
+
+const MP3_SYNC_SEARCH_BYTES = 8192;
+
+/**
+ * Recognise a file by its contents rather than its name
+ */
+export function detectAudioFormat(bytes: Buffer): AudioFormat | null {
+  if (bytes.toString("latin1", 0, 4) === "RIFF" && bytes.toString("latin1", 8, 12) === "WAVE") return "wav";
+
+  const start = id3v2Length(bytes);
+  if (bytes.toString("latin1", start, start + 4) === "fLaC") return "flac";
+  if (start > 0) return "mp3";
+
+  // Raw MPEG audio, possibly after a little junk
+  let pos = bytes.indexOf(0xff);
+  while (pos >= 0 && pos < MP3_SYNC_SEARCH_BYTES) {
+    const frame = readMp3FrameHeader(bytes, pos);
+    if (frame && readMp3FrameHeader(bytes, pos + frame.length)) return "mp3";
+    pos = bytes.indexOf(0xff, pos + 1);
+  }
+  return null;
+}
+
+/**
+ * Format, duration and tags of an MP3, WAV or FLAC file.
+ * Throws AudioInspectionError when the file is not one we can read.
+ */
+export function inspectAudio(bytes: Buffer): AudioInfo {
+  const format = detectAudioFormat(bytes);
+  if (format === "wav") return inspectWav(bytes);
+  if (format === "flac") return inspectFlac(bytes);
+  if (format === "mp3") return inspectMp3(bytes);
+  throw new AudioInspectionError("Not an MP3, WAV or FLAC file");
+}
@@ -0,0 +1,48 @@
+/**
+ * Tests for signed song download links
+ */
+
+import { afterEach, describe, it, expect } from "vitest";
+import {
+  DEFAULT_DOWNLOAD_LINK_TTL_MS,
+  getDownloadLinkTtlMs,
+  signDownloadToken,
+  verifyDownloadToken,
+} from "./downloadLinks";
+
+const secret = "test-download-secret";
+const now = new Date("2024-06-01T12:00:00Z");
+const expiresAt = new Date("2024-06-01T12:15:00Z");
+
+describe("download tokens", () => {
+  it("round-trips the claims until the link expires", () => {
+    const token = signDownloadToken({ userId: 12, songId: 40, expiresAt }, secret);
+
+    expect(token).toMatch(/^12\.40\.1717244100\.[\w-]+$/);
+    expect(verifyDownloadToken(token, secret, now)).toEqual({ userId: 12, songId: 40, expiresAt });
+    expect(verifyDownloadToken(token, secret, expiresAt)).toBeNull();
+  });
+
+  it("rejects tokens that were altered or signed with another secret", () => {
+    const token = signDownloadToken({ userId: 12, songId: 40, expiresAt }, secret);
+    const otherSong = token.replace(/^12\.40\./, "12.41.");
+
+    expect(verifyDownloadToken(otherSong, secret, now)).toBeNull();
+    expect(verifyDownloadToken(token, "another-secret", now)).toBeNull();
+    expect(verifyDownloadToken("12.40", secret, now)).toBeNull();
+  });
+});
+
+describe("getDownloadLinkTtlMs", () => {
+  afterEach(() => {
+    delete process.env.MUSIC_DOWNLOAD_LINK_MINUTES;
+  });
+
+  it("reads the link lifetime from the environment", () => {
+    expect(getDownloadLinkTtlMs()).toBe(DEFAULT_DOWNLOAD_LINK_TTL_MS);
+    process.env.MUSIC_DOWNLOAD_LINK_MINUTES = "60";
+    expect(getDownloadLinkTtlMs()).toBe(60 * 60 * 1000);
+    process.env.MUSIC_DOWNLOAD_LINK_MINUTES = "soon";
+    expect(getDownloadLinkTtlMs()).toBe(DEFAULT_DOWNLOAD_LINK_TTL_MS);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Song Download Links
+ * Short-lived HMAC-signed tokens naming who may download which song, so
+ * the download URL can be handed to a browser or player without a session
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+
+export interface DownloadClaims {
+  userId: number;
+  songId: number;
+  expiresAt: Date;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export const DEFAULT_DOWNLOAD_LINK_TTL_MS = 15 * MINUTE_MS;
+
+/**
+ * Link lifetime from MUSIC_DOWNLOAD_LINK_MINUTES, 15 minutes by default
+ */
+export function getDownloadLinkTtlMs(): number {
+  const raw = process.env.MUSIC_DOWNLOAD_LINK_MINUTES;
+  if (!raw) return DEFAULT_DOWNLOAD_LINK_TTL_MS;
+
+  const minutes = Number(raw);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes * MINUTE_MS : DEFAULT_DOWNLOAD_LINK_TTL_MS;
+}
+
+export function getDownloadSigningSecret(): string {
+  const secret = process.env.MUSIC_DOWNLOAD_SECRET;
+  if (!secret) {
+    throw new Error("MUSIC_DOWNLOAD_SECRET is not configured");
+  }
+  return secret;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/**
+ * Serialize claims as "<userId>.<songId>.<expiry seconds>.<signature>"
+ */
+export function signDownloadToken(claims: DownloadClaims, secret: string): string {
+  const payload = `${claims.userId}.${claims.songId}.${Math.floor(claims.expiresAt.getTime() / 1000)}`;
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * The claims of a token we signed that has not expired at `now`, otherwise null
+ */
+export function verifyDownloadToken(token: string, secret: string, now: Date): DownloadClaims | null {
+  const parts = token.split(".");
+  if (parts.length !== 4) return null;
+
+  const [userPart, songPart, expiryPart, signature] = parts;
+  const expected = Buffer.from(sign(`${userPart}.${songPart}.${expiryPart}`, secret));
+  const given = Buffer.from(signature);
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+
+  const userId = Number(userPart);
+  const songId = Number(songPart);
+  const expirySeconds = Number(expiryPart);
+  if (![userId, songId, expirySeconds].every((value) => Number.isInteger(value) && value > 0)) {
+    return null;
+  }
+
+  const expiresAt = new Date(expirySeconds * 1000);
+  if (expiresAt <= now) return null;
+
+  return { userId, songId, expiresAt };
+}
@@ -0,0 +1,49 @@
+/**
+ * Music store and artist uploads
+ */
+
+export * from "./downloadLinks";
+export * from "./audioInspection";
+export * from "./previewClip";
+export * from "./uploadPolicy";
+export * from "./musicStorage";
+export * from "./previewStreaming";
+export {
+  MusicError,
+  SONG_PRICE_CENTS,
+  SONG_CURRENCY,
+  browseTracks,
+  listGenres,
+  getTrack,
+  createSongCheckout,
+  completeSongCheckout,
+  recordSongPurchase,
+  getDownloadLink,
+  resolveDownload,
+  listLibrary,
+} from "./musicService";
+export type { StoreTrack, TrackPage, LibraryTrack, DownloadableTrack } from "./musicService";
+export {
+  startUpload,
+  appendUploadChunk,
+  completeUpload,
+  updateUploadMetadata,
+  resubmitUpload,
+  processUpload,
+  processQueuedUploads,
+  getArtistUpload,
+  listArtistUploads,
+  abandonUpload,
+  listUploads,
+  takeDownUpload,
+} from "./uploadService";
+export type { ArtistUpload, UploadRunResult } from "./uploadService";
+export {
+  getArtistApplication,
+  applyAsArtist,
+  assertApprovedArtist,
+  listArtistApplications,
+  reviewArtist,
+} from "./artistService";
+export { getPreviewSource, recordPlay, getArtistTrackStats } from "./playService";
+export type { PreviewSource, TrackStats } from "./playService";
@@ -0,0 +1,377 @@
+/**
+ * Music Store Service
+ * Browsing published uploads, $1 song checkout through the payment
+ * providers, download links and the buyer's library
+ */
+
+import { getDb } from "../../db";
+import { songPurchases } from "../../../drizzle/schema";
+import { musicUploads } from "../../../drizzle/upload_schema";
+import { musicUploadFiles } from "../../../drizzle/music_schema";
+import { and, desc, eq, ilike, inArray, lt, or, sql } from "drizzle-orm";
+import { logger } from "../../_core/logger";
+import {
+  buildRedirectUrls,
+  decodePaymentReference,
+  encodePaymentReference,
+  getPaymentProvider,
+  type PaymentProviderName,
+} from "../payments";
+import { createLinkedPurchase, findPurchaseLink } from "../payments/purchaseLinks";
+import { entitlementService } from "../entitlements/entitlementService";
+import { evaluateRecord, getGracePeriodMs } from "../entitlements/evaluateEntitlement";
+import { getCreatorSharePercent } from "../catalog/creatorPolicy";
+import { recordSale } from "../payouts";
+import { getDownloadLinkTtlMs, getDownloadSigningSecret, signDownloadToken } from "./downloadLinks";
+
+export class MusicError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MusicError";
+  }
+}
+
+export const SONG_PRICE_CENTS = 100;
+export const SONG_CURRENCY = "usd";
+
+// Only published uploads are for sale
+const PUBLISHED = "published";
+
+/**
+ * What the store shows of an upload; the file location is never exposed
+ */
+const trackColumns = {
+  id: musicUploads.id,
+  artistId: musicUploads.userId,
+  title: musicUploads.title,
+  artistName: musicUploads.artistName,
+  genre: musicUploads.genre,
+  createdAt: musicUploads.createdAt,
+};
+
+export interface StoreTrack {
+  id: number;
+  artistId: number;
+  title: string;
+  artistName: string;
+  genre: string | null;
+  createdAt: Date;
+  priceCents: number;
+  currency: string;
+}
+
+export interface TrackPage {
+  items: StoreTrack[];
+  // Pass back as `cursor` for the next page; null on the last page
+  nextCursor: number | null;
+}
+
+export interface LibraryTrack extends StoreTrack {
+  purchaseId: number;
+}
+
+function toStoreTrack<T extends Omit<StoreTrack, "priceCents" | "currency">>(track: T) {
+  return { ...track, priceCents: SONG_PRICE_CENTS, currency: SONG_CURRENCY };
+}
+
+/**
+ * Published tracks, newest first, optionally narrowed by genre or a search
+ * over title and artist
+ */
+export async function browseTracks(query: {
+  genre?: string;
+  search?: string;
+  limit: number;
+  cursor?: number;
+}): Promise<TrackPage> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const pattern = query.search ? `%${query.search.replace(/[\\%_]/g, "\\$&")}%` : null;
+  const rows = await db
+    .select(trackColumns)
+    .from(musicUploads)
+    .where(
+      and(
+        eq(musicUploads.status, PUBLISHED),
+        query.genre ? eq(musicUploads.genre, query.genre) : undefined,
+        pattern ? or(ilike(musicUploads.title, pattern), ilike(musicUploads.artistName, pattern)) : undefined,
+        query.cursor ? lt(musicUploads.id, query.cursor) : undefined
+      )
+    )
+    .orderBy(desc(musicUploads.id))
+    .limit(query.limit + 1);
+
+  const items = rows.slice(0, query.limit).map(toStoreTrack);
+  return {
+    items,
+    nextCursor: rows.length > query.limit ? items[items.length - 1].id : null,
+  };
+}
+
+/**
+ * Genres with published tracks, for the browse filter
+ */
+export async function listGenres(): Promise<Array<{ genre: string; count: number }>> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const rows = await db
+    .select({ genre: musicUploads.genre, count: sql<number>`count(*)::int` })
+    .from(musicUploads)
+    .where(and(eq(musicUploads.status, PUBLISHED), sql`${musicUploads.genre} is not null`))
+    .groupBy(musicUploads.genre)
+    .orderBy(musicUploads.genre);
+
+  return rows.map((row) => ({ genre: row.genre as string, count: row.count }));
+}
+
+export async function getTrack(songId: number): Promise<StoreTrack | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [track] = await db
+    .select(trackColumns)
+    .from(musicUploads)
+    .where(and(eq(musicUploads.id, songId), eq(musicUploads.status, PUBLISHED)))
+    .limit(1);
+  return track ? toStoreTrack(track) : null;
+}
+
+/**
+ * Start a one-time $1 checkout for a song. Returns the provider's approval URL.
+ */
+export async function createSongCheckout(request: {
+  userId: number;
+  songId: number;
+  provider?: PaymentProviderName;
+}): Promise<{ checkoutId: string; checkoutUrl: string }> {
+  const track = await getTrack(request.songId);
+  if (!track) throw new MusicError("Song not found");
+
+  const entitlement = await entitlementService.check(
+    { id: request.userId },
+    { product: "song", songId: request.songId }
+  );
+  if (entitlement.entitled) throw new MusicError("You already own this song");
+
+  const checkout = await getPaymentProvider(request.provider).createOrder({
+    amountCents: SONG_PRICE_CENTS,
+    currency: SONG_CURRENCY,
+    description: `${track.title} by ${track.artistName}`,
+    reference: encodePaymentReference({ kind: "song", userId: request.userId, songId: request.songId }),
+    ...buildRedirectUrls(`/music?songId=${request.songId}`),
+  });
+
+  logger.info(`Song checkout ${checkout.id}: User ${request.userId}, Song ${request.songId}`);
+  return { checkoutId: checkout.id, checkoutUrl: checkout.approvalUrl };
+}
+
+/**
+ * Capture an approved song checkout and record the purchase
+ */
+export async function completeSongCheckout(
+  userId: number,
+  songId: number,
+  orderId: string,
+  provider: PaymentProviderName = "paypal"
+) {
+  const payments = getPaymentProvider(provider);
+  // Checked before capturing, so someone else's order is never charged here
+  const order = await payments.getOrderStatus(orderId);
+  const reference = decodePaymentReference(order.reference);
+  if (reference?.kind !== "song" || reference.userId !== userId || reference.songId !== songId) {
+    throw new MusicError("Checkout does not belong to this song");
+  }
+
+  const capture = await payments.captureOrder(orderId);
+  if (capture.status !== "completed") {
+    throw new MusicError(`Payment ${capture.status}`);
+  }
+
+  return recordSongPurchase({
+    userId,
+    songId,
+    provider,
+    paymentId: capture.captureId,
+    amountCents: capture.amountCents,
+    currency: capture.currency,
+    paidAt: new Date(),
+  });
+}
+
+/**
+ * Record a paid song: the songPurchases row, its provider link and the
+ * artist's share on the ledger. Safe to call from both the return page
+ * and the provider webhook for the same payment.
+ */
+export async function recordSongPurchase(payment: {
+  userId: number;
+  songId: number;
+  provider: PaymentProviderName;
+  paymentId: string;
+  amountCents: number;
+  currency: string;
+  paidAt: Date;
+}): Promise<{ purchaseId: number }> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const existing = await findPurchaseLink(payment.provider, payment.paymentId);
+  if (existing) return { purchaseId: existing.purchaseId };
+
+  if (payment.currency !== SONG_CURRENCY || payment.amountCents < SONG_PRICE_CENTS) {
+    throw new MusicError(
+      `Payment of ${payment.amountCents} ${payment.currency} does not cover song ${payment.songId}`
+    );
+  }
+
+  const [track] = await db
+    .select(trackColumns)
+    .from(musicUploads)
+    .where(eq(musicUploads.id, payment.songId))
+    .limit(1);
+  if (!track) throw new MusicError("Song not found");
+
+  const purchase = await createLinkedPurchase(
+    {
+      productType: "song",
+      userId: payment.userId,
+      provider: payment.provider,
+      providerId: payment.paymentId,
+      providerKind: "payment",
+    },
+    async (tx) => {
+      const [row] = await tx
+        .insert(songPurchases)
+        .values({ userId: payment.userId, songId: payment.songId, status: "completed" })
+        .returning();
+      // Booked with the purchase, so a failed booking rolls it back for a retry
+      await recordSale(
+        {
+          product: "song",
+          purchaseId: row.id,
+          grossCents: payment.amountCents,
+          currency: payment.currency,
+          provider: payment.provider,
+          paidAt: payment.paidAt,
+          creator: { id: track.artistId, sharePercent: getCreatorSharePercent() },
+          description: `${track.title} by ${track.artistName} (purchase ${row.id})`,
+        },
+        tx
+      );
+      return row;
+    }
+  );
+  if (!purchase) {
+    // Recorded by a concurrent call for the same payment, which also books the sale
+    const link = await findPurchaseLink(payment.provider, payment.paymentId);
+    if (!link) throw new Error(`Purchase link for payment ${payment.paymentId} not found`);
+    return { purchaseId: link.purchaseId };
+  }
+
+  logger.info(`Song purchase ${purchase.id}: User ${payment.userId} bought song ${payment.songId}`);
+
+  return { purchaseId: purchase.id };
+}
+
+/**
+ * A signed, expiring download URL for a song the user owns
+ */
+export async function getDownloadLink(
+  userId: number,
+  songId: number,
+  now: Date = new Date()
+): Promise<{ url: string; expiresAt: Date }> {
+  const entitlement = await entitlementService.check({ id: userId }, { product: "song", songId });
+  if (!entitlement.entitled) throw new MusicError("Buy this song to download it");
+
+  const expiresAt = new Date(now.getTime() + getDownloadLinkTtlMs());
+  const token = signDownloadToken({ userId, songId, expiresAt }, getDownloadSigningSecret());
+  const baseUrl = process.env.VITE_FRONTEND_URL || "http://localhost:3000";
+
+  return { url: `${baseUrl}/api/music/download/${token}`, expiresAt };
+}
+
+/**
+ * Where a song's audio lives: a storage key for tracks uploaded through the
+ * artist upload flow, otherwise the file URL an admin attached
+ */
+export interface DownloadableTrack {
+  fileUrl: string | null;
+  fileKey: string | null;
+  format: string | null;
+  title: string;
+  artistName: string;
+}
+
+/**
+ * Where a signed download is served from, checked again against the
+ * purchase so a refund stops links already handed out
+ */
+export async function resolveDownload(
+  userId: number,
+  songId: number
+): Promise<DownloadableTrack | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  if (!(await entitlementService.isEntitled({ id: userId }, { product: "song", songId }))) return null;
+
+  const [track] = await db
+    .select({
+      fileUrl: musicUploads.fileUrl,
+      fileKey: musicUploadFiles.fileKey,
+      format: musicUploadFiles.format,
+      title: musicUploads.title,
+      artistName: musicUploads.artistName,
+    })
+    .from(musicUploads)
+    .leftJoin(musicUploadFiles, eq(musicUploadFiles.uploadId, musicUploads.id))
+    .where(eq(musicUploads.id, songId))
+    .limit(1);
+  return track ?? null;
+}
+
+/**
+ * "My Library": every song the user owns, most recently bought first
+ */
+export async function listLibrary(userId: number): Promise<LibraryTrack[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const purchases = await db
+    .select()
+    .from(songPurchases)
+    .where(eq(songPurchases.userId, userId))
+    .orderBy(desc(songPurchases.id));
+
+  const now = new Date();
+  const graceMs = getGracePeriodMs();
+  const owned = purchases.filter(
+    (purchase) =>
+      evaluateRecord(
+        { id: purchase.id, status: purchase.status ?? "completed", access: "purchase", periodEnd: null },
+        now,
+        graceMs
+      ).entitled
+  );
+  if (owned.length === 0) return [];
+
+  // Owned songs stay in the library even if the upload is later unpublished
+  const tracks = await db
+    .select(trackColumns)
+    .from(musicUploads)
+    .where(inArray(musicUploads.id, owned.map((purchase) => purchase.songId)));
+  const byId = new Map(tracks.map((track) => [track.id, track]));
+
+  const seen = new Set<number>();
+  const library: LibraryTrack[] = [];
+  for (const purchase of owned) {
+    const track = byId.get(purchase.songId);
+    if (!track || seen.has(track.id)) continue;
+    seen.add(track.id);
+    library.push({ ...toStoreTrack(track), purchaseId: purchase.id });
+  }
+  return library;
+}
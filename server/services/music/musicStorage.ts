@@ -0,0 +1,91 @@
+/**
+ * Music Storage
+ * Where uploaded audio and preview clips are kept, addressed by key,
+ * e.g. "uploads/12/original.flac"
+ */
+
+import { createReadStream } from "fs";
+import { mkdir, open, readFile, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+
+export interface MusicStorage {
+  // Write `data` at byte `offset`, creating the object when offset is 0
+  writeAt(key: string, offset: number, data: Buffer): Promise<void>;
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  size(key: string): Promise<number>;
+  // Bytes start to end inclusive when a range is given, like HTTP Range
+  stream(key: string, range?: { start: number; end: number }): ReadableStream<Uint8Array>;
+  remove(key: string): Promise<void>;
+}
+
+export const DEFAULT_MUSIC_STORAGE_DIR = "storage/music";
+
+/**
+ * Storage root from MUSIC_STORAGE_DIR, ./storage/music by default
+ */
+export function getMusicStorageDir(): string {
+  return process.env.MUSIC_STORAGE_DIR || DEFAULT_MUSIC_STORAGE_DIR;
+}
+
+/**
+ * Files under a local directory, which may be a mounted volume
+ */
+export class LocalMusicStorage implements MusicStorage {
+  constructor(private readonly root: string = getMusicStorageDir()) {}
+
+  private pathOf(key: string): string {
+    const root = path.resolve(this.root);
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) throw new Error(`Invalid storage key ${key}`);
+    return file;
+  }
+
+  async writeAt(key: string, offset: number, data: Buffer): Promise<void> {
+    const file = this.pathOf(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    const handle = await open(file, offset === 0 ? "w" : "r+");
+    try {
+      await handle.write(data, 0, data.length, offset);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.pathOf(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  get(key: string): Promise<Buffer> {
+    return readFile(this.pathOf(key));
+  }
+
+  async size(key: string): Promise<number> {
+    return (await stat(this.pathOf(key))).size;
+  }
+
+  stream(key: string, range?: { start: number; end: number }): ReadableStream<Uint8Array> {
+    return Readable.toWeb(createReadStream(this.pathOf(key), range)) as ReadableStream<Uint8Array>;
+  }
+
+  async remove(key: string): Promise<void> {
+    await rm(this.pathOf(key), { force: true });
+  }
+}
+
+let musicStorage: MusicStorage | null = null;
+
+export function getMusicStorage(): MusicStorage {
+  if (!musicStorage) musicStorage = new LocalMusicStorage();
+  return musicStorage;
+}
+
+/**
+ * Swap the storage, e.g. for an object store or a temporary directory in tests
+ */
+export function setMusicStorage(storage: MusicStorage | null) {
+  musicStorage = storage;
+}
@@ -0,0 +1,108 @@
+/**
+ * Music Play Service
+ * Preview clips for the store player, play events and the per-track
+ * numbers artists see on their dashboard
+ */
+
+import { getDb } from "../../db";
+import { songPurchases } from "../../../drizzle/schema";
+import { musicUploads } from "../../../drizzle/upload_schema";
+import { musicPlayEvents, musicUploadFiles } from "../../../drizzle/music_schema";
+import { and, desc, eq, inArray, sql } from "drizzle-orm";
+import { conversionRate } from "./previewStreaming";
+
+export interface PreviewSource {
+  previewKey: string;
+  format: string;
+  processedAt: Date;
+}
+
+export interface TrackStats {
+  songId: number;
+  title: string;
+  status: string;
+  // Listening sessions that played the preview
+  plays: number;
+  purchases: number;
+  conversionRate: number | null;
+}
+
+/**
+ * Where a published track's preview is stored, or null if it has none
+ */
+export async function getPreviewSource(songId: number): Promise<PreviewSource | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [source] = await db
+    .select({
+      previewKey: musicUploadFiles.previewKey,
+      format: musicUploadFiles.format,
+      processedAt: musicUploadFiles.processedAt,
+    })
+    .from(musicUploads)
+    .innerJoin(musicUploadFiles, eq(musicUploadFiles.uploadId, musicUploads.id))
+    .where(and(eq(musicUploads.id, songId), eq(musicUploads.status, "published")))
+    .limit(1);
+  if (!source?.previewKey || !source.processedAt) return null;
+  return { previewKey: source.previewKey, format: source.format, processedAt: source.processedAt };
+}
+
+/**
+ * Record a play; returns false when the session already played the song
+ */
+export async function recordPlay(songId: number, sessionId: string): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const inserted = await db
+    .insert(musicPlayEvents)
+    .values({ songId, sessionId })
+    .onConflictDoNothing()
+    .returning({ id: musicPlayEvents.id });
+  return inserted.length > 0;
+}
+
+/**
+ * Plays, purchases and preview-to-purchase conversion for each of the
+ * artist's tracks, newest first
+ */
+export async function getArtistTrackStats(artistId: number): Promise<TrackStats[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const tracks = await db
+    .select({ songId: musicUploads.id, title: musicUploads.title, status: musicUploads.status })
+    .from(musicUploads)
+    .where(eq(musicUploads.userId, artistId))
+    .orderBy(desc(musicUploads.id));
+  if (tracks.length === 0) return [];
+
+  const songIds = tracks.map((track) => track.songId);
+  const [plays, purchases] = await Promise.all([
+    db
+      .select({ songId: musicPlayEvents.songId, count: sql<number>`count(*)::int` })
+      .from(musicPlayEvents)
+      .where(inArray(musicPlayEvents.songId, songIds))
+      .groupBy(musicPlayEvents.songId),
+    db
+      .select({ songId: songPurchases.songId, count: sql<number>`count(*)::int` })
+      .from(songPurchases)
+      .where(and(inArray(songPurchases.songId, songIds), eq(songPurchases.status, "completed")))
+      .groupBy(songPurchases.songId),
+  ]);
+
+  const playsBySong = new Map(plays.map((row) => [row.songId, row.count]));
+  const purchasesBySong = new Map(purchases.map((row) => [row.songId, row.count]));
+
+  return tracks.map((track) => {
+    const trackPlays = playsBySong.get(track.songId) ?? 0;
+    const trackPurchases = purchasesBySong.get(track.songId) ?? 0;
+    return {
+      ...track,
+      plays: trackPlays,
+      purchases: trackPurchases,
+      conversionRate: conversionRate(trackPlays, trackPurchases),
+    };
+  });
+}
@@ -0,0 +1,51 @@
+/**
+ * Tests for preview windows and clips
+ */
+
+import { describe, it, expect } from "vitest";
+import { inspectAudio, readMp3Frames } from "./audioInspection";
+import { cutPreview, previewWindow } from "./previewClip";
+import { MP3_FRAME_SECONDS, buildFlac, buildMp3, buildWav } from "./testAudioFiles";
+
+describe("previewWindow", () => {
+  it("takes 30 seconds after the intro of a full-length track", () => {
+    expect(previewWindow(240)).toEqual({ startSeconds: 30, seconds: 30 });
+  });
+
+  it("never previews more than half of a short track", () => {
+    expect(previewWindow(40)).toEqual({ startSeconds: 10, seconds: 20 });
+  });
+});
+
+describe("cutPreview", () => {
+  it("cuts a WAV clip with a valid header", () => {
+    const wav = buildWav({ seconds: 90, sampleRate: 8000 });
+    const clip = cutPreview(wav, "wav", { startSeconds: 30, seconds: 30 });
+
+    expect(inspectAudio(clip)).toMatchObject({ format: "wav", durationSeconds: 30, sampleRate: 8000 });
+    // The ramp sample at 30 s is the first one kept
+    expect(clip.readUInt16LE(44)).toBe((30 * 8000) % 65536);
+  });
+
+  it("cuts MP3 clips on frame boundaries", () => {
+    const mp3 = buildMp3({ frames: 2500, xing: true });
+    const clip = cutPreview(mp3, "mp3", { startSeconds: 30, seconds: 30 });
+    const frames = readMp3Frames(clip);
+
+    expect(frames[0].offset).toBe(0);
+    expect(clip.readUInt32BE(40)).toBe(Math.ceil(30 / MP3_FRAME_SECONDS));
+    expect(frames.length * MP3_FRAME_SECONDS).toBeCloseTo(30, 1);
+  });
+
+  it("cuts FLAC clips with a STREAMINFO for the clip", () => {
+    const flac = buildFlac({ seconds: 90 });
+    const clip = cutPreview(flac, "flac", { startSeconds: 30, seconds: 30 });
+    const info = inspectAudio(clip);
+
+    expect(info.format).toBe("flac");
+    // Whole frames of 4096 samples at 8 kHz
+    expect(info.durationSeconds).toBeGreaterThanOrEqual(30);
+    expect(info.durationSeconds).toBeLessThan(30 + 4096 / 8000);
+    expect(info.tags).toEqual({});
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Preview Clips
+ * Cuts a short clip out of an upload at frame boundaries, in the upload's
+ * own format, so the store can play it without re-encoding
+ */
+
+import {
+  AudioInspectionError,
+  readFlacFrames,
+  readFlacStream,
+  readMp3Frames,
+  readWavLayout,
+  type AudioFormat,
+} from "./audioInspection";
+
+export const PREVIEW_SECONDS = 30;
+// Skip the intro of longer tracks
+export const PREVIEW_START_SECONDS = 30;
+
+export interface PreviewWindow {
+  startSeconds: number;
+  seconds: number;
+}
+
+/**
+ * Where the preview sits in a track. Short tracks get at most half of
+ * their length, so a preview never gives the whole song away.
+ */
+export function previewWindow(durationSeconds: number): PreviewWindow {
+  const seconds = Math.min(PREVIEW_SECONDS, durationSeconds / 2);
+  const startSeconds = Math.min(PREVIEW_START_SECONDS, (durationSeconds - seconds) / 2);
+  return { startSeconds, seconds };
+}
+
+function cutWav(bytes: Buffer, window: PreviewWindow): Buffer {
+  const layout = readWavLayout(bytes);
+  const frameOf = (seconds: number) => Math.floor(seconds * layout.sampleRate) * layout.blockAlign;
+
+  const start = Math.min(frameOf(window.startSeconds), layout.dataLength);
+  const length = Math.min(frameOf(window.seconds), layout.dataLength - start);
+  const pcm = bytes.subarray(layout.dataOffset + start, layout.dataOffset + start + length);
+  const formatChunk = Buffer.concat([layout.formatChunk, Buffer.alloc(layout.formatChunk.length % 2)]);
+
+  const riff = Buffer.alloc(12);
+  riff.write("RIFF", 0, "latin1");
+  riff.writeUInt32LE(4 + formatChunk.length + 8 + length + (length % 2), 4);
+  riff.write("WAVE", 8, "latin1");
+
+  const dataHeader = Buffer.alloc(8);
+  dataHeader.write("data", 0, "latin1");
+  dataHeader.writeUInt32LE(length, 4);
+
+  return Buffer.concat([riff, formatChunk, dataHeader, pcm, Buffer.alloc(length % 2)]);
+}
+
+function cutMp3(bytes: Buffer, window: PreviewWindow): Buffer {
+  const frames = readMp3Frames(bytes);
+  if (frames.length === 0) throw new AudioInspectionError("No MPEG audio frames found");
+
+  let elapsed = 0;
+  let first = -1;
+  let last = -1;
+  for (let i = 0; i < frames.length; i++) {
+    const at = elapsed / frames[i].sampleRate;
+    elapsed += frames[i].samples;
+    if (at < window.startSeconds) continue;
+    if (at >= window.startSeconds + window.seconds) break;
+    if (first < 0) first = i;
+    last = i;
+  }
+  if (first < 0) throw new AudioInspectionError("The preview window is past the end of the track");
+
+  return Buffer.from(bytes.subarray(frames[first].offset, frames[last].offset + frames[last].length));
+}
+
+/**
+ * FLAC frames keep their original frame numbers; decoders accept a stream
+ * that starts part-way through, as they do after a seek
+ */
+function cutFlac(bytes: Buffer, window: PreviewWindow): Buffer {
+  const stream = readFlacStream(bytes);
+  const frames = readFlacFrames(bytes, stream);
+  const startSample = Math.floor(window.startSeconds * stream.sampleRate);
+  const endSample = startSample + Math.floor(window.seconds * stream.sampleRate);
+
+  const first = frames.findIndex((frame) => frame.firstSample >= startSample);
+  if (first < 0) throw new AudioInspectionError("The preview window is past the end of the track");
+  let end = frames.findIndex((frame) => frame.firstSample >= endSample);
+  if (end === first) end = first + 1;
+
+  const endOffset = end < 0 || end >= frames.length ? bytes.length : frames[end].offset;
+  const lastFrame = frames[(end < 0 ? frames.length : end) - 1];
+  const totalSamples = lastFrame.firstSample + lastFrame.blockSize - frames[first].firstSample;
+
+  // STREAMINFO as the only metadata block, with the clip's length and
+  // unknown frame sizes and MD5
+  const streamInfo = Buffer.from(bytes.subarray(stream.streamInfoOffset, stream.streamInfoOffset + 34));
+  streamInfo.fill(0, 4, 10);
+  streamInfo[13] = (streamInfo[13] & 0xf0) | Math.floor(totalSamples / 2 ** 32);
+  streamInfo.writeUInt32BE(totalSamples % 2 ** 32, 14);
+  streamInfo.fill(0, 18, 34);
+
+  return Buffer.concat([
+    Buffer.from("fLaC", "latin1"),
+    Buffer.from([0x80, 0, 0, 34]),
+    streamInfo,
+    bytes.subarray(frames[first].offset, endOffset),
+  ]);
+}
+
+/**
+ * A clip of the track in its own format
+ */
+export function cutPreview(bytes: Buffer, format: AudioFormat, window: PreviewWindow): Buffer {
+  switch (format) {
+    case "wav":
+      return cutWav(bytes, window);
+    case "mp3":
+      return cutMp3(bytes, window);
+    case "flac":
+      return cutFlac(bytes, window);
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Tests for preview streaming rules
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  conversionRate,
+  etagMatches,
+  listeningSessionCookie,
+  parseByteRange,
+  previewEtag,
+  readListeningSession,
+  startsPlayback,
+} from "./previewStreaming";
+
+describe("parseByteRange", () => {
+  it("reads open, closed and suffix ranges", () => {
+    expect(parseByteRange("bytes=0-", 1000)).toEqual({ start: 0, end: 999 });
+    expect(parseByteRange("bytes=100-199", 1000)).toEqual({ start: 100, end: 199 });
+    expect(parseByteRange("bytes=500-5000", 1000)).toEqual({ start: 500, end: 999 });
+    expect(parseByteRange("bytes=-200", 1000)).toEqual({ start: 800, end: 999 });
+    expect(parseByteRange("bytes=-5000", 1000)).toEqual({ start: 0, end: 999 });
+  });
+
+  it("sends the whole body for no, malformed or multiple ranges", () => {
+    expect(parseByteRange(null, 1000)).toBeNull();
+    expect(parseByteRange("items=0-1", 1000)).toBeNull();
+    expect(parseByteRange("bytes=0-1,5-9", 1000)).toBeNull();
+    expect(parseByteRange("bytes=300-200", 1000)).toBeNull();
+  });
+
+  it("refuses ranges past the end", () => {
+    expect(parseByteRange("bytes=1000-", 1000)).toBe("unsatisfiable");
+    expect(parseByteRange("bytes=-0", 1000)).toBe("unsatisfiable");
+    expect(parseByteRange("bytes=-200", 0)).toBe("unsatisfiable");
+    expect(parseByteRange("bytes=0-", 0)).toBe("unsatisfiable");
+  });
+});
+
+describe("etags", () => {
+  it("match exact, weak and wildcard validators", () => {
+    const etag = previewEtag(7, new Date("2026-01-01T00:00:00Z"), 4096);
+    expect(etagMatches(etag, etag)).toBe(true);
+    expect(etagMatches(`"other", W/${etag}`, etag)).toBe(true);
+    expect(etagMatches("*", etag)).toBe(true);
+    expect(etagMatches(previewEtag(7, new Date("2026-02-01T00:00:00Z"), 4096), etag)).toBe(false);
+    expect(etagMatches(null, etag)).toBe(false);
+  });
+});
+
+describe("play counting", () => {
+  it("counts requests that start at the first byte", () => {
+    expect(startsPlayback(null)).toBe(true);
+    expect(startsPlayback({ start: 0, end: 1023 })).toBe(true);
+    expect(startsPlayback({ start: 1024, end: 2047 })).toBe(false);
+  });
+
+  it("reads back the session cookie it sets", () => {
+    const sessionId = "3f2a9c1e-5b7d-4e8f-9a0b-1c2d3e4f5a6b";
+    const cookie = listeningSessionCookie(sessionId, true);
+    expect(cookie).toContain("HttpOnly");
+    expect(cookie).toContain("Secure");
+    expect(readListeningSession(`theme=dark; ${cookie.split(";")[0]}`)).toBe(sessionId);
+    expect(readListeningSession("ge_listen=<script>")).toBeNull();
+    expect(readListeningSession(null)).toBeNull();
+  });
+
+  it("reports purchases per previewing session", () => {
+    expect(conversionRate(0, 0)).toBeNull();
+    expect(conversionRate(300, 12)).toBe(0.04);
+    expect(conversionRate(3, 1)).toBe(0.3333);
+  });
+});
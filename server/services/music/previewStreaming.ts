@@ -0,0 +1,110 @@
+/**
+ * Preview Streaming Rules
+ * HTTP Range parsing, validators and the listening session that
+ * deduplicates play counts
+ */
+
+const AUDIO_CONTENT_TYPES: Record<string, string> = {
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  flac: "audio/flac",
+};
+
+export function audioContentType(format: string): string {
+  return AUDIO_CONTENT_TYPES[format] ?? "application/octet-stream";
+}
+
+export interface ByteRange {
+  start: number;
+  // Inclusive
+  end: number;
+}
+
+/**
+ * The range a `Range` header asks for in a body of `size` bytes: null to
+ * send the whole body, "unsatisfiable" for a 416. Only single ranges are
+ * served; a multi-range request gets the whole body, which RFC 9110 allows.
+ */
+export function parseByteRange(header: string | null, size: number): ByteRange | "unsatisfiable" | null {
+  if (!header) return null;
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return null;
+
+  const [, first, last] = match;
+  if (first === "" && last === "") return null;
+  // An empty body has no byte a range could select
+  if (size === 0) return "unsatisfiable";
+
+  if (first === "") {
+    // Suffix range: the final N bytes
+    const length = Number(last);
+    if (length === 0) return "unsatisfiable";
+    return { start: Math.max(0, size - length), end: size - 1 };
+  }
+
+  const start = Number(first);
+  if (start >= size) return "unsatisfiable";
+  const end = last === "" ? size - 1 : Math.min(Number(last), size - 1);
+  if (end < start) return null;
+  return { start, end };
+}
+
+/**
+ * Strong validator for a preview; processing writes a new one whenever the
+ * upload is reprocessed, so the time it was processed identifies the bytes
+ */
+export function previewEtag(songId: number, processedAt: Date, size: number): string {
+  return `"preview-${songId}-${processedAt.getTime().toString(36)}-${size.toString(36)}"`;
+}
+
+export function etagMatches(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch.split(",").some((tag) => {
+    const value = tag.trim();
+    return value === "*" || value.replace(/^W\//, "") === etag;
+  });
+}
+
+/**
+ * A request that starts at the first byte is a listener pressing play;
+ * later ranges are the player seeking or buffering the same play
+ */
+export function startsPlayback(range: ByteRange | null): boolean {
+  return range === null || range.start === 0;
+}
+
+export const LISTENING_SESSION_COOKIE = "ge_listen";
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]{16,64}$/;
+
+export function readListeningSession(cookieHeader: string | null): string | null {
+  if (!cookieHeader) return null;
+  for (const part of cookieHeader.split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name !== LISTENING_SESSION_COOKIE) continue;
+    const id = value.join("=");
+    return SESSION_ID_PATTERN.test(id) ? id : null;
+  }
+  return null;
+}
+
+/**
+ * A browser-session cookie: plays count once per song until the browser closes
+ */
+export function listeningSessionCookie(sessionId: string, secure: boolean): string {
+  return [
+    `${LISTENING_SESSION_COOKIE}=${sessionId}`,
+    "Path=/api/music/preview",
+    "HttpOnly",
+    "SameSite=Lax",
+    ...(secure ? ["Secure"] : []),
+  ].join("; ");
+}
+
+/**
+ * Purchases per previewing session; null before anyone has listened
+ */
+export function conversionRate(plays: number, purchases: number): number | null {
+  if (plays === 0) return null;
+  return Math.round((purchases / plays) * 10000) / 10000;
+}
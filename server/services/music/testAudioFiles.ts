@@ -0,0 +1,185 @@
+/**
+ * Synthetic MP3, WAV and FLAC files for tests: valid containers, frame
+ * headers and tags around silent or zero-filled audio
+ */
+
+function ascii(text: string) {
+  return Buffer.from(text, "latin1");
+}
+
+function synchsafe(size: number) {
+  return Buffer.from([(size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f]);
+}
+
+/**
+ * ID3v2.3 tag with UTF-16 text frames, e.g. { TIT2: "Amazing Grace" }
+ */
+export function buildId3v2(frames: Record<string, string>, txxx: Record<string, string> = {}): Buffer {
+  const utf16 = (text: string) => Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(text, "utf16le")]);
+  const frame = (id: string, data: Buffer) => {
+    const header = Buffer.alloc(10);
+    header.write(id, 0, "latin1");
+    header.writeUInt32BE(data.length, 4);
+    return Buffer.concat([header, data]);
+  };
+
+  const body = Buffer.concat([
+    ...Object.entries(frames).map(([id, text]) => frame(id, Buffer.concat([Buffer.from([1]), utf16(text)]))),
+    ...Object.entries(txxx).map(([description, value]) =>
+      frame("TXXX", Buffer.concat([Buffer.from([1]), utf16(description), Buffer.alloc(2), utf16(value)]))
+    ),
+    // Padding
+    Buffer.alloc(16),
+  ]);
+  return Buffer.concat([ascii("ID3"), Buffer.from([3, 0, 0]), synchsafe(body.length), body]);
+}
+
+// MPEG-1 Layer III, 32 kbps, 32 kHz, mono: 144-byte frames of 1152 samples
+const MP3_FRAME_HEADER = [0xff, 0xfb, 0x18, 0xc0];
+export const MP3_FRAME_BYTES = 144;
+export const MP3_FRAME_SECONDS = 1152 / 32000;
+
+export function buildMp3(options: { frames: number; id3?: Buffer; xing?: boolean }): Buffer {
+  const frames: Buffer[] = [];
+  const frame = (index: number) => {
+    const bytes = Buffer.alloc(MP3_FRAME_BYTES);
+    bytes.set(MP3_FRAME_HEADER);
+    // Mark each frame so tests can tell which ones a clip kept
+    bytes.writeUInt32BE(index, 40);
+    return bytes;
+  };
+
+  if (options.xing) {
+    const info = frame(0);
+    info.write("Info", 4 + 17, "latin1");
+    frames.push(info);
+  }
+  for (let i = 0; i < options.frames; i++) frames.push(frame(i));
+
+  return Buffer.concat([options.id3 ?? Buffer.alloc(0), ...frames]);
+}
+
+/**
+ * 16-bit PCM WAV with an optional LIST/INFO chunk, e.g. { INAM: "Title" }
+ */
+export function buildWav(options: {
+  seconds: number;
+  sampleRate?: number;
+  channels?: number;
+  info?: Record<string, string>;
+}): Buffer {
+  const sampleRate = options.sampleRate ?? 8000;
+  const channels = options.channels ?? 1;
+  const blockAlign = channels * 2;
+
+  const fmt = Buffer.alloc(24);
+  fmt.write("fmt ", 0, "latin1");
+  fmt.writeUInt32LE(16, 4);
+  fmt.writeUInt16LE(1, 8);
+  fmt.writeUInt16LE(channels, 10);
+  fmt.writeUInt32LE(sampleRate, 12);
+  fmt.writeUInt32LE(sampleRate * blockAlign, 16);
+  fmt.writeUInt16LE(blockAlign, 20);
+  fmt.writeUInt16LE(16, 22);
+
+  const chunk = (id: string, body: Buffer) => {
+    const header = Buffer.alloc(8);
+    header.write(id, 0, "latin1");
+    header.writeUInt32LE(body.length, 4);
+    return Buffer.concat([header, body, Buffer.alloc(body.length % 2)]);
+  };
+
+  const info = options.info
+    ? chunk(
+        "LIST",
+        Buffer.concat([
+          ascii("INFO"),
+          ...Object.entries(options.info).map(([id, text]) => chunk(id, Buffer.from(`${text}\0`, "utf8"))),
+        ])
+      )
+    : Buffer.alloc(0);
+
+  const samples = Buffer.alloc(Math.round(options.seconds * sampleRate) * blockAlign);
+  // A ramp, so clips taken from different points differ
+  for (let i = 0; i + 1 < samples.length; i += 2) samples.writeUInt16LE((i / 2) % 65536, i);
+
+  const body = Buffer.concat([ascii("WAVE"), fmt, info, chunk("data", samples)]);
+  const riff = Buffer.alloc(8);
+  riff.write("RIFF", 0, "latin1");
+  riff.writeUInt32LE(body.length, 4);
+  return Buffer.concat([riff, body]);
+}
+
+function uint32LE(value: number) {
+  const bytes = Buffer.alloc(4);
+  bytes.writeUInt32LE(value);
+  return bytes;
+}
+
+function crc8(bytes: Buffer) {
+  let crc = 0;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let bit = 0; bit < 8; bit++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+  }
+  return crc;
+}
+
+function utf8Number(value: number): Buffer {
+  if (value < 0x80) return Buffer.from([value]);
+  if (value < 0x800) return Buffer.from([0xc0 | (value >> 6), 0x80 | (value & 0x3f)]);
+  return Buffer.from([0xe0 | (value >> 12), 0x80 | ((value >> 6) & 0x3f), 0x80 | (value & 0x3f)]);
+}
+
+export const FLAC_BLOCK_SIZE = 4096;
+
+/**
+ * Mono 16-bit FLAC at 8 kHz with fixed 4096-sample frames. Frame bodies are
+ * filler, but headers, CRCs and metadata are real.
+ */
+export function buildFlac(options: { seconds: number; comments?: string[]; knownLength?: boolean }): Buffer {
+  const sampleRate = 8000;
+  const totalSamples = Math.round(options.seconds * sampleRate);
+
+  const streamInfo = Buffer.alloc(34);
+  streamInfo.writeUInt16BE(FLAC_BLOCK_SIZE, 0);
+  streamInfo.writeUInt16BE(FLAC_BLOCK_SIZE, 2);
+  streamInfo[10] = sampleRate >> 12;
+  streamInfo[11] = (sampleRate >> 4) & 0xff;
+  // Sample rate low bits, mono, 16 bits per sample
+  streamInfo[12] = (sampleRate & 0x0f) << 4;
+  streamInfo[13] = 0xf0;
+  streamInfo.writeUInt32BE(options.knownLength === false ? 0 : totalSamples, 14);
+
+  const vendor = ascii("test");
+  const comments = (options.comments ?? []).map((comment) => Buffer.from(comment, "utf8"));
+  const vorbis = Buffer.concat([
+    uint32LE(vendor.length),
+    vendor,
+    uint32LE(comments.length),
+    ...comments.flatMap((comment) => [uint32LE(comment.length), comment]),
+  ]);
+
+  const block = (type: number, last: boolean, body: Buffer) => {
+    const header = Buffer.alloc(4);
+    header[0] = (last ? 0x80 : 0) | type;
+    header.writeUIntBE(body.length, 1, 3);
+    return Buffer.concat([header, body]);
+  };
+
+  const frames: Buffer[] = [];
+  for (let number = 0; number * FLAC_BLOCK_SIZE < totalSamples; number++) {
+    const remaining = totalSamples - number * FLAC_BLOCK_SIZE;
+    const last = remaining < FLAC_BLOCK_SIZE;
+    // Block size code 12 is 4096; a short last frame stores its size in 16 bits (code 7)
+    const header = Buffer.concat([
+      // Sample rate from STREAMINFO; mono, 16 bits per sample
+      Buffer.from([0xff, 0xf8, (last ? 7 : 12) << 4, 4 << 1]),
+      utf8Number(number),
+      last ? Buffer.from([(remaining - 1) >> 8, (remaining - 1) & 0xff]) : Buffer.alloc(0),
+    ]);
+    frames.push(header, Buffer.from([crc8(header)]), Buffer.alloc(64, 0x11), Buffer.alloc(2));
+  }
+
+  return Buffer.concat([ascii("fLaC"), block(0, false, streamInfo), block(4, true, vorbis), ...frames]);
+}
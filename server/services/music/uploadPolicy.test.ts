@@ -0,0 +1,113 @@
+/**
+ * Tests for music upload rules
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  UPLOAD_CHUNK_BYTES,
+  canUploadTracks,
+  checkChunk,
+  formatFromFilename,
+  resolveTrackMetadata,
+  transitionArtist,
+  transitionUpload,
+  validateTrackMetadata,
+} from "./uploadPolicy";
+
+describe("transitionUpload", () => {
+  it("moves an upload from pending through processing to a decision", () => {
+    expect(transitionUpload("pending", "process")).toBe("processing");
+    expect(transitionUpload("processing", "publish")).toBe("published");
+    expect(transitionUpload("processing", "reject")).toBe("rejected");
+  });
+
+  it("lets rejected uploads be reprocessed and published ones be taken down", () => {
+    expect(transitionUpload("rejected", "process")).toBe("processing");
+    expect(transitionUpload("published", "take_down")).toBe("taken_down");
+    expect(transitionUpload("pending", "publish")).toBeNull();
+    expect(transitionUpload("published", "process")).toBeNull();
+  });
+
+  it("never brings back a track that was taken down", () => {
+    expect(transitionUpload("published", "reject")).toBeNull();
+    expect(transitionUpload("taken_down", "process")).toBeNull();
+    expect(transitionUpload("taken_down", "publish")).toBeNull();
+  });
+});
+
+describe("artist applications", () => {
+  it("lets a user apply and an admin decide", () => {
+    expect(transitionArtist(null, "apply")).toBe("pending");
+    expect(transitionArtist("pending", "approve")).toBe("approved");
+    expect(transitionArtist("pending", "reject")).toBe("rejected");
+    expect(transitionArtist(null, "approve")).toBeNull();
+  });
+
+  it("allows applying again only after a rejection", () => {
+    expect(transitionArtist("rejected", "apply")).toBe("pending");
+    expect(transitionArtist("pending", "apply")).toBeNull();
+    expect(transitionArtist("approved", "apply")).toBeNull();
+  });
+
+  it("opens uploads to approved artists only", () => {
+    expect(canUploadTracks("approved")).toBe(true);
+    expect(canUploadTracks("pending")).toBe(false);
+    expect(canUploadTracks("rejected")).toBe(false);
+    expect(canUploadTracks(null)).toBe(false);
+  });
+});
+
+describe("formatFromFilename", () => {
+  it("accepts MP3, WAV and FLAC by extension", () => {
+    expect(formatFromFilename("Amazing Grace.MP3")).toBe("mp3");
+    expect(formatFromFilename("take.2.flac")).toBe("flac");
+    expect(formatFromFilename("song.m4a")).toBeNull();
+  });
+});
+
+describe("checkChunk", () => {
+  const upload = { sizeBytes: 5_000_000, receivedBytes: UPLOAD_CHUNK_BYTES };
+
+  it("appends the next chunk and acknowledges a retried one", () => {
+    expect(checkChunk(upload, UPLOAD_CHUNK_BYTES, 1000)).toEqual({ ok: true, duplicate: false });
+    expect(checkChunk(upload, 0, UPLOAD_CHUNK_BYTES)).toEqual({ ok: true, duplicate: true });
+  });
+
+  it("refuses gaps, overruns and oversized chunks", () => {
+    expect(checkChunk(upload, UPLOAD_CHUNK_BYTES + 1, 10)).toMatchObject({ ok: false });
+    expect(checkChunk(upload, 4_999_000, 2000)).toEqual({
+      ok: false,
+      message: "Chunk runs past the declared file size",
+    });
+    expect(checkChunk(upload, UPLOAD_CHUNK_BYTES, UPLOAD_CHUNK_BYTES + 1)).toMatchObject({ ok: false });
+  });
+});
+
+describe("track metadata", () => {
+  it("prefers what the artist entered and fills blanks from tags", () => {
+    const metadata = resolveTrackMetadata(
+      { title: " Amazing Grace ", genre: "", isrc: "us-rc1-76-07839" },
+      { title: "amazing_grace_final", artist: "Mary Jones", genre: "Gospel", explicit: false }
+    );
+
+    expect(metadata).toEqual({
+      title: "Amazing Grace",
+      artistName: "Mary Jones",
+      genre: "Gospel",
+      isrc: "USRC17607839",
+      explicit: false,
+    });
+    expect(validateTrackMetadata(metadata)).toEqual([]);
+  });
+
+  it("lists everything missing or malformed", () => {
+    const metadata = resolveTrackMetadata({ isrc: "12345" }, {});
+    expect(validateTrackMetadata(metadata)).toEqual([
+      "Title is required",
+      "Artist is required",
+      "Genre is required",
+      "ISRC 12345 is not valid",
+      "Say whether the track is explicit",
+    ]);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Music Upload Rules
+ * Accepted formats and sizes, resumable chunk checks, track metadata
+ * validation and the upload status lifecycle
+ */
+
+import type { AudioFormat, AudioTags } from "./audioInspection";
+
+export type UploadStatus = "pending" | "processing" | "published" | "rejected" | "taken_down";
+
+/**
+ * process: the file is complete, or a rejected upload was corrected
+ * publish/reject: the result of processing
+ * take_down: an admin pulls a published track; the artist cannot resubmit it
+ */
+export type UploadAction = "process" | "publish" | "reject" | "take_down";
+
+const UPLOAD_TRANSITIONS: Record<UploadStatus, Partial<Record<UploadAction, UploadStatus>>> = {
+  pending: { process: "processing" },
+  processing: { publish: "published", reject: "rejected" },
+  published: { take_down: "taken_down" },
+  rejected: { process: "processing" },
+  taken_down: {},
+};
+
+/**
+ * The status an action leads to, or null when it is not allowed
+ */
+export function transitionUpload(from: string, action: UploadAction): UploadStatus | null {
+  return UPLOAD_TRANSITIONS[from as UploadStatus]?.[action] ?? null;
+}
+
+export type ArtistStatus = "pending" | "approved" | "rejected";
+
+export type ArtistAction = "apply" | "approve" | "reject";
+
+// "none" is a user who never applied
+const ARTIST_TRANSITIONS: Record<ArtistStatus | "none", Partial<Record<ArtistAction, ArtistStatus>>> = {
+  none: { apply: "pending" },
+  pending: { approve: "approved", reject: "rejected" },
+  approved: {},
+  rejected: { apply: "pending" },
+};
+
+/**
+ * The status an artist application moves to, or null when it is not allowed
+ */
+export function transitionArtist(from: string | null, action: ArtistAction): ArtistStatus | null {
+  return ARTIST_TRANSITIONS[(from ?? "none") as ArtistStatus | "none"]?.[action] ?? null;
+}
+
+/**
+ * Only approved artists upload tracks
+ */
+export function canUploadTracks(status: string | null): boolean {
+  return status === "approved";
+}
+
+/**
+ * Artists may change metadata until the upload is live
+ */
+export function canEditUpload(status: string): boolean {
+  return status === "pending" || status === "rejected";
+}
+
+export const AUDIO_EXTENSIONS: Record<string, AudioFormat> = {
+  mp3: "mp3",
+  wav: "wav",
+  wave: "wav",
+  flac: "flac",
+};
+
+export function formatFromFilename(filename: string): AudioFormat | null {
+  const extension = filename.toLowerCase().split(".").pop() ?? "";
+  return AUDIO_EXTENSIONS[extension] ?? null;
+}
+
+export const MAX_UPLOAD_BYTES = 200 * 1024 * 1024;
+// A processing run that has not finished an upload in this long died; the next run takes it
+export const UPLOAD_PROCESSING_LEASE_MS = 15 * 60 * 1000;
+// Chunks travel base64-encoded in JSON, so keep them well under body limits
+export const UPLOAD_CHUNK_BYTES = 2 * 1024 * 1024;
+
+export type ChunkCheck = { ok: true; duplicate: boolean } | { ok: false; message: string };
+
+/**
+ * Whether a chunk at `offset` continues an upload that has `receivedBytes`.
+ * A retried chunk the server already has is acknowledged, not re-written.
+ */
+export function checkChunk(
+  upload: { sizeBytes: number; receivedBytes: number },
+  offset: number,
+  length: number
+): ChunkCheck {
+  if (length === 0 || length > UPLOAD_CHUNK_BYTES) {
+    return { ok: false, message: `Chunks must be 1 to ${UPLOAD_CHUNK_BYTES} bytes` };
+  }
+  if (offset + length > upload.sizeBytes) {
+    return { ok: false, message: "Chunk runs past the declared file size" };
+  }
+  if (offset + length <= upload.receivedBytes) return { ok: true, duplicate: true };
+  if (offset !== upload.receivedBytes) {
+    return { ok: false, message: `Expected the chunk at offset ${upload.receivedBytes}` };
+  }
+  return { ok: true, duplicate: false };
+}
+
+export interface TrackMetadata {
+  title: string;
+  artistName: string;
+  genre: string;
+  isrc: string | null;
+  explicit: boolean;
+}
+
+/**
+ * What the artist typed in; blanks are filled from the file's tags
+ */
+export interface ProvidedMetadata {
+  title?: string;
+  artistName?: string;
+  genre?: string;
+  isrc?: string;
+  explicit?: boolean;
+}
+
+/**
+ * "US-RC1-76-07839" and "usrc17607839" both become "USRC17607839"
+ */
+export function normalizeIsrc(value: string): string {
+  return value.replace(/[\s-]/g, "").toUpperCase();
+}
+
+const ISRC_PATTERN = /^[A-Z]{2}[A-Z0-9]{3}\d{7}$/;
+
+/**
+ * The artist's entries take precedence over tags. The explicit flag must be
+ * stated by the artist or carried by the file's advisory tag.
+ */
+export function resolveTrackMetadata(
+  provided: ProvidedMetadata,
+  tags: AudioTags
+): Omit<TrackMetadata, "explicit"> & { explicit: boolean | null } {
+  const pick = (...values: Array<string | undefined>) => values.find((value) => value?.trim())?.trim() ?? "";
+  const isrc = pick(provided.isrc, tags.isrc);
+
+  return {
+    title: pick(provided.title, tags.title),
+    artistName: pick(provided.artistName, tags.artist),
+    genre: pick(provided.genre, tags.genre),
+    isrc: isrc ? normalizeIsrc(isrc) : null,
+    explicit: provided.explicit ?? tags.explicit ?? null,
+  };
+}
+
+export const METADATA_LIMITS = { title: 200, artistName: 200, genre: 50 };
+
+/**
+ * Problems that keep a track from being published; empty when it is complete
+ */
+export function validateTrackMetadata(metadata: ReturnType<typeof resolveTrackMetadata>): string[] {
+  const problems: string[] = [];
+  if (!metadata.title) problems.push("Title is required");
+  else if (metadata.title.length > METADATA_LIMITS.title) problems.push("Title is too long");
+  if (!metadata.artistName) problems.push("Artist is required");
+  else if (metadata.artistName.length > METADATA_LIMITS.artistName) problems.push("Artist is too long");
+  if (!metadata.genre) problems.push("Genre is required");
+  else if (metadata.genre.length > METADATA_LIMITS.genre) problems.push("Genre is too long");
+  if (metadata.isrc && !ISRC_PATTERN.test(metadata.isrc)) problems.push(`ISRC ${metadata.isrc} is not valid`);
+  if (metadata.explicit === null) problems.push("Say whether the track is explicit");
+  return problems;
+}
@@ -0,0 +1,488 @@
+/**
+ * Music Upload Service
+ * Artists upload tracks in resumable chunks; a complete file is queued, then
+ * a processing run inspects and validates it and cuts a preview clip, and
+ * publishes or rejects it
+ */
+
+import { getDb } from "../../db";
+import { musicUploads } from "../../../drizzle/upload_schema";
+import { musicUploadFiles, type MusicUploadFile } from "../../../drizzle/music_schema";
+import { and, asc, desc, eq, isNull, lt, or } from "drizzle-orm";
+import { logger } from "../../_core/logger";
+import { AudioInspectionError, inspectAudio, type AudioFormat } from "./audioInspection";
+import { getMusicStorage } from "./musicStorage";
+import { MusicError } from "./musicService";
+import { cutPreview, previewWindow } from "./previewClip";
+import {
+  MAX_UPLOAD_BYTES,
+  UPLOAD_CHUNK_BYTES,
+  UPLOAD_PROCESSING_LEASE_MS,
+  canEditUpload,
+  checkChunk,
+  formatFromFilename,
+  resolveTrackMetadata,
+  transitionUpload,
+  validateTrackMetadata,
+  type ProvidedMetadata,
+  type UploadAction,
+} from "./uploadPolicy";
+
+export interface ArtistUpload {
+  id: number;
+  status: string;
+  title: string;
+  artistName: string;
+  genre: string | null;
+  originalFilename: string;
+  format: string;
+  sizeBytes: number;
+  receivedBytes: number;
+  // Size to send each chunk in
+  chunkBytes: number;
+  durationSeconds: number | null;
+  isrc: string | null;
+  explicit: boolean | null;
+  hasPreview: boolean;
+  rejectionReasons: string[];
+  createdAt: Date;
+}
+
+export interface UploadRunResult {
+  checked: number;
+  published: number;
+  rejected: number;
+  failed: number;
+}
+
+// Uploads one run processes, one at a time, since each file is read whole
+const PROCESSING_BATCH_SIZE = 5;
+
+interface UploadRow {
+  upload: {
+    id: number;
+    userId: number;
+    status: string;
+    title: string;
+    artistName: string;
+    genre: string | null;
+    createdAt: Date;
+  };
+  file: MusicUploadFile;
+}
+
+const uploadColumns = {
+  id: musicUploads.id,
+  userId: musicUploads.userId,
+  status: musicUploads.status,
+  title: musicUploads.title,
+  artistName: musicUploads.artistName,
+  genre: musicUploads.genre,
+  createdAt: musicUploads.createdAt,
+};
+
+function toArtistUpload({ upload, file }: UploadRow): ArtistUpload {
+  return {
+    id: upload.id,
+    status: upload.status,
+    title: upload.title,
+    artistName: upload.artistName,
+    genre: upload.genre,
+    originalFilename: file.originalFilename,
+    format: file.format,
+    sizeBytes: file.sizeBytes,
+    receivedBytes: file.receivedBytes,
+    chunkBytes: UPLOAD_CHUNK_BYTES,
+    durationSeconds: file.durationSeconds,
+    isrc: file.isrc,
+    explicit: file.explicit,
+    hasPreview: file.previewKey !== null,
+    rejectionReasons: file.rejectionReasons,
+    createdAt: upload.createdAt,
+  };
+}
+
+function storageKey(uploadId: number, name: "original" | "preview", format: AudioFormat | string) {
+  return `uploads/${uploadId}/${name}.${format}`;
+}
+
+async function loadUpload(uploadId: number, userId?: number): Promise<UploadRow> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [row] = await db
+    .select({ upload: uploadColumns, file: musicUploadFiles })
+    .from(musicUploads)
+    .innerJoin(musicUploadFiles, eq(musicUploadFiles.uploadId, musicUploads.id))
+    .where(
+      and(eq(musicUploads.id, uploadId), userId === undefined ? undefined : eq(musicUploads.userId, userId))
+    )
+    .limit(1);
+  if (!row) throw new MusicError("Upload not found");
+  return row;
+}
+
+const ACTION_VERBS: Record<UploadAction, string> = {
+  process: "processed",
+  publish: "published",
+  reject: "rejected",
+  take_down: "taken down",
+};
+
+/**
+ * Apply a lifecycle action, failing if the upload moved on meanwhile
+ */
+async function moveUpload(uploadId: number, from: string, action: UploadAction): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const next = transitionUpload(from, action);
+  if (!next) {
+    throw new MusicError(`A ${from.replace(/_/g, " ")} upload cannot be ${ACTION_VERBS[action]}`);
+  }
+
+  const [moved] = await db
+    .update(musicUploads)
+    .set({ status: next })
+    .where(and(eq(musicUploads.id, uploadId), eq(musicUploads.status, from)))
+    .returning({ id: musicUploads.id });
+  if (!moved) throw new MusicError("The upload changed while this request was running; reload it");
+}
+
+/**
+ * Hand a complete or corrected file to the next processing run
+ */
+async function queueProcessing({ upload, file }: UploadRow): Promise<ArtistUpload> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  await moveUpload(upload.id, upload.status, "process");
+  await db
+    .update(musicUploadFiles)
+    .set({ processingStartedAt: null, updatedAt: new Date() })
+    .where(eq(musicUploadFiles.id, file.id));
+
+  logger.info(`Music upload ${upload.id} queued for processing`);
+  return toArtistUpload(await loadUpload(upload.id));
+}
+
+/**
+ * Register a file the artist is about to upload. Metadata is optional here;
+ * anything left blank is read from the file's tags.
+ */
+export async function startUpload(
+  userId: number,
+  input: { filename: string; sizeBytes: number; metadata: ProvidedMetadata }
+): Promise<ArtistUpload> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const format = formatFromFilename(input.filename);
+  if (!format) throw new MusicError("Upload an MP3, WAV or FLAC file");
+  if (input.sizeBytes <= 0 || input.sizeBytes > MAX_UPLOAD_BYTES) {
+    throw new MusicError(`Files must be under ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`);
+  }
+
+  const uploadId = await db.transaction(async (tx) => {
+    const [upload] = await tx
+      .insert(musicUploads)
+      .values({
+        userId,
+        // Placeholders until processing resolves the metadata
+        title: input.metadata.title?.trim() || input.filename.replace(/\.[^.]+$/, ""),
+        artistName: input.metadata.artistName?.trim() || "",
+        genre: input.metadata.genre?.trim() || null,
+        status: "pending",
+      })
+      .returning({ id: musicUploads.id });
+
+    await tx.insert(musicUploadFiles).values({
+      uploadId: upload.id,
+      originalFilename: input.filename,
+      format,
+      sizeBytes: input.sizeBytes,
+      fileKey: storageKey(upload.id, "original", format),
+      providedMetadata: input.metadata,
+    });
+    return upload.id;
+  });
+
+  logger.info(`Artist ${userId} started upload ${uploadId} (${input.filename}, ${input.sizeBytes} bytes)`);
+  return toArtistUpload(await loadUpload(uploadId));
+}
+
+/**
+ * Store the chunk at `offset`. Resending a chunk the server already has is
+ * harmless, so clients resume from `receivedBytes` after a failure.
+ */
+export async function appendUploadChunk(
+  userId: number,
+  uploadId: number,
+  offset: number,
+  data: Buffer
+): Promise<ArtistUpload> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const row = await loadUpload(uploadId, userId);
+  if (row.upload.status !== "pending") throw new MusicError("This upload has already been completed");
+
+  const check = checkChunk(row.file, offset, data.length);
+  if (!check.ok) throw new MusicError(check.message);
+  if (check.duplicate) return toArtistUpload(row);
+
+  await getMusicStorage().writeAt(row.file.fileKey, offset, data);
+  const [file] = await db
+    .update(musicUploadFiles)
+    .set({ receivedBytes: offset + data.length, updatedAt: new Date() })
+    .where(and(eq(musicUploadFiles.id, row.file.id), eq(musicUploadFiles.receivedBytes, offset)))
+    .returning();
+  if (!file) throw new MusicError("Another chunk was stored at this offset; check progress and resume");
+
+  return toArtistUpload({ upload: row.upload, file });
+}
+
+/**
+ * Mark the file complete and queue it for processing; the upload shows
+ * "processing" until a run publishes or rejects it
+ */
+export async function completeUpload(userId: number, uploadId: number): Promise<ArtistUpload> {
+  const row = await loadUpload(uploadId, userId);
+  if (row.file.receivedBytes < row.file.sizeBytes) {
+    throw new MusicError(`Only ${row.file.receivedBytes} of ${row.file.sizeBytes} bytes have been uploaded`);
+  }
+
+  return queueProcessing(row);
+}
+
+/**
+ * Change what the artist entered before the track goes live.
+ * A rejected upload is reprocessed with the corrections by resubmitUpload.
+ */
+export async function updateUploadMetadata(
+  userId: number,
+  uploadId: number,
+  changes: ProvidedMetadata
+): Promise<ArtistUpload> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const { upload, file } = await loadUpload(uploadId, userId);
+  if (!canEditUpload(upload.status)) throw new MusicError(`A ${upload.status} upload cannot be edited`);
+
+  await db
+    .update(musicUploadFiles)
+    .set({ providedMetadata: { ...file.providedMetadata, ...changes }, updatedAt: new Date() })
+    .where(eq(musicUploadFiles.id, file.id));
+  return toArtistUpload(await loadUpload(uploadId));
+}
+
+export async function resubmitUpload(userId: number, uploadId: number): Promise<ArtistUpload> {
+  return queueProcessing(await loadUpload(uploadId, userId));
+}
+
+async function rejectUpload(
+  row: UploadRow,
+  reasons: string[],
+  changes: Partial<typeof musicUploadFiles.$inferInsert> = {}
+): Promise<ArtistUpload> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  await moveUpload(row.upload.id, row.upload.status, "reject");
+  await db
+    .update(musicUploadFiles)
+    .set({ ...changes, rejectionReasons: reasons, rejectedBy: null, updatedAt: new Date() })
+    .where(eq(musicUploadFiles.id, row.file.id));
+
+  logger.info(`Music upload ${row.upload.id} rejected: ${reasons.join("; ")}`);
+  return toArtistUpload(await loadUpload(row.upload.id));
+}
+
+/**
+ * Read the file's format, duration and tags, validate the metadata, cut the
+ * preview and publish the track, or reject it with the reasons
+ */
+export async function processUpload(uploadId: number): Promise<ArtistUpload> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const row = await loadUpload(uploadId);
+  if (row.upload.status !== "processing") throw new MusicError("This upload is not being processed");
+  const { file } = row;
+  const storage = getMusicStorage();
+
+  try {
+    const bytes = await storage.get(file.fileKey);
+    const info = inspectAudio(bytes);
+    if (info.format !== file.format) {
+      return rejectUpload(row, [`The file contains ${info.format} audio but is named .${file.format}`]);
+    }
+
+    const metadata = resolveTrackMetadata(file.providedMetadata, info.tags);
+    const inspected = {
+      tags: { ...info.tags },
+      isrc: metadata.isrc,
+      explicit: metadata.explicit,
+      durationSeconds: info.durationSeconds,
+      sampleRate: info.sampleRate,
+      channels: info.channels,
+      bitrateKbps: info.bitrateKbps,
+      processedAt: new Date(),
+    };
+
+    const problems = validateTrackMetadata(metadata);
+    if (problems.length > 0) return rejectUpload(row, problems, inspected);
+
+    const previewKey = storageKey(uploadId, "preview", info.format);
+    await storage.put(previewKey, cutPreview(bytes, info.format, previewWindow(info.durationSeconds)));
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(musicUploadFiles)
+        .set({ ...inspected, previewKey, rejectionReasons: [], rejectedBy: null, updatedAt: new Date() })
+        .where(eq(musicUploadFiles.id, file.id));
+      await tx
+        .update(musicUploads)
+        .set({
+          title: metadata.title,
+          artistName: metadata.artistName,
+          genre: metadata.genre,
+          status: transitionUpload(row.upload.status, "publish"),
+        })
+        .where(eq(musicUploads.id, uploadId));
+    });
+
+    logger.info(`Music upload ${uploadId} published (${info.format}, ${info.durationSeconds.toFixed(1)}s)`);
+    return toArtistUpload(await loadUpload(uploadId));
+  } catch (error) {
+    if (error instanceof AudioInspectionError) {
+      return rejectUpload(row, [`The file could not be read: ${error.message}`]);
+    }
+    if (error instanceof MusicError) throw error;
+
+    // Leave the upload where the artist can retry it
+    logger.error(`Failed to process music upload ${uploadId}:`, error);
+    return rejectUpload(row, ["Processing failed; resubmit to try again"]);
+  }
+}
+
+/**
+ * Process queued uploads, and uploads whose run died mid-way, oldest first.
+ * Each upload is claimed first, so concurrent runs never process one twice.
+ */
+export async function processQueuedUploads(
+  now: Date = new Date(),
+  limit = PROCESSING_BATCH_SIZE
+): Promise<UploadRunResult> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const claimable = or(
+    isNull(musicUploadFiles.processingStartedAt),
+    lt(musicUploadFiles.processingStartedAt, new Date(now.getTime() - UPLOAD_PROCESSING_LEASE_MS))
+  );
+  const queued = await db
+    .select({ uploadId: musicUploads.id, fileId: musicUploadFiles.id })
+    .from(musicUploads)
+    .innerJoin(musicUploadFiles, eq(musicUploadFiles.uploadId, musicUploads.id))
+    .where(and(eq(musicUploads.status, "processing"), claimable))
+    .orderBy(asc(musicUploads.id))
+    .limit(limit);
+
+  const result: UploadRunResult = { checked: queued.length, published: 0, rejected: 0, failed: 0 };
+  for (const { uploadId, fileId } of queued) {
+    const [claimed] = await db
+      .update(musicUploadFiles)
+      .set({ processingStartedAt: now })
+      .where(and(eq(musicUploadFiles.id, fileId), claimable))
+      .returning({ id: musicUploadFiles.id });
+    if (!claimed) continue;
+
+    try {
+      const processed = await processUpload(uploadId);
+      if (processed.status === "published") result.published += 1;
+      else result.rejected += 1;
+    } catch (error) {
+      result.failed += 1;
+      logger.error(`Failed to process music upload ${uploadId}:`, error);
+    }
+  }
+  return result;
+}
+
+export async function getArtistUpload(userId: number, uploadId: number): Promise<ArtistUpload> {
+  return toArtistUpload(await loadUpload(uploadId, userId));
+}
+
+export async function listArtistUploads(userId: number): Promise<ArtistUpload[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const rows = await db
+    .select({ upload: uploadColumns, file: musicUploadFiles })
+    .from(musicUploads)
+    .innerJoin(musicUploadFiles, eq(musicUploadFiles.uploadId, musicUploads.id))
+    .where(eq(musicUploads.userId, userId))
+    .orderBy(desc(musicUploads.id));
+  return rows.map(toArtistUpload);
+}
+
+/**
+ * Drop an upload that was never completed, with whatever was received
+ */
+export async function abandonUpload(userId: number, uploadId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const { upload, file } = await loadUpload(uploadId, userId);
+  if (upload.status !== "pending") throw new MusicError("Only unfinished uploads can be abandoned");
+
+  await db.transaction(async (tx) => {
+    await tx.delete(musicUploadFiles).where(eq(musicUploadFiles.id, file.id));
+    await tx.delete(musicUploads).where(eq(musicUploads.id, uploadId));
+  });
+  await getMusicStorage().remove(file.fileKey);
+
+  logger.info(`Artist ${userId} abandoned upload ${uploadId}`);
+}
+
+/**
+ * Uploads for admins, newest first, optionally by status
+ */
+export async function listUploads(status?: string, limit = 100): Promise<ArtistUpload[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const rows = await db
+    .select({ upload: uploadColumns, file: musicUploadFiles })
+    .from(musicUploads)
+    .innerJoin(musicUploadFiles, eq(musicUploadFiles.uploadId, musicUploads.id))
+    .where(status ? eq(musicUploads.status, status) : undefined)
+    .orderBy(desc(musicUploads.id))
+    .limit(limit);
+  return rows.map(toArtistUpload);
+}
+
+/**
+ * Take a published track out of the store for good. Buyers keep their
+ * downloads.
+ */
+export async function takeDownUpload(
+  adminId: number,
+  uploadId: number,
+  reason: string
+): Promise<ArtistUpload> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const row = await loadUpload(uploadId);
+  await moveUpload(uploadId, row.upload.status, "take_down");
+  await db
+    .update(musicUploadFiles)
+    .set({ rejectionReasons: [reason], rejectedBy: adminId, updatedAt: new Date() })
+    .where(eq(musicUploadFiles.id, row.file.id));
+
+  logger.info(`Admin ${adminId} took down music upload ${uploadId}`);
+  return toArtistUpload(await loadUpload(uploadId));
+}
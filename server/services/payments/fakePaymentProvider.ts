@@ -0,0 +1,218 @@
+/**
+ * In-memory Payment Provider
+ * Stands in for PayPal or Stripe in tests; approvals and recurring payments are driven by the test
+ */
+
+import type {
+  BillingPlan,
+  CancelSubscriptionOptions,
+  CaptureResult,
+  CreateOrderParams,
+  CreateSubscriptionParams,
+  PaymentProvider,
+  PaymentProviderName,
+  ProviderCheckout,
+  ProviderOrderStatus,
+  ProviderPayment,
+  ProviderPaymentStatus,
+  ProviderSubscriptionStatus,
+  RefundParams,
+  RefundResult,
+} from "./paymentProvider";
+
+interface FakeOrder {
+  id: string;
+  params: CreateOrderParams;
+  status: ProviderPaymentStatus;
+  captureId?: string;
+}
+
+interface FakeSubscription {
+  id: string;
+  params: CreateSubscriptionParams;
+  status: ProviderPaymentStatus;
+  nextBillingAt?: Date;
+  lastPaymentId?: string;
+  lastPaymentAt?: Date;
+  lastPaymentAmountCents?: number;
+  cancelReason?: string;
+  cancelAtPeriodEnd?: boolean;
+}
+
+export class FakePaymentProvider implements PaymentProvider {
+  constructor(readonly name: PaymentProviderName = "paypal") {}
+
+  readonly orders = new Map<string, FakeOrder>();
+  readonly subscriptions = new Map<string, FakeSubscription>();
+  readonly refunds: Array<RefundParams & { id: string }> = [];
+
+  private sequence = 0;
+
+  private nextId(prefix: string) {
+    this.sequence += 1;
+    return `${prefix}-FAKE-${this.sequence}`;
+  }
+
+  private approvalUrl(id: string) {
+    return `https://www.sandbox.paypal.com/checkoutnow?token=${id}`;
+  }
+
+  async createOrder(params: CreateOrderParams): Promise<ProviderCheckout> {
+    const id = this.nextId("ORDER");
+    this.orders.set(id, { id, params, status: "pending" });
+    return { id, approvalUrl: this.approvalUrl(id), status: "pending" };
+  }
+
+  async createSubscription(params: CreateSubscriptionParams): Promise<ProviderCheckout> {
+    const id = this.nextId("I");
+    this.subscriptions.set(id, { id, params, status: "pending" });
+    return { id, approvalUrl: this.approvalUrl(id), status: "pending" };
+  }
+
+  async captureOrder(orderId: string): Promise<CaptureResult> {
+    const order = this.orders.get(orderId);
+    if (!order) throw new Error(`Unknown order ${orderId}`);
+    if (order.status !== "approved" && order.status !== "completed") {
+      throw new Error(`Order ${orderId} has not been approved`);
+    }
+
+    order.status = "completed";
+    order.captureId = order.captureId ?? this.nextId("CAPTURE");
+
+    return {
+      orderId,
+      captureId: order.captureId,
+      status: "completed",
+      amountCents: order.params.amountCents,
+      currency: order.params.currency,
+      reference: order.params.reference,
+    };
+  }
+
+  async cancelSubscription(
+    subscriptionId: string,
+    reason?: string,
+    options: CancelSubscriptionOptions = {}
+  ): Promise<void> {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) throw new Error(`Unknown subscription ${subscriptionId}`);
+    subscription.cancelReason = reason;
+    if (options.atPeriodEnd) {
+      subscription.cancelAtPeriodEnd = true;
+    } else {
+      subscription.status = "canceled";
+    }
+  }
+
+  async resumeSubscription(subscriptionId: string): Promise<void> {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) throw new Error(`Unknown subscription ${subscriptionId}`);
+    if (subscription.status === "canceled") {
+      throw new Error(`Subscription ${subscriptionId} is already canceled`);
+    }
+    subscription.cancelAtPeriodEnd = false;
+    subscription.cancelReason = undefined;
+  }
+
+  async refundPayment(params: RefundParams): Promise<RefundResult> {
+    const id = this.nextId("REFUND");
+    this.refunds.push({ ...params, id });
+    return { id, status: "completed", amountCents: params.amountCents ?? 0 };
+  }
+
+  async getLatestPayment(
+    providerId: string,
+    kind: "subscription" | "payment"
+  ): Promise<ProviderPayment | null> {
+    if (kind === "subscription") {
+      const subscription = this.subscriptions.get(providerId);
+      if (!subscription?.lastPaymentId) return null;
+      return {
+        id: subscription.lastPaymentId,
+        kind: "sale",
+        amountCents: subscription.lastPaymentAmountCents ?? 0,
+        currency: subscription.params.plan.currency,
+        paidAt: subscription.lastPaymentAt,
+      };
+    }
+
+    const order = Array.from(this.orders.values()).find((o) => o.captureId === providerId);
+    if (!order) return null;
+    return {
+      id: providerId,
+      kind: "capture",
+      amountCents: order.params.amountCents,
+      currency: order.params.currency,
+    };
+  }
+
+  async getOrderStatus(orderId: string): Promise<ProviderOrderStatus> {
+    const order = this.orders.get(orderId);
+    if (!order) throw new Error(`Unknown order ${orderId}`);
+    return { id: order.id, status: order.status, reference: order.params.reference };
+  }
+
+  async getSubscriptionStatus(subscriptionId: string): Promise<ProviderSubscriptionStatus> {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) throw new Error(`Unknown subscription ${subscriptionId}`);
+    return {
+      id: subscription.id,
+      status: subscription.status,
+      reference: subscription.params.reference,
+      nextBillingAt: subscription.nextBillingAt,
+      lastPaymentAt: subscription.lastPaymentAt,
+      lastPaymentAmountCents: subscription.lastPaymentAmountCents,
+      cancelAtPeriodEnd: subscription.cancelAtPeriodEnd,
+      planId: subscription.params.plan.key,
+    };
+  }
+
+  async isOnPlan(status: ProviderSubscriptionStatus, plan: BillingPlan): Promise<boolean> {
+    return status.planId === plan.key;
+  }
+
+  /**
+   * Simulate the buyer approving an order on the provider's site
+   */
+  approveOrder(orderId: string) {
+    const order = this.orders.get(orderId);
+    if (!order) throw new Error(`Unknown order ${orderId}`);
+    order.status = "approved";
+  }
+
+  /**
+   * Simulate the buyer approving a subscription and the first charge going through
+   */
+  activateSubscription(subscriptionId: string, paidAt = new Date()) {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) throw new Error(`Unknown subscription ${subscriptionId}`);
+    subscription.status = "active";
+    this.recordPayment(subscriptionId, paidAt);
+  }
+
+  /**
+   * Simulate a successful recurring charge
+   */
+  recordPayment(subscriptionId: string, paidAt: Date) {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) throw new Error(`Unknown subscription ${subscriptionId}`);
+
+    const next = new Date(paidAt);
+    if (subscription.params.plan.interval === "year") {
+      next.setFullYear(next.getFullYear() + 1);
+    } else {
+      next.setMonth(next.getMonth() + 1);
+    }
+
+    subscription.lastPaymentId = this.nextId("SALE");
+    subscription.lastPaymentAt = paidAt;
+    subscription.lastPaymentAmountCents = subscription.params.plan.amountCents;
+    subscription.nextBillingAt = next;
+  }
+
+  setSubscriptionStatus(subscriptionId: string, status: ProviderPaymentStatus) {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) throw new Error(`Unknown subscription ${subscriptionId}`);
+    subscription.status = status;
+  }
+}
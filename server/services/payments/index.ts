@@ -0,0 +1,51 @@
+/**
+ * Payment provider registry
+ */
+
+import type { PaymentProvider, PaymentProviderName, RedirectUrls } from "./paymentProvider";
+import { PayPalPaymentProvider } from "./paypalProvider";
+import { StripePaymentProvider } from "./stripeProvider";
+
+export * from "./paymentProvider";
+export { encodePaymentReference, decodePaymentReference } from "./paymentReference";
+export type { PaymentReference } from "./paymentReference";
+
+export const PAYMENT_PROVIDERS: PaymentProviderName[] = ["paypal", "stripe"];
+
+const paymentProviders = new Map<PaymentProviderName, PaymentProvider>();
+
+/**
+ * The provider for a name, PayPal by default. Providers are created lazily
+ * so importing this module does not require credentials.
+ */
+export function getPaymentProvider(name: PaymentProviderName = "paypal"): PaymentProvider {
+  let provider = paymentProviders.get(name);
+  if (!provider) {
+    provider = name === "stripe" ? new StripePaymentProvider() : new PayPalPaymentProvider();
+    paymentProviders.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * Swap a provider, e.g. for FakePaymentProvider in tests
+ */
+export function setPaymentProvider(provider: PaymentProvider) {
+  paymentProviders.set(provider.name, provider);
+}
+
+export function resetPaymentProviders() {
+  paymentProviders.clear();
+}
+
+/**
+ * Return/cancel URLs for a frontend page, e.g. buildRedirectUrls("/content-master")
+ */
+export function buildRedirectUrls(path: string): RedirectUrls {
+  const frontendUrl = process.env.VITE_FRONTEND_URL || "http://localhost:3000";
+  const separator = path.includes("?") ? "&" : "?";
+  return {
+    returnUrl: `${frontendUrl}${path}${separator}success=true`,
+    cancelUrl: `${frontendUrl}${path}${separator}canceled=true`,
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Payment Provider Interface
+ * Common surface for the checkout, subscription and refund calls we make to payment processors
+ */
+
+export type PaymentProviderName = "paypal" | "stripe";
+
+export type BillingInterval = "month" | "year";
+
+/**
+ * A recurring price. Providers map the key to their own plan/price object.
+ */
+export interface BillingPlan {
+  key: string;
+  name: string;
+  description?: string;
+  amountCents: number;
+  currency: string;
+  interval: BillingInterval;
+  // Discounted price for the first `cycles` billing periods
+  introductory?: { amountCents: number; cycles: number };
+  // Free days before the first charge
+  trialDays?: number;
+}
+
+export interface RedirectUrls {
+  returnUrl: string;
+  cancelUrl: string;
+}
+
+export interface CreateOrderParams extends RedirectUrls {
+  amountCents: number;
+  currency: string;
+  description: string;
+  // Encoded PaymentReference, echoed back in webhooks
+  reference: string;
+}
+
+export interface CreateSubscriptionParams extends RedirectUrls {
+  plan: BillingPlan;
+  reference: string;
+  subscriberEmail?: string;
+  // Defer the first recurring charge, e.g. to the end of already paid time
+  startAt?: Date;
+  // One-time amount charged at signup, e.g. the prorated difference of a plan change
+  setupFeeCents?: number;
+}
+
+export interface ProviderCheckout {
+  id: string;
+  approvalUrl: string;
+  status: ProviderPaymentStatus;
+}
+
+export type ProviderPaymentStatus =
+  | "pending"
+  | "approved"
+  | "active"
+  | "completed"
+  | "suspended"
+  | "canceled"
+  | "expired"
+  | "denied";
+
+export interface CaptureResult {
+  orderId: string;
+  captureId: string;
+  status: "completed" | "pending" | "denied";
+  amountCents: number;
+  currency: string;
+  reference?: string;
+}
+
+export interface RefundParams {
+  // Capture ID for one-time orders, sale/transaction ID for subscription payments
+  paymentId: string;
+  paymentKind?: "capture" | "sale";
+  amountCents?: number;
+  currency: string;
+  reason?: string;
+}
+
+/**
+ * A settled charge that can be refunded
+ */
+export interface ProviderPayment {
+  id: string;
+  kind: "capture" | "sale";
+  amountCents: number;
+  currency: string;
+  paidAt?: Date;
+}
+
+export interface RefundResult {
+  id: string;
+  status: "completed" | "pending" | "failed";
+  amountCents: number;
+}
+
+export interface ProviderOrderStatus {
+  id: string;
+  status: ProviderPaymentStatus;
+  reference?: string;
+}
+
+export interface CancelSubscriptionOptions {
+  // Stop future charges but let the paid period run out; resumable until then
+  atPeriodEnd?: boolean;
+}
+
+export interface ProviderSubscriptionStatus {
+  id: string;
+  status: ProviderPaymentStatus;
+  reference?: string;
+  nextBillingAt?: Date;
+  lastPaymentAt?: Date;
+  lastPaymentAmountCents?: number;
+  cancelAtPeriodEnd?: boolean;
+  // Provider plan the subscription bills, and whether its pricing was overridden at signup
+  planId?: string;
+  planOverridden?: boolean;
+  // Regular recurring price, for providers that price each checkout inline
+  price?: { amountCents: number; currency: string; interval: BillingInterval };
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+
+  createOrder(params: CreateOrderParams): Promise<ProviderCheckout>;
+  createSubscription(params: CreateSubscriptionParams): Promise<ProviderCheckout>;
+  captureOrder(orderId: string): Promise<CaptureResult>;
+  cancelSubscription(
+    subscriptionId: string,
+    reason?: string,
+    options?: CancelSubscriptionOptions
+  ): Promise<void>;
+  // Undo a cancellation made with atPeriodEnd
+  resumeSubscription(subscriptionId: string, reason?: string): Promise<void>;
+  refundPayment(params: RefundParams): Promise<RefundResult>;
+  // The capture itself for one-time payments, the latest paid charge for subscriptions
+  getLatestPayment(
+    providerId: string,
+    kind: "subscription" | "payment"
+  ): Promise<ProviderPayment | null>;
+  getOrderStatus(orderId: string): Promise<ProviderOrderStatus>;
+  getSubscriptionStatus(subscriptionId: string): Promise<ProviderSubscriptionStatus>;
+  // Whether the subscription bills exactly this plan, so one created with a
+  // copied reference on a cheaper plan or price is not mistaken for it
+  isOnPlan(status: ProviderSubscriptionStatus, plan: BillingPlan): Promise<boolean>;
+}
@@ -0,0 +1,92 @@
+/**
+ * Payment Reference
+ * Encodes what a payment is for into the provider's custom_id field so
+ * webhooks can route events back to the right user and product
+ */
+
+export type PaymentReference =
+  | { kind: "content_master"; userId: number; planId: "monthly" | "lifetime" }
+  | { kind: "bot"; userId: number; botId: number; interval: "monthly" | "yearly" }
+  | { kind: "plan_change"; userId: number; planChangeId: number }
+  | { kind: "song"; userId: number; songId: number }
+  | { kind: "bundle"; userId: number; bundleId: number }
+  | { kind: "gift"; userId: number; giftId: number };
+
+const CONTENT_MASTER_PREFIX = "cm";
+const BOT_PREFIX = "bot";
+const PLAN_CHANGE_PREFIX = "chg";
+const SONG_PREFIX = "song";
+const BUNDLE_PREFIX = "bnd";
+const GIFT_PREFIX = "gft";
+
+/**
+ * Serialize a reference, e.g. "cm:12:lifetime", "bot:12:3:yearly", "chg:12:40", "song:12:7",
+ * "bnd:12:5" or "gft:12:9"
+ */
+export function encodePaymentReference(reference: PaymentReference): string {
+  switch (reference.kind) {
+    case "content_master":
+      return `${CONTENT_MASTER_PREFIX}:${reference.userId}:${reference.planId}`;
+    case "bot":
+      return `${BOT_PREFIX}:${reference.userId}:${reference.botId}:${reference.interval}`;
+    case "plan_change":
+      return `${PLAN_CHANGE_PREFIX}:${reference.userId}:${reference.planChangeId}`;
+    case "song":
+      return `${SONG_PREFIX}:${reference.userId}:${reference.songId}`;
+    case "bundle":
+      return `${BUNDLE_PREFIX}:${reference.userId}:${reference.bundleId}`;
+    case "gift":
+      return `${GIFT_PREFIX}:${reference.userId}:${reference.giftId}`;
+  }
+}
+
+/**
+ * Parse a custom_id back into a reference. Returns null for anything we did not issue.
+ */
+export function decodePaymentReference(value: string | null | undefined): PaymentReference | null {
+  if (!value) return null;
+
+  const parts = value.split(":");
+  const userId = parseInt(parts[1], 10);
+  if (!Number.isInteger(userId) || userId <= 0) return null;
+
+  if (parts[0] === CONTENT_MASTER_PREFIX && parts.length === 3) {
+    const planId = parts[2];
+    if (planId !== "monthly" && planId !== "lifetime") return null;
+    return { kind: "content_master", userId, planId };
+  }
+
+  if (parts[0] === BOT_PREFIX && parts.length === 4) {
+    const botId = parseInt(parts[2], 10);
+    const interval = parts[3];
+    if (!Number.isInteger(botId) || botId <= 0) return null;
+    if (interval !== "monthly" && interval !== "yearly") return null;
+    return { kind: "bot", userId, botId, interval };
+  }
+
+  if (parts[0] === PLAN_CHANGE_PREFIX && parts.length === 3) {
+    const planChangeId = parseInt(parts[2], 10);
+    if (!Number.isInteger(planChangeId) || planChangeId <= 0) return null;
+    return { kind: "plan_change", userId, planChangeId };
+  }
+
+  if (parts[0] === SONG_PREFIX && parts.length === 3) {
+    const songId = parseInt(parts[2], 10);
+    if (!Number.isInteger(songId) || songId <= 0) return null;
+    return { kind: "song", userId, songId };
+  }
+
+  if (parts[0] === BUNDLE_PREFIX && parts.length === 3) {
+    const bundleId = parseInt(parts[2], 10);
+    if (!Number.isInteger(bundleId) || bundleId <= 0) return null;
+    return { kind: "bundle", userId, bundleId };
+  }
+
+  if (parts[0] === GIFT_PREFIX && parts.length === 3) {
+    const giftId = parseInt(parts[2], 10);
+    if (!Number.isInteger(giftId) || giftId <= 0) return null;
+    return { kind: "gift", userId, giftId };
+  }
+
+  return null;
+}
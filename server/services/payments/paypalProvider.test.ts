@@ -0,0 +1,166 @@
+/**
+ * Tests for the PayPal REST provider
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { PayPalPaymentProvider, PayPalApiError, toPayPalAmount, fromPayPalAmount } from "./paypalProvider";
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+describe("PayPal Payment Provider", () => {
+  const config = {
+    clientId: "client",
+    clientSecret: "secret",
+    apiBase: "https://api-m.sandbox.paypal.com",
+    brandName: "Gifted Eternity",
+    productId: "PROD-1",
+  };
+
+  let now: number;
+  let fetchMock: any;
+  let provider: PayPalPaymentProvider;
+
+  beforeEach(() => {
+    now = Date.parse("2024-05-01T00:00:00Z");
+    fetchMock = vi.fn(async (url: string, init: RequestInit) => {
+      if (url.endsWith("/v1/oauth2/token")) {
+        return jsonResponse({ access_token: `token-${fetchMock.mock.calls.length}`, expires_in: 3600 });
+      }
+      if (url.endsWith("/v2/checkout/orders") && init.method === "POST") {
+        return jsonResponse({
+          id: "ORDER-1",
+          status: "CREATED",
+          links: [{ rel: "approve", href: "https://www.sandbox.paypal.com/checkoutnow?token=ORDER-1" }],
+        });
+      }
+      if (url.includes("/v1/billing/plans?")) {
+        return jsonResponse({ plans: [] });
+      }
+      if (url.endsWith("/v1/billing/plans")) {
+        return jsonResponse({ id: "P-1", status: "ACTIVE" });
+      }
+      if (url.endsWith("/v1/billing/subscriptions")) {
+        return jsonResponse({
+          id: "I-1",
+          status: "APPROVAL_PENDING",
+          links: [{ rel: "approve", href: "https://www.sandbox.paypal.com/webapps/billing/subscriptions?ba_token=BA-1" }],
+        });
+      }
+      if (url.includes("/v1/billing/subscriptions/I-9/transactions?")) {
+        return jsonResponse({
+          transactions: [
+            { id: "SALE-1", status: "COMPLETED", time: "2024-03-01T00:00:00Z", amount_with_breakdown: { gross_amount: { currency_code: "USD", value: "29.99" } } },
+            { id: "SALE-3", status: "DECLINED", time: "2024-04-15T00:00:00Z", amount_with_breakdown: { gross_amount: { currency_code: "USD", value: "29.99" } } },
+            { id: "SALE-2", status: "COMPLETED", time: "2024-04-01T00:00:00Z", amount_with_breakdown: { gross_amount: { currency_code: "USD", value: "29.99" } } },
+          ],
+        });
+      }
+      if (url.endsWith("/v1/billing/subscriptions/I-9")) {
+        return jsonResponse({ id: "I-9", status: "ACTIVE", start_time: "2024-03-01T00:00:00Z" });
+      }
+      return jsonResponse({ message: "Not found" }, 404);
+    });
+    provider = new PayPalPaymentProvider(config, fetchMock as unknown as typeof fetch, () => now);
+  });
+
+  const orderParams = {
+    amountCents: 29900,
+    currency: "usd",
+    description: "Content Master Lifetime Plan",
+    reference: "cm:12:lifetime",
+    returnUrl: "http://localhost:3000/content-master?success=true",
+    cancelUrl: "http://localhost:3000/content-master?canceled=true",
+  };
+
+  function tokenCalls() {
+    return fetchMock.mock.calls.filter(([url]: [string]) => String(url).endsWith("/v1/oauth2/token")).length;
+  }
+
+  it("should convert between cents and PayPal amounts", () => {
+    expect(toPayPalAmount(29900)).toBe("299.00");
+    expect(toPayPalAmount(1999)).toBe("19.99");
+    expect(fromPayPalAmount("29.99")).toBe(2999);
+  });
+
+  it("should create an order with the reference as custom_id", async () => {
+    const checkout = await provider.createOrder(orderParams);
+
+    expect(checkout.id).toBe("ORDER-1");
+    expect(checkout.approvalUrl).toContain("paypal.com");
+
+    const [, init] = fetchMock.mock.calls.find(([url]: [string]) => String(url).endsWith("/v2/checkout/orders"))!;
+    const body = JSON.parse(init.body);
+    expect(body.purchase_units[0].custom_id).toBe("cm:12:lifetime");
+    expect(body.purchase_units[0].amount).toEqual({ currency_code: "USD", value: "299.00" });
+  });
+
+  it("should reuse the OAuth token until it is about to expire", async () => {
+    await provider.createOrder(orderParams);
+    await provider.createOrder(orderParams);
+    expect(tokenCalls()).toBe(1);
+
+    now += 3600 * 1000;
+    await provider.createOrder(orderParams);
+    expect(tokenCalls()).toBe(2);
+  });
+
+  it("should create a billing plan once per key", async () => {
+    const plan = {
+      key: "bot_branded_monthly",
+      name: "Branded Bot Monthly",
+      amountCents: 2999,
+      currency: "usd",
+      interval: "month" as const,
+    };
+    const subscriptionParams = {
+      plan,
+      reference: "bot:12:3:monthly",
+      returnUrl: orderParams.returnUrl,
+      cancelUrl: orderParams.cancelUrl,
+    };
+
+    const first = await provider.createSubscription(subscriptionParams);
+    await provider.createSubscription(subscriptionParams);
+
+    expect(first.id).toBe("I-1");
+    const planCreates = fetchMock.mock.calls.filter(
+      ([url, init]: [string, RequestInit]) => String(url).endsWith("/v1/billing/plans") && init.method === "POST"
+    );
+    expect(planCreates).toHaveLength(1);
+    const planBody = JSON.parse(planCreates[0][1].body as string);
+    expect(planBody.billing_cycles[0].pricing_scheme.fixed_price.value).toBe("29.99");
+  });
+
+  it("should find the latest completed charge of a subscription", async () => {
+    const payment = await provider.getLatestPayment("I-9", "subscription");
+
+    expect(payment).toMatchObject({ id: "SALE-2", kind: "sale", amountCents: 2999, currency: "usd" });
+    const [url] = fetchMock.mock.calls.find(([url]: [string]) => String(url).includes("/transactions?"))!;
+    expect(url).toContain("end_time=2024-05-01T00%3A00%3A00.000Z");
+  });
+
+  it("should only accept subscriptions on the plan resolved for the price", async () => {
+    const plan = {
+      key: "content_master_monthly",
+      name: "Content Master Monthly Plan",
+      amountCents: 2900,
+      currency: "usd",
+      interval: "month" as const,
+    };
+
+    expect(await provider.isOnPlan({ id: "I-1", status: "active", planId: "P-1" }, plan)).toBe(true);
+    expect(await provider.isOnPlan({ id: "I-2", status: "active", planId: "P-CHEAP" }, plan)).toBe(false);
+    expect(
+      await provider.isOnPlan({ id: "I-3", status: "active", planId: "P-1", planOverridden: true }, plan)
+    ).toBe(false);
+  });
+
+  it("should surface API errors", async () => {
+    await expect(provider.getOrderStatus("MISSING")).rejects.toBeInstanceOf(PayPalApiError);
+  });
+});
@@ -0,0 +1,652 @@
+/**
+ * PayPal Payment Provider
+ * REST client for the Orders v2, Subscriptions v1 and Payouts v1 APIs
+ */
+
+import { logger } from "../../_core/logger";
+import type {
+  BillingPlan,
+  CancelSubscriptionOptions,
+  CaptureResult,
+  CreateOrderParams,
+  CreateSubscriptionParams,
+  PaymentProvider,
+  ProviderCheckout,
+  ProviderOrderStatus,
+  ProviderPayment,
+  ProviderPaymentStatus,
+  ProviderSubscriptionStatus,
+  RefundParams,
+  RefundResult,
+} from "./paymentProvider";
+import type {
+  PayPalPayoutBatchFile,
+  PayoutProvider,
+  SubmittedPayoutBatch,
+} from "../payouts/payoutProvider";
+
+export interface PayPalConfig {
+  clientId: string;
+  clientSecret: string;
+  apiBase: string;
+  brandName: string;
+  // Pre-created catalog product for billing plans; created on demand when unset
+  productId?: string;
+}
+
+export class PayPalApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly debugId?: string
+  ) {
+    super(message);
+    this.name = "PayPalApiError";
+  }
+}
+
+// Refresh the OAuth token this long before PayPal says it expires
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+const ORDER_STATUS: Record<string, ProviderPaymentStatus> = {
+  CREATED: "pending",
+  SAVED: "pending",
+  PAYER_ACTION_REQUIRED: "pending",
+  APPROVED: "approved",
+  COMPLETED: "completed",
+  VOIDED: "canceled",
+};
+
+const SUBSCRIPTION_STATUS: Record<string, ProviderPaymentStatus> = {
+  APPROVAL_PENDING: "pending",
+  APPROVED: "approved",
+  ACTIVE: "active",
+  SUSPENDED: "suspended",
+  CANCELLED: "canceled",
+  EXPIRED: "expired",
+};
+
+// The fields we read from PayPal's responses
+
+interface PayPalMoney {
+  currency_code: string;
+  value: string;
+}
+
+interface PayPalLink {
+  rel: string;
+  href: string;
+}
+
+interface PayPalCapture {
+  id: string;
+  status: string;
+  amount?: PayPalMoney;
+  custom_id?: string;
+  create_time?: string;
+}
+
+interface PayPalOrder {
+  id: string;
+  status: string;
+  links?: PayPalLink[];
+  purchase_units?: Array<{ custom_id?: string; payments?: { captures?: PayPalCapture[] } }>;
+}
+
+interface PayPalSubscription {
+  id: string;
+  status: string;
+  plan_id?: string;
+  plan_overridden?: boolean;
+  custom_id?: string;
+  start_time?: string;
+  create_time: string;
+  links?: PayPalLink[];
+  billing_info?: {
+    next_billing_time?: string;
+    last_payment?: { time?: string; amount?: PayPalMoney };
+  };
+}
+
+interface PayPalTransaction {
+  id: string;
+  status: string;
+  time: string;
+  amount_with_breakdown?: { gross_amount?: PayPalMoney };
+}
+
+interface PayPalPlan {
+  id: string;
+  name: string;
+  status: string;
+}
+
+interface PayPalBillingCycle {
+  frequency: { interval_unit: string; interval_count: number };
+  tenure_type: "TRIAL" | "REGULAR";
+  sequence: number;
+  total_cycles: number;
+  pricing_scheme?: ReturnType<typeof fixedPrice>;
+}
+
+interface PayPalErrorBody {
+  message?: string;
+  debug_id?: string;
+}
+
+export function getPayPalConfig(): PayPalConfig {
+  const clientId = process.env.PAYPAL_CLIENT_ID;
+  const clientSecret = process.env.PAYPAL_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    throw new Error("PayPal credentials are not configured");
+  }
+
+  return {
+    clientId,
+    clientSecret,
+    apiBase:
+      process.env.PAYPAL_API_BASE ||
+      (process.env.PAYPAL_MODE === "live"
+        ? "https://api-m.paypal.com"
+        : "https://api-m.sandbox.paypal.com"),
+    brandName: process.env.PAYPAL_BRAND_NAME || "Gifted Eternity",
+    productId: process.env.PAYPAL_PRODUCT_ID || undefined,
+  };
+}
+
+export function toPayPalAmount(amountCents: number): string {
+  return (amountCents / 100).toFixed(2);
+}
+
+export function fromPayPalAmount(value: string | undefined): number {
+  return Math.round(parseFloat(value ?? "0") * 100);
+}
+
+function fixedPrice(plan: BillingPlan, amountCents: number) {
+  return {
+    fixed_price: {
+      value: toPayPalAmount(amountCents),
+      currency_code: plan.currency.toUpperCase(),
+    },
+  };
+}
+
+/**
+ * Trial and introductory-price cycles (PayPal allows two) ahead of the regular one
+ */
+function buildBillingCycles(plan: BillingPlan) {
+  const frequency = { interval_unit: plan.interval === "year" ? "YEAR" : "MONTH", interval_count: 1 };
+  const cycles: PayPalBillingCycle[] = [];
+
+  if (plan.trialDays) {
+    cycles.push({
+      frequency: { interval_unit: "DAY", interval_count: plan.trialDays },
+      tenure_type: "TRIAL",
+      sequence: cycles.length + 1,
+      total_cycles: 1,
+    });
+  }
+  if (plan.introductory) {
+    cycles.push({
+      frequency,
+      tenure_type: "TRIAL",
+      sequence: cycles.length + 1,
+      total_cycles: plan.introductory.cycles,
+      pricing_scheme: fixedPrice(plan, plan.introductory.amountCents),
+    });
+  }
+  cycles.push({
+    frequency,
+    tenure_type: "REGULAR",
+    sequence: cycles.length + 1,
+    total_cycles: 0,
+    pricing_scheme: fixedPrice(plan, plan.amountCents),
+  });
+
+  return cycles;
+}
+
+function findLink(body: { links?: PayPalLink[] }, rels: string[]): string | undefined {
+  return (body.links ?? []).find((link) => rels.includes(link.rel))?.href;
+}
+
+export class PayPalPaymentProvider implements PaymentProvider, PayoutProvider {
+  readonly name = "paypal" as const;
+
+  private accessToken: { value: string; expiresAt: number } | null = null;
+  private pendingToken: Promise<string> | null = null;
+  private productId: string | null;
+  private planIds = new Map<string, string>();
+
+  constructor(
+    private readonly config: PayPalConfig = getPayPalConfig(),
+    private readonly fetchImpl: typeof fetch = fetch,
+    private readonly now: () => number = Date.now
+  ) {
+    this.productId = config.productId ?? null;
+  }
+
+  async createOrder(params: CreateOrderParams): Promise<ProviderCheckout> {
+    const order = await this.request<PayPalOrder>("POST", "/v2/checkout/orders", {
+      intent: "CAPTURE",
+      purchase_units: [
+        {
+          custom_id: params.reference,
+          description: params.description,
+          amount: {
+            currency_code: params.currency.toUpperCase(),
+            value: toPayPalAmount(params.amountCents),
+          },
+        },
+      ],
+      application_context: {
+        brand_name: this.config.brandName,
+        user_action: "PAY_NOW",
+        shipping_preference: "NO_SHIPPING",
+        return_url: params.returnUrl,
+        cancel_url: params.cancelUrl,
+      },
+    });
+
+    const approvalUrl = findLink(order, ["approve", "payer-action"]);
+    if (!approvalUrl) {
+      throw new PayPalApiError(`PayPal order ${order.id} has no approval link`, 502);
+    }
+
+    return { id: order.id, approvalUrl, status: ORDER_STATUS[order.status] ?? "pending" };
+  }
+
+  async createSubscription(params: CreateSubscriptionParams): Promise<ProviderCheckout> {
+    const planId = await this.ensurePlan(params.plan);
+
+    const subscription = await this.request<PayPalSubscription>("POST", "/v1/billing/subscriptions", {
+      plan_id: planId,
+      custom_id: params.reference,
+      ...(params.startAt ? { start_time: params.startAt.toISOString() } : {}),
+      ...(params.setupFeeCents
+        ? {
+            plan: {
+              payment_preferences: {
+                setup_fee: {
+                  currency_code: params.plan.currency.toUpperCase(),
+                  value: toPayPalAmount(params.setupFeeCents),
+                },
+                setup_fee_failure_action: "CANCEL",
+              },
+            },
+          }
+        : {}),
+      ...(params.subscriberEmail
+        ? { subscriber: { email_address: params.subscriberEmail } }
+        : {}),
+      application_context: {
+        brand_name: this.config.brandName,
+        user_action: "SUBSCRIBE_NOW",
+        shipping_preference: "NO_SHIPPING",
+        return_url: params.returnUrl,
+        cancel_url: params.cancelUrl,
+      },
+    });
+
+    const approvalUrl = findLink(subscription, ["approve"]);
+    if (!approvalUrl) {
+      throw new PayPalApiError(`PayPal subscription ${subscription.id} has no approval link`, 502);
+    }
+
+    return {
+      id: subscription.id,
+      approvalUrl,
+      status: SUBSCRIPTION_STATUS[subscription.status] ?? "pending",
+    };
+  }
+
+  async captureOrder(orderId: string): Promise<CaptureResult> {
+    const order = await this.request<PayPalOrder>(
+      "POST",
+      `/v2/checkout/orders/${encodeURIComponent(orderId)}/capture`,
+      {},
+      { "PayPal-Request-Id": `capture-${orderId}` }
+    );
+
+    const unit = order.purchase_units?.[0];
+    const capture = unit?.payments?.captures?.[0];
+    if (!capture) {
+      throw new PayPalApiError(`PayPal order ${orderId} returned no capture`, 502);
+    }
+
+    return {
+      orderId,
+      captureId: capture.id,
+      status:
+        capture.status === "COMPLETED"
+          ? "completed"
+          : capture.status === "PENDING"
+            ? "pending"
+            : "denied",
+      amountCents: fromPayPalAmount(capture.amount?.value),
+      currency: String(capture.amount?.currency_code ?? "USD").toLowerCase(),
+      reference: capture.custom_id ?? unit.custom_id,
+    };
+  }
+
+  /**
+   * PayPal cancellation is immediate and final, so a cancellation at period
+   * end suspends billing instead; the subscription scheduler issues the
+   * final cancel once the period is over.
+   */
+  async cancelSubscription(
+    subscriptionId: string,
+    reason = "Canceled by customer",
+    options: CancelSubscriptionOptions = {}
+  ): Promise<void> {
+    await this.request(
+      "POST",
+      `/v1/billing/subscriptions/${encodeURIComponent(subscriptionId)}/${
+        options.atPeriodEnd ? "suspend" : "cancel"
+      }`,
+      { reason }
+    );
+  }
+
+  async resumeSubscription(subscriptionId: string, reason = "Resumed by customer"): Promise<void> {
+    await this.request(
+      "POST",
+      `/v1/billing/subscriptions/${encodeURIComponent(subscriptionId)}/activate`,
+      { reason }
+    );
+  }
+
+  async refundPayment(params: RefundParams): Promise<RefundResult> {
+    const amount =
+      params.amountCents !== undefined
+        ? {
+            currency_code: params.currency.toUpperCase(),
+            value: toPayPalAmount(params.amountCents),
+          }
+        : undefined;
+
+    if (params.paymentKind === "sale") {
+      const refund = await this.request<{ id: string; state: string; amount?: { total?: string } }>(
+        "POST",
+        `/v1/payments/sale/${encodeURIComponent(params.paymentId)}/refund`,
+        {
+          ...(amount ? { amount: { total: amount.value, currency: amount.currency_code } } : {}),
+          ...(params.reason ? { description: params.reason } : {}),
+        }
+      );
+      return {
+        id: refund.id,
+        status: refund.state === "completed" ? "completed" : refund.state === "failed" ? "failed" : "pending",
+        amountCents: fromPayPalAmount(refund.amount?.total),
+      };
+    }
+
+    const refund = await this.request<{ id: string; status: string; amount?: PayPalMoney }>(
+      "POST",
+      `/v2/payments/captures/${encodeURIComponent(params.paymentId)}/refund`,
+      {
+        ...(amount ? { amount } : {}),
+        ...(params.reason ? { note_to_payer: params.reason } : {}),
+      }
+    );
+
+    return {
+      id: refund.id,
+      status:
+        refund.status === "COMPLETED" ? "completed" : refund.status === "FAILED" ? "failed" : "pending",
+      amountCents: fromPayPalAmount(refund.amount?.value),
+    };
+  }
+
+  async getLatestPayment(
+    providerId: string,
+    kind: "subscription" | "payment"
+  ): Promise<ProviderPayment | null> {
+    if (kind === "payment") {
+      const capture = await this.request<PayPalCapture>(
+        "GET",
+        `/v2/payments/captures/${encodeURIComponent(providerId)}`
+      );
+      if (capture.status !== "COMPLETED" && capture.status !== "PARTIALLY_REFUNDED") return null;
+      return {
+        id: capture.id,
+        kind: "capture",
+        amountCents: fromPayPalAmount(capture.amount?.value),
+        currency: String(capture.amount?.currency_code ?? "USD").toLowerCase(),
+        paidAt: capture.create_time ? new Date(capture.create_time) : undefined,
+      };
+    }
+
+    const subscription = await this.request<PayPalSubscription>(
+      "GET",
+      `/v1/billing/subscriptions/${encodeURIComponent(providerId)}`
+    );
+    const startTime = subscription.start_time ?? subscription.create_time;
+    const endTime = new Date(this.now()).toISOString();
+    const { transactions = [] } = await this.request<{ transactions?: PayPalTransaction[] }>(
+      "GET",
+      `/v1/billing/subscriptions/${encodeURIComponent(providerId)}/transactions?start_time=${encodeURIComponent(startTime)}&end_time=${encodeURIComponent(endTime)}`
+    );
+
+    const [latest] = transactions
+      .filter((transaction) => transaction.status === "COMPLETED")
+      .sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime());
+    if (!latest) return null;
+
+    const gross = latest.amount_with_breakdown?.gross_amount;
+    return {
+      id: latest.id,
+      kind: "sale",
+      amountCents: fromPayPalAmount(gross?.value),
+      currency: String(gross?.currency_code ?? "USD").toLowerCase(),
+      paidAt: latest.time ? new Date(latest.time) : undefined,
+    };
+  }
+
+  async getOrderStatus(orderId: string): Promise<ProviderOrderStatus> {
+    const order = await this.request<PayPalOrder>(
+      "GET",
+      `/v2/checkout/orders/${encodeURIComponent(orderId)}`
+    );
+    return {
+      id: order.id,
+      status: ORDER_STATUS[order.status] ?? "pending",
+      reference: order.purchase_units?.[0]?.custom_id,
+    };
+  }
+
+  async getSubscriptionStatus(subscriptionId: string): Promise<ProviderSubscriptionStatus> {
+    const subscription = await this.request<PayPalSubscription>(
+      "GET",
+      `/v1/billing/subscriptions/${encodeURIComponent(subscriptionId)}`
+    );
+    const billing = subscription.billing_info ?? {};
+
+    return {
+      id: subscription.id,
+      status: SUBSCRIPTION_STATUS[subscription.status] ?? "pending",
+      reference: subscription.custom_id,
+      nextBillingAt: billing.next_billing_time ? new Date(billing.next_billing_time) : undefined,
+      lastPaymentAt: billing.last_payment?.time ? new Date(billing.last_payment.time) : undefined,
+      lastPaymentAmountCents: billing.last_payment?.amount
+        ? fromPayPalAmount(billing.last_payment.amount.value)
+        : undefined,
+      planId: subscription.plan_id,
+      planOverridden: subscription.plan_overridden === true,
+    };
+  }
+
+  /**
+   * Anyone holding the client ID can start a subscription on any of our
+   * plans, or override its prices, so only the billing plan we resolve for
+   * this price counts
+   */
+  async isOnPlan(status: ProviderSubscriptionStatus, plan: BillingPlan): Promise<boolean> {
+    if (status.planOverridden || !status.planId) return false;
+    return status.planId === (await this.ensurePlan(plan));
+  }
+
+  /**
+   * Resolve the PayPal billing plan ID for a price, creating it on first use.
+   * PAYPAL_PLAN_<KEY> overrides the lookup, e.g. PAYPAL_PLAN_CONTENT_MASTER_MONTHLY.
+   */
+  async ensurePlan(plan: BillingPlan): Promise<string> {
+    const configured = process.env[`PAYPAL_PLAN_${plan.key.toUpperCase()}`];
+    if (configured) return configured;
+
+    const cached = this.planIds.get(plan.key);
+    if (cached) return cached;
+
+    const productId = await this.ensureProduct();
+    const planName = `${plan.name} [${plan.key}]`;
+
+    const existing = await this.request<{ plans?: PayPalPlan[] }>(
+      "GET",
+      `/v1/billing/plans?product_id=${encodeURIComponent(productId)}&page_size=20&total_required=false`
+    );
+    const match = (existing.plans ?? []).find(
+      (candidate) => candidate.name === planName && candidate.status === "ACTIVE"
+    );
+    if (match) {
+      this.planIds.set(plan.key, match.id);
+      return match.id;
+    }
+
+    const created = await this.request<PayPalPlan>(
+      "POST",
+      "/v1/billing/plans",
+      {
+        product_id: productId,
+        name: planName,
+        description: plan.description ?? plan.name,
+        status: "ACTIVE",
+        billing_cycles: buildBillingCycles(plan),
+        payment_preferences: {
+          auto_bill_outstanding: true,
+          payment_failure_threshold: 3,
+        },
+      },
+      { "PayPal-Request-Id": `plan-${plan.key}-${plan.amountCents}` }
+    );
+
+    logger.info(`Created PayPal billing plan ${created.id} for ${plan.key}`);
+    this.planIds.set(plan.key, created.id);
+    return created.id;
+  }
+
+  /**
+   * Send a Payouts batch. The sender batch ID doubles as the idempotency key,
+   * so a retried request cannot pay creators twice.
+   */
+  async submitPayoutBatch(file: PayPalPayoutBatchFile): Promise<SubmittedPayoutBatch> {
+    const response = await this.request<{
+      batch_header: { payout_batch_id: string; batch_status: string };
+    }>("POST", "/v1/payments/payouts", file, {
+      "PayPal-Request-Id": file.sender_batch_header.sender_batch_id,
+    });
+    return {
+      providerBatchId: response.batch_header.payout_batch_id,
+      status: response.batch_header.batch_status,
+    };
+  }
+
+  private async ensureProduct(): Promise<string> {
+    if (this.productId) return this.productId;
+
+    const product = await this.request<{ id: string }>(
+      "POST",
+      "/v1/catalogs/products",
+      {
+        name: `${this.config.brandName} Subscriptions`,
+        type: "SERVICE",
+        category: "SOFTWARE",
+      },
+      { "PayPal-Request-Id": "gifted-eternity-subscriptions-product" }
+    );
+
+    this.productId = product.id;
+    return product.id;
+  }
+
+  /**
+   * Client-credentials token, cached until shortly before it expires.
+   * Concurrent callers share one in-flight token request.
+   */
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt > this.now()) {
+      return this.accessToken.value;
+    }
+    if (this.pendingToken) return this.pendingToken;
+
+    this.pendingToken = (async () => {
+      const credentials = Buffer.from(
+        `${this.config.clientId}:${this.config.clientSecret}`
+      ).toString("base64");
+
+      const response = await this.fetchImpl(`${this.config.apiBase}/v1/oauth2/token`, {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${credentials}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: "grant_type=client_credentials",
+      });
+
+      if (!response.ok) {
+        throw new PayPalApiError("Failed to obtain PayPal access token", response.status);
+      }
+
+      const body = (await response.json()) as { access_token: string; expires_in: number };
+      this.accessToken = {
+        value: body.access_token,
+        expiresAt: this.now() + body.expires_in * 1000 - TOKEN_EXPIRY_MARGIN_MS,
+      };
+      return body.access_token;
+    })();
+
+    try {
+      return await this.pendingToken;
+    } finally {
+      this.pendingToken = null;
+    }
+  }
+
+  private async request<T = unknown>(
+    method: "GET" | "POST" | "PATCH",
+    path: string,
+    body?: unknown,
+    headers: Record<string, string> = {},
+    retried = false
+  ): Promise<T> {
+    const token = await this.getAccessToken();
+
+    const response = await this.fetchImpl(`${this.config.apiBase}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+        Prefer: "return=representation",
+        ...headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    // Token revoked or expired early: refresh once
+    if (response.status === 401 && !retried) {
+      this.accessToken = null;
+      return this.request<T>(method, path, body, headers, true);
+    }
+
+    if (!response.ok) {
+      const error = (await response.json().catch(() => ({}))) as PayPalErrorBody;
+      throw new PayPalApiError(
+        `PayPal ${method} ${path} failed: ${error.message ?? response.statusText}`,
+        response.status,
+        error.debug_id
+      );
+    }
+
+    if (response.status === 204) return undefined as T;
+    return (await response.json()) as T;
+  }
+}
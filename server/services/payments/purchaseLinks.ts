@@ -0,0 +1,209 @@
+/**
+ * Purchase Links
+ * Maps purchases to the provider subscription or payment that pays for them
+ */
+
+import { getDb } from "../../db";
+import { contentMasterPurchases, songPurchases, userBotPurchases } from "../../../drizzle/schema";
+import { purchaseProviders, type PurchaseProvider } from "../../../drizzle/billing_schema";
+import { and, desc, eq } from "drizzle-orm";
+import type { PaymentProviderName } from "./paymentProvider";
+import { canMoveTo } from "../subscriptions/subscriptionState";
+import type { SubscriptionEvent } from "../subscriptions/subscriptionStore";
+import { settleTrial } from "../trials/trialService";
+import { setBundlePurchaseStatus } from "../bundles/bundleStatus";
+import { setGiftPaymentStatus } from "../gifts/giftStatus";
+import { logger } from "../../_core/logger";
+
+export type PurchaseProductType = "content_master" | "bot" | "song" | "bundle" | "gift";
+
+// Provider-reported statuses that end a free trial
+const TRIAL_SETTLING_EVENTS: Record<string, SubscriptionEvent> = {
+  canceled: "canceled",
+  expired: "expired",
+  refunded: "refunded",
+};
+
+export interface PurchaseLinkInput {
+  productType: PurchaseProductType;
+  purchaseId: number;
+  userId: number;
+  provider: PaymentProviderName;
+  providerId: string;
+  providerKind: "subscription" | "payment";
+  providerCustomerId?: string;
+}
+
+type Database = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+export type PurchaseTransaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+/**
+ * Create the purchase a provider payment or subscription pays for, once.
+ * The return page and the webhook can complete the same checkout at the
+ * same time, so the provider ID is claimed first, in the transaction that
+ * creates the purchase; whoever loses the claim gets null and creates nothing.
+ */
+export async function createLinkedPurchase<T extends { id: number }>(
+  link: Omit<PurchaseLinkInput, "purchaseId">,
+  create: (tx: PurchaseTransaction) => Promise<T>
+): Promise<T | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  return db.transaction(async (tx) => {
+    const [claim] = await tx
+      .insert(purchaseProviders)
+      // Pointed at the purchase below before the transaction commits
+      .values({ ...link, purchaseId: 0 })
+      .onConflictDoNothing({ target: [purchaseProviders.provider, purchaseProviders.providerId] })
+      .returning({ id: purchaseProviders.id });
+    if (!claim) return null;
+
+    const purchase = await create(tx);
+    await tx
+      .update(purchaseProviders)
+      .set({ purchaseId: purchase.id })
+      .where(eq(purchaseProviders.id, claim.id));
+    return purchase;
+  });
+}
+
+export async function linkPurchase(link: PurchaseLinkInput): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  await db
+    .insert(purchaseProviders)
+    .values(link)
+    .onConflictDoNothing({ target: [purchaseProviders.provider, purchaseProviders.providerId] });
+}
+
+export async function findPurchaseLink(
+  provider: PaymentProviderName,
+  providerId: string
+): Promise<PurchaseProvider | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [link] = await db
+    .select()
+    .from(purchaseProviders)
+    .where(and(eq(purchaseProviders.provider, provider), eq(purchaseProviders.providerId, providerId)))
+    .limit(1);
+
+  return link ?? null;
+}
+
+/**
+ * Most recent provider link for a purchase
+ */
+export async function getPurchaseLink(
+  productType: PurchaseProductType,
+  purchaseId: number
+): Promise<PurchaseProvider | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [link] = await db
+    .select()
+    .from(purchaseProviders)
+    .where(
+      and(eq(purchaseProviders.productType, productType), eq(purchaseProviders.purchaseId, purchaseId))
+    )
+    .orderBy(desc(purchaseProviders.createdAt))
+    .limit(1);
+
+  return link ?? null;
+}
+
+/**
+ * Set the status of whichever purchase a provider object backs.
+ * Changes the subscription state machine does not allow (e.g. PayPal
+ * reporting the suspension we use for a pending cancellation) are skipped,
+ * as are changes to a provider object a plan change has replaced.
+ * Returns the link, or null when the provider ID is unknown.
+ */
+export async function updateLinkedPurchaseStatus(
+  provider: PaymentProviderName,
+  providerId: string,
+  status: string
+): Promise<PurchaseProvider | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const link = await findPurchaseLink(provider, providerId);
+  if (!link) return null;
+
+  const latest = await getPurchaseLink(link.productType as PurchaseProductType, link.purchaseId);
+  if (latest && latest.id !== link.id) {
+    logger.info(`Ignoring ${provider} status ${status} for replaced ${providerId}`);
+    return link;
+  }
+
+  // A bundle's payment backs every purchase it expanded into, and a gift's
+  // the purchase its redemption created
+  if (link.productType === "bundle" || link.productType === "gift") {
+    if (link.productType === "bundle") {
+      await setBundlePurchaseStatus(link.purchaseId, status);
+    } else {
+      await setGiftPaymentStatus(link.purchaseId, status);
+    }
+    await db
+      .update(purchaseProviders)
+      .set({ updatedAt: new Date() })
+      .where(eq(purchaseProviders.id, link.id));
+    return link;
+  }
+
+  const [current] =
+    link.productType === "content_master"
+      ? await db
+          .select({ status: contentMasterPurchases.status })
+          .from(contentMasterPurchases)
+          .where(eq(contentMasterPurchases.id, link.purchaseId))
+      : link.productType === "song"
+        ? await db
+            .select({ status: songPurchases.status })
+            .from(songPurchases)
+            .where(eq(songPurchases.id, link.purchaseId))
+        : await db
+            .select({ status: userBotPurchases.status })
+            .from(userBotPurchases)
+            .where(eq(userBotPurchases.id, link.purchaseId));
+
+  if (current?.status && !canMoveTo(current.status, status)) {
+    logger.info(
+      `Ignoring ${provider} status ${status} for ${link.productType} purchase ${link.purchaseId} (${current.status})`
+    );
+    return link;
+  }
+
+  if (link.productType === "content_master") {
+    await db
+      .update(contentMasterPurchases)
+      .set(status === "canceled" ? { status, canceledAt: new Date() } : { status })
+      .where(eq(contentMasterPurchases.id, link.purchaseId));
+  } else if (link.productType === "song") {
+    await db
+      .update(songPurchases)
+      .set({ status })
+      .where(eq(songPurchases.id, link.purchaseId));
+  } else {
+    await db
+      .update(userBotPurchases)
+      .set({ status })
+      .where(eq(userBotPurchases.id, link.purchaseId));
+  }
+
+  await db
+    .update(purchaseProviders)
+    .set({ updatedAt: new Date() })
+    .where(eq(purchaseProviders.id, link.id));
+
+  const trialEvent = TRIAL_SETTLING_EVENTS[status];
+  if (trialEvent && link.productType !== "song") {
+    await settleTrial(link.productType as "content_master" | "bot", link.purchaseId, trialEvent);
+  }
+
+  return link;
+}
@@ -0,0 +1,158 @@
+/**
+ * Tests for the Stripe Checkout provider
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type Stripe from "stripe";
+import { StripePaymentProvider } from "./stripeProvider";
+
+describe("Stripe Payment Provider", () => {
+  let client: any;
+  let provider: StripePaymentProvider;
+
+  beforeEach(() => {
+    client = {
+      checkout: {
+        sessions: {
+          create: vi.fn(async (params: any) => ({
+            id: "cs_test_1",
+            url: "https://checkout.stripe.com/c/pay/cs_test_1",
+            ...params,
+          })),
+          retrieve: vi.fn(async (id: string) => ({
+            id,
+            status: "complete",
+            payment_status: "paid",
+            payment_intent: "pi_1",
+            subscription: "sub_1",
+            amount_total: 29900,
+            currency: "usd",
+            metadata: { reference: "cm:42:lifetime" },
+            client_reference_id: "cm:42:lifetime",
+          })),
+        },
+      },
+      subscriptions: {
+        cancel: vi.fn(async () => ({})),
+        retrieve: vi.fn(async (id: string) => ({
+          id,
+          status: "past_due",
+          cancel_at_period_end: false,
+          current_period_end: 1717200000,
+          metadata: { reference: "bot:42:3:monthly" },
+          latest_invoice: { status: "open", amount_paid: 0, status_transitions: {} },
+          items: {
+            data: [{ price: { unit_amount: 2999, currency: "usd", recurring: { interval: "month" } } }],
+          },
+        })),
+      },
+      refunds: {
+        create: vi.fn(async (params: any) => ({
+          id: "re_1",
+          status: "succeeded",
+          amount: params.amount ?? 29900,
+        })),
+      },
+    };
+    provider = new StripePaymentProvider(client as unknown as Stripe);
+  });
+
+  it("creates a payment-mode Checkout Session carrying the reference", async () => {
+    const checkout = await provider.createOrder({
+      amountCents: 29900,
+      currency: "USD",
+      description: "Content Master Lifetime Plan",
+      reference: "cm:42:lifetime",
+      returnUrl: "http://localhost:3000/content-master?success=true",
+      cancelUrl: "http://localhost:3000/content-master?canceled=true",
+    });
+
+    const params = client.checkout.sessions.create.mock.calls[0][0];
+    expect(params.mode).toBe("payment");
+    expect(params.client_reference_id).toBe("cm:42:lifetime");
+    expect(params.line_items[0].price_data).toMatchObject({ currency: "usd", unit_amount: 29900 });
+    expect(params.success_url).toBe(
+      "http://localhost:3000/content-master?success=true&session_id={CHECKOUT_SESSION_ID}"
+    );
+    expect(checkout).toEqual({
+      id: "cs_test_1",
+      approvalUrl: "https://checkout.stripe.com/c/pay/cs_test_1",
+      status: "pending",
+    });
+  });
+
+  it("creates a recurring price for subscriptions", async () => {
+    await provider.createSubscription({
+      plan: {
+        key: "bot_branded_yearly",
+        name: "Branded Bot Yearly",
+        amountCents: 29999,
+        currency: "usd",
+        interval: "year",
+      },
+      reference: "bot:42:3:yearly",
+      subscriberEmail: "buyer@example.com",
+      returnUrl: "http://localhost:3000/bots?botId=3&success=true",
+      cancelUrl: "http://localhost:3000/bots?botId=3&canceled=true",
+    });
+
+    const params = client.checkout.sessions.create.mock.calls[0][0];
+    expect(params.mode).toBe("subscription");
+    expect(params.customer_email).toBe("buyer@example.com");
+    expect(params.subscription_data.metadata.reference).toBe("bot:42:3:yearly");
+    expect(params.line_items[0].price_data.recurring).toEqual({ interval: "year" });
+  });
+
+  it("reports the payment intent of a paid session as the capture", async () => {
+    const capture = await provider.captureOrder("cs_test_1");
+
+    expect(capture).toEqual({
+      orderId: "cs_test_1",
+      captureId: "pi_1",
+      status: "completed",
+      amountCents: 29900,
+      currency: "usd",
+      reference: "cm:42:lifetime",
+    });
+  });
+
+  it("resolves a Checkout Session to its subscription and maps the status", async () => {
+    const status = await provider.getSubscriptionStatus("cs_test_1");
+
+    expect(client.subscriptions.retrieve).toHaveBeenCalledWith("sub_1", {
+      expand: ["latest_invoice"],
+    });
+    expect(status.id).toBe("sub_1");
+    expect(status.status).toBe("suspended");
+    expect(status.reference).toBe("bot:42:3:monthly");
+    expect(status.nextBillingAt).toEqual(new Date(1717200000 * 1000));
+    expect(status.lastPaymentAt).toBeUndefined();
+    expect(status.price).toEqual({ amountCents: 2999, currency: "usd", interval: "month" });
+  });
+
+  it("matches a subscription to a plan by its recurring price", async () => {
+    const status = await provider.getSubscriptionStatus("sub_1");
+    const plan = { key: "bot_3_monthly_2999", name: "Bot Monthly", amountCents: 2999, currency: "usd" };
+
+    expect(await provider.isOnPlan(status, { ...plan, interval: "month" })).toBe(true);
+    expect(await provider.isOnPlan(status, { ...plan, interval: "year" })).toBe(false);
+    expect(await provider.isOnPlan(status, { ...plan, interval: "month", amountCents: 4999 })).toBe(false);
+  });
+
+  it("refunds against the payment intent", async () => {
+    const refund = await provider.refundPayment({
+      paymentId: "pi_1",
+      amountCents: 1000,
+      currency: "usd",
+      reason: "Duplicate purchase",
+    });
+
+    expect(client.refunds.create).toHaveBeenCalledWith({
+      payment_intent: "pi_1",
+      amount: 1000,
+      reason: "requested_by_customer",
+      metadata: { reason: "Duplicate purchase" },
+    });
+    expect(refund).toEqual({ id: "re_1", status: "completed", amountCents: 1000 });
+  });
+});
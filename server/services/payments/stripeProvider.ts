@@ -0,0 +1,333 @@
+/**
+ * Stripe Payment Provider
+ * Stripe Checkout Sessions for one-time orders and subscriptions
+ */
+
+import Stripe from "stripe";
+import type {
+  BillingPlan,
+  CancelSubscriptionOptions,
+  CaptureResult,
+  CreateOrderParams,
+  CreateSubscriptionParams,
+  PaymentProvider,
+  ProviderCheckout,
+  ProviderOrderStatus,
+  ProviderPayment,
+  ProviderPaymentStatus,
+  ProviderSubscriptionStatus,
+  RefundParams,
+  RefundResult,
+} from "./paymentProvider";
+
+// Same API version as the knowledge upload Stripe client
+const STRIPE_API_VERSION = "2024-04-10";
+
+const SUBSCRIPTION_STATUS: Record<string, ProviderPaymentStatus> = {
+  incomplete: "pending",
+  incomplete_expired: "expired",
+  trialing: "active",
+  active: "active",
+  past_due: "suspended",
+  unpaid: "suspended",
+  paused: "suspended",
+  canceled: "canceled",
+};
+
+export function createStripeClient(): Stripe {
+  const secret = process.env.STRIPE_SECRET;
+  if (!secret) {
+    throw new Error("Stripe credentials are not configured");
+  }
+  return new Stripe(secret, { apiVersion: STRIPE_API_VERSION });
+}
+
+/**
+ * Stripe substitutes {CHECKOUT_SESSION_ID} so the return page can complete the checkout
+ */
+function withSessionId(url: string) {
+  const separator = url.includes("?") ? "&" : "?";
+  return `${url}${separator}session_id={CHECKOUT_SESSION_ID}`;
+}
+
+function toSeconds(date: number | null | undefined): Date | undefined {
+  return date ? new Date(date * 1000) : undefined;
+}
+
+export class StripePaymentProvider implements PaymentProvider {
+  readonly name = "stripe" as const;
+
+  private client: Stripe | null;
+
+  constructor(client?: Stripe) {
+    this.client = client ?? null;
+  }
+
+  private get stripe(): Stripe {
+    if (!this.client) {
+      this.client = createStripeClient();
+    }
+    return this.client;
+  }
+
+  async createOrder(params: CreateOrderParams): Promise<ProviderCheckout> {
+    const session = await this.stripe.checkout.sessions.create({
+      mode: "payment",
+      client_reference_id: params.reference,
+      metadata: { reference: params.reference },
+      payment_intent_data: { metadata: { reference: params.reference } },
+      line_items: [
+        {
+          quantity: 1,
+          price_data: {
+            currency: params.currency.toLowerCase(),
+            unit_amount: params.amountCents,
+            product_data: { name: params.description },
+          },
+        },
+      ],
+      success_url: withSessionId(params.returnUrl),
+      cancel_url: params.cancelUrl,
+    });
+
+    return { id: session.id, approvalUrl: session.url ?? "", status: "pending" };
+  }
+
+  async createSubscription(params: CreateSubscriptionParams): Promise<ProviderCheckout> {
+    const coupon = params.plan.introductory ? await this.createIntroductoryCoupon(params.plan) : null;
+
+    const session = await this.stripe.checkout.sessions.create({
+      mode: "subscription",
+      client_reference_id: params.reference,
+      customer_email: params.subscriberEmail,
+      metadata: { reference: params.reference },
+      subscription_data: {
+        metadata: { reference: params.reference, plan: params.plan.key },
+        // A trial is how Checkout defers the first recurring charge
+        trial_end: params.startAt ? Math.floor(params.startAt.getTime() / 1000) : undefined,
+        trial_period_days: params.startAt ? undefined : params.plan.trialDays,
+      },
+      discounts: coupon ? [{ coupon: coupon.id }] : undefined,
+      line_items: [
+        {
+          quantity: 1,
+          price_data: {
+            currency: params.plan.currency.toLowerCase(),
+            unit_amount: params.plan.amountCents,
+            recurring: { interval: params.plan.interval },
+            product_data: { name: params.plan.name },
+          },
+        },
+        ...(params.setupFeeCents
+          ? [
+              {
+                quantity: 1,
+                price_data: {
+                  currency: params.plan.currency.toLowerCase(),
+                  unit_amount: params.setupFeeCents,
+                  product_data: { name: `${params.plan.name} (prorated change)` },
+                },
+              },
+            ]
+          : []),
+      ],
+      success_url: withSessionId(params.returnUrl),
+      cancel_url: params.cancelUrl,
+    });
+
+    return { id: session.id, approvalUrl: session.url ?? "", status: "pending" };
+  }
+
+  /**
+   * Single-use coupon bringing the first cycles down to the introductory price
+   */
+  private async createIntroductoryCoupon(plan: BillingPlan) {
+    const intro = plan.introductory!;
+    return this.stripe.coupons.create({
+      amount_off: plan.amountCents - intro.amountCents,
+      currency: plan.currency.toLowerCase(),
+      duration: "repeating",
+      duration_in_months: intro.cycles * (plan.interval === "year" ? 12 : 1),
+      max_redemptions: 1,
+      name: `${plan.name} introductory price`,
+    });
+  }
+
+  /**
+   * Checkout captures automatically; this confirms the session was paid
+   */
+  async captureOrder(sessionId: string): Promise<CaptureResult> {
+    const session = await this.stripe.checkout.sessions.retrieve(sessionId);
+    const paymentIntentId =
+      typeof session.payment_intent === "string"
+        ? session.payment_intent
+        : session.payment_intent?.id;
+
+    if (!paymentIntentId) {
+      throw new Error(`Stripe session ${sessionId} has no payment`);
+    }
+
+    return {
+      orderId: sessionId,
+      captureId: paymentIntentId,
+      status:
+        session.payment_status === "paid"
+          ? "completed"
+          : session.status === "expired"
+            ? "denied"
+            : "pending",
+      amountCents: session.amount_total ?? 0,
+      currency: session.currency ?? "usd",
+      reference: session.metadata?.reference ?? session.client_reference_id ?? undefined,
+    };
+  }
+
+  async cancelSubscription(
+    subscriptionId: string,
+    reason?: string,
+    options: CancelSubscriptionOptions = {}
+  ): Promise<void> {
+    if (options.atPeriodEnd) {
+      await this.stripe.subscriptions.update(subscriptionId, {
+        cancel_at_period_end: true,
+        metadata: reason ? { cancel_reason: reason } : undefined,
+      });
+      return;
+    }
+    await this.stripe.subscriptions.cancel(subscriptionId);
+  }
+
+  async resumeSubscription(subscriptionId: string): Promise<void> {
+    await this.stripe.subscriptions.update(subscriptionId, { cancel_at_period_end: false });
+  }
+
+  async refundPayment(params: RefundParams): Promise<RefundResult> {
+    const refund = await this.stripe.refunds.create({
+      payment_intent: params.paymentId,
+      amount: params.amountCents,
+      reason: "requested_by_customer",
+      metadata: params.reason ? { reason: params.reason } : undefined,
+    });
+
+    return {
+      id: refund.id,
+      status:
+        refund.status === "succeeded"
+          ? "completed"
+          : refund.status === "failed" || refund.status === "canceled"
+            ? "failed"
+            : "pending",
+      amountCents: refund.amount,
+    };
+  }
+
+  async getLatestPayment(
+    providerId: string,
+    kind: "subscription" | "payment"
+  ): Promise<ProviderPayment | null> {
+    if (kind === "payment") {
+      const intent = await this.stripe.paymentIntents.retrieve(providerId);
+      if (intent.status !== "succeeded") return null;
+      return {
+        id: intent.id,
+        kind: "capture",
+        amountCents: intent.amount_received,
+        currency: intent.currency,
+        paidAt: toSeconds(intent.created),
+      };
+    }
+
+    const subscription = await this.stripe.subscriptions.retrieve(providerId, {
+      expand: ["latest_invoice"],
+    });
+    const invoice =
+      subscription.latest_invoice && typeof subscription.latest_invoice !== "string"
+        ? subscription.latest_invoice
+        : null;
+    const paymentIntent = invoice?.payment_intent;
+    if (!invoice || invoice.status !== "paid" || !paymentIntent) return null;
+
+    return {
+      id: typeof paymentIntent === "string" ? paymentIntent : paymentIntent.id,
+      kind: "capture",
+      amountCents: invoice.amount_paid,
+      currency: invoice.currency,
+      paidAt: toSeconds(invoice.status_transitions?.paid_at),
+    };
+  }
+
+  async getOrderStatus(sessionId: string): Promise<ProviderOrderStatus> {
+    const session = await this.stripe.checkout.sessions.retrieve(sessionId);
+    return {
+      id: session.id,
+      status:
+        session.payment_status === "paid"
+          ? "completed"
+          : session.status === "expired"
+            ? "canceled"
+            : "pending",
+      reference: session.metadata?.reference ?? session.client_reference_id ?? undefined,
+    };
+  }
+
+  /**
+   * Accepts a subscription ID or the Checkout Session that created it;
+   * the returned id is always the subscription ID.
+   */
+  async getSubscriptionStatus(id: string): Promise<ProviderSubscriptionStatus> {
+    let subscriptionId = id;
+
+    if (id.startsWith("cs_")) {
+      const session = await this.stripe.checkout.sessions.retrieve(id);
+      const subscription = session.subscription;
+      if (!subscription) {
+        return {
+          id,
+          status: session.status === "expired" ? "expired" : "pending",
+          reference: session.metadata?.reference ?? session.client_reference_id ?? undefined,
+        };
+      }
+      subscriptionId = typeof subscription === "string" ? subscription : subscription.id;
+    }
+
+    const subscription = await this.stripe.subscriptions.retrieve(subscriptionId, {
+      expand: ["latest_invoice"],
+    });
+    const invoice =
+      subscription.latest_invoice && typeof subscription.latest_invoice !== "string"
+        ? subscription.latest_invoice
+        : null;
+    const price = subscription.items.data[0]?.price;
+
+    return {
+      id: subscription.id,
+      status: SUBSCRIPTION_STATUS[subscription.status] ?? "pending",
+      reference: subscription.metadata?.reference,
+      nextBillingAt: subscription.cancel_at_period_end
+        ? undefined
+        : toSeconds(subscription.current_period_end),
+      lastPaymentAt: invoice?.status === "paid" ? toSeconds(invoice.status_transitions?.paid_at) : undefined,
+      lastPaymentAmountCents: invoice?.status === "paid" ? invoice.amount_paid : undefined,
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      price: price?.recurring
+        ? {
+            amountCents: price.unit_amount ?? 0,
+            currency: price.currency,
+            interval: price.recurring.interval === "year" ? "year" : "month",
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Checkout Sessions are only created server-side and price the plan
+   * inline, so the recurring price identifies it
+   */
+  async isOnPlan(status: ProviderSubscriptionStatus, plan: BillingPlan): Promise<boolean> {
+    return (
+      status.price?.amountCents === plan.amountCents &&
+      status.price.currency === plan.currency.toLowerCase() &&
+      status.price.interval === plan.interval
+    );
+  }
+}
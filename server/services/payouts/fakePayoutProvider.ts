@@ -0,0 +1,32 @@
+/**
+ * In-memory Payout Provider
+ * Stands in for PayPal Payouts in tests; keeps every batch it was sent
+ */
+
+import type { PayPalPayoutBatchFile, PayoutProvider, SubmittedPayoutBatch } from "./payoutProvider";
+
+export class FakePayoutProvider implements PayoutProvider {
+  readonly batches: Array<PayPalPayoutBatchFile & { providerBatchId: string }> = [];
+
+  // Set to make the next submission fail the way a declined API call would
+  failNext: string | null = null;
+
+  private sequence = 0;
+
+  async submitPayoutBatch(file: PayPalPayoutBatchFile): Promise<SubmittedPayoutBatch> {
+    if (this.failNext) {
+      const message = this.failNext;
+      this.failNext = null;
+      throw new Error(message);
+    }
+    const senderBatchId = file.sender_batch_header.sender_batch_id;
+    if (this.batches.some((batch) => batch.sender_batch_header.sender_batch_id === senderBatchId)) {
+      throw new Error(`Batch ${senderBatchId} was already submitted`);
+    }
+
+    this.sequence += 1;
+    const providerBatchId = `PAYOUT-FAKE-${this.sequence}`;
+    this.batches.push({ ...file, providerBatchId });
+    return { providerBatchId, status: "PENDING" };
+  }
+}
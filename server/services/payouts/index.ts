@@ -0,0 +1,41 @@
+/**
+ * Creator ledger and payouts
+ */
+
+import { PayPalPaymentProvider } from "../payments/paypalProvider";
+import type { PayoutProvider } from "./payoutProvider";
+
+export * from "./ledgerPolicy";
+export * from "./payoutBatch";
+export type { PayoutProvider, PayPalPayoutBatchFile, SubmittedPayoutBatch } from "./payoutProvider";
+export {
+  PayoutError,
+  recordSale,
+  recordBotSale,
+  recordBundleSale,
+  getCreatorBalance,
+  getCreatorStatement,
+  getPayoutAccount,
+  setPayoutAccount,
+  runPayoutBatch,
+  listPayoutBatches,
+  getPayoutBatch,
+} from "./ledgerService";
+export type { PayoutBatchRun } from "./ledgerService";
+
+let payoutProvider: PayoutProvider | null = null;
+
+/**
+ * PayPal Payouts, created lazily so importing this module does not require credentials
+ */
+export function getPayoutProvider(): PayoutProvider {
+  if (!payoutProvider) payoutProvider = new PayPalPaymentProvider();
+  return payoutProvider;
+}
+
+/**
+ * Swap the payout provider, e.g. for FakePayoutProvider in tests
+ */
+export function setPayoutProvider(provider: PayoutProvider | null) {
+  payoutProvider = provider;
+}
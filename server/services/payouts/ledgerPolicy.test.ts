@@ -0,0 +1,218 @@
+/**
+ * Tests for creator ledger rules
+ */
+
+import { afterEach, describe, it, expect } from "vitest";
+import {
+  DEFAULT_PAYOUT_HOLD_DAYS,
+  buildStatement,
+  bundleSaleTransaction,
+  creatorBalances,
+  getPayoutHoldDays,
+  isBalanced,
+  payoutTransaction,
+  processorFeeCents,
+  refundTransaction,
+  saleTransaction,
+  toLedgerRows,
+  type Sale,
+} from "./ledgerPolicy";
+
+const paidAt = new Date("2024-06-01T00:00:00Z");
+
+const botSale: Sale = {
+  product: "bot",
+  purchaseId: 12,
+  grossCents: 2999,
+  currency: "usd",
+  provider: "paypal",
+  paidAt,
+  creator: { id: 7, sharePercent: 70 },
+  description: "Brain Bot monthly",
+};
+
+function rowsOf(transactions: ReturnType<typeof saleTransaction>[]) {
+  return transactions.flatMap(toLedgerRows);
+}
+
+describe("processorFeeCents", () => {
+  it("charges the provider's percentage plus its fixed fee", () => {
+    expect(processorFeeCents("paypal", 2999)).toBe(154);
+    expect(processorFeeCents("stripe", 100)).toBe(33);
+  });
+
+  it("never takes more than the charge", () => {
+    expect(processorFeeCents("paypal", 40)).toBe(40);
+    expect(processorFeeCents("paypal", 0)).toBe(0);
+  });
+});
+
+describe("bundleSaleTransaction", () => {
+  it("pays each creator their items' share of the bundle net of fees", () => {
+    const sale = bundleSaleTransaction(
+      {
+        bundlePurchaseId: 5,
+        grossCents: 1000,
+        currency: "usd",
+        provider: "paypal",
+        paidAt,
+        items: [
+          { allocatedCents: 500, creator: { id: 7, sharePercent: 70 } },
+          { allocatedCents: 300, creator: { id: 7, sharePercent: 70 } },
+          { allocatedCents: 200, creator: null },
+        ],
+        description: "Gospel Hour album",
+      },
+      14
+    );
+
+    // 84 cents of fees leave 916: 458 + 275 of it from creator 7's songs
+    expect(isBalanced(sale)).toBe(true);
+    expect(sale.key).toBe("sale:bundle:5:1717200000000");
+    expect(sale.lines).toEqual([
+      { account: "customer_payments", amountCents: -1000 },
+      { account: "processor_fees", amountCents: 84 },
+      { account: "platform_revenue", amountCents: 404 },
+      {
+        account: "creator_earnings",
+        creatorId: 7,
+        amountCents: 512,
+        availableAt: new Date("2024-06-15T00:00:00Z"),
+      },
+    ]);
+  });
+});
+
+describe("saleTransaction", () => {
+  it("pays the creator their share of the sale net of fees, held until the hold ends", () => {
+    const sale = saleTransaction(botSale, 14);
+
+    expect(isBalanced(sale)).toBe(true);
+    expect(sale.key).toBe("sale:bot:12:1717200000000");
+    expect(sale.lines).toEqual([
+      { account: "customer_payments", amountCents: -2999 },
+      { account: "processor_fees", amountCents: 154 },
+      { account: "platform_revenue", amountCents: 854 },
+      {
+        account: "creator_earnings",
+        creatorId: 7,
+        amountCents: 1991,
+        availableAt: new Date("2024-06-15T00:00:00Z"),
+      },
+    ]);
+  });
+
+  it("books platform products without a creator line", () => {
+    const sale = saleTransaction({ ...botSale, creator: null });
+    expect(sale.lines.map((line) => line.account)).toEqual([
+      "customer_payments",
+      "processor_fees",
+      "platform_revenue",
+    ]);
+  });
+});
+
+describe("refundTransaction", () => {
+  it("takes the reversals from the creator and the rest from the platform", () => {
+    const refund = refundTransaction({
+      product: "bot",
+      purchaseId: 12,
+      refundId: 3,
+      refundCents: 2999,
+      currency: "usd",
+      refundedAt: new Date("2024-06-05T00:00:00Z"),
+      reversals: [{ creatorId: 7, amount: -1991 }],
+    });
+
+    expect(isBalanced(refund)).toBe(true);
+    expect(refund.lines).toEqual([
+      { account: "customer_payments", amountCents: 2999 },
+      {
+        account: "creator_earnings",
+        creatorId: 7,
+        amountCents: -1991,
+        availableAt: new Date("2024-06-05T00:00:00Z"),
+      },
+      { account: "platform_revenue", amountCents: -1008 },
+    ]);
+  });
+});
+
+describe("creatorBalances", () => {
+  it("holds new earnings and releases them after the holding period", () => {
+    const rows = rowsOf([saleTransaction(botSale, 14)]);
+
+    expect(creatorBalances(rows, new Date("2024-06-10T00:00:00Z"))).toEqual([
+      { creatorId: 7, totalCents: 1991, availableCents: 0, heldCents: 1991 },
+    ]);
+    expect(creatorBalances(rows, new Date("2024-06-15T00:00:00Z"))).toEqual([
+      { creatorId: 7, totalCents: 1991, availableCents: 1991, heldCents: 0 },
+    ]);
+  });
+
+  it("takes payouts out of the available balance", () => {
+    const at = new Date("2024-07-01T00:00:00Z");
+    const rows = rowsOf([
+      saleTransaction(botSale, 14),
+      payoutTransaction({
+        batchId: 1,
+        senderBatchId: "payouts-1",
+        currency: "usd",
+        at,
+        items: [{ creatorId: 7, amountCents: 1991 }],
+      }),
+    ]);
+
+    expect(creatorBalances(rows, at)[0]).toMatchObject({ totalCents: 0, availableCents: 0 });
+  });
+
+  it("gives a failed batch back", () => {
+    const batch = {
+      batchId: 1,
+      senderBatchId: "payouts-1",
+      currency: "usd",
+      at: new Date("2024-07-01T00:00:00Z"),
+      items: [{ creatorId: 7, amountCents: 1991 }],
+    };
+    const returned = payoutTransaction({ ...batch, returned: true });
+
+    expect(returned.key).toBe("payout_returned:payouts-1");
+    expect(creatorBalances(rowsOf([payoutTransaction(batch), returned]), batch.at)[0].totalCents).toBe(0);
+  });
+});
+
+describe("buildStatement", () => {
+  it("lists the period's line items between opening and closing balances", () => {
+    const june = saleTransaction(botSale, 14);
+    const july = saleTransaction({ ...botSale, paidAt: new Date("2024-07-01T00:00:00Z") }, 14);
+    const now = new Date("2024-07-05T00:00:00Z");
+
+    const statement = buildStatement(
+      rowsOf([june, july]),
+      { from: new Date("2024-07-01T00:00:00Z"), to: new Date("2024-08-01T00:00:00Z") },
+      now
+    );
+
+    expect(statement.openingBalanceCents).toBe(1991);
+    expect(statement.lines).toHaveLength(1);
+    expect(statement.lines[0]).toMatchObject({
+      amountCents: 1991,
+      held: true,
+      description: "Brain Bot monthly",
+    });
+    expect(statement.closingBalanceCents).toBe(3982);
+    expect(statement).toMatchObject({ availableCents: 1991, heldCents: 1991 });
+  });
+});
+
+describe("getPayoutHoldDays", () => {
+  afterEach(() => {
+    delete process.env.CREATOR_PAYOUT_HOLD_DAYS;
+  });
+
+  it("reads the holding period from the environment", () => {
+    expect(getPayoutHoldDays()).toBe(DEFAULT_PAYOUT_HOLD_DAYS);
+    process.env.CREATOR_PAYOUT_HOLD_DAYS = "30";
+    expect(getPayoutHoldDays()).toBe(30);
+  });
+});
@@ -0,0 +1,376 @@
+/**
+ * Creator Ledger Rules
+ * The balanced transactions a sale, a refund or a payout posts, processor
+ * fees, holding periods, and creator balances and statements, without
+ * touching the database
+ */
+
+import type { LedgerEntry } from "../../../drizzle/billing_schema";
+import type { PaymentProviderName } from "../payments/paymentProvider";
+import type { SalePayout } from "../refunds/refundPolicy";
+import { allocateCents } from "../bundles/bundlePolicy";
+
+export type LedgerAccount =
+  | "customer_payments"
+  | "processor_fees"
+  | "platform_revenue"
+  | "creator_earnings"
+  | "payouts";
+
+export type LedgerSource = "content_master" | "bot" | "song" | "bundle" | "gift" | "payout_batch";
+
+export interface LedgerLine {
+  account: LedgerAccount;
+  creatorId?: number | null;
+  amountCents: number;
+  availableAt?: Date | null;
+}
+
+export interface LedgerTransaction {
+  // Unique per source event, so posting the same event twice is refused
+  key: string;
+  sourceType: LedgerSource;
+  sourceId: number;
+  currency: string;
+  description: string;
+  occurredAt: Date;
+  lines: LedgerLine[];
+}
+
+/**
+ * Standard rates, used because providers do not report the fee with the charge
+ */
+export const PROCESSOR_FEES: Record<PaymentProviderName, { percentBps: number; fixedCents: number }> = {
+  paypal: { percentBps: 349, fixedCents: 49 },
+  stripe: { percentBps: 290, fixedCents: 30 },
+};
+
+export function processorFeeCents(provider: PaymentProviderName, amountCents: number): number {
+  if (amountCents <= 0) return 0;
+  const fee = PROCESSOR_FEES[provider];
+  return Math.min(amountCents, Math.round((amountCents * fee.percentBps) / 10000) + fee.fixedCents);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_PAYOUT_HOLD_DAYS = 14;
+
+export const DEFAULT_PAYOUT_MINIMUM_CENTS = 2500;
+
+/**
+ * Days earnings are held for refunds and chargebacks before they can be
+ * paid out, from CREATOR_PAYOUT_HOLD_DAYS, 14 by default
+ */
+export function getPayoutHoldDays(): number {
+  const days = Number(process.env.CREATOR_PAYOUT_HOLD_DAYS);
+  return Number.isFinite(days) && days >= 0 ? days : DEFAULT_PAYOUT_HOLD_DAYS;
+}
+
+/**
+ * Smallest balance worth a payout, from CREATOR_PAYOUT_MINIMUM_CENTS, $25 by default
+ */
+export function getPayoutMinimumCents(): number {
+  const cents = Number(process.env.CREATOR_PAYOUT_MINIMUM_CENTS);
+  return Number.isInteger(cents) && cents > 0 ? cents : DEFAULT_PAYOUT_MINIMUM_CENTS;
+}
+
+export interface Sale {
+  // A gift is booked when it is paid for, against the gift
+  product: "content_master" | "bot" | "song" | "gift";
+  purchaseId: number;
+  grossCents: number;
+  currency: string;
+  provider: PaymentProviderName;
+  paidAt: Date;
+  // Null for the platform's own products
+  creator: { id: number; sharePercent: number } | null;
+  description: string;
+}
+
+function withoutZeroLines(lines: LedgerLine[]): LedgerLine[] {
+  return lines.filter((line) => line.amountCents !== 0);
+}
+
+/**
+ * The customer's payment split into the processor fee, the creator's share
+ * of what is left, and the platform's revenue. The creator's share is held
+ * for `holdDays` before it can be paid out.
+ */
+export function saleTransaction(sale: Sale, holdDays: number = getPayoutHoldDays()): LedgerTransaction {
+  const feeCents = processorFeeCents(sale.provider, sale.grossCents);
+  const netCents = sale.grossCents - feeCents;
+  const shareCents = sale.creator ? Math.max(0, Math.floor((netCents * sale.creator.sharePercent) / 100)) : 0;
+
+  return {
+    key: `sale:${sale.product}:${sale.purchaseId}:${sale.paidAt.getTime()}`,
+    sourceType: sale.product,
+    sourceId: sale.purchaseId,
+    currency: sale.currency,
+    description: sale.description,
+    occurredAt: sale.paidAt,
+    lines: withoutZeroLines([
+      { account: "customer_payments", amountCents: -sale.grossCents },
+      { account: "processor_fees", amountCents: feeCents },
+      { account: "platform_revenue", amountCents: netCents - shareCents },
+      {
+        account: "creator_earnings",
+        creatorId: sale.creator?.id ?? null,
+        amountCents: shareCents,
+        availableAt: new Date(sale.paidAt.getTime() + holdDays * DAY_MS),
+      },
+    ]),
+  };
+}
+
+export interface BundleSale {
+  bundlePurchaseId: number;
+  grossCents: number;
+  currency: string;
+  provider: PaymentProviderName;
+  paidAt: Date;
+  // Each item's share of the bundle price and who earns from it
+  items: Array<{ allocatedCents: number; creator: { id: number; sharePercent: number } | null }>;
+  description: string;
+}
+
+/**
+ * A bundle's payment as one transaction: the processor fee is spread over
+ * the items by their share of the price, and each creator earns their share
+ * of what is left of their items. A refund of the bundle reverses every
+ * creator together.
+ */
+export function bundleSaleTransaction(
+  sale: BundleSale,
+  holdDays: number = getPayoutHoldDays()
+): LedgerTransaction {
+  const feeCents = processorFeeCents(sale.provider, sale.grossCents);
+  const itemNets = allocateCents(
+    sale.grossCents - feeCents,
+    sale.items.map((item) => item.allocatedCents)
+  );
+
+  const earnings = new Map<number, number>();
+  sale.items.forEach((item, index) => {
+    if (!item.creator) return;
+    const shareCents = Math.max(0, Math.floor((itemNets[index] * item.creator.sharePercent) / 100));
+    earnings.set(item.creator.id, (earnings.get(item.creator.id) ?? 0) + shareCents);
+  });
+  const sharesCents = Array.from(earnings.values()).reduce((total, cents) => total + cents, 0);
+  const availableAt = new Date(sale.paidAt.getTime() + holdDays * DAY_MS);
+
+  return {
+    key: `sale:bundle:${sale.bundlePurchaseId}:${sale.paidAt.getTime()}`,
+    sourceType: "bundle",
+    sourceId: sale.bundlePurchaseId,
+    currency: sale.currency,
+    description: sale.description,
+    occurredAt: sale.paidAt,
+    lines: withoutZeroLines([
+      { account: "customer_payments", amountCents: -sale.grossCents },
+      { account: "processor_fees", amountCents: feeCents },
+      { account: "platform_revenue", amountCents: sale.grossCents - feeCents - sharesCents },
+      ...Array.from(earnings, ([creatorId, amountCents]) => ({
+        account: "creator_earnings" as const,
+        creatorId,
+        amountCents,
+        availableAt,
+      })),
+    ]),
+  };
+}
+
+/**
+ * Money back to the customer: the creators' reversals (negative, see
+ * payoutReversals) and the platform absorbs the rest, processor fees included
+ */
+export function refundTransaction(refund: {
+  product: Sale["product"] | "bundle";
+  purchaseId: number;
+  refundId: number;
+  refundCents: number;
+  currency: string;
+  refundedAt: Date;
+  reversals: SalePayout[];
+}): LedgerTransaction {
+  const reversedCents = refund.reversals.reduce((total, reversal) => total + reversal.amount, 0);
+
+  return {
+    key: `refund:${refund.refundId}`,
+    sourceType: refund.product,
+    sourceId: refund.purchaseId,
+    currency: refund.currency,
+    description: `Refund of ${refund.product.replace(/_/g, " ")} purchase ${refund.purchaseId}`,
+    occurredAt: refund.refundedAt,
+    lines: withoutZeroLines([
+      { account: "customer_payments", amountCents: refund.refundCents },
+      ...refund.reversals.map((reversal) => ({
+        account: "creator_earnings" as const,
+        creatorId: reversal.creatorId,
+        amountCents: reversal.amount,
+        availableAt: refund.refundedAt,
+      })),
+      { account: "platform_revenue", amountCents: -refund.refundCents - reversedCents },
+    ]),
+  };
+}
+
+/**
+ * Creator balances moved to the payouts account when a batch is sent, or
+ * back when the provider refuses it
+ */
+export function payoutTransaction(batch: {
+  batchId: number;
+  senderBatchId: string;
+  currency: string;
+  at: Date;
+  items: Array<{ creatorId: number; amountCents: number }>;
+  returned?: boolean;
+}): LedgerTransaction {
+  const sign = batch.returned ? 1 : -1;
+  const totalCents = batch.items.reduce((total, item) => total + item.amountCents, 0);
+
+  return {
+    key: `${batch.returned ? "payout_returned" : "payout"}:${batch.senderBatchId}`,
+    sourceType: "payout_batch",
+    sourceId: batch.batchId,
+    currency: batch.currency,
+    description: batch.returned
+      ? `Payout batch ${batch.senderBatchId} failed; balance returned`
+      : `Payout batch ${batch.senderBatchId}`,
+    occurredAt: batch.at,
+    lines: withoutZeroLines([
+      ...batch.items.map((item) => ({
+        account: "creator_earnings" as const,
+        creatorId: item.creatorId,
+        amountCents: sign * item.amountCents,
+        availableAt: batch.at,
+      })),
+      { account: "payouts", amountCents: -sign * totalCents },
+    ]),
+  };
+}
+
+export function isBalanced(transaction: LedgerTransaction): boolean {
+  return transaction.lines.reduce((total, line) => total + line.amountCents, 0) === 0;
+}
+
+/**
+ * ledgerEntries rows for a transaction. Throws for an unbalanced one, which
+ * would be a bug in the rules above.
+ */
+export function toLedgerRows(transaction: LedgerTransaction) {
+  if (!isBalanced(transaction)) {
+    throw new Error(`Ledger transaction ${transaction.key} does not balance`);
+  }
+  return transaction.lines.map((line, index) => ({
+    transactionKey: transaction.key,
+    line: index + 1,
+    account: line.account,
+    creatorId: line.creatorId ?? null,
+    amountCents: line.amountCents,
+    currency: transaction.currency,
+    sourceType: transaction.sourceType,
+    sourceId: transaction.sourceId,
+    description: transaction.description,
+    occurredAt: transaction.occurredAt,
+    availableAt: line.availableAt ?? null,
+  }));
+}
+
+type CreatorLine = Pick<LedgerEntry, "account" | "creatorId" | "amountCents" | "availableAt">;
+
+export interface CreatorBalance {
+  creatorId: number;
+  totalCents: number;
+  // Past the holding period; reversals and payouts count straight away
+  availableCents: number;
+  heldCents: number;
+}
+
+function isAvailable(line: Pick<LedgerEntry, "availableAt">, now: Date): boolean {
+  return !line.availableAt || line.availableAt.getTime() <= now.getTime();
+}
+
+export function creatorBalances(lines: CreatorLine[], now: Date): CreatorBalance[] {
+  const byCreator = new Map<number, CreatorBalance>();
+  for (const line of lines) {
+    if (line.account !== "creator_earnings" || line.creatorId === null) continue;
+
+    const balance = byCreator.get(line.creatorId) ?? {
+      creatorId: line.creatorId,
+      totalCents: 0,
+      availableCents: 0,
+      heldCents: 0,
+    };
+    balance.totalCents += line.amountCents;
+    if (isAvailable(line, now)) {
+      balance.availableCents += line.amountCents;
+    } else {
+      balance.heldCents += line.amountCents;
+    }
+    byCreator.set(line.creatorId, balance);
+  }
+  return Array.from(byCreator.values());
+}
+
+export interface StatementLine {
+  date: Date;
+  description: string;
+  sourceType: string;
+  sourceId: number;
+  amountCents: number;
+  availableAt: Date | null;
+  held: boolean;
+}
+
+export interface CreatorStatement {
+  from: Date;
+  to: Date;
+  openingBalanceCents: number;
+  lines: StatementLine[];
+  closingBalanceCents: number;
+  availableCents: number;
+  heldCents: number;
+}
+
+/**
+ * A creator's earnings lines between `from` (inclusive) and `to` (exclusive),
+ * oldest first, with the balance before and after
+ */
+export function buildStatement(
+  entries: Array<
+    CreatorLine & Pick<LedgerEntry, "description" | "sourceType" | "sourceId" | "occurredAt">
+  >,
+  period: { from: Date; to: Date },
+  now: Date
+): CreatorStatement {
+  const earnings = entries
+    .filter((entry) => entry.account === "creator_earnings")
+    .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+
+  const before = earnings.filter((entry) => entry.occurredAt < period.from);
+  const within = earnings.filter(
+    (entry) => entry.occurredAt >= period.from && entry.occurredAt < period.to
+  );
+  const through = [...before, ...within];
+  const openingBalanceCents = before.reduce((total, entry) => total + entry.amountCents, 0);
+  const [balance] = creatorBalances(through, now);
+
+  return {
+    from: period.from,
+    to: period.to,
+    openingBalanceCents,
+    lines: within.map((entry) => ({
+      date: entry.occurredAt,
+      description: entry.description,
+      sourceType: entry.sourceType,
+      sourceId: entry.sourceId,
+      amountCents: entry.amountCents,
+      availableAt: entry.availableAt,
+      held: !isAvailable(entry, now),
+    })),
+    closingBalanceCents: openingBalanceCents + within.reduce((total, entry) => total + entry.amountCents, 0),
+    availableCents: balance?.availableCents ?? 0,
+    heldCents: balance?.heldCents ?? 0,
+  };
+}
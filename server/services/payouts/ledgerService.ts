@@ -0,0 +1,325 @@
+/**
+ * Creator Ledger Service
+ * Posts sales to the ledger, reports creator balances and statements, and
+ * runs payout batches
+ */
+
+import { getDb } from "../../db";
+import {
+  creatorPayoutAccounts,
+  ledgerEntries,
+  payoutBatches,
+  type CreatorPayoutAccount,
+  type PayoutBatch,
+} from "../../../drizzle/billing_schema";
+import { creatorPayouts } from "../../../drizzle/artist_dashboard_schema";
+import { and, desc, eq, sql } from "drizzle-orm";
+import { logger } from "../../_core/logger";
+import type { PaymentProviderName } from "../payments/paymentProvider";
+import type { PurchaseTransaction } from "../payments/purchaseLinks";
+import { creatorSharePercent } from "../catalog/creatorPolicy";
+import { getCatalogBot } from "../catalog/catalogService";
+import {
+  buildStatement,
+  bundleSaleTransaction,
+  creatorBalances,
+  getPayoutMinimumCents,
+  payoutTransaction,
+  saleTransaction,
+  toLedgerRows,
+  type BundleSale,
+  type CreatorBalance,
+  type CreatorStatement,
+  type LedgerTransaction,
+  type Sale,
+} from "./ledgerPolicy";
+import { buildPayPalPayoutFile, planPayoutBatch, senderBatchId, type PayoutPlan } from "./payoutBatch";
+import type { PayoutProvider } from "./payoutProvider";
+
+export class PayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PayoutError";
+  }
+}
+
+export interface PayoutBatchRun {
+  plan: PayoutPlan;
+  // Null for a dry run or when nobody is due a payout
+  batch: PayoutBatch | null;
+}
+
+/**
+ * Post a transaction once; returns false when its key was already posted.
+ * Given a purchase transaction, the entries commit or roll back with it.
+ */
+async function postTransaction(transaction: LedgerTransaction, tx?: PurchaseTransaction): Promise<boolean> {
+  const db = tx ?? (await getDb());
+  if (!db) throw new Error("Database unavailable");
+
+  const inserted = await db
+    .insert(ledgerEntries)
+    .values(toLedgerRows(transaction))
+    .onConflictDoNothing()
+    .returning({ id: ledgerEntries.id });
+  return inserted.length > 0;
+}
+
+/**
+ * Book a charge. Safe to call more than once for the same charge, since the
+ * webhook and the client can both report a sale. Pass the transaction that
+ * records the purchase so the purchase is never kept without its sale.
+ */
+export async function recordSale(sale: Sale, tx?: PurchaseTransaction): Promise<void> {
+  const posted = await postTransaction(saleTransaction(sale), tx);
+  if (posted) {
+    logger.info(
+      `Ledger: ${sale.product} purchase ${sale.purchaseId} sold for ${sale.grossCents} cents` +
+        (sale.creator ? ` (creator ${sale.creator.id} at ${sale.creator.sharePercent}%)` : "")
+    );
+  }
+}
+
+/**
+ * Book a bot charge, crediting the bot's creator when it has one.
+ * The currency defaults to the bot's catalog currency.
+ */
+export async function recordBotSale(
+  charge: {
+    purchaseId: number;
+    botId: number;
+    grossCents: number;
+    currency?: string;
+    provider: PaymentProviderName;
+    paidAt: Date;
+  },
+  tx?: PurchaseTransaction
+): Promise<void> {
+  const bot = await getCatalogBot(charge.botId);
+
+  await recordSale(
+    {
+      product: "bot",
+      purchaseId: charge.purchaseId,
+      grossCents: charge.grossCents,
+      currency: charge.currency ?? bot?.currency ?? "usd",
+      provider: charge.provider,
+      paidAt: charge.paidAt,
+      creator: bot?.creatorUserId ? { id: bot.creatorUserId, sharePercent: creatorSharePercent(bot) } : null,
+      description: `${bot?.name ?? `Bot ${charge.botId}`} subscription (purchase ${charge.purchaseId})`,
+    },
+    tx
+  );
+}
+
+/**
+ * Book a bundle's payment, crediting the creator of every item in it.
+ * Safe to call more than once for the same payment.
+ */
+export async function recordBundleSale(sale: BundleSale, tx?: PurchaseTransaction): Promise<void> {
+  const posted = await postTransaction(bundleSaleTransaction(sale), tx);
+  if (posted) {
+    logger.info(
+      `Ledger: bundle purchase ${sale.bundlePurchaseId} sold for ${sale.grossCents} cents` +
+        ` (${sale.items.length} items)`
+    );
+  }
+}
+
+async function loadCreatorLines(creatorId?: number, currency = "usd") {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  return db
+    .select()
+    .from(ledgerEntries)
+    .where(
+      and(
+        eq(ledgerEntries.account, "creator_earnings"),
+        eq(ledgerEntries.currency, currency),
+        creatorId === undefined ? undefined : eq(ledgerEntries.creatorId, creatorId)
+      )
+    );
+}
+
+export async function getCreatorBalance(creatorId: number, now: Date = new Date()): Promise<CreatorBalance> {
+  const [balance] = creatorBalances(await loadCreatorLines(creatorId), now);
+  return balance ?? { creatorId, totalCents: 0, availableCents: 0, heldCents: 0 };
+}
+
+/**
+ * The creator's earnings, reversals and payouts between `from` and `to`
+ */
+export async function getCreatorStatement(
+  creatorId: number,
+  period: { from: Date; to: Date },
+  now: Date = new Date()
+): Promise<CreatorStatement> {
+  return buildStatement(await loadCreatorLines(creatorId), period, now);
+}
+
+export async function getPayoutAccount(creatorId: number): Promise<CreatorPayoutAccount | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [account] = await db
+    .select()
+    .from(creatorPayoutAccounts)
+    .where(eq(creatorPayoutAccounts.creatorId, creatorId))
+    .limit(1);
+  return account ?? null;
+}
+
+export async function setPayoutAccount(
+  creatorId: number,
+  paypalEmail: string
+): Promise<CreatorPayoutAccount> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [account] = await db
+    .insert(creatorPayoutAccounts)
+    .values({ creatorId, paypalEmail })
+    .onConflictDoUpdate({
+      target: creatorPayoutAccounts.creatorId,
+      set: { paypalEmail, updatedAt: new Date() },
+    })
+    .returning();
+
+  logger.info(`Creator ${creatorId} updated their payout account`);
+  return account;
+}
+
+/**
+ * Pay every creator with an available balance over the minimum. The batch,
+ * its creatorPayouts items and the ledger transaction are written before
+ * the file is sent; if the provider refuses it, the balances are returned.
+ */
+export async function runPayoutBatch(
+  adminId: number,
+  provider: PayoutProvider,
+  options: { currency?: string; dryRun?: boolean; now?: Date } = {}
+): Promise<PayoutBatchRun> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const currency = options.currency ?? "usd";
+  const now = options.now ?? new Date();
+
+  const prepared = await db.transaction(async (tx) => {
+    // One batch at a time, so two runs cannot pay the same balance
+    await tx.execute(sql`select pg_advisory_xact_lock(hashtext('creator_payout_batch'))`);
+
+    const lines = await tx
+      .select()
+      .from(ledgerEntries)
+      .where(and(eq(ledgerEntries.account, "creator_earnings"), eq(ledgerEntries.currency, currency)));
+    const accounts = await tx.select().from(creatorPayoutAccounts);
+
+    const plan = planPayoutBatch(
+      creatorBalances(lines, now),
+      new Map(accounts.map((account) => [account.creatorId, account.paypalEmail])),
+      getPayoutMinimumCents()
+    );
+    if (options.dryRun || plan.items.length === 0) return { plan, batch: null, file: null };
+
+    const batchId = senderBatchId(now);
+    const file = buildPayPalPayoutFile(batchId, plan.items, currency);
+    const [batch] = await tx
+      .insert(payoutBatches)
+      .values({
+        senderBatchId: batchId,
+        status: "pending",
+        itemCount: plan.items.length,
+        totalCents: plan.totalCents,
+        currency,
+        file,
+        createdBy: adminId,
+      })
+      .returning();
+
+    await tx.insert(creatorPayouts).values(
+      plan.items.map((item) => ({
+        creatorId: item.creatorId,
+        amount: item.amountCents,
+        sourceType: "payout_batch",
+        sourceId: batch.id,
+        status: "pending",
+      }))
+    );
+    const payout = payoutTransaction({
+      batchId: batch.id,
+      senderBatchId: batchId,
+      currency,
+      at: now,
+      items: plan.items,
+    });
+    await tx.insert(ledgerEntries).values(toLedgerRows(payout));
+
+    return { plan, batch, file };
+  });
+
+  const { plan, batch, file } = prepared;
+  if (!batch || !file) return { plan, batch: null };
+
+  try {
+    const submitted = await provider.submitPayoutBatch(file);
+    const [updated] = await db
+      .update(payoutBatches)
+      .set({ status: "submitted", providerBatchId: submitted.providerBatchId })
+      .where(eq(payoutBatches.id, batch.id))
+      .returning();
+    await db
+      .update(creatorPayouts)
+      .set({ status: "sent" })
+      .where(and(eq(creatorPayouts.sourceType, "payout_batch"), eq(creatorPayouts.sourceId, batch.id)));
+
+    logger.info(
+      `Admin ${adminId} sent payout batch ${batch.senderBatchId}: ` +
+        `${plan.items.length} creators, ${plan.totalCents} cents`
+    );
+    return { plan, batch: updated };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await db.transaction(async (tx) => {
+      await tx
+        .update(payoutBatches)
+        .set({ status: "failed", error: message })
+        .where(eq(payoutBatches.id, batch.id));
+      await tx
+        .update(creatorPayouts)
+        .set({ status: "failed" })
+        .where(and(eq(creatorPayouts.sourceType, "payout_batch"), eq(creatorPayouts.sourceId, batch.id)));
+      await tx.insert(ledgerEntries).values(
+        toLedgerRows(
+          payoutTransaction({
+            batchId: batch.id,
+            senderBatchId: batch.senderBatchId,
+            currency,
+            at: new Date(),
+            items: plan.items,
+            returned: true,
+          })
+        )
+      );
+    });
+
+    logger.error(`Payout batch ${batch.senderBatchId} failed:`, error);
+    throw new PayoutError(`The payout batch was not accepted: ${message}`);
+  }
+}
+
+export async function listPayoutBatches(limit = 50): Promise<PayoutBatch[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  return db.select().from(payoutBatches).orderBy(desc(payoutBatches.createdAt)).limit(limit);
+}
+
+export async function getPayoutBatch(id: number): Promise<PayoutBatch | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [batch] = await db.select().from(payoutBatches).where(eq(payoutBatches.id, id)).limit(1);
+  return batch ?? null;
+}
@@ -0,0 +1,73 @@
+/**
+ * Tests for payout batch planning and the PayPal Payouts file
+ */
+
+import { describe, it, expect } from "vitest";
+import { buildPayPalPayoutFile, planPayoutBatch, senderBatchId } from "./payoutBatch";
+import { FakePayoutProvider } from "./fakePayoutProvider";
+
+const emails = new Map([
+  [1, "one@example.com"],
+  [2, "two@example.com"],
+]);
+
+describe("planPayoutBatch", () => {
+  it("pays available balances at or above the minimum", () => {
+    const plan = planPayoutBatch(
+      [
+        { creatorId: 2, totalCents: 4000, availableCents: 2500, heldCents: 1500 },
+        { creatorId: 1, totalCents: 1000, availableCents: 1000, heldCents: 0 },
+      ],
+      emails,
+      2500
+    );
+
+    expect(plan.items).toEqual([{ creatorId: 2, amountCents: 2500, paypalEmail: "two@example.com" }]);
+    expect(plan.skipped).toEqual([{ creatorId: 1, availableCents: 1000, reason: "below_minimum" }]);
+    expect(plan.totalCents).toBe(2500);
+  });
+
+  it("skips creators without a payout account and those owing money", () => {
+    const plan = planPayoutBatch(
+      [
+        { creatorId: 3, totalCents: 9000, availableCents: 9000, heldCents: 0 },
+        { creatorId: 1, totalCents: -500, availableCents: -500, heldCents: 0 },
+      ],
+      emails,
+      2500
+    );
+
+    expect(plan.items).toEqual([]);
+    expect(plan.skipped).toEqual([{ creatorId: 3, availableCents: 9000, reason: "no_payout_account" }]);
+  });
+});
+
+describe("buildPayPalPayoutFile", () => {
+  it("builds a Payouts request the provider accepts once", async () => {
+    const batchId = senderBatchId(new Date("2024-06-01T12:00:00.123Z"));
+    const file = buildPayPalPayoutFile(
+      batchId,
+      [{ creatorId: 2, amountCents: 2599, paypalEmail: "two@example.com" }],
+      "usd"
+    );
+
+    expect(batchId).toBe("payouts-20240601T120000Z");
+    expect(file.items).toEqual([
+      {
+        recipient_type: "EMAIL",
+        amount: { value: "25.99", currency: "USD" },
+        receiver: "two@example.com",
+        note: "Creator earnings",
+        sender_item_id: "payouts-20240601T120000Z-creator-2",
+      },
+    ]);
+
+    const provider = new FakePayoutProvider();
+    await expect(provider.submitPayoutBatch(file)).resolves.toEqual({
+      providerBatchId: "PAYOUT-FAKE-1",
+      status: "PENDING",
+    });
+    await expect(provider.submitPayoutBatch(file)).rejects.toThrow("already submitted");
+    expect(provider.batches).toHaveLength(1);
+  });
+});
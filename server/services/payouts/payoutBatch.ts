@@ -0,0 +1,94 @@
+/**
+ * Payout Batch Rules
+ * Which creators a batch pays and the PayPal Payouts file for it
+ */
+
+import { toPayPalAmount } from "../payments/paypalProvider";
+import type { CreatorBalance } from "./ledgerPolicy";
+import type { PayPalPayoutBatchFile } from "./payoutProvider";
+
+export interface PlannedPayout {
+  creatorId: number;
+  amountCents: number;
+  paypalEmail: string;
+}
+
+export interface SkippedPayout {
+  creatorId: number;
+  availableCents: number;
+  reason: "below_minimum" | "no_payout_account";
+}
+
+export interface PayoutPlan {
+  items: PlannedPayout[];
+  skipped: SkippedPayout[];
+  totalCents: number;
+}
+
+/**
+ * Pay every creator whose available balance reaches the minimum and who
+ * has a payout account. Held earnings wait for the next batch.
+ */
+export function planPayoutBatch(
+  balances: CreatorBalance[],
+  paypalEmails: Map<number, string>,
+  minimumCents: number
+): PayoutPlan {
+  const items: PlannedPayout[] = [];
+  const skipped: SkippedPayout[] = [];
+
+  for (const balance of [...balances].sort((a, b) => a.creatorId - b.creatorId)) {
+    if (balance.availableCents <= 0) continue;
+
+    if (balance.availableCents < minimumCents) {
+      skipped.push({
+        creatorId: balance.creatorId,
+        availableCents: balance.availableCents,
+        reason: "below_minimum",
+      });
+      continue;
+    }
+
+    const paypalEmail = paypalEmails.get(balance.creatorId);
+    if (!paypalEmail) {
+      skipped.push({
+        creatorId: balance.creatorId,
+        availableCents: balance.availableCents,
+        reason: "no_payout_account",
+      });
+      continue;
+    }
+
+    items.push({ creatorId: balance.creatorId, amountCents: balance.availableCents, paypalEmail });
+  }
+
+  return { items, skipped, totalCents: items.reduce((total, item) => total + item.amountCents, 0) };
+}
+
+/**
+ * Sender batch ID from the run time, e.g. payouts-20240601T120000Z
+ */
+export function senderBatchId(at: Date): string {
+  return `payouts-${at.toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "")}`;
+}
+
+export function buildPayPalPayoutFile(
+  batchId: string,
+  items: PlannedPayout[],
+  currency: string
+): PayPalPayoutBatchFile {
+  return {
+    sender_batch_header: {
+      sender_batch_id: batchId,
+      email_subject: "You have a payout from Gifted Eternity",
+      email_message: "Thank you for creating on Gifted Eternity. Your earnings are on their way.",
+    },
+    items: items.map((item) => ({
+      recipient_type: "EMAIL",
+      amount: { value: toPayPalAmount(item.amountCents), currency: currency.toUpperCase() },
+      receiver: item.paypalEmail,
+      note: "Creator earnings",
+      sender_item_id: `${batchId}-creator-${item.creatorId}`,
+    })),
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Payout Provider Interface
+ * Sends creator payout batches; PayPal Payouts in production, a fake in tests
+ */
+
+export interface PayPalPayoutItem {
+  recipient_type: "EMAIL";
+  amount: { value: string; currency: string };
+  receiver: string;
+  note: string;
+  // Our reference for the item, echoed back in PayPal's batch details
+  sender_item_id: string;
+}
+
+/**
+ * Request body of PayPal's POST /v1/payments/payouts
+ */
+export interface PayPalPayoutBatchFile {
+  sender_batch_header: {
+    sender_batch_id: string;
+    email_subject: string;
+    email_message: string;
+  };
+  items: PayPalPayoutItem[];
+}
+
+export interface SubmittedPayoutBatch {
+  providerBatchId: string;
+  // PayPal's batch_status, e.g. PENDING, PROCESSING, SUCCESS, DENIED
+  status: string;
+}
+
+export interface PayoutProvider {
+  submitPayoutBatch(file: PayPalPayoutBatchFile): Promise<SubmittedPayoutBatch>;
+}
@@ -0,0 +1,146 @@
+/**
+ * Tests for promo code rules
+ */
+
+import { describe, it, expect } from "vitest";
+import { applyPromoToPlan, evaluatePromo, normalizePromoCode, type PromoRule } from "./evaluatePromo";
+
+const now = new Date("2024-06-01T12:00:00Z");
+
+function rule(overrides: Partial<PromoRule> = {}): PromoRule {
+  return {
+    code: "REVIVAL24",
+    discountType: "percent",
+    percentOff: 20,
+    amountOffCents: null,
+    durationMonths: null,
+    trialDays: null,
+    products: null,
+    plans: null,
+    startsAt: null,
+    expiresAt: null,
+    maxRedemptions: null,
+    perUserLimit: 1,
+    active: true,
+    ...overrides,
+  };
+}
+
+const lifetime = { product: "content_master" as const, plan: "lifetime" as const, amountCents: 29900, interval: null, now };
+const botMonthly = { product: "bot" as const, plan: "monthly" as const, amountCents: 2999, interval: "month" as const, now };
+const unused = { redemptions: 0, userRedemptions: 0 };
+
+describe("evaluatePromo", () => {
+  it("takes a percentage off a one-time purchase", () => {
+    expect(evaluatePromo(rule(), lifetime, unused)).toEqual({
+      valid: true,
+      discount: { amountCents: 23920, discountCents: 5980, cycles: null, trialDays: null },
+    });
+  });
+
+  it("discounts only the first months of a subscription", () => {
+    const result = evaluatePromo(
+      rule({ discountType: "fixed", percentOff: null, amountOffCents: 1000, durationMonths: 3 }),
+      botMonthly,
+      unused
+    );
+
+    expect(result).toEqual({
+      valid: true,
+      discount: { amountCents: 1999, discountCents: 1000, cycles: 3, trialDays: null },
+    });
+  });
+
+  it("counts discounted months in whole years for yearly plans", () => {
+    const result = evaluatePromo(
+      rule({ durationMonths: 6 }),
+      { ...botMonthly, plan: "yearly", amountCents: 29999, interval: "year" },
+      unused
+    );
+
+    expect(result.valid && result.discount.cycles).toBe(1);
+  });
+
+  it("grants free trials on subscriptions only", () => {
+    const trial = rule({ discountType: "trial", percentOff: null, trialDays: 14 });
+
+    expect(evaluatePromo(trial, botMonthly, unused)).toEqual({
+      valid: true,
+      discount: { amountCents: 2999, discountCents: 0, cycles: null, trialDays: 14 },
+    });
+    expect(evaluatePromo(trial, lifetime, unused)).toEqual({
+      valid: false,
+      reason: "Free trials only apply to subscriptions",
+    });
+  });
+
+  it("enforces product, plan and date restrictions", () => {
+    expect(evaluatePromo(rule({ products: ["bot"] }), lifetime, unused).valid).toBe(false);
+    expect(evaluatePromo(rule({ plans: ["monthly", "yearly"] }), lifetime, unused).valid).toBe(false);
+    expect(evaluatePromo(rule({ expiresAt: now }), lifetime, unused)).toEqual({
+      valid: false,
+      reason: "This code has expired",
+    });
+    expect(evaluatePromo(rule({ startsAt: new Date("2024-07-01T00:00:00Z") }), lifetime, unused).valid).toBe(
+      false
+    );
+    expect(evaluatePromo(rule({ active: false }), lifetime, unused).valid).toBe(false);
+  });
+
+  it("enforces total and per-user redemption limits", () => {
+    expect(
+      evaluatePromo(rule({ maxRedemptions: 100 }), lifetime, { redemptions: 100, userRedemptions: 0 })
+    ).toEqual({ valid: false, reason: "This code has been fully redeemed" });
+    expect(evaluatePromo(rule(), lifetime, { redemptions: 3, userRedemptions: 1 })).toEqual({
+      valid: false,
+      reason: "You have already used this code",
+    });
+    expect(
+      evaluatePromo(rule({ perUserLimit: null }), lifetime, { redemptions: 3, userRedemptions: 5 }).valid
+    ).toBe(true);
+  });
+
+  it("refuses to make purchases free for good", () => {
+    expect(evaluatePromo(rule({ percentOff: 100 }), lifetime, unused).valid).toBe(false);
+    expect(evaluatePromo(rule({ percentOff: 100 }), botMonthly, unused).valid).toBe(false);
+    expect(evaluatePromo(rule({ percentOff: 100, durationMonths: 1 }), botMonthly, unused).valid).toBe(true);
+  });
+});
+
+describe("applyPromoToPlan", () => {
+  const plan = {
+    key: "bot_branded_monthly",
+    name: "Branded Bot Monthly",
+    amountCents: 2999,
+    currency: "usd",
+    interval: "month" as const,
+  };
+
+  it("adds an introductory price for limited discounts", () => {
+    expect(
+      applyPromoToPlan(plan, { amountCents: 1999, discountCents: 1000, cycles: 3, trialDays: null })
+    ).toMatchObject({
+      key: "bot_branded_monthly_intro1999x3",
+      amountCents: 2999,
+      introductory: { amountCents: 1999, cycles: 3 },
+    });
+  });
+
+  it("lowers the price for discounts without an end", () => {
+    expect(
+      applyPromoToPlan(plan, { amountCents: 2399, discountCents: 600, cycles: null, trialDays: null })
+    ).toMatchObject({ key: "bot_branded_monthly_price2399", amountCents: 2399 });
+  });
+
+  it("adds trial days", () => {
+    expect(
+      applyPromoToPlan(plan, { amountCents: 2999, discountCents: 0, cycles: null, trialDays: 7 })
+    ).toMatchObject({ key: "bot_branded_monthly_trial7", trialDays: 7 });
+  });
+});
+
+describe("normalizePromoCode", () => {
+  it("ignores case and surrounding spaces", () => {
+    expect(normalizePromoCode("  revival24 ")).toBe("REVIVAL24");
+  });
+});
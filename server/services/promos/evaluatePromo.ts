@@ -0,0 +1,176 @@
+/**
+ * Promo Code Rules
+ * Decides whether a code applies to a checkout and what it takes off,
+ * without touching the database or a payment provider
+ */
+
+import type { BillingInterval, BillingPlan } from "../payments/paymentProvider";
+import type { PromoCode, PromoRedemption } from "../../../drizzle/billing_schema";
+import { withTrial } from "../trials/trialPolicy";
+
+export type PromoDiscountType = "percent" | "fixed" | "trial";
+
+export type PromoRule = Pick<
+  PromoCode,
+  | "code"
+  | "discountType"
+  | "percentOff"
+  | "amountOffCents"
+  | "durationMonths"
+  | "trialDays"
+  | "products"
+  | "plans"
+  | "startsAt"
+  | "expiresAt"
+  | "maxRedemptions"
+  | "perUserLimit"
+  | "active"
+>;
+
+export interface PromoContext {
+  product: "content_master" | "bot";
+  plan: "monthly" | "yearly" | "lifetime";
+  amountCents: number;
+  // null for one-time purchases
+  interval: BillingInterval | null;
+  now: Date;
+}
+
+export interface PromoUsage {
+  // Completed redemptions plus pending ones still holding a slot
+  redemptions: number;
+  userRedemptions: number;
+}
+
+export interface PromoDiscount {
+  // Charged for each discounted period (or the one-time purchase)
+  amountCents: number;
+  discountCents: number;
+  // Discounted billing periods; null for every period or a one-time purchase
+  cycles: number | null;
+  trialDays: number | null;
+}
+
+export type PromoEvaluation =
+  | { valid: true; discount: PromoDiscount }
+  | { valid: false; reason: string };
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+function invalid(reason: string): PromoEvaluation {
+  return { valid: false, reason };
+}
+
+/**
+ * Discounted billing periods for a code's duration; yearly plans count whole years
+ */
+export function discountCycles(durationMonths: number | null, interval: BillingInterval): number | null {
+  if (durationMonths === null) return null;
+  return interval === "year" ? Math.ceil(durationMonths / 12) : durationMonths;
+}
+
+/**
+ * Why a code's redemption limits rule out another use, or null if they do not
+ */
+export function promoLimitReason(
+  rule: Pick<PromoRule, "maxRedemptions" | "perUserLimit">,
+  usage: PromoUsage
+): string | null {
+  if (rule.maxRedemptions !== null && usage.redemptions >= rule.maxRedemptions) {
+    return "This code has been fully redeemed";
+  }
+  if (rule.perUserLimit !== null && usage.userRedemptions >= rule.perUserLimit) {
+    return "You have already used this code";
+  }
+  return null;
+}
+
+export function evaluatePromo(
+  rule: PromoRule,
+  context: PromoContext,
+  usage: PromoUsage
+): PromoEvaluation {
+  if (!rule.active) return invalid("This code is no longer active");
+  if (rule.startsAt && context.now < rule.startsAt) return invalid("This code is not active yet");
+  if (rule.expiresAt && context.now >= rule.expiresAt) return invalid("This code has expired");
+  if (rule.products?.length && !rule.products.includes(context.product)) {
+    return invalid("This code does not apply to this product");
+  }
+  if (rule.plans?.length && !rule.plans.includes(context.plan)) {
+    return invalid(`This code does not apply to the ${context.plan} plan`);
+  }
+  const limitReason = promoLimitReason(rule, usage);
+  if (limitReason) return invalid(limitReason);
+
+  if (rule.discountType === "trial") {
+    if (!context.interval) return invalid("Free trials only apply to subscriptions");
+    if (!rule.trialDays || rule.trialDays <= 0) return invalid("This code has no trial period");
+    return {
+      valid: true,
+      discount: {
+        amountCents: context.amountCents,
+        discountCents: 0,
+        cycles: null,
+        trialDays: rule.trialDays,
+      },
+    };
+  }
+
+  const discountCents =
+    rule.discountType === "percent"
+      ? Math.round((context.amountCents * Math.min(rule.percentOff ?? 0, 100)) / 100)
+      : Math.min(rule.amountOffCents ?? 0, context.amountCents);
+  if (discountCents <= 0) return invalid("This code has no discount");
+
+  const amountCents = context.amountCents - discountCents;
+  if (!context.interval) {
+    // Providers cannot take a zero-amount order
+    if (amountCents <= 0) return invalid("This code cannot make a one-time purchase free");
+    return { valid: true, discount: { amountCents, discountCents, cycles: null, trialDays: null } };
+  }
+
+  const cycles = discountCycles(rule.durationMonths, context.interval);
+  if (cycles === null && amountCents <= 0) {
+    return invalid("This code cannot make a subscription free for good");
+  }
+
+  return { valid: true, discount: { amountCents, discountCents, cycles, trialDays: null } };
+}
+
+/**
+ * The provider plan for a discounted subscription. The key describes the
+ * discount, so PayPal keeps one billing plan per distinct price schedule.
+ */
+export function applyPromoToPlan(plan: BillingPlan, discount: PromoDiscount): BillingPlan {
+  if (discount.trialDays) return withTrial(plan, discount.trialDays);
+  if (discount.cycles === null) {
+    return { ...plan, key: `${plan.key}_price${discount.amountCents}`, amountCents: discount.amountCents };
+  }
+  return {
+    ...plan,
+    key: `${plan.key}_intro${discount.amountCents}x${discount.cycles}`,
+    introductory: { amountCents: discount.amountCents, cycles: discount.cycles },
+  };
+}
+
+/**
+ * The discount a subscription checkout was created with, rebuilt from its
+ * redemption so the plan the provider bills can be checked against it
+ */
+export function redeemedDiscount(
+  rule: Pick<PromoRule, "discountType" | "durationMonths" | "trialDays">,
+  redemption: Pick<PromoRedemption, "amountCents" | "discountCents">,
+  interval: BillingInterval
+): PromoDiscount {
+  if (rule.discountType === "trial") {
+    return { amountCents: redemption.amountCents, discountCents: 0, cycles: null, trialDays: rule.trialDays };
+  }
+  return {
+    amountCents: redemption.amountCents,
+    discountCents: redemption.discountCents,
+    cycles: discountCycles(rule.durationMonths, interval),
+    trialDays: null,
+  };
+}
@@ -0,0 +1,17 @@
+/**
+ * Promo codes
+ */
+
+export * from "./evaluatePromo";
+export {
+  PromoCodeError,
+  resolvePromo,
+  recordPromoRedemption,
+  findPromoRedemption,
+  findRedeemedPlan,
+  completePromoRedemption,
+  createPromoCode,
+  listPromoCodes,
+  setPromoCodeActive,
+} from "./promoService";
+export type { AppliedPromo, PromoCodeInput } from "./promoService";
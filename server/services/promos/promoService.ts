@@ -0,0 +1,268 @@
+/**
+ * Promo Code Service
+ * Looks up codes, holds a redemption while the customer is at the provider,
+ * and confirms it once the checkout completes
+ */
+
+import { getDb } from "../../db";
+import {
+  promoCodes,
+  promoRedemptions,
+  type PromoCode,
+  type PromoRedemption,
+} from "../../../drizzle/billing_schema";
+import { and, desc, eq, gte, or } from "drizzle-orm";
+import { logger } from "../../_core/logger";
+import type { BillingPlan, PaymentProviderName } from "../payments/paymentProvider";
+import {
+  applyPromoToPlan,
+  evaluatePromo,
+  normalizePromoCode,
+  promoLimitReason,
+  redeemedDiscount,
+  type PromoContext,
+  type PromoDiscount,
+  type PromoUsage,
+} from "./evaluatePromo";
+
+export class PromoCodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PromoCodeError";
+  }
+}
+
+export interface AppliedPromo {
+  promo: PromoCode;
+  discount: PromoDiscount;
+}
+
+export type PromoCodeInput = Omit<
+  typeof promoCodes.$inferInsert,
+  "id" | "createdAt" | "createdBy"
+>;
+
+// How long an unfinished checkout keeps its redemption slot
+const PENDING_HOLD_MS = 60 * 60 * 1000;
+
+type Database = NonNullable<Awaited<ReturnType<typeof getDb>>>;
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+async function countPromoUsage(
+  db: Database | Transaction,
+  promoCodeId: number,
+  userId: number,
+  now: Date
+): Promise<PromoUsage> {
+  // Every unfinished checkout holds a slot until it completes or its hold lapses
+  const redemptions = await db
+    .select({ userId: promoRedemptions.userId })
+    .from(promoRedemptions)
+    .where(
+      and(
+        eq(promoRedemptions.promoCodeId, promoCodeId),
+        or(
+          eq(promoRedemptions.status, "completed"),
+          gte(promoRedemptions.createdAt, new Date(now.getTime() - PENDING_HOLD_MS))
+        )
+      )
+    );
+
+  return {
+    redemptions: redemptions.length,
+    userRedemptions: redemptions.filter((r) => r.userId === userId).length,
+  };
+}
+
+/**
+ * Validate a code for a checkout. Throws PromoCodeError with a reason the
+ * customer can read.
+ */
+export async function resolvePromo(
+  code: string,
+  userId: number,
+  context: Omit<PromoContext, "now">
+): Promise<AppliedPromo> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [promo] = await db
+    .select()
+    .from(promoCodes)
+    .where(eq(promoCodes.code, normalizePromoCode(code)))
+    .limit(1);
+  if (!promo) throw new PromoCodeError("Unknown promo code");
+
+  const now = new Date();
+  const evaluation = evaluatePromo(
+    promo,
+    { ...context, now },
+    await countPromoUsage(db, promo.id, userId, now)
+  );
+  if (!evaluation.valid) throw new PromoCodeError(evaluation.reason);
+
+  return { promo, discount: evaluation.discount };
+}
+
+/**
+ * Hold a redemption for a checkout the customer is about to approve; holds
+ * are per checkout, so the customer's other open checkouts keep theirs.
+ * Throws PromoCodeError if the code's limits were used up since resolvePromo.
+ */
+export async function recordPromoRedemption(redemption: {
+  applied: AppliedPromo;
+  userId: number;
+  productType: "content_master" | "bot";
+  planId: string;
+  provider: PaymentProviderName;
+  checkoutId: string;
+}): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const { applied, ...rest } = redemption;
+
+  // The promo row lock makes concurrent checkouts count each other's holds
+  await db.transaction(async (tx) => {
+    const [promo] = await tx
+      .select()
+      .from(promoCodes)
+      .where(eq(promoCodes.id, applied.promo.id))
+      .for("update");
+    if (!promo) throw new PromoCodeError("Unknown promo code");
+
+    const limitReason = promoLimitReason(
+      promo,
+      await countPromoUsage(tx, promo.id, redemption.userId, new Date())
+    );
+    if (limitReason) throw new PromoCodeError(limitReason);
+
+    await tx.insert(promoRedemptions).values({
+      ...rest,
+      promoCodeId: promo.id,
+      // First charge of the checkout, which a trial defers
+      amountCents: applied.discount.trialDays ? 0 : applied.discount.amountCents,
+      discountCents: applied.discount.discountCents,
+    });
+  });
+
+  logger.info(
+    `Promo ${applied.promo.code} applied to ${redemption.provider} checkout ${redemption.checkoutId}`
+  );
+}
+
+export async function findPromoRedemption(
+  provider: PaymentProviderName,
+  checkoutId: string
+): Promise<PromoRedemption | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [redemption] = await db
+    .select()
+    .from(promoRedemptions)
+    .where(and(eq(promoRedemptions.provider, provider), eq(promoRedemptions.checkoutId, checkoutId)))
+    .limit(1);
+
+  return redemption ?? null;
+}
+
+/**
+ * The discounted plan a subscription checkout was created with, or null
+ * when the checkout used no code
+ */
+export async function findRedeemedPlan(
+  provider: PaymentProviderName,
+  checkoutId: string,
+  plan: BillingPlan
+): Promise<BillingPlan | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const redemption = await findPromoRedemption(provider, checkoutId);
+  if (!redemption) return null;
+
+  const [promo] = await db
+    .select()
+    .from(promoCodes)
+    .where(eq(promoCodes.id, redemption.promoCodeId))
+    .limit(1);
+  if (!promo) return null;
+
+  return applyPromoToPlan(plan, redeemedDiscount(promo, redemption, plan.interval));
+}
+
+/**
+ * Confirm the redemption of a completed checkout; a no-op without one
+ */
+export async function completePromoRedemption(
+  provider: PaymentProviderName,
+  checkoutId: string
+): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  await db
+    .update(promoRedemptions)
+    .set({ status: "completed", completedAt: new Date() })
+    .where(
+      and(
+        eq(promoRedemptions.provider, provider),
+        eq(promoRedemptions.checkoutId, checkoutId),
+        eq(promoRedemptions.status, "pending")
+      )
+    );
+}
+
+export async function createPromoCode(input: PromoCodeInput, createdBy: number): Promise<PromoCode> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const code = normalizePromoCode(input.code);
+  const [existing] = await db
+    .select({ id: promoCodes.id })
+    .from(promoCodes)
+    .where(eq(promoCodes.code, code))
+    .limit(1);
+  if (existing) throw new PromoCodeError(`Promo code ${code} already exists`);
+
+  const [promo] = await db
+    .insert(promoCodes)
+    .values({ ...input, code, createdBy })
+    .returning();
+  return promo;
+}
+
+/**
+ * Every code with how often it was redeemed, newest first
+ */
+export async function listPromoCodes(): Promise<Array<PromoCode & { redemptions: number }>> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const codes = await db.select().from(promoCodes).orderBy(desc(promoCodes.createdAt));
+  const completed = await db
+    .select({ promoCodeId: promoRedemptions.promoCodeId })
+    .from(promoRedemptions)
+    .where(eq(promoRedemptions.status, "completed"));
+
+  const counts = new Map<number, number>();
+  for (const redemption of completed) {
+    counts.set(redemption.promoCodeId, (counts.get(redemption.promoCodeId) ?? 0) + 1);
+  }
+
+  return codes.map((promo) => ({ ...promo, redemptions: counts.get(promo.id) ?? 0 }));
+}
+
+export async function setPromoCodeActive(id: number, active: boolean): Promise<PromoCode> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [promo] = await db
+    .update(promoCodes)
+    .set({ active })
+    .where(eq(promoCodes.id, id))
+    .returning();
+  if (!promo) throw new PromoCodeError("Promo code not found");
+  return promo;
+}
@@ -0,0 +1,7 @@
+/**
+ * Refunds
+ */
+
+export * from "./refundPolicy";
+export { refundPurchase, listRefunds, getRefundedCents, hasIssuedRefund } from "./refundService";
+export type { RefundRequest, RefundOutcome } from "./refundService";
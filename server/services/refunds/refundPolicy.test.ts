@@ -0,0 +1,102 @@
+/**
+ * Tests for refund amounts, entitlement policy and payout reversals
+ */
+
+import { describe, it, expect } from "vitest";
+import { RefundError, payoutReversals, planRefund } from "./refundPolicy";
+
+describe("planRefund", () => {
+  it("refunds what is left when no amount is given", () => {
+    expect(planRefund({ paymentAmountCents: 2999, refundedCents: 999, policy: "auto" })).toEqual({
+      amountCents: 2000,
+      full: true,
+      revoke: true,
+    });
+  });
+
+  it("keeps access for partial refunds under the auto policy", () => {
+    const plan = planRefund({
+      paymentAmountCents: 29900,
+      refundedCents: 0,
+      requestedCents: 5000,
+      policy: "auto",
+    });
+
+    expect(plan).toEqual({ amountCents: 5000, full: false, revoke: false });
+  });
+
+  it("follows an explicit revoke or keep policy", () => {
+    expect(
+      planRefund({ paymentAmountCents: 2999, refundedCents: 0, requestedCents: 100, policy: "revoke" })
+        .revoke
+    ).toBe(true);
+    expect(planRefund({ paymentAmountCents: 2999, refundedCents: 0, policy: "keep" }).revoke).toBe(
+      false
+    );
+  });
+
+  it("rejects amounts above what is still refundable", () => {
+    expect(() =>
+      planRefund({ paymentAmountCents: 2999, refundedCents: 2000, requestedCents: 1000, policy: "auto" })
+    ).toThrow("Refund amount exceeds the 999 cents still refundable");
+  });
+
+  it("rejects refunds of fully refunded payments", () => {
+    expect(() => planRefund({ paymentAmountCents: 2999, refundedCents: 2999, policy: "auto" })).toThrow(
+      RefundError
+    );
+  });
+
+  it("rejects non-positive and fractional amounts", () => {
+    expect(() =>
+      planRefund({ paymentAmountCents: 2999, refundedCents: 0, requestedCents: 0, policy: "auto" })
+    ).toThrow(RefundError);
+    expect(() =>
+      planRefund({ paymentAmountCents: 2999, refundedCents: 0, requestedCents: 10.5, policy: "auto" })
+    ).toThrow(RefundError);
+  });
+});
+
+describe("payoutReversals", () => {
+  it("reverses each creator's share in proportion to the refund", () => {
+    const reversals = payoutReversals(
+      [
+        { creatorId: 1, amount: 700 },
+        { creatorId: 2, amount: 300 },
+      ],
+      500,
+      1000
+    );
+
+    expect(reversals).toEqual([
+      { creatorId: 1, amount: -350 },
+      { creatorId: 2, amount: -150 },
+    ]);
+  });
+
+  it("only reverses the rest after an earlier partial refund", () => {
+    const reversals = payoutReversals(
+      [
+        { creatorId: 1, amount: 700 },
+        { creatorId: 1, amount: -350 },
+      ],
+      1000,
+      1000
+    );
+
+    expect(reversals).toEqual([{ creatorId: 1, amount: -350 }]);
+  });
+
+  it("never reverses more than was accrued", () => {
+    const reversals = payoutReversals(
+      [
+        { creatorId: 1, amount: 333 },
+        { creatorId: 1, amount: -333 },
+      ],
+      1000,
+      1000
+    );
+
+    expect(reversals).toEqual([]);
+  });
+});
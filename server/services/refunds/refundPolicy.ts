@@ -0,0 +1,98 @@
+/**
+ * Refund Policy
+ * How much a refund may cover, whether it ends access, and how much of
+ * the creators' share of the sale it takes back
+ */
+
+/**
+ * revoke: access ends with the refund; keep: the customer keeps access
+ * (goodwill credit); auto: full refunds revoke, partial refunds keep
+ */
+export type RefundEntitlementPolicy = "revoke" | "keep" | "auto";
+
+export class RefundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RefundError";
+  }
+}
+
+export interface RefundPlanInput {
+  paymentAmountCents: number;
+  // Already refunded against the same payment
+  refundedCents: number;
+  // Omitted for "refund whatever is left"
+  requestedCents?: number;
+  policy: RefundEntitlementPolicy;
+}
+
+export interface RefundPlan {
+  amountCents: number;
+  // Nothing of the payment is left after this refund
+  full: boolean;
+  revoke: boolean;
+}
+
+export function planRefund(input: RefundPlanInput): RefundPlan {
+  const remaining = input.paymentAmountCents - input.refundedCents;
+  if (remaining <= 0) {
+    throw new RefundError("This payment has already been fully refunded");
+  }
+
+  const amountCents = input.requestedCents ?? remaining;
+  if (!Number.isInteger(amountCents) || amountCents <= 0) {
+    throw new RefundError("Refund amount must be a positive number of cents");
+  }
+  if (amountCents > remaining) {
+    throw new RefundError(`Refund amount exceeds the ${remaining} cents still refundable`);
+  }
+
+  const full = amountCents === remaining;
+  return {
+    amountCents,
+    full,
+    revoke: input.policy === "revoke" || (input.policy === "auto" && full),
+  };
+}
+
+/**
+ * A creator's ledger earnings for the refunded sale; reversals are negative
+ */
+export interface SalePayout {
+  creatorId: number;
+  amount: number;
+}
+
+/**
+ * Negative payout rows that bring each creator's share in line with what
+ * the customer still paid. Takes previous reversals into account, so
+ * repeated partial refunds never reverse more than was accrued.
+ */
+export function payoutReversals(
+  payouts: SalePayout[],
+  refundedCents: number,
+  saleCents: number
+): SalePayout[] {
+  const byCreator = new Map<number, { accrued: number; reversed: number }>();
+  for (const payout of payouts) {
+    const totals = byCreator.get(payout.creatorId) ?? { accrued: 0, reversed: 0 };
+    if (payout.amount >= 0) {
+      totals.accrued += payout.amount;
+    } else {
+      totals.reversed -= payout.amount;
+    }
+    byCreator.set(payout.creatorId, totals);
+  }
+
+  const share = saleCents > 0 ? Math.min(refundedCents / saleCents, 1) : 1;
+  const reversals: SalePayout[] = [];
+
+  byCreator.forEach(({ accrued, reversed }, creatorId) => {
+    const owed = Math.round(accrued * share) - reversed;
+    if (owed > 0) {
+      reversals.push({ creatorId, amount: -owed });
+    }
+  });
+
+  return reversals;
+}
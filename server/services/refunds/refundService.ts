@@ -0,0 +1,380 @@
+/**
+ * Refund Service
+ * Admin refunds for Content Master plans, bot subscriptions, song purchases,
+ * bundles and gifts
+ */
+
+import { getDb } from "../../db";
+import {
+  contentMasterPurchases,
+  songPurchases,
+  userBotPurchases,
+} from "../../../drizzle/schema";
+import {
+  ledgerEntries,
+  purchaseRefunds,
+  subscriptionHistory,
+  type PurchaseRefund,
+} from "../../../drizzle/billing_schema";
+import { bundlePurchases } from "../../../drizzle/bundle_schema";
+import { gifts } from "../../../drizzle/gift_schema";
+import { and, desc, eq, gte, ne, sum } from "drizzle-orm";
+import { logger } from "../../_core/logger";
+import { getPaymentProvider } from "../payments";
+import type { PaymentProviderName } from "../payments/paymentProvider";
+import { getPurchaseLink, type PurchaseProductType } from "../payments/purchaseLinks";
+import { canTransition } from "../subscriptions/subscriptionState";
+import { findBundleOfPurchase, setBundlePurchaseStatus } from "../bundles/bundleStatus";
+import { findGiftOfPurchase, setGiftPaymentStatus } from "../gifts/giftStatus";
+import { refundTransaction, toLedgerRows } from "../payouts/ledgerPolicy";
+import {
+  RefundError,
+  payoutReversals,
+  planRefund,
+  type RefundEntitlementPolicy,
+} from "./refundPolicy";
+
+export interface RefundRequest {
+  product: PurchaseProductType;
+  purchaseId: number;
+  // Omitted for a full refund of what is left
+  amountCents?: number;
+  reason: string;
+  policy?: RefundEntitlementPolicy;
+  // Admin issuing the refund, or the buyer canceling a gift
+  refundedBy: number;
+}
+
+export interface RefundOutcome {
+  refund: PurchaseRefund;
+  full: boolean;
+  entitlementRevoked: boolean;
+  payoutsReversedCents: number;
+}
+
+interface RefundablePurchase {
+  userId: number;
+  status: string;
+  periodEnd: Date | null;
+}
+
+async function loadPurchase(
+  product: PurchaseProductType,
+  purchaseId: number
+): Promise<RefundablePurchase | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  switch (product) {
+    case "content_master": {
+      const [purchase] = await db
+        .select()
+        .from(contentMasterPurchases)
+        .where(eq(contentMasterPurchases.id, purchaseId));
+      return purchase
+        ? { userId: purchase.userId, status: purchase.status, periodEnd: purchase.currentPeriodEnd }
+        : null;
+    }
+    case "bot": {
+      const [purchase] = await db
+        .select()
+        .from(userBotPurchases)
+        .where(eq(userBotPurchases.id, purchaseId));
+      return purchase
+        ? { userId: purchase.userId, status: purchase.status, periodEnd: purchase.expiryDate }
+        : null;
+    }
+    case "song": {
+      const [purchase] = await db
+        .select()
+        .from(songPurchases)
+        .where(eq(songPurchases.id, purchaseId));
+      return purchase
+        ? { userId: purchase.userId, status: purchase.status ?? "completed", periodEnd: null }
+        : null;
+    }
+    case "bundle": {
+      const [purchase] = await db
+        .select()
+        .from(bundlePurchases)
+        .where(eq(bundlePurchases.id, purchaseId));
+      return purchase ? { userId: purchase.userId, status: purchase.status, periodEnd: null } : null;
+    }
+    case "gift": {
+      const [gift] = await db.select().from(gifts).where(eq(gifts.id, purchaseId));
+      return gift ? { userId: gift.buyerId, status: gift.status, periodEnd: null } : null;
+    }
+  }
+}
+
+/**
+ * Refund a purchase's latest provider payment, in full or in part.
+ * Provider calls happen first; the refund row, the purchase status and the
+ * payout reversals are then written in one transaction.
+ */
+export async function refundPurchase(request: RefundRequest): Promise<RefundOutcome> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const purchase = await loadPurchase(request.product, request.purchaseId);
+  if (!purchase) {
+    throw new RefundError("Purchase not found");
+  }
+
+  // Bundles and gifts are paid, and refunded, as a whole
+  if (request.product !== "bundle" && request.product !== "gift") {
+    const bundlePurchaseId = await findBundleOfPurchase(request.product, request.purchaseId);
+    if (bundlePurchaseId) {
+      throw new RefundError(`This purchase came with bundle purchase ${bundlePurchaseId}; refund the bundle`);
+    }
+    const giftId = await findGiftOfPurchase(request.product, request.purchaseId);
+    if (giftId) {
+      throw new RefundError(`This purchase was redeemed from gift ${giftId}; refund the gift`);
+    }
+  }
+
+  const link = await getPurchaseLink(request.product, request.purchaseId);
+  if (!link) {
+    throw new RefundError("No provider payment is linked to this purchase");
+  }
+
+  const provider = getPaymentProvider(link.provider as PaymentProviderName);
+  const payment = await provider.getLatestPayment(
+    link.providerId,
+    link.providerKind === "subscription" ? "subscription" : "payment"
+  );
+  if (!payment) {
+    throw new RefundError("This purchase has no settled payment to refund");
+  }
+
+  const [previous] = await db
+    .select({ total: sum(purchaseRefunds.amountCents) })
+    .from(purchaseRefunds)
+    .where(
+      and(
+        eq(purchaseRefunds.provider, link.provider),
+        eq(purchaseRefunds.providerPaymentId, payment.id),
+        ne(purchaseRefunds.status, "failed")
+      )
+    );
+  const refundedCents = Number(previous?.total ?? 0);
+
+  const plan = planRefund({
+    paymentAmountCents: payment.amountCents,
+    refundedCents,
+    requestedCents: request.amountCents,
+    policy: request.policy ?? "auto",
+  });
+
+  // Songs, bundles and gifts are not subscriptions and are simply marked refunded
+  const subscription = request.product === "content_master" || request.product === "bot";
+  if (plan.revoke && subscription && !canTransition(purchase.status, "refund")) {
+    throw new RefundError(`Cannot revoke a purchase that is ${purchase.status}`);
+  }
+
+  const result = await provider.refundPayment({
+    paymentId: payment.id,
+    paymentKind: payment.kind,
+    amountCents: plan.amountCents,
+    currency: payment.currency,
+    reason: request.reason,
+  });
+
+  const baseRow = {
+    productType: request.product,
+    purchaseId: request.purchaseId,
+    userId: purchase.userId,
+    provider: link.provider,
+    providerPaymentId: payment.id,
+    providerRefundId: result.id,
+    amountCents: plan.amountCents,
+    currency: payment.currency,
+    reason: request.reason,
+    refundedBy: request.refundedBy,
+  };
+
+  if (result.status === "failed") {
+    await db.insert(purchaseRefunds).values({ ...baseRow, status: "failed" });
+    throw new RefundError(`${link.provider} declined the refund`);
+  }
+
+  if (plan.revoke && link.providerKind === "subscription") {
+    try {
+      await provider.cancelSubscription(link.providerId, `Refunded: ${request.reason}`);
+    } catch (error) {
+      // Already ended on the provider's side; the refund itself went through
+      logger.warn(`Failed to cancel ${link.provider} subscription ${link.providerId} after refund:`, error);
+    }
+  }
+
+  const earnings = await db
+    .select()
+    .from(ledgerEntries)
+    .where(
+      and(
+        eq(ledgerEntries.account, "creator_earnings"),
+        eq(ledgerEntries.sourceType, request.product),
+        eq(ledgerEntries.sourceId, request.purchaseId)
+      )
+    );
+  // Renewals accrue new earnings; only those of the refunded charge are reversed
+  const salePayouts = earnings.flatMap((e) =>
+    e.creatorId !== null && (!payment.paidAt || e.amountCents < 0 || e.occurredAt >= payment.paidAt)
+      ? [{ creatorId: e.creatorId, amount: e.amountCents }]
+      : []
+  );
+  const reversals = payoutReversals(
+    salePayouts,
+    refundedCents + plan.amountCents,
+    payment.amountCents
+  );
+  const payoutsReversedCents = reversals.reduce((total, r) => total - r.amount, 0);
+
+  // Ends access to everything the bundle expanded into, or the gift was
+  // redeemed into; the money has already gone back, so this is done even if
+  // recording the refund fails
+  if (plan.revoke && request.product === "bundle") {
+    await setBundlePurchaseStatus(request.purchaseId, "refunded");
+  } else if (plan.revoke && request.product === "gift") {
+    await setGiftPaymentStatus(request.purchaseId, "refunded");
+  }
+
+  const refund = await db.transaction(async (tx) => {
+    const [row] = await tx
+      .insert(purchaseRefunds)
+      .values({
+        ...baseRow,
+        status: result.status,
+        entitlementRevoked: plan.revoke,
+        payoutsReversedCents,
+      })
+      .returning();
+
+    if (plan.revoke && request.product !== "bundle" && request.product !== "gift") {
+      if (request.product === "content_master") {
+        await tx
+          .update(contentMasterPurchases)
+          .set({ status: "refunded" })
+          .where(eq(contentMasterPurchases.id, request.purchaseId));
+      } else if (request.product === "bot") {
+        await tx
+          .update(userBotPurchases)
+          .set({ status: "refunded" })
+          .where(eq(userBotPurchases.id, request.purchaseId));
+      } else {
+        await tx
+          .update(songPurchases)
+          .set({ status: "refunded" })
+          .where(eq(songPurchases.id, request.purchaseId));
+      }
+    }
+
+    if (subscription) {
+      await tx.insert(subscriptionHistory).values({
+        productType: request.product,
+        purchaseId: request.purchaseId,
+        userId: purchase.userId,
+        event: "refunded",
+        fromStatus: purchase.status,
+        toStatus: plan.revoke ? "refunded" : purchase.status,
+        previousPeriodEnd: purchase.periodEnd,
+        periodEnd: purchase.periodEnd,
+        provider: link.provider,
+        providerId: link.providerId,
+        note: `Refunded ${plan.amountCents} cents: ${request.reason}`,
+      });
+    }
+
+    // Content Master sales are not booked on the creator ledger
+    if (request.product !== "content_master") {
+      await tx.insert(ledgerEntries).values(
+        toLedgerRows(
+          refundTransaction({
+            product: request.product,
+            purchaseId: request.purchaseId,
+            refundId: row.id,
+            refundCents: plan.amountCents,
+            currency: payment.currency,
+            refundedAt: row.createdAt,
+            reversals,
+          })
+        )
+      );
+    }
+
+    return row;
+  });
+
+  logger.info(
+    `Refunded ${plan.amountCents} cents of ${request.product} purchase ${request.purchaseId}` +
+      ` (${plan.revoke ? "access revoked" : "access kept"}, ${payoutsReversedCents} cents of payouts reversed)`
+  );
+
+  return {
+    refund,
+    full: plan.full,
+    entitlementRevoked: plan.revoke,
+    payoutsReversedCents,
+  };
+}
+
+export async function listRefunds(
+  product: PurchaseProductType,
+  purchaseId: number
+): Promise<PurchaseRefund[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  return db
+    .select()
+    .from(purchaseRefunds)
+    .where(and(eq(purchaseRefunds.productType, product), eq(purchaseRefunds.purchaseId, purchaseId)))
+    .orderBy(desc(purchaseRefunds.createdAt));
+}
+
+/**
+ * Money returned to customers for a product, for revenue reports
+ */
+export async function getRefundedCents(product: PurchaseProductType, since?: Date): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [refunded] = await db
+    .select({ total: sum(purchaseRefunds.amountCents) })
+    .from(purchaseRefunds)
+    .where(
+      and(
+        eq(purchaseRefunds.productType, product),
+        ne(purchaseRefunds.status, "failed"),
+        since ? gte(purchaseRefunds.createdAt, since) : undefined
+      )
+    );
+
+  return Number(refunded?.total ?? 0);
+}
+
+/**
+ * Whether a refund against this provider payment was issued through
+ * refundPurchase, whose policy already decided what happens to access.
+ * Provider refund webhooks use this to leave such purchases alone.
+ */
+export async function hasIssuedRefund(
+  provider: PaymentProviderName,
+  providerPaymentId: string
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [refund] = await db
+    .select({ id: purchaseRefunds.id })
+    .from(purchaseRefunds)
+    .where(
+      and(
+        eq(purchaseRefunds.provider, provider),
+        eq(purchaseRefunds.providerPaymentId, providerPaymentId)
+      )
+    )
+    .limit(1);
+
+  return Boolean(refund);
+}
@@ -0,0 +1,19 @@
+/**
+ * Bot reviews
+ */
+
+export * from "./reviewPolicy";
+export {
+  ReviewError,
+  getReviewEligibility,
+  getUserReview,
+  createReview,
+  updateReview,
+  deleteReview,
+  listBotReviews,
+  setHelpfulVote,
+  replyToReview,
+  listModerationQueue,
+  moderateReview,
+} from "./reviewService";
+export type { ReviewInput, ModerationAction, ModerationFilter } from "./reviewService";
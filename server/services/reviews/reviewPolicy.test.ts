@@ -0,0 +1,62 @@
+/**
+ * Tests for bot review rules
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  canVoteOnReview,
+  evaluateReviewEligibility,
+  isValidRating,
+  needsModeration,
+  summarizeRatings,
+} from "./reviewPolicy";
+
+describe("evaluateReviewEligibility", () => {
+  it("lets customers with any purchase review once", () => {
+    expect(evaluateReviewEligibility(1, false)).toEqual({ eligible: true });
+    expect(evaluateReviewEligibility(2, true)).toEqual({
+      eligible: false,
+      reason: "You have already reviewed this bot; edit your review instead",
+    });
+  });
+
+  it("refuses users who never had the bot", () => {
+    expect(evaluateReviewEligibility(0, false).eligible).toBe(false);
+  });
+});
+
+describe("isValidRating", () => {
+  it("accepts whole stars from 1 to 5", () => {
+    expect([1, 3, 5].every(isValidRating)).toBe(true);
+    expect([0, 6, 4.5].some(isValidRating)).toBe(false);
+  });
+});
+
+describe("canVoteOnReview", () => {
+  it("allows votes on other people's published reviews only", () => {
+    expect(canVoteOnReview({ userId: 1, status: "published" }, 2)).toBe(true);
+    expect(canVoteOnReview({ userId: 1, status: "published" }, 1)).toBe(false);
+    expect(canVoteOnReview({ userId: 1, status: "hidden" }, 2)).toBe(false);
+  });
+});
+
+describe("needsModeration", () => {
+  it("queues reviews until a moderator has seen them", () => {
+    expect(needsModeration({ moderatedAt: null })).toBe(true);
+    expect(needsModeration({ moderatedAt: new Date() })).toBe(false);
+  });
+});
+
+describe("summarizeRatings", () => {
+  it("averages ratings to two decimals with a star distribution", () => {
+    expect(summarizeRatings([5, 4, 4])).toEqual({
+      average: 4.33,
+      count: 3,
+      distribution: { 1: 0, 2: 0, 3: 0, 4: 2, 5: 1 },
+    });
+  });
+
+  it("has no average without reviews", () => {
+    expect(summarizeRatings([])).toMatchObject({ average: null, count: 0 });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Bot Review Rules
+ * Who may review or vote, what a review may contain, and the rating summary
+ * cached on the catalog, without touching the database
+ */
+
+import type { BotReview } from "../../../drizzle/catalog_schema";
+
+export type ReviewStatus = "published" | "hidden";
+
+export type ReviewSort = "helpful" | "newest" | "highest" | "lowest";
+
+export type ReviewEligibility = { eligible: true } | { eligible: false; reason: string };
+
+export interface RatingSummary {
+  // Rounded to two decimals; null without published reviews
+  average: number | null;
+  count: number;
+  // Published reviews per star rating, 1 to 5
+  distribution: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+
+/**
+ * Anyone who has ever had the bot may review it, trial and refunded
+ * purchases included; one review each
+ */
+export function evaluateReviewEligibility(
+  purchaseCount: number,
+  hasReviewed: boolean
+): ReviewEligibility {
+  if (purchaseCount === 0) return { eligible: false, reason: "Only customers who have used this bot can review it" };
+  if (hasReviewed) return { eligible: false, reason: "You have already reviewed this bot; edit your review instead" };
+  return { eligible: true };
+}
+
+export function isValidRating(rating: number): boolean {
+  return Number.isInteger(rating) && rating >= MIN_RATING && rating <= MAX_RATING;
+}
+
+/**
+ * Reviewers cannot vote for their own review, and hidden reviews take no votes
+ */
+export function canVoteOnReview(review: Pick<BotReview, "userId" | "status">, userId: number): boolean {
+  return review.status === "published" && review.userId !== userId;
+}
+
+/**
+ * Reviews a moderator has not looked at since they were written or last edited
+ */
+export function needsModeration(review: Pick<BotReview, "moderatedAt">): boolean {
+  return review.moderatedAt === null;
+}
+
+export function summarizeRatings(ratings: number[]): RatingSummary {
+  const distribution: RatingSummary["distribution"] = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  for (const rating of ratings) {
+    if (isValidRating(rating)) distribution[rating as keyof RatingSummary["distribution"]] += 1;
+  }
+
+  const valid = ratings.filter(isValidRating);
+  return {
+    average:
+      valid.length > 0
+        ? Math.round((valid.reduce((sum, rating) => sum + rating, 0) / valid.length) * 100) / 100
+        : null,
+    count: valid.length,
+    distribution,
+  };
+}
@@ -0,0 +1,329 @@
+/**
+ * Bot Review Service
+ * Reviews, helpful votes, creator replies and moderation. Keeps the rating
+ * average and count on the catalog in step with the published reviews.
+ */
+
+import { getDb } from "../../db";
+import {
+  botCatalog,
+  botReviews,
+  botReviewVotes,
+  type BotReview,
+} from "../../../drizzle/catalog_schema";
+import { userBotPurchases } from "../../../drizzle/schema";
+import { and, asc, desc, eq, inArray, isNull, sql } from "drizzle-orm";
+import { logger } from "../../_core/logger";
+import { getCatalogBot } from "../catalog";
+import {
+  canVoteOnReview,
+  evaluateReviewEligibility,
+  summarizeRatings,
+  type RatingSummary,
+  type ReviewEligibility,
+  type ReviewSort,
+} from "./reviewPolicy";
+
+export class ReviewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReviewError";
+  }
+}
+
+export interface ReviewInput {
+  rating: number;
+  title?: string | null;
+  body: string;
+}
+
+export type ModerationFilter = "pending" | "hidden" | "all";
+
+export type ModerationAction = "approve" | "hide" | "restore";
+
+const REVIEW_ORDER = {
+  helpful: [desc(botReviews.helpfulCount), desc(botReviews.createdAt)],
+  newest: [desc(botReviews.createdAt)],
+  highest: [desc(botReviews.rating), desc(botReviews.createdAt)],
+  lowest: [asc(botReviews.rating), desc(botReviews.createdAt)],
+} satisfies Record<ReviewSort, unknown[]>;
+
+async function getReview(reviewId: number): Promise<BotReview> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [review] = await db.select().from(botReviews).where(eq(botReviews.id, reviewId)).limit(1);
+  if (!review) throw new ReviewError("Review not found");
+  return review;
+}
+
+/**
+ * Recompute the cached rating the marketplace filters and sorts on
+ */
+async function refreshBotRating(botId: number): Promise<RatingSummary> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const rows = await db
+    .select({ rating: botReviews.rating })
+    .from(botReviews)
+    .where(and(eq(botReviews.botId, botId), eq(botReviews.status, "published")));
+
+  const summary = summarizeRatings(rows.map((row) => row.rating));
+  await db
+    .update(botCatalog)
+    .set({ ratingAverage: summary.average, ratingCount: summary.count })
+    .where(eq(botCatalog.id, botId));
+  return summary;
+}
+
+export async function getReviewEligibility(userId: number, botId: number): Promise<ReviewEligibility> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const purchases = await db
+    .select({ id: userBotPurchases.id })
+    .from(userBotPurchases)
+    .where(and(eq(userBotPurchases.userId, userId), eq(userBotPurchases.botId, botId)))
+    .limit(1);
+  const review = await getUserReview(userId, botId);
+
+  return evaluateReviewEligibility(purchases.length, review !== null);
+}
+
+/**
+ * The user's own review of a bot, hidden or not
+ */
+export async function getUserReview(userId: number, botId: number): Promise<BotReview | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [review] = await db
+    .select()
+    .from(botReviews)
+    .where(and(eq(botReviews.userId, userId), eq(botReviews.botId, botId)))
+    .limit(1);
+  return review ?? null;
+}
+
+export async function createReview(userId: number, botId: number, input: ReviewInput): Promise<BotReview> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  if (!(await getCatalogBot(botId))) throw new ReviewError("Bot not found");
+
+  const eligibility = await getReviewEligibility(userId, botId);
+  if (!eligibility.eligible) throw new ReviewError(eligibility.reason);
+
+  const [review] = await db
+    .insert(botReviews)
+    .values({ botId, userId, rating: input.rating, title: input.title ?? null, body: input.body })
+    .returning();
+  await refreshBotRating(botId);
+
+  logger.info(`User ${userId} reviewed bot ${botId} with ${input.rating} stars`);
+  return review;
+}
+
+/**
+ * Edit the user's own review. The edit goes back in the moderation queue.
+ */
+export async function updateReview(
+  userId: number,
+  reviewId: number,
+  changes: Partial<ReviewInput>
+): Promise<BotReview> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const review = await getReview(reviewId);
+  if (review.userId !== userId) throw new ReviewError("You can only edit your own review");
+
+  const [updated] = await db
+    .update(botReviews)
+    .set({ ...changes, moderatedAt: null, moderatedBy: null, updatedAt: new Date() })
+    .where(eq(botReviews.id, reviewId))
+    .returning();
+  await refreshBotRating(review.botId);
+  return updated;
+}
+
+export async function deleteReview(userId: number, reviewId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const review = await getReview(reviewId);
+  if (review.userId !== userId) throw new ReviewError("You can only delete your own review");
+
+  await db.transaction(async (tx) => {
+    await tx.delete(botReviewVotes).where(eq(botReviewVotes.reviewId, reviewId));
+    await tx.delete(botReviews).where(eq(botReviews.id, reviewId));
+  });
+  await refreshBotRating(review.botId);
+
+  logger.info(`User ${userId} deleted review ${reviewId} of bot ${review.botId}`);
+}
+
+/**
+ * Published reviews of a bot, a page at a time, with the rating summary.
+ * `votedHelpful` marks reviews the viewer found helpful.
+ */
+export async function listBotReviews(
+  botId: number,
+  options: { sort: ReviewSort; limit: number; offset: number; viewerId?: number }
+): Promise<{
+  reviews: Array<BotReview & { votedHelpful: boolean }>;
+  summary: RatingSummary;
+}> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const published = and(eq(botReviews.botId, botId), eq(botReviews.status, "published"));
+  const reviews = await db
+    .select()
+    .from(botReviews)
+    .where(published)
+    .orderBy(...REVIEW_ORDER[options.sort])
+    .limit(options.limit)
+    .offset(options.offset);
+
+  const ratings = await db.select({ rating: botReviews.rating }).from(botReviews).where(published);
+
+  const voted =
+    options.viewerId !== undefined && reviews.length > 0
+      ? await db
+          .select({ reviewId: botReviewVotes.reviewId })
+          .from(botReviewVotes)
+          .where(
+            and(
+              eq(botReviewVotes.userId, options.viewerId),
+              inArray(botReviewVotes.reviewId, reviews.map((review) => review.id))
+            )
+          )
+      : [];
+  const votedIds = new Set(voted.map((vote) => vote.reviewId));
+
+  return {
+    reviews: reviews.map((review) => ({ ...review, votedHelpful: votedIds.has(review.id) })),
+    summary: summarizeRatings(ratings.map((row) => row.rating)),
+  };
+}
+
+/**
+ * Add or take back the user's helpful vote; returns the review's new count
+ */
+export async function setHelpfulVote(userId: number, reviewId: number, helpful: boolean): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const review = await getReview(reviewId);
+  if (helpful && !canVoteOnReview(review, userId)) {
+    throw new ReviewError("You cannot vote on this review");
+  }
+
+  await db.transaction(async (tx) => {
+    const changed = helpful
+      ? await tx
+          .insert(botReviewVotes)
+          .values({ reviewId, userId })
+          .onConflictDoNothing()
+          .returning({ id: botReviewVotes.id })
+      : await tx
+          .delete(botReviewVotes)
+          .where(and(eq(botReviewVotes.reviewId, reviewId), eq(botReviewVotes.userId, userId)))
+          .returning({ id: botReviewVotes.id });
+    if (changed.length === 0) return;
+
+    await tx
+      .update(botReviews)
+      .set({ helpfulCount: sql`${botReviews.helpfulCount} + ${helpful ? 1 : -1}` })
+      .where(eq(botReviews.id, reviewId));
+  });
+
+  return (await getReview(reviewId)).helpfulCount;
+}
+
+/**
+ * Reply as the bot's creator (or an admin); a null reply removes it
+ */
+export async function replyToReview(
+  user: { id: number; role: string },
+  reviewId: number,
+  reply: string | null
+): Promise<BotReview> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const review = await getReview(reviewId);
+  const bot = await getCatalogBot(review.botId);
+  if (user.role !== "admin" && (!bot || bot.creatorUserId !== user.id)) {
+    throw new ReviewError("Only the bot's creator can reply to its reviews");
+  }
+
+  const [updated] = await db
+    .update(botReviews)
+    .set({
+      creatorReply: reply,
+      creatorReplyBy: reply === null ? null : user.id,
+      creatorRepliedAt: reply === null ? null : new Date(),
+    })
+    .where(eq(botReviews.id, reviewId))
+    .returning();
+  return updated;
+}
+
+/**
+ * Reviews for moderators: unseen ones oldest first, or hidden/all newest first
+ */
+export async function listModerationQueue(options: {
+  filter: ModerationFilter;
+  limit: number;
+  offset: number;
+}): Promise<BotReview[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  return db
+    .select()
+    .from(botReviews)
+    .where(
+      options.filter === "pending"
+        ? isNull(botReviews.moderatedAt)
+        : options.filter === "hidden"
+          ? eq(botReviews.status, "hidden")
+          : undefined
+    )
+    .orderBy(options.filter === "pending" ? asc(botReviews.updatedAt) : desc(botReviews.updatedAt))
+    .limit(options.limit)
+    .offset(options.offset);
+}
+
+export async function moderateReview(
+  adminId: number,
+  reviewId: number,
+  action: ModerationAction,
+  reason?: string
+): Promise<BotReview> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const review = await getReview(reviewId);
+  if (action === "hide" && !reason) throw new ReviewError("A reason is required to hide a review");
+
+  const status = action === "hide" ? "hidden" : action === "restore" ? "published" : review.status;
+  const [updated] = await db
+    .update(botReviews)
+    .set({
+      status,
+      hiddenReason: status === "hidden" ? (reason ?? review.hiddenReason) : null,
+      moderatedAt: new Date(),
+      moderatedBy: adminId,
+    })
+    .where(eq(botReviews.id, reviewId))
+    .returning();
+
+  if (status !== review.status) await refreshBotRating(review.botId);
+
+  logger.info(`Admin ${adminId} set review ${reviewId} to ${status} (${action})`);
+  return updated;
+}
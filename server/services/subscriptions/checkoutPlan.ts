@@ -0,0 +1,63 @@
+/**
+ * Checkout Plan
+ * The billing plan a subscription checkout was created with, rebuilt from
+ * the price plus any trial or promo code held for the checkout, so what the
+ * provider reports can be checked against it before access is granted
+ */
+
+import type {
+  BillingPlan,
+  PaymentProvider,
+  ProviderSubscriptionStatus,
+} from "../payments/paymentProvider";
+import { findRedeemedPlan } from "../promos/promoService";
+import { findPendingTrial } from "../trials/trialService";
+import { withTrial } from "../trials/trialPolicy";
+
+export class CheckoutPlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CheckoutPlanError";
+  }
+}
+
+/**
+ * First charge of a plan: nothing during a trial, the introductory price
+ * when there is one
+ */
+export function firstChargeCents(plan: BillingPlan): number {
+  if (plan.trialDays) return 0;
+  return plan.introductory?.amountCents ?? plan.amountCents;
+}
+
+export async function getCheckoutPlan(
+  plan: BillingPlan,
+  provider: PaymentProvider["name"],
+  checkoutId: string
+): Promise<BillingPlan> {
+  const trial = await findPendingTrial(provider, checkoutId);
+  if (trial) return withTrial(plan, trial.trialDays);
+  return (await findRedeemedPlan(provider, checkoutId, plan)) ?? plan;
+}
+
+/**
+ * Throws CheckoutPlanError unless the subscription bills the plan its
+ * checkout was created with and its first charge covers that plan
+ */
+export async function assertCheckoutPlan(
+  provider: PaymentProvider,
+  status: ProviderSubscriptionStatus,
+  plan: BillingPlan,
+  checkoutId: string
+): Promise<void> {
+  const expected = await getCheckoutPlan(plan, provider.name, checkoutId);
+  if (!(await provider.isOnPlan(status, expected))) {
+    throw new CheckoutPlanError(`Subscription ${status.id} is not on the ${expected.key} plan`);
+  }
+  if (
+    status.lastPaymentAmountCents !== undefined &&
+    status.lastPaymentAmountCents < firstChargeCents(expected)
+  ) {
+    throw new CheckoutPlanError(`Subscription ${status.id} was charged less than the ${expected.key} plan`);
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Clock
+ * Source of "now" for scheduled billing work, swappable in tests
+ */
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * A clock that only moves when the test says so
+ */
+export class FakeClock implements Clock {
+  private current: Date;
+
+  constructor(start: Date = new Date("2024-01-01T00:00:00Z")) {
+    this.current = new Date(start);
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  set(date: Date) {
+    this.current = new Date(date);
+  }
+
+  advance(ms: number) {
+    this.current = new Date(this.current.getTime() + ms);
+  }
+
+  advanceDays(days: number) {
+    this.advance(days * 24 * 60 * 60 * 1000);
+  }
+}
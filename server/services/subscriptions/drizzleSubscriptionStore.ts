@@ -0,0 +1,161 @@
+/**
+ * Postgres Subscription Store
+ * Reads recurring purchases through their provider links
+ */
+
+import { getDb } from "../../db";
+import { contentMasterPurchases, userBotPurchases } from "../../../drizzle/schema";
+import { purchaseProviders, subscriptionHistory } from "../../../drizzle/billing_schema";
+import { and, eq, inArray, lte } from "drizzle-orm";
+import type { PurchaseProvider } from "../../../drizzle/billing_schema";
+import type { PaymentProviderName } from "../payments/paymentProvider";
+import {
+  LIVE_SUBSCRIPTION_STATUSES,
+  toHistoryRecord,
+  type SubscriptionStore,
+  type SubscriptionTransition,
+  type TrackedSubscription,
+} from "./subscriptionStore";
+import { settleTrial } from "../trials/trialService";
+import { recordBotSale } from "../payouts/ledgerService";
+
+interface TrackedSubscriptionRow {
+  subscription: TrackedSubscription;
+  linkCreatedAt: Date;
+}
+
+/**
+ * A purchase can be linked more than once (e.g. resubscribed);
+ * the newest link is the one being billed
+ */
+function newestPerPurchase(rows: TrackedSubscriptionRow[]): TrackedSubscription[] {
+  const byPurchase = new Map<number, TrackedSubscriptionRow>();
+  for (const row of rows) {
+    const current = byPurchase.get(row.subscription.purchaseId);
+    if (!current || row.linkCreatedAt > current.linkCreatedAt) {
+      byPurchase.set(row.subscription.purchaseId, row);
+    }
+  }
+  return Array.from(byPurchase.values()).map((row) => row.subscription);
+}
+
+function fromLink(
+  link: PurchaseProvider,
+  status: string,
+  periodEnd: Date | null
+): TrackedSubscriptionRow {
+  return {
+    subscription: {
+      productType: link.productType as TrackedSubscription["productType"],
+      purchaseId: link.purchaseId,
+      userId: link.userId,
+      provider: link.provider as PaymentProviderName,
+      providerId: link.providerId,
+      status,
+      periodEnd,
+    },
+    linkCreatedAt: link.createdAt,
+  };
+}
+
+export class DrizzleSubscriptionStore implements SubscriptionStore {
+  async listDue(now: Date): Promise<TrackedSubscription[]> {
+    const db = await getDb();
+    if (!db) throw new Error("Database unavailable");
+
+    const contentMaster = await db
+      .select({ link: purchaseProviders, purchase: contentMasterPurchases })
+      .from(purchaseProviders)
+      .innerJoin(contentMasterPurchases, eq(contentMasterPurchases.id, purchaseProviders.purchaseId))
+      .where(
+        and(
+          eq(purchaseProviders.productType, "content_master"),
+          eq(purchaseProviders.providerKind, "subscription"),
+          inArray(contentMasterPurchases.status, LIVE_SUBSCRIPTION_STATUSES),
+          lte(contentMasterPurchases.currentPeriodEnd, now)
+        )
+      );
+
+    const bots = await db
+      .select({ link: purchaseProviders, purchase: userBotPurchases })
+      .from(purchaseProviders)
+      .innerJoin(userBotPurchases, eq(userBotPurchases.id, purchaseProviders.purchaseId))
+      .where(
+        and(
+          eq(purchaseProviders.productType, "bot"),
+          eq(purchaseProviders.providerKind, "subscription"),
+          inArray(userBotPurchases.status, LIVE_SUBSCRIPTION_STATUSES),
+          lte(userBotPurchases.expiryDate, now)
+        )
+      );
+
+    return [
+      ...newestPerPurchase(
+        contentMaster.map(({ link, purchase }) =>
+          fromLink(link, purchase.status, purchase.currentPeriodEnd)
+        )
+      ),
+      ...newestPerPurchase(
+        bots.map(({ link, purchase }) => fromLink(link, purchase.status, purchase.expiryDate))
+      ),
+    ];
+  }
+
+  async applyTransition(
+    subscription: TrackedSubscription,
+    transition: SubscriptionTransition,
+    at: Date
+  ): Promise<void> {
+    const db = await getDb();
+    if (!db) throw new Error("Database unavailable");
+
+    await db.transaction(async (tx) => {
+      if (subscription.productType === "content_master") {
+        await tx
+          .update(contentMasterPurchases)
+          .set(
+            transition.periodEnd
+              ? {
+                  status: transition.status,
+                  currentPeriodStart: subscription.periodEnd ?? at,
+                  currentPeriodEnd: transition.periodEnd,
+                }
+              : { status: transition.status }
+          )
+          .where(eq(contentMasterPurchases.id, subscription.purchaseId));
+      } else {
+        await tx
+          .update(userBotPurchases)
+          .set(
+            transition.periodEnd
+              ? { status: transition.status, expiryDate: transition.periodEnd }
+              : { status: transition.status }
+          )
+          .where(eq(userBotPurchases.id, subscription.purchaseId));
+      }
+
+      await tx.insert(subscriptionHistory).values(toHistoryRecord(subscription, transition, at));
+    });
+
+    if (subscription.productType === "content_master" || subscription.productType === "bot") {
+      await settleTrial(subscription.productType, subscription.purchaseId, transition.event, at);
+    }
+
+    if (subscription.productType === "bot" && transition.charge) {
+      const [purchase] = await db
+        .select({ botId: userBotPurchases.botId })
+        .from(userBotPurchases)
+        .where(eq(userBotPurchases.id, subscription.purchaseId))
+        .limit(1);
+      if (purchase) {
+        await recordBotSale({
+          purchaseId: subscription.purchaseId,
+          botId: purchase.botId,
+          grossCents: transition.charge.amountCents,
+          provider: subscription.provider,
+          paidAt: transition.charge.paidAt,
+        });
+      }
+    }
+  }
+}
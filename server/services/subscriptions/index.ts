@@ -0,0 +1,35 @@
+/**
+ * Subscription lifecycle jobs
+ */
+
+import { DrizzleSubscriptionStore } from "./drizzleSubscriptionStore";
+import { SubscriptionScheduler } from "./subscriptionScheduler";
+
+export * from "./clock";
+export * from "./subscriptionStore";
+export { MemorySubscriptionStore } from "./memorySubscriptionStore";
+export { DrizzleSubscriptionStore } from "./drizzleSubscriptionStore";
+export {
+  SubscriptionScheduler,
+  getSchedulerIntervalMs,
+  type SchedulerRunResult,
+  type SubscriptionSchedulerOptions,
+} from "./subscriptionScheduler";
+
+let scheduler: SubscriptionScheduler | null = null;
+
+/**
+ * Start the renewal/expiry job against Postgres; call once at server startup
+ */
+export function startSubscriptionScheduler(): SubscriptionScheduler {
+  if (!scheduler) {
+    scheduler = new SubscriptionScheduler({ store: new DrizzleSubscriptionStore() });
+    scheduler.start();
+  }
+  return scheduler;
+}
+
+export function stopSubscriptionScheduler() {
+  scheduler?.stop();
+  scheduler = null;
+}
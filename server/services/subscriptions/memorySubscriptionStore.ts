@@ -0,0 +1,70 @@
+/**
+ * In-memory Subscription Store
+ * Stands in for Postgres in scheduler tests
+ */
+
+import type { PurchaseProductType } from "../payments/purchaseLinks";
+import {
+  LIVE_SUBSCRIPTION_STATUSES,
+  toHistoryRecord,
+  type SubscriptionHistoryRecord,
+  type SubscriptionStore,
+  type SubscriptionTransition,
+  type TrackedSubscription,
+} from "./subscriptionStore";
+
+export class MemorySubscriptionStore implements SubscriptionStore {
+  private readonly subscriptions = new Map<string, TrackedSubscription>();
+  readonly history: SubscriptionHistoryRecord[] = [];
+
+  private key(productType: PurchaseProductType, purchaseId: number) {
+    return `${productType}:${purchaseId}`;
+  }
+
+  add(subscription: TrackedSubscription) {
+    this.subscriptions.set(this.key(subscription.productType, subscription.purchaseId), {
+      ...subscription,
+    });
+  }
+
+  get(productType: PurchaseProductType, purchaseId: number): TrackedSubscription | undefined {
+    const subscription = this.subscriptions.get(this.key(productType, purchaseId));
+    return subscription ? { ...subscription } : undefined;
+  }
+
+  update(
+    productType: PurchaseProductType,
+    purchaseId: number,
+    changes: Partial<Omit<TrackedSubscription, "productType" | "purchaseId">>
+  ) {
+    const subscription = this.subscriptions.get(this.key(productType, purchaseId));
+    if (!subscription) throw new Error(`Unknown subscription ${productType}:${purchaseId}`);
+    Object.assign(subscription, changes);
+  }
+
+  async listDue(now: Date): Promise<TrackedSubscription[]> {
+    return Array.from(this.subscriptions.values())
+      .filter(
+        (subscription) =>
+          LIVE_SUBSCRIPTION_STATUSES.includes(subscription.status) &&
+          subscription.periodEnd !== null &&
+          subscription.periodEnd <= now
+      )
+      .map((subscription) => ({ ...subscription }));
+  }
+
+  async applyTransition(
+    subscription: TrackedSubscription,
+    transition: SubscriptionTransition,
+    at: Date
+  ): Promise<void> {
+    const stored = this.subscriptions.get(
+      this.key(subscription.productType, subscription.purchaseId)
+    );
+    if (!stored) throw new Error(`Unknown subscription ${subscription.purchaseId}`);
+
+    this.history.push(toHistoryRecord(stored, transition, at));
+    stored.status = transition.status;
+    if (transition.periodEnd) stored.periodEnd = transition.periodEnd;
+  }
+}
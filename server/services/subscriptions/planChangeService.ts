@@ -0,0 +1,395 @@
+/**
+ * Plan Change Service
+ * Moves a Content Master subscriber to lifetime, or a bot subscriber
+ * between monthly and yearly, on the existing purchase row.
+ *
+ * The customer approves one checkout for the prorated difference: a one-time
+ * order for lifetime, or a new provider subscription whose first recurring
+ * charge is deferred to the end of the credited period (with the difference
+ * as its setup fee). Once paid, the old provider subscription is canceled.
+ */
+
+import { getDb } from "../../db";
+import { contentMasterPurchases, userBotPurchases } from "../../../drizzle/schema";
+import { planChanges, subscriptionHistory, type PlanChange } from "../../../drizzle/billing_schema";
+import { and, desc, eq, inArray } from "drizzle-orm";
+import { logger } from "../../_core/logger";
+import {
+  buildRedirectUrls,
+  decodePaymentReference,
+  encodePaymentReference,
+  getPaymentProvider,
+  type PaymentProviderName,
+} from "../payments";
+import { getPurchaseLink, linkPurchase } from "../payments/purchaseLinks";
+import { CONTENT_MASTER_PLANS } from "../../contentMaster/paymentService";
+import { catalogBillingPlan, getCatalogBot } from "../catalog";
+import type { BotCatalogEntry } from "../../../drizzle/catalog_schema";
+import { addInterval, quotePlanChange, type PlanChangeQuote } from "./proration";
+
+export class PlanChangeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PlanChangeError";
+  }
+}
+
+export type PlanChangeTarget =
+  | { product: "content_master"; planId: "lifetime" }
+  | {
+      product: "bot";
+      botId: number;
+      interval: "monthly" | "yearly";
+    };
+
+export interface PlanChangeCheckout {
+  planChangeId: number;
+  quote: PlanChangeQuote;
+  checkoutUrl: string;
+}
+
+interface CurrentPlan {
+  purchaseId: number;
+  plan: "monthly" | "yearly";
+  status: string;
+  periodStart: Date;
+  periodEnd: Date;
+  amountCents: number;
+  provider: PaymentProviderName;
+  providerId: string;
+}
+
+const LIFETIME_YEARS = 100;
+
+/**
+ * Interval a bot purchase is billed at: the last completed plan change,
+ * otherwise the interval its checkout was created with
+ */
+async function getBotInterval(
+  purchaseId: number,
+  provider: PaymentProviderName,
+  providerId: string
+): Promise<"monthly" | "yearly"> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [lastChange] = await db
+    .select()
+    .from(planChanges)
+    .where(
+      and(
+        eq(planChanges.productType, "bot"),
+        eq(planChanges.purchaseId, purchaseId),
+        eq(planChanges.status, "completed")
+      )
+    )
+    .orderBy(desc(planChanges.completedAt))
+    .limit(1);
+  if (lastChange) return lastChange.toPlan as "monthly" | "yearly";
+
+  const status = await getPaymentProvider(provider).getSubscriptionStatus(providerId);
+  const reference = decodePaymentReference(status.reference);
+  if (reference?.kind !== "bot") {
+    throw new PlanChangeError("Cannot tell which plan this subscription is on");
+  }
+  return reference.interval;
+}
+
+/**
+ * The bot's catalog entry; archived bots still serve their subscribers, so
+ * any status will do
+ */
+async function getSubscribedBot(botId: number): Promise<BotCatalogEntry> {
+  const bot = await getCatalogBot(botId);
+  if (!bot) throw new PlanChangeError("Bot not found");
+  return bot;
+}
+
+async function getCurrentPlan(
+  userId: number,
+  target: PlanChangeTarget,
+  bot: BotCatalogEntry | null
+): Promise<CurrentPlan> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  if (target.product === "content_master") {
+    const [purchase] = await db
+      .select()
+      .from(contentMasterPurchases)
+      .where(
+        and(
+          eq(contentMasterPurchases.userId, userId),
+          inArray(contentMasterPurchases.status, ["active", "canceled"])
+        )
+      )
+      .orderBy(desc(contentMasterPurchases.id))
+      .limit(1);
+    if (!purchase) throw new PlanChangeError("No subscription to change");
+    if (purchase.planId !== "monthly") {
+      throw new PlanChangeError("Lifetime plans cannot be changed");
+    }
+
+    const link = await getPurchaseLink("content_master", purchase.id);
+    if (!link) throw new PlanChangeError("This subscription has no provider subscription");
+
+    return {
+      purchaseId: purchase.id,
+      plan: "monthly",
+      status: purchase.status,
+      periodStart: purchase.currentPeriodStart,
+      periodEnd: purchase.currentPeriodEnd,
+      amountCents: CONTENT_MASTER_PLANS.monthly.price * 100,
+      provider: link.provider as PaymentProviderName,
+      providerId: link.providerId,
+    };
+  }
+
+  const [purchase] = await db
+    .select()
+    .from(userBotPurchases)
+    .where(
+      and(
+        eq(userBotPurchases.userId, userId),
+        eq(userBotPurchases.botId, target.botId),
+        inArray(userBotPurchases.status, ["active", "canceled"])
+      )
+    )
+    .orderBy(desc(userBotPurchases.id))
+    .limit(1);
+  if (!purchase || !bot) throw new PlanChangeError("No subscription to change");
+
+  const link = await getPurchaseLink("bot", purchase.id);
+  if (!link) throw new PlanChangeError("This subscription has no provider subscription");
+
+  const provider = link.provider as PaymentProviderName;
+  const plan = await getBotInterval(purchase.id, provider, link.providerId);
+  const billingPlan = catalogBillingPlan(bot, plan);
+
+  return {
+    purchaseId: purchase.id,
+    plan,
+    status: purchase.status,
+    periodStart: addInterval(purchase.expiryDate, billingPlan.interval, -1),
+    periodEnd: purchase.expiryDate,
+    amountCents: billingPlan.amountCents,
+    provider,
+    providerId: link.providerId,
+  };
+}
+
+/**
+ * Quote a plan change and create the checkout for the difference
+ */
+export async function startPlanChange(
+  userId: number,
+  target: PlanChangeTarget,
+  subscriberEmail?: string
+): Promise<PlanChangeCheckout> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const bot = target.product === "bot" ? await getSubscribedBot(target.botId) : null;
+  const current = await getCurrentPlan(userId, target, bot);
+  const toPlan = target.product === "content_master" ? target.planId : target.interval;
+  if (toPlan === current.plan) {
+    throw new PlanChangeError(`Already on the ${toPlan} plan`);
+  }
+
+  const newPlan = target.product === "bot" && bot ? catalogBillingPlan(bot, target.interval) : null;
+  const lifetime = CONTENT_MASTER_PLANS.lifetime;
+
+  const quote = quotePlanChange({
+    current: {
+      amountCents: current.amountCents,
+      interval: current.plan === "yearly" ? "year" : "month",
+    },
+    periodStart: current.periodStart,
+    periodEnd: current.periodEnd,
+    target: newPlan
+      ? { amountCents: newPlan.amountCents, interval: newPlan.interval }
+      : { amountCents: lifetime.price * 100, interval: null },
+    now: new Date(),
+  });
+
+  const [change] = await db
+    .insert(planChanges)
+    .values({
+      productType: target.product,
+      purchaseId: current.purchaseId,
+      userId,
+      fromPlan: current.plan,
+      toPlan,
+      provider: current.provider,
+      creditCents: quote.creditCents,
+      chargeCents: quote.chargeCents,
+      currency: newPlan?.currency ?? lifetime.currency,
+      periodEnd: quote.periodEnd,
+    })
+    .returning();
+
+  const provider = getPaymentProvider(current.provider);
+  const reference = encodePaymentReference({
+    kind: "plan_change",
+    userId,
+    planChangeId: change.id,
+  });
+  const redirectUrls = buildRedirectUrls(
+    target.product === "bot"
+      ? `/bots?botId=${target.botId}&planChange=${change.id}`
+      : `/content-master?planChange=${change.id}`
+  );
+
+  const checkout = newPlan
+    ? await provider.createSubscription({
+        plan: newPlan,
+        reference,
+        subscriberEmail,
+        startAt: quote.periodEnd ?? undefined,
+        setupFeeCents: quote.chargeCents,
+        ...redirectUrls,
+      })
+    : await provider.createOrder({
+        amountCents: quote.chargeCents,
+        currency: lifetime.currency,
+        description: `Content Master ${lifetime.name} (upgrade)`,
+        reference,
+        ...redirectUrls,
+      });
+
+  await db
+    .update(planChanges)
+    .set({ checkoutId: checkout.id })
+    .where(eq(planChanges.id, change.id));
+
+  logger.info(
+    `Plan change ${change.id}: ${target.product} ${current.plan} -> ${toPlan}, credit ${quote.creditCents}, charge ${quote.chargeCents}`
+  );
+
+  return { planChangeId: change.id, quote, checkoutUrl: checkout.approvalUrl };
+}
+
+/**
+ * Apply a plan change once its checkout is paid. Safe to call from both the
+ * return page and the provider webhook.
+ */
+export async function completePlanChange(
+  userId: number,
+  planChangeId: number
+): Promise<PlanChange> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [change] = await db
+    .select()
+    .from(planChanges)
+    .where(and(eq(planChanges.id, planChangeId), eq(planChanges.userId, userId)));
+  if (!change || !change.checkoutId) throw new PlanChangeError("Plan change not found");
+  if (change.status === "completed") return change;
+
+  const providerName = change.provider as PaymentProviderName;
+  const provider = getPaymentProvider(providerName);
+  const lifetime = change.toPlan === "lifetime";
+
+  let providerId: string;
+  if (lifetime) {
+    const capture = await provider.captureOrder(change.checkoutId);
+    if (capture.status !== "completed") {
+      throw new PlanChangeError(`Payment ${capture.status}`);
+    }
+    if (capture.amountCents < change.chargeCents) {
+      throw new PlanChangeError("Captured amount does not cover the plan change");
+    }
+    providerId = capture.captureId;
+  } else {
+    const status = await provider.getSubscriptionStatus(change.checkoutId);
+    const reference = decodePaymentReference(status.reference);
+    if (reference?.kind !== "plan_change" || reference.planChangeId !== change.id) {
+      throw new PlanChangeError("Checkout does not belong to this plan change");
+    }
+    if (status.status !== "active" && status.status !== "approved") {
+      throw new PlanChangeError(`Subscription is ${status.status}`);
+    }
+    providerId = status.id;
+  }
+
+  const oldLink = await getPurchaseLink(change.productType as "content_master" | "bot", change.purchaseId);
+  const now = new Date();
+  const periodEnd = change.periodEnd ?? addInterval(now, "year", LIFETIME_YEARS);
+
+  const [purchase] =
+    change.productType === "content_master"
+      ? await db
+          .select({ status: contentMasterPurchases.status, periodEnd: contentMasterPurchases.currentPeriodEnd })
+          .from(contentMasterPurchases)
+          .where(eq(contentMasterPurchases.id, change.purchaseId))
+      : await db
+          .select({ status: userBotPurchases.status, periodEnd: userBotPurchases.expiryDate })
+          .from(userBotPurchases)
+          .where(eq(userBotPurchases.id, change.purchaseId));
+
+  const completed = await db.transaction(async (tx) => {
+    if (change.productType === "content_master") {
+      await tx
+        .update(contentMasterPurchases)
+        .set({
+          planId: change.toPlan,
+          status: "active",
+          canceledAt: null,
+          currentPeriodStart: now,
+          currentPeriodEnd: periodEnd,
+        })
+        .where(eq(contentMasterPurchases.id, change.purchaseId));
+    } else {
+      await tx
+        .update(userBotPurchases)
+        .set({ status: "active", expiryDate: periodEnd })
+        .where(eq(userBotPurchases.id, change.purchaseId));
+    }
+
+    await tx.insert(subscriptionHistory).values({
+      productType: change.productType,
+      purchaseId: change.purchaseId,
+      userId,
+      event: "plan_changed",
+      fromStatus: purchase?.status ?? null,
+      toStatus: "active",
+      previousPeriodEnd: purchase?.periodEnd ?? null,
+      periodEnd,
+      provider: providerName,
+      providerId,
+      note: `${change.fromPlan} -> ${change.toPlan}: credit ${change.creditCents}, charged ${change.chargeCents} cents`,
+    });
+
+    const [row] = await tx
+      .update(planChanges)
+      .set({ status: "completed", completedAt: now })
+      .where(eq(planChanges.id, change.id))
+      .returning();
+    return row;
+  });
+
+  await linkPurchase({
+    productType: change.productType as "content_master" | "bot",
+    purchaseId: change.purchaseId,
+    userId,
+    provider: providerName,
+    providerId,
+    providerKind: lifetime ? "payment" : "subscription",
+  });
+
+  // The new checkout replaces the old subscription; stop it billing
+  if (oldLink && oldLink.providerKind === "subscription" && oldLink.providerId !== providerId) {
+    try {
+      await getPaymentProvider(oldLink.provider as PaymentProviderName).cancelSubscription(
+        oldLink.providerId,
+        `Replaced by plan change ${change.id}`
+      );
+    } catch (error) {
+      logger.error(`Failed to cancel subscription ${oldLink.providerId} after plan change:`, error);
+    }
+  }
+
+  logger.info(`Plan change ${change.id} completed for user ${userId}`);
+  return completed;
+}
@@ -0,0 +1,75 @@
+/**
+ * Tests for plan change proration
+ */
+
+import { describe, it, expect } from "vitest";
+import { addInterval, quotePlanChange } from "./proration";
+
+const periodStart = new Date("2024-03-01T00:00:00Z");
+const periodEnd = new Date("2024-03-31T00:00:00Z");
+
+describe("quotePlanChange", () => {
+  it("credits the unused half of a monthly period towards lifetime", () => {
+    const quote = quotePlanChange({
+      current: { amountCents: 2900, interval: "month" },
+      periodStart,
+      periodEnd,
+      target: { amountCents: 29900, interval: null },
+      now: new Date("2024-03-16T00:00:00Z"),
+    });
+
+    expect(quote).toEqual({ creditCents: 1450, chargeCents: 28450, periodEnd: null });
+  });
+
+  it("starts a yearly period when upgrading from monthly", () => {
+    const now = new Date("2024-03-16T00:00:00Z");
+    const quote = quotePlanChange({
+      current: { amountCents: 2999, interval: "month" },
+      periodStart,
+      periodEnd,
+      target: { amountCents: 29999, interval: "year" },
+      now,
+    });
+
+    expect(quote.creditCents).toBe(1500);
+    expect(quote.chargeCents).toBe(28499);
+    expect(quote.periodEnd).toEqual(new Date("2025-03-16T00:00:00Z"));
+  });
+
+  it("gives no credit once the period is over", () => {
+    const quote = quotePlanChange({
+      current: { amountCents: 2900, interval: "month" },
+      periodStart,
+      periodEnd,
+      target: { amountCents: 29900, interval: null },
+      now: new Date("2024-04-02T00:00:00Z"),
+    });
+
+    expect(quote.creditCents).toBe(0);
+    expect(quote.chargeCents).toBe(29900);
+  });
+
+  it("turns leftover credit of a downgrade into extra time", () => {
+    const now = new Date("2024-01-01T00:00:00Z");
+    const quote = quotePlanChange({
+      current: { amountCents: 30000, interval: "year" },
+      periodStart: new Date("2023-07-01T00:00:00Z"),
+      periodEnd: new Date("2024-07-01T00:00:00Z"),
+      target: { amountCents: 3000, interval: "month" },
+      now,
+    });
+
+    expect(quote.chargeCents).toBe(0);
+    // About half a year of credit: one paid month plus four more
+    expect(quote.creditCents).toBe(14918);
+    const months = (quote.periodEnd!.getTime() - now.getTime()) / (31 * 24 * 60 * 60 * 1000);
+    expect(months).toBeCloseTo(4.97, 1);
+  });
+});
+
+describe("addInterval", () => {
+  it("adds months and years", () => {
+    expect(addInterval(periodStart, "month")).toEqual(new Date("2024-04-01T00:00:00Z"));
+    expect(addInterval(periodStart, "year", 2)).toEqual(new Date("2026-03-01T00:00:00Z"));
+  });
+});
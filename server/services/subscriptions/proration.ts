@@ -0,0 +1,64 @@
+/**
+ * Proration
+ * Credit for the unused part of the current period and what is left to pay
+ * when moving to another plan. The new plan always starts immediately.
+ */
+
+import type { BillingInterval } from "../payments/paymentProvider";
+
+export interface PlanPrice {
+  amountCents: number;
+  // null for lifetime plans
+  interval: BillingInterval | null;
+}
+
+export interface PlanChangeQuoteInput {
+  current: PlanPrice & { interval: BillingInterval };
+  periodStart: Date;
+  periodEnd: Date;
+  target: PlanPrice;
+  now: Date;
+}
+
+export interface PlanChangeQuote {
+  creditCents: number;
+  chargeCents: number;
+  // End of the first period on the new plan; null for lifetime
+  periodEnd: Date | null;
+}
+
+export function addInterval(date: Date, interval: BillingInterval, count = 1): Date {
+  const result = new Date(date);
+  if (interval === "year") {
+    result.setFullYear(result.getFullYear() + count);
+  } else {
+    result.setMonth(result.getMonth() + count);
+  }
+  return result;
+}
+
+/**
+ * Credit beyond the new plan's price (a downgrade early in a long period)
+ * is not paid out; it extends the first period on the new plan instead.
+ */
+export function quotePlanChange(input: PlanChangeQuoteInput): PlanChangeQuote {
+  const totalMs = input.periodEnd.getTime() - input.periodStart.getTime();
+  const remainingMs = Math.min(Math.max(input.periodEnd.getTime() - input.now.getTime(), 0), totalMs);
+  const creditCents = totalMs > 0 ? Math.round((input.current.amountCents * remainingMs) / totalMs) : 0;
+  const chargeCents = Math.max(input.target.amountCents - creditCents, 0);
+
+  if (!input.target.interval) {
+    return { creditCents, chargeCents, periodEnd: null };
+  }
+
+  const periodEnd = addInterval(input.now, input.target.interval);
+  const leftoverCents = Math.max(creditCents - input.target.amountCents, 0);
+  if (leftoverCents > 0 && input.target.amountCents > 0) {
+    const periodMs = periodEnd.getTime() - input.now.getTime();
+    periodEnd.setTime(
+      periodEnd.getTime() + Math.round((periodMs * leftoverCents) / input.target.amountCents)
+    );
+  }
+
+  return { creditCents, chargeCents, periodEnd };
+}
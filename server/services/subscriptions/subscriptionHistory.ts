@@ -0,0 +1,25 @@
+/**
+ * Subscription History
+ * History rows for changes made outside the scheduler, e.g. a customer
+ * canceling or resuming
+ */
+
+import { getDb } from "../../db";
+import { subscriptionHistory } from "../../../drizzle/billing_schema";
+import type { SubscriptionHistoryRecord } from "./subscriptionStore";
+
+export type SubscriptionHistoryInput = Omit<
+  SubscriptionHistoryRecord,
+  "createdAt" | "previousPeriodEnd" | "provider" | "providerId" | "note"
+> &
+  Partial<Pick<SubscriptionHistoryRecord, "previousPeriodEnd" | "provider" | "providerId" | "note">>;
+
+export async function recordSubscriptionHistory(entry: SubscriptionHistoryInput): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  await db.insert(subscriptionHistory).values({
+    ...entry,
+    previousPeriodEnd: entry.previousPeriodEnd ?? entry.periodEnd,
+  });
+}
@@ -0,0 +1,187 @@
+/**
+ * Tests for the subscription renewal/expiry scheduler
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { FakeClock } from "./clock";
+import { MemorySubscriptionStore } from "./memorySubscriptionStore";
+import { SubscriptionScheduler } from "./subscriptionScheduler";
+import { FakePaymentProvider } from "../payments/fakePaymentProvider";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe("SubscriptionScheduler", () => {
+  let clock: FakeClock;
+  let store: MemorySubscriptionStore;
+  let provider: FakePaymentProvider;
+  let scheduler: SubscriptionScheduler;
+  let subscriptionId: string;
+
+  beforeEach(async () => {
+    clock = new FakeClock(new Date("2024-03-01T00:00:00Z"));
+    store = new MemorySubscriptionStore();
+    provider = new FakePaymentProvider();
+    scheduler = new SubscriptionScheduler({
+      store,
+      clock,
+      graceMs: 3 * DAY,
+      getProvider: () => provider,
+    });
+
+    const checkout = await provider.createSubscription({
+      plan: {
+        key: "bot_branded_monthly",
+        name: "Branded Bot Monthly",
+        amountCents: 2999,
+        currency: "usd",
+        interval: "month",
+      },
+      reference: "bot:7:1:monthly",
+      returnUrl: "http://localhost:3000/bots?success=true",
+      cancelUrl: "http://localhost:3000/bots?canceled=true",
+    });
+    subscriptionId = checkout.id;
+    provider.activateSubscription(subscriptionId, clock.now());
+
+    store.add({
+      productType: "bot",
+      purchaseId: 1,
+      userId: 7,
+      provider: "paypal",
+      providerId: subscriptionId,
+      status: "active",
+      periodEnd: new Date("2024-04-01T00:00:00Z"),
+    });
+  });
+
+  it("leaves subscriptions alone until their period ends", async () => {
+    clock.advanceDays(10);
+    const result = await scheduler.runOnce();
+
+    expect(result.checked).toBe(0);
+    expect(store.history).toHaveLength(0);
+  });
+
+  it("advances the period when the provider reports a renewal charge", async () => {
+    clock.set(new Date("2024-04-01T06:00:00Z"));
+    provider.recordPayment(subscriptionId, new Date("2024-04-01T02:00:00Z"));
+
+    const result = await scheduler.runOnce();
+
+    expect(result).toMatchObject({ checked: 1, renewed: 1, expired: 0 });
+    const subscription = store.get("bot", 1);
+    expect(subscription?.status).toBe("active");
+    expect(subscription?.periodEnd).toEqual(new Date("2024-05-01T02:00:00Z"));
+    expect(store.history[0]).toMatchObject({
+      event: "renewed",
+      fromStatus: "active",
+      toStatus: "active",
+      previousPeriodEnd: new Date("2024-04-01T00:00:00Z"),
+      periodEnd: new Date("2024-05-01T02:00:00Z"),
+      note: "Renewal charge of 2999 cents",
+    });
+  });
+
+  it("converts a trial once the first charge goes through", async () => {
+    store.update("bot", 1, { status: "trialing", periodEnd: new Date("2024-03-08T00:00:00Z") });
+    clock.set(new Date("2024-03-08T01:00:00Z"));
+    provider.recordPayment(subscriptionId, new Date("2024-03-08T00:30:00Z"));
+
+    const result = await scheduler.runOnce();
+
+    expect(result.renewed).toBe(1);
+    expect(store.get("bot", 1)?.status).toBe("active");
+    expect(store.history[0]).toMatchObject({
+      event: "renewed",
+      fromStatus: "trialing",
+      toStatus: "active",
+      note: "Trial converted with a charge of 2999 cents",
+    });
+  });
+
+  it("waits out the grace period before expiring an unpaid subscription", async () => {
+    clock.set(new Date("2024-04-02T00:00:00Z"));
+    await scheduler.runOnce();
+    expect(store.get("bot", 1)?.status).toBe("active");
+
+    clock.set(new Date("2024-04-04T00:00:00Z"));
+    const result = await scheduler.runOnce();
+
+    expect(result.expired).toBe(1);
+    expect(store.get("bot", 1)?.status).toBe("expired");
+    expect(store.history.map((entry) => entry.event)).toEqual(["expired"]);
+  });
+
+  it("marks a failed renewal as suspended, then renews if the retry succeeds", async () => {
+    provider.setSubscriptionStatus(subscriptionId, "suspended");
+    clock.set(new Date("2024-04-01T12:00:00Z"));
+    await scheduler.runOnce();
+    expect(store.get("bot", 1)?.status).toBe("suspended");
+
+    provider.setSubscriptionStatus(subscriptionId, "active");
+    provider.recordPayment(subscriptionId, new Date("2024-04-02T12:00:00Z"));
+    clock.set(new Date("2024-04-02T13:00:00Z"));
+    await scheduler.runOnce();
+
+    expect(store.get("bot", 1)).toMatchObject({
+      status: "active",
+      periodEnd: new Date("2024-05-02T12:00:00Z"),
+    });
+    expect(store.history.map((entry) => entry.event)).toEqual(["suspended", "renewed"]);
+  });
+
+  it("expires immediately once the provider subscription is canceled", async () => {
+    await provider.cancelSubscription(subscriptionId);
+    clock.set(new Date("2024-04-01T01:00:00Z"));
+
+    await scheduler.runOnce();
+
+    expect(store.get("bot", 1)?.status).toBe("expired");
+    expect(store.history[0].note).toBe("Provider subscription is canceled");
+  });
+
+  it("expires canceled subscriptions at the end of the period", async () => {
+    await provider.cancelSubscription(subscriptionId, "Customer request", { atPeriodEnd: true });
+    store.update("bot", 1, { status: "canceled" });
+    clock.set(new Date("2024-04-01T00:00:00Z"));
+
+    await scheduler.runOnce();
+
+    expect(store.history[0]).toMatchObject({
+      event: "expired",
+      fromStatus: "canceled",
+      toStatus: "expired",
+    });
+    expect((await provider.getSubscriptionStatus(subscriptionId)).status).toBe("canceled");
+  });
+
+  it("keeps canceled subscriptions until the period ends", async () => {
+    await provider.cancelSubscription(subscriptionId, "Customer request", { atPeriodEnd: true });
+    store.update("bot", 1, { status: "canceled" });
+    clock.set(new Date("2024-03-31T23:00:00Z"));
+
+    const result = await scheduler.runOnce();
+
+    expect(result.checked).toBe(0);
+    expect(store.get("bot", 1)?.status).toBe("canceled");
+  });
+
+  it("counts provider failures without stopping the run", async () => {
+    store.add({
+      productType: "content_master",
+      purchaseId: 2,
+      userId: 8,
+      provider: "paypal",
+      providerId: "I-UNKNOWN",
+      status: "active",
+      periodEnd: new Date("2024-04-01T00:00:00Z"),
+    });
+    provider.recordPayment(subscriptionId, new Date("2024-04-01T00:00:00Z"));
+    clock.set(new Date("2024-04-01T01:00:00Z"));
+
+    const result = await scheduler.runOnce();
+
+    expect(result).toMatchObject({ checked: 2, renewed: 1, failed: 1 });
+    expect(store.get("content_master", 2)?.status).toBe("active");
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Subscription Scheduler
+ * Periodically advances paid periods when the provider reports a renewal
+ * charge (the first one converts a trial) and expires subscriptions whose
+ * grace period ran out
+ */
+
+import { logger } from "../../_core/logger";
+import { getPaymentProvider } from "../payments";
+import type { PaymentProvider, PaymentProviderName } from "../payments/paymentProvider";
+import { getGracePeriodMs } from "../entitlements/evaluateEntitlement";
+import { systemClock, type Clock } from "./clock";
+import { transitionSubscription } from "./subscriptionState";
+import type {
+  SubscriptionStore,
+  SubscriptionTransition,
+  TrackedSubscription,
+} from "./subscriptionStore";
+
+export interface SubscriptionSchedulerOptions {
+  store: SubscriptionStore;
+  clock?: Clock;
+  // How long a lapsed subscription keeps access while the provider retries
+  graceMs?: number;
+  getProvider?: (name: PaymentProviderName) => PaymentProvider;
+}
+
+type SchedulerTransition = SubscriptionTransition & {
+  event: "renewed" | "suspended" | "expired";
+};
+
+export interface SchedulerRunResult {
+  checked: number;
+  renewed: number;
+  suspended: number;
+  expired: number;
+  failed: number;
+}
+
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Run interval from SUBSCRIPTION_JOB_INTERVAL_MINUTES, hourly by default
+ */
+export function getSchedulerIntervalMs(): number {
+  const minutes = Number(process.env.SUBSCRIPTION_JOB_INTERVAL_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes * 60 * 1000 : DEFAULT_INTERVAL_MS;
+}
+
+export class SubscriptionScheduler {
+  private readonly store: SubscriptionStore;
+  private readonly clock: Clock;
+  private readonly graceMs: number;
+  private readonly getProvider: (name: PaymentProviderName) => PaymentProvider;
+
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running: Promise<SchedulerRunResult> | null = null;
+
+  constructor(options: SubscriptionSchedulerOptions) {
+    this.store = options.store;
+    this.clock = options.clock ?? systemClock;
+    this.graceMs = options.graceMs ?? getGracePeriodMs();
+    this.getProvider = options.getProvider ?? getPaymentProvider;
+  }
+
+  /**
+   * Process every due subscription once. Concurrent calls share one run.
+   */
+  runOnce(): Promise<SchedulerRunResult> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  start(intervalMs: number = getSchedulerIntervalMs()) {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch((error) => {
+        logger.error("Subscription scheduler run failed:", error);
+      });
+    }, intervalMs);
+    this.timer.unref?.();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async run(): Promise<SchedulerRunResult> {
+    const now = this.clock.now();
+    const due = await this.store.listDue(now);
+    const result: SchedulerRunResult = {
+      checked: due.length,
+      renewed: 0,
+      suspended: 0,
+      expired: 0,
+      failed: 0,
+    };
+
+    for (const subscription of due) {
+      try {
+        const transition = await this.decide(subscription, now);
+        if (!transition) continue;
+
+        await this.store.applyTransition(subscription, transition, now);
+        result[transition.event] += 1;
+
+        logger.info(
+          `Subscription ${subscription.productType}:${subscription.purchaseId} ${transition.event}`
+        );
+      } catch (error) {
+        result.failed += 1;
+        logger.error(
+          `Failed to process subscription ${subscription.productType}:${subscription.purchaseId}:`,
+          error
+        );
+      }
+    }
+
+    return result;
+  }
+
+  private async decide(
+    subscription: TrackedSubscription,
+    now: Date
+  ): Promise<SchedulerTransition | null> {
+    const periodEnd = subscription.periodEnd ?? now;
+    const provider = this.getProvider(subscription.provider);
+    const status = await provider.getSubscriptionStatus(subscription.providerId);
+
+    if (subscription.status === "canceled") {
+      // PayPal only suspended billing when the customer canceled; end it for good now
+      if (status.status !== "canceled" && status.status !== "expired") {
+        await provider.cancelSubscription(subscription.providerId, "Canceled at period end");
+      }
+      return {
+        event: "expired",
+        status: transitionSubscription(subscription.status, "expire"),
+        note: "Canceled subscription reached the end of its period",
+      };
+    }
+
+    if (
+      status.status === "active" &&
+      status.lastPaymentAt &&
+      status.nextBillingAt &&
+      status.nextBillingAt > periodEnd
+    ) {
+      return {
+        event: "renewed",
+        status: transitionSubscription(subscription.status, "renew"),
+        periodEnd: status.nextBillingAt,
+        note:
+          status.lastPaymentAmountCents === undefined
+            ? undefined
+            : subscription.status === "trialing"
+              ? `Trial converted with a charge of ${status.lastPaymentAmountCents} cents`
+              : `Renewal charge of ${status.lastPaymentAmountCents} cents`,
+        charge:
+          status.lastPaymentAmountCents === undefined
+            ? undefined
+            : { amountCents: status.lastPaymentAmountCents, paidAt: status.lastPaymentAt },
+      };
+    }
+
+    // No more charges are coming, so there is nothing to wait for
+    if (status.status === "canceled" || status.status === "expired") {
+      return {
+        event: "expired",
+        status: transitionSubscription(subscription.status, "expire"),
+        note: `Provider subscription is ${status.status}`,
+      };
+    }
+
+    if (now.getTime() >= periodEnd.getTime() + this.graceMs) {
+      return {
+        event: "expired",
+        status: transitionSubscription(subscription.status, "expire"),
+        note: `No renewal charge within the grace period (provider status ${status.status})`,
+      };
+    }
+
+    if (status.status === "suspended" && subscription.status !== "suspended") {
+      return {
+        event: "suspended",
+        status: transitionSubscription(subscription.status, "suspend"),
+        note: "Renewal charge failed; access continues during the grace period",
+      };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Tests for the subscription state machine
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  InvalidSubscriptionTransitionError,
+  canMoveTo,
+  canTransition,
+  transitionSubscription,
+} from "./subscriptionState";
+
+describe("transitionSubscription", () => {
+  it("cancels active and suspended subscriptions without ending them", () => {
+    expect(transitionSubscription("active", "cancel")).toBe("canceled");
+    expect(transitionSubscription("suspended", "cancel")).toBe("canceled");
+  });
+
+  it("resumes only canceled subscriptions", () => {
+    expect(transitionSubscription("canceled", "resume")).toBe("active");
+    expect(canTransition("expired", "resume")).toBe(false);
+    expect(canTransition("active", "resume")).toBe(false);
+  });
+
+  it("expires canceled subscriptions", () => {
+    expect(transitionSubscription("canceled", "expire")).toBe("expired");
+  });
+
+  it("converts trials on renewal and resumes canceled trials as trials", () => {
+    expect(transitionSubscription("trialing", "renew")).toBe("active");
+    expect(transitionSubscription("trialing", "cancel")).toBe("canceled");
+    expect(transitionSubscription("canceled", "resume_trial")).toBe("trialing");
+  });
+
+  it("throws for moves the state machine does not allow", () => {
+    expect(() => transitionSubscription("expired", "cancel")).toThrow(
+      InvalidSubscriptionTransitionError
+    );
+    expect(() => transitionSubscription("refunded", "activate")).toThrow(
+      "Cannot activate a subscription that is refunded"
+    );
+  });
+
+  it("rejects unknown statuses", () => {
+    expect(canTransition("mystery", "cancel")).toBe(false);
+  });
+});
+
+describe("canMoveTo", () => {
+  it("ignores a suspension reported for a pending cancellation", () => {
+    expect(canMoveTo("canceled", "suspended")).toBe(false);
+  });
+
+  it("does not revive ended subscriptions", () => {
+    expect(canMoveTo("expired", "active")).toBe(false);
+    expect(canMoveTo("expired", "refunded")).toBe(true);
+  });
+
+  it("leaves trials to the scheduler when a provider reports them active", () => {
+    expect(canMoveTo("trialing", "active")).toBe(false);
+    expect(canMoveTo("trialing", "canceled")).toBe(true);
+  });
+
+  it("accepts repeated and legacy statuses", () => {
+    expect(canMoveTo("active", "active")).toBe(true);
+    expect(canMoveTo("completed", "refunded")).toBe(true);
+  });
+});
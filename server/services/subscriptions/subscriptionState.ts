@@ -0,0 +1,108 @@
+/**
+ * Subscription State Machine
+ * `canceled` means a cancellation is pending and access runs to the end of
+ * the paid period; `expired` means the period is over and access has ended.
+ * `trialing` runs until the first charge, when a renewal makes it `active`.
+ */
+
+export type SubscriptionStatus =
+  | "pending"
+  | "trialing"
+  | "active"
+  | "suspended"
+  | "canceled"
+  | "expired"
+  | "refunded"
+  | "denied";
+
+export type SubscriptionAction =
+  | "activate"
+  | "renew"
+  | "suspend"
+  | "cancel"
+  | "resume"
+  | "resume_trial"
+  | "expire"
+  | "refund"
+  | "deny";
+
+const TRANSITIONS: Record<SubscriptionStatus, Partial<Record<SubscriptionAction, SubscriptionStatus>>> = {
+  pending: { activate: "active", deny: "denied", expire: "expired" },
+  trialing: {
+    renew: "active",
+    suspend: "suspended",
+    cancel: "canceled",
+    expire: "expired",
+    refund: "refunded",
+  },
+  active: {
+    activate: "active",
+    renew: "active",
+    suspend: "suspended",
+    cancel: "canceled",
+    expire: "expired",
+    refund: "refunded",
+  },
+  suspended: {
+    activate: "active",
+    renew: "active",
+    cancel: "canceled",
+    expire: "expired",
+    refund: "refunded",
+  },
+  canceled: {
+    resume: "active",
+    resume_trial: "trialing",
+    expire: "expired",
+    refund: "refunded",
+  },
+  expired: { refund: "refunded" },
+  refunded: {},
+  denied: {},
+};
+
+export class InvalidSubscriptionTransitionError extends Error {
+  constructor(
+    readonly from: string,
+    readonly action: SubscriptionAction,
+    message = `Cannot ${action} a subscription that is ${from}`
+  ) {
+    super(message);
+    this.name = "InvalidSubscriptionTransitionError";
+  }
+}
+
+function isStatus(value: string): value is SubscriptionStatus {
+  return value in TRANSITIONS;
+}
+
+export function canTransition(from: string, action: SubscriptionAction): boolean {
+  return isStatus(from) && TRANSITIONS[from][action] !== undefined;
+}
+
+/**
+ * The status `action` leads to from `from`; throws when not allowed
+ */
+export function transitionSubscription(
+  from: string,
+  action: SubscriptionAction
+): SubscriptionStatus {
+  const to = isStatus(from) ? TRANSITIONS[from][action] : undefined;
+  if (!to) {
+    throw new InvalidSubscriptionTransitionError(from, action);
+  }
+  return to;
+}
+
+/**
+ * Whether any action moves `from` to `to`. Used for provider webhooks,
+ * which report the resulting status rather than what happened.
+ * Statuses written before this state machine existed are not second-guessed.
+ */
+export function canMoveTo(from: string, to: string): boolean {
+  if (from === to || !isStatus(from)) return true;
+  // Providers report a subscription in its free trial as active; only a
+  // renewal the scheduler has seen charged ends the trial
+  if (from === "trialing" && to === "active") return false;
+  return Object.values(TRANSITIONS[from]).includes(to as SubscriptionStatus);
+}
@@ -0,0 +1,95 @@
+/**
+ * Subscription Store
+ * What the renewal scheduler needs from persistence, so it can run against
+ * Postgres in production and an in-memory store in tests
+ */
+
+import type { PaymentProviderName } from "../payments/paymentProvider";
+import type { PurchaseProductType } from "../payments/purchaseLinks";
+
+/**
+ * A recurring purchase together with the provider subscription paying for it
+ */
+export interface TrackedSubscription {
+  productType: PurchaseProductType;
+  purchaseId: number;
+  userId: number;
+  provider: PaymentProviderName;
+  providerId: string;
+  status: string;
+  periodEnd: Date | null;
+}
+
+export type SubscriptionEvent =
+  | "renewed"
+  | "suspended"
+  | "expired"
+  | "canceled"
+  | "resumed"
+  | "refunded"
+  | "plan_changed";
+
+export interface SubscriptionTransition {
+  event: SubscriptionEvent;
+  status: string;
+  // New period end; unchanged when omitted
+  periodEnd?: Date;
+  note?: string;
+  // The charge behind a renewal, when the provider reported one
+  charge?: { amountCents: number; paidAt: Date };
+}
+
+export interface SubscriptionHistoryRecord {
+  productType: PurchaseProductType;
+  purchaseId: number;
+  userId: number;
+  event: SubscriptionEvent;
+  fromStatus: string | null;
+  toStatus: string;
+  previousPeriodEnd: Date | null;
+  periodEnd: Date | null;
+  provider: PaymentProviderName | null;
+  providerId: string | null;
+  note: string | null;
+  createdAt: Date;
+}
+
+export interface SubscriptionStore {
+  /**
+   * Subscriptions still live (trialing, active, suspended or canceled)
+   * whose period ended at or before `now`
+   */
+  listDue(now: Date): Promise<TrackedSubscription[]>;
+
+  /**
+   * Update the purchase and write the matching history row
+   */
+  applyTransition(
+    subscription: TrackedSubscription,
+    transition: SubscriptionTransition,
+    at: Date
+  ): Promise<void>;
+}
+
+export const LIVE_SUBSCRIPTION_STATUSES = ["trialing", "active", "suspended", "canceled"];
+
+export function toHistoryRecord(
+  subscription: TrackedSubscription,
+  transition: SubscriptionTransition,
+  at: Date
+): SubscriptionHistoryRecord {
+  return {
+    productType: subscription.productType,
+    purchaseId: subscription.purchaseId,
+    userId: subscription.userId,
+    event: transition.event,
+    fromStatus: subscription.status,
+    toStatus: transition.status,
+    previousPeriodEnd: subscription.periodEnd,
+    periodEnd: transition.periodEnd ?? subscription.periodEnd,
+    provider: subscription.provider,
+    providerId: subscription.providerId,
+    note: transition.note ?? null,
+    createdAt: at,
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * Free trials
+ */
+
+export * from "./trialPolicy";
+export {
+  TrialError,
+  trialEndsAt,
+  getTrialEligibility,
+  hasUsedTrial,
+  reserveTrial,
+  findPendingTrial,
+  startTrial,
+  linkTrialPurchase,
+  getPurchaseTrial,
+  settleTrial,
+  getUnpaidTrialPurchaseIds,
+  getTrialAnalytics,
+} from "./trialService";
+export type { TrialAnalytics, TrialProductType } from "./trialService";
@@ -0,0 +1,101 @@
+/**
+ * Tests for trial rules
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  evaluateTrialEligibility,
+  getTrialDays,
+  nextTrialStatus,
+  summarizeTrials,
+  withTrial,
+} from "./trialPolicy";
+
+describe("getTrialDays", () => {
+  it("uses the configured length per product", () => {
+    expect(getTrialDays({ product: "bot", botId: 7 })).toBe(7);
+    expect(getTrialDays({ product: "content_master" })).toBe(7);
+    expect(getTrialDays({ product: "bot", botId: 1 })).toBe(0);
+  });
+});
+
+describe("evaluateTrialEligibility", () => {
+  it("allows one trial per product", () => {
+    expect(evaluateTrialEligibility(7, null, false)).toEqual({ eligible: true, trialDays: 7 });
+    expect(evaluateTrialEligibility(7, "pending", false).eligible).toBe(true);
+    expect(evaluateTrialEligibility(7, "expired", false)).toEqual({
+      eligible: false,
+      reason: "You have already used your free trial",
+    });
+    expect(evaluateTrialEligibility(7, "converted", false).eligible).toBe(false);
+  });
+
+  it("refuses products without a trial and customers who already have access", () => {
+    expect(evaluateTrialEligibility(0, null, false).eligible).toBe(false);
+    expect(evaluateTrialEligibility(7, null, true).eligible).toBe(false);
+  });
+});
+
+describe("nextTrialStatus", () => {
+  it("converts on the first charge after the trial", () => {
+    expect(nextTrialStatus("trialing", "renewed")).toBe("converted");
+    expect(nextTrialStatus("converted", "renewed")).toBeNull();
+  });
+
+  it("keeps a trial open while the first charge is retried", () => {
+    expect(nextTrialStatus("trialing", "suspended")).toBeNull();
+    expect(nextTrialStatus("trialing", "expired")).toBe("expired");
+  });
+
+  it("reopens a canceled trial that is resumed", () => {
+    expect(nextTrialStatus("trialing", "canceled")).toBe("canceled");
+    expect(nextTrialStatus("canceled", "resumed")).toBe("trialing");
+    expect(nextTrialStatus("canceled", "expired")).toBeNull();
+  });
+});
+
+describe("withTrial", () => {
+  it("keys the plan by trial length", () => {
+    const plan = {
+      key: "bot_custom_monthly",
+      name: "Custom Bot Monthly",
+      amountCents: 1999,
+      currency: "usd",
+      interval: "month" as const,
+    };
+
+    expect(withTrial(plan, 7)).toEqual({ ...plan, key: "bot_custom_monthly_trial7", trialDays: 7 });
+  });
+});
+
+describe("summarizeTrials", () => {
+  const startedAt = new Date("2024-05-01T00:00:00Z");
+
+  it("reports conversion among finished trials", () => {
+    const summary = summarizeTrials([
+      { status: "converted", startedAt, convertedAt: new Date("2024-05-08T00:00:00Z") },
+      { status: "converted", startedAt, convertedAt: new Date("2024-05-10T00:00:00Z") },
+      { status: "canceled", startedAt, convertedAt: null },
+      { status: "expired", startedAt, convertedAt: null },
+      { status: "trialing", startedAt, convertedAt: null },
+      { status: "pending", startedAt: null, convertedAt: null },
+    ]);
+
+    expect(summary).toEqual({
+      started: 5,
+      trialing: 1,
+      converted: 2,
+      canceled: 1,
+      expired: 1,
+      conversionRate: 0.5,
+      averageDaysToConvert: 8,
+    });
+  });
+
+  it("reports no conversion before any trial finishes", () => {
+    expect(summarizeTrials([{ status: "trialing", startedAt, convertedAt: null }])).toMatchObject({
+      conversionRate: 0,
+      averageDaysToConvert: null,
+    });
+  });
+});
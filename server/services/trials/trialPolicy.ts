@@ -0,0 +1,128 @@
+/**
+ * Trial Rules
+ * Trial lengths per product, who may start one, and how a trial ends,
+ * without touching the database or a payment provider
+ */
+
+import type { BillingPlan } from "../payments/paymentProvider";
+import type { SubscriptionEvent } from "../subscriptions/subscriptionStore";
+
+export type TrialTarget = { product: "content_master" } | { product: "bot"; botId: number };
+
+export type TrialStatus = "pending" | "trialing" | "converted" | "canceled" | "expired";
+
+/**
+ * Free days before the first charge, by product key.
+ * Products without an entry have no trial.
+ */
+export const TRIAL_DAYS: Record<string, number> = {
+  content_master: 7,
+  // Custom Bot Builder
+  "bot:7": 7,
+};
+
+export function trialProductKey(target: TrialTarget): string {
+  return target.product === "bot" ? `bot:${target.botId}` : target.product;
+}
+
+export function getTrialDays(target: TrialTarget): number {
+  return TRIAL_DAYS[trialProductKey(target)] ?? 0;
+}
+
+export type TrialEligibility =
+  | { eligible: true; trialDays: number }
+  | { eligible: false; reason: string };
+
+/**
+ * One trial per user and product. A pending trial is an abandoned or
+ * unfinished checkout, so it does not use the trial up.
+ */
+export function evaluateTrialEligibility(
+  trialDays: number,
+  previousTrial: TrialStatus | null,
+  entitled: boolean
+): TrialEligibility {
+  if (trialDays <= 0) return { eligible: false, reason: "This product has no free trial" };
+  if (entitled) return { eligible: false, reason: "You already have access to this product" };
+  if (previousTrial && previousTrial !== "pending") {
+    return { eligible: false, reason: "You have already used your free trial" };
+  }
+  return { eligible: true, trialDays };
+}
+
+/**
+ * The provider plan for a subscription starting with a free trial. The key
+ * includes the trial length, so PayPal keeps a billing plan per length.
+ */
+export function withTrial(plan: BillingPlan, trialDays: number): BillingPlan {
+  return { ...plan, key: `${plan.key}_trial${trialDays}`, trialDays };
+}
+
+/**
+ * Trial status after an event on the purchase the trial started, or null
+ * when the event does not settle the trial
+ */
+export function nextTrialStatus(current: TrialStatus, event: SubscriptionEvent): TrialStatus | null {
+  if (current === "trialing") {
+    switch (event) {
+      // The first charge after the trial went through
+      case "renewed":
+        return "converted";
+      case "canceled":
+        return "canceled";
+      case "expired":
+      case "refunded":
+        return "expired";
+      default:
+        return null;
+    }
+  }
+  if (current === "canceled" && event === "resumed") return "trialing";
+  return null;
+}
+
+export interface TrialSummaryRow {
+  status: string;
+  startedAt: Date | null;
+  convertedAt: Date | null;
+}
+
+export interface TrialSummary {
+  started: number;
+  trialing: number;
+  converted: number;
+  canceled: number;
+  expired: number;
+  // Share of finished trials that converted to paid
+  conversionRate: number;
+  averageDaysToConvert: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function summarizeTrials(rows: TrialSummaryRow[]): TrialSummary {
+  const started = rows.filter((row) => row.status !== "pending" && row.startedAt);
+  const count = (status: TrialStatus) => started.filter((row) => row.status === status).length;
+
+  const converted = started.filter((row) => row.status === "converted");
+  const canceled = count("canceled");
+  const expired = count("expired");
+  const finished = converted.length + canceled + expired;
+
+  const daysToConvert = converted
+    .filter((row) => row.convertedAt)
+    .map((row) => (row.convertedAt!.getTime() - row.startedAt!.getTime()) / DAY_MS);
+
+  return {
+    started: started.length,
+    trialing: count("trialing"),
+    converted: converted.length,
+    canceled,
+    expired,
+    conversionRate: finished > 0 ? converted.length / finished : 0,
+    averageDaysToConvert:
+      daysToConvert.length > 0
+        ? daysToConvert.reduce((sum, days) => sum + days, 0) / daysToConvert.length
+        : null,
+  };
+}
@@ -0,0 +1,282 @@
+/**
+ * Trial Service
+ * Holds a trial while the customer is at the provider's checkout, starts it
+ * once the checkout completes and settles it as the subscription moves on
+ */
+
+import { getDb } from "../../db";
+import { trials, type Trial } from "../../../drizzle/billing_schema";
+import { and, desc, eq, gte, ne, notExists } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { logger } from "../../_core/logger";
+import type { PaymentProviderName } from "../payments/paymentProvider";
+import type { PurchaseTransaction } from "../payments/purchaseLinks";
+import type { SubscriptionEvent } from "../subscriptions/subscriptionStore";
+import { entitlementService } from "../entitlements/entitlementService";
+import {
+  evaluateTrialEligibility,
+  getTrialDays,
+  nextTrialStatus,
+  summarizeTrials,
+  trialProductKey,
+  type TrialEligibility,
+  type TrialStatus,
+  type TrialSummary,
+  type TrialTarget,
+} from "./trialPolicy";
+
+export class TrialError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TrialError";
+  }
+}
+
+export type TrialProductType = "content_master" | "bot";
+
+export interface TrialAnalytics {
+  overall: TrialSummary;
+  byProduct: Array<TrialSummary & { productKey: string }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function trialEndsAt(startedAt: Date, trialDays: number): Date {
+  return new Date(startedAt.getTime() + trialDays * DAY_MS);
+}
+
+/**
+ * Status of the customer's latest started trial of the product; pending
+ * reservations of unfinished checkouts do not count
+ */
+async function findTrialStatus(userId: number, target: TrialTarget): Promise<TrialStatus | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [previous] = await db
+    .select({ status: trials.status })
+    .from(trials)
+    .where(
+      and(
+        eq(trials.userId, userId),
+        eq(trials.productKey, trialProductKey(target)),
+        ne(trials.status, "pending")
+      )
+    )
+    .orderBy(desc(trials.id))
+    .limit(1);
+
+  return (previous?.status as TrialStatus | undefined) ?? null;
+}
+
+export async function getTrialEligibility(
+  userId: number,
+  target: TrialTarget
+): Promise<TrialEligibility> {
+  const previous = await findTrialStatus(userId, target);
+  const entitled = await entitlementService.isEntitled({ id: userId }, target);
+  return evaluateTrialEligibility(getTrialDays(target), previous, entitled);
+}
+
+/**
+ * Whether the customer has started a trial of the product before, which
+ * rules out a trial promo code as well
+ */
+export async function hasUsedTrial(userId: number, target: TrialTarget): Promise<boolean> {
+  return (await findTrialStatus(userId, target)) !== null;
+}
+
+/**
+ * Hold a trial for a checkout the customer is about to approve. Earlier
+ * reservations are kept, as their checkouts may still complete.
+ */
+export async function reserveTrial(reservation: {
+  userId: number;
+  target: TrialTarget;
+  trialDays: number;
+  provider: PaymentProviderName;
+  checkoutId: string;
+}): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  await db.insert(trials).values({
+    userId: reservation.userId,
+    productType: reservation.target.product,
+    productKey: trialProductKey(reservation.target),
+    provider: reservation.provider,
+    checkoutId: reservation.checkoutId,
+    trialDays: reservation.trialDays,
+  });
+}
+
+export async function findPendingTrial(
+  provider: PaymentProviderName,
+  checkoutId: string
+): Promise<Trial | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [trial] = await db
+    .select()
+    .from(trials)
+    .where(
+      and(
+        eq(trials.provider, provider),
+        eq(trials.checkoutId, checkoutId),
+        eq(trials.status, "pending")
+      )
+    )
+    .limit(1);
+
+  return trial ?? null;
+}
+
+/**
+ * Start a reserved trial in the transaction that creates its purchase.
+ * Returns null when the customer started a trial of the product from another
+ * checkout meanwhile; that purchase is paid for from the start.
+ */
+export async function startTrial(
+  tx: PurchaseTransaction,
+  trial: Trial,
+  startedAt: Date
+): Promise<Trial | null> {
+  const started = alias(trials, "started");
+  const [row] = await tx
+    .update(trials)
+    .set({ status: "trialing", startedAt, endsAt: trialEndsAt(startedAt, trial.trialDays) })
+    .where(
+      and(
+        eq(trials.id, trial.id),
+        eq(trials.status, "pending"),
+        notExists(
+          tx
+            .select({ id: started.id })
+            .from(started)
+            .where(
+              and(
+                eq(started.userId, trial.userId),
+                eq(started.productKey, trial.productKey),
+                ne(started.status, "pending")
+              )
+            )
+        )
+      )
+    )
+    .returning();
+
+  if (!row) {
+    logger.info(`Trial ${trial.id} of ${trial.productKey} not started: user ${trial.userId} already had one`);
+    return null;
+  }
+  logger.info(
+    `Trial ${row.id} of ${row.productKey} started for user ${row.userId}, ends ${row.endsAt?.toISOString()}`
+  );
+  return row;
+}
+
+/**
+ * Point a trial started by startTrial at the purchase created with it
+ */
+export async function linkTrialPurchase(
+  tx: PurchaseTransaction,
+  trial: Trial,
+  purchaseId: number
+): Promise<void> {
+  await tx.update(trials).set({ purchaseId }).where(eq(trials.id, trial.id));
+}
+
+export async function getPurchaseTrial(
+  productType: TrialProductType,
+  purchaseId: number
+): Promise<Trial | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const [trial] = await db
+    .select()
+    .from(trials)
+    .where(and(eq(trials.productType, productType), eq(trials.purchaseId, purchaseId)))
+    .limit(1);
+
+  return trial ?? null;
+}
+
+/**
+ * Move the purchase's trial on after a subscription event; a no-op for
+ * purchases that did not start with a trial
+ */
+export async function settleTrial(
+  productType: TrialProductType,
+  purchaseId: number,
+  event: SubscriptionEvent,
+  at: Date = new Date()
+): Promise<void> {
+  const trial = await getPurchaseTrial(productType, purchaseId);
+  if (!trial) return;
+
+  const status = nextTrialStatus(trial.status as TrialStatus, event);
+  if (!status) return;
+
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  await db
+    .update(trials)
+    .set({
+      status,
+      convertedAt: status === "converted" ? at : null,
+      endedAt: status === "trialing" || status === "converted" ? null : at,
+    })
+    .where(eq(trials.id, trial.id));
+
+  logger.info(`Trial ${trial.id} of ${trial.productKey} is now ${status}`);
+}
+
+/**
+ * Purchases that started as a trial and have not been paid for, so revenue
+ * reports can leave them out
+ */
+export async function getUnpaidTrialPurchaseIds(productType: TrialProductType): Promise<Set<number>> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const rows = await db
+    .select({ purchaseId: trials.purchaseId, status: trials.status })
+    .from(trials)
+    .where(and(eq(trials.productType, productType), ne(trials.status, "converted")));
+
+  return new Set(rows.flatMap((row) => (row.purchaseId === null ? [] : [row.purchaseId])));
+}
+
+/**
+ * Trial outcomes overall and per product, for trials started since `since`
+ */
+export async function getTrialAnalytics(since?: Date): Promise<TrialAnalytics> {
+  const db = await getDb();
+  if (!db) throw new Error("Database unavailable");
+
+  const rows = await db
+    .select({
+      productKey: trials.productKey,
+      status: trials.status,
+      startedAt: trials.startedAt,
+      convertedAt: trials.convertedAt,
+    })
+    .from(trials)
+    .where(since ? gte(trials.startedAt, since) : undefined);
+
+  const byProduct = new Map<string, typeof rows>();
+  for (const row of rows) {
+    byProduct.set(row.productKey, [...(byProduct.get(row.productKey) ?? []), row]);
+  }
+
+  return {
+    overall: summarizeTrials(rows),
+    byProduct: Array.from(byProduct.entries()).map(([productKey, productRows]) => ({
+      productKey,
+      ...summarizeTrials(productRows),
+    })),
+  };
+}
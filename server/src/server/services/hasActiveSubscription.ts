@@ -1,15 +1,8 @@
-import { db } from "../db";
-import { contentMasterPurchases } from "../../drizzle/schema";
-import { eq } from "drizzle-orm";
+import { entitlementService } from "./entitlements";
 
+/**
+ * Content Master access, decided by the shared entitlement rules
+ */
 export async function hasActiveSubscription(userId: number) {
-  if (!db) return false;
-
-  const sub = await db
-    .select()
-    .from(contentMasterPurchases)
-    .where(eq(contentMasterPurchases.userId, userId))
-    .limit(1);
-
-  return sub.length > 0 && sub[0].status === "completed";
+  return entitlementService.isEntitled({ id: userId }, { product: "content_master" });
 }
@@ -1,20 +1,415 @@
 import { db } from "../db";
-import { contentMasterPurchases } from "../../drizzle/schema";
+import {
+  contentMasterPurchases,
+  userBotPurchases,
+  paypalSubscriptions,
+} from "../../drizzle/schema";
+import { and, eq } from "drizzle-orm";
+import { logger } from "../_core/logger";
+import { CONTENT_MASTER_PLANS, paymentService } from "../contentMaster/paymentService";
+import { completeBotSubscription } from "../services/botCheckout";
+import { getPaymentProvider, type BillingPlan } from "../services/payments";
+import {
+  decodePaymentReference,
+  type PaymentReference,
+} from "../services/payments/paymentReference";
+import { findPurchaseLink, updateLinkedPurchaseStatus } from "../services/payments/purchaseLinks";
+import { completePromoRedemption, findPromoRedemption } from "../services/promos/promoService";
+import { MusicError, recordSongPurchase } from "../services/music/musicService";
+import { BundleError, recordBundlePurchase } from "../services/bundles/bundleService";
+import { GiftError, recordGiftPayment } from "../services/gifts/giftService";
+import { hasIssuedRefund } from "../services/refunds/refundService";
+import { completePlanChange } from "../services/subscriptions/planChangeService";
+import { CheckoutPlanError, assertCheckoutPlan } from "../services/subscriptions/checkoutPlan";
+import { catalogBillingPlan, getCatalogBot } from "../services/catalog";
+import {
+  PayPalWebhookSignatureError,
+  verifyPayPalWebhookSignature,
+} from "./paypalSignature";
+import { markWebhookEvent, recordWebhookEvent } from "./webhookEventLog";
 
-export async function handlePayPalWebhook(event: any) {
+export { PayPalWebhookSignatureError };
+
+interface PayPalWebhookEvent {
+  id: string;
+  event_type: string;
+  resource?: { id?: string };
+}
+
+/**
+ * A one-time payment capture
+ */
+interface PayPalCaptureResource {
+  id: string;
+  custom_id?: string;
+  amount?: { value: string; currency_code: string };
+  create_time?: string;
+  supplementary_data?: { related_ids?: { order_id?: string } };
+}
+
+/**
+ * A billing subscription
+ */
+interface PayPalSubscriptionResource {
+  id: string;
+  custom_id?: string;
+}
+
+/**
+ * A refunded subscription payment; older agreements carry the reference in `custom`
+ */
+interface PayPalSaleRefundResource {
+  id: string;
+  sale_id?: string;
+  billing_agreement_id?: string;
+  custom?: string;
+  custom_id?: string;
+}
+
+interface PayPalResources {
+  "PAYMENT.CAPTURE.COMPLETED": PayPalCaptureResource;
+  "PAYMENT.CAPTURE.DENIED": PayPalCaptureResource;
+  "BILLING.SUBSCRIPTION.ACTIVATED": PayPalSubscriptionResource;
+  "BILLING.SUBSCRIPTION.CANCELLED": PayPalSubscriptionResource;
+  "BILLING.SUBSCRIPTION.SUSPENDED": PayPalSubscriptionResource;
+  "BILLING.SUBSCRIPTION.EXPIRED": PayPalSubscriptionResource;
+  "PAYMENT.SALE.REFUNDED": PayPalSaleRefundResource;
+}
+
+type HandledEventType = keyof PayPalResources;
+
+// A handled event, its resource typed by event_type
+type HandledPayPalEvent = {
+  [T in HandledEventType]: { id: string; event_type: T; resource: PayPalResources[T] };
+}[HandledEventType];
+
+const HANDLED_EVENT_TYPES: Record<HandledEventType, true> = {
+  "PAYMENT.CAPTURE.COMPLETED": true,
+  "PAYMENT.CAPTURE.DENIED": true,
+  "BILLING.SUBSCRIPTION.ACTIVATED": true,
+  "BILLING.SUBSCRIPTION.CANCELLED": true,
+  "BILLING.SUBSCRIPTION.SUSPENDED": true,
+  "BILLING.SUBSCRIPTION.EXPIRED": true,
+  "PAYMENT.SALE.REFUNDED": true,
+};
+
+type HandlerResult = "processed" | "ignored";
+
+const SUBSCRIPTION_STATUS_BY_EVENT: Record<string, string> = {
+  "BILLING.SUBSCRIPTION.CANCELLED": "canceled",
+  "BILLING.SUBSCRIPTION.SUSPENDED": "suspended",
+  "BILLING.SUBSCRIPTION.EXPIRED": "expired",
+};
+
+/**
+ * Verify, log and dispatch a PayPal webhook delivery.
+ * Throws PayPalWebhookSignatureError for unverifiable requests; any other
+ * error leaves the event as "failed" so PayPal's retry reprocesses it.
+ */
+export async function handlePayPalWebhook(rawBody: string, headers: Headers) {
+  const verified = await verifyPayPalWebhookSignature(headers, rawBody);
+  if (!verified) {
+    throw new PayPalWebhookSignatureError("Invalid PayPal webhook signature");
+  }
+
+  const event = JSON.parse(rawBody) as PayPalWebhookEvent;
+  if (!event.id || !event.event_type) {
+    throw new Error("Malformed PayPal webhook event");
+  }
+
+  const logged = await recordWebhookEvent({
+    provider: "paypal",
+    eventId: event.id,
+    eventType: event.event_type,
+    resourceId: event.resource?.id,
+    payload: event,
+  });
+  if (!logged) {
+    logger.info(`Skipping duplicate PayPal event ${event.id}`);
+    return { received: true, duplicate: true };
+  }
+
+  try {
+    const status = await dispatchEvent(event);
+    await markWebhookEvent(logged.id, status);
+    return { received: true, duplicate: false, status };
+  } catch (error) {
+    logger.error(`Failed to process PayPal event ${event.id}:`, error);
+    await markWebhookEvent(logged.id, "failed", error);
+    throw error;
+  }
+}
+
+function isHandledEvent(event: PayPalWebhookEvent): event is HandledPayPalEvent {
+  return event.event_type in HANDLED_EVENT_TYPES && typeof event.resource?.id === "string";
+}
+
+async function dispatchEvent(event: PayPalWebhookEvent): Promise<HandlerResult> {
+  if (!isHandledEvent(event)) {
+    logger.info(`Ignoring PayPal event type ${event.event_type}`);
+    return "ignored";
+  }
+
+  switch (event.event_type) {
+    case "PAYMENT.CAPTURE.COMPLETED":
+      return handleCaptureCompleted(event.resource);
+    case "PAYMENT.CAPTURE.DENIED":
+      return handleCaptureDenied(event.resource);
+    case "BILLING.SUBSCRIPTION.ACTIVATED":
+      return handleSubscriptionActivated(event.resource);
+    case "BILLING.SUBSCRIPTION.CANCELLED":
+    case "BILLING.SUBSCRIPTION.SUSPENDED":
+    case "BILLING.SUBSCRIPTION.EXPIRED":
+      return updateSubscriptionStatus(
+        event.resource.id,
+        decodePaymentReference(event.resource.custom_id),
+        SUBSCRIPTION_STATUS_BY_EVENT[event.event_type]
+      );
+    case "PAYMENT.SALE.REFUNDED": {
+      const resource = event.resource;
+      if (!resource.billing_agreement_id) return "ignored";
+      // Admin refunds already applied their entitlement policy
+      if (resource.sale_id && (await hasIssuedRefund("paypal", resource.sale_id))) return "ignored";
+      return updateSubscriptionStatus(
+        resource.billing_agreement_id,
+        decodePaymentReference(resource.custom ?? resource.custom_id),
+        "refunded"
+      );
+    }
+  }
+}
+
+/**
+ * One-time capture, used for the lifetime Content Master plan, songs, bundles and gifts
+ */
+async function handleCaptureCompleted(resource: PayPalCaptureResource): Promise<HandlerResult> {
+  const reference = decodePaymentReference(resource.custom_id);
+  if (reference?.kind === "song") {
+    try {
+      await recordSongPurchase({
+        userId: reference.userId,
+        songId: reference.songId,
+        provider: "paypal",
+        paymentId: resource.id,
+        amountCents: Math.round(Number(resource.amount?.value) * 100),
+        currency: String(resource.amount?.currency_code ?? "").toLowerCase(),
+        paidAt: resource.create_time ? new Date(resource.create_time) : new Date(),
+      });
+    } catch (error) {
+      // Retrying cannot fix an underpaid or unknown song
+      if (!(error instanceof MusicError)) throw error;
+      logger.warn(`PayPal capture ${resource.id} not recorded: ${error.message}`);
+      return "ignored";
+    }
+    return "processed";
+  }
+
+  if (reference?.kind === "bundle") {
+    try {
+      await recordBundlePurchase({
+        userId: reference.userId,
+        bundleId: reference.bundleId,
+        provider: "paypal",
+        paymentId: resource.id,
+        amountCents: Math.round(Number(resource.amount?.value) * 100),
+        currency: String(resource.amount?.currency_code ?? "").toLowerCase(),
+        paidAt: resource.create_time ? new Date(resource.create_time) : new Date(),
+      });
+    } catch (error) {
+      // Retrying cannot fix an underpaid or unknown bundle
+      if (!(error instanceof BundleError)) throw error;
+      logger.warn(`PayPal capture ${resource.id} not recorded: ${error.message}`);
+      return "ignored";
+    }
+    return "processed";
+  }
+
+  if (reference?.kind === "gift") {
+    try {
+      await recordGiftPayment({
+        userId: reference.userId,
+        giftId: reference.giftId,
+        provider: "paypal",
+        paymentId: resource.id,
+        amountCents: Math.round(Number(resource.amount?.value) * 100),
+        currency: String(resource.amount?.currency_code ?? "").toLowerCase(),
+        paidAt: resource.create_time ? new Date(resource.create_time) : new Date(),
+      });
+    } catch (error) {
+      // Retrying cannot fix an underpaid or unknown gift
+      if (!(error instanceof GiftError)) throw error;
+      logger.warn(`PayPal capture ${resource.id} not recorded: ${error.message}`);
+      return "ignored";
+    }
+    return "processed";
+  }
+
+  if (reference?.kind !== "content_master") {
+    logger.warn(`PayPal capture ${resource.id} has no Content Master reference`);
+    return "ignored";
+  }
+
+  const plan = CONTENT_MASTER_PLANS[reference.planId];
+  // Promo redemptions are recorded against the order the capture belongs to
+  const orderId = resource.supplementary_data?.related_ids?.order_id;
+  const redemption = orderId ? await findPromoRedemption("paypal", orderId) : null;
+  const paidCents = Math.round(Number(resource.amount?.value) * 100);
+  const currency = String(resource.amount?.currency_code ?? "").toLowerCase();
+  if (currency !== plan.currency || !(paidCents >= (redemption?.amountCents ?? plan.price * 100))) {
+    logger.warn(
+      `PayPal capture ${resource.id} amount ${resource.amount?.value} ${currency} does not cover plan ${plan.id}`
+    );
+    return "ignored";
+  }
+
+  const existing = await paymentService.findByProviderId("paypal", resource.id);
+  if (existing) return "ignored";
+
+  await paymentService.handlePaymentSuccess(
+    reference.userId.toString(),
+    reference.planId,
+    resource.id,
+    "paypal"
+  );
+  if (orderId) await completePromoRedemption("paypal", orderId);
+  return "processed";
+}
+
+async function handleCaptureDenied(resource: PayPalCaptureResource): Promise<HandlerResult> {
+  if (!db) throw new Error("DB not initialized");
+
+  const link = await updateLinkedPurchaseStatus("paypal", resource.id, "denied");
+  if (!link) {
+    await db
+      .update(contentMasterPurchases)
+      .set({ status: "denied" })
+      .where(eq(contentMasterPurchases.stripeSubscriptionId, resource.id));
+  }
+
+  logger.warn(`PayPal capture ${resource.id} was denied`);
+  return "processed";
+}
+
+/**
+ * Subscription approved by the buyer. Creates the purchase if the client
+ * never came back to complete it, otherwise just reactivates it.
+ */
+async function handleSubscriptionActivated(resource: PayPalSubscriptionResource): Promise<HandlerResult> {
+  const reference = decodePaymentReference(resource.custom_id);
+  if (!reference) {
+    logger.warn(`PayPal subscription ${resource.id} has no payment reference`);
+    return "ignored";
+  }
+
+  if (reference.kind === "bot") {
+    const bot = await getCatalogBot(reference.botId);
+    if (!bot) {
+      logger.warn(`PayPal subscription ${resource.id} is for unknown bot ${reference.botId}`);
+      return "ignored";
+    }
+    const completed = await findPurchaseLink("paypal", resource.id);
+    const plan = catalogBillingPlan(bot, reference.interval);
+    if (!completed && !(await verifySubscriptionPlan(resource.id, plan))) return "ignored";
+    await completeBotSubscription(
+      reference.userId.toString(),
+      reference.botId,
+      resource.id,
+      reference.interval,
+      "paypal"
+    );
+    return "processed";
+  }
+
+  if (reference.kind === "plan_change") {
+    await completePlanChange(reference.userId, reference.planChangeId);
+    return "processed";
+  }
+
+  if (reference.kind === "song" || reference.kind === "bundle" || reference.kind === "gift") {
+    logger.warn(`PayPal subscription ${resource.id} has a ${reference.kind} reference`);
+    return "ignored";
+  }
+
+  // Lifetime access is only ever sold as a one-time capture
+  const plan = CONTENT_MASTER_PLANS[reference.planId];
+  if (!plan?.interval) {
+    logger.warn(`PayPal subscription ${resource.id} has a ${reference.planId} Content Master reference`);
+    return "ignored";
+  }
+
+  const existing = await paymentService.findByProviderId("paypal", resource.id);
+  if (existing) {
+    return updateSubscriptionStatus(resource.id, reference, "active");
+  }
+  if (!(await verifySubscriptionPlan(resource.id, paymentService.getBillingPlan(plan)))) {
+    return "ignored";
+  }
+
+  await paymentService.handlePaymentSuccess(
+    reference.userId.toString(),
+    reference.planId,
+    resource.id,
+    "paypal",
+    resource.id
+  );
+  await completePromoRedemption("paypal", resource.id);
+  return "processed";
+}
+
+/**
+ * Anyone can start a PayPal subscription with a copied custom_id, so the
+ * plan it bills has to be the one its checkout was created with
+ */
+async function verifySubscriptionPlan(subscriptionId: string, plan: BillingPlan): Promise<boolean> {
+  const provider = getPaymentProvider("paypal");
+  try {
+    const status = await provider.getSubscriptionStatus(subscriptionId);
+    await assertCheckoutPlan(provider, status, plan, subscriptionId);
+    return true;
+  } catch (error) {
+    // Retrying cannot fix a subscription on the wrong plan
+    if (!(error instanceof CheckoutPlanError)) throw error;
+    logger.warn(`PayPal subscription ${subscriptionId} not recorded: ${error.message}`);
+    return false;
+  }
+}
+
+async function updateSubscriptionStatus(
+  subscriptionId: string,
+  reference: PaymentReference | null,
+  status: string
+): Promise<HandlerResult> {
   if (!db) throw new Error("DB not initialized");
 
-  if (event.event_type === "PAYMENT.CAPTURE.COMPLETED") {
-    const purchase = event.resource;
+  await db
+    .update(paypalSubscriptions)
+    .set({ status })
+    .where(eq(paypalSubscriptions.paypalSubscriptionId, subscriptionId));
+
+  const link = await updateLinkedPurchaseStatus("paypal", subscriptionId, status);
+  if (link) {
+    logger.info(`PayPal subscription ${subscriptionId} is now ${status}`);
+    return "processed";
+  }
+
+  // Purchases completed before provider links were recorded
+  await db
+    .update(contentMasterPurchases)
+    .set(status === "canceled" ? { status, canceledAt: new Date() } : { status })
+    .where(eq(contentMasterPurchases.stripeSubscriptionId, subscriptionId));
 
-    await db.insert(contentMasterPurchases).values({
-      userId: Number(purchase.custom_id),
-      planType: purchase.description,
-      amount: Number(purchase.amount.value),
-      status: "completed",
-      createdAt: new Date(),
-    });
+  if (reference?.kind === "bot") {
+    await db
+      .update(userBotPurchases)
+      .set({ status })
+      .where(
+        and(
+          eq(userBotPurchases.userId, reference.userId),
+          eq(userBotPurchases.botId, reference.botId)
+        )
+      );
   }
 
-  return { received: true };
+  logger.info(`PayPal subscription ${subscriptionId} is now ${status}`);
+  return "processed";
 }
@@ -0,0 +1,85 @@
+/**
+ * Tests for PayPal webhook signature verification
+ */
+
+import { describe, it, expect } from "vitest";
+import { generateKeyPairSync, createSign } from "crypto";
+import {
+  buildSignedMessage,
+  crc32,
+  verifyPayPalWebhookSignature,
+  PayPalWebhookSignatureError,
+} from "./paypalSignature";
+
+describe("PayPal Webhook Signature", () => {
+  const { publicKey, privateKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const certificatePem = publicKey.export({ type: "spki", format: "pem" }).toString();
+  const webhookId = "WH-TEST-123";
+  const rawBody = JSON.stringify({
+    id: "WH-EVT-1",
+    event_type: "PAYMENT.CAPTURE.COMPLETED",
+    resource: { id: "CAP-1", custom_id: "cm:12:lifetime", amount: { value: "299.00", currency_code: "USD" } },
+  });
+
+  function signedHeaders(body: string, overrides: Record<string, string> = {}) {
+    const transmission = {
+      transmissionId: "c5e3f2a0-1111-2222-3333-444455556666",
+      transmissionTime: "2024-05-01T12:00:00Z",
+    };
+    const signature = createSign("RSA-SHA256")
+      .update(buildSignedMessage(transmission, webhookId, body))
+      .sign(privateKey, "base64");
+
+    return new Headers({
+      "paypal-transmission-id": transmission.transmissionId,
+      "paypal-transmission-time": transmission.transmissionTime,
+      "paypal-transmission-sig": signature,
+      "paypal-cert-url": "https://api.paypal.com/v1/notifications/certs/CERT-1",
+      "paypal-auth-algo": "SHA256withRSA",
+      ...overrides,
+    });
+  }
+
+  it("should compute the IEEE CRC32 of the body", () => {
+    expect(crc32("123456789")).toBe(0xcbf43926);
+    expect(crc32("")).toBe(0);
+  });
+
+  it("should accept a correctly signed delivery", async () => {
+    const valid = await verifyPayPalWebhookSignature(signedHeaders(rawBody), rawBody, {
+      webhookId,
+      certificatePem,
+    });
+    expect(valid).toBe(true);
+  });
+
+  it("should reject a tampered body", async () => {
+    const forged = rawBody.replace("299.00", "0.01");
+    const valid = await verifyPayPalWebhookSignature(signedHeaders(rawBody), forged, {
+      webhookId,
+      certificatePem,
+    });
+    expect(valid).toBe(false);
+  });
+
+  it("should reject a delivery signed for another webhook", async () => {
+    const valid = await verifyPayPalWebhookSignature(signedHeaders(rawBody), rawBody, {
+      webhookId: "WH-OTHER",
+      certificatePem,
+    });
+    expect(valid).toBe(false);
+  });
+
+  it("should throw when transmission headers are missing", async () => {
+    await expect(
+      verifyPayPalWebhookSignature(new Headers(), rawBody, { webhookId, certificatePem })
+    ).rejects.toBeInstanceOf(PayPalWebhookSignatureError);
+  });
+
+  it("should refuse to fetch certificates from untrusted hosts", async () => {
+    const headers = signedHeaders(rawBody, { "paypal-cert-url": "https://evil.example.com/cert.pem" });
+    await expect(
+      verifyPayPalWebhookSignature(headers, rawBody, { webhookId })
+    ).rejects.toThrow("Untrusted PayPal cert URL");
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * PayPal Webhook Signature Verification
+ * Verifies the transmission signature PayPal attaches to every webhook delivery.
+ * See https://developer.paypal.com/api/rest/webhooks/rest/#link-eventheadervalidation
+ */
+
+import { createVerify } from "crypto";
+
+export interface PayPalWebhookConfig {
+  webhookId: string;
+  // PEM certificate or public key. When unset the cert is fetched from paypal-cert-url.
+  certificatePem?: string;
+}
+
+export interface PayPalTransmissionHeaders {
+  transmissionId: string;
+  transmissionTime: string;
+  transmissionSig: string;
+  certUrl: string;
+  authAlgo: string;
+}
+
+export class PayPalWebhookSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PayPalWebhookSignatureError";
+  }
+}
+
+type HeaderSource = Headers | Record<string, string | string[] | undefined>;
+
+const certCache = new Map<string, string>();
+
+export function getPayPalWebhookConfig(): PayPalWebhookConfig {
+  const webhookId = process.env.PAYPAL_WEBHOOK_ID;
+  if (!webhookId) {
+    throw new PayPalWebhookSignatureError("PAYPAL_WEBHOOK_ID is not configured");
+  }
+
+  return {
+    webhookId,
+    certificatePem: process.env.PAYPAL_WEBHOOK_CERT || undefined,
+  };
+}
+
+function readHeader(headers: HeaderSource, name: string): string | undefined {
+  if (typeof (headers as Headers).get === "function") {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, string | string[] | undefined>)[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+export function readTransmissionHeaders(headers: HeaderSource): PayPalTransmissionHeaders {
+  const transmissionId = readHeader(headers, "paypal-transmission-id");
+  const transmissionTime = readHeader(headers, "paypal-transmission-time");
+  const transmissionSig = readHeader(headers, "paypal-transmission-sig");
+  const certUrl = readHeader(headers, "paypal-cert-url");
+  const authAlgo = readHeader(headers, "paypal-auth-algo");
+
+  if (!transmissionId || !transmissionTime || !transmissionSig || !certUrl || !authAlgo) {
+    throw new PayPalWebhookSignatureError("Missing PayPal transmission headers");
+  }
+
+  return { transmissionId, transmissionTime, transmissionSig, certUrl, authAlgo };
+}
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC32 (IEEE) of the raw request body, as an unsigned decimal
+ */
+export function crc32(data: string | Buffer): number {
+  const bytes = typeof data === "string" ? Buffer.from(data, "utf8") : data;
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC32_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * The string PayPal signs: <transmissionId>|<timeStamp>|<webhookId>|<crc32>
+ */
+export function buildSignedMessage(
+  transmission: Pick<PayPalTransmissionHeaders, "transmissionId" | "transmissionTime">,
+  webhookId: string,
+  rawBody: string
+): string {
+  return `${transmission.transmissionId}|${transmission.transmissionTime}|${webhookId}|${crc32(rawBody)}`;
+}
+
+function assertTrustedCertUrl(certUrl: string) {
+  let url: URL;
+  try {
+    url = new URL(certUrl);
+  } catch {
+    throw new PayPalWebhookSignatureError("Invalid PayPal cert URL");
+  }
+
+  const host = url.hostname.toLowerCase();
+  if (url.protocol !== "https:" || !(host === "paypal.com" || host.endsWith(".paypal.com"))) {
+    throw new PayPalWebhookSignatureError(`Untrusted PayPal cert URL: ${certUrl}`);
+  }
+}
+
+async function fetchCertificate(certUrl: string): Promise<string> {
+  const cached = certCache.get(certUrl);
+  if (cached) return cached;
+
+  assertTrustedCertUrl(certUrl);
+  const response = await fetch(certUrl);
+  if (!response.ok) {
+    throw new PayPalWebhookSignatureError(`Failed to fetch PayPal cert (${response.status})`);
+  }
+
+  const pem = await response.text();
+  certCache.set(certUrl, pem);
+  return pem;
+}
+
+/**
+ * Verify a webhook delivery. Returns false on a bad signature and throws
+ * PayPalWebhookSignatureError when the request cannot be verified at all.
+ */
+export async function verifyPayPalWebhookSignature(
+  headers: HeaderSource,
+  rawBody: string,
+  config: PayPalWebhookConfig = getPayPalWebhookConfig()
+): Promise<boolean> {
+  const transmission = readTransmissionHeaders(headers);
+
+  if (transmission.authAlgo.toUpperCase() !== "SHA256WITHRSA") {
+    throw new PayPalWebhookSignatureError(`Unsupported auth algorithm: ${transmission.authAlgo}`);
+  }
+
+  const certificate = config.certificatePem ?? (await fetchCertificate(transmission.certUrl));
+  const message = buildSignedMessage(transmission, config.webhookId, rawBody);
+
+  try {
+    return createVerify("RSA-SHA256")
+      .update(message)
+      .verify(certificate, transmission.transmissionSig, "base64");
+  } catch (error) {
+    throw new PayPalWebhookSignatureError(
+      `Signature check failed: ${error instanceof Error ? error.message : "Unknown error"}`
+    );
+  }
+}
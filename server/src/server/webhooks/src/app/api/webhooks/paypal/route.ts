@@ -1,7 +1,16 @@
-import { handlePayPalWebhook } from "@/server/webhooks/paypal";
+import { handlePayPalWebhook, PayPalWebhookSignatureError } from "@/server/webhooks/paypal";
 
 export async function POST(req: Request) {
-  const body = await req.json();
-  await handlePayPalWebhook(body);
-  return Response.json({ ok: true });
+  // Signature verification needs the exact bytes PayPal sent
+  const rawBody = await req.text();
+
+  try {
+    const result = await handlePayPalWebhook(rawBody, req.headers);
+    return Response.json({ ok: true, duplicate: result.duplicate });
+  } catch (error) {
+    if (error instanceof PayPalWebhookSignatureError) {
+      return Response.json({ ok: false, error: "Invalid signature" }, { status: 401 });
+    }
+    return Response.json({ ok: false }, { status: 500 });
+  }
 }
@@ -0,0 +1,310 @@
+import Stripe from "stripe";
+import { logger } from "../_core/logger";
+import { CONTENT_MASTER_PLANS, paymentService } from "../contentMaster/paymentService";
+import { completeBotSubscription } from "../services/botCheckout";
+import { decodePaymentReference } from "../services/payments/paymentReference";
+import { updateLinkedPurchaseStatus } from "../services/payments/purchaseLinks";
+import { createStripeClient } from "../services/payments/stripeProvider";
+import { completePromoRedemption, findPromoRedemption } from "../services/promos/promoService";
+import { MusicError, recordSongPurchase } from "../services/music/musicService";
+import { BundleError, recordBundlePurchase } from "../services/bundles/bundleService";
+import { GiftError, recordGiftPayment } from "../services/gifts/giftService";
+import { hasIssuedRefund } from "../services/refunds/refundService";
+import { findPendingTrial } from "../services/trials/trialService";
+import { completePlanChange } from "../services/subscriptions/planChangeService";
+import { markWebhookEvent, recordWebhookEvent } from "./webhookEventLog";
+
+type HandlerResult = "processed" | "ignored";
+
+export class StripeWebhookSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StripeWebhookSignatureError";
+  }
+}
+
+const SUBSCRIPTION_STATUS: Record<string, string> = {
+  active: "active",
+  trialing: "trialing",
+  past_due: "suspended",
+  unpaid: "suspended",
+  paused: "suspended",
+  canceled: "expired",
+  incomplete_expired: "expired",
+};
+
+let stripeClient: Stripe | null = null;
+
+function getStripe(): Stripe {
+  if (!stripeClient) {
+    stripeClient = createStripeClient();
+  }
+  return stripeClient;
+}
+
+function idOf(value: string | { id: string } | null | undefined): string | null {
+  if (!value) return null;
+  return typeof value === "string" ? value : value.id;
+}
+
+/**
+ * Verify, log and dispatch a Stripe webhook delivery.
+ * Throws StripeWebhookSignatureError for unverifiable requests; any other
+ * error leaves the event as "failed" so Stripe's retry reprocesses it.
+ */
+export async function handleStripeWebhook(
+  rawBody: string,
+  signature: string | null,
+  stripe: Stripe = getStripe()
+) {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new StripeWebhookSignatureError("STRIPE_WEBHOOK_SECRET is not configured");
+  }
+  if (!signature) {
+    throw new StripeWebhookSignatureError("Missing Stripe-Signature header");
+  }
+
+  let event: Stripe.Event;
+  try {
+    event = stripe.webhooks.constructEvent(rawBody, signature, secret);
+  } catch (error) {
+    throw new StripeWebhookSignatureError(
+      error instanceof Error ? error.message : "Invalid Stripe webhook signature"
+    );
+  }
+
+  const logged = await recordWebhookEvent({
+    provider: "stripe",
+    eventId: event.id,
+    eventType: event.type,
+    resourceId: (event.data.object as { id?: string }).id,
+    payload: event,
+  });
+  if (!logged) {
+    logger.info(`Skipping duplicate Stripe event ${event.id}`);
+    return { received: true, duplicate: true };
+  }
+
+  try {
+    const status = await dispatchEvent(event, stripe);
+    await markWebhookEvent(logged.id, status);
+    return { received: true, duplicate: false, status };
+  } catch (error) {
+    logger.error(`Failed to process Stripe event ${event.id}:`, error);
+    await markWebhookEvent(logged.id, "failed", error);
+    throw error;
+  }
+}
+
+async function dispatchEvent(event: Stripe.Event, stripe: Stripe): Promise<HandlerResult> {
+  switch (event.type) {
+    case "checkout.session.completed":
+    case "checkout.session.async_payment_succeeded":
+      return handleCheckoutCompleted(event.data.object);
+    case "customer.subscription.updated": {
+      const subscription = event.data.object;
+      // A pending cancellation keeps the subscription active (or trialing) on Stripe's side
+      const status =
+        (subscription.status === "active" || subscription.status === "trialing") &&
+        subscription.cancel_at_period_end
+          ? "canceled"
+          : SUBSCRIPTION_STATUS[subscription.status];
+      if (!status) return "ignored";
+      return updateSubscriptionStatus(subscription.id, status);
+    }
+    case "customer.subscription.deleted":
+      // Stripe deletes the subscription once it has actually ended
+      return updateSubscriptionStatus(event.data.object.id, "expired");
+    case "charge.refunded":
+      return handleChargeRefunded(event.data.object, stripe);
+    default:
+      logger.info(`Ignoring Stripe event type ${event.type}`);
+      return "ignored";
+  }
+}
+
+/**
+ * Checkout finished on Stripe. Creates the purchase if the client never
+ * came back to complete it.
+ */
+async function handleCheckoutCompleted(
+  session: Stripe.Checkout.Session
+): Promise<HandlerResult> {
+  if (session.payment_status === "unpaid") {
+    // Delayed payment methods follow up with async_payment_succeeded
+    return "ignored";
+  }
+
+  const reference = decodePaymentReference(
+    session.metadata?.reference ?? session.client_reference_id ?? undefined
+  );
+  if (!reference) {
+    logger.warn(`Stripe session ${session.id} has no payment reference`);
+    return "ignored";
+  }
+
+  if (reference.kind === "bot") {
+    const subscriptionId = idOf(session.subscription);
+    if (!subscriptionId) return "ignored";
+
+    await completeBotSubscription(
+      reference.userId.toString(),
+      reference.botId,
+      subscriptionId,
+      reference.interval,
+      "stripe",
+      session.id
+    );
+    return "processed";
+  }
+
+  if (reference.kind === "plan_change") {
+    await completePlanChange(reference.userId, reference.planChangeId);
+    return "processed";
+  }
+
+  if (reference.kind === "song") {
+    const paymentIntentId = idOf(session.payment_intent);
+    if (!paymentIntentId) return "ignored";
+
+    try {
+      await recordSongPurchase({
+        userId: reference.userId,
+        songId: reference.songId,
+        provider: "stripe",
+        paymentId: paymentIntentId,
+        amountCents: session.amount_total ?? 0,
+        currency: session.currency ?? "",
+        paidAt: new Date(session.created * 1000),
+      });
+    } catch (error) {
+      // Retrying cannot fix an underpaid or unknown song
+      if (!(error instanceof MusicError)) throw error;
+      logger.warn(`Stripe session ${session.id} not recorded: ${error.message}`);
+      return "ignored";
+    }
+    return "processed";
+  }
+
+  if (reference.kind === "bundle") {
+    const paymentIntentId = idOf(session.payment_intent);
+    if (!paymentIntentId) return "ignored";
+
+    try {
+      await recordBundlePurchase({
+        userId: reference.userId,
+        bundleId: reference.bundleId,
+        provider: "stripe",
+        paymentId: paymentIntentId,
+        amountCents: session.amount_total ?? 0,
+        currency: session.currency ?? "",
+        paidAt: new Date(session.created * 1000),
+      });
+    } catch (error) {
+      // Retrying cannot fix an underpaid or unknown bundle
+      if (!(error instanceof BundleError)) throw error;
+      logger.warn(`Stripe session ${session.id} not recorded: ${error.message}`);
+      return "ignored";
+    }
+    return "processed";
+  }
+
+  if (reference.kind === "gift") {
+    const paymentIntentId = idOf(session.payment_intent);
+    if (!paymentIntentId) return "ignored";
+
+    try {
+      await recordGiftPayment({
+        userId: reference.userId,
+        giftId: reference.giftId,
+        provider: "stripe",
+        paymentId: paymentIntentId,
+        amountCents: session.amount_total ?? 0,
+        currency: session.currency ?? "",
+        paidAt: new Date(session.created * 1000),
+      });
+    } catch (error) {
+      // Retrying cannot fix an underpaid or unknown gift
+      if (!(error instanceof GiftError)) throw error;
+      logger.warn(`Stripe session ${session.id} not recorded: ${error.message}`);
+      return "ignored";
+    }
+    return "processed";
+  }
+
+  const plan = CONTENT_MASTER_PLANS[reference.planId];
+  const providerId = plan.interval ? idOf(session.subscription) : idOf(session.payment_intent);
+  if (!providerId) return "ignored";
+
+  const redemption = await findPromoRedemption("stripe", session.id);
+  // Nothing is charged up front for a free trial
+  const trial = await findPendingTrial("stripe", session.id);
+  const expectedCents = trial ? 0 : (redemption?.amountCents ?? plan.price * 100);
+  if ((session.amount_total ?? 0) < expectedCents || session.currency !== plan.currency) {
+    logger.warn(
+      `Stripe session ${session.id} amount ${session.amount_total} ${session.currency} does not cover plan ${plan.id}`
+    );
+    return "ignored";
+  }
+
+  const existing = await paymentService.findByProviderId("stripe", providerId);
+  if (existing) return "ignored";
+
+  await paymentService.handlePaymentSuccess(
+    reference.userId.toString(),
+    reference.planId,
+    providerId,
+    "stripe",
+    session.id
+  );
+  await completePromoRedemption("stripe", session.id);
+  return "processed";
+}
+
+/**
+ * Full refunds revoke the purchase paid by the charge, whether it was a
+ * one-time payment or an invoice of a subscription
+ */
+async function handleChargeRefunded(
+  charge: Stripe.Charge,
+  stripe: Stripe
+): Promise<HandlerResult> {
+  if (!charge.refunded) {
+    logger.info(`Stripe charge ${charge.id} was partially refunded`);
+    return "ignored";
+  }
+
+  const paymentIntentId = idOf(charge.payment_intent);
+  // Admin refunds already applied their entitlement policy
+  if (paymentIntentId && (await hasIssuedRefund("stripe", paymentIntentId))) {
+    return "ignored";
+  }
+  if (paymentIntentId) {
+    const link = await updateLinkedPurchaseStatus("stripe", paymentIntentId, "refunded");
+    if (link) return "processed";
+  }
+
+  const invoiceId = idOf(charge.invoice);
+  if (!invoiceId) return "ignored";
+
+  const invoice = await stripe.invoices.retrieve(invoiceId);
+  const subscriptionId = idOf(invoice.subscription);
+  if (!subscriptionId) return "ignored";
+
+  return updateSubscriptionStatus(subscriptionId, "refunded");
+}
+
+async function updateSubscriptionStatus(
+  subscriptionId: string,
+  status: string
+): Promise<HandlerResult> {
+  const link = await updateLinkedPurchaseStatus("stripe", subscriptionId, status);
+  if (!link) {
+    logger.warn(`Stripe subscription ${subscriptionId} is not linked to a purchase`);
+    return "ignored";
+  }
+
+  logger.info(`Stripe subscription ${subscriptionId} is now ${status}`);
+  return "processed";
+}
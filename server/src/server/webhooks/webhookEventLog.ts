@@ -0,0 +1,89 @@
+/**
+ * Webhook Event Log
+ * Shared idempotency log for PayPal and Stripe webhook deliveries
+ */
+
+import { db } from "../db";
+import { paymentWebhookEvents } from "../../drizzle/billing_schema";
+import { and, eq, lt, or, sql } from "drizzle-orm";
+import type { PaymentProviderName } from "../services/payments/paymentProvider";
+
+export type WebhookEventStatus = "processed" | "ignored" | "failed";
+
+export interface WebhookEventInput {
+  provider: PaymentProviderName;
+  eventId: string;
+  eventType: string;
+  resourceId?: string | null;
+  payload: unknown;
+}
+
+// A delivery still "received" after this long died mid-processing
+const STALE_RECEIVED_MS = 10 * 60 * 1000;
+
+/**
+ * Insert the event into the log. Returns null when it was already handled
+ * or is being handled; failed events, and ones whose processing never
+ * finished, are claimed again by exactly one retry.
+ */
+export async function recordWebhookEvent(event: WebhookEventInput) {
+  if (!db) throw new Error("DB not initialized");
+
+  const [inserted] = await db
+    .insert(paymentWebhookEvents)
+    .values({
+      provider: event.provider,
+      eventId: event.eventId,
+      eventType: event.eventType,
+      resourceId: event.resourceId ?? null,
+      payload: event.payload,
+    })
+    .onConflictDoNothing({
+      target: [paymentWebhookEvents.provider, paymentWebhookEvents.eventId],
+    })
+    .returning();
+
+  if (inserted) return inserted;
+
+  const now = new Date();
+  const [claimed] = await db
+    .update(paymentWebhookEvents)
+    .set({
+      status: "received",
+      attempts: sql`${paymentWebhookEvents.attempts} + 1`,
+      receivedAt: now,
+    })
+    .where(
+      and(
+        eq(paymentWebhookEvents.provider, event.provider),
+        eq(paymentWebhookEvents.eventId, event.eventId),
+        or(
+          eq(paymentWebhookEvents.status, "failed"),
+          and(
+            eq(paymentWebhookEvents.status, "received"),
+            lt(paymentWebhookEvents.receivedAt, new Date(now.getTime() - STALE_RECEIVED_MS))
+          )
+        )
+      )
+    )
+    .returning();
+
+  return claimed ?? null;
+}
+
+export async function markWebhookEvent(
+  id: number,
+  status: WebhookEventStatus,
+  error?: unknown
+) {
+  if (!db) throw new Error("DB not initialized");
+
+  await db
+    .update(paymentWebhookEvents)
+    .set(
+      status === "failed"
+        ? { status, error: error instanceof Error ? error.message : "Unknown error" }
+        : { status, error: null, processedAt: new Date() }
+    )
+    .where(eq(paymentWebhookEvents.id, id));
+}